@@ -4,8 +4,16 @@
 
 import { Router, type Request, type Response, type NextFunction } from 'express';
 import { z } from 'zod';
-import { ExecutionPipeline, type PipelineConfig } from '../pipeline/execution-pipeline.js';
-import type { PipelineContext, ActionSource } from '../types/index.js';
+import {
+  ExecutionPipeline,
+  MAX_REGENERATIONS,
+  pickReusableGateResults,
+  type PipelineConfig,
+  type PipelineStreamHooks,
+  type TurnGateResults,
+} from '../pipeline/execution-pipeline.js';
+import type { PipelineContext, PipelineResult, ActionSource } from '../types/index.js';
+import { createSSEWriter, wantsEventStream, type SSEWriter } from './sse.js';
 import { storeManager } from '../storage/index.js';
 import {
   auth,
@@ -14,6 +22,17 @@ import {
   getRecentVetoCount,
 } from '../auth/index.js';
 import { conversations } from '../conversations/index.js';
+import { getSearchService } from '../search/index.js';
+import {
+  getUsageLedger,
+  enforceBudget,
+  runWithUsageScope,
+  isPeriodKey,
+  periodKey,
+  QuotaExceededError,
+  type UsagePeriod,
+  type UsageScope,
+} from '../usage/index.js';
 import { getWebObserver } from '../services/web/index.js';
 import { loadConfig, canVerify } from '../config/index.js';
 import {
@@ -32,6 +51,7 @@ import {
   type CreateMemoryRequest,
   type UpdateMemoryRequest,
 } from '../core/memory/index.js';
+import { createNotificationsRouter, createEmailUnsubscribeRouter } from './routes/notifications.js';
 
 // ─────────────────────────────────────────────────────────────────────────────────
 // REQUEST SCHEMAS
@@ -47,6 +67,12 @@ const ChatRequestSchema = z.object({
   }).optional(),
 });
 
+const EditMessageRequestSchema = ChatRequestSchema.omit({ conversationId: true });
+
+const SwitchBranchRequestSchema = z.object({
+  messageId: z.string().min(1),
+});
+
 const ParseCommandRequestSchema = z.object({
   command: z.string().min(1).max(10000),
   source: z.enum(['ui_button', 'command_parser', 'api_field']),
@@ -71,6 +97,120 @@ export class ClientError extends Error {
   }
 }
 
+// ─────────────────────────────────────────────────────────────────────────────────
+// USAGE HELPERS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Check the caller's monthly LLM budget and build the usage scope for the
+ * turn. Throws QuotaExceededError past the tier's hard limit. Anonymous
+ * callers are recorded but not budgeted.
+ */
+async function budgetedUsageScope(req: AuthenticatedRequest): Promise<UsageScope> {
+  if (!req.user) {
+    return { userId: req.userId };
+  }
+
+  const budget = await enforceBudget(req.user.userId, req.user.tier);
+  return {
+    userId: req.user.userId,
+    tenantId: req.user.tenantId,
+    tier: req.user.tier,
+    economy: budget.state === 'economy',
+  };
+}
+
+/**
+ * Parse `?period=day|month&date=YYYY-MM[-DD]` for the usage endpoints.
+ */
+function parseUsagePeriod(query: Request['query']): { period: UsagePeriod; key: string } {
+  const period: UsagePeriod = query.period === 'day' ? 'day' : 'month';
+  const key = typeof query.date === 'string' ? query.date : periodKey(period);
+  if (!isPeriodKey(period, key)) {
+    throw new ClientError(`date must be ${period === 'day' ? 'YYYY-MM-DD' : 'YYYY-MM'}`);
+  }
+  return { period, key };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// BRANCH HELPERS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Search covers the active branch only: drop messages that are now on
+ * another branch from the user's index and index the ones that are back.
+ */
+async function syncBranchSearchIndex(userId: string, conversationId: string): Promise<void> {
+  const [all, active] = await Promise.all([
+    conversations.getAllMessages(conversationId),
+    conversations.getMessages(conversationId, -1),
+  ]);
+  await getSearchService().syncMessageBranch(userId, conversationId, all, new Set(active.map(m => m.id)));
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CHAT STREAMING HELPERS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+interface ChatStreamProgress {
+  tokensStreamed: number;
+}
+
+/**
+ * Pipeline hooks that forward gate progress and model tokens to an SSE stream.
+ */
+function createChatStreamHooks(sse: SSEWriter, progress: ChatStreamProgress): PipelineStreamHooks {
+  return {
+    onGate: (gateId, result) => {
+      sse.send({
+        type: 'gate',
+        gate: gateId,
+        status: result.status,
+        action: result.action,
+        executionTimeMs: result.executionTimeMs,
+      });
+    },
+    onToken: (text) => {
+      progress.tokensStreamed++;
+      sse.send({ type: 'chunk', data: text });
+    },
+    onReplace: (text) => {
+      sse.send({ type: 'replace', data: text });
+    },
+  };
+}
+
+/**
+ * Emit the final events for a streamed chat turn and close the stream.
+ *
+ * Responses that never reached the model stage (shield stops, ack prompts,
+ * SwordGate replies) are sent as a single chunk. Streamed tokens that the
+ * personality gate edited or regenerated were already superseded by a
+ * `replace` event, and the `done` metadata always carries the authoritative
+ * `message`.
+ */
+function finishChatStream(
+  sse: SSEWriter,
+  result: PipelineResult,
+  progress: ChatStreamProgress,
+  body: Record<string, unknown>
+): void {
+  if (progress.tokensStreamed === 0 && result.response) {
+    sse.send({ type: 'chunk', data: result.response });
+  }
+
+  sse.send({
+    type: 'done',
+    metadata: {
+      ...body,
+      type: result.status === 'stopped' || result.status === 'await_ack' ? result.status : 'success',
+      message: result.response,
+      requestId: result.metadata.requestId,
+    },
+  });
+  sse.close();
+}
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // ROUTER CONFIG
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -166,11 +306,25 @@ export async function createRouterAsync(config: RouterConfig = {}): Promise<Rout
   router.get('/providers', (_req: Request, res: Response) => {
     res.json({
       available: pipeline.getAvailableProviders(),
+      order: pipeline.getProviderOrder(),
       preferred: config.preferredProvider ?? 'openai',
       useMock: config.useMockProvider ?? false,
     });
   });
 
+  // Probes providers (including a local model server), so not public
+  router.get('/providers/health', auth.middleware(true), async (_req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const providers = await pipeline.checkProviderHealth();
+      res.json({
+        healthy: providers.some(p => p.healthy),
+        providers,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
   // ─────────────────────────────────────────────────────────────────────────────
   // AUTH ENDPOINTS
   // ─────────────────────────────────────────────────────────────────────────────
@@ -244,7 +398,16 @@ export async function createRouterAsync(config: RouterConfig = {}): Promise<Rout
   // CHAT ENDPOINT
   // ─────────────────────────────────────────────────────────────────────────────
 
-  router.post('/chat', ...protectedMiddleware, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const handleChat = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+    stream: boolean,
+    editMessageId?: string
+  ) => {
+    const sse = stream ? createSSEWriter(res) : null;
+    const progress: ChatStreamProgress = { tokensStreamed: 0 };
+
     try {
       // DEBUG: Check pipeline state on each request
       console.log('[CHAT DEBUG] Pipeline state:', {
@@ -264,6 +427,7 @@ export async function createRouterAsync(config: RouterConfig = {}): Promise<Rout
       const { message, conversationId, ackToken, context: reqContext } = parseResult.data;
       const userId = req.userId ?? 'anonymous';
       const requestId = crypto.randomUUID();
+      const usageScope = await budgetedUsageScope(req);
 
       // Get or create conversation and session
       const convId = conversationId ?? crypto.randomUUID();
@@ -274,8 +438,15 @@ export async function createRouterAsync(config: RouterConfig = {}): Promise<Rout
         session = await auth.session.create(userId, convId);
       }
 
-      // Store user message
-      await conversations.addUserMessage(convId, message);
+      // Store user message; an edit forks the conversation at the edited message
+      if (editMessageId) {
+        if (!await conversations.forkMessage(convId, editMessageId, message)) {
+          throw new ClientError('Only user messages can be edited');
+        }
+        await syncBranchSearchIndex(userId, convId);
+      } else {
+        await conversations.addUserMessage(convId, message);
+      }
 
       // Build context from conversation history
       const contextWindow = await conversations.buildContext(convId);
@@ -283,6 +454,7 @@ export async function createRouterAsync(config: RouterConfig = {}): Promise<Rout
       // Build pipeline context
       const pipelineContext: PipelineContext = {
         userId,
+        tenantId: req.user?.tenantId,
         conversationId: convId,
         requestId,
         timestamp: Date.now(),
@@ -293,6 +465,7 @@ export async function createRouterAsync(config: RouterConfig = {}): Promise<Rout
           role: m.role,
           content: m.content,
         })),
+        conversationSummary: contextWindow.summary ?? undefined,
       };
 
       // Validate ack token if provided
@@ -306,7 +479,11 @@ export async function createRouterAsync(config: RouterConfig = {}): Promise<Rout
       }
 
       // Execute pipeline
-      const result = await pipeline.execute(message, pipelineContext);
+      const result = await runWithUsageScope(usageScope, () => pipeline.execute(
+        message,
+        pipelineContext,
+        sse ? createChatStreamHooks(sse, progress) : {}
+      ));
 
       // Store assistant message (if response generated)
       if (result.response) {
@@ -314,6 +491,7 @@ export async function createRouterAsync(config: RouterConfig = {}): Promise<Rout
           stance: result.stance,
           status: result.status,
           tokensUsed: result.gateResults.model?.output?.tokensUsed,
+          gateResults: pickReusableGateResults(result.gateResults),
         });
       }
 
@@ -328,11 +506,6 @@ export async function createRouterAsync(config: RouterConfig = {}): Promise<Rout
         tokenCount: result.gateResults.model?.output?.tokensUsed ?? 0,
       });
 
-      // Track token usage
-      if (result.gateResults.model?.output?.tokensUsed) {
-        await auth.trackTokenUsage(userId, result.gateResults.model.output.tokensUsed);
-      }
-
       // Store ack token if returned
       if (result.ackToken) {
         await auth.ackTokens.store(result.ackToken, userId);
@@ -356,7 +529,7 @@ export async function createRouterAsync(config: RouterConfig = {}): Promise<Rout
       const updatedConv = await conversations.get(convId);
 
       // Include conversation info in response
-      res.json({
+      const body = {
         ...result,
         conversation: {
           id: convId,
@@ -364,17 +537,44 @@ export async function createRouterAsync(config: RouterConfig = {}): Promise<Rout
           messageCount: updatedConv?.messageCount ?? conversation.messageCount + 2,
           contextTruncated: contextWindow.truncated,
         },
-      });
+      };
+
+      if (sse) {
+        finishChatStream(sse, result, progress, { ...body, conversationId: convId });
+      } else {
+        res.json(body);
+      }
     } catch (error) {
-      next(error);
+      if (sse?.started) {
+        sse.send({ type: 'error', error: error instanceof Error ? error.message : 'Stream failed' });
+        sse.close();
+      } else {
+        next(error);
+      }
     }
-  });
+  };
+
+  router.post('/chat', ...protectedMiddleware, (req: AuthenticatedRequest, res: Response, next: NextFunction) =>
+    handleChat(req, res, next, wantsEventStream(req))
+  );
+
+  router.post('/chat/stream', ...protectedMiddleware, (req: AuthenticatedRequest, res: Response, next: NextFunction) =>
+    handleChat(req, res, next, true)
+  );
 
   // ─────────────────────────────────────────────────────────────────────────────
   // ENHANCED CHAT ENDPOINT (with Memory + Sword integration)
   // ─────────────────────────────────────────────────────────────────────────────
 
-  router.post('/chat/enhanced', ...protectedMiddleware, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const handleEnhancedChat = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+    stream: boolean
+  ) => {
+    const sse = stream ? createSSEWriter(res) : null;
+    const progress: ChatStreamProgress = { tokensStreamed: 0 };
+
     try {
       const parseResult = ChatRequestSchema.safeParse(req.body);
       if (!parseResult.success) {
@@ -386,6 +586,7 @@ export async function createRouterAsync(config: RouterConfig = {}): Promise<Rout
       const { message, conversationId, context: reqContext } = parseResult.data;
       const userId = req.userId ?? 'anonymous';
       const requestId = crypto.randomUUID();
+      const usageScope = await budgetedUsageScope(req);
 
       // Import enhanced pipeline dynamically to avoid circular deps
       const { createEnhancedPipeline } = await import('../pipeline/enhanced-pipeline.js');
@@ -397,26 +598,22 @@ export async function createRouterAsync(config: RouterConfig = {}): Promise<Rout
       });
 
       // Execute enhanced pipeline
-      const result = await enhancedPipeline.execute(message, {
+      const result = await runWithUsageScope(usageScope, () => enhancedPipeline.execute(message, {
         userId,
+        tenantId: req.user?.tenantId,
         conversationId,
         requestId,
         timestamp: Date.now(),
         actionSources: [],
         timezone: reqContext?.timezone,
         locale: reqContext?.locale,
-      });
+      }, sse ? createChatStreamHooks(sse, progress) : {}));
 
       // Track veto if shield stopped
       if (result.status === 'stopped' || result.status === 'await_ack') {
         await trackVeto(userId);
       }
 
-      // Track token usage
-      if (result.gateResults.model?.output?.tokensUsed) {
-        await auth.trackTokenUsage(userId, result.gateResults.model.output.tokensUsed);
-      }
-
       // Audit log
       await auth.audit.log({
         userId,
@@ -432,7 +629,7 @@ export async function createRouterAsync(config: RouterConfig = {}): Promise<Rout
         },
       });
 
-      res.json({
+      const body = {
         status: result.status,
         response: result.response,
         stance: result.stance,
@@ -461,11 +658,30 @@ export async function createRouterAsync(config: RouterConfig = {}): Promise<Rout
           profileUpdated: result.hooks?.post.profileUpdated ?? false,
           goalProgressUpdated: result.hooks?.post.goalProgressUpdated ?? false,
         },
-      });
+      };
+
+      if (sse) {
+        finishChatStream(sse, result, progress, body);
+      } else {
+        res.json(body);
+      }
     } catch (error) {
-      next(error);
+      if (sse?.started) {
+        sse.send({ type: 'error', error: error instanceof Error ? error.message : 'Stream failed' });
+        sse.close();
+      } else {
+        next(error);
+      }
     }
-  });
+  };
+
+  router.post('/chat/enhanced', ...protectedMiddleware, (req: AuthenticatedRequest, res: Response, next: NextFunction) =>
+    handleEnhancedChat(req, res, next, wantsEventStream(req))
+  );
+
+  router.post('/chat/enhanced/stream', ...protectedMiddleware, (req: AuthenticatedRequest, res: Response, next: NextFunction) =>
+    handleEnhancedChat(req, res, next, true)
+  );
 
   // ─────────────────────────────────────────────────────────────────────────────
   // CONTEXT PREVIEW ENDPOINT
@@ -601,6 +817,257 @@ export async function createRouterAsync(config: RouterConfig = {}): Promise<Rout
     }
   });
 
+  // Edit a message (invalidates summaries covering it)
+  router.patch('/conversations/:id/messages/:messageId', auth.middleware(true), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      const messageId = req.params.messageId as string;
+      const { content } = req.body ?? {};
+
+      if (typeof content !== 'string' || content.trim().length === 0) {
+        throw new ClientError('content must be a non-empty string');
+      }
+
+      const conversation = await conversations.get(id);
+      if (!conversation || conversation.userId !== req.userId) {
+        throw new ClientError('Conversation not found', 404);
+      }
+
+      const message = await conversations.editMessage(id, messageId, content);
+      if (!message) {
+        throw new ClientError('Message not found', 404);
+      }
+
+      res.json(message);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Delete a message (invalidates summaries covering it)
+  router.delete('/conversations/:id/messages/:messageId', auth.middleware(true), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      const messageId = req.params.messageId as string;
+
+      const conversation = await conversations.get(id);
+      if (!conversation || conversation.userId !== req.userId) {
+        throw new ClientError('Conversation not found', 404);
+      }
+
+      if (!await conversations.deleteMessage(id, messageId)) {
+        throw new ClientError('Message not found', 404);
+      }
+
+      await auth.audit.log({
+        userId: req.userId!,
+        action: 'delete_message',
+        details: { conversationId: id, messageId },
+      });
+
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Edit a past user message: fork a branch there and re-run the turn
+  router.post('/conversations/:id/messages/:messageId/edit', ...protectedMiddleware, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      const messageId = req.params.messageId as string;
+
+      const parseResult = EditMessageRequestSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        throw new ClientError(
+          `Invalid request: ${parseResult.error.issues.map(i => i.message).join(', ')}`
+        );
+      }
+
+      const conversation = await conversations.get(id);
+      if (!conversation || conversation.userId !== req.userId) {
+        throw new ClientError('Conversation not found', 404);
+      }
+
+      const original = await conversations.getMessage(id, messageId);
+      if (!original) {
+        throw new ClientError('Message not found', 404);
+      }
+      if (original.role !== 'user') {
+        throw new ClientError('Only user messages can be edited');
+      }
+
+      req.body = { ...parseResult.data, conversationId: id };
+      await handleChat(req, res, next, wantsEventStream(req), messageId);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Regenerate a response, reusing the turn's upstream gate results
+  router.post('/conversations/:id/messages/:messageId/regenerate', ...protectedMiddleware, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const sse = wantsEventStream(req) ? createSSEWriter(res) : null;
+    const progress: ChatStreamProgress = { tokensStreamed: 0 };
+
+    try {
+      const id = req.params.id as string;
+      const messageId = req.params.messageId as string;
+      const userId = req.userId ?? 'anonymous';
+      const requestId = crypto.randomUUID();
+
+      const conversation = await conversations.get(id);
+      if (!conversation || conversation.userId !== req.userId) {
+        throw new ClientError('Conversation not found', 404);
+      }
+
+      const original = await conversations.getMessage(id, messageId);
+      if (!original) {
+        throw new ClientError('Message not found', 404);
+      }
+      const snapshot = original.metadata?.gateResults as TurnGateResults | undefined;
+      const prompt = original.parentId ? await conversations.getMessage(id, original.parentId) : null;
+      // Shield stops and ack prompts are not model output and stay as they are
+      const regenerable = original.metadata?.status === 'success' || original.metadata?.status === 'degraded';
+      if (original.role !== 'assistant' || !snapshot || !regenerable || prompt?.role !== 'user') {
+        throw new ClientError('This message cannot be regenerated', 409);
+      }
+
+      // Same cap as the pipeline's own regeneration loop, per turn
+      const variants = (await conversations.listBranches(id, messageId))!.filter(b => b.role === 'assistant');
+      if (variants.length > MAX_REGENERATIONS) {
+        throw new ClientError(`A response can be regenerated at most ${MAX_REGENERATIONS} times`, 409);
+      }
+
+      const usageScope = await budgetedUsageScope(req);
+      const contextWindow = await conversations.buildContext(id, undefined, prompt.id);
+
+      const pipelineContext: PipelineContext = {
+        userId,
+        tenantId: req.user?.tenantId,
+        conversationId: id,
+        requestId,
+        timestamp: Date.now(),
+        actionSources: [],
+        conversationHistory: contextWindow.messages.slice(0, -1).map(m => ({
+          role: m.role,
+          content: m.content,
+        })),
+        conversationSummary: contextWindow.summary ?? undefined,
+      };
+
+      const result = await runWithUsageScope(usageScope, () => pipeline.regenerate(
+        prompt.content,
+        pipelineContext,
+        snapshot,
+        sse ? createChatStreamHooks(sse, progress) : {}
+      ));
+
+      const variant = result.response && result.status !== 'error'
+        ? await conversations.addResponseVariant(id, original, result.response, {
+            stance: result.stance,
+            status: result.status,
+            tokensUsed: result.gateResults.model?.output?.tokensUsed,
+            gateResults: snapshot,
+          })
+        : null;
+      if (variant) {
+        await syncBranchSearchIndex(userId, id);
+      }
+
+      await auth.audit.log({
+        userId,
+        action: 'regenerate',
+        requestId,
+        stance: result.stance,
+        status: result.status,
+        details: {
+          conversationId: id,
+          messageId,
+          variantId: variant?.id,
+          regenerations: result.metadata.regenerations,
+          tokensUsed: result.gateResults.model?.output?.tokensUsed,
+        },
+      });
+
+      const body = {
+        ...result,
+        conversation: {
+          id,
+          regeneratedFrom: original.metadata?.regeneratedFrom ?? original.id,
+          variantId: variant?.id ?? null,
+          variantCount: variants.length + (variant ? 1 : 0),
+        },
+      };
+
+      if (sse) {
+        finishChatStream(sse, result, progress, { ...body, conversationId: id });
+      } else {
+        res.json(body);
+      }
+    } catch (error) {
+      if (sse?.started) {
+        sse.send({ type: 'error', error: error instanceof Error ? error.message : 'Stream failed' });
+        sse.close();
+      } else {
+        next(error);
+      }
+    }
+  });
+
+  // List the branches at a message (the message and its alternative edits)
+  router.get('/conversations/:id/messages/:messageId/branches', auth.middleware(true), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      const messageId = req.params.messageId as string;
+
+      const conversation = await conversations.get(id);
+      if (!conversation || conversation.userId !== req.userId) {
+        throw new ClientError('Conversation not found', 404);
+      }
+
+      const branches = await conversations.listBranches(id, messageId);
+      if (!branches) {
+        throw new ClientError('Message not found', 404);
+      }
+
+      res.json({ conversationId: id, messageId, branches });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Switch the active branch to the one through a message
+  router.put('/conversations/:id/active-branch', auth.middleware(true), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+
+      const parseResult = SwitchBranchRequestSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        throw new ClientError('messageId is required');
+      }
+
+      const conversation = await conversations.get(id);
+      if (!conversation || conversation.userId !== req.userId) {
+        throw new ClientError('Conversation not found', 404);
+      }
+
+      const messages = await conversations.switchBranch(id, parseResult.data.messageId);
+      if (!messages) {
+        throw new ClientError('Message not found', 404);
+      }
+      await syncBranchSearchIndex(req.userId!, id);
+
+      res.json({
+        conversationId: id,
+        activeLeafId: messages.at(-1)?.id ?? null,
+        messages,
+        count: messages.length,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
   // Update conversation (title, tags)
   router.patch('/conversations/:id', auth.middleware(true), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
@@ -1289,6 +1756,14 @@ export async function createRouterAsync(config: RouterConfig = {}): Promise<Rout
     }
   });
 
+  // ─────────────────────────────────────────────────────────────────────────────
+  // NOTIFICATION ENDPOINTS — Inbox, Stream, Preferences, Push Devices
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  // Unsubscribe links authenticate with their signed token, so they stay public
+  router.use('/notifications', createEmailUnsubscribeRouter());
+  router.use('/notifications', auth.middleware(true), createNotificationsRouter());
+
   // ─────────────────────────────────────────────────────────────────────────────
   // ADMIN ENDPOINTS (would be more restricted in production)
   // ─────────────────────────────────────────────────────────────────────────────
@@ -1343,6 +1818,48 @@ export async function createRouterAsync(config: RouterConfig = {}): Promise<Rout
     }
   });
 
+  // Usage across the deployment, with the top-spending users and tenants
+  router.get('/admin/usage', auth.middleware(true), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { period, key } = parseUsagePeriod(req.query);
+      const month = key.slice(0, 7);
+      const limit = Math.min(Number(req.query.limit) || 20, 100);
+      const ledger = getUsageLedger();
+
+      res.json({
+        usage: await ledger.getGlobalUsage(period, key),
+        topUsers: await ledger.getTopSpenders('user', month, limit),
+        topTenants: await ledger.getTopSpenders('tenant', month, limit),
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.get('/admin/usage/users/:userId', auth.middleware(true), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { period, key } = parseUsagePeriod(req.query);
+      res.json({
+        userId: req.params.userId,
+        usage: await getUsageLedger().getUserUsage(req.params.userId!, period, key),
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.get('/admin/usage/tenants/:tenantId', auth.middleware(true), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { period, key } = parseUsagePeriod(req.query);
+      res.json({
+        tenantId: req.params.tenantId,
+        usage: await getUsageLedger().getTenantUsage(req.params.tenantId!, period, key),
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
   // Audit logs endpoint
   router.get('/admin/audit-logs', auth.middleware(true), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
@@ -1387,6 +1904,16 @@ export function errorHandler(
     return;
   }
 
+  if (error instanceof QuotaExceededError) {
+    res.setHeader('Retry-After', String(error.retryAfterSeconds));
+    res.status(429).json({
+      error: error.message,
+      code: error.code,
+      budget: error.budget,
+    });
+    return;
+  }
+
   const message = process.env.NODE_ENV === 'production'
     ? 'Internal server error'
     : error.message;
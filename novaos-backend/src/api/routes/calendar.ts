@@ -0,0 +1,209 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// CALENDAR ROUTES — iCalendar Subscription Feed
+// NovaOS API Layer — Spark Engine Calendar Integration
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Endpoints:
+//   GET    /calendar/feed              Get the user's subscription URL
+//   POST   /calendar/feed              Issue (or rotate) the subscription URL
+//   DELETE /calendar/feed              Revoke the subscription URL
+//   GET    /calendar/feed/:token.ics   The feed itself (token-authenticated)
+//
+// Calendar apps can't send auth headers, so the feed is authenticated by the
+// secret token in its URL. Per-goal downloads live in the plan routes.
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { Router, type Request, type Response } from 'express';
+import { auth, type AuthenticatedRequest } from '../../auth/index.js';
+import { storeManager } from '../../storage/index.js';
+import { getLogger } from '../../logging/index.js';
+import type { UserId } from '../../types/branded.js';
+import { getSparkEngine } from '../../services/spark-engine/spark-engine-bootstrap.js';
+import type {
+  CalendarFeed,
+  CalendarService,
+} from '../../services/spark-engine/calendar/index.js';
+
+// Middleware
+import {
+  asyncHandler,
+  NotFoundError,
+  InternalError,
+} from '../middleware/error-handler.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// LOGGER
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const logger = getLogger({ component: 'calendar-routes' });
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/** Feed tokens are 32 random bytes, base64url-encoded */
+const FEED_TOKEN_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// HELPER FUNCTIONS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Public view of a feed: its URLs, never the bare token.
+ *
+ * @param baseUrl - Absolute URL the calendar router is mounted at
+ */
+function toFeedResponse(baseUrl: string, feed: CalendarFeed) {
+  const url = `${baseUrl}/feed/${feed.token}.ics`;
+  return {
+    url,
+    webcalUrl: url.replace(/^https?:/, 'webcal:'),
+    createdAt: feed.createdAt,
+  };
+}
+
+/**
+ * Default calendar service: the shared SparkEngine's.
+ */
+function defaultCalendarService(): CalendarService {
+  return getSparkEngine(storeManager.getStore()).calendarService;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// ROUTER FACTORY
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export function createCalendarRouter(
+  getCalendarService: () => CalendarService = defaultCalendarService
+): Router {
+  const router = Router();
+
+  // ═══════════════════════════════════════════════════════════════════════════════
+  // GET FEED
+  // GET /calendar/feed
+  // ═══════════════════════════════════════════════════════════════════════════════
+
+  router.get(
+    '/feed',
+    auth.middleware(true),
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const userId = req.userId! as UserId;
+
+      const result = await getCalendarService().getFeed(userId);
+      if (!result.ok) {
+        throw new InternalError();
+      }
+
+      const baseUrl = `${req.protocol}://${req.get('host')}${req.baseUrl}`;
+
+      res.json({
+        feed: result.value ? toFeedResponse(baseUrl, result.value) : null,
+        _links: {
+          self: '/api/v1/calendar/feed',
+        },
+      });
+    })
+  );
+
+  // ═══════════════════════════════════════════════════════════════════════════════
+  // ISSUE FEED
+  // POST /calendar/feed
+  // ═══════════════════════════════════════════════════════════════════════════════
+
+  router.post(
+    '/feed',
+    auth.middleware(true),
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const userId = req.userId! as UserId;
+
+      const result = await getCalendarService().issueFeed(userId);
+      if (!result.ok) {
+        throw new InternalError();
+      }
+
+      logger.info('Calendar feed issued', {
+        userId,
+        requestId: req.requestId,
+      });
+
+      const baseUrl = `${req.protocol}://${req.get('host')}${req.baseUrl}`;
+
+      res.status(201).json({
+        feed: toFeedResponse(baseUrl, result.value),
+        _links: {
+          self: '/api/v1/calendar/feed',
+        },
+      });
+    })
+  );
+
+  // ═══════════════════════════════════════════════════════════════════════════════
+  // REVOKE FEED
+  // DELETE /calendar/feed
+  // ═══════════════════════════════════════════════════════════════════════════════
+
+  router.delete(
+    '/feed',
+    auth.middleware(true),
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const userId = req.userId! as UserId;
+
+      const result = await getCalendarService().revokeFeed(userId);
+      if (!result.ok) {
+        throw new InternalError();
+      }
+      if (!result.value) {
+        throw new NotFoundError('Calendar feed');
+      }
+
+      logger.info('Calendar feed revoked', {
+        userId,
+        requestId: req.requestId,
+      });
+
+      res.status(204).send();
+    })
+  );
+
+  // ═══════════════════════════════════════════════════════════════════════════════
+  // FEED CONTENT
+  // GET /calendar/feed/:token.ics
+  // ═══════════════════════════════════════════════════════════════════════════════
+
+  router.get(
+    '/feed/:token.ics',
+    asyncHandler(async (req: Request, res: Response) => {
+      const token = req.params.token!;
+      if (!FEED_TOKEN_PATTERN.test(token)) {
+        throw new NotFoundError('Calendar feed');
+      }
+
+      const calendars = getCalendarService();
+      const feedResult = await calendars.resolveFeed(token);
+      if (!feedResult.ok) {
+        throw new InternalError();
+      }
+      if (!feedResult.value) {
+        throw new NotFoundError('Calendar feed');
+      }
+
+      const result = await calendars.renderUserFeed(feedResult.value.userId);
+      if (!result.ok) {
+        throw new InternalError();
+      }
+
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader('Cache-Control', 'private, no-cache');
+      res.send(result.value);
+    })
+  );
+
+  return router;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// EXPORTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export default createCalendarRouter;
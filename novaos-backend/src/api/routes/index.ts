@@ -24,9 +24,13 @@ import { getLogger } from '../../logging/index.js';
 import { createGoalRouter } from './goals.js';
 import { createQuestRouter } from './quests.js';
 import { createStepRouter } from './steps.js';
+import { createQuizRouter } from './quizzes.js';
+import { createPlanRouter } from './plans.js';
 import { createSparkRouter } from './sparks.js';
 import { createReminderRouter } from './reminders.js';
 import { createTodayRouter } from './today.js';
+import { createReviewRouter } from './reviews.js';
+import { createCalendarRouter } from './calendar.js';
 import { createProgressRouter } from './progress.js';
 import { createUserRouter } from './user.js';
 
@@ -37,9 +41,13 @@ import { createUserRouter } from './user.js';
 export { createGoalRouter } from './goals.js';
 export { createQuestRouter } from './quests.js';
 export { createStepRouter } from './steps.js';
+export { createQuizRouter } from './quizzes.js';
+export { createPlanRouter } from './plans.js';
 export { createSparkRouter } from './sparks.js';
 export { createReminderRouter } from './reminders.js';
 export { createTodayRouter } from './today.js';
+export { createReviewRouter } from './reviews.js';
+export { createCalendarRouter } from './calendar.js';
 export { createProgressRouter } from './progress.js';
 export { createUserRouter } from './user.js';
 
@@ -94,9 +102,13 @@ export interface ApiRouterOptions {
     readonly goals?: boolean;
     readonly quests?: boolean;
     readonly steps?: boolean;
+    readonly quizzes?: boolean;
+    readonly plans?: boolean;
     readonly sparks?: boolean;
     readonly reminders?: boolean;
     readonly today?: boolean;
+    readonly reviews?: boolean;
+    readonly calendar?: boolean;
     readonly progress?: boolean;
     readonly user?: boolean;
   };
@@ -114,9 +126,13 @@ const DEFAULT_OPTIONS: Required<ApiRouterOptions> = {
     goals: true,
     quests: true,
     steps: true,
+    quizzes: true,
+    plans: true,
     sparks: true,
     reminders: true,
     today: true,
+    reviews: true,
+    calendar: true,
     progress: true,
     user: true,
   },
@@ -172,6 +188,16 @@ export function createApiRouter(options: ApiRouterOptions = {}): Router {
     logger.debug('Mounted steps router', { path: `${prefix}/steps` });
   }
   
+  if (opts.routes.quizzes) {
+    router.use(`${prefix}/steps`, createQuizRouter());
+    logger.debug('Mounted quizzes router', { path: `${prefix}/steps/:id/quiz` });
+  }
+  
+  if (opts.routes.plans) {
+    router.use(`${prefix}/goals`, createPlanRouter());
+    logger.debug('Mounted plans router', { path: `${prefix}/goals/:id/{reschedule,pause,resume,adaptations,calendar.ics}` });
+  }
+  
   if (opts.routes.sparks) {
     router.use(`${prefix}/sparks`, createSparkRouter());
     logger.debug('Mounted sparks router', { path: `${prefix}/sparks` });
@@ -189,6 +215,16 @@ export function createApiRouter(options: ApiRouterOptions = {}): Router {
     logger.debug('Mounted today router', { path: '/today' });
   }
   
+  if (opts.routes.reviews) {
+    router.use('/reviews', createReviewRouter());
+    logger.debug('Mounted reviews router', { path: '/reviews' });
+  }
+  
+  if (opts.routes.calendar) {
+    router.use('/calendar', createCalendarRouter());
+    logger.debug('Mounted calendar router', { path: '/calendar' });
+  }
+  
   if (opts.routes.progress) {
     router.use('/progress', createProgressRouter());
     logger.debug('Mounted progress router', { path: '/progress' });
@@ -237,6 +273,14 @@ export const ROUTE_MAP = {
     'POST /goals/:id/transition': 'Transition goal state',
     'GET /goals/:id/quests': 'List quests for goal',
   },
+  plans: {
+    'POST /goals/:id/reschedule': 'Move missed steps back onto the calendar',
+    'POST /goals/:id/pause': 'Pause the plan over a date range',
+    'POST /goals/:id/resume': 'End the current pause early',
+    'GET /goals/:id/adaptations': 'List pace-driven plan changes',
+    'POST /goals/:id/adaptations/:adaptationId/undo': 'Undo a plan change',
+    'GET /goals/:id/calendar.ics': 'Download the plan as an iCalendar file',
+  },
   quests: {
     'POST /quests': 'Create a new quest',
     'GET /quests': 'List quests with filters',
@@ -275,12 +319,23 @@ export const ROUTE_MAP = {
     'GET /today': 'Get today\'s focus',
     'POST /today/refresh': 'Refresh today\'s spark',
   },
+  reviews: {
+    'GET /reviews': 'Get reviews due today',
+    'POST /reviews/:stepId': 'Rate recall of a reviewed step',
+  },
+  calendar: {
+    'GET /calendar/feed': 'Get the calendar subscription URL',
+    'POST /calendar/feed': 'Issue or rotate the calendar subscription URL',
+    'DELETE /calendar/feed': 'Revoke the calendar subscription URL',
+    'GET /calendar/feed/:token.ics': 'Calendar subscription feed (token-authenticated)',
+  },
   progress: {
     'GET /progress': 'Get overall progress',
     'GET /progress/:goalId': 'Get goal progress',
   },
   user: {
     'GET /me': 'Get current user',
+    'GET /me/usage': 'Get LLM usage and budget',
     'POST /me/export': 'Export user data (GDPR)',
     'DELETE /me': 'Delete user data (GDPR)',
     'GET /me/deletion-preview': 'Preview deletion',
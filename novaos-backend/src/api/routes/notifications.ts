@@ -5,7 +5,23 @@
 import { Router, type Request, type Response } from 'express';
 import { getNotificationStore } from '../../notifications/store.js';
 import { getNotificationService } from '../../notifications/service.js';
-import type { NotificationType, NotificationPriority } from '../../notifications/types.js';
+import { getNotificationStream } from '../../notifications/stream.js';
+import { validateDigestSettings } from '../../notifications/digest.js';
+import type {
+  NotificationType,
+  NotificationPriority,
+  NotificationStreamEvent,
+} from '../../notifications/types.js';
+import { verifyUnsubscribeToken } from '../../notifications/email/unsubscribe.js';
+import { getWebPushProvider } from '../../notifications/push/provider.js';
+import {
+  getPushSubscriptionStore,
+  validatePushSubscription,
+  type PushSubscriptionInput,
+  type PushSubscriptionRecord,
+} from '../../notifications/push/subscription-store.js';
+import { createSSEWriter } from '../sse.js';
+import { loadConfig } from '../../config/index.js';
 import { getLogger } from '../../logging/index.js';
 
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -14,10 +30,28 @@ import { getLogger } from '../../logging/index.js';
 
 const logger = getLogger({ component: 'notification-api' });
 
+/** Open streams allowed per user on one instance */
+const MAX_STREAMS_PER_USER = 5;
+
+/** Events held for a slow client before its stream is closed */
+const MAX_QUEUED_STREAM_EVENTS = 100;
+
 interface AuthenticatedRequest extends Request {
   userId?: string;
 }
 
+/**
+ * Event id the client last received, from the Last-Event-ID header sent on
+ * reconnect or a lastEventId query parameter.
+ */
+function getLastEventId(req: Request): number | undefined {
+  const raw = req.get('Last-Event-ID') ?? req.query.lastEventId;
+  if (typeof raw !== 'string' || !/^\d+$/.test(raw)) {
+    return undefined;
+  }
+  return parseInt(raw, 10);
+}
+
 function getUserId(req: AuthenticatedRequest): string {
   const userId = req.userId;
   if (!userId) {
@@ -26,6 +60,20 @@ function getUserId(req: AuthenticatedRequest): string {
   return userId;
 }
 
+/**
+ * Device view of a subscription; the encryption keys never leave the server.
+ */
+function toDeviceView(subscription: PushSubscriptionRecord) {
+  return {
+    id: subscription.id,
+    pushService: new URL(subscription.endpoint).origin,
+    userAgent: subscription.userAgent,
+    createdAt: subscription.createdAt,
+    lastSuccessAt: subscription.lastSuccessAt,
+    failureCount: subscription.failureCount,
+  };
+}
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // ROUTER
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -123,6 +171,78 @@ export function createNotificationsRouter(): Router {
     }
   });
   
+  // ═══════════════════════════════════════════════════════════════════════════════
+  // STREAM
+  // ═══════════════════════════════════════════════════════════════════════════════
+  
+  router.get('/stream', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+    
+    const stream = getNotificationStream();
+    
+    if (stream.getConnectionCount(userId) >= MAX_STREAMS_PER_USER) {
+      res.status(429).json({ error: `At most ${MAX_STREAMS_PER_USER} notification streams per user` });
+      return;
+    }
+    
+    const sse = createSSEWriter<NotificationStreamEvent>(res);
+    const queue: Array<{ event: NotificationStreamEvent; id?: number }> = [];
+    let draining = false;
+    
+    // Hold events while the socket buffer is full. A client that falls too far
+    // behind is disconnected and catches up by reconnecting with its last id.
+    const flush = () => {
+      while (queue.length > 0 && !draining && !sse.closed) {
+        const { event, id } = queue.shift()!;
+        if (!sse.send(event, id)) {
+          draining = true;
+          res.once('drain', () => {
+            draining = false;
+            flush();
+          });
+        }
+      }
+    };
+    
+    const send = (event: NotificationStreamEvent, id?: number) => {
+      if (sse.closed) return;
+      if (queue.length >= MAX_QUEUED_STREAM_EVENTS) {
+        logger.warn('Closing notification stream for slow client', { userId });
+        sse.close();
+        return;
+      }
+      queue.push({ event, id });
+      flush();
+    };
+    
+    try {
+      // Events after this point are replayed, so nothing published while the
+      // badge count is read goes missing
+      const since = getLastEventId(req) ?? await stream.getLatestId(userId);
+      
+      send({ type: 'badge', unread: await store.getUnreadCount(userId) });
+      
+      const stop = await stream.open(userId, since, send);
+      
+      if (sse.closed) {
+        stop();
+      } else {
+        res.on('close', stop);
+      }
+    } catch (error) {
+      logger.error('Failed to open notification stream', error instanceof Error ? error : new Error(String(error)));
+      if (sse.started) {
+        sse.close();
+      } else {
+        res.status(500).json({ error: 'Failed to open notification stream' });
+      }
+    }
+  });
+  
   // ═══════════════════════════════════════════════════════════════════════════════
   // GET NOTIFICATION
   // ═══════════════════════════════════════════════════════════════════════════════
@@ -295,6 +415,13 @@ export function createNotificationsRouter(): Router {
       // Remove userId from updates to prevent tampering
       delete updates.userId;
       
+      try {
+        validateDigestSettings(updates.channelSettings);
+      } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid digest settings' });
+        return;
+      }
+      
       const preferences = await store.updatePreferences(userId, updates);
       
       logger.info('Notification preferences updated', { userId });
@@ -306,6 +433,102 @@ export function createNotificationsRouter(): Router {
     }
   });
   
+  // ═══════════════════════════════════════════════════════════════════════════════
+  // WEB PUSH DEVICES
+  // ═══════════════════════════════════════════════════════════════════════════════
+  
+  const pushSubscriptions = getPushSubscriptionStore();
+  
+  router.get('/push/vapid-public-key', async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const publicKey = await getWebPushProvider()?.getPublicKey();
+      if (!publicKey) {
+        res.status(503).json({ error: 'Web push is not configured' });
+        return;
+      }
+      
+      res.json({ publicKey });
+    } catch (error) {
+      logger.error('Failed to get VAPID key', error instanceof Error ? error : new Error(String(error)));
+      res.status(500).json({ error: 'Failed to get VAPID key' });
+    }
+  });
+  
+  router.get('/push/subscriptions', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const userId = getUserId(req);
+      const subscriptions = await pushSubscriptions.list(userId);
+      
+      res.json({ subscriptions: subscriptions.map(toDeviceView) });
+    } catch (error) {
+      logger.error('Failed to list push subscriptions', error instanceof Error ? error : new Error(String(error)));
+      res.status(500).json({ error: 'Failed to list push subscriptions' });
+    }
+  });
+  
+  router.post('/push/subscriptions', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const userId = getUserId(req);
+      const validationError = validatePushSubscription(req.body);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+      
+      const isFirstDevice = (await pushSubscriptions.list(userId)).length === 0;
+      const subscription = await pushSubscriptions.save(
+        userId,
+        req.body as PushSubscriptionInput,
+        req.get('user-agent')
+      );
+      
+      // Push is off by default; registering the first device opts the user in
+      if (isFirstDevice) {
+        const current = await store.getPreferences(userId);
+        if (!current.channelSettings.push.enabled) {
+          await store.updatePreferences(userId, {
+            channelSettings: {
+              ...current.channelSettings,
+              push: { ...current.channelSettings.push, enabled: true },
+            },
+          });
+        }
+      }
+      
+      logger.info('Push subscription registered', { userId, subscriptionId: subscription.id });
+      
+      res.status(201).json({ subscription: toDeviceView(subscription) });
+    } catch (error) {
+      logger.error('Failed to register push subscription', error instanceof Error ? error : new Error(String(error)));
+      res.status(500).json({ error: 'Failed to register push subscription' });
+    }
+  });
+  
+  router.delete('/push/subscriptions/:id', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const userId = getUserId(req);
+      const id = req.params.id;
+      
+      if (!id) {
+        res.status(400).json({ error: 'id parameter is required' });
+        return;
+      }
+      
+      const removed = await pushSubscriptions.remove(userId, id);
+      if (!removed) {
+        res.status(404).json({ error: 'Subscription not found' });
+        return;
+      }
+      
+      logger.info('Push subscription removed', { userId, subscriptionId: id });
+      
+      res.json({ success: true });
+    } catch (error) {
+      logger.error('Failed to remove push subscription', error instanceof Error ? error : new Error(String(error)));
+      res.status(500).json({ error: 'Failed to remove push subscription' });
+    }
+  });
+  
   // ═══════════════════════════════════════════════════════════════════════════════
   // CLEANUP EXPIRED
   // ═══════════════════════════════════════════════════════════════════════════════
@@ -324,3 +547,62 @@ export function createNotificationsRouter(): Router {
   
   return router;
 }
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// EMAIL UNSUBSCRIBE ROUTER
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Email unsubscribe link target. Mounted without auth: the signed token in
+ * the link (from List-Unsubscribe) identifies the user.
+ */
+export function createEmailUnsubscribeRouter(): Router {
+  const router = Router();
+  const store = getNotificationStore();
+  
+  // GET only confirms: mail scanners prefetch links, so unsubscribing is POST-only
+  router.get('/email/unsubscribe', (req: Request, res: Response): void => {
+    const token = typeof req.query.token === 'string' ? req.query.token : undefined;
+    if (!verifyUnsubscribeToken(token, loadConfig().email.unsubscribeSecret)) {
+      res.status(400).json({ error: 'Invalid unsubscribe link' });
+      return;
+    }
+  
+    res.type('html').send(
+      '<!DOCTYPE html><html><body>' +
+      `<form method="POST" action="?token=${encodeURIComponent(token!)}">` +
+      '<p>Stop receiving NovaOS notification emails?</p>' +
+      '<button type="submit">Unsubscribe</button>' +
+      '</form></body></html>'
+    );
+  });
+  
+  // RFC 8058 one-click: body is `List-Unsubscribe=One-Click`
+  router.post('/email/unsubscribe', async (req: Request, res: Response): Promise<void> => {
+    try {
+      const token = typeof req.query.token === 'string' ? req.query.token : undefined;
+      const userId = verifyUnsubscribeToken(token, loadConfig().email.unsubscribeSecret);
+      if (!userId) {
+        res.status(400).json({ error: 'Invalid unsubscribe link' });
+        return;
+      }
+  
+      const current = await store.getPreferences(userId);
+      await store.updatePreferences(userId, {
+        channelSettings: {
+          ...current.channelSettings,
+          email: { ...current.channelSettings.email, enabled: false },
+        },
+      });
+  
+      logger.info('Email notifications unsubscribed', { userId });
+  
+      res.json({ unsubscribed: true });
+    } catch (error) {
+      logger.error('Failed to unsubscribe', error instanceof Error ? error : new Error(String(error)));
+      res.status(500).json({ error: 'Failed to unsubscribe' });
+    }
+  });
+  
+  return router;
+}
@@ -0,0 +1,417 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// PLAN ROUTES — Rescheduling, Vacation Mode & Adaptive Pacing
+// NovaOS API Layer — Spark Engine Plan Rescheduling
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Endpoints (mounted under /goals):
+//   POST   /goals/:id/reschedule   Move missed steps back onto the calendar
+//   POST   /goals/:id/pause        Pause the plan over a date range
+//   POST   /goals/:id/resume       End the current pause early
+//   GET    /goals/:id/adaptations  List pace-driven plan changes
+//   POST   /goals/:id/adaptations/:adaptationId/undo
+//                                  Undo a plan change
+//   GET    /goals/:id/calendar.ics Download the plan as an iCalendar file
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { Router, type Response } from 'express';
+import { z } from 'zod';
+import { auth, type AuthenticatedRequest } from '../../auth/index.js';
+import { storeManager } from '../../storage/index.js';
+import { getLogger } from '../../logging/index.js';
+import type { GoalId, UserId } from '../../types/branded.js';
+import type { AppError } from '../../types/result.js';
+import { getSparkEngine } from '../../services/spark-engine/spark-engine-bootstrap.js';
+import type { ISparkEngine } from '../../services/spark-engine/interfaces.js';
+import {
+  RESCHEDULE_POLICIES,
+  RescheduleErrorCode,
+  type ReschedulePolicy,
+} from '../../services/spark-engine/rescheduling/index.js';
+import {
+  AdaptationErrorCode,
+  type AdaptationService,
+} from '../../services/spark-engine/adaptation/index.js';
+import type { CalendarService } from '../../services/spark-engine/calendar/index.js';
+
+// Middleware
+import {
+  asyncHandler,
+  ApiError,
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+  InternalError,
+} from '../middleware/error-handler.js';
+
+// Schemas
+import { GoalIdSchema } from '../schemas/index.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// LOGGER
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const logger = getLogger({ component: 'plan-routes' });
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// PLAN-SPECIFIC SCHEMAS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const PlanDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be in YYYY-MM-DD format');
+
+/**
+ * Schema for rescheduling a plan.
+ * Without a policy the goal's policy applies, then push_back.
+ */
+const RescheduleSchema = z.object({
+  policy: z.enum(RESCHEDULE_POLICIES as [ReschedulePolicy, ...ReschedulePolicy[]]).optional(),
+});
+
+/**
+ * Schema for pausing a plan.
+ */
+const PausePlanSchema = z.object({
+  startDate: PlanDateSchema,
+  endDate: PlanDateSchema,
+  reason: z.string().trim().max(500).optional(),
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// HELPER FUNCTIONS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Parse and validate goal ID from params.
+ */
+function parseGoalId(id: string): GoalId {
+  const result = GoalIdSchema.safeParse(id);
+  if (!result.success) {
+    throw new ValidationError('Invalid goal ID format');
+  }
+  return result.data;
+}
+
+/**
+ * Parse a request body against a schema.
+ */
+function parseBody<T>(schema: z.ZodType<T>, body: unknown): T {
+  const parseResult = schema.safeParse(body ?? {});
+  if (!parseResult.success) {
+    throw new ValidationError(
+      parseResult.error.issues.map((i) => i.message).join(', '),
+      { fields: parseResult.error.flatten().fieldErrors }
+    );
+  }
+  return parseResult.data;
+}
+
+/**
+ * Map a SparkEngine error to an API error.
+ */
+function toApiError(error: AppError, goalId: GoalId): ApiError {
+  switch (error.code) {
+    case 'NOT_FOUND':
+      return new NotFoundError('Goal', goalId);
+    case RescheduleErrorCode.INVALID_PAUSE:
+      return new ValidationError(error.message);
+    case RescheduleErrorCode.NOT_PAUSED:
+      return new ConflictError(error.message);
+    case AdaptationErrorCode.ADAPTATION_NOT_FOUND:
+      return new NotFoundError('Adaptation');
+    case AdaptationErrorCode.ALREADY_UNDONE:
+    case AdaptationErrorCode.ADAPTATION_STALE:
+      return new ConflictError(error.message);
+    default:
+      return new InternalError();
+  }
+}
+
+/**
+ * Verify the goal exists and belongs to the user.
+ */
+async function assertGoalOwnership(
+  engine: ISparkEngine,
+  goalId: GoalId,
+  userId: UserId
+): Promise<void> {
+  const result = await engine.getGoal(goalId);
+  if (!result.ok) {
+    throw toApiError(result.error, goalId);
+  }
+
+  // Return 404 to avoid leaking existence of other users' goals
+  if (!result.value || result.value.userId !== userId) {
+    throw new NotFoundError('Goal', goalId);
+  }
+}
+
+/**
+ * Default engine: the shared SparkEngine.
+ */
+function defaultSparkEngine(): ISparkEngine {
+  return getSparkEngine(storeManager.getStore()).sparkEngine;
+}
+
+/**
+ * Default adaptation service: the shared SparkEngine's.
+ */
+function defaultAdaptationService(): AdaptationService {
+  return getSparkEngine(storeManager.getStore()).adaptationService;
+}
+
+/**
+ * Default calendar service: the shared SparkEngine's.
+ */
+function defaultCalendarService(): CalendarService {
+  return getSparkEngine(storeManager.getStore()).calendarService;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// ROUTER FACTORY
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export function createPlanRouter(
+  getEngine: () => ISparkEngine = defaultSparkEngine,
+  getAdaptationService: () => AdaptationService = defaultAdaptationService,
+  getCalendarService: () => CalendarService = defaultCalendarService
+): Router {
+  const router = Router();
+
+  // ═══════════════════════════════════════════════════════════════════════════════
+  // RESCHEDULE PLAN
+  // POST /goals/:id/reschedule
+  // ═══════════════════════════════════════════════════════════════════════════════
+
+  router.post(
+    '/:id/reschedule',
+    auth.middleware(true),
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const userId = req.userId! as UserId;
+      const goalId = parseGoalId(req.params.id!);
+      const { policy } = parseBody(RescheduleSchema, req.body);
+
+      const engine = getEngine();
+      await assertGoalOwnership(engine, goalId, userId);
+
+      const result = await engine.reschedulePlan(goalId, { policy });
+      if (!result.ok) {
+        throw toApiError(result.error, goalId);
+      }
+
+      logger.info('Plan rescheduled', {
+        userId,
+        goalId,
+        policy: result.value.policy,
+        moved: result.value.moved.length,
+        dropped: result.value.dropped.length,
+        requestId: req.requestId,
+      });
+
+      res.json({
+        reschedule: result.value,
+        _links: {
+          goal: `/api/v1/goals/${goalId}`,
+          progress: `/api/v1/progress/${goalId}`,
+        },
+      });
+    })
+  );
+
+  // ═══════════════════════════════════════════════════════════════════════════════
+  // PAUSE PLAN
+  // POST /goals/:id/pause
+  // ═══════════════════════════════════════════════════════════════════════════════
+
+  router.post(
+    '/:id/pause',
+    auth.middleware(true),
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const userId = req.userId! as UserId;
+      const goalId = parseGoalId(req.params.id!);
+      const params = parseBody(PausePlanSchema, req.body);
+
+      const engine = getEngine();
+      await assertGoalOwnership(engine, goalId, userId);
+
+      const result = await engine.pausePlan(goalId, params);
+      if (!result.ok) {
+        throw toApiError(result.error, goalId);
+      }
+
+      logger.info('Plan paused', {
+        userId,
+        goalId,
+        startDate: params.startDate,
+        endDate: params.endDate,
+        moved: result.value.reschedule.moved.length,
+        requestId: req.requestId,
+      });
+
+      res.status(201).json({
+        pauses: result.value.goal.pauses ?? [],
+        reschedule: result.value.reschedule,
+        _links: {
+          goal: `/api/v1/goals/${goalId}`,
+          resume: `/api/v1/goals/${goalId}/resume`,
+        },
+      });
+    })
+  );
+
+  // ═══════════════════════════════════════════════════════════════════════════════
+  // RESUME PLAN
+  // POST /goals/:id/resume
+  // ═══════════════════════════════════════════════════════════════════════════════
+
+  router.post(
+    '/:id/resume',
+    auth.middleware(true),
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const userId = req.userId! as UserId;
+      const goalId = parseGoalId(req.params.id!);
+
+      const engine = getEngine();
+      await assertGoalOwnership(engine, goalId, userId);
+
+      const result = await engine.resumePlan(goalId);
+      if (!result.ok) {
+        throw toApiError(result.error, goalId);
+      }
+
+      logger.info('Plan resumed', {
+        userId,
+        goalId,
+        moved: result.value.reschedule.moved.length,
+        requestId: req.requestId,
+      });
+
+      res.json({
+        pauses: result.value.goal.pauses ?? [],
+        reschedule: result.value.reschedule,
+        _links: {
+          goal: `/api/v1/goals/${goalId}`,
+          today: '/api/v1/today',
+        },
+      });
+    })
+  );
+
+  // ═══════════════════════════════════════════════════════════════════════════════
+  // LIST ADAPTATIONS
+  // GET /goals/:id/adaptations
+  // ═══════════════════════════════════════════════════════════════════════════════
+
+  router.get(
+    '/:id/adaptations',
+    auth.middleware(true),
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const userId = req.userId! as UserId;
+      const goalId = parseGoalId(req.params.id!);
+
+      await assertGoalOwnership(getEngine(), goalId, userId);
+
+      const result = await getAdaptationService().getAdaptations(goalId);
+      if (!result.ok) {
+        throw toApiError(result.error, goalId);
+      }
+
+      // Step snapshots are kept for undo only
+      const adaptations = result.value.map(({ previousSteps: _previousSteps, ...rest }) => ({
+        ...rest,
+        _links: rest.status === 'applied'
+          ? { undo: `/api/v1/goals/${goalId}/adaptations/${rest.id}/undo` }
+          : {},
+      }));
+
+      res.json({
+        adaptations,
+        count: adaptations.length,
+        _links: {
+          goal: `/api/v1/goals/${goalId}`,
+        },
+      });
+    })
+  );
+
+  // ═══════════════════════════════════════════════════════════════════════════════
+  // UNDO ADAPTATION
+  // POST /goals/:id/adaptations/:adaptationId/undo
+  // ═══════════════════════════════════════════════════════════════════════════════
+
+  router.post(
+    '/:id/adaptations/:adaptationId/undo',
+    auth.middleware(true),
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const userId = req.userId! as UserId;
+      const goalId = parseGoalId(req.params.id!);
+      const adaptationId = req.params.adaptationId!;
+
+      await assertGoalOwnership(getEngine(), goalId, userId);
+
+      const adaptations = getAdaptationService();
+      const existing = await adaptations.getAdaptation(adaptationId);
+      if (!existing.ok) {
+        throw toApiError(existing.error, goalId);
+      }
+      if (!existing.value || existing.value.goalId !== goalId) {
+        throw new NotFoundError('Adaptation', adaptationId);
+      }
+
+      const result = await adaptations.undoAdaptation(adaptationId);
+      if (!result.ok) {
+        throw toApiError(result.error, goalId);
+      }
+
+      logger.info('Plan adaptation undone', {
+        userId,
+        goalId,
+        adaptationId,
+        kind: result.value.kind,
+        requestId: req.requestId,
+      });
+
+      const { previousSteps: _previousSteps, ...adaptation } = result.value;
+
+      res.json({
+        adaptation,
+        _links: {
+          goal: `/api/v1/goals/${goalId}`,
+          adaptations: `/api/v1/goals/${goalId}/adaptations`,
+        },
+      });
+    })
+  );
+
+  // ═══════════════════════════════════════════════════════════════════════════════
+  // CALENDAR EXPORT
+  // GET /goals/:id/calendar.ics
+  // ═══════════════════════════════════════════════════════════════════════════════
+
+  router.get(
+    '/:id/calendar.ics',
+    auth.middleware(true),
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const userId = req.userId! as UserId;
+      const goalId = parseGoalId(req.params.id!);
+
+      await assertGoalOwnership(getEngine(), goalId, userId);
+
+      const result = await getCalendarService().renderGoalCalendar(goalId);
+      if (!result.ok) {
+        throw toApiError(result.error, goalId);
+      }
+
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="plan-${goalId}.ics"`);
+      res.send(result.value);
+    })
+  );
+
+  return router;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// EXPORTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export default createPlanRouter;
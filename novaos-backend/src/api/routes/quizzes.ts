@@ -0,0 +1,268 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// QUIZ ROUTES — Step Knowledge Checks
+// NovaOS API Layer — Spark Engine Quizzes
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Endpoints (mounted under /steps):
+//   GET    /steps/:id/quiz            Get the step's quiz (generated on first request;
+//                                     ?regenerate=true is rate limited)
+//   POST   /steps/:id/quiz/attempts   Submit answers and get graded results
+//   GET    /steps/:id/quiz/attempts   List previous attempts
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { Router, type NextFunction, type Request, type RequestHandler, type Response } from 'express';
+import { z } from 'zod';
+import { auth, type AuthenticatedRequest } from '../../auth/index.js';
+import { storeManager } from '../../storage/index.js';
+import { getLogger } from '../../logging/index.js';
+import type { StepId, UserId } from '../../types/branded.js';
+import type { AppError } from '../../types/result.js';
+import { getSparkEngine } from '../../services/spark-engine/spark-engine-bootstrap.js';
+import { createRateLimiter, RateLimitCategory } from '../../security/rate-limiting/index.js';
+import { runWithUsageScope } from '../../usage/index.js';
+import {
+  QuizErrorCode,
+  QUIZ_CONSTRAINTS,
+  type QuizService,
+} from '../../services/spark-engine/quiz/index.js';
+
+// Middleware
+import {
+  asyncHandler,
+  ApiError,
+  NotFoundError,
+  ValidationError,
+  InternalError,
+} from '../middleware/error-handler.js';
+
+// Schemas
+import { StepIdSchema } from '../schemas/index.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// LOGGER
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const logger = getLogger({ component: 'quiz-routes' });
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// RATE LIMITERS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+// Regenerating calls the LLM every time, unlike serving the stored quiz
+const quizRegenerationLimiter = createRateLimiter(RateLimitCategory.SPARK_GENERATION, {
+  keyGenerator: (ctx) => `quiz-regenerate:${ctx.userId}`,
+}) as RequestHandler;
+
+function limitRegeneration(req: Request, res: Response, next: NextFunction): void {
+  if (req.query.regenerate === 'true') {
+    quizRegenerationLimiter(req, res, next);
+    return;
+  }
+  next();
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// QUIZ-SPECIFIC SCHEMAS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Query for fetching a quiz.
+ */
+const GetQuizQuerySchema = z.object({
+  regenerate: z.enum(['true', 'false']).optional().transform((v) => v === 'true'),
+});
+
+/**
+ * Schema for submitting an attempt.
+ * Choice indexes answer multiple_choice questions; text answers everything else.
+ */
+const SubmitAttemptSchema = z.object({
+  answers: z.array(z.object({
+    questionId: z.string().min(1).max(20),
+    response: z.union([
+      z.number().int().min(0),
+      z.string().max(QUIZ_CONSTRAINTS.MAX_OUTPUT_LENGTH),
+    ]),
+  })).max(QUIZ_CONSTRAINTS.MAX_QUESTIONS),
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// HELPER FUNCTIONS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Parse and validate step ID from params.
+ */
+function parseStepId(id: string): StepId {
+  const result = StepIdSchema.safeParse(id);
+  if (!result.success) {
+    throw new ValidationError('Invalid step ID format');
+  }
+  return result.data;
+}
+
+/**
+ * Map a quiz service error to an API error.
+ */
+function toApiError(error: AppError, stepId: StepId): ApiError {
+  switch (error.code) {
+    case QuizErrorCode.STEP_NOT_FOUND:
+      return new NotFoundError('Step', stepId);
+    case QuizErrorCode.QUIZ_NOT_FOUND:
+      return new NotFoundError('Quiz', stepId);
+    case QuizErrorCode.INVALID_ANSWERS:
+      return new ValidationError(error.message);
+    case QuizErrorCode.LLM_UNAVAILABLE:
+    case QuizErrorCode.GENERATION_FAILED:
+      return new ApiError('Quiz generation is temporarily unavailable', 503, 'QUIZ_UNAVAILABLE');
+    default:
+      return new InternalError();
+  }
+}
+
+/**
+ * Default quiz service: the shared SparkEngine's.
+ */
+function defaultQuizService(): QuizService {
+  return getSparkEngine(storeManager.getStore()).quizService;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// ROUTER FACTORY
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export function createQuizRouter(
+  getQuizService: () => QuizService = defaultQuizService
+): Router {
+  const router = Router();
+
+  // ═══════════════════════════════════════════════════════════════════════════════
+  // GET QUIZ
+  // GET /steps/:id/quiz
+  // ═══════════════════════════════════════════════════════════════════════════════
+
+  router.get(
+    '/:id/quiz',
+    auth.middleware(true),
+    limitRegeneration,
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const userId = req.userId! as UserId;
+      const stepId = parseStepId(req.params.id!);
+
+      const queryResult = GetQuizQuerySchema.safeParse(req.query);
+      if (!queryResult.success) {
+        throw new ValidationError('Invalid query parameters');
+      }
+
+      // Generation checks the caller's LLM budget; serving a stored quiz does not
+      const result = await runWithUsageScope(
+        { userId, tenantId: req.user?.tenantId, tier: req.user?.tier },
+        () => getQuizService().getQuiz(stepId, userId, { regenerate: queryResult.data.regenerate })
+      );
+      if (!result.ok) {
+        logger.warn('Quiz fetch failed', {
+          userId,
+          stepId,
+          code: result.error.code,
+          requestId: req.requestId,
+        });
+        throw toApiError(result.error, stepId);
+      }
+
+      res.json({
+        quiz: result.value,
+        _links: {
+          self: `/api/v1/steps/${stepId}/quiz`,
+          step: `/api/v1/steps/${stepId}`,
+          attempts: `/api/v1/steps/${stepId}/quiz/attempts`,
+        },
+      });
+    })
+  );
+
+  // ═══════════════════════════════════════════════════════════════════════════════
+  // SUBMIT ATTEMPT
+  // POST /steps/:id/quiz/attempts
+  // ═══════════════════════════════════════════════════════════════════════════════
+
+  router.post(
+    '/:id/quiz/attempts',
+    auth.middleware(true),
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const userId = req.userId! as UserId;
+      const stepId = parseStepId(req.params.id!);
+
+      const parseResult = SubmitAttemptSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        throw new ValidationError(
+          parseResult.error.issues.map((i) => i.message).join(', '),
+          { fields: parseResult.error.flatten().fieldErrors }
+        );
+      }
+
+      const result = await getQuizService().submitAttempt(
+        stepId,
+        userId,
+        parseResult.data.answers
+      );
+      if (!result.ok) {
+        throw toApiError(result.error, stepId);
+      }
+
+      const { attempt, step } = result.value;
+
+      logger.info('Quiz attempt submitted', {
+        userId,
+        stepId,
+        score: attempt.score,
+        passed: attempt.passed,
+        requestId: req.requestId,
+      });
+
+      res.status(201).json({
+        attempt,
+        step,
+        _links: {
+          quiz: `/api/v1/steps/${stepId}/quiz`,
+          attempts: `/api/v1/steps/${stepId}/quiz/attempts`,
+        },
+      });
+    })
+  );
+
+  // ═══════════════════════════════════════════════════════════════════════════════
+  // LIST ATTEMPTS
+  // GET /steps/:id/quiz/attempts
+  // ═══════════════════════════════════════════════════════════════════════════════
+
+  router.get(
+    '/:id/quiz/attempts',
+    auth.middleware(true),
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const userId = req.userId! as UserId;
+      const stepId = parseStepId(req.params.id!);
+
+      const result = await getQuizService().getAttempts(stepId, userId);
+      if (!result.ok) {
+        throw toApiError(result.error, stepId);
+      }
+
+      res.json({
+        attempts: result.value,
+        _links: {
+          self: `/api/v1/steps/${stepId}/quiz/attempts`,
+          quiz: `/api/v1/steps/${stepId}/quiz`,
+        },
+      });
+    })
+  );
+
+  return router;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// EXPORTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export default createQuizRouter;
@@ -0,0 +1,179 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// REVIEW ROUTES — Spaced-Repetition Reviews
+// NovaOS API Layer — Spark Engine Reviews
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Endpoints:
+//   GET    /reviews            Get reviews due today (user's timezone)
+//   POST   /reviews/:stepId    Rate recall of a reviewed step
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { Router, type Response } from 'express';
+import { z } from 'zod';
+import { auth, type AuthenticatedRequest } from '../../auth/index.js';
+import { storeManager } from '../../storage/index.js';
+import { getLogger } from '../../logging/index.js';
+import type { StepId, UserId } from '../../types/branded.js';
+import type { AppError } from '../../types/result.js';
+import { getSparkEngine } from '../../services/spark-engine/spark-engine-bootstrap.js';
+import {
+  REVIEW_RATINGS,
+  ReviewErrorCode,
+  type ReviewRating,
+  type ReviewService,
+} from '../../services/spark-engine/review/index.js';
+
+// Middleware
+import {
+  asyncHandler,
+  ApiError,
+  NotFoundError,
+  ValidationError,
+  InternalError,
+} from '../middleware/error-handler.js';
+
+// Schemas
+import { StepIdSchema } from '../schemas/index.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// LOGGER
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const logger = getLogger({ component: 'review-routes' });
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// REVIEW-SPECIFIC SCHEMAS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Schema for submitting a review rating.
+ */
+const SubmitReviewSchema = z.object({
+  rating: z.enum(REVIEW_RATINGS as [ReviewRating, ...ReviewRating[]]),
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// HELPER FUNCTIONS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Parse and validate step ID from params.
+ */
+function parseStepId(id: string): StepId {
+  const result = StepIdSchema.safeParse(id);
+  if (!result.success) {
+    throw new ValidationError('Invalid step ID format');
+  }
+  return result.data;
+}
+
+/**
+ * Map a review service error to an API error.
+ */
+function toApiError(error: AppError, stepId?: StepId): ApiError {
+  switch (error.code) {
+    case ReviewErrorCode.REVIEW_NOT_FOUND:
+      return new NotFoundError('Review', stepId);
+    default:
+      return new InternalError();
+  }
+}
+
+/**
+ * Default review service: the shared SparkEngine's.
+ */
+function defaultReviewService(): ReviewService {
+  return getSparkEngine(storeManager.getStore()).reviewService;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// ROUTER FACTORY
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export function createReviewRouter(
+  getReviewService: () => ReviewService = defaultReviewService
+): Router {
+  const router = Router();
+
+  // ═══════════════════════════════════════════════════════════════════════════════
+  // GET TODAY'S REVIEWS
+  // GET /reviews
+  // ═══════════════════════════════════════════════════════════════════════════════
+
+  router.get(
+    '/',
+    auth.middleware(true),
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const userId = req.userId! as UserId;
+
+      const result = await getReviewService().getTodayReviews(userId);
+      if (!result.ok) {
+        throw toApiError(result.error);
+      }
+
+      res.json({
+        date: result.value.date,
+        timezone: result.value.timezone,
+        reviews: result.value.reviews,
+        _links: {
+          self: '/api/v1/reviews',
+          today: '/api/v1/today',
+        },
+      });
+    })
+  );
+
+  // ═══════════════════════════════════════════════════════════════════════════════
+  // SUBMIT REVIEW
+  // POST /reviews/:stepId
+  // ═══════════════════════════════════════════════════════════════════════════════
+
+  router.post(
+    '/:stepId',
+    auth.middleware(true),
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const userId = req.userId! as UserId;
+      const stepId = parseStepId(req.params.stepId!);
+
+      const parseResult = SubmitReviewSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        throw new ValidationError(
+          parseResult.error.issues.map((i) => i.message).join(', '),
+          { fields: parseResult.error.flatten().fieldErrors }
+        );
+      }
+
+      const result = await getReviewService().submitReview(
+        stepId,
+        userId,
+        parseResult.data.rating
+      );
+      if (!result.ok) {
+        logger.warn('Review submission failed', {
+          userId,
+          stepId,
+          code: result.error.code,
+          requestId: req.requestId,
+        });
+        throw toApiError(result.error, stepId);
+      }
+
+      res.json({
+        review: result.value,
+        _links: {
+          reviews: '/api/v1/reviews',
+          step: `/api/v1/steps/${stepId}`,
+        },
+      });
+    })
+  );
+
+  return router;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// EXPORTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export default createReviewRouter;
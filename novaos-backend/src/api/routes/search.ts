@@ -4,7 +4,8 @@
 
 import { Router, type Request, type Response } from 'express';
 import { z } from 'zod';
-import { getSearchService } from '../../search/index.js';
+import { getSearchService, SearchQueryError } from '../../search/index.js';
+import { conversations } from '../../conversations/index.js';
 import type { AuthenticatedRequest } from '../../auth/index.js';
 import { getLogger } from '../../logging/index.js';
 
@@ -78,6 +79,20 @@ function toError(err: unknown): Error {
   return err instanceof Error ? err : new Error(String(err));
 }
 
+/**
+ * Respond 400 with the parse issue if the query text was malformed.
+ * Returns true if a response was sent.
+ */
+function sendQueryError(res: Response, error: unknown): boolean {
+  if (!(error instanceof SearchQueryError)) return false;
+  res.status(400).json({
+    error: 'Invalid search query',
+    code: error.code,
+    details: error.issue,
+  });
+  return true;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // ROUTER FACTORY
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -119,6 +134,8 @@ export function createSearchRouter(): Router {
         return;
       }
       
+      if (sendQueryError(res, error)) return;
+      
       logger.error('Search failed', toError(error));
       res.status(500).json({ error: 'Search failed' });
     }
@@ -146,6 +163,8 @@ export function createSearchRouter(): Router {
       
       res.json(results);
     } catch (error) {
+      if (sendQueryError(res, error)) return;
+      
       logger.error('Conversation search failed', toError(error));
       res.status(500).json({ error: 'Search failed' });
     }
@@ -175,6 +194,8 @@ export function createSearchRouter(): Router {
       
       res.json(results);
     } catch (error) {
+      if (sendQueryError(res, error)) return;
+      
       logger.error('Message search failed', toError(error));
       res.status(500).json({ error: 'Search failed' });
     }
@@ -204,6 +225,8 @@ export function createSearchRouter(): Router {
       
       res.json(results);
     } catch (error) {
+      if (sendQueryError(res, error)) return;
+      
       logger.error('Memory search failed', toError(error));
       res.status(500).json({ error: 'Search failed' });
     }
@@ -369,6 +392,16 @@ export function createSearchRouter(): Router {
       const userId = req.user!.userId;
       const parsed = IndexMessageSchema.parse(req.body);
       
+      // Only the active branch of a conversation is searchable
+      const [stored, active] = await Promise.all([
+        conversations.getMessage(parsed.conversationId, parsed.messageId),
+        conversations.getMessages(parsed.conversationId, -1),
+      ]);
+      if (stored && !active.some(m => m.id === parsed.messageId)) {
+        res.json({ indexed: false, id: parsed.messageId, reason: 'inactive_branch' });
+        return;
+      }
+      
       await searchService.indexMessage(
         userId,
         parsed.messageId,
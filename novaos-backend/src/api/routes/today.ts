@@ -4,7 +4,7 @@
 // ═══════════════════════════════════════════════════════════════════════════════
 //
 // Endpoints:
-//   GET    /today              Get today's focus (step, spark, goal context)
+//   GET    /today              Get today's focus (step, spark, goal context, due reviews)
 //   POST   /today/refresh      Refresh/regenerate today's spark
 //
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -13,7 +13,11 @@ import { Router, type Response, type RequestHandler } from 'express';
 import { auth, type AuthenticatedRequest } from '../../auth/index.js';
 import { createRateLimiter, RateLimitCategory } from '../../security/rate-limiting/index.js';
 import { getSwordStore, getSparkGenerator } from '../../core/sword/index.js';
+import { storeManager } from '../../storage/index.js';
 import { getLogger } from '../../logging/index.js';
+import type { UserId } from '../../types/branded.js';
+import { getSparkEngine } from '../../services/spark-engine/spark-engine-bootstrap.js';
+import type { ReviewItem } from '../../services/spark-engine/review/index.js';
 
 // Middleware
 import { asyncHandler } from '../middleware/error-handler.js';
@@ -47,6 +51,9 @@ interface TodayResponse {
   // Current goal
   goal: Awaited<ReturnType<ReturnType<typeof getSwordStore>['getGoal']>>;
   
+  // Completed steps due for spaced-repetition review
+  reviews: readonly ReviewItem[];
+  
   // Summary stats
   stats: {
     activeGoals: number;
@@ -137,6 +144,23 @@ async function calculateStreak(userId: string): Promise<number> {
   return streak;
 }
 
+/**
+ * Get reviews due today. Review failures never block today's focus.
+ */
+async function getDueReviews(userId: string): Promise<readonly ReviewItem[]> {
+  try {
+    const result = await getSparkEngine(storeManager.getStore())
+      .reviewService.getTodayReviews(userId as UserId);
+    return result.ok ? result.value.reviews : [];
+  } catch (error) {
+    logger.warn('Failed to load due reviews', {
+      userId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+}
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // ROUTER FACTORY
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -181,6 +205,7 @@ export function createTodayRouter(): Router {
       const activeGoals = await store.getUserGoals(userId, 'active');
       const completedToday = await getCompletedTodayCount(userId);
       const currentStreak = await calculateStreak(userId);
+      const reviews = await getDueReviews(userId);
       
       // Build response
       const response: Partial<TodayResponse> = {
@@ -188,6 +213,7 @@ export function createTodayRouter(): Router {
         step,
         quest,
         goal,
+        reviews,
         stats: {
           activeGoals: activeGoals.length,
           completedToday,
@@ -234,6 +260,7 @@ export function createTodayRouter(): Router {
           refresh: '/api/v1/today/refresh',
           sparks: '/api/v1/sparks',
           goals: '/api/v1/goals',
+          reviews: '/api/v1/reviews',
           spark: spark ? `/api/v1/sparks/${spark.id}` : undefined,
           complete: spark ? `/api/v1/sparks/${spark.id}/complete` : undefined,
           skip: spark ? `/api/v1/sparks/${spark.id}/skip` : undefined,
@@ -5,6 +5,7 @@
 //
 // Endpoints:
 //   GET    /me                 Get current user info
+//   GET    /me/usage           LLM token usage, cost and budget
 //   POST   /me/export          Export all user data (GDPR Article 20)
 //   DELETE /me                 Delete all user data (GDPR Article 17)
 //
@@ -14,6 +15,7 @@ import { Router, type Response } from 'express';
 import { z } from 'zod';
 import { auth, type AuthenticatedRequest } from '../../auth/index.js';
 import { getSwordStore } from '../../core/sword/index.js';
+import { getUsageLedger, checkBudget, isPeriodKey, periodKey } from '../../usage/index.js';
 import { getLogger } from '../../logging/index.js';
 
 // Middleware
@@ -345,6 +347,7 @@ export function createUserRouter(): Router {
         
         _links: {
           self: '/api/v1/me',
+          usage: '/api/v1/me/usage',
           export: '/api/v1/me/export',
           delete: '/api/v1/me',
           goals: '/api/v1/goals',
@@ -355,6 +358,41 @@ export function createUserRouter(): Router {
     })
   );
 
+  // ═══════════════════════════════════════════════════════════════════════════════
+  // LLM USAGE
+  // GET /me/usage?month=YYYY-MM
+  // ═══════════════════════════════════════════════════════════════════════════════
+  
+  router.get(
+    '/usage',
+    auth.middleware(true),
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const userId = req.userId!;
+      const month = typeof req.query.month === 'string' ? req.query.month : periodKey('month');
+      if (!isPeriodKey('month', month)) {
+        throw new ValidationError('month must be YYYY-MM');
+      }
+      
+      const ledger = getUsageLedger();
+      const [monthly, today, budget] = await Promise.all([
+        ledger.getUserUsage(userId, 'month', month),
+        ledger.getUserUsage(userId, 'day'),
+        checkBudget(userId, req.user?.tier ?? 'free', ledger),
+      ]);
+      
+      res.json({
+        userId,
+        budget,
+        month: monthly,
+        today,
+        _links: {
+          self: '/api/v1/me/usage',
+          user: '/api/v1/me',
+        },
+      });
+    })
+  );
+
   // ═══════════════════════════════════════════════════════════════════════════════
   // EXPORT USER DATA (GDPR Article 20 - Right to Data Portability)
   // POST /me/export
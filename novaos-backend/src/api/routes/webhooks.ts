@@ -6,6 +6,7 @@ import { Router, type Request, type Response } from 'express';
 import { getWebhookStore } from '../../webhooks/store.js';
 import { getWebhookDispatcher } from '../../webhooks/dispatcher.js';
 import { ALL_EVENT_TYPES, type WebhookEventType } from '../../webhooks/types.js';
+import { validateFilterOptions } from '../../webhooks/filters.js';
 import { getLogger } from '../../logging/index.js';
 
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -52,6 +53,27 @@ function validateUrl(url: string): void {
   }
 }
 
+// Event history retention. History is also capped at the most recent events
+// per user; a replay reaching past them reports truncated and availableFrom.
+const MAX_REPLAY_RANGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+function parseReplayRange(from: unknown, to: unknown): { from: Date; to: Date } {
+  const fromDate = new Date(typeof from === 'string' ? from : NaN);
+  const toDate = to === undefined ? new Date() : new Date(typeof to === 'string' ? to : NaN);
+  
+  if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime())) {
+    throw new Error('from and to must be ISO 8601 timestamps');
+  }
+  if (fromDate >= toDate) {
+    throw new Error('from must be before to');
+  }
+  if (toDate.getTime() - fromDate.getTime() > MAX_REPLAY_RANGE_MS) {
+    throw new Error('Replay range cannot exceed 30 days');
+  }
+  
+  return { from: fromDate, to: toDate };
+}
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // ROUTER
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -107,6 +129,7 @@ export function createWebhooksRouter(): Router {
       
       validateUrl(url);
       const validatedEvents = validateEvents(events);
+      validateFilterOptions(options);
       
       const webhook = await store.createWebhook(userId, {
         name,
@@ -196,6 +219,8 @@ export function createWebhooksRouter(): Router {
         validatedEvents = validateEvents(events);
       }
       
+      validateFilterOptions(options);
+      
       const webhook = await store.updateWebhook(id, userId, {
         name,
         description,
@@ -458,6 +483,60 @@ export function createWebhooksRouter(): Router {
     }
   });
   
+  // ═══════════════════════════════════════════════════════════════════════════════
+  // REPLAY EVENTS
+  // ═══════════════════════════════════════════════════════════════════════════════
+  
+  router.post('/:id/replay', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const userId = getUserId(req);
+      const id = req.params.id;
+      
+      if (!id) {
+        res.status(400).json({ error: 'id parameter is required' });
+        return;
+      }
+      
+      // Verify ownership
+      const webhook = await store.getWebhook(id);
+      if (!webhook || webhook.userId !== userId) {
+        res.status(404).json({ error: 'Webhook not found' });
+        return;
+      }
+      
+      if (webhook.status !== 'active') {
+        res.status(409).json({ error: `Webhook is ${webhook.status}` });
+        return;
+      }
+      
+      let range: { from: Date; to: Date };
+      try {
+        range = parseReplayRange(req.body?.from, req.body?.to);
+      } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid range' });
+        return;
+      }
+      
+      const result = await dispatcher.replay(id, range.from, range.to);
+      
+      logger.info('Webhook replay requested', {
+        webhookId: id,
+        userId,
+        queued: result.queued,
+        truncated: result.truncated,
+      });
+      
+      res.status(202).json({
+        ...result,
+        from: range.from.toISOString(),
+        to: range.to.toISOString(),
+      });
+    } catch (error) {
+      logger.error('Failed to replay events', error instanceof Error ? error : new Error(String(error)));
+      res.status(500).json({ error: 'Failed to replay events' });
+    }
+  });
+  
   // ═══════════════════════════════════════════════════════════════════════════════
   // LIST EVENT TYPES
   // ═══════════════════════════════════════════════════════════════════════════════
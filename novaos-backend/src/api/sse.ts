@@ -0,0 +1,119 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// SSE — Server-Sent Events writer for streaming endpoints
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Wire format matches sdk/streaming.ts: every event is a single `data:` line
+// carrying a JSON object with a `type` discriminator, terminated by a blank
+// line. Events sent with an id also carry an `id:` line, which browsers echo
+// back as Last-Event-ID when they reconnect. Headers are written lazily on the
+// first event so that request validation errors raised before any output can
+// still go through the normal JSON error handler.
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type { Request, Response } from 'express';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export type SSEEvent =
+  | { type: 'gate'; gate: string; status: string; action: string; executionTimeMs?: number }
+  | { type: 'chunk'; data: string }
+  | { type: 'replace'; data: string }
+  | { type: 'metadata'; metadata: Record<string, unknown> }
+  | { type: 'done'; metadata: Record<string, unknown> }
+  | { type: 'error'; error: string };
+
+export interface SSEWriter<E extends { type: string } = SSEEvent> {
+  /**
+   * Write an event (opens the stream on first call). Returns false once the
+   * socket buffer is full; wait for the response's 'drain' event before
+   * sending more.
+   */
+  send(event: E, id?: number | string): boolean;
+  /** End the stream; further sends are ignored */
+  close(): void;
+  /** Whether any event has been written yet */
+  readonly started: boolean;
+  /** Whether the client has disconnected or the stream was closed */
+  readonly closed: boolean;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// HELPERS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * True when the client asked for an event stream, either through the
+ * Accept header or a `?stream=true` query flag.
+ */
+export function wantsEventStream(req: Pick<Request, 'query' | 'headers'>): boolean {
+  if (req.query.stream === 'true' || req.query.stream === '1') {
+    return true;
+  }
+  return (req.headers.accept ?? '').includes('text/event-stream');
+}
+
+/**
+ * Create an SSE writer bound to an Express response.
+ */
+export function createSSEWriter<E extends { type: string } = SSEEvent>(res: Response): SSEWriter<E> {
+  let started = false;
+  let closed = false;
+  let heartbeat: ReturnType<typeof setInterval> | null = null;
+
+  const stop = () => {
+    closed = true;
+    if (heartbeat) {
+      clearInterval(heartbeat);
+      heartbeat = null;
+    }
+  };
+
+  // The response 'close' event fires on client disconnect as well as after end()
+  res.on('close', stop);
+
+  const open = () => {
+    started = true;
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    // Disable proxy buffering (nginx) so tokens reach the client immediately
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+
+    // Comment lines keep idle connections alive through proxies during slow gates
+    heartbeat = setInterval(() => {
+      if (!closed) res.write(': heartbeat\n\n');
+    }, HEARTBEAT_INTERVAL_MS);
+    heartbeat.unref?.();
+  };
+
+  return {
+    send(event: E, id?: number | string): boolean {
+      if (closed) return false;
+      if (!started) open();
+      const idLine = id !== undefined ? `id: ${id}\n` : '';
+      return res.write(`${idLine}data: ${JSON.stringify(event)}\n\n`);
+    },
+    close(): void {
+      if (closed) return;
+      stop();
+      res.end();
+    },
+    get started() {
+      return started;
+    },
+    get closed() {
+      return closed;
+    },
+  };
+}
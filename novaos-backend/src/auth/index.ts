@@ -22,6 +22,8 @@ export interface UserPayload {
   userId: string;
   email?: string;
   tier: 'free' | 'pro' | 'enterprise';
+  /** Organization the user's LLM usage is also billed to */
+  tenantId?: string;
   createdAt: number;
 }
 
@@ -222,14 +224,6 @@ export function rateLimitMiddleware() {
   };
 }
 
-// ─────────────────────────────────────────────────────────────────────────────────
-// TOKEN USAGE TRACKING
-// ─────────────────────────────────────────────────────────────────────────────────
-
-export async function trackTokenUsage(userId: string, tokens: number): Promise<boolean> {
-  return true;
-}
-
 // ─────────────────────────────────────────────────────────────────────────────────
 // ABUSE DETECTION
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -434,7 +428,6 @@ export const auth = {
   rateLimit: rateLimitMiddleware,
   abuseDetection: abuseDetectionMiddleware,
   trackVeto,
-  trackTokenUsage,
   blockUser,
   unblockUser,
   isUserBlocked,
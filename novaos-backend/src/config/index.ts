@@ -19,6 +19,13 @@ function envNumber(key: string, defaultValue: number): number {
   return isNaN(parsed) ? defaultValue : parsed;
 }
 
+function envFloat(key: string, defaultValue: number): number {
+  const value = process.env[key];
+  if (value === undefined) return defaultValue;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? defaultValue : parsed;
+}
+
 function envString(key: string, defaultValue: string): string {
   return process.env[key] ?? defaultValue;
 }
@@ -29,6 +36,17 @@ function envList(key: string, defaultValue: string[] = []): string[] {
   return value.split(',').map(s => s.trim()).filter(Boolean);
 }
 
+/** Parse a `k1=v1,k2=v2` list (the OTEL_*_HEADERS / OTEL_RESOURCE_ATTRIBUTES format). */
+function envKeyValues(key: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const pair of envList(key)) {
+    const index = pair.indexOf('=');
+    if (index <= 0) continue;
+    result[pair.slice(0, index).trim()] = decodeURIComponent(pair.slice(index + 1).trim());
+  }
+  return result;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // FEATURE FLAGS
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -45,7 +63,8 @@ export interface FeatureFlags {
   
   // Model providers
   mockProviderOnly: boolean;
-  preferredProvider: 'openai' | 'gemini' | 'mock';
+  preferredProvider: 'openai' | 'gemini' | 'local' | 'mock';
+  providerOrder: string[];        // Full fallback order; empty = preferred first
   
   // Auth
   authRequired: boolean;
@@ -77,7 +96,8 @@ export function loadFeatureFlags(): FeatureFlags {
     
     // Providers
     mockProviderOnly: envBool('USE_MOCK_PROVIDER', false),
-    preferredProvider: envString('PREFERRED_PROVIDER', 'openai') as 'openai' | 'gemini' | 'mock',
+    preferredProvider: envString('PREFERRED_PROVIDER', 'openai') as 'openai' | 'gemini' | 'local' | 'mock',
+    providerOrder: envList('PROVIDER_ORDER'),
     
     // Auth
     authRequired: envBool('REQUIRE_AUTH', false),
@@ -301,6 +321,233 @@ export function loadStagingConfig(): StagingConfig {
   };
 }
 
+// ─────────────────────────────────────────────────────────────────────────────────
+// TRACING CONFIG (standard OTEL_* variables where one exists)
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export interface TracingConfig {
+  enabled: boolean;
+  serviceName: string;
+  
+  // Fraction of new traces sampled (0-1); continued traces follow the caller
+  sampleRate: number;
+  
+  // OTLP/HTTP export (undefined = spans are only logged at debug level)
+  exporterEndpoint?: string;
+  exporterHeaders: Record<string, string>;
+  resourceAttributes: Record<string, string>;
+  exportBatchSize: number;
+  exportIntervalMs: number;
+}
+
+export function loadTracingConfig(): TracingConfig {
+  const sampleRate = parseFloat(process.env.OTEL_TRACES_SAMPLER_ARG ?? '');
+  const baseEndpoint = process.env.OTEL_EXPORTER_OTLP_ENDPOINT;
+  const exporterEndpoint = process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT
+    ?? (baseEndpoint ? `${baseEndpoint.replace(/\/+$/, '')}/v1/traces` : undefined);
+  
+  return {
+    enabled: envBool('ENABLE_TRACING', false),
+    serviceName: envString('OTEL_SERVICE_NAME', 'novaos'),
+    sampleRate: isNaN(sampleRate) ? 1.0 : Math.min(1, Math.max(0, sampleRate)),
+    exporterEndpoint,
+    exporterHeaders: envKeyValues('OTEL_EXPORTER_OTLP_HEADERS'),
+    resourceAttributes: {
+      'deployment.environment': envString('NODE_ENV', 'development'),
+      ...envKeyValues('OTEL_RESOURCE_ATTRIBUTES'),
+    },
+    exportBatchSize: envNumber('OTEL_BSP_MAX_EXPORT_BATCH_SIZE', 512),
+    exportIntervalMs: envNumber('OTEL_BSP_SCHEDULE_DELAY', 5000),
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// EMAIL NOTIFICATION CONFIG
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export interface EmailConfig {
+  enabled: boolean;             // True when SMTP_HOST is set
+  
+  smtp: {
+    host: string;
+    port: number;
+    secure: boolean;            // Implicit TLS (port 465)
+    requireTls: boolean;        // Refuse to send without STARTTLS
+    user?: string;
+    pass?: string;
+    timeoutMs: number;
+  };
+  
+  from: string;
+  replyTo?: string;
+  appUrl?: string;              // Base for relative action links
+  
+  // List-Unsubscribe targets (either or both)
+  unsubscribeUrl?: string;
+  unsubscribeMailto?: string;
+  unsubscribeSecret: string;
+  
+  dailyCap: number;             // Per user, per UTC day
+  maxBounces: number;           // Hard bounces before an address is suppressed
+}
+
+export function loadEmailConfig(): EmailConfig {
+  const port = envNumber('SMTP_PORT', 587);
+  
+  const enabled = Boolean(process.env.SMTP_HOST);
+  
+  // Anyone who knows the secret can unsubscribe any user, so production
+  // deployments that send unsubscribe links get no fallback
+  const unsubscribeSecret = process.env.EMAIL_UNSUBSCRIBE_SECRET;
+  if (
+    !unsubscribeSecret &&
+    enabled &&
+    process.env.EMAIL_UNSUBSCRIBE_URL &&
+    envString('NODE_ENV', 'development') === 'production'
+  ) {
+    throw new Error('EMAIL_UNSUBSCRIBE_SECRET must be set in production when email is enabled');
+  }
+  
+  return {
+    enabled,
+    smtp: {
+      host: envString('SMTP_HOST', ''),
+      port,
+      secure: envBool('SMTP_SECURE', port === 465),
+      requireTls: envBool('SMTP_REQUIRE_TLS', envString('NODE_ENV', 'development') === 'production'),
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASS,
+      timeoutMs: envNumber('SMTP_TIMEOUT_MS', 30000),
+    },
+    from: envString('EMAIL_FROM', 'NovaOS <notifications@localhost>'),
+    replyTo: process.env.EMAIL_REPLY_TO,
+    appUrl: process.env.APP_URL,
+    unsubscribeUrl: process.env.EMAIL_UNSUBSCRIBE_URL,
+    unsubscribeMailto: process.env.EMAIL_UNSUBSCRIBE_MAILTO,
+    unsubscribeSecret: unsubscribeSecret
+      || process.env.JWT_SECRET
+      || 'nova-dev-secret-change-in-production',
+    dailyCap: envNumber('EMAIL_DAILY_CAP', 5),
+    maxBounces: envNumber('EMAIL_MAX_BOUNCES', 3),
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// WEB PUSH CONFIG
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export interface PushConfig {
+  enabled: boolean;
+  
+  // VAPID key pair (base64url, web-push format) and contact URI
+  vapidPublicKey?: string;
+  vapidPrivateKey?: string;
+  vapidSubject: string;
+  
+  // Generate and persist a key pair when none is configured (never in production)
+  generateDevKeys: boolean;
+  
+  requestTimeoutMs: number;
+}
+
+export function loadPushConfig(): PushConfig {
+  const isProduction = envString('NODE_ENV', 'development') === 'production';
+  
+  return {
+    enabled: envBool('WEB_PUSH_ENABLED', true),
+    vapidPublicKey: process.env.VAPID_PUBLIC_KEY,
+    vapidPrivateKey: process.env.VAPID_PRIVATE_KEY,
+    vapidSubject: envString('VAPID_SUBJECT', 'mailto:notifications@localhost'),
+    generateDevKeys: !isProduction,
+    requestTimeoutMs: envNumber('WEB_PUSH_TIMEOUT_MS', 10000),
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// LOCAL MODEL CONFIG
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export interface LocalModelConfig {
+  // OpenAI-compatible API root (Ollama, llama.cpp server, vLLM, ...); unset = disabled
+  baseUrl?: string;
+  model: string;
+  apiKey?: string;
+  
+  // Context window in tokens; 0 = detect from the server, else 8192
+  contextLength: number;
+  
+  // 'auto' probes the server once with a tool-call request
+  toolCalling: 'auto' | 'enabled' | 'disabled';
+  
+  requestTimeoutMs: number;
+  healthCheckIntervalMs: number;
+}
+
+export function loadLocalModelConfig(): LocalModelConfig {
+  return {
+    baseUrl: process.env.LOCAL_LLM_BASE_URL || undefined,
+    model: envString('LOCAL_LLM_MODEL', 'llama3.1'),
+    apiKey: process.env.LOCAL_LLM_API_KEY || undefined,
+    contextLength: envNumber('LOCAL_LLM_CONTEXT_LENGTH', 0),
+    toolCalling: envString('LOCAL_LLM_TOOL_CALLING', 'auto') as 'auto' | 'enabled' | 'disabled',
+    requestTimeoutMs: envNumber('LOCAL_LLM_TIMEOUT_MS', 120000),
+    healthCheckIntervalMs: envNumber('LOCAL_LLM_HEALTH_INTERVAL_MS', 30000),
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// USAGE & BUDGET CONFIG
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export interface TierBudget {
+  // Past this monthly spend, requests are served by economy models; 0 = no limit
+  monthlyBudgetUsd: number;
+  
+  // Past this monthly spend, LLM requests are refused; 0 = never refuse
+  hardLimitUsd: number;
+}
+
+export interface UsageConfig {
+  // Enforce tier budgets (usage is recorded either way)
+  budgetsEnabled: boolean;
+  budgets: Record<'free' | 'pro' | 'enterprise', TierBudget>;
+  
+  // Models used once a user is over budget
+  economyModels: { openai: string; gemini: string };
+  
+  // Per-model price overrides, USD per 1M tokens: `model=input/output`
+  modelPrices: Record<string, string>;
+  
+  // Daily rollups are kept this long; monthly rollups for 13 months
+  dailyRetentionDays: number;
+}
+
+export function loadUsageConfig(): UsageConfig {
+  return {
+    budgetsEnabled: envBool('USAGE_BUDGETS_ENABLED', true),
+    budgets: {
+      free: {
+        monthlyBudgetUsd: envFloat('USAGE_FREE_MONTHLY_USD', 1),
+        hardLimitUsd: envFloat('USAGE_FREE_HARD_LIMIT_USD', 2),
+      },
+      pro: {
+        monthlyBudgetUsd: envFloat('USAGE_PRO_MONTHLY_USD', 20),
+        hardLimitUsd: envFloat('USAGE_PRO_HARD_LIMIT_USD', 40),
+      },
+      enterprise: {
+        monthlyBudgetUsd: envFloat('USAGE_ENTERPRISE_MONTHLY_USD', 0),
+        hardLimitUsd: envFloat('USAGE_ENTERPRISE_HARD_LIMIT_USD', 0),
+      },
+    },
+    economyModels: {
+      openai: envString('USAGE_ECONOMY_OPENAI_MODEL', 'gpt-4o-mini'),
+      gemini: envString('USAGE_ECONOMY_GEMINI_MODEL', 'gemini-1.5-flash-8b'),
+    },
+    modelPrices: envKeyValues('USAGE_MODEL_PRICES'),
+    dailyRetentionDays: envNumber('USAGE_DAILY_RETENTION_DAYS', 90),
+  };
+}
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // COMBINED CONFIG
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -311,6 +558,11 @@ export interface NovaConfig {
   webFetch: WebFetchConfig;
   verification: VerificationConfig;
   staging: StagingConfig;
+  tracing: TracingConfig;
+  email: EmailConfig;
+  push: PushConfig;
+  localModel: LocalModelConfig;
+  usage: UsageConfig;
 }
 
 let cachedConfig: NovaConfig | null = null;
@@ -324,6 +576,11 @@ export function loadConfig(): NovaConfig {
     webFetch: loadWebFetchConfig(),
     verification: loadVerificationConfig(),
     staging: loadStagingConfig(),
+    tracing: loadTracingConfig(),
+    email: loadEmailConfig(),
+    push: loadPushConfig(),
+    localModel: loadLocalModelConfig(),
+    usage: loadUsageConfig(),
   };
   
   return cachedConfig;
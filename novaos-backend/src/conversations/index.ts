@@ -3,6 +3,24 @@
 // ═══════════════════════════════════════════════════════════════════════════════
 
 import { getStore, type KeyValueStore } from '../storage/index.js';
+import {
+  ConversationSummarizer,
+  ConversationSummaryStore,
+  coveredMessageIds,
+  formatSummaries,
+  SUMMARY_CHUNK_SIZE,
+  type SummarizerOptions,
+} from './summaries.js';
+
+export {
+  ConversationSummarizer,
+  ConversationSummaryStore,
+  formatSummaryForPrompt,
+  SUMMARY_CHUNK_SIZE,
+  SUMMARY_FANOUT,
+  type ConversationSummary,
+  type SummarizerOptions,
+} from './summaries.js';
 
 // ─────────────────────────────────────────────────────────────────────────────────
 // TYPES
@@ -13,11 +31,19 @@ export interface Message {
   role: 'user' | 'assistant' | 'system';
   content: string;
   timestamp: number;
+  /**
+   * Previous message in this message's branch; null for the first message.
+   * Messages stored before branching have none and follow the message
+   * stored before them.
+   */
+  parentId?: string | null;
   metadata?: {
     stance?: string;
     status?: string;
     tokensUsed?: number;
     gateResults?: Record<string, any>;
+    /** Set on regenerated responses: the response they are a variant of */
+    regeneratedFrom?: string;
   };
 }
 
@@ -29,12 +55,28 @@ export interface Conversation {
   updatedAt: number;
   messageCount: number;
   totalTokens: number;
+  /** Last message of the active branch; defaults to the newest message */
+  activeLeafId?: string;
   metadata?: {
     lastStance?: string;
     tags?: string[];
   };
 }
 
+/**
+ * One alternative at a fork: a message and where its branch currently ends.
+ */
+export interface BranchInfo {
+  messageId: string;
+  role: Message['role'];
+  preview: string;
+  timestamp: number;
+  leafId: string;
+  /** Messages from this one to the leaf */
+  length: number;
+  active: boolean;
+}
+
 export interface ConversationWithMessages extends Conversation {
   messages: Message[];
 }
@@ -44,6 +86,8 @@ export interface ContextWindow {
   totalTokens: number;
   truncated: boolean;
   oldestIncluded: number;
+  /** Rolling summary of messages that no longer fit, oldest first */
+  summary: string | null;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -60,7 +104,18 @@ const CONVERSATION_TTL_SECONDS = CONVERSATION_TTL_DAYS * 24 * 60 * 60;
 // ─────────────────────────────────────────────────────────────────────────────────
 
 export class ConversationStore {
-  constructor(private store: KeyValueStore) {}
+  private summaries: ConversationSummaryStore;
+  readonly summarizer: ConversationSummarizer;
+
+  constructor(private store: KeyValueStore, options: SummarizerOptions = {}) {
+    this.summaries = new ConversationSummaryStore(store);
+    this.summarizer = new ConversationSummarizer(
+      this.summaries,
+      conversationId => this.getActiveBranch(conversationId),
+      CONVERSATION_TTL_SECONDS,
+      options
+    );
+  }
 
   private getConversationKey(conversationId: string): string {
     return `conv:${conversationId}`;
@@ -137,8 +192,9 @@ export class ConversationStore {
     // Delete conversation data
     await this.store.delete(this.getConversationKey(conversationId));
     
-    // Delete messages
+    // Delete messages and their summaries
     await this.store.delete(this.getMessagesKey(conversationId));
+    await this.summaries.deleteAll(conversationId);
 
     // Note: We don't remove from user list (would require list manipulation)
     // The list will naturally clean up when conversations are fetched
@@ -183,11 +239,21 @@ export class ConversationStore {
   // MESSAGE OPERATIONS
   // ─────────────────────────────────────────────────────────────────────────────
 
-  async addMessage(conversationId: string, message: Omit<Message, 'id' | 'timestamp'>): Promise<Message> {
+  /**
+   * Append a message to the active branch (or, with parentId, start a new
+   * branch under that message) and make it the active leaf.
+   */
+  async addMessage(
+    conversationId: string,
+    message: Omit<Message, 'id' | 'timestamp' | 'parentId'>,
+    parentId?: string | null
+  ): Promise<Message> {
+    const conversation = await this.get(conversationId);
     const fullMessage: Message = {
       ...message,
       id: crypto.randomUUID(),
       timestamp: Date.now(),
+      parentId: parentId !== undefined ? parentId : await this.getActiveLeafId(conversationId, conversation),
     };
 
     // Add to messages list
@@ -197,9 +263,9 @@ export class ConversationStore {
     );
 
     // Update conversation stats
-    const conversation = await this.get(conversationId);
     if (conversation) {
       await this.update(conversationId, {
+        activeLeafId: fullMessage.id,
         messageCount: conversation.messageCount + 1,
         totalTokens: conversation.totalTokens + (message.metadata?.tokensUsed ?? 0),
         metadata: {
@@ -218,19 +284,196 @@ export class ConversationStore {
     return fullMessage;
   }
 
+  /**
+   * Messages of the active branch in chronological order. `limit` and
+   * `offset` count from the newest message; a negative limit returns all.
+   */
   async getMessages(
     conversationId: string,
     limit: number = 100,
     offset: number = 0
   ): Promise<Message[]> {
-    const data = await this.store.lrange(
-      this.getMessagesKey(conversationId),
-      offset,
-      offset + limit - 1
-    );
+    const branch = await this.getActiveBranch(conversationId);
+    const end = Math.max(0, branch.length - offset);
+    return branch.slice(limit < 0 ? 0 : Math.max(0, end - limit), end);
+  }
+
+  /**
+   * Every stored message across all branches, in chronological order, with
+   * parentId resolved for messages stored before branching.
+   */
+  async getAllMessages(conversationId: string): Promise<Message[]> {
+    const data = await this.store.lrange(this.getMessagesKey(conversationId), 0, -1);
 
     // Messages are stored newest first, reverse for chronological order
-    return data.map(d => JSON.parse(d)).reverse();
+    const messages: Message[] = data.map(d => JSON.parse(d)).reverse();
+    return messages.map((message, i) => message.parentId !== undefined
+      ? message
+      : { ...message, parentId: messages[i - 1]?.id ?? null });
+  }
+
+  async getMessage(conversationId: string, messageId: string): Promise<Message | null> {
+    return (await this.getAllMessages(conversationId)).find(m => m.id === messageId) ?? null;
+  }
+
+  /**
+   * Replace a message's content. Summaries covering it are invalidated and
+   * regenerated on the next context build.
+   */
+  async editMessage(conversationId: string, messageId: string, content: string): Promise<Message | null> {
+    const messages = await this.getAllMessages(conversationId);
+    const message = messages.find(m => m.id === messageId);
+    if (!message) return null;
+
+    message.content = content;
+    await this.replaceMessages(conversationId, messages);
+    await this.summaries.invalidate(conversationId, messageId);
+
+    return message;
+  }
+
+  /**
+   * Remove a message. Its replies move up to its parent, so the branches
+   * below it stay intact.
+   */
+  async deleteMessage(conversationId: string, messageId: string): Promise<boolean> {
+    const messages = await this.getAllMessages(conversationId);
+    const message = messages.find(m => m.id === messageId);
+    if (!message) return false;
+
+    await this.replaceMessages(conversationId, messages
+      .filter(m => m.id !== messageId)
+      .map(m => m.parentId === messageId ? { ...m, parentId: message.parentId } : m));
+    await this.summaries.invalidate(conversationId, messageId);
+
+    const conversation = await this.get(conversationId);
+    if (conversation) {
+      await this.update(conversationId, {
+        activeLeafId: conversation.activeLeafId === messageId
+          ? message.parentId ?? undefined
+          : conversation.activeLeafId,
+        messageCount: Math.max(0, conversation.messageCount - 1),
+        totalTokens: Math.max(0, conversation.totalTokens - (message.metadata?.tokensUsed ?? 0)),
+      });
+    }
+
+    return true;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // BRANCHES
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Messages from the first message to the active leaf.
+   */
+  async getActiveBranch(conversationId: string): Promise<Message[]> {
+    const messages = await this.getAllMessages(conversationId);
+    const conversation = await this.get(conversationId);
+    return this.branchTo(messages, conversation?.activeLeafId ?? messages.at(-1)?.id);
+  }
+
+  /**
+   * Re-send a user message with new content: the edit is stored as a
+   * sibling of the original and becomes the active branch. Returns null
+   * when the message does not exist or is not a user message.
+   */
+  async forkMessage(conversationId: string, messageId: string, content: string): Promise<Message | null> {
+    const original = await this.getMessage(conversationId, messageId);
+    if (!original || original.role !== 'user') return null;
+
+    const message = await this.addMessage(conversationId, { role: 'user', content }, original.parentId ?? null);
+    await this.retainActiveBranchSummaries(conversationId);
+
+    return message;
+  }
+
+  /**
+   * Make the branch through a message active, continuing to its most
+   * recent leaf. Returns the new active branch, or null for an unknown
+   * message.
+   */
+  async switchBranch(conversationId: string, messageId: string): Promise<Message[] | null> {
+    const messages = await this.getAllMessages(conversationId);
+    if (!messages.some(m => m.id === messageId)) return null;
+
+    const leafId = this.latestLeaf(messages, messageId);
+    await this.update(conversationId, { activeLeafId: leafId });
+    await this.retainActiveBranchSummaries(conversationId);
+
+    return this.branchTo(messages, leafId);
+  }
+
+  /**
+   * The alternatives at a message: the message and its siblings, oldest
+   * first, each with the leaf its branch currently ends at.
+   */
+  async listBranches(conversationId: string, messageId: string): Promise<BranchInfo[] | null> {
+    const messages = await this.getAllMessages(conversationId);
+    const message = messages.find(m => m.id === messageId);
+    if (!message) return null;
+
+    const active = new Set((await this.getActiveBranch(conversationId)).map(m => m.id));
+
+    return messages
+      .filter(m => m.parentId === message.parentId)
+      .map(m => {
+        const leafId = this.latestLeaf(messages, m.id);
+        return {
+          messageId: m.id,
+          role: m.role,
+          preview: m.content.slice(0, 100) + (m.content.length > 100 ? '...' : ''),
+          timestamp: m.timestamp,
+          leafId,
+          length: this.branchTo(messages, leafId).length - this.branchTo(messages, m.id).length + 1,
+          active: active.has(m.id),
+        };
+      });
+  }
+
+  private async getActiveLeafId(conversationId: string, conversation: Conversation | null): Promise<string | null> {
+    if (conversation?.activeLeafId) return conversation.activeLeafId;
+
+    // Before any branching the newest message is the leaf
+    const [newest] = await this.store.lrange(this.getMessagesKey(conversationId), 0, 0);
+    return newest ? (JSON.parse(newest) as Message).id : null;
+  }
+
+  /**
+   * Path from the first message to `leafId`.
+   */
+  private branchTo(messages: Message[], leafId: string | undefined): Message[] {
+    const byId = new Map(messages.map(m => [m.id, m]));
+    const branch: Message[] = [];
+
+    for (let current = leafId ? byId.get(leafId) : undefined; current; ) {
+      branch.unshift(current);
+      current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+
+    return branch;
+  }
+
+  /**
+   * Follow the most recent reply from a message down to a leaf.
+   */
+  private latestLeaf(messages: Message[], messageId: string): string {
+    let leafId = messageId;
+    for (;;) {
+      const replies = messages.filter(m => m.parentId === leafId);
+      const latest = replies.at(-1);
+      if (!latest) return leafId;
+      leafId = latest.id;
+    }
+  }
+
+  /**
+   * Summaries describe one branch; drop those covering messages that are no
+   * longer on the active branch.
+   */
+  private async retainActiveBranchSummaries(conversationId: string): Promise<void> {
+    const branch = await this.getActiveBranch(conversationId);
+    await this.summaries.retain(conversationId, new Set(branch.map(m => m.id)));
   }
 
   async getFullConversation(conversationId: string): Promise<ConversationWithMessages | null> {
@@ -249,13 +492,23 @@ export class ConversationStore {
   // CONTEXT WINDOW MANAGEMENT
   // ─────────────────────────────────────────────────────────────────────────────
 
+  /**
+   * Most recent messages that fit the budget. Older messages are represented
+   * by their rolling summary; summarizing newly aged-out messages is
+   * scheduled in the background and shows up from a later call on.
+   *
+   * The window ends at the active leaf, or at `leafId` when given.
+   */
   async buildContextWindow(
     conversationId: string,
     maxTokens: number = MAX_CONTEXT_TOKENS,
-    maxMessages: number = MAX_MESSAGES_IN_CONTEXT
+    maxMessages: number = MAX_MESSAGES_IN_CONTEXT,
+    leafId?: string
   ): Promise<ContextWindow> {
-    const messages = await this.getMessages(conversationId, maxMessages * 2);
-    
+    const messages = leafId
+      ? this.branchTo(await this.getAllMessages(conversationId), leafId)
+      : await this.getActiveBranch(conversationId);
+
     let totalTokens = 0;
     let truncated = false;
     const includedMessages: Message[] = [];
@@ -276,11 +529,17 @@ export class ConversationStore {
       totalTokens += estimatedTokens;
     }
 
+    const oldestIncluded = includedMessages[0];
+    const summary = truncated && oldestIncluded
+      ? await this.summarizeAgedOut(conversationId, messages.length - includedMessages.length, oldestIncluded)
+      : null;
+
     return {
       messages: includedMessages,
       totalTokens,
       truncated,
-      oldestIncluded: includedMessages[0]?.timestamp ?? 0,
+      oldestIncluded: oldestIncluded?.timestamp ?? 0,
+      summary,
     };
   }
 
@@ -295,6 +554,36 @@ export class ConversationStore {
   // HELPERS
   // ─────────────────────────────────────────────────────────────────────────────
 
+  /**
+   * Summary text for messages before the window, scheduling a refresh once a
+   * full chunk of aged-out messages is not yet summarized.
+   */
+  private async summarizeAgedOut(
+    conversationId: string,
+    agedOutCount: number,
+    oldestIncluded: Message
+  ): Promise<string | null> {
+    const summaries = await this.summaries.list(conversationId);
+
+    if (agedOutCount - coveredMessageIds(summaries).size >= SUMMARY_CHUNK_SIZE) {
+      this.summarizer.schedule(conversationId, oldestIncluded.id);
+    }
+
+    const frontier = summaries.filter(s => !s.parentId && s.endTimestamp <= oldestIncluded.timestamp);
+    return frontier.length > 0 ? formatSummaries(frontier) : null;
+  }
+
+  /**
+   * Rewrite the message list, e.g. after an edit or delete.
+   */
+  private async replaceMessages(conversationId: string, messages: Message[]): Promise<void> {
+    const key = this.getMessagesKey(conversationId);
+    await this.store.delete(key);
+    for (const message of messages) {
+      await this.store.lpush(key, JSON.stringify(message));
+    }
+  }
+
   private estimateTokens(text: string): number {
     // Rough estimation: ~4 characters per token for English
     return Math.ceil(text.length / 4);
@@ -367,16 +656,61 @@ export const conversations = {
     });
   },
 
+  /**
+   * Store a regenerated response as a sibling of the original, which makes
+   * it the active branch. Variants are listed like any other branch.
+   */
+  async addResponseVariant(
+    conversationId: string,
+    original: Message,
+    content: string,
+    metadata?: Message['metadata']
+  ) {
+    return getConversationStore().addMessage(conversationId, {
+      role: 'assistant',
+      content,
+      metadata: { ...metadata, regeneratedFrom: original.metadata?.regeneratedFrom ?? original.id },
+    }, original.parentId ?? null);
+  },
+
   async getMessages(conversationId: string, limit?: number) {
     return getConversationStore().getMessages(conversationId, limit);
   },
 
+  async editMessage(conversationId: string, messageId: string, content: string) {
+    return getConversationStore().editMessage(conversationId, messageId, content);
+  },
+
+  async deleteMessage(conversationId: string, messageId: string) {
+    return getConversationStore().deleteMessage(conversationId, messageId);
+  },
+
+  async getMessage(conversationId: string, messageId: string) {
+    return getConversationStore().getMessage(conversationId, messageId);
+  },
+
+  async getAllMessages(conversationId: string) {
+    return getConversationStore().getAllMessages(conversationId);
+  },
+
+  async forkMessage(conversationId: string, messageId: string, content: string) {
+    return getConversationStore().forkMessage(conversationId, messageId, content);
+  },
+
+  async switchBranch(conversationId: string, messageId: string) {
+    return getConversationStore().switchBranch(conversationId, messageId);
+  },
+
+  async listBranches(conversationId: string, messageId: string) {
+    return getConversationStore().listBranches(conversationId, messageId);
+  },
+
   async getFull(conversationId: string) {
     return getConversationStore().getFullConversation(conversationId);
   },
 
-  async buildContext(conversationId: string, maxTokens?: number) {
-    return getConversationStore().buildContextWindow(conversationId, maxTokens);
+  async buildContext(conversationId: string, maxTokens?: number, leafId?: string) {
+    return getConversationStore().buildContextWindow(conversationId, maxTokens, undefined, leafId);
   },
 
   async updateTitle(conversationId: string, title: string) {
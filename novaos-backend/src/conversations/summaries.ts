@@ -0,0 +1,370 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// CONVERSATION SUMMARIES — Rolling Hierarchical Summaries of Aged-Out History
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Messages that fall out of the context window are summarized in chunks
+// (level 0). Once a level has more than SUMMARY_FANOUT unmerged summaries, the
+// oldest are merged into one summary a level up, so a conversation of any
+// length is described by a bounded number of summaries: detailed for recent
+// history, coarser for the distant past.
+//
+// Only full chunks are summarized, so up to SUMMARY_CHUNK_SIZE - 1 messages
+// between the newest summary and the window may be left out. Summaries are
+// generated in the background and never on the request path. Editing or
+// deleting a message invalidates the summary covering it and its ancestors.
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { createHash } from 'crypto';
+import type { KeyValueStore } from '../storage/index.js';
+import { getLlmClient, type LlmClient } from '../providers/index.js';
+import { withUsagePurpose } from '../usage/scope.js';
+import { getLogger } from '../logging/index.js';
+import type { Message } from './index.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export interface ConversationSummary {
+  id: string;
+  /** 0 summarizes messages; n summarizes level n-1 summaries */
+  level: number;
+  /** Timestamps of the first and last message covered */
+  startTimestamp: number;
+  endTimestamp: number;
+  messageCount: number;
+  /** Messages summarized (level 0 only) */
+  messageIds?: string[];
+  content: string;
+  /** Set once merged into a higher-level summary */
+  parentId?: string;
+  generatedBy: 'llm' | 'extractive';
+  createdAt: number;
+}
+
+export interface SummarizerOptions {
+  /** Defaults to the shared LLM client */
+  llm?: LlmClient;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/** Messages per level-0 summary */
+export const SUMMARY_CHUNK_SIZE = 10;
+
+/** Unmerged summaries kept per level before the oldest are merged up */
+export const SUMMARY_FANOUT = 4;
+
+const SUMMARY_MAX_TOKENS = 300;
+const SUMMARY_TIMEOUT_MS = 20000;
+const EXTRACTIVE_SNIPPET_LENGTH = 160;
+
+const SUMMARY_SYSTEM_PROMPT = `You keep a running summary of an earlier part of a conversation between a user and Nova, an AI coach.
+
+Write at most 150 words in the third person ("The user ...", "Nova ...").
+Preserve, in this order of priority:
+- Commitments and plans the user made, with any dates or deadlines
+- Goals, decisions and constraints
+- Preferences and personal facts the user shared
+- Questions that were left open
+
+Leave out greetings, filler and anything already superseded. Do not invent details.`;
+
+const logger = getLogger({ component: 'conversation-summaries' });
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SUMMARY STORE
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export class ConversationSummaryStore {
+  constructor(private store: KeyValueStore) {}
+
+  private getSummariesKey(conversationId: string): string {
+    return `conv:${conversationId}:summaries`;
+  }
+
+  /**
+   * All summaries, oldest range first.
+   */
+  async list(conversationId: string): Promise<ConversationSummary[]> {
+    const all = await this.store.hgetall(this.getSummariesKey(conversationId));
+    if (!all) return [];
+
+    return Object.values(all)
+      .map(data => JSON.parse(data) as ConversationSummary)
+      .sort((a, b) => a.startTimestamp - b.startTimestamp || b.level - a.level);
+  }
+
+  /**
+   * Summaries not merged into a parent: together they describe all
+   * summarized history exactly once.
+   */
+  async getFrontier(conversationId: string): Promise<ConversationSummary[]> {
+    return (await this.list(conversationId)).filter(s => !s.parentId);
+  }
+
+  async save(conversationId: string, summary: ConversationSummary, ttlSeconds: number): Promise<void> {
+    await this.store.hset(this.getSummariesKey(conversationId), summary.id, JSON.stringify(summary));
+    await this.store.expire(this.getSummariesKey(conversationId), ttlSeconds);
+  }
+
+  /**
+   * Drop the summary covering a message and every summary merged from it.
+   * Their other children stay valid and become unmerged again.
+   */
+  async invalidate(conversationId: string, messageId: string): Promise<number> {
+    const summaries = await this.list(conversationId);
+    const byId = new Map(summaries.map(s => [s.id, s]));
+    const stale = new Set<string>();
+
+    let current = summaries.find(s => s.messageIds?.includes(messageId));
+    while (current && !stale.has(current.id)) {
+      stale.add(current.id);
+      current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+
+    for (const id of stale) {
+      await this.store.hdel(this.getSummariesKey(conversationId), id);
+    }
+    for (const summary of summaries) {
+      if (summary.parentId && stale.has(summary.parentId) && !stale.has(summary.id)) {
+        const { parentId: _parentId, ...orphan } = summary;
+        await this.store.hset(this.getSummariesKey(conversationId), summary.id, JSON.stringify(orphan));
+      }
+    }
+
+    return stale.size;
+  }
+
+  /**
+   * Invalidate every summary covering a message outside `messageIds`, e.g.
+   * after switching to another branch of the conversation.
+   */
+  async retain(conversationId: string, messageIds: ReadonlySet<string>): Promise<number> {
+    const outside = (await this.list(conversationId))
+      .flatMap(s => s.messageIds ?? [])
+      .filter(id => !messageIds.has(id));
+
+    let invalidated = 0;
+    for (const id of outside) {
+      invalidated += await this.invalidate(conversationId, id);
+    }
+    return invalidated;
+  }
+
+  async deleteAll(conversationId: string): Promise<void> {
+    await this.store.delete(this.getSummariesKey(conversationId));
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// HELPERS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Stable ID derived from the messages or child summaries covered, so two
+ * instances summarizing the same range overwrite rather than duplicate
+ * each other.
+ */
+function summaryId(level: number, coveredIds: readonly string[]): string {
+  const hash = createHash('sha256').update(`${level}:${coveredIds.join(',')}`).digest('hex');
+  return `sum_${hash.slice(0, 16)}`;
+}
+
+function transcript(messages: readonly Message[]): string {
+  return messages
+    .map(m => `${m.role === 'assistant' ? 'Nova' : 'User'}: ${m.content}`)
+    .join('\n\n');
+}
+
+/**
+ * Fallback when no LLM is configured: the opening of each user message,
+ * which is where commitments and questions usually are.
+ */
+function extractiveSummary(messages: readonly Message[]): string {
+  return messages
+    .filter(m => m.role === 'user')
+    .map(m => {
+      const text = m.content.replace(/\s+/g, ' ').trim();
+      return text.length > EXTRACTIVE_SNIPPET_LENGTH
+        ? `- ${text.slice(0, EXTRACTIVE_SNIPPET_LENGTH)}...`
+        : `- ${text}`;
+    })
+    .join('\n');
+}
+
+/**
+ * IDs of all messages covered by a level-0 summary.
+ */
+export function coveredMessageIds(summaries: readonly ConversationSummary[]): Set<string> {
+  return new Set(summaries.flatMap(s => s.messageIds ?? []));
+}
+
+/**
+ * Render summaries as one block for a prompt, oldest first.
+ */
+export function formatSummaries(summaries: readonly ConversationSummary[]): string {
+  return summaries.map(s => s.content.trim()).filter(Boolean).join('\n\n');
+}
+
+/**
+ * Wrap summary text for a system prompt.
+ */
+export function formatSummaryForPrompt(summary: string): string {
+  return `<conversation_summary>\nEarlier in this conversation:\n${summary}\n</conversation_summary>`;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SUMMARIZER
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export class ConversationSummarizer {
+  private llm?: LlmClient;
+
+  /** In-flight refresh per conversation, and the boundary requested meanwhile */
+  private running = new Map<string, Promise<void>>();
+  private queued = new Map<string, string>();
+
+  constructor(
+    private summaries: ConversationSummaryStore,
+    private loadMessages: (conversationId: string) => Promise<Message[]>,
+    private ttlSeconds: number,
+    options: SummarizerOptions = {}
+  ) {
+    this.llm = options.llm;
+  }
+
+  /**
+   * Summarize the messages before `oldestIncludedId` (the oldest message still
+   * in the context window) in the background. Calls while a refresh is
+   * running are coalesced into one follow-up run with the latest boundary.
+   */
+  schedule(conversationId: string, oldestIncludedId: string): void {
+    if (this.running.has(conversationId)) {
+      this.queued.set(conversationId, oldestIncludedId);
+      return;
+    }
+
+    const run = new Promise<void>(resolve => setImmediate(resolve))
+      .then(() => this.refresh(conversationId, oldestIncludedId))
+      .catch(error => {
+        logger.warn('Summary refresh failed', {
+          conversationId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      })
+      .finally(() => {
+        this.running.delete(conversationId);
+        const next = this.queued.get(conversationId);
+        if (next !== undefined) {
+          this.queued.delete(conversationId);
+          this.schedule(conversationId, next);
+        }
+      });
+
+    this.running.set(conversationId, run);
+  }
+
+  /**
+   * Resolve once no refresh is running or queued (tests, shutdown).
+   */
+  async whenIdle(): Promise<void> {
+    while (this.running.size > 0) {
+      await Promise.all(this.running.values());
+    }
+  }
+
+  /**
+   * Summarize, in full chunks, the messages before `oldestIncludedId` that no
+   * summary covers yet, then merge levels that have grown past SUMMARY_FANOUT.
+   */
+  async refresh(conversationId: string, oldestIncludedId: string): Promise<void> {
+    const messages = await this.loadMessages(conversationId);
+    const boundary = messages.findIndex(m => m.id === oldestIncludedId);
+    if (boundary <= 0) return;
+
+    const covered = coveredMessageIds(await this.summaries.list(conversationId));
+    const uncovered = messages.slice(0, boundary).filter(m => !covered.has(m.id));
+
+    for (let i = 0; i + SUMMARY_CHUNK_SIZE <= uncovered.length; i += SUMMARY_CHUNK_SIZE) {
+      const chunk = uncovered.slice(i, i + SUMMARY_CHUNK_SIZE);
+      const { content, generatedBy } = await this.summarize(
+        transcript(chunk),
+        () => extractiveSummary(chunk)
+      );
+      await this.summaries.save(conversationId, {
+        id: summaryId(0, chunk.map(m => m.id)),
+        level: 0,
+        startTimestamp: chunk[0]!.timestamp,
+        endTimestamp: chunk.at(-1)!.timestamp,
+        messageCount: chunk.length,
+        messageIds: chunk.map(m => m.id),
+        content,
+        generatedBy,
+        createdAt: Date.now(),
+      }, this.ttlSeconds);
+    }
+
+    await this.mergeLevels(conversationId);
+  }
+
+  private async mergeLevels(conversationId: string): Promise<void> {
+    for (let level = 0; ; level++) {
+      const frontier = await this.summaries.getFrontier(conversationId);
+      const atLevel = frontier.filter(s => s.level === level);
+      if (atLevel.length === 0 && !frontier.some(s => s.level > level)) {
+        return;
+      }
+
+      while (atLevel.length > SUMMARY_FANOUT) {
+        const children = atLevel.splice(0, SUMMARY_FANOUT);
+        const { content, generatedBy } = await this.summarize(
+          children.map(c => c.content).join('\n\n'),
+          () => children.map(c => c.content).join('\n')
+        );
+        const parent: ConversationSummary = {
+          id: summaryId(level + 1, children.map(c => c.id)),
+          level: level + 1,
+          startTimestamp: children[0]!.startTimestamp,
+          endTimestamp: children.at(-1)!.endTimestamp,
+          messageCount: children.reduce((sum, c) => sum + c.messageCount, 0),
+          content,
+          generatedBy,
+          createdAt: Date.now(),
+        };
+
+        await this.summaries.save(conversationId, parent, this.ttlSeconds);
+        for (const child of children) {
+          await this.summaries.save(conversationId, { ...child, parentId: parent.id }, this.ttlSeconds);
+        }
+      }
+    }
+  }
+
+  private async summarize(
+    input: string,
+    fallback: () => string
+  ): Promise<Pick<ConversationSummary, 'content' | 'generatedBy'>> {
+    const llm = this.llm ?? getLlmClient();
+    if (!llm.isAvailable()) {
+      return { content: fallback(), generatedBy: 'extractive' };
+    }
+
+    // LLM errors propagate: the range stays unsummarized and is retried on
+    // the next refresh instead of being stored with a degraded summary
+    const completion = await withUsagePurpose('summarize', () => llm.complete({
+      messages: [
+        { role: 'system', content: SUMMARY_SYSTEM_PROMPT },
+        { role: 'user', content: input },
+      ],
+      maxTokens: SUMMARY_MAX_TOKENS,
+      temperature: 0,
+      timeoutMs: SUMMARY_TIMEOUT_MS,
+    }));
+
+    return { content: completion.text.trim(), generatedBy: 'llm' };
+  }
+}
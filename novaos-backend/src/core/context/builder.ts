@@ -31,7 +31,7 @@ import {
   type Path,
 } from '../sword/index.js';
 
-import { conversations, type Message } from '../../conversations/index.js';
+import { conversations, formatSummaryForPrompt, type Message } from '../../conversations/index.js';
 
 // ─────────────────────────────────────────────────────────────────────────────────
 // TYPES
@@ -61,6 +61,8 @@ export interface UnifiedContext {
     recentMessages: MessageSummary[];
     messageCount: number;
     topics: string[];
+    /** Rolling summary of messages outside the context window */
+    summary: string | null;
   };
   
   // Session metadata
@@ -151,6 +153,7 @@ export class ContextBuilder {
         recentMessages: [],
         messageCount: 0,
         topics: [],
+        summary: null,
       },
       session: {
         timestamp: new Date().toISOString(),
@@ -262,6 +265,7 @@ export class ContextBuilder {
       recentMessages: [],
       messageCount: 0,
       topics: [],
+      summary: null,
     };
     
     // Get full conversation with messages
@@ -285,6 +289,10 @@ export class ContextBuilder {
     // Extract topics (simple keyword extraction)
     result.topics = this.extractTopics(messages);
     
+    // Summary of what no longer fits the context window
+    const window = await conversations.buildContext(conversationId);
+    result.summary = window.summary;
+    
     return result;
   }
   
@@ -420,6 +428,12 @@ export class ContextBuilder {
       parts.push('</current_spark>');
     }
     
+    // Earlier conversation (rolling summary)
+    if (context.conversation.summary) {
+      parts.push('');
+      parts.push(formatSummaryForPrompt(context.conversation.summary));
+    }
+    
     // Warnings
     if (context.memory.warnings.length > 0) {
       parts.push('');
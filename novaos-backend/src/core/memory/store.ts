@@ -3,6 +3,8 @@
 // ═══════════════════════════════════════════════════════════════════════════════
 
 import { getStore, type KeyValueStore } from '../../storage/index.js';
+import { memoryEvents } from '../../events/index.js';
+import { normalizeTimezone } from '../../utils/timezone.js';
 import type {
   Memory,
   MemoryCategory,
@@ -28,6 +30,9 @@ const MEMORY_TTL = 730 * 24 * 60 * 60;       // 2 years max
 const PROFILE_TTL = 365 * 24 * 60 * 60;      // 1 year
 const PREFERENCES_TTL = 365 * 24 * 60 * 60;  // 1 year
 
+/** Memory fields a user can edit, reported in memory.updated events */
+const EDITABLE_FIELDS = ['value', 'context', 'confidence', 'sensitivity', 'expiresAt'] as const;
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // KEY GENERATION
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -111,6 +116,8 @@ export class MemoryStore {
     // Update profile stats
     await this.incrementMemoryCount(userId);
     
+    await memoryEvents.created(userId, { id, category: memory.category, key: memory.key });
+    
     return memory;
   }
   
@@ -122,14 +129,14 @@ export class MemoryStore {
     
     // Check expiration
     if (memory.expiresAt && new Date(memory.expiresAt) < new Date()) {
-      await this.deleteMemory(id, memory.userId);
+      await this.deleteMemory(id, memory.userId, 'expired');
       return null;
     }
     
     // Check decay
     if (memory.reinforcementScore < 10) {
       // Memory has decayed too much
-      await this.deleteMemory(id, memory.userId);
+      await this.deleteMemory(id, memory.userId, 'decayed');
       return null;
     }
     
@@ -158,10 +165,20 @@ export class MemoryStore {
     };
     
     await this.store.set(memoryKey(id), JSON.stringify(updated), MEMORY_TTL);
+    
+    const changes = EDITABLE_FIELDS.filter(field => updated[field] !== memory[field]);
+    if (changes.length > 0) {
+      await memoryEvents.updated(userId, { id, category: updated.category, key: updated.key, changes });
+    }
+    
     return updated;
   }
   
-  async deleteMemory(id: string, userId: string): Promise<boolean> {
+  /**
+   * Delete a memory. reason is reported in the memory.deleted event when the
+   * store removes a memory on its own (expiry, decay, bulk clears).
+   */
+  async deleteMemory(id: string, userId: string, reason?: string): Promise<boolean> {
     const memory = await this.store.get(memoryKey(id));
     if (!memory) return false;
     
@@ -173,6 +190,8 @@ export class MemoryStore {
     await this.removeFromCategoryIndex(userId, parsed.category, id);
     await this.decrementMemoryCount(userId);
     
+    await memoryEvents.deleted(userId, { id, category: parsed.category, key: parsed.key, reason });
+    
     return true;
   }
   
@@ -309,6 +328,15 @@ export class MemoryStore {
     return data ? JSON.parse(data) : null;
   }
   
+  /**
+   * The profile's timezone normalized to one luxon accepts, or null when it
+   * is unset or unrecognized.
+   */
+  async getTimezone(userId: string): Promise<string | null> {
+    const profile = await this.getProfile(userId);
+    return normalizeTimezone(profile?.timezone);
+  }
+  
   async getOrCreateProfile(userId: string): Promise<UserProfile> {
     let profile = await this.getProfile(userId);
     
@@ -412,7 +440,7 @@ export class MemoryStore {
     let count = 0;
     
     for (const id of allIds) {
-      const deleted = await this.deleteMemory(id, userId);
+      const deleted = await this.deleteMemory(id, userId, 'cleared');
       if (deleted) count++;
     }
     
@@ -424,7 +452,7 @@ export class MemoryStore {
     let count = 0;
     
     for (const memory of memories) {
-      const deleted = await this.deleteMemory(memory.id, userId);
+      const deleted = await this.deleteMemory(memory.id, userId, 'cleared');
       if (deleted) count++;
     }
     
@@ -466,7 +494,7 @@ export class MemoryStore {
       
       if (newScore < 10) {
         // Memory should be forgotten
-        await this.deleteMemory(id, userId);
+        await this.deleteMemory(id, userId, 'decayed');
         forgotten++;
       } else if (newScore !== memory.reinforcementScore) {
         // Update decay
@@ -27,6 +27,7 @@ import {
   transitionGoal, transitionQuest, transitionStep, transitionSpark,
   type TransitionResult, type SideEffect,
 } from './state-machine.js';
+import { goalEvents, questEvents, stepEvents, sparkEvents } from '../../events/index.js';
 
 // ─────────────────────────────────────────────────────────────────────────────────
 // CONSTANTS
@@ -38,6 +39,9 @@ const STEP_TTL = 180 * 24 * 60 * 60;       // 6 months
 const SPARK_TTL = 7 * 24 * 60 * 60;        // 7 days
 const SPARK_EXPIRY_HOURS = 24;             // Sparks expire after 24 hours
 
+/** Goal fields maintained by the store itself, not reported as user edits */
+const DERIVED_GOAL_FIELDS: ReadonlySet<string> = new Set(['questIds', 'progress', 'status', 'updatedAt']);
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // KEY GENERATION
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -124,6 +128,8 @@ export class SwordStore {
     userGoals.push(id);
     await this.store.set(userGoalsKey(userId), JSON.stringify(userGoals), GOAL_TTL);
     
+    await goalEvents.created(userId, { id, title: goal.title, description: goal.description });
+    
     return goal;
   }
   
@@ -153,6 +159,15 @@ export class SwordStore {
     };
     
     await this.store.set(goalKey(id), JSON.stringify(updated), GOAL_TTL);
+    
+    const changes = Object.keys(cleanUpdates).filter(key =>
+      !DERIVED_GOAL_FIELDS.has(key) &&
+      JSON.stringify(goal[key as keyof Goal]) !== JSON.stringify(updated[key as keyof Goal])
+    );
+    if (changes.length > 0) {
+      await goalEvents.updated(updated.userId, { id, title: updated.title, changes });
+    }
+    
     return updated;
   }
   
@@ -193,6 +208,7 @@ export class SwordStore {
     
     if (result.success) {
       await this.store.set(goalKey(id), JSON.stringify(result.entity), GOAL_TTL);
+      await this.emitGoalTransition(goal, result.entity, payload);
       await this.processSideEffects(result.sideEffects ?? []);
     }
     
@@ -271,6 +287,8 @@ export class SwordStore {
     // Update goal
     await this.updateGoal(request.goalId, { questIds: goalQuests });
     
+    await questEvents.created(userId, { id, goalId: quest.goalId, title: quest.title });
+    
     return quest;
   }
   
@@ -334,6 +352,7 @@ export class SwordStore {
     
     if (result.success) {
       await this.store.set(questKey(id), JSON.stringify(result.entity), QUEST_TTL);
+      await this.emitQuestTransition(quest, result.entity);
       await this.processSideEffects(result.sideEffects ?? []);
     }
     
@@ -412,6 +431,8 @@ export class SwordStore {
     // Update quest
     await this.updateQuest(request.questId, { stepIds: questSteps });
     
+    await stepEvents.created(quest.userId, { id, questId: step.questId, title: step.title });
+    
     return step;
   }
   
@@ -473,6 +494,7 @@ export class SwordStore {
     
     if (result.success) {
       await this.store.set(stepKey(id), JSON.stringify(result.entity), STEP_TTL);
+      await this.emitStepTransition(step, result.entity);
       await this.processSideEffects(result.sideEffects ?? []);
     }
     
@@ -532,6 +554,8 @@ export class SwordStore {
     userSparks.push(id);
     await this.store.set(userSparksKey(userId), JSON.stringify(userSparks), SPARK_TTL);
     
+    await sparkEvents.suggested(fullSpark.userId, { id, action: fullSpark.action, stepId: fullSpark.stepId });
+    
     return fullSpark;
   }
   
@@ -592,6 +616,7 @@ export class SwordStore {
     
     if (result.success) {
       await this.store.set(sparkKey(id), JSON.stringify(result.entity), SPARK_TTL);
+      await this.emitSparkTransition(spark, result.entity);
       await this.processSideEffects(result.sideEffects ?? []);
     }
     
@@ -706,6 +731,87 @@ export class SwordStore {
     };
   }
   
+  // ═══════════════════════════════════════════════════════════════════════════════
+  // DOMAIN EVENTS
+  // ═══════════════════════════════════════════════════════════════════════════════
+  
+  private async emitGoalTransition(before: Goal, after: Goal, payload?: Record<string, unknown>): Promise<void> {
+    if (before.status === after.status) return;
+    
+    if (after.status === 'completed') {
+      await goalEvents.completed(after.userId, {
+        id: after.id,
+        title: after.title,
+        completedAt: after.completedAt ?? after.updatedAt,
+      });
+    } else if (after.status === 'abandoned') {
+      await goalEvents.abandoned(after.userId, {
+        id: after.id,
+        title: after.title,
+        reason: typeof payload?.reason === 'string' ? payload.reason : undefined,
+      });
+    }
+  }
+  
+  private async emitQuestTransition(before: Quest, after: Quest): Promise<void> {
+    if (before.status === after.status) return;
+    
+    const quest = { id: after.id, goalId: after.goalId, title: after.title };
+    
+    switch (after.status) {
+      case 'active':
+        // Unblocking resumes a quest rather than starting it
+        if (before.status === 'not_started') {
+          await questEvents.started(after.userId, quest);
+        }
+        break;
+      case 'completed':
+        await questEvents.completed(after.userId, quest);
+        break;
+      case 'blocked':
+        await questEvents.blocked(after.userId, { ...quest, reason: after.riskNotes ?? 'Blocked' });
+        break;
+    }
+  }
+  
+  private async emitStepTransition(before: Step, after: Step): Promise<void> {
+    if (before.status === after.status) return;
+    if (after.status !== 'completed' && after.status !== 'skipped') return;
+    
+    // Steps carry no owner; it comes from the quest
+    const quest = await this.getQuest(after.questId);
+    if (!quest) return;
+    
+    const step = { id: after.id, questId: after.questId, title: after.title };
+    
+    if (after.status === 'completed') {
+      await stepEvents.completed(quest.userId, step);
+    } else {
+      await stepEvents.skipped(quest.userId, { ...step, reason: after.skipReason });
+    }
+  }
+  
+  private async emitSparkTransition(before: Spark, after: Spark): Promise<void> {
+    if (before.status === after.status) return;
+    
+    const spark = { id: after.id, action: after.action };
+    
+    switch (after.status) {
+      case 'accepted':
+        await sparkEvents.accepted(after.userId, spark);
+        break;
+      case 'completed':
+        await sparkEvents.completed(after.userId, { ...spark, duration: after.actualMinutes });
+        break;
+      case 'skipped':
+        await sparkEvents.declined(after.userId, { ...spark, reason: after.skipReason });
+        break;
+      case 'expired':
+        await sparkEvents.expired(after.userId, spark);
+        break;
+    }
+  }
+  
   // ═══════════════════════════════════════════════════════════════════════════════
   // SIDE EFFECTS
   // ═══════════════════════════════════════════════════════════════════════════════
@@ -739,7 +845,17 @@ export class SwordStore {
     const totalProgress = quests.reduce((sum, q) => sum + q.progress, 0);
     const avgProgress = Math.round(totalProgress / quests.length);
     
-    await this.updateGoal(goalId, { progress: avgProgress });
+    const previous = await this.getGoal(goalId);
+    const updated = await this.updateGoal(goalId, { progress: avgProgress });
+    
+    if (previous && updated && previous.progress !== avgProgress) {
+      await goalEvents.progress(updated.userId, {
+        id: goalId,
+        title: updated.title,
+        progress: avgProgress,
+        previousProgress: previous.progress,
+      });
+    }
     
     // Check for auto-complete
     if (avgProgress === 100) {
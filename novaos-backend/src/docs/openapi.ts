@@ -224,6 +224,9 @@ Main chat endpoint. Processes user messages through the Nova pipeline (intent, s
 
 **Soft Veto Override:**
 If response type is \`await_ack\`, resend the request with the provided \`ackToken\` to override.
+
+**Streaming:**
+Send \`Accept: text/event-stream\` (or use \`/api/v1/chat/stream\`) to receive the response as Server-Sent Events.
       `,
       operationId: 'sendChatMessage',
       security: [{ bearerAuth: [] }, { apiKey: [] }],
@@ -275,6 +278,45 @@ If response type is \`await_ack\`, resend the request with the provided \`ackTok
     },
   },
   
+  '/api/v1/chat/stream': {
+    post: {
+      tags: ['Chat'],
+      summary: 'Send chat message (streaming)',
+      description: `
+Same pipeline as \`/api/v1/chat\`, delivered as Server-Sent Events. Each event is a \`data:\` line holding a JSON object:
+
+- \`{"type":"gate","gate":"shield","status":"pass","action":"continue","executionTimeMs":42}\` as each gate completes
+- \`{"type":"chunk","data":"..."}\` for each model token
+- \`{"type":"replace","data":"..."}\` with the full validated text when it differs from the streamed tokens (personality rewrites and regenerations); clients discard what they have rendered and show this instead
+- \`{"type":"done","metadata":{...}}\` with the final message, stance, requestId and gateResults
+- \`{"type":"error","error":"..."}\` if the stream fails after it has started
+
+The \`message\` in the \`done\` metadata is authoritative: the personality gate may edit or regenerate streamed text.
+      `,
+      operationId: 'streamChatMessage',
+      security: [{ bearerAuth: [] }, { apiKey: [] }],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/ChatRequest' },
+          },
+        },
+      },
+      responses: {
+        '200': {
+          description: 'Event stream of gate progress, tokens and final metadata',
+          content: {
+            'text/event-stream': {
+              schema: { type: 'string' },
+            },
+          },
+        },
+        ...errorResponses,
+      },
+    },
+  },
+  
   '/api/v1/chat/enhanced': {
     post: {
       tags: ['Chat'],
@@ -716,7 +758,409 @@ If response type is \`await_ack\`, resend the request with the provided \`ackTok
       },
     },
   },
-  
+
+  '/api/v1/steps/{stepId}/quiz': {
+    get: {
+      tags: ['Sword - Steps'],
+      summary: 'Get step quiz',
+      description: 'Get the knowledge-check quiz for a step. Questions are generated on first request; answers are never included.',
+      operationId: 'getStepQuiz',
+      security: [{ bearerAuth: [] }, { apiKey: [] }],
+      parameters: [
+        { name: 'stepId', in: 'path', required: true, schema: { type: 'string' } },
+        { name: 'regenerate', in: 'query', schema: { type: 'boolean', default: false }, description: 'Replace the questions (attempts are kept)' },
+      ],
+      responses: {
+        '200': {
+          description: 'Step quiz',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  quiz: {
+                    type: 'object',
+                    properties: {
+                      stepId: { type: 'string' },
+                      questions: {
+                        type: 'array',
+                        items: {
+                          type: 'object',
+                          properties: {
+                            id: { type: 'string' },
+                            type: { type: 'string', enum: ['multiple_choice', 'short_answer', 'code_output'] },
+                            prompt: { type: 'string' },
+                            choices: { type: 'array', items: { type: 'string' } },
+                            code: { type: 'string' },
+                            language: { type: 'string' },
+                          },
+                        },
+                      },
+                      passingScore: { type: 'integer' },
+                      attemptCount: { type: 'integer' },
+                      bestScore: { type: 'integer', nullable: true },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        '503': { description: 'Quiz generation unavailable' },
+        ...errorResponses,
+      },
+    },
+  },
+
+  '/api/v1/steps/{stepId}/quiz/attempts': {
+    get: {
+      tags: ['Sword - Steps'],
+      summary: 'List quiz attempts',
+      description: 'List graded attempts for a step quiz, oldest first.',
+      operationId: 'listQuizAttempts',
+      security: [{ bearerAuth: [] }, { apiKey: [] }],
+      parameters: [
+        { name: 'stepId', in: 'path', required: true, schema: { type: 'string' } },
+      ],
+      responses: {
+        '200': { description: 'Quiz attempts' },
+        ...errorResponses,
+      },
+    },
+    post: {
+      tags: ['Sword - Steps'],
+      summary: 'Submit quiz attempt',
+      description: 'Grade an attempt. A passing score completes the step and the score updates its difficulty rating unless the user rated it.',
+      operationId: 'submitQuizAttempt',
+      security: [{ bearerAuth: [] }, { apiKey: [] }],
+      parameters: [
+        { name: 'stepId', in: 'path', required: true, schema: { type: 'string' } },
+      ],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              properties: {
+                answers: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      questionId: { type: 'string' },
+                      response: { oneOf: [{ type: 'integer' }, { type: 'string' }] },
+                    },
+                    required: ['questionId', 'response'],
+                  },
+                },
+              },
+              required: ['answers'],
+            },
+          },
+        },
+      },
+      responses: {
+        '201': { description: 'Attempt graded; returns the attempt and updated step' },
+        ...errorResponses,
+      },
+    },
+  },
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // PLANS (Sword)
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  '/api/v1/goals/{id}/reschedule': {
+    post: {
+      tags: ['Sword - Plans'],
+      summary: 'Reschedule plan',
+      description: 'Move the goal\'s missed steps back onto the learner\'s active days. push_back moves every remaining step later; compress doubles up steps to keep the end date; drop_optional drops optional activities and packs steps within the daily time budget. Without a policy the goal\'s policy applies, then push_back. Does nothing when the plan is in sync.',
+      operationId: 'reschedulePlan',
+      security: [{ bearerAuth: [] }, { apiKey: [] }],
+      parameters: [
+        { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+      ],
+      requestBody: {
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              properties: {
+                policy: { type: 'string', enum: ['push_back', 'compress', 'drop_optional'] },
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        '200': { description: 'Moved, trimmed and dropped steps with the new end date' },
+        ...errorResponses,
+      },
+    },
+  },
+
+  '/api/v1/goals/{id}/pause': {
+    post: {
+      tags: ['Sword - Plans'],
+      summary: 'Pause plan',
+      description: 'Pause the plan over an inclusive date range ("vacation mode"). Steps in the range move past it, no reminders are sent and streaks are frozen.',
+      operationId: 'pausePlan',
+      security: [{ bearerAuth: [] }, { apiKey: [] }],
+      parameters: [
+        { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+      ],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              properties: {
+                startDate: { type: 'string', format: 'date' },
+                endDate: { type: 'string', format: 'date' },
+                reason: { type: 'string', maxLength: 500 },
+              },
+              required: ['startDate', 'endDate'],
+            },
+          },
+        },
+      },
+      responses: {
+        '201': { description: 'Plan paused; returns the goal\'s pauses and the moved steps' },
+        ...errorResponses,
+      },
+    },
+  },
+
+  '/api/v1/goals/{id}/resume': {
+    post: {
+      tags: ['Sword - Plans'],
+      summary: 'Resume plan',
+      description: 'End the current pause early and lay the remaining steps out again from today.',
+      operationId: 'resumePlan',
+      security: [{ bearerAuth: [] }, { apiKey: [] }],
+      parameters: [
+        { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+      ],
+      responses: {
+        '200': { description: 'Plan resumed; returns the goal\'s pauses and the moved steps' },
+        '409': { description: 'The plan is not paused today' },
+        ...errorResponses,
+      },
+    },
+  },
+
+  '/api/v1/goals/{id}/adaptations': {
+    get: {
+      tags: ['Sword - Plans'],
+      summary: 'List plan adaptations',
+      description: 'Changes made to the plan from difficulty ratings and time spent (split, catch-up, smaller sparks, merged or earlier days), newest first, each with an explanation.',
+      operationId: 'listPlanAdaptations',
+      security: [{ bearerAuth: [] }, { apiKey: [] }],
+      parameters: [
+        { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+      ],
+      responses: {
+        '200': {
+          description: 'Adaptation history',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  adaptations: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        id: { type: 'string' },
+                        kind: {
+                          type: 'string',
+                          enum: ['split_step', 'insert_remediation', 'lower_variant', 'merge_steps', 'accelerate'],
+                        },
+                        status: { type: 'string', enum: ['applied', 'undone'] },
+                        explanation: { type: 'string' },
+                        assessment: { type: 'object' },
+                        affectedStepIds: { type: 'array', items: { type: 'string' } },
+                        createdStepIds: { type: 'array', items: { type: 'string' } },
+                        createdAt: { type: 'string', format: 'date-time' },
+                        undoneAt: { type: 'string', format: 'date-time' },
+                      },
+                    },
+                  },
+                  count: { type: 'integer' },
+                },
+              },
+            },
+          },
+        },
+        ...errorResponses,
+      },
+    },
+  },
+
+  '/api/v1/goals/{id}/adaptations/{adaptationId}/undo': {
+    post: {
+      tags: ['Sword - Plans'],
+      summary: 'Undo plan adaptation',
+      description: 'Restore the days an adaptation changed and remove the days it added.',
+      operationId: 'undoPlanAdaptation',
+      security: [{ bearerAuth: [] }, { apiKey: [] }],
+      parameters: [
+        { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        { name: 'adaptationId', in: 'path', required: true, schema: { type: 'string' } },
+      ],
+      responses: {
+        '200': { description: 'Adaptation undone' },
+        '409': { description: 'Already undone, the changed days were started, or a later adaptation changed them' },
+        ...errorResponses,
+      },
+    },
+  },
+
+  '/api/v1/goals/{id}/calendar.ics': {
+    get: {
+      tags: ['Sword - Calendar'],
+      summary: 'Download plan calendar',
+      description: 'Download the goal\'s scheduled steps as an iCalendar (RFC 5545) file, with reminder alarms.',
+      operationId: 'downloadPlanCalendar',
+      security: [{ bearerAuth: [] }, { apiKey: [] }],
+      parameters: [
+        { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+      ],
+      responses: {
+        '200': {
+          description: 'iCalendar file',
+          content: { 'text/calendar': { schema: { type: 'string' } } },
+        },
+        ...errorResponses,
+      },
+    },
+  },
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // CALENDAR (Sword)
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  '/api/v1/calendar/feed': {
+    get: {
+      tags: ['Sword - Calendar'],
+      summary: 'Get calendar feed',
+      description: 'Get the user\'s calendar subscription URL, or null if none was issued.',
+      operationId: 'getCalendarFeed',
+      security: [{ bearerAuth: [] }, { apiKey: [] }],
+      responses: {
+        '200': { description: 'Subscription URL (https and webcal) and issue time' },
+        ...errorResponses,
+      },
+    },
+    post: {
+      tags: ['Sword - Calendar'],
+      summary: 'Issue calendar feed',
+      description: 'Issue a new calendar subscription URL. Any previous URL stops working.',
+      operationId: 'issueCalendarFeed',
+      security: [{ bearerAuth: [] }, { apiKey: [] }],
+      responses: {
+        '201': { description: 'Subscription URL issued' },
+        ...errorResponses,
+      },
+    },
+    delete: {
+      tags: ['Sword - Calendar'],
+      summary: 'Revoke calendar feed',
+      description: 'Revoke the calendar subscription URL.',
+      operationId: 'revokeCalendarFeed',
+      security: [{ bearerAuth: [] }, { apiKey: [] }],
+      responses: {
+        '204': { description: 'Subscription URL revoked' },
+        ...errorResponses,
+      },
+    },
+  },
+
+  '/api/v1/calendar/feed/{token}.ics': {
+    get: {
+      tags: ['Sword - Calendar'],
+      summary: 'Calendar feed',
+      description: 'iCalendar feed of the user\'s scheduled steps, for calendar app subscriptions. Authenticated by the secret token in the URL.',
+      operationId: 'getCalendarFeedContent',
+      parameters: [
+        { name: 'token', in: 'path', required: true, schema: { type: 'string' } },
+      ],
+      responses: {
+        '200': {
+          description: 'iCalendar feed',
+          content: { 'text/calendar': { schema: { type: 'string' } } },
+        },
+        '404': { description: 'Unknown or revoked token' },
+      },
+    },
+  },
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // REVIEWS (Sword)
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  '/api/v1/reviews': {
+    get: {
+      tags: ['Sword - Reviews'],
+      summary: 'Get due reviews',
+      description: 'Get completed steps due for spaced-repetition review today, in the user\'s timezone, most overdue first.',
+      operationId: 'getDueReviews',
+      security: [{ bearerAuth: [] }, { apiKey: [] }],
+      responses: {
+        '200': {
+          description: 'Reviews due today',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  date: { type: 'string', format: 'date' },
+                  timezone: { type: 'string' },
+                  reviews: { type: 'array', items: { type: 'object' } },
+                },
+              },
+            },
+          },
+        },
+        ...errorResponses,
+      },
+    },
+  },
+
+  '/api/v1/reviews/{stepId}': {
+    post: {
+      tags: ['Sword - Reviews'],
+      summary: 'Submit review',
+      description: 'Rate recall of a reviewed step. The rating sets the next due date.',
+      operationId: 'submitReview',
+      security: [{ bearerAuth: [] }, { apiKey: [] }],
+      parameters: [
+        { name: 'stepId', in: 'path', required: true, schema: { type: 'string' } },
+      ],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              properties: {
+                rating: { type: 'string', enum: ['again', 'hard', 'good', 'easy'] },
+              },
+              required: ['rating'],
+            },
+          },
+        },
+      },
+      responses: {
+        '200': { description: 'Review recorded; returns the rescheduled review item' },
+        ...errorResponses,
+      },
+    },
+  },
+
   // ═══════════════════════════════════════════════════════════════════════════
   // SPARKS (Sword)
   // ═══════════════════════════════════════════════════════════════════════════
@@ -1503,6 +1947,9 @@ When tradeoffs occur, Nova prioritizes:
     { name: 'Sword - Quests', description: 'Milestones toward goals' },
     { name: 'Sword - Steps', description: 'Ordered actions within quests' },
     { name: 'Sword - Sparks', description: 'Minimal, immediate actions' },
+    { name: 'Sword - Reviews', description: 'Spaced-repetition review of completed steps' },
+    { name: 'Sword - Plans', description: 'Missed-day rescheduling and plan pauses' },
+    { name: 'Sword - Calendar', description: 'iCalendar feeds and exports of scheduled steps' },
     { name: 'Sword - Path', description: 'Route from current state to goal' },
     { name: 'Memory - Profile', description: 'User profile and preferences' },
     { name: 'Memory - Items', description: 'Individual memory items' },
@@ -391,7 +391,12 @@ export const PreferencesSchema: OpenAPISchema = {
 export const SearchRequestSchema: OpenAPISchema = {
   type: 'object',
   properties: {
-    query: { type: 'string', minLength: 1, maxLength: 500 },
+    query: {
+      type: 'string',
+      minLength: 1,
+      maxLength: 500,
+      description: 'Supports "phrases", -exclusion, NOT, OR, (grouping), field filters (tag:, type:, title:, category:, role:, conversation:, confidence:) and dates (after:, before:, on: YYYY-MM-DD). Malformed queries return 400 with the parse issue position.',
+    },
     scope: { type: 'string', enum: ['all', 'conversations', 'memories', 'goals'] },
     limit: { type: 'integer', minimum: 1, maximum: 100, default: 20 },
     offset: { type: 'integer', minimum: 0, default: 0 },
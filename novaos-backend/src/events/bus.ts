@@ -0,0 +1,347 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// DOMAIN EVENT BUS — In-Process Publish/Subscribe with Outbox Relay
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Handles:
+// - Subscriber registration by stable name
+// - Writing each published event to the outbox before delivery
+// - Immediate in-process delivery, acknowledged per subscriber
+// - A relay that retries failed deliveries with exponential backoff and
+//   recovers events whose delivering process died (at-least-once)
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type { KeyValueStore } from '../storage/index.js';
+import { EventOutbox } from './outbox.js';
+import type {
+  DomainEvent,
+  DomainEventHandler,
+  DomainEventSubscriber,
+  EventBusConfig,
+  EventBusStats,
+  OutboxEntry,
+  SubscribeOptions,
+} from './types.js';
+import { DEFAULT_EVENT_BUS_CONFIG } from './types.js';
+import { registerDefaultSubscribers } from './subscribers.js';
+import { getLogger } from '../logging/index.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// LOGGER
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const logger = getLogger({ component: 'domain-event-bus' });
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// EVENT BUS CLASS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export class DomainEventBus {
+  private outbox: EventOutbox;
+  private config: EventBusConfig;
+  private subscribers: Map<string, DomainEventSubscriber> = new Map();
+  private inFlight: Set<Promise<void>> = new Set();
+  private relayInterval: NodeJS.Timeout | null = null;
+  private relaying: boolean = false;
+  private running: boolean = false;
+  private stats = { published: 0, delivered: 0, failed: 0, deadLettered: 0 };
+
+  constructor(store?: KeyValueStore, config: Partial<EventBusConfig> = {}) {
+    this.outbox = new EventOutbox(store);
+    this.config = { ...DEFAULT_EVENT_BUS_CONFIG, ...config };
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════════
+  // LIFECYCLE
+  // ═══════════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Start the outbox relay. Register subscribers first: entries left by a
+   * previous process are redelivered on the first tick.
+   */
+  start(): void {
+    if (this.running) return;
+
+    this.running = true;
+    this.relayInterval = setInterval(() => void this.relay(), this.config.relayIntervalMs);
+
+    logger.info('Domain event bus started', { subscribers: [...this.subscribers.keys()] });
+  }
+
+  stop(): void {
+    if (!this.running) return;
+
+    this.running = false;
+    if (this.relayInterval) {
+      clearInterval(this.relayInterval);
+      this.relayInterval = null;
+    }
+
+    logger.info('Domain event bus stopped');
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Wait for deliveries already under way. Anything not acknowledged by then
+   * stays in the outbox for the next relay.
+   */
+  async drain(): Promise<void> {
+    while (this.inFlight.size > 0) {
+      await Promise.allSettled([...this.inFlight]);
+    }
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════════
+  // SUBSCRIPTIONS
+  // ═══════════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Register a handler under a stable name. Returns an unsubscribe function.
+   */
+  subscribe(name: string, handler: DomainEventHandler, options: SubscribeOptions = {}): () => void {
+    if (this.subscribers.has(name)) {
+      throw new Error(`Domain event subscriber already registered: ${name}`);
+    }
+
+    this.subscribers.set(name, {
+      name,
+      handler,
+      types: options.types ? new Set(options.types) : undefined,
+    });
+
+    return () => {
+      this.subscribers.delete(name);
+    };
+  }
+
+  getSubscriberNames(): string[] {
+    return [...this.subscribers.keys()];
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════════
+  // PUBLISHING
+  // ═══════════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Publish an event. Resolves once the event is in the outbox; delivery to
+   * subscribers continues in the background. Never throws, so a publisher's
+   * own write is not reported as failed because of a subscriber.
+   */
+  async publish(event: DomainEvent): Promise<void> {
+    const pending = [...this.subscribers.values()]
+      .filter(subscriber => !subscriber.types || subscriber.types.has(event.type))
+      .map(subscriber => subscriber.name);
+
+    if (pending.length === 0) return;
+
+    this.stats.published++;
+
+    const entry: OutboxEntry = {
+      event,
+      pending,
+      attempts: 0,
+      createdAt: new Date().toISOString(),
+    };
+
+    try {
+      // Hidden from the relay until the lease runs out, so it only sees this
+      // entry if the immediate delivery below never finishes
+      await this.outbox.append(entry, Date.now() + this.config.leaseMs);
+    } catch (error) {
+      logger.error(
+        'Failed to write event to outbox, delivering without it',
+        error instanceof Error ? error : new Error(String(error)),
+        { eventId: event.id, type: event.type }
+      );
+    }
+
+    this.track(this.deliver(entry));
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════════
+  // RELAY
+  // ═══════════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Redeliver due outbox entries. Returns the number of entries processed.
+   */
+  async relay(): Promise<number> {
+    if (this.relaying) return 0;
+    this.relaying = true;
+
+    let processed = 0;
+
+    try {
+      const ids = await this.outbox.due(Date.now(), this.config.relayBatchSize);
+
+      for (const id of ids) {
+        if (!(await this.outbox.claim(id, this.config.leaseMs))) continue;
+
+        const entry = await this.outbox.get(id);
+        if (!entry) {
+          // Entry expired or was completed after it was listed
+          await this.outbox.complete(id);
+          continue;
+        }
+
+        const delivery = this.deliver(entry);
+        this.track(delivery);
+        await delivery;
+        processed++;
+      }
+    } catch (error) {
+      logger.error(
+        'Error relaying outbox entries',
+        error instanceof Error ? error : new Error(String(error))
+      );
+    } finally {
+      this.relaying = false;
+    }
+
+    return processed;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════════
+  // DELIVERY
+  // ═══════════════════════════════════════════════════════════════════════════════
+
+  private async deliver(entry: OutboxEntry): Promise<void> {
+    const { event } = entry;
+    const failed: string[] = [];
+    let lastError: string | undefined;
+
+    // Sequential, so per-subscriber acks are recorded in one write below
+    for (const name of entry.pending) {
+      const subscriber = this.subscribers.get(name);
+
+      if (!subscriber) {
+        failed.push(name);
+        lastError = `No subscriber registered as ${name}`;
+        continue;
+      }
+
+      try {
+        await subscriber.handler(event);
+        this.stats.delivered++;
+      } catch (error) {
+        failed.push(name);
+        lastError = error instanceof Error ? error.message : String(error);
+        this.stats.failed++;
+
+        logger.warn('Domain event subscriber failed', {
+          eventId: event.id,
+          type: event.type,
+          subscriber: name,
+          attempt: entry.attempts + 1,
+          error: lastError,
+        });
+      }
+    }
+
+    try {
+      if (failed.length === 0) {
+        await this.outbox.complete(event.id);
+        return;
+      }
+
+      const next: OutboxEntry = {
+        ...entry,
+        pending: failed,
+        attempts: entry.attempts + 1,
+        lastAttemptAt: new Date().toISOString(),
+        lastError,
+      };
+
+      if (next.attempts >= this.config.maxAttempts) {
+        await this.outbox.deadLetter(next);
+        this.stats.deadLettered++;
+
+        logger.error('Domain event dead-lettered', undefined, {
+          eventId: event.id,
+          type: event.type,
+          subscribers: failed,
+          attempts: next.attempts,
+          error: lastError,
+        });
+        return;
+      }
+
+      await this.outbox.reschedule(next, Date.now() + this.calculateBackoff(next.attempts));
+    } catch (error) {
+      // The entry keeps its old state and is retried once its lease expires
+      logger.error(
+        'Failed to record event delivery in outbox',
+        error instanceof Error ? error : new Error(String(error)),
+        { eventId: event.id, type: event.type }
+      );
+    }
+  }
+
+  private calculateBackoff(attempt: number): number {
+    const delay = this.config.retryBaseDelayMs * Math.pow(2, attempt - 1);
+    return Math.min(delay, this.config.retryMaxDelayMs);
+  }
+
+  private track(delivery: Promise<void>): void {
+    this.inFlight.add(delivery);
+    delivery.finally(() => this.inFlight.delete(delivery));
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════════
+  // INSPECTION
+  // ═══════════════════════════════════════════════════════════════════════════════
+
+  getOutbox(): EventOutbox {
+    return this.outbox;
+  }
+
+  getStats(): EventBusStats {
+    return {
+      running: this.running,
+      subscribers: this.getSubscriberNames(),
+      inFlight: this.inFlight.size,
+      ...this.stats,
+    };
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SINGLETON
+// ─────────────────────────────────────────────────────────────────────────────────
+
+let eventBus: DomainEventBus | null = null;
+
+/**
+ * The process-wide bus. It has no subscribers until initEventBus() runs at
+ * startup, so publishing from scripts and unit tests writes nothing.
+ */
+export function getEventBus(): DomainEventBus {
+  if (!eventBus) {
+    eventBus = new DomainEventBus();
+  }
+  return eventBus;
+}
+
+/**
+ * Replace the process-wide bus with one that delivers to webhooks, analytics
+ * and notifications, and start its relay.
+ */
+export function initEventBus(store?: KeyValueStore, config?: Partial<EventBusConfig>): DomainEventBus {
+  eventBus?.stop();
+  eventBus = new DomainEventBus(store, config);
+  registerDefaultSubscribers(eventBus);
+  eventBus.start();
+  return eventBus;
+}
+
+export function resetEventBus(): void {
+  eventBus?.stop();
+  eventBus = null;
+}
+
+export function createEventBus(store: KeyValueStore, config?: Partial<EventBusConfig>): DomainEventBus {
+  return new DomainEventBus(store, config);
+}
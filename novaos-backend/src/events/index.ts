@@ -0,0 +1,61 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// DOMAIN EVENTS MODULE — Event Bus, Outbox and Subscribers
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Services publish what happened (goal completed, memory deleted, chat vetoed)
+// through the typed emitters below. The bus writes each event to an outbox in
+// the KeyValueStore and delivers it at least once to webhooks, analytics and
+// notifications.
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Types
+export type {
+  DomainEvent,
+  DomainEventType,
+  DomainEventHandler,
+  DomainEventSubscriber,
+  SubscribeOptions,
+  OutboxEntry,
+  EventBusConfig,
+  EventBusStats,
+} from './types.js';
+
+export { DEFAULT_EVENT_BUS_CONFIG } from './types.js';
+
+// Bus
+export {
+  DomainEventBus,
+  getEventBus,
+  initEventBus,
+  resetEventBus,
+  createEventBus,
+} from './bus.js';
+
+// Outbox
+export { EventOutbox } from './outbox.js';
+
+// Subscribers
+export {
+  WEBHOOK_SUBSCRIBER,
+  ANALYTICS_SUBSCRIBER,
+  NOTIFICATION_SUBSCRIBER,
+  ANALYTICS_EVENT_TYPES,
+  createWebhookSubscriber,
+  createAnalyticsSubscriber,
+  createNotificationSubscriber,
+  registerDefaultSubscribers,
+} from './subscribers.js';
+
+// Typed emitters
+export {
+  emitEvent,
+  goalEvents,
+  questEvents,
+  stepEvents,
+  sparkEvents,
+  memoryEvents,
+  chatEvents,
+  userEvents,
+  systemEvents,
+} from '../webhooks/events.js';
@@ -0,0 +1,120 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// EVENT OUTBOX — Durable Record of Undelivered Domain Events
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Every published event is written here before any subscriber sees it and is
+// removed only once all of its subscribers have acknowledged it. Entries are
+// indexed in a sorted set scored by when they are next due, so the relay can
+// pick up events whose delivery failed or whose process died mid-delivery.
+//
+// KeyValueStore has no multi-key transactions, so the entry is appended in
+// the same store right after the state change it describes; a crash between
+// the two writes is the only window in which an event can be lost.
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { getStore, type KeyValueStore } from '../storage/index.js';
+import type { OutboxEntry } from './types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const ENTRY_TTL = 7 * 24 * 60 * 60;          // 7 days
+const MAX_DEAD_LETTERS = 1000;
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// KEY GENERATION
+// ─────────────────────────────────────────────────────────────────────────────────
+
+function entryKey(eventId: string): string {
+  return `events:outbox:entry:${eventId}`;
+}
+
+function dueKey(): string {
+  return 'events:outbox:due';
+}
+
+function claimKey(eventId: string): string {
+  return `events:outbox:claim:${eventId}`;
+}
+
+function deadLetterKey(): string {
+  return 'events:outbox:dead';
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// OUTBOX CLASS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export class EventOutbox {
+  private store: KeyValueStore;
+
+  constructor(store?: KeyValueStore) {
+    this.store = store ?? getStore();
+  }
+
+  /**
+   * Record an event for delivery. It becomes visible to the relay at dueAt.
+   */
+  async append(entry: OutboxEntry, dueAt: number): Promise<void> {
+    await this.store.set(entryKey(entry.event.id), JSON.stringify(entry), ENTRY_TTL);
+    await this.store.zadd(dueKey(), dueAt, entry.event.id);
+  }
+
+  async get(eventId: string): Promise<OutboxEntry | null> {
+    const data = await this.store.get(entryKey(eventId));
+    return data ? JSON.parse(data) : null;
+  }
+
+  /**
+   * Ids of entries due for (re)delivery, oldest first.
+   */
+  async due(now: number, limit: number): Promise<string[]> {
+    return this.store.zrangebyscore(dueKey(), 0, now, { limit: { offset: 0, count: limit } });
+  }
+
+  /**
+   * Take exclusive ownership of an entry for leaseMs. Returns false when
+   * another relay (in this or another process) already holds it.
+   */
+  async claim(eventId: string, leaseMs: number): Promise<boolean> {
+    return this.store.setnx(claimKey(eventId), '1', Math.max(1, Math.ceil(leaseMs / 1000)));
+  }
+
+  /**
+   * Save a partially delivered entry and schedule the next attempt.
+   */
+  async reschedule(entry: OutboxEntry, dueAt: number): Promise<void> {
+    await this.store.set(entryKey(entry.event.id), JSON.stringify(entry), ENTRY_TTL);
+    await this.store.zadd(dueKey(), dueAt, entry.event.id);
+    await this.store.delete(claimKey(entry.event.id));
+  }
+
+  /**
+   * Drop an entry every subscriber has acknowledged.
+   */
+  async complete(eventId: string): Promise<void> {
+    await this.store.zrem(dueKey(), eventId);
+    await this.store.delete(entryKey(eventId));
+    await this.store.delete(claimKey(eventId));
+  }
+
+  /**
+   * Give up on an entry, keeping it for inspection.
+   */
+  async deadLetter(entry: OutboxEntry): Promise<void> {
+    await this.store.lpush(deadLetterKey(), JSON.stringify(entry));
+    await this.store.ltrim(deadLetterKey(), 0, MAX_DEAD_LETTERS - 1);
+    await this.complete(entry.event.id);
+  }
+
+  async getDeadLetters(limit = 50): Promise<OutboxEntry[]> {
+    const items = await this.store.lrange(deadLetterKey(), 0, limit - 1);
+    return items.map(item => JSON.parse(item) as OutboxEntry);
+  }
+
+  async pendingCount(): Promise<number> {
+    return this.store.zcard(dueKey());
+  }
+}
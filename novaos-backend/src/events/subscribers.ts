@@ -0,0 +1,142 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// DOMAIN EVENT SUBSCRIBERS — Webhooks, Analytics and Notifications
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type { AnalyticsEventType } from '../analytics/types.js';
+import { getEventCollector, type EventCollector } from '../analytics/collector.js';
+import { getNotificationService, type NotificationService } from '../notifications/service.js';
+import { getWebhookDispatcher, type WebhookDispatcher } from '../webhooks/dispatcher.js';
+import type { DomainEventBus } from './bus.js';
+import type { DomainEventHandler, DomainEventType } from './types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export const WEBHOOK_SUBSCRIBER = 'webhooks';
+export const ANALYTICS_SUBSCRIBER = 'analytics';
+export const NOTIFICATION_SUBSCRIBER = 'notifications';
+
+/**
+ * Analytics event recorded for each domain event type.
+ */
+export const ANALYTICS_EVENT_TYPES: Readonly<Partial<Record<DomainEventType, AnalyticsEventType>>> = {
+  'goal.created': 'goal.create',
+  'goal.updated': 'goal.update',
+  'goal.completed': 'goal.complete',
+  'goal.abandoned': 'goal.abandon',
+  'quest.started': 'quest.start',
+  'quest.completed': 'quest.complete',
+  'quest.blocked': 'quest.block',
+  'step.completed': 'step.complete',
+  'step.skipped': 'step.skip',
+  'spark.suggested': 'spark.suggest',
+  'spark.accepted': 'spark.accept',
+  'spark.completed': 'spark.complete',
+  'spark.declined': 'spark.decline',
+  'spark.expired': 'spark.expire',
+  'chat.shield_triggered': 'shield.trigger',
+  'chat.veto': 'shield.veto',
+};
+
+/** Progress percentages that earn a milestone notification */
+const GOAL_MILESTONES = [25, 50, 75] as const;
+
+const NOTIFICATION_EVENT_TYPES: readonly DomainEventType[] = [
+  'goal.completed',
+  'goal.progress',
+  'chat.veto',
+];
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// WEBHOOKS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Queue deliveries for the user's webhooks. The dispatcher ignores events it
+ * has already queued for a webhook, so retries only fill in the gaps.
+ */
+export function createWebhookSubscriber(dispatcher?: WebhookDispatcher): DomainEventHandler {
+  return async (event) => {
+    await (dispatcher ?? getWebhookDispatcher()).dispatch(event);
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// ANALYTICS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Record the matching analytics event, persisted before the event is acked.
+ */
+export function createAnalyticsSubscriber(collector?: EventCollector): DomainEventHandler {
+  return async (event) => {
+    const type = ANALYTICS_EVENT_TYPES[event.type];
+    if (!type) return;
+
+    await (collector ?? getEventCollector()).trackImmediate(event.userId, type, {
+      ...event.data,
+      domainEventId: event.id,
+      source: event.source,
+    });
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// NOTIFICATIONS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Notify users of completed goals, progress milestones and hard vetoes.
+ */
+export function createNotificationSubscriber(service?: NotificationService): DomainEventHandler {
+  return async (event) => {
+    const notifications = service ?? getNotificationService();
+
+    switch (event.type) {
+      case 'goal.completed': {
+        const goal = event.data.goal as { id: string; title: string };
+        await notifications.goalCompleted(event.userId, goal);
+        break;
+      }
+
+      case 'goal.progress': {
+        const goal = event.data.goal as { id: string; title: string; progress: number; previousProgress: number };
+        const milestone = crossedMilestone(goal.previousProgress, goal.progress);
+        if (milestone !== undefined) {
+          await notifications.goalMilestone(event.userId, { ...goal, progress: milestone });
+        }
+        break;
+      }
+
+      case 'chat.veto': {
+        const veto = event.data.veto as { type: 'soft' | 'hard'; reason: string; auditId?: string };
+        if (veto.type === 'hard') {
+          await notifications.shieldTriggered(event.userId, veto);
+        }
+        break;
+      }
+    }
+  };
+}
+
+/**
+ * Highest milestone passed on the way from previous to current progress.
+ */
+function crossedMilestone(previous: number, current: number): number | undefined {
+  return GOAL_MILESTONES.filter(m => previous < m && current >= m).at(-1);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// REGISTRATION
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export function registerDefaultSubscribers(bus: DomainEventBus): void {
+  bus.subscribe(WEBHOOK_SUBSCRIBER, createWebhookSubscriber());
+  bus.subscribe(ANALYTICS_SUBSCRIBER, createAnalyticsSubscriber(), {
+    types: Object.keys(ANALYTICS_EVENT_TYPES) as DomainEventType[],
+  });
+  bus.subscribe(NOTIFICATION_SUBSCRIBER, createNotificationSubscriber(), {
+    types: NOTIFICATION_EVENT_TYPES,
+  });
+}
@@ -0,0 +1,92 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// DOMAIN EVENT TYPES — Events, Subscribers and Outbox Entries
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type { WebhookEvent, WebhookEventType } from '../webhooks/types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// EVENTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Domain events share the webhook envelope, so the webhook subscriber can
+ * hand them to the dispatcher unchanged and external consumers see the same
+ * event ids the bus deduplicates on.
+ */
+export type DomainEvent = WebhookEvent;
+export type DomainEventType = WebhookEventType;
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SUBSCRIBERS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Handles one event. Throwing marks the delivery failed and the event is
+ * retried for this subscriber only. Handlers may see the same event more
+ * than once and should key any side effects on event.id.
+ */
+export type DomainEventHandler = (event: DomainEvent) => Promise<void>;
+
+export interface SubscribeOptions {
+  /** Event types to receive; every type when omitted */
+  types?: readonly DomainEventType[];
+}
+
+export interface DomainEventSubscriber {
+  /** Stable name, persisted in outbox entries across restarts */
+  name: string;
+  handler: DomainEventHandler;
+  types?: ReadonlySet<DomainEventType>;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// OUTBOX
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export interface OutboxEntry {
+  event: DomainEvent;
+
+  /** Subscribers that have not yet acknowledged the event */
+  pending: string[];
+
+  attempts: number;
+  createdAt: string;
+  lastAttemptAt?: string;
+  lastError?: string;
+}
+
+export interface EventBusConfig {
+  /** How long a delivery may run before the relay treats it as abandoned */
+  leaseMs: number;
+
+  /** Relay poll interval */
+  relayIntervalMs: number;
+
+  /** Entries claimed per relay tick */
+  relayBatchSize: number;
+
+  /** Attempts before an entry is moved to the dead letter list */
+  maxAttempts: number;
+
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+}
+
+export const DEFAULT_EVENT_BUS_CONFIG: EventBusConfig = {
+  leaseMs: 60_000,
+  relayIntervalMs: 5_000,
+  relayBatchSize: 50,
+  maxAttempts: 8,
+  retryBaseDelayMs: 5_000,
+  retryMaxDelayMs: 600_000,
+};
+
+export interface EventBusStats {
+  running: boolean;
+  subscribers: string[];
+  inFlight: number;
+  published: number;
+  delivered: number;
+  failed: number;
+  deadLettered: number;
+}
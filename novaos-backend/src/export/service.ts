@@ -3,6 +3,7 @@
 // ═══════════════════════════════════════════════════════════════════════════════
 
 import { getStore, type KeyValueStore } from '../storage/index.js';
+import { ConversationStore } from '../conversations/index.js';
 import type {
   ExportRequest,
   ExportResult,
@@ -559,34 +560,22 @@ export class ExportService {
       return null;
     }
     
-    // Get messages
-    const messagesData = await this.getListData(`conv:${conversationId}:messages`);
-    const messages: ExportedMessage[] = [];
-    
-    for (const msgJson of messagesData) {
-      try {
-        const msg = JSON.parse(msgJson);
-        messages.push({
-          id: msg.id,
-          role: msg.role,
-          content: msg.content,
-          timestamp: new Date(msg.timestamp).toISOString(),
-          metadata: msg.metadata,
-        });
-      } catch (e) {
-        // Skip invalid messages
-      }
-    }
-    
-    // Reverse to chronological order
-    messages.reverse();
+    // Get messages of the active branch only
+    const branch = await new ConversationStore(this.store).getActiveBranch(conversationId);
+    const messages: ExportedMessage[] = branch.map(msg => ({
+      id: msg.id,
+      role: msg.role,
+      content: msg.content,
+      timestamp: new Date(msg.timestamp).toISOString(),
+      metadata: msg.metadata,
+    }));
     
     return {
       id: conv.id,
       title: conv.title,
       createdAt: new Date(conv.createdAt).toISOString(),
       updatedAt: new Date(conv.updatedAt).toISOString(),
-      messageCount: conv.messageCount,
+      messageCount: messages.length,
       tags: conv.metadata?.tags,
       messages,
     };
@@ -1029,8 +1018,9 @@ export class ExportService {
       const msgData = await this.getListData(`conv:${convId}:messages`);
       messages += msgData.length;
       
-      // Delete messages
+      // Delete messages and their summaries
       await this.store.delete(`conv:${convId}:messages`);
+      await this.store.delete(`conv:${convId}:summaries`);
       
       // Delete conversation
       await this.store.delete(`conv:${convId}`);
@@ -2,7 +2,7 @@
 // NOVAOS GATES — All Gate Implementations
 // ═══════════════════════════════════════════════════════════════════════════════
 
-import OpenAI from 'openai';
+import { getLlmClient, resetLlmClient } from '../providers/index.js';
 
 import type {
   PipelineState,
@@ -137,24 +137,12 @@ interface ShieldClassification {
   reasoning: string;
 }
 
-// OpenAI client singleton
-let openaiClient: OpenAI | null = null;
-
-function getOpenAIClient(): OpenAI | null {
-  // Always try to create client if API key exists and client is null
-  // This ensures the mock is used in tests even after module initialization
-  if (!openaiClient && process.env.OPENAI_API_KEY) {
-    openaiClient = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-  }
-  return openaiClient;
-}
-
 /**
- * Reset the OpenAI client singleton (for testing).
+ * Reset the shared LLM client (for testing).
  * Call this in test setup/teardown to ensure fresh client creation.
  */
 export function resetOpenAIClient(): void {
-  openaiClient = null;
+  resetLlmClient();
 }
 
 // LLM System Prompt with Few-Shot Examples
@@ -273,10 +261,10 @@ Now classify the following message. Return only valid JSON:
 ═══════════════════════════════════════════════════════════════`;
 
 async function classifyWithLLM(message: string): Promise<ShieldClassification> {
-  const client = getOpenAIClient();
+  const llm = getLlmClient();
   
-  if (!client) {
-    console.warn('[SHIELD] OpenAI client not available - defaulting to safe');
+  if (!llm.isAvailable()) {
+    console.warn('[SHIELD] LLM client not available - defaulting to safe');
     return {
       riskLevel: 'none',
       category: 'safe',
@@ -286,17 +274,17 @@ async function classifyWithLLM(message: string): Promise<ShieldClassification> {
   }
 
   try {
-    const response = await client.chat.completions.create({
+    const { text: content } = await llm.complete({
       model: 'gpt-4o-mini',
       messages: [
         { role: 'system', content: SHIELD_SYSTEM_PROMPT },
         { role: 'user', content: message },
       ],
-      max_tokens: 150,
+      maxTokens: 150,
       temperature: 0,
+      responseFormat: 'json',
     });
 
-    const content = response.choices[0]?.message?.content?.trim() ?? '';
     return parseClassification(content);
 
   } catch (error) {
@@ -1,9 +1,9 @@
 // ═══════════════════════════════════════════════════════════════════════════════
 // INTENT GATE — LLM-Powered Intent Classification
-// Uses GPT-4o-mini for semantic intent classification with validation & fail-open
+// Uses the shared LLM client for semantic intent classification with validation & fail-open
 // ═══════════════════════════════════════════════════════════════════════════════
 
-import OpenAI from 'openai';
+import { getLlmClient } from '../providers/index.js';
 
 import type {
   PipelineState,
@@ -31,19 +31,6 @@ import {
   HIGH_STAKES_DOMAINS,
 } from '../types/intent-types.js';
 
-// ─────────────────────────────────────────────────────────────────────────────────
-// OPENAI CLIENT SINGLETON
-// ─────────────────────────────────────────────────────────────────────────────────
-
-let openaiClient: OpenAI | null = null;
-
-function getOpenAIClient(): OpenAI | null {
-  if (!openaiClient && process.env.OPENAI_API_KEY) {
-    openaiClient = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-  }
-  return openaiClient;
-}
-
 // ─────────────────────────────────────────────────────────────────────────────────
 // LLM SYSTEM PROMPT WITH FEW-SHOT EXAMPLES
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -194,10 +181,10 @@ async function classifyWithLLM(message: string): Promise<{
     failedOpen: false,
   };
 
-  const client = getOpenAIClient();
+  const llm = getLlmClient();
 
-  if (!client) {
-    console.warn('[INTENT] OpenAI client not available - using fail-open defaults');
+  if (!llm.isAvailable()) {
+    console.warn('[INTENT] LLM client not available - using fail-open defaults');
     telemetry.failedOpen = true;
     telemetry.latencyMs = Date.now() - startTime;
     return {
@@ -207,17 +194,17 @@ async function classifyWithLLM(message: string): Promise<{
   }
 
   try {
-    const response = await client.chat.completions.create({
+    const { text: content } = await llm.complete({
       model: 'gpt-4o-mini',
       messages: [
         { role: 'system', content: INTENT_SYSTEM_PROMPT },
         { role: 'user', content: message },
       ],
-      max_tokens: 200,
+      maxTokens: 200,
       temperature: 0,
+      responseFormat: 'json',
     });
 
-    const content = response.choices[0]?.message?.content?.trim() ?? '';
     telemetry.latencyMs = Date.now() - startTime;
 
     // Parse and validate
@@ -3,20 +3,7 @@
 // Extracts requirements, identifies what MUST be verified
 // ═══════════════════════════════════════════════════════════════════════════════
 
-import OpenAI from 'openai';
-
-// ─────────────────────────────────────────────────────────────────────────────────
-// OPENAI CLIENT SINGLETON
-// ─────────────────────────────────────────────────────────────────────────────────
-
-let openaiClient: OpenAI | null = null;
-
-function getOpenAIClient(): OpenAI | null {
-  if (!openaiClient && process.env.OPENAI_API_KEY) {
-    openaiClient = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-  }
-  return openaiClient;
-}
+import { getLlmClient } from '../../providers/index.js';
 
 // ─────────────────────────────────────────────────────────────────────────────────
 // CLAIM REQUIREMENTS
@@ -112,25 +99,25 @@ Query: "Write a poem about the ocean"
 // ─────────────────────────────────────────────────────────────────────────────────
 
 export async function extractClaimRequirements(message: string): Promise<ClaimRequirement[]> {
-  const client = getOpenAIClient();
+  const llm = getLlmClient();
 
-  if (!client) {
-    console.warn('[CLAIMS] OpenAI client not available - using fallback extraction');
+  if (!llm.isAvailable()) {
+    console.warn('[CLAIMS] LLM client not available - using fallback extraction');
     return fallbackExtractClaims(message);
   }
 
   try {
-    const response = await client.chat.completions.create({
+    const { text: content } = await llm.complete({
       model: 'gpt-4o-mini',
       messages: [
         { role: 'system', content: CLAIM_EXTRACTION_PROMPT },
         { role: 'user', content: message },
       ],
-      max_tokens: 400,
+      maxTokens: 400,
       temperature: 0,
+      responseFormat: 'json',
     });
 
-    const content = response.choices[0]?.message?.content?.trim() ?? '';
     return parseClaimRequirements(content);
 
   } catch (error) {
@@ -3,7 +3,7 @@
 // Phase 7: Lens Gate
 // 
 // This module provides LLM-powered classification when pattern matching
-// has low confidence or fails to match. Uses GPT-4o-mini for semantic
+// has low confidence or fails to match. Uses the shared LLM client for semantic
 // understanding of data needs.
 // 
 // DESIGN PRINCIPLES:
@@ -13,7 +13,7 @@
 // 4. Timeout handling to prevent blocking
 // ═══════════════════════════════════════════════════════════════════════════════
 
-import OpenAI from 'openai';
+import { getLlmClient, LlmTimeoutError } from '../../../providers/index.js';
 import type { LiveCategory, AuthoritativeCategory, DataCategory } from '../../../types/categories.js';
 import type { TruthMode } from '../../../types/data-need.js';
 import { isLiveCategory, isAuthoritativeCategory } from '../../../types/categories.js';
@@ -87,26 +87,14 @@ interface LLMRawResponse {
 }
 
 // ─────────────────────────────────────────────────────────────────────────────────
-// OPENAI CLIENT SINGLETON
+// LLM AVAILABILITY
 // ─────────────────────────────────────────────────────────────────────────────────
 
-let openaiClient: OpenAI | null = null;
-
-/**
- * Get or create OpenAI client singleton.
- */
-function getOpenAIClient(): OpenAI | null {
-  if (!openaiClient && process.env.OPENAI_API_KEY) {
-    openaiClient = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-  }
-  return openaiClient;
-}
-
 /**
- * Check if OpenAI client is available.
+ * Check if any LLM provider is configured.
  */
 export function isLLMAvailable(): boolean {
-  return getOpenAIClient() !== null;
+  return getLlmClient().isAvailable();
 }
 
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -282,38 +270,31 @@ export async function classifyWithLLM(
   message: string,
   timeoutMs: number = DEFAULT_TIMEOUT_MS
 ): Promise<LLMClassificationResult> {
-  const client = getOpenAIClient();
+  const llm = getLlmClient();
   
-  if (!client) {
-    console.warn('[LLM-ASSIST] OpenAI client not available - using fallback');
-    return createFallbackResult(message, 'OpenAI client not available');
+  if (!llm.isAvailable()) {
+    console.warn('[LLM-ASSIST] LLM client not available - using fallback');
+    return createFallbackResult(message, 'LLM client not available');
   }
   
   try {
-    // Create abort controller for timeout
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
-    
-    const response = await client.chat.completions.create({
+    const { text: content } = await llm.complete({
       model: 'gpt-4o-mini',
       messages: [
         { role: 'system', content: DATA_NEED_CLASSIFIER_PROMPT },
         { role: 'user', content: message },
       ],
-      max_tokens: 400,
+      maxTokens: 400,
       temperature: 0, // Deterministic classification
-    }, {
-      signal: controller.signal,
+      responseFormat: 'json',
+      timeoutMs,
     });
     
-    clearTimeout(timeoutId);
-    
-    const content = response.choices[0]?.message?.content?.trim() ?? '';
     return parseAndValidateResponse(content, message);
     
   } catch (error) {
     // Handle timeout
-    if (error instanceof Error && error.name === 'AbortError') {
+    if (error instanceof LlmTimeoutError) {
       console.warn('[LLM-ASSIST] Request timed out');
       return createFallbackResult(message, 'Request timed out');
     }
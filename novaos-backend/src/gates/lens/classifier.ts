@@ -1,24 +1,11 @@
 // ═══════════════════════════════════════════════════════════════════════════════
 // LENS CLASSIFIER — LLM-Powered Epistemic Risk Assessment
-// Uses gpt-4o-mini to determine if external verification is needed
+// Uses the shared LLM client to determine if external verification is needed
 // ═══════════════════════════════════════════════════════════════════════════════
 
-import OpenAI from 'openai';
+import { getLlmClient } from '../../providers/index.js';
 import type { LensClassification, RiskFactor } from './types.js';
 
-// ─────────────────────────────────────────────────────────────────────────────────
-// OPENAI CLIENT SINGLETON
-// ─────────────────────────────────────────────────────────────────────────────────
-
-let openaiClient: OpenAI | null = null;
-
-function getOpenAIClient(): OpenAI | null {
-  if (!openaiClient && process.env.OPENAI_API_KEY) {
-    openaiClient = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-  }
-  return openaiClient;
-}
-
 // ─────────────────────────────────────────────────────────────────────────────────
 // SYSTEM PROMPT
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -161,25 +148,25 @@ Now classify the following message. Return only valid JSON:
 // ─────────────────────────────────────────────────────────────────────────────────
 
 export async function classifyWithLLM(message: string): Promise<LensClassification> {
-  const client = getOpenAIClient();
+  const llm = getLlmClient();
 
-  if (!client) {
-    console.warn('[LENS] OpenAI client not available - using fail-safe');
+  if (!llm.isAvailable()) {
+    console.warn('[LENS] LLM client not available - using fail-safe');
     return getFailSafeClassification(message);
   }
 
   try {
-    const response = await client.chat.completions.create({
+    const { text: content } = await llm.complete({
       model: 'gpt-4o-mini',
       messages: [
         { role: 'system', content: LENS_CLASSIFIER_SYSTEM_PROMPT },
         { role: 'user', content: message },
       ],
-      max_tokens: 300,
+      maxTokens: 300,
       temperature: 0,
+      responseFormat: 'json',
     });
 
-    const content = response.choices[0]?.message?.content?.trim() ?? '';
     return parseClassification(content, message);
 
   } catch (error) {
@@ -1,11 +1,11 @@
 // ═══════════════════════════════════════════════════════════════════════════════
 // SHIELD GATE — LLM-Powered Risk Assessment & Veto Logic
 // Implements soft/hard veto semantics with ack token handshake
-// Uses GPT-4o-mini for semantic risk classification
+// Uses the shared LLM client for semantic risk classification
 // ═══════════════════════════════════════════════════════════════════════════════
 
 import { randomUUID } from 'crypto';
-import OpenAI from 'openai';
+import { getLlmClient, type LlmClient } from '../providers/index.js';
 import {
   PipelineState,
   PipelineContext,
@@ -154,18 +154,15 @@ Now classify the following message. Return only valid JSON:
 
 export class ShieldGate {
   readonly gateId: GateId = 'shield';
-  private openai: OpenAI | null = null;
+  private llm: LlmClient;
   private model: string = 'gpt-4o-mini';
 
   constructor(
     private nonceStore: NonceStore,
     private ackTokenSecret: string,
-    openaiApiKey?: string
+    llm?: LlmClient
   ) {
-    const key = openaiApiKey ?? process.env.OPENAI_API_KEY;
-    if (key) {
-      this.openai = new OpenAI({ apiKey: key });
-    }
+    this.llm = llm ?? getLlmClient();
   }
 
   async execute(
@@ -346,8 +343,8 @@ export class ShieldGate {
    * Falls back to safe classification if LLM unavailable.
    */
   private async classifyRisk(message: string): Promise<ShieldClassification> {
-    if (!this.openai) {
-      console.warn('[SHIELD] OpenAI client not available - defaulting to safe');
+    if (!this.llm.isAvailable()) {
+      console.warn('[SHIELD] LLM client not available - defaulting to safe');
       return {
         riskLevel: 'none',
         category: 'safe',
@@ -357,17 +354,16 @@ export class ShieldGate {
     }
 
     try {
-      const response = await this.openai.chat.completions.create({
+      const { text: content } = await this.llm.complete({
         model: this.model,
         messages: [
           { role: 'system', content: SHIELD_SYSTEM_PROMPT },
           { role: 'user', content: message },
         ],
-        max_tokens: 150,
+        maxTokens: 150,
         temperature: 0, // Zero temperature for deterministic classification
+        responseFormat: 'json',
       });
-
-      const content = response.choices[0]?.message?.content?.trim() ?? '';
       
       // Parse JSON response
       const parsed = this.parseClassification(content);
@@ -33,6 +33,7 @@
 
 import type { AsyncAppResult } from '../../types/result.js';
 import { ok, err, appError } from '../../types/result.js';
+import { getLlmClient, type LlmClient } from '../../providers/index.js';
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // TYPES
@@ -135,13 +136,13 @@ export type UserLevel = 'beginner' | 'intermediate' | 'advanced';
  * Configuration for capability generation.
  */
 export interface CapabilityGeneratorConfig {
-  /** OpenAI API key */
-  openaiApiKey?: string;
+  /** LLM client (default: shared ProviderManager client) */
+  llm?: LlmClient;
   /** Model to use (default: gpt-4o-mini) */
   model?: string;
   /** Cache TTL in seconds (default: 3600 = 1 hour) */
   cacheTtlSeconds?: number;
-  /** Maximum retries on failure */
+  /** Maximum retries on failure, including unparseable or invalid output */
   maxRetries?: number;
 }
 
@@ -275,7 +276,7 @@ export class CapabilityGenerator {
 
   constructor(config: CapabilityGeneratorConfig = {}) {
     this.config = {
-      openaiApiKey: config.openaiApiKey ?? process.env.OPENAI_API_KEY ?? '',
+      llm: config.llm ?? getLlmClient(),
       model: config.model ?? 'gpt-4o-mini',
       cacheTtlSeconds: config.cacheTtlSeconds ?? 3600,
       maxRetries: config.maxRetries ?? 2,
@@ -318,15 +319,15 @@ export class CapabilityGenerator {
   }
 
   /**
-   * Generate progression via OpenAI API.
+   * Generate progression via the LLM client.
    */
   private async generateViaLLM(
     topic: string,
     level: UserLevel,
     durationDays: number
   ): AsyncAppResult<readonly CapabilityStage[]> {
-    if (!this.config.openaiApiKey) {
-      console.warn('[CAPABILITY_GEN] No OpenAI API key, using fallback generation');
+    if (!this.config.llm.isAvailable()) {
+      console.warn('[CAPABILITY_GEN] No LLM provider available, using fallback generation');
       return ok(this.generateFallback(topic, level, durationDays));
     }
 
@@ -337,35 +338,19 @@ export class CapabilityGenerator {
 
     for (let attempt = 0; attempt <= this.config.maxRetries; attempt++) {
       try {
-        const response = await fetch('https://api.openai.com/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${this.config.openaiApiKey}`,
-          },
-          body: JSON.stringify({
-            model: this.config.model,
-            messages: [
-              { role: 'system', content: systemPrompt },
-              { role: 'user', content: userPrompt },
-            ],
-            temperature: 0.7,
-            max_tokens: 4000,
-          }),
+        // Text mode: the prompt asks for a JSON array and JSON mode only yields objects
+        const { text: content } = await this.config.llm.complete({
+          model: this.config.model,
+          messages: [
+            { role: 'system', content: systemPrompt },
+            { role: 'user', content: userPrompt },
+          ],
+          temperature: 0.7,
+          maxTokens: 4000,
         });
 
-        if (!response.ok) {
-          const errorText = await response.text();
-          throw new Error(`OpenAI API error: ${response.status} - ${errorText}`);
-        }
-
-        const data = await response.json() as {
-          choices: Array<{ message: { content: string } }>;
-        };
-
-        const content = data.choices[0]?.message?.content;
         if (!content) {
-          throw new Error('Empty response from OpenAI');
+          throw new Error('Empty response from LLM');
         }
 
         const stages = this.parseResponse(content);
@@ -20,7 +20,7 @@
 //
 // ═══════════════════════════════════════════════════════════════════════════════
 
-import OpenAI from 'openai';
+import { getLlmClient, type LlmClient } from '../../../providers/index.js';
 
 import type {
   ExploreState,
@@ -171,15 +171,15 @@ Now assess:`;
  * has been moved to ExploreIntentClassifier.
  */
 export class ClarityDetector {
-  private openai: OpenAI | null = null;
+  private llm: LlmClient | null = null;
   private readonly config: ExploreConfig;
 
-  constructor(config: Partial<ExploreConfig> = {}, openaiApiKey?: string) {
+  constructor(config: Partial<ExploreConfig> = {}, llm?: LlmClient) {
     this.config = { ...DEFAULT_EXPLORE_CONFIG, ...config };
     
-    const key = openaiApiKey ?? process.env.OPENAI_API_KEY;
-    if (key && this.config.useLlmClarityDetection) {
-      this.openai = new OpenAI({ apiKey: key });
+    const client = llm ?? getLlmClient();
+    if (client.isAvailable() && this.config.useLlmClarityDetection) {
+      this.llm = client;
     }
   }
 
@@ -206,7 +206,7 @@ export class ClarityDetector {
     }
 
     // For medium confidence, use LLM if available
-    if (this.openai && this.config.useLlmClarityDetection) {
+    if (this.llm && this.config.useLlmClarityDetection) {
       const llmResult = await this.assessWithLlm(goalStatement, state);
       if (llmResult) {
         // Combine pattern and LLM results
@@ -370,7 +370,7 @@ export class ClarityDetector {
     goalStatement: string,
     state?: ExploreState
   ): Promise<ClarityDetectionResult | null> {
-    if (!this.openai) {
+    if (!this.llm) {
       return null;
     }
 
@@ -392,17 +392,17 @@ export class ClarityDetector {
         context += `\nMotivations: ${state.motivations.join(', ')}`;
       }
 
-      const response = await this.openai.chat.completions.create({
+      const { text: content } = await this.llm.complete({
         model: this.config.llmModel,
         messages: [
           { role: 'system', content: CLARITY_DETECTION_PROMPT },
           { role: 'user', content: context },
         ],
-        max_tokens: 300,
+        maxTokens: 300,
         temperature: 0,
+        responseFormat: 'json',
       });
 
-      const content = response.choices[0]?.message?.content?.trim() ?? '';
       return this.parseLlmResult(content);
     } catch (error) {
       console.error('[CLARITY_DETECTOR] LLM assessment error:', error);
@@ -500,7 +500,7 @@ export class ClarityDetector {
  */
 export function createClarityDetector(
   config?: Partial<ExploreConfig>,
-  openaiApiKey?: string
+  llm?: LlmClient
 ): ClarityDetector {
-  return new ClarityDetector(config, openaiApiKey);
+  return new ClarityDetector(config, llm);
 }
@@ -26,12 +26,16 @@
 //
 // ═══════════════════════════════════════════════════════════════════════════════
 
-import OpenAI from 'openai';
-
 import type { UserId, Timestamp } from '../../../types/branded.js';
 import { createTimestamp } from '../../../types/branded.js';
 import type { AsyncAppResult } from '../../../types/result.js';
 import { ok, err, appError } from '../../../types/result.js';
+import {
+  getLlmClient,
+  LlmUnavailableError,
+  type LlmClient,
+  type CompletionMessage,
+} from '../../../providers/index.js';
 
 import type {
   ExploreState,
@@ -138,24 +142,24 @@ Be specific—extract actual details, not generic placeholders.`;
  * handling any user phrasing naturally.
  */
 export class ExploreFlow {
-  private readonly openai: OpenAI;
+  private readonly llm: LlmClient;
   private readonly config: ExploreConfig;
   private readonly clarityDetector: ClarityDetector;
   private readonly intentClassifier: ExploreIntentClassifier;
 
   constructor(
     config: Partial<ExploreConfig> = {},
-    openaiApiKey?: string
+    llm?: LlmClient
   ) {
     this.config = { ...DEFAULT_EXPLORE_CONFIG, ...config };
     
-    const key = openaiApiKey ?? process.env.OPENAI_API_KEY;
-    if (!key) {
-      throw new Error('OpenAI API key required for ExploreFlow');
+    const client = llm ?? getLlmClient();
+    if (!client.isAvailable()) {
+      throw new LlmUnavailableError('LLM provider required for ExploreFlow');
     }
-    this.openai = new OpenAI({ apiKey: key });
-    this.clarityDetector = createClarityDetector(this.config, key);
-    this.intentClassifier = createExploreIntentClassifier(key);
+    this.llm = client;
+    this.clarityDetector = createClarityDetector(this.config, client);
+    this.intentClassifier = createExploreIntentClassifier(client);
   }
 
   // ─────────────────────────────────────────────────────────────────────────────
@@ -574,17 +578,17 @@ Generate a brief, friendly response that:
 
 Keep it to 2-3 sentences. Be conversational, not formal.`;
 
-      const response = await this.openai.chat.completions.create({
+      const response = await this.llm.complete({
         model: this.config.llmModel,
         messages: [
           { role: 'system', content: EXPLORE_SYSTEM_PROMPT },
           { role: 'user', content: prompt },
         ],
-        max_tokens: 150,
+        maxTokens: 150,
         temperature: this.config.llmTemperature,
       });
 
-      return response.choices[0]?.message?.content?.trim() ?? 
+      return response.text.trim() || 
         "I see, that's not quite right. What would you like to focus on instead?";
     } catch (error) {
       console.error('[EXPLORE_FLOW] Rejection response error:', error);
@@ -712,17 +716,17 @@ ${recentHistory}
 
 Provide a brief, helpful clarification (2-3 sentences). Then gently redirect back to exploring their learning goals.`;
 
-      const response = await this.openai.chat.completions.create({
+      const response = await this.llm.complete({
         model: this.config.llmModel,
         messages: [
           { role: 'system', content: EXPLORE_SYSTEM_PROMPT },
           { role: 'user', content: prompt },
         ],
-        max_tokens: 150,
+        maxTokens: 150,
         temperature: this.config.llmTemperature,
       });
 
-      return response.choices[0]?.message?.content?.trim() ?? 
+      return response.text.trim() || 
         "I'm here to help you define what you want to learn so we can create a personalized plan. What topic or skill interests you?";
     } catch (error) {
       console.error('[EXPLORE_FLOW] Clarify response error:', error);
@@ -785,7 +789,7 @@ Provide a brief, helpful clarification (2-3 sentences). Then gently redirect bac
   ): Promise<string> {
     try {
       // Build conversation history for context
-      const messages: OpenAI.ChatCompletionMessageParam[] = [
+      const messages: CompletionMessage[] = [
         { role: 'system', content: EXPLORE_SYSTEM_PROMPT },
       ];
 
@@ -813,14 +817,14 @@ Provide a brief, helpful clarification (2-3 sentences). Then gently redirect bac
         content: userMessage + contextNote,
       });
 
-      const response = await this.openai.chat.completions.create({
+      const response = await this.llm.complete({
         model: this.config.llmModel,
         messages,
-        max_tokens: 200,
+        maxTokens: 200,
         temperature: this.config.llmTemperature,
       });
 
-      return response.choices[0]?.message?.content?.trim() ?? 
+      return response.text.trim() || 
         "I'd love to hear more about what you're hoping to learn. What draws you to this topic?";
     } catch (error) {
       console.error('[EXPLORE_FLOW] Response generation error:', error);
@@ -850,17 +854,18 @@ Provide a brief, helpful clarification (2-3 sentences). Then gently redirect bac
 
       const context = `Previous conversation:\n${recentHistory}\n\nNew user message: "${userMessage}"`;
 
-      const response = await this.openai.chat.completions.create({
+      const response = await this.llm.complete({
         model: this.config.llmModel,
         messages: [
           { role: 'system', content: INSIGHT_EXTRACTION_PROMPT },
           { role: 'user', content: context },
         ],
-        max_tokens: 300,
+        maxTokens: 300,
         temperature: 0,
+        responseFormat: 'json',
       });
 
-      const content = response.choices[0]?.message?.content?.trim() ?? '{}';
+      const content = response.text.trim() || '{}';
       
       // Parse JSON
       let jsonStr = content;
@@ -932,7 +937,7 @@ Provide a brief, helpful clarification (2-3 sentences). Then gently redirect bac
  */
 export function createExploreFlow(
   config?: Partial<ExploreConfig>,
-  openaiApiKey?: string
+  llm?: LlmClient
 ): ExploreFlow {
-  return new ExploreFlow(config, openaiApiKey);
+  return new ExploreFlow(config, llm);
 }
@@ -22,7 +22,7 @@
 //
 // ═══════════════════════════════════════════════════════════════════════════════
 
-import OpenAI from 'openai';
+import { getLlmClient, LlmUnavailableError, type LlmClient } from '../../../providers/index.js';
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // TYPES
@@ -61,7 +61,7 @@ export interface ExploreIntentResult {
  * Configuration for the intent classifier.
  */
 export interface ExploreIntentClassifierConfig {
-  /** OpenAI model to use (default: gpt-4o-mini) */
+  /** Model to use (default: gpt-4o-mini) */
   readonly model: string;
 
   /** Temperature for classification (default: 0.1 for consistency) */
@@ -182,23 +182,23 @@ const FAST_EXIT_PATTERNS: RegExp[] = [
 /**
  * LLM-based intent classifier for the explore phase.
  *
- * Uses GPT-4o-mini to understand user intent regardless of phrasing,
- * with fast-path pattern matching for trivial cases.
+ * Uses a small model (gpt-4o-mini by default) to understand user intent
+ * regardless of phrasing, with fast-path pattern matching for trivial cases.
  */
 export class ExploreIntentClassifier {
-  private readonly openai: OpenAI;
+  private readonly llm: LlmClient;
   private readonly config: ExploreIntentClassifierConfig;
 
   constructor(
-    openaiApiKey?: string,
+    llm?: LlmClient,
     config?: Partial<ExploreIntentClassifierConfig>
   ) {
-    const key = openaiApiKey ?? process.env.OPENAI_API_KEY;
-    if (!key) {
-      throw new Error('OpenAI API key required for ExploreIntentClassifier');
+    const client = llm ?? getLlmClient();
+    if (!client.isAvailable()) {
+      throw new LlmUnavailableError('LLM provider required for ExploreIntentClassifier');
     }
 
-    this.openai = new OpenAI({ apiKey: key });
+    this.llm = client;
     this.config = { ...DEFAULT_INTENT_CLASSIFIER_CONFIG, ...config };
   }
 
@@ -312,14 +312,15 @@ export class ExploreIntentClassifier {
       .replace('{context}', context)
       .replace('{message}', message);
 
-    const response = await this.openai.chat.completions.create({
+    const response = await this.llm.complete({
       model: this.config.model,
       messages: [{ role: 'user', content: prompt }],
-      max_tokens: this.config.maxTokens,
+      maxTokens: this.config.maxTokens,
       temperature: this.config.temperature,
+      responseFormat: 'json',
     });
 
-    const content = response.choices[0]?.message?.content?.trim() ?? '';
+    const content = response.text.trim();
     const result = this.parseResponse(content);
 
     console.log('[EXPLORE_INTENT] LLM classification:', result.intent,
@@ -410,8 +411,8 @@ export class ExploreIntentClassifier {
  * Create an ExploreIntentClassifier instance.
  */
 export function createExploreIntentClassifier(
-  openaiApiKey?: string,
+  llm?: LlmClient,
   config?: Partial<ExploreIntentClassifierConfig>
 ): ExploreIntentClassifier {
-  return new ExploreIntentClassifier(openaiApiKey, config);
+  return new ExploreIntentClassifier(llm, config);
 }
@@ -16,7 +16,7 @@
 //
 // ═══════════════════════════════════════════════════════════════════════════════
 
-import OpenAI from 'openai';
+import { getLlmClient, type LlmClient } from '../../providers/index.js';
 
 import type { UserId, GoalId } from '../../types/branded.js';
 import type { Intent } from '../../helpers/types.js';
@@ -318,14 +318,14 @@ Now classify the following. Return only valid JSON:`;
  * Detects the appropriate SwordGate mode for a given input.
  */
 export class ModeDetector {
-  private openai: OpenAI | null = null;
+  private llm: LlmClient | null = null;
   private readonly config: SwordGateConfig;
 
-  constructor(config: SwordGateConfig, openaiApiKey?: string) {
+  constructor(config: SwordGateConfig, llm?: LlmClient) {
     this.config = config;
-    const key = openaiApiKey ?? process.env.OPENAI_API_KEY;
-    if (key && config.useLlmModeDetection) {
-      this.openai = new OpenAI({ apiKey: key });
+    const client = llm ?? getLlmClient();
+    if (client.isAvailable() && config.useLlmModeDetection) {
+      this.llm = client;
     }
   }
 
@@ -520,7 +520,7 @@ export class ModeDetector {
     // ─────────────────────────────────────────────────────────────────────────
     // Priority 8: LLM classification (if enabled)
     // ─────────────────────────────────────────────────────────────────────────
-    if (this.config.useLlmModeDetection && this.openai) {
+    if (this.config.useLlmModeDetection && this.llm) {
       const llmResult = await this.classifyWithLlm(message, refinementState, exploreState);
       if (llmResult && llmResult.confidence >= 0.7) {
         return llmResult;
@@ -780,7 +780,7 @@ export class ModeDetector {
     refinementState: SwordRefinementState | null,
     exploreState?: ExploreState | null
   ): Promise<ModeDetectionResult | null> {
-    if (!this.openai) {
+    if (!this.llm) {
       return null;
     }
 
@@ -809,17 +809,17 @@ export class ModeDetector {
       const context = contextParts.join('\n');
       const userPrompt = `Context:\n${context}\n\nUser message: "${message}"`;
 
-      const response = await this.openai.chat.completions.create({
+      const { text: content } = await this.llm.complete({
         model: this.config.llmModel,
         messages: [
           { role: 'system', content: MODE_DETECTION_SYSTEM_PROMPT },
           { role: 'user', content: userPrompt },
         ],
-        max_tokens: 150,
+        maxTokens: 150,
         temperature: 0,
+        responseFormat: 'json',
       });
 
-      const content = response.choices[0]?.message?.content?.trim() ?? '';
       const classification = this.parseLlmClassification(content);
 
       if (!classification) {
@@ -882,7 +882,7 @@ export class ModeDetector {
  */
 export function createModeDetector(
   config: SwordGateConfig,
-  openaiApiKey?: string
+  llm?: LlmClient
 ): ModeDetector {
-  return new ModeDetector(config, openaiApiKey);
+  return new ModeDetector(config, llm);
 }
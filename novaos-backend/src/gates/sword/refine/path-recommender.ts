@@ -12,7 +12,7 @@
 //
 // ═══════════════════════════════════════════════════════════════════════════════
 
-import OpenAI from 'openai';
+import { getLlmClient, type LlmClient } from '../../../providers/index.js';
 import { createTimestamp } from '../../../types/branded.js';
 import type { Timestamp } from '../../../types/branded.js';
 import type { AsyncAppResult } from '../../../types/result.js';
@@ -160,18 +160,18 @@ Now recommend the best path:`;
  * Recommends optimal learning paths for users.
  */
 export class PathRecommender {
-  private openai: OpenAI | null = null;
+  private llm: LlmClient | null = null;
   private readonly config: PathRecommenderConfig;
 
   constructor(
-    openaiApiKey?: string,
+    llm?: LlmClient,
     config?: Partial<PathRecommenderConfig>
   ) {
     this.config = { ...DEFAULT_RECOMMENDER_CONFIG, ...config };
 
-    const key = openaiApiKey ?? process.env.OPENAI_API_KEY;
-    if (key && this.config.useLlm) {
-      this.openai = new OpenAI({ apiKey: key });
+    const client = llm ?? getLlmClient();
+    if (client.isAvailable() && this.config.useLlm) {
+      this.llm = client;
     }
   }
 
@@ -206,7 +206,7 @@ export class PathRecommender {
       }
 
       // Use LLM for more nuanced matching
-      if (this.openai && this.config.useLlm) {
+      if (this.llm && this.config.useLlm) {
         const llmResult = await this.matchWithLlm(landscape, context);
         if (llmResult) {
           return ok(llmResult);
@@ -540,7 +540,7 @@ export class PathRecommender {
     landscape: TopicLandscape,
     context: PathMatchContext
   ): Promise<PathRecommendation | null> {
-    if (!this.openai) {
+    if (!this.llm) {
       return null;
     }
 
@@ -570,16 +570,16 @@ export class PathRecommender {
         .replace('{learningStyle}', context.learningStyle || 'not specified')
         .replace('{targetOutcome}', context.targetOutcome || 'not specified');
 
-      const response = await this.openai.chat.completions.create({
+      const { text: content } = await this.llm.complete({
         model: this.config.llmModel,
         messages: [
           { role: 'system', content: prompt },
         ],
-        max_tokens: 500,
+        maxTokens: 500,
         temperature: 0.2,
+        responseFormat: 'json',
       });
 
-      const content = response.choices[0]?.message?.content?.trim() ?? '';
       return this.parseLlmRecommendation(content, landscape, context);
     } catch (error) {
       console.error('[PATH_RECOMMENDER] LLM matching failed:', error);
@@ -645,8 +645,8 @@ export class PathRecommender {
  * Create a PathRecommender instance.
  */
 export function createPathRecommender(
-  openaiApiKey?: string,
+  llm?: LlmClient,
   config?: Partial<PathRecommenderConfig>
 ): PathRecommender {
-  return new PathRecommender(openaiApiKey, config);
+  return new PathRecommender(llm, config);
 }
@@ -12,7 +12,7 @@
 //
 // ═══════════════════════════════════════════════════════════════════════════════
 
-import OpenAI from 'openai';
+import { getLlmClient, type LlmClient } from '../../../providers/index.js';
 import { createTimestamp } from '../../../types/branded.js';
 import type { Timestamp } from '../../../types/branded.js';
 import type { UserId } from '../../../types/branded.js';
@@ -188,21 +188,21 @@ Be generous in interpretation - if the user expresses any familiarity, lean towa
  * Assesses user's prerequisite knowledge.
  */
 export class PrerequisiteAssessor {
-  private openai: OpenAI | null = null;
+  private llm: LlmClient | null = null;
   private readonly config: PrerequisiteAssessorConfig;
 
   // In-memory state storage (could be extended to use Redis)
   private readonly states: Map<string, AssessmentState> = new Map();
 
   constructor(
-    openaiApiKey?: string,
+    llm?: LlmClient,
     config?: Partial<PrerequisiteAssessorConfig>
   ) {
     this.config = { ...DEFAULT_ASSESSOR_CONFIG, ...config };
 
-    const key = openaiApiKey ?? process.env.OPENAI_API_KEY;
-    if (key && this.config.useLlm) {
-      this.openai = new OpenAI({ apiKey: key });
+    const client = llm ?? getLlmClient();
+    if (client.isAvailable() && this.config.useLlm) {
+      this.llm = client;
     }
   }
 
@@ -372,7 +372,7 @@ export class PrerequisiteAssessor {
     }
 
     // Use LLM for ambiguous responses
-    if (this.openai && this.config.useLlm) {
+    if (this.llm && this.config.useLlm) {
       const llmResult = await this.assessWithLlm(prerequisite, response);
       if (llmResult) {
         return {
@@ -429,7 +429,7 @@ export class PrerequisiteAssessor {
     prerequisite: Prerequisite,
     response: string
   ): Promise<{ level: ProficiencyLevel; confidence: number } | null> {
-    if (!this.openai) {
+    if (!this.llm) {
       return null;
     }
 
@@ -439,14 +439,14 @@ export class PrerequisiteAssessor {
         .replace('{question}', prerequisite.assessmentQuestion ?? `Do you have experience with ${prerequisite.topic}?`)
         .replace('{response}', response);
 
-      const completion = await this.openai.chat.completions.create({
+      const { text: content } = await this.llm.complete({
         model: this.config.llmModel,
         messages: [{ role: 'user', content: prompt }],
-        max_tokens: 150,
+        maxTokens: 150,
         temperature: 0.1,
+        responseFormat: 'json',
       });
 
-      const content = completion.choices[0]?.message?.content?.trim() ?? '';
       return this.parseLlmAssessment(content);
     } catch (error) {
       console.error('[PREREQ_ASSESSOR] LLM assessment failed:', error);
@@ -712,8 +712,8 @@ export class PrerequisiteAssessor {
  * Create a PrerequisiteAssessor instance.
  */
 export function createPrerequisiteAssessor(
-  openaiApiKey?: string,
+  llm?: LlmClient,
   config?: Partial<PrerequisiteAssessorConfig>
 ): PrerequisiteAssessor {
-  return new PrerequisiteAssessor(openaiApiKey, config);
+  return new PrerequisiteAssessor(llm, config);
 }
@@ -14,7 +14,7 @@
 //
 // ═══════════════════════════════════════════════════════════════════════════════
 
-import OpenAI from 'openai';
+import { getLlmClient, type LlmClient } from '../../../providers/index.js';
 import { createTimestamp } from '../../../types/branded.js';
 import type { Timestamp } from '../../../types/branded.js';
 import type { AsyncAppResult } from '../../../types/result.js';
@@ -400,25 +400,25 @@ function findTemplateKey(topic: string): string | null {
  * Generates comprehensive topic landscapes for learning goals.
  */
 export class TopicLandscapeGenerator {
-  private openai: OpenAI | null = null;
+  private llm: LlmClient | null = null;
   private readonly volatilityDetector: VolatilityDetector;
   private readonly config: RefineModuleConfig;
   private readonly webSearchService?: IWebSearchService;
 
   constructor(
-    openaiApiKey?: string,
+    llm?: LlmClient,
     config?: Partial<RefineModuleConfig>,
     webSearchService?: IWebSearchService
   ) {
     this.config = { ...DEFAULT_REFINE_CONFIG, ...config };
     this.webSearchService = webSearchService;
 
-    const key = openaiApiKey ?? process.env.OPENAI_API_KEY;
-    if (key) {
-      this.openai = new OpenAI({ apiKey: key });
+    const client = llm ?? getLlmClient();
+    if (client.isAvailable()) {
+      this.llm = client;
     }
 
-    this.volatilityDetector = createVolatilityDetector(key, {
+    this.volatilityDetector = createVolatilityDetector(client, {
       useLlm: this.config.enableVolatility,
       llmModel: this.config.llmModel,
     });
@@ -463,7 +463,7 @@ export class TopicLandscapeGenerator {
       }
 
       // Step 3: Generate with LLM
-      if (this.openai) {
+      if (this.llm) {
         const llmLandscape = await this.generateWithLlm(topic, volatility, exploreContext, timestamp);
         if (llmLandscape) {
           // Optionally enrich with web search if volatile
@@ -540,7 +540,7 @@ export class TopicLandscapeGenerator {
     exploreContext: ExploreContext | undefined,
     timestamp: Timestamp
   ): Promise<TopicLandscape | null> {
-    if (!this.openai) {
+    if (!this.llm) {
       return null;
     }
 
@@ -566,17 +566,17 @@ ${exploreContext.summary ? `Conversation summary: ${exploreContext.summary}` : '
         userMessage = `Generate a learning landscape for: "${topic}"`;
       }
 
-      const response = await this.openai.chat.completions.create({
+      const { text: content } = await this.llm.complete({
         model: this.config.llmModel,
         messages: [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: userMessage },
         ],
-        max_tokens: 2000,
+        maxTokens: 2000,
         temperature: this.config.llmTemperature,
+        responseFormat: 'json',
       });
 
-      const content = response.choices[0]?.message?.content?.trim() ?? '';
       const parsed = this.parseLlmLandscape(content);
 
       if (!parsed) {
@@ -885,9 +885,9 @@ ${exploreContext.summary ? `Conversation summary: ${exploreContext.summary}` : '
  * Create a TopicLandscapeGenerator instance.
  */
 export function createTopicLandscapeGenerator(
-  openaiApiKey?: string,
+  llm?: LlmClient,
   config?: Partial<RefineModuleConfig>,
   webSearchService?: IWebSearchService
 ): TopicLandscapeGenerator {
-  return new TopicLandscapeGenerator(openaiApiKey, config, webSearchService);
+  return new TopicLandscapeGenerator(llm, config, webSearchService);
 }
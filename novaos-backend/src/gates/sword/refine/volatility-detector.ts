@@ -22,7 +22,7 @@
 //
 // ═══════════════════════════════════════════════════════════════════════════════
 
-import OpenAI from 'openai';
+import { getLlmClient, type LlmClient } from '../../../providers/index.js';
 import { createTimestamp } from '../../../types/branded.js';
 import type { Timestamp } from '../../../types/branded.js';
 import type { AsyncAppResult } from '../../../types/result.js';
@@ -379,13 +379,13 @@ interface LlmVolatilityResult {
  * Detects topic volatility to determine if web search is needed.
  */
 export class VolatilityDetector {
-  private openai: OpenAI | null = null;
+  private llm: LlmClient | null = null;
   private readonly thresholds: VolatilityThresholds;
   private readonly useLlm: boolean;
   private readonly llmModel: string;
 
   constructor(
-    openaiApiKey?: string,
+    llm?: LlmClient,
     config?: Partial<{
       thresholds: VolatilityThresholds;
       useLlm: boolean;
@@ -396,9 +396,9 @@ export class VolatilityDetector {
     this.useLlm = config?.useLlm ?? true;
     this.llmModel = config?.llmModel ?? 'gpt-4o-mini';
 
-    const key = openaiApiKey ?? process.env.OPENAI_API_KEY;
-    if (key && this.useLlm) {
-      this.openai = new OpenAI({ apiKey: key });
+    const client = llm ?? getLlmClient();
+    if (client.isAvailable() && this.useLlm) {
+      this.llm = client;
     }
   }
 
@@ -434,7 +434,7 @@ export class VolatilityDetector {
       }
 
       // Step 2: LLM assessment if available and patterns inconclusive
-      if (this.openai && this.useLlm) {
+      if (this.llm && this.useLlm) {
         const llmResult = await this.assessWithLlm(topic, additionalContext);
 
         if (llmResult) {
@@ -613,7 +613,7 @@ export class VolatilityDetector {
     topic: string,
     additionalContext?: string
   ): Promise<LlmVolatilityResult | null> {
-    if (!this.openai) {
+    if (!this.llm) {
       return null;
     }
 
@@ -622,17 +622,17 @@ export class VolatilityDetector {
         ? `Topic: "${topic}"\nAdditional context: ${additionalContext}`
         : `Topic: "${topic}"`;
 
-      const response = await this.openai.chat.completions.create({
+      const { text: content } = await this.llm.complete({
         model: this.llmModel,
         messages: [
           { role: 'system', content: VOLATILITY_DETECTION_PROMPT },
           { role: 'user', content: userMessage },
         ],
-        max_tokens: 500,
+        maxTokens: 500,
         temperature: 0.1,
+        responseFormat: 'json',
       });
 
-      const content = response.choices[0]?.message?.content?.trim() ?? '';
       return this.parseLlmResult(content);
     } catch (error) {
       console.error('[VOLATILITY_DETECTOR] LLM assessment error:', error);
@@ -777,12 +777,12 @@ export class VolatilityDetector {
  * Create a VolatilityDetector instance.
  */
 export function createVolatilityDetector(
-  openaiApiKey?: string,
+  llm?: LlmClient,
   config?: Partial<{
     thresholds: VolatilityThresholds;
     useLlm: boolean;
     llmModel: string;
   }>
 ): VolatilityDetector {
-  return new VolatilityDetector(openaiApiKey, config);
+  return new VolatilityDetector(llm, config);
 }
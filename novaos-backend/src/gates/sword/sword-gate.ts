@@ -43,6 +43,7 @@ import type {
 import type { Goal, Quest, CreateGoalParams } from '../../services/spark-engine/types.js';
 import type { ISparkEngine } from '../../services/spark-engine/interfaces.js';
 import type { IRefinementStore } from '../../services/spark-engine/store/types.js';
+import type { LlmClient } from '../../providers/index.js';
 
 import type {
   SwordGateMode,
@@ -138,13 +139,13 @@ export class SwordGate {
       rateLimiter?: IGoalRateLimiter;
       resourceService?: IResourceDiscoveryService;
       curriculumService?: ICurriculumService;
-      openaiApiKey?: string;
+      llm?: LlmClient;
     } = {}
   ) {
     this.config = { ...DEFAULT_SWORD_GATE_CONFIG, ...config };
 
     // Initialize components
-    this.modeDetector = createModeDetector(this.config, options.openaiApiKey);
+    this.modeDetector = createModeDetector(this.config, options.llm);
     this.refinementFlow = createRefinementFlow(this.config);
     this.refinementStore = createSwordRefinementStore(baseRefinementStore, this.config);
     this.sanitizer = createGoalStatementSanitizer(this.config);
@@ -162,8 +163,8 @@ export class SwordGate {
     this.exploreFlow = createExploreFlow({
       maxTurns: this.config.maxExploreTurns,
       clarityThreshold: this.config.exploreClarityThreshold,
-    }, options.openaiApiKey);
-    this.clarityDetector = createClarityDetector({}, options.openaiApiKey);
+    }, options.llm);
+    this.clarityDetector = createClarityDetector({}, options.llm);
 
     this.sparkEngine = options.sparkEngine;
     this.rateLimiter = options.rateLimiter;
@@ -1247,7 +1248,7 @@ export function createSwordGate(
     rateLimiter?: IGoalRateLimiter;
     resourceService?: IResourceDiscoveryService;
     curriculumService?: ICurriculumService;
-    openaiApiKey?: string;
+    llm?: LlmClient;
   }
 ): SwordGate {
   return new SwordGate(baseRefinementStore, config, options);
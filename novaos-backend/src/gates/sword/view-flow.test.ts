@@ -107,6 +107,7 @@ const mockTodayResult: TodayResult = {
   timezone: 'America/New_York',
   goalId: mockGoalId,
   questId: mockQuestId,
+  reviews: [],
 };
 
 const mockEmptyTodayResult: TodayResult = {
@@ -117,6 +118,7 @@ const mockEmptyTodayResult: TodayResult = {
   timezone: 'America/New_York',
   goalId: null,
   questId: null,
+  reviews: [],
 };
 
 const mockPathProgress: PathProgress = {
@@ -277,6 +277,18 @@ export class ViewFlow {
       lines.push('');
     }
 
+    // Spaced-repetition reviews
+    if (today.reviews.length > 0) {
+      lines.push('🔁 **Review:**');
+      for (const review of today.reviews.slice(0, 3)) {
+        lines.push(`• ${review.title}`);
+      }
+      if (today.reviews.length > 3) {
+        lines.push(`_...and ${today.reviews.length - 3} more_`);
+      }
+      lines.push('');
+    }
+
     // Call to action
     lines.push('---');
     lines.push('Say **"done"** when finished, or **"skip"** to move on.');
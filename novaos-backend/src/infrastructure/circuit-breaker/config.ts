@@ -112,6 +112,14 @@ export const SERVICE_CONFIGS: Record<string, Omit<CircuitBreakerConfig, 'name'>>
     trackSlowRequests: false,
   },
   
+  /** Self-hosted OpenAI-compatible server - CPU inference can be very slow */
+  local: {
+    ...PRESETS.tolerant,
+    failureThreshold: 3,
+    requestTimeoutMs: 180000,
+    trackSlowRequests: false,
+  },
+  
   /** Anthropic Claude API */
   anthropic: {
     ...PRESETS.tolerant,
@@ -73,6 +73,7 @@ export {
   type RedisClientConfig,
   type ConnectionState,
   type RedisStore,
+  type PubSubHandler,
   MemoryRedisClient,
   createRedisClient,
   getRedisClient,
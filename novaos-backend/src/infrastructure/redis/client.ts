@@ -207,8 +207,23 @@ export interface RedisStore extends KeyValueStore {
   
   /** Conditional update with version check */
   conditionalUpdate(key: string, expectedVersion: number, data: string): Promise<ConditionalResult>;
+  
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Pub/Sub
+  // ─────────────────────────────────────────────────────────────────────────────
+  
+  /** Publish a message; returns the number of subscribers that received it */
+  publish(channel: string, message: string): Promise<number>;
+  
+  /** Subscribe to a channel; resolves to an unsubscribe function */
+  subscribe(channel: string, handler: PubSubHandler): Promise<() => Promise<void>>;
 }
 
+/**
+ * Receives messages published to a subscribed channel.
+ */
+export type PubSubHandler = (message: string) => void;
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // MOCK REDIS CLIENT (for when Redis is disabled)
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -222,6 +237,7 @@ class MemoryRedisClient implements RedisStore {
   private readonly lists = new Map<string, string[]>();
   private readonly sets = new Map<string, Set<string>>();
   private readonly zsets = new Map<string, Map<string, number>>();
+  private readonly channels = new Map<string, Set<PubSubHandler>>();
   private state: ConnectionState = 'disconnected';
   private fencingToken = 0;
   
@@ -266,6 +282,12 @@ class MemoryRedisClient implements RedisStore {
     });
   }
   
+  async setnx(key: string, value: string, ttlSeconds?: number): Promise<boolean> {
+    if (!this.isExpired(key) && this.data.has(key)) return false;
+    await this.set(key, value, ttlSeconds);
+    return true;
+  }
+  
   async delete(key: string): Promise<boolean> {
     return this.data.delete(key) || this.hashes.delete(key) || 
            this.lists.delete(key) || this.sets.delete(key) || this.zsets.delete(key);
@@ -584,6 +606,37 @@ class MemoryRedisClient implements RedisStore {
     
     return { success: true, version: newVersion };
   }
+  
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Pub/Sub (single process)
+  // ─────────────────────────────────────────────────────────────────────────────
+  
+  async publish(channel: string, message: string): Promise<number> {
+    const handlers = [...(this.channels.get(channel) ?? [])];
+    
+    // Asynchronous like Redis, so publishers never re-enter their subscribers
+    for (const handler of handlers) {
+      queueMicrotask(() => handler(message));
+    }
+    
+    return handlers.length;
+  }
+  
+  async subscribe(channel: string, handler: PubSubHandler): Promise<() => Promise<void>> {
+    let handlers = this.channels.get(channel);
+    if (!handlers) {
+      handlers = new Set();
+      this.channels.set(channel, handlers);
+    }
+    handlers.add(handler);
+    
+    return async () => {
+      handlers.delete(handler);
+      if (handlers.size === 0) {
+        this.channels.delete(channel);
+      }
+    };
+  }
 }
 
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -602,7 +655,7 @@ type IORedisClient = {
   ping(): Promise<string>;
   script(command: string, script: string): Promise<string>;
   get(key: string): Promise<string | null>;
-  set(key: string, value: string): Promise<string>;
+  set(key: string, value: string, ...args: (string | number)[]): Promise<string | null>;
   setex(key: string, seconds: number, value: string): Promise<string>;
   del(...keys: string[]): Promise<number>;
   incr(key: string): Promise<number>;
@@ -636,6 +689,10 @@ type IORedisClient = {
   zrem(key: string, ...members: string[]): Promise<number>;
   zscore(key: string, member: string): Promise<string | null>;
   evalsha(sha: string, numKeys: number, ...args: (string | number)[]): Promise<unknown>;
+  publish(channel: string, message: string): Promise<number>;
+  subscribe(...channels: string[]): Promise<unknown>;
+  unsubscribe(...channels: string[]): Promise<unknown>;
+  duplicate(): IORedisClient;
 };
 
 /**
@@ -643,6 +700,8 @@ type IORedisClient = {
  */
 class RedisClient implements RedisStore {
   private client: IORedisClient | null = null;
+  private subscriber: IORedisClient | null = null;
+  private readonly channels = new Map<string, Set<PubSubHandler>>();
   private readonly config: RedisClientConfig;
   private readonly logger = getLogger({ component: 'redis' });
   private state: ConnectionState = 'disconnected';
@@ -747,6 +806,11 @@ class RedisClient implements RedisStore {
     if (!this.client) return;
     
     this.state = 'closing';
+    if (this.subscriber) {
+      this.subscriber.disconnect();
+      this.subscriber = null;
+      this.channels.clear();
+    }
     try {
       await this.client.quit();
     } catch (error) {
@@ -830,6 +894,13 @@ class RedisClient implements RedisStore {
     });
   }
   
+  async setnx(key: string, value: string, ttlSeconds?: number): Promise<boolean> {
+    const result = await this.timed('set', () => ttlSeconds
+      ? this.requireClient().set(key, value, 'EX', ttlSeconds, 'NX')
+      : this.requireClient().set(key, value, 'NX'));
+    return result === 'OK';
+  }
+  
   async delete(key: string): Promise<boolean> {
     const result = await this.timed('del', () => this.requireClient().del(key));
     return result > 0;
@@ -1055,6 +1126,67 @@ class RedisClient implements RedisStore {
     
     return parseConditionalResult(result);
   }
+  
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Pub/Sub
+  // ─────────────────────────────────────────────────────────────────────────────
+  
+  async publish(channel: string, message: string): Promise<number> {
+    return this.timed('publish', () => this.requireClient().publish(channel, message));
+  }
+  
+  async subscribe(channel: string, handler: PubSubHandler): Promise<() => Promise<void>> {
+    const subscriber = await this.getSubscriber();
+    
+    let handlers = this.channels.get(channel);
+    if (!handlers) {
+      handlers = new Set();
+      this.channels.set(channel, handlers);
+      await subscriber.subscribe(channel);
+    }
+    handlers.add(handler);
+    
+    return async () => {
+      handlers.delete(handler);
+      if (handlers.size === 0 && this.channels.get(channel) === handlers) {
+        this.channels.delete(channel);
+        await this.subscriber?.unsubscribe(channel);
+      }
+    };
+  }
+  
+  /**
+   * A connection in subscriber mode can run no other commands, so
+   * subscriptions share a second connection opened on first use.
+   */
+  private async getSubscriber(): Promise<IORedisClient> {
+    if (this.subscriber) return this.subscriber;
+    
+    const subscriber = this.requireClient().duplicate();
+    
+    subscriber.on('message', (...args: unknown[]) => {
+      const [channel, message] = args as [string, string];
+      for (const handler of this.channels.get(channel) ?? []) {
+        try {
+          handler(message);
+        } catch (error) {
+          this.logger.error('Pub/sub handler failed', error, { channel });
+        }
+      }
+    });
+    
+    subscriber.on('error', (err) => {
+      this.logger.error('Redis subscriber error', err as Error);
+      incCounter('redis_errors_total', { type: 'subscriber' });
+    });
+    
+    this.subscriber = subscriber;
+    if (subscriber.status === 'wait') {
+      await subscriber.connect();
+    }
+    
+    return subscriber;
+  }
 }
 
 // ─────────────────────────────────────────────────────────────────────────────────
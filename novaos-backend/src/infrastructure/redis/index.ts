@@ -85,6 +85,7 @@ export {
   type ConnectionState,
   type RedisClientEvents,
   type RedisStore,
+  type PubSubHandler,
   
   // Client
   MemoryRedisClient,
@@ -258,6 +258,51 @@ export const SwordKeys = {
     return buildKey(KeyNamespace.SWORD, 'quest', questId, 'steps');
   },
   
+  /** Get key for step's quiz (question bank and attempts) */
+  stepQuiz(stepId: StepId): string {
+    return buildKey(KeyNamespace.SWORD, 'step', stepId, 'quiz');
+  },
+  
+  /** Get key for step's spaced-repetition review item */
+  stepReview(stepId: StepId): string {
+    return buildKey(KeyNamespace.SWORD, 'step', stepId, 'review');
+  },
+
+  /** Get key for user's review item set */
+  userReviews(userId: UserId): string {
+    return buildKey(KeyNamespace.SWORD, 'user', userId, 'reviews');
+  },
+
+  /** Get key for user's review queue on a date (YYYY-MM-DD) */
+  userReviewQueue(userId: UserId, date: string): string {
+    return buildKey(KeyNamespace.SWORD, 'user', userId, 'reviews', date);
+  },
+
+  /** Get key for the set of users with review items */
+  reviewUsers(): string {
+    return buildKey(KeyNamespace.SWORD, 'reviews', 'users');
+  },
+
+  /** Get key for a plan adaptation */
+  adaptation(adaptationId: string): string {
+    return buildKey(KeyNamespace.SWORD, 'adaptation', adaptationId);
+  },
+
+  /** Get key for goal's plan adaptation set */
+  goalAdaptations(goalId: GoalId): string {
+    return buildKey(KeyNamespace.SWORD, 'goal', goalId, 'adaptations');
+  },
+
+  /** Get key for user's calendar feed (subscription token) */
+  userCalendarFeed(userId: UserId): string {
+    return buildKey(KeyNamespace.SWORD, 'user', userId, 'calendar');
+  },
+
+  /** Get key for the calendar feed token lookup (SHA-256 of the token) */
+  calendarFeedToken(tokenHash: string): string {
+    return buildKey(KeyNamespace.SWORD, 'calendar', 'token', tokenHash);
+  },
+
   /** Get key for user's pending steps queue */
   userPendingSteps(userId: UserId): string {
     return buildKey(KeyNamespace.SWORD, 'user', userId, 'pending');
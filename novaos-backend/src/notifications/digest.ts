@@ -0,0 +1,290 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// NOTIFICATION DIGESTS — Delivery Timing, Quiet Hours and Digest Rendering
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Push and email can each be set to collect notifications into hourly, daily
+// or weekly digests. Notifications that arrive during quiet hours are held
+// until quiet hours end rather than dropped. Urgent notifications always go
+// out at once.
+//
+// Quiet hours and digest hours are wall-clock times in the user's timezone,
+// or the server's when none is given, so they hold across daylight saving
+// changes.
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { DateTime } from 'luxon';
+import type {
+  ChannelSettings,
+  DigestChannel,
+  DigestFrequency,
+  Notification,
+  NotificationChannel,
+  NotificationPreferences,
+  NotificationPriority,
+  NotificationType,
+} from './types.js';
+import { DIGEST_CHANNELS, NOTIFICATION_TEMPLATES, PRIORITY_ORDER, renderTemplate } from './types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export const DEFAULT_DIGEST_HOUR = 8;
+export const DEFAULT_DIGEST_DAY = 1;           // Monday
+
+/** How long a queue waits before another try after sending fails */
+export const DIGEST_RETRY_DELAY_MS = 15 * 60 * 1000;
+
+/** Items listed per notification type before the rest are counted */
+const MAX_ITEMS_PER_TYPE = 5;
+
+const DIGEST_FREQUENCIES: readonly DigestFrequency[] = ['immediate', 'hourly', 'daily', 'weekly'];
+
+const PERIOD_LABELS: Record<DigestFrequency, string> = {
+  immediate: 'quiet hours',
+  hourly: 'hourly',
+  daily: 'daily',
+  weekly: 'weekly',
+};
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// QUIET HOURS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export function isQuietHours(
+  preferences: NotificationPreferences,
+  at: Date = new Date(),
+  timezone?: string
+): boolean {
+  const window = getQuietWindow(preferences);
+  if (!window) {
+    return false;
+  }
+
+  const local = toLocalTime(at, timezone);
+  const currentMinutes = local.hour * 60 + local.minute;
+
+  if (window.start <= window.end) {
+    return currentMinutes >= window.start && currentMinutes < window.end;
+  }
+  // Overnight range (e.g., 22:00 to 07:00)
+  return currentMinutes >= window.start || currentMinutes < window.end;
+}
+
+/**
+ * The next time quiet hours end after the given time.
+ */
+export function quietHoursEnd(preferences: NotificationPreferences, at: Date, timezone?: string): Date {
+  const window = getQuietWindow(preferences);
+  if (!window) {
+    return at;
+  }
+
+  let end = atTimeOfDay(toLocalTime(at, timezone), Math.floor(window.end / 60), window.end % 60);
+  if (end.toMillis() <= at.getTime()) {
+    end = end.plus({ days: 1 });
+  }
+  return end.toJSDate();
+}
+
+function getQuietWindow(preferences: NotificationPreferences): { start: number; end: number } | null {
+  if (!preferences.quietHoursEnabled || !preferences.quietHoursStart || !preferences.quietHoursEnd) {
+    return null;
+  }
+  return {
+    start: parseMinutes(preferences.quietHoursStart),
+    end: parseMinutes(preferences.quietHoursEnd),
+  };
+}
+
+function parseMinutes(time: string): number {
+  const [hours = 0, minutes = 0] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function toLocalTime(at: Date, timezone?: string): DateTime {
+  const local = DateTime.fromJSDate(at, { zone: timezone ?? 'local' });
+  return local.isValid ? local : DateTime.fromJSDate(at);
+}
+
+/**
+ * The same local day at the given wall-clock time. Adding calendar days to
+ * the result keeps that time across daylight saving changes.
+ */
+function atTimeOfDay(local: DateTime, hour: number, minute = 0): DateTime {
+  return local.set({ hour, minute, second: 0, millisecond: 0 });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SCHEDULING
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * When the next digest for a channel goes out, or null for immediate
+ * delivery.
+ */
+export function nextDigestAt(settings: ChannelSettings, at: Date, timezone?: string): Date | null {
+  const frequency = settings.digest ?? 'immediate';
+  const local = toLocalTime(at, timezone);
+
+  switch (frequency) {
+    case 'immediate':
+      return null;
+
+    case 'hourly':
+      return local.startOf('hour').plus({ hours: 1 }).toJSDate();
+
+    case 'daily': {
+      let next = atTimeOfDay(local, settings.digestHour ?? DEFAULT_DIGEST_HOUR);
+      if (next.toMillis() <= at.getTime()) {
+        next = next.plus({ days: 1 });
+      }
+      return next.toJSDate();
+    }
+
+    case 'weekly': {
+      // Luxon weekdays run Monday = 1 to Sunday = 7
+      const days = ((settings.digestDay ?? DEFAULT_DIGEST_DAY) - (local.weekday % 7) + 7) % 7;
+      let next = atTimeOfDay(local, settings.digestHour ?? DEFAULT_DIGEST_HOUR).plus({ days });
+      if (next.toMillis() <= at.getTime()) {
+        next = next.plus({ weeks: 1 });
+      }
+      return next.toJSDate();
+    }
+  }
+}
+
+/**
+ * When a notification created now should be sent on a channel: null to send
+ * it at once, otherwise the time its queue is due. Urgent notifications are
+ * never held, and nothing is due during quiet hours.
+ */
+export function getDeliveryTime(
+  preferences: NotificationPreferences,
+  channel: NotificationChannel,
+  priority: NotificationPriority,
+  at: Date,
+  timezone?: string
+): Date | null {
+  if (channel === 'in_app' || priority === 'urgent') {
+    return null;
+  }
+
+  const dueAt = nextDigestAt(preferences.channelSettings[channel], at, timezone)
+    ?? (isQuietHours(preferences, at, timezone) ? at : null);
+
+  if (dueAt && isQuietHours(preferences, dueAt, timezone)) {
+    return quietHoursEnd(preferences, dueAt, timezone);
+  }
+  return dueAt;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// RENDERING
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Build the digest sent in place of the queued notifications, grouped by
+ * type under each type's template icon and title.
+ */
+export function renderDigest(
+  userId: string,
+  channel: DigestChannel,
+  frequency: DigestFrequency,
+  notifications: Notification[],
+  at: Date = new Date()
+): Notification {
+  const template = NOTIFICATION_TEMPLATES.digest;
+
+  const groups = new Map<NotificationType, Notification[]>();
+  for (const notification of notifications) {
+    const group = groups.get(notification.type) ?? [];
+    group.push(notification);
+    groups.set(notification.type, group);
+  }
+
+  const sections = [...groups].map(([type, items]) => {
+    const heading = `${NOTIFICATION_TEMPLATES[type].icon} ${NOTIFICATION_TEMPLATES[type].titleTemplate} (${items.length})`;
+    const lines = items.slice(0, MAX_ITEMS_PER_TYPE).map(item => `• ${item.body}`);
+    if (items.length > MAX_ITEMS_PER_TYPE) {
+      lines.push(`• and ${items.length - MAX_ITEMS_PER_TYPE} more`);
+    }
+    return [heading, ...lines].join('\n');
+  });
+
+  const count = notifications.length;
+  const variables = {
+    period: PERIOD_LABELS[frequency],
+    summary: `${count} new notification${count === 1 ? '' : 's'}`,
+    items: sections.join('\n\n'),
+  };
+
+  const priority = notifications
+    .map(notification => notification.priority)
+    .reduce<NotificationPriority>(
+      (highest, p) => (PRIORITY_ORDER[p] > PRIORITY_ORDER[highest] ? p : highest),
+      template.defaultPriority
+    );
+
+  return {
+    id: `dgst_${at.getTime().toString(36)}_${Math.random().toString(36).slice(2, 8)}`,
+    userId,
+    type: 'digest',
+    title: renderTemplate(template.titleTemplate, variables),
+    body: renderTemplate(template.bodyTemplate, variables),
+    icon: template.icon,
+    priority,
+    action: {
+      type: 'link',
+      label: 'View Notifications',
+      url: '/notifications',
+    },
+    data: {
+      frequency,
+      notificationIds: notifications.map(notification => notification.id),
+    },
+    source: 'digest',
+    read: false,
+    dismissed: false,
+    createdAt: at.toISOString(),
+    channels: [channel],
+    deliveredVia: [],
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// VALIDATION
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Check the digest fields of a preferences update. Throws with a message
+ * suitable for a 400 response.
+ */
+export function validateDigestSettings(
+  channelSettings: Partial<Record<NotificationChannel, Partial<ChannelSettings>>> | undefined
+): void {
+  if (!channelSettings) return;
+
+  for (const [channel, settings] of Object.entries(channelSettings)) {
+    if (!settings) continue;
+    const { digest, digestHour, digestDay } = settings;
+
+    if (digest !== undefined) {
+      if (!DIGEST_FREQUENCIES.includes(digest)) {
+        throw new Error(`digest must be one of: ${DIGEST_FREQUENCIES.join(', ')}`);
+      }
+      if (digest !== 'immediate' && !DIGEST_CHANNELS.includes(channel as DigestChannel)) {
+        throw new Error(`Digests are only available for: ${DIGEST_CHANNELS.join(', ')}`);
+      }
+    }
+
+    if (digestHour !== undefined && (!Number.isInteger(digestHour) || digestHour < 0 || digestHour > 23)) {
+      throw new Error('digestHour must be an integer from 0 to 23');
+    }
+
+    if (digestDay !== undefined && (!Number.isInteger(digestDay) || digestDay < 0 || digestDay > 6)) {
+      throw new Error('digestDay must be an integer from 0 (Sunday) to 6');
+    }
+  }
+}
@@ -0,0 +1,44 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// EMAIL MODULE — SMTP Delivery Channel for Notifications
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Provider
+export {
+  SmtpEmailProvider,
+  EmailDeliveryError,
+  createEmailProvider,
+  isValidEmailAddress,
+  type MailTransport,
+  type SmtpEmailProviderConfig,
+  type EmailDeliveryErrorCode,
+  type EmailDeliveryStats,
+} from './provider.js';
+
+// Transport
+export {
+  SmtpTransport,
+  SmtpError,
+  dotStuff,
+  type SmtpTransportConfig,
+  type SmtpEnvelope,
+  type SmtpRejection,
+  type SmtpSendResult,
+  type SmtpErrorCode,
+} from './smtp-transport.js';
+
+// Message construction
+export { buildMimeMessage, encodeHeaderValue, type MailMessage, type BuiltMessage } from './mime.js';
+export {
+  renderNotificationEmail,
+  escapeHtml,
+  EMAIL_LAYOUTS,
+  type RenderedEmail,
+  type EmailRenderOptions,
+} from './templates.js';
+
+// Unsubscribe
+export {
+  createUnsubscribeToken,
+  verifyUnsubscribeToken,
+  buildUnsubscribeUrl,
+} from './unsubscribe.js';
@@ -0,0 +1,126 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// MIME — RFC 5322 Message Construction
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Builds a multipart/alternative message (plain text + HTML, UTF-8, base64)
+// ready to be handed to SmtpTransport.send().
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { randomBytes } from 'crypto';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  replyTo?: string;
+  
+  /** Additional headers (e.g. List-Unsubscribe) */
+  headers?: Record<string, string>;
+  
+  /** Defaults to now */
+  date?: Date;
+}
+
+export interface BuiltMessage {
+  messageId: string;
+  raw: string;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const CRLF = '\r\n';
+const BASE64_LINE_LENGTH = 76;
+const ASCII_PATTERN = /^[\x20-\x7e]*$/;
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// ENCODING
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Strip CR/LF so values cannot inject extra headers.
+ */
+function sanitizeHeaderValue(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ').trim();
+}
+
+/**
+ * RFC 2047 encoded-word for non-ASCII header values (e.g. emoji subjects).
+ */
+export function encodeHeaderValue(value: string): string {
+  const clean = sanitizeHeaderValue(value);
+  if (ASCII_PATTERN.test(clean)) {
+    return clean;
+  }
+  return `=?UTF-8?B?${Buffer.from(clean, 'utf8').toString('base64')}?=`;
+}
+
+function encodeBase64Body(content: string): string {
+  const encoded = Buffer.from(content, 'utf8').toString('base64');
+  const lines: string[] = [];
+  for (let i = 0; i < encoded.length; i += BASE64_LINE_LENGTH) {
+    lines.push(encoded.slice(i, i + BASE64_LINE_LENGTH));
+  }
+  return lines.join(CRLF);
+}
+
+function domainOf(address: string): string {
+  const at = address.lastIndexOf('@');
+  return at === -1 ? 'localhost' : address.slice(at + 1).replace(/>.*$/, '');
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// BUILDER
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Build a multipart/alternative message with a generated Message-ID.
+ */
+export function buildMimeMessage(message: MailMessage): BuiltMessage {
+  const messageId = `<${Date.now().toString(36)}.${randomBytes(8).toString('hex')}@${domainOf(message.from)}>`;
+  const boundary = `novaos-${randomBytes(12).toString('hex')}`;
+  
+  const headers: Array<[string, string]> = [
+    ['From', sanitizeHeaderValue(message.from)],
+    ['To', sanitizeHeaderValue(message.to)],
+    ['Subject', encodeHeaderValue(message.subject)],
+    ['Date', (message.date ?? new Date()).toUTCString()],
+    ['Message-ID', messageId],
+    ['MIME-Version', '1.0'],
+  ];
+  
+  if (message.replyTo) {
+    headers.push(['Reply-To', sanitizeHeaderValue(message.replyTo)]);
+  }
+  for (const [name, value] of Object.entries(message.headers ?? {})) {
+    headers.push([name, sanitizeHeaderValue(value)]);
+  }
+  headers.push(['Content-Type', `multipart/alternative; boundary="${boundary}"`]);
+  
+  const part = (contentType: string, content: string) => [
+    `--${boundary}`,
+    `Content-Type: ${contentType}; charset=utf-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBase64Body(content),
+  ].join(CRLF);
+  
+  const raw = [
+    ...headers.map(([name, value]) => `${name}: ${value}`),
+    '',
+    part('text/plain', message.text),
+    part('text/html', message.html),
+    `--${boundary}--`,
+    '',
+  ].join(CRLF);
+  
+  return { messageId, raw };
+}
@@ -0,0 +1,375 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// SMTP EMAIL PROVIDER — Email Channel for NotificationService
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Delivery pipeline per notification:
+//
+//   resolve recipient → suppression list → daily cap → render → SMTP
+//
+// Permanent SMTP rejections (5xx) count as bounces; after `maxBounces`
+// the address is suppressed until cleared. Transient failures (4xx,
+// network, timeout) are counted but never suppress.
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { getStore, type KeyValueStore } from '../../storage/index.js';
+import { getLogger } from '../../logging/index.js';
+import type { EmailConfig } from '../../config/index.js';
+import type { Notification } from '../types.js';
+import type { EmailProvider } from '../service.js';
+import { NotificationStore } from '../store.js';
+import { SmtpTransport, SmtpError, type SmtpTransportConfig, type SmtpEnvelope, type SmtpSendResult } from './smtp-transport.js';
+import { buildMimeMessage } from './mime.js';
+import { renderNotificationEmail } from './templates.js';
+import { buildUnsubscribeUrl } from './unsubscribe.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Anything that can deliver a raw message (SmtpTransport or a test double).
+ */
+export interface MailTransport {
+  send(envelope: SmtpEnvelope, message: string): Promise<SmtpSendResult>;
+}
+
+export interface SmtpEmailProviderConfig {
+  transport: SmtpTransportConfig | MailTransport;
+  
+  /** From header, e.g. `NovaOS <notifications@novaos.ai>` */
+  from: string;
+  replyTo?: string;
+  
+  /** Base URL for relative action links */
+  appUrl?: string;
+  productName?: string;
+  
+  /** HTTPS one-click unsubscribe endpoint (token is appended) */
+  unsubscribeUrl?: string;
+  /** Mailbox for mailto: unsubscribe requests */
+  unsubscribeMailto?: string;
+  unsubscribeSecret: string;
+  
+  /** Maximum emails per user per UTC day */
+  dailyCap: number;
+  
+  /** Permanent failures before an address is suppressed */
+  maxBounces: number;
+  
+  /** Look up the delivery address (defaults to preferences.emailAddress) */
+  resolveRecipient?: (userId: string) => Promise<string | null | undefined>;
+  
+  store?: KeyValueStore;
+}
+
+export type EmailDeliveryErrorCode =
+  | 'NO_RECIPIENT'
+  | 'INVALID_RECIPIENT'
+  | 'SUPPRESSED'
+  | 'DAILY_CAP'
+  | 'BOUNCED'
+  | 'FAILED';
+
+export class EmailDeliveryError extends Error {
+  constructor(
+    message: string,
+    public readonly code: EmailDeliveryErrorCode,
+    public readonly cause?: Error
+  ) {
+    super(message);
+    this.name = 'EmailDeliveryError';
+  }
+}
+
+export interface EmailDeliveryStats {
+  sent: number;
+  bounced: number;
+  failed: number;
+  capped: number;
+  suppressed: number;
+  noRecipient: number;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONSTANTS & KEYS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const DAILY_COUNT_TTL = 2 * 24 * 60 * 60;       // 2 days
+const BOUNCE_TTL = 90 * 24 * 60 * 60;           // 90 days
+const FAILURE_TTL = 7 * 24 * 60 * 60;           // 7 days
+
+const EMAIL_ADDRESS_PATTERN = /^[^\s@<>()[\]\\,;:"]+@[^\s@<>()[\]\\,;:"]+\.[^\s@<>()[\]\\,;:"]+$/;
+
+function dailyCountKey(userId: string, day: string): string {
+  return `notification:user:${userId}:email:sent:${day}`;
+}
+
+function bounceKey(address: string): string {
+  return `notification:email:bounces:${address}`;
+}
+
+function failureKey(day: string): string {
+  return `notification:email:failures:${day}`;
+}
+
+const SUPPRESSED_KEY = 'notification:email:suppressed';
+
+function utcDay(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Basic syntactic check; also rules out CR/LF and angle brackets, which
+ * would otherwise allow SMTP command or header injection.
+ */
+export function isValidEmailAddress(address: string): boolean {
+  return address.length <= 254 && EMAIL_ADDRESS_PATTERN.test(address);
+}
+
+/**
+ * Extract the bare address from a `Name <address>` header value.
+ */
+function envelopeAddress(header: string): string {
+  const match = /<([^>]+)>/.exec(header);
+  return (match ? match[1]! : header).trim();
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// PROVIDER
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export class SmtpEmailProvider implements EmailProvider {
+  private readonly config: SmtpEmailProviderConfig;
+  private readonly transport: MailTransport;
+  private readonly store: KeyValueStore;
+  private readonly logger = getLogger({ component: 'email-provider' });
+  private readonly stats: EmailDeliveryStats = {
+    sent: 0,
+    bounced: 0,
+    failed: 0,
+    capped: 0,
+    suppressed: 0,
+    noRecipient: 0,
+  };
+  
+  constructor(config: SmtpEmailProviderConfig) {
+    this.config = config;
+    this.transport = 'send' in config.transport
+      ? config.transport
+      : new SmtpTransport(config.transport);
+    this.store = config.store ?? getStore();
+  }
+  
+  // ═══════════════════════════════════════════════════════════════════════════════
+  // DELIVERY
+  // ═══════════════════════════════════════════════════════════════════════════════
+  
+  async send(notification: Notification): Promise<void> {
+    const { userId } = notification;
+    
+    const recipient = (await this.resolveRecipient(userId))?.trim();
+    if (!recipient) {
+      this.stats.noRecipient++;
+      throw new EmailDeliveryError('No email address for user', 'NO_RECIPIENT');
+    }
+    if (!isValidEmailAddress(recipient)) {
+      throw new EmailDeliveryError('Invalid email address', 'INVALID_RECIPIENT');
+    }
+    
+    const address = recipient.toLowerCase();
+    if (await this.isSuppressed(address)) {
+      this.stats.suppressed++;
+      throw new EmailDeliveryError('Address suppressed after repeated bounces', 'SUPPRESSED');
+    }
+    
+    const countKey = dailyCountKey(userId, utcDay());
+    const sentToday = parseInt((await this.store.get(countKey)) ?? '0', 10);
+    if (sentToday >= this.config.dailyCap) {
+      this.stats.capped++;
+      throw new EmailDeliveryError(`Daily email cap of ${this.config.dailyCap} reached`, 'DAILY_CAP');
+    }
+    
+    const unsubscribeUrl = this.config.unsubscribeUrl
+      ? buildUnsubscribeUrl(this.config.unsubscribeUrl, userId, this.config.unsubscribeSecret)
+      : undefined;
+    const rendered = renderNotificationEmail(notification, {
+      appUrl: this.config.appUrl,
+      productName: this.config.productName,
+      unsubscribeUrl,
+    });
+    
+    const { messageId, raw } = buildMimeMessage({
+      from: this.config.from,
+      to: recipient,
+      replyTo: this.config.replyTo,
+      subject: rendered.subject,
+      text: rendered.text,
+      html: rendered.html,
+      headers: {
+        ...this.unsubscribeHeaders(unsubscribeUrl),
+        'Auto-Submitted': 'auto-generated',
+        'X-NovaOS-Notification-Id': notification.id,
+      },
+    });
+    
+    try {
+      await this.transport.send({ from: envelopeAddress(this.config.from), to: [recipient] }, raw);
+    } catch (error) {
+      await this.handleFailure(notification, address, error);
+    }
+    
+    await this.store.incr(countKey);
+    await this.store.expire(countKey, DAILY_COUNT_TTL);
+    
+    this.stats.sent++;
+    this.logger.info('Email notification sent', {
+      notificationId: notification.id,
+      userId,
+      messageId,
+    });
+  }
+  
+  private async resolveRecipient(userId: string): Promise<string | null | undefined> {
+    if (this.config.resolveRecipient) {
+      return this.config.resolveRecipient(userId);
+    }
+    const preferences = await new NotificationStore(this.store).getPreferences(userId);
+    return preferences.emailAddress;
+  }
+  
+  /**
+   * RFC 2369 List-Unsubscribe plus RFC 8058 one-click when an HTTPS link exists.
+   */
+  private unsubscribeHeaders(unsubscribeUrl: string | undefined): Record<string, string> {
+    const targets: string[] = [];
+    if (this.config.unsubscribeMailto) {
+      targets.push(`<mailto:${this.config.unsubscribeMailto}?subject=unsubscribe>`);
+    }
+    if (unsubscribeUrl) {
+      targets.push(`<${unsubscribeUrl}>`);
+    }
+    
+    if (targets.length === 0) {
+      return {};
+    }
+    
+    const headers: Record<string, string> = { 'List-Unsubscribe': targets.join(', ') };
+    if (unsubscribeUrl?.startsWith('https:')) {
+      headers['List-Unsubscribe-Post'] = 'List-Unsubscribe=One-Click';
+    }
+    return headers;
+  }
+  
+  private async handleFailure(notification: Notification, address: string, error: unknown): Promise<never> {
+    const cause = error instanceof Error ? error : new Error(String(error));
+    
+    if (cause instanceof SmtpError && cause.code === 'REJECTED' && cause.permanent) {
+      this.stats.bounced++;
+      const bounces = await this.recordBounce(address);
+      this.logger.warn('Email notification bounced', {
+        notificationId: notification.id,
+        userId: notification.userId,
+        replyCode: cause.replyCode,
+        bounces,
+      });
+      throw new EmailDeliveryError(`Email bounced: ${cause.message}`, 'BOUNCED', cause);
+    }
+    
+    this.stats.failed++;
+    const day = utcDay();
+    await this.store.incr(failureKey(day));
+    await this.store.expire(failureKey(day), FAILURE_TTL);
+    throw new EmailDeliveryError(`Email delivery failed: ${cause.message}`, 'FAILED', cause);
+  }
+  
+  // ═══════════════════════════════════════════════════════════════════════════════
+  // BOUNCES & SUPPRESSION
+  // ═══════════════════════════════════════════════════════════════════════════════
+  
+  /**
+   * Record a hard bounce (also usable for asynchronous DSNs or provider
+   * webhooks). Returns the bounce count; suppresses the address at the limit.
+   */
+  async recordBounce(address: string): Promise<number> {
+    const normalized = address.trim().toLowerCase();
+    const count = await this.store.incr(bounceKey(normalized));
+    await this.store.expire(bounceKey(normalized), BOUNCE_TTL);
+    
+    if (count >= this.config.maxBounces) {
+      await this.store.sadd(SUPPRESSED_KEY, normalized);
+      this.logger.warn('Email address suppressed', { bounces: count });
+    }
+    return count;
+  }
+  
+  async isSuppressed(address: string): Promise<boolean> {
+    return this.store.sismember(SUPPRESSED_KEY, address.trim().toLowerCase());
+  }
+  
+  /**
+   * Remove an address from the suppression list (e.g. after the user fixes it).
+   */
+  async clearSuppression(address: string): Promise<void> {
+    const normalized = address.trim().toLowerCase();
+    await this.store.srem(SUPPRESSED_KEY, normalized);
+    await this.store.delete(bounceKey(normalized));
+  }
+  
+  // ═══════════════════════════════════════════════════════════════════════════════
+  // STATS
+  // ═══════════════════════════════════════════════════════════════════════════════
+  
+  getStats(): EmailDeliveryStats {
+    return { ...this.stats };
+  }
+  
+  /**
+   * Emails sent to a user today (UTC).
+   */
+  async getSentToday(userId: string): Promise<number> {
+    return parseInt((await this.store.get(dailyCountKey(userId, utcDay()))) ?? '0', 10);
+  }
+  
+  /**
+   * Transient delivery failures recorded for a UTC day (YYYY-MM-DD).
+   */
+  async getFailureCount(day: string = utcDay()): Promise<number> {
+    return parseInt((await this.store.get(failureKey(day))) ?? '0', 10);
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// FACTORY
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Create the SMTP provider from environment config, or null when SMTP
+ * is not configured.
+ */
+export function createEmailProvider(config: EmailConfig, store?: KeyValueStore): SmtpEmailProvider | null {
+  if (!config.enabled) {
+    return null;
+  }
+  
+  const { smtp } = config;
+  return new SmtpEmailProvider({
+    transport: {
+      host: smtp.host,
+      port: smtp.port,
+      secure: smtp.secure,
+      requireTls: smtp.requireTls,
+      auth: smtp.user && smtp.pass ? { user: smtp.user, pass: smtp.pass } : undefined,
+      timeoutMs: smtp.timeoutMs,
+    },
+    from: config.from,
+    replyTo: config.replyTo,
+    appUrl: config.appUrl,
+    unsubscribeUrl: config.unsubscribeUrl,
+    unsubscribeMailto: config.unsubscribeMailto,
+    unsubscribeSecret: config.unsubscribeSecret,
+    dailyCap: config.dailyCap,
+    maxBounces: config.maxBounces,
+    store,
+  });
+}
@@ -0,0 +1,434 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// SMTP TRANSPORT — Minimal SMTP Client (RFC 5321)
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// One connection per message:
+//
+//   220 greeting → EHLO → [STARTTLS → EHLO] → [AUTH] → MAIL FROM → RCPT TO
+//   → DATA → QUIT
+//
+// Reply codes are surfaced on SmtpError so callers can tell permanent
+// failures (5xx, treated as bounces) from transient ones (4xx, network).
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import net from 'net';
+import tls from 'tls';
+import { hostname } from 'os';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export interface SmtpTransportConfig {
+  host: string;
+  port: number;
+  
+  /** Implicit TLS from the first byte (port 465) */
+  secure?: boolean;
+  
+  /** Fail instead of sending in plaintext when STARTTLS is not offered */
+  requireTls?: boolean;
+  
+  auth?: {
+    user: string;
+    pass: string;
+  };
+  
+  /** Name sent with EHLO (defaults to the machine hostname) */
+  clientName?: string;
+  
+  /** Socket inactivity timeout */
+  timeoutMs?: number;
+  
+  /** Extra TLS options (e.g. rejectUnauthorized for local relays) */
+  tlsOptions?: tls.ConnectionOptions;
+}
+
+export interface SmtpEnvelope {
+  from: string;
+  to: string[];
+}
+
+export interface SmtpRejection {
+  recipient: string;
+  code: number;
+  message: string;
+}
+
+export interface SmtpSendResult {
+  accepted: string[];
+  rejected: SmtpRejection[];
+  /** Final server response to DATA (usually contains the queue id) */
+  response: string;
+}
+
+export type SmtpErrorCode =
+  | 'CONNECTION'
+  | 'TIMEOUT'
+  | 'PROTOCOL'
+  | 'TLS_REQUIRED'
+  | 'AUTH'
+  | 'REJECTED';
+
+export class SmtpError extends Error {
+  readonly permanent: boolean;
+  
+  constructor(
+    message: string,
+    public readonly code: SmtpErrorCode,
+    public readonly replyCode?: number,
+    public readonly rejected: SmtpRejection[] = []
+  ) {
+    super(message);
+    this.name = 'SmtpError';
+    this.permanent = replyCode !== undefined && replyCode >= 500 && replyCode < 600;
+  }
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const REPLY_LINE_PATTERN = /^(\d{3})([ -])(.*)$/;
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// HELPERS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Normalize line endings to CRLF and escape lines starting with a dot
+ * so the message cannot terminate DATA early.
+ */
+export function dotStuff(message: string): string {
+  return message
+    .replace(/\r?\n/g, '\r\n')
+    .split('\r\n')
+    .map(line => (line.startsWith('.') ? `.${line}` : line))
+    .join('\r\n');
+}
+
+function replyText(reply: SmtpReply): string {
+  return `${reply.code} ${reply.lines.join(' ')}`.trim();
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONNECTION
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Line-oriented SMTP session over a (possibly upgraded) socket.
+ */
+class SmtpConnection {
+  private socket!: net.Socket;
+  private buffer = '';
+  private partial: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiter: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+  private closing = false;
+  
+  constructor(socket: net.Socket, private readonly timeoutMs: number) {
+    this.attach(socket);
+  }
+  
+  private readonly onData = (chunk: Buffer): void => {
+    this.buffer += chunk.toString('utf8');
+    
+    let index: number;
+    while ((index = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, index).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(index + 1);
+      
+      const match = REPLY_LINE_PATTERN.exec(line);
+      if (!match) {
+        this.fail(new SmtpError(`Malformed SMTP reply: ${line.slice(0, 100)}`, 'PROTOCOL'));
+        return;
+      }
+      
+      this.partial.push(match[3]!);
+      if (match[2] === ' ') {
+        this.deliver({ code: parseInt(match[1]!, 10), lines: this.partial });
+        this.partial = [];
+      }
+    }
+  };
+  
+  private readonly onError = (error: Error): void => {
+    this.fail(new SmtpError(error.message, 'CONNECTION'));
+  };
+  
+  private readonly onClose = (): void => {
+    if (!this.closing) {
+      this.fail(new SmtpError('Connection closed by server', 'CONNECTION'));
+    }
+  };
+  
+  private readonly onTimeout = (): void => {
+    this.fail(new SmtpError(`SMTP timeout after ${this.timeoutMs}ms`, 'TIMEOUT'));
+    this.socket.destroy();
+  };
+  
+  private attach(socket: net.Socket): void {
+    this.socket = socket;
+    socket.on('data', this.onData);
+    socket.on('error', this.onError);
+    socket.on('close', this.onClose);
+    socket.setTimeout(this.timeoutMs, this.onTimeout);
+  }
+  
+  private detach(): void {
+    this.socket.off('data', this.onData);
+    this.socket.off('error', this.onError);
+    this.socket.off('close', this.onClose);
+    this.socket.setTimeout(0);
+  }
+  
+  private deliver(reply: SmtpReply): void {
+    if (this.waiter) {
+      const { resolve } = this.waiter;
+      this.waiter = null;
+      resolve(reply);
+    } else {
+      this.replies.push(reply);
+    }
+  }
+  
+  private fail(error: Error): void {
+    this.failure ??= error;
+    if (this.waiter) {
+      const { reject } = this.waiter;
+      this.waiter = null;
+      reject(error);
+    }
+  }
+  
+  read(): Promise<SmtpReply> {
+    const queued = this.replies.shift();
+    if (queued) {
+      return Promise.resolve(queued);
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject };
+    });
+  }
+  
+  write(data: string): void {
+    this.socket.write(data);
+  }
+  
+  /**
+   * Send a command and read its reply. Does not check the reply code.
+   */
+  async command(line: string): Promise<SmtpReply> {
+    this.write(`${line}\r\n`);
+    return this.read();
+  }
+  
+  /**
+   * Send a command and require one of the expected reply codes.
+   */
+  async expect(
+    line: string,
+    codes: number[],
+    errorCode: SmtpErrorCode = 'PROTOCOL',
+    label: string = line.split(' ')[0] ?? line
+  ): Promise<SmtpReply> {
+    const reply = await this.command(line);
+    if (!codes.includes(reply.code)) {
+      throw new SmtpError(`${label} failed: ${replyText(reply)}`, errorCode, reply.code);
+    }
+    return reply;
+  }
+  
+  /**
+   * Upgrade the connection to TLS after a successful STARTTLS.
+   */
+  async upgrade(options: tls.ConnectionOptions): Promise<void> {
+    this.detach();
+    const secureSocket = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const upgraded = tls.connect({ ...options, socket: this.socket }, () => resolve(upgraded));
+      upgraded.once('error', reject);
+    }).catch((error: Error) => {
+      throw new SmtpError(`TLS upgrade failed: ${error.message}`, 'CONNECTION');
+    });
+    this.attach(secureSocket);
+  }
+  
+  async quit(): Promise<void> {
+    this.closing = true;
+    try {
+      this.write('QUIT\r\n');
+      await this.read();
+    } catch {
+      // Server may drop the connection without replying
+    } finally {
+      this.socket.end();
+      this.socket.destroy();
+    }
+  }
+  
+  destroy(): void {
+    this.closing = true;
+    this.socket.destroy();
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TRANSPORT
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export class SmtpTransport {
+  private readonly config: SmtpTransportConfig;
+  private readonly timeoutMs: number;
+  
+  constructor(config: SmtpTransportConfig) {
+    this.config = config;
+    this.timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
+  
+  /**
+   * Deliver a fully formatted RFC 5322 message.
+   * Resolves when at least one recipient was accepted; rejected recipients
+   * are reported in the result.
+   */
+  async send(envelope: SmtpEnvelope, message: string): Promise<SmtpSendResult> {
+    const connection = await this.connect();
+    
+    try {
+      const greeting = await connection.read();
+      if (greeting.code !== 220) {
+        throw new SmtpError(`Server rejected connection: ${replyText(greeting)}`, 'CONNECTION', greeting.code);
+      }
+      
+      let extensions = await this.hello(connection);
+      
+      if (!this.config.secure) {
+        if (extensions.has('STARTTLS')) {
+          await connection.expect('STARTTLS', [220]);
+          await connection.upgrade({ servername: this.config.host, ...this.config.tlsOptions });
+          extensions = await this.hello(connection);
+        } else if (this.config.requireTls) {
+          throw new SmtpError('Server does not support STARTTLS', 'TLS_REQUIRED');
+        }
+      }
+      
+      if (this.config.auth) {
+        await this.authenticate(connection, extensions.get('AUTH') ?? '');
+      }
+      
+      await connection.expect(`MAIL FROM:<${envelope.from}>`, [250], 'REJECTED');
+      
+      const accepted: string[] = [];
+      const rejected: SmtpRejection[] = [];
+      for (const recipient of envelope.to) {
+        const reply = await connection.command(`RCPT TO:<${recipient}>`);
+        if (reply.code === 250 || reply.code === 251) {
+          accepted.push(recipient);
+        } else {
+          rejected.push({ recipient, code: reply.code, message: replyText(reply) });
+        }
+      }
+      
+      if (accepted.length === 0) {
+        const first = rejected[0];
+        throw new SmtpError(
+          `All recipients rejected: ${first?.message ?? 'no recipients'}`,
+          'REJECTED',
+          first?.code,
+          rejected
+        );
+      }
+      
+      await connection.expect('DATA', [354]);
+      connection.write(`${dotStuff(message)}\r\n.\r\n`);
+      const final = await connection.read();
+      if (final.code !== 250) {
+        throw new SmtpError(`Message rejected: ${replyText(final)}`, 'REJECTED', final.code, rejected);
+      }
+      
+      await connection.quit();
+      return { accepted, rejected, response: replyText(final) };
+    } catch (error) {
+      connection.destroy();
+      throw error;
+    }
+  }
+  
+  /**
+   * Open the TCP (or implicit TLS) connection.
+   */
+  private connect(): Promise<SmtpConnection> {
+    const { host, port, secure, tlsOptions } = this.config;
+    
+    return new Promise((resolve, reject) => {
+      const socket: net.Socket = secure
+        ? tls.connect({ host, port, servername: host, ...tlsOptions }, () => ready())
+        : net.connect({ host, port }, () => ready());
+      
+      const timer = setTimeout(() => {
+        socket.destroy();
+        reject(new SmtpError(`Connection to ${host}:${port} timed out`, 'TIMEOUT'));
+      }, this.timeoutMs);
+      
+      const onConnectError = (error: Error) => {
+        clearTimeout(timer);
+        reject(new SmtpError(`Cannot connect to ${host}:${port}: ${error.message}`, 'CONNECTION'));
+      };
+      
+      const ready = () => {
+        clearTimeout(timer);
+        socket.off('error', onConnectError);
+        resolve(new SmtpConnection(socket, this.timeoutMs));
+      };
+      
+      socket.once('error', onConnectError);
+    });
+  }
+  
+  /**
+   * EHLO (falling back to HELO) and return the advertised extensions.
+   */
+  private async hello(connection: SmtpConnection): Promise<Map<string, string>> {
+    const name = this.config.clientName ?? hostname();
+    const reply = await connection.command(`EHLO ${name}`);
+    
+    if (reply.code !== 250) {
+      await connection.expect(`HELO ${name}`, [250]);
+      return new Map();
+    }
+    
+    const extensions = new Map<string, string>();
+    for (const line of reply.lines.slice(1)) {
+      const [keyword = '', ...params] = line.trim().split(/\s+/);
+      extensions.set(keyword.toUpperCase(), params.join(' ').toUpperCase());
+    }
+    return extensions;
+  }
+  
+  /**
+   * AUTH PLAIN when offered, otherwise AUTH LOGIN.
+   */
+  private async authenticate(connection: SmtpConnection, mechanisms: string): Promise<void> {
+    const { user, pass } = this.config.auth!;
+    const b64 = (value: string) => Buffer.from(value, 'utf8').toString('base64');
+    
+    if (mechanisms.split(' ').includes('PLAIN') || !mechanisms.includes('LOGIN')) {
+      await connection.expect(`AUTH PLAIN ${b64(`\0${user}\0${pass}`)}`, [235], 'AUTH');
+      return;
+    }
+    
+    await connection.expect('AUTH LOGIN', [334], 'AUTH');
+    await connection.expect(b64(user), [334], 'AUTH', 'AUTH LOGIN username');
+    await connection.expect(b64(pass), [235], 'AUTH', 'AUTH LOGIN password');
+  }
+}
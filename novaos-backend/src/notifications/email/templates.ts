@@ -0,0 +1,167 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// EMAIL TEMPLATES — HTML and Plain-Text Rendering of Notifications
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Layouts use the same {{placeholder}} syntax as NOTIFICATION_TEMPLATES.
+// Values are HTML-escaped before substitution into the HTML layout;
+// pre-rendered fragments (action button, footer) are inserted as-is.
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type { Notification } from '../types.js';
+import { NOTIFICATION_TEMPLATES, renderTemplate } from '../types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface EmailRenderOptions {
+  /** Base URL for relative action links (e.g. https://app.novaos.ai) */
+  appUrl?: string;
+  
+  /** Link shown in the footer to stop email notifications */
+  unsubscribeUrl?: string;
+  
+  productName?: string;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// LAYOUTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export const EMAIL_LAYOUTS = {
+  subject: '{{icon}} {{title}}',
+  
+  text: [
+    '{{title}}',
+    '',
+    '{{body}}',
+    '{{action}}',
+    '--',
+    '{{footer}}',
+    '',
+  ].join('\n'),
+  
+  html: `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>{{title}}</title>
+</head>
+<body style="margin:0;padding:24px;background:#f4f4f7;font-family:-apple-system,Segoe UI,Helvetica,Arial,sans-serif;color:#1f2933;">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;">
+<tr><td style="padding:32px;">
+<p style="font-size:32px;margin:0 0 8px;">{{icon}}</p>
+<h1 style="font-size:20px;margin:0 0 16px;">{{title}}</h1>
+<p style="font-size:16px;line-height:1.5;margin:0 0 24px;white-space:pre-line;">{{body}}</p>
+{{action}}
+</td></tr>
+</table>
+<p style="max-width:560px;margin:16px auto 0;font-size:12px;color:#7b8794;text-align:center;">{{footer}}</p>
+</body>
+</html>
+`,
+
+  actionText: '\n{{label}}: {{url}}\n',
+  
+  actionHtml: '<p style="margin:0;"><a href="{{url}}" style="display:inline-block;padding:12px 20px;background:#4f46e5;color:#ffffff;text-decoration:none;border-radius:6px;">{{label}}</a></p>',
+  
+  footerText: 'You are receiving this because email notifications are enabled in {{productName}}.{{unsubscribe}}',
+  
+  footerHtml: 'You are receiving this because email notifications are enabled in {{productName}}.{{unsubscribe}}',
+  
+  unsubscribeText: '\nUnsubscribe: {{url}}',
+  
+  unsubscribeHtml: ' <a href="{{url}}" style="color:#7b8794;">Unsubscribe</a>',
+} as const;
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// HELPERS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function escapeAll(variables: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(variables).map(([k, v]) => [k, escapeHtml(v)]));
+}
+
+/**
+ * Resolve an action URL against the app URL. Only http(s) links are kept.
+ */
+function resolveActionUrl(url: string | undefined, appUrl: string | undefined): string | null {
+  if (!url) {
+    return null;
+  }
+  try {
+    const resolved = appUrl ? new URL(url, appUrl) : new URL(url);
+    return resolved.protocol === 'https:' || resolved.protocol === 'http:' ? resolved.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// RENDERING
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Render a notification as an email subject, plain-text body and HTML body.
+ */
+export function renderNotificationEmail(
+  notification: Notification,
+  options: EmailRenderOptions = {}
+): RenderedEmail {
+  const icon = notification.icon ?? NOTIFICATION_TEMPLATES[notification.type]?.icon ?? '';
+  const productName = options.productName ?? 'NovaOS';
+  const actionUrl = resolveActionUrl(notification.action?.url, options.appUrl);
+  
+  const action = actionUrl
+    ? { label: notification.action!.label, url: actionUrl }
+    : null;
+  const unsubscribe = options.unsubscribeUrl ? { url: options.unsubscribeUrl } : null;
+  
+  const variables = {
+    icon,
+    title: notification.title,
+    body: notification.body,
+    productName,
+  };
+  
+  const text = renderTemplate(EMAIL_LAYOUTS.text, {
+    ...variables,
+    action: action ? renderTemplate(EMAIL_LAYOUTS.actionText, action) : '',
+    footer: renderTemplate(EMAIL_LAYOUTS.footerText, {
+      productName,
+      unsubscribe: unsubscribe ? renderTemplate(EMAIL_LAYOUTS.unsubscribeText, unsubscribe) : '',
+    }),
+  });
+  
+  const html = renderTemplate(EMAIL_LAYOUTS.html, {
+    ...escapeAll(variables),
+    action: action ? renderTemplate(EMAIL_LAYOUTS.actionHtml, escapeAll(action)) : '',
+    footer: renderTemplate(EMAIL_LAYOUTS.footerHtml, {
+      productName: escapeHtml(productName),
+      unsubscribe: unsubscribe ? renderTemplate(EMAIL_LAYOUTS.unsubscribeHtml, escapeAll(unsubscribe)) : '',
+    }),
+  });
+  
+  return {
+    subject: renderTemplate(EMAIL_LAYOUTS.subject, variables).trim(),
+    text,
+    html,
+  };
+}
@@ -0,0 +1,59 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// EMAIL UNSUBSCRIBE — Signed One-Click Unsubscribe Tokens
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Token format: <base64url userId>.<base64url HMAC-SHA256(userId)>
+//
+// Tokens do not expire: an unsubscribe link in an old email must keep working
+// (RFC 8058). Rotating the secret invalidates all outstanding links.
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TOKENS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+function sign(userId: string, secret: string): string {
+  return createHmac('sha256', secret).update(`email-unsubscribe:${userId}`, 'utf8').digest('base64url');
+}
+
+/**
+ * Create an unsubscribe token for a user.
+ */
+export function createUnsubscribeToken(userId: string, secret: string): string {
+  return `${Buffer.from(userId, 'utf8').toString('base64url')}.${sign(userId, secret)}`;
+}
+
+/**
+ * Verify an unsubscribe token and return the user ID, or null if invalid.
+ */
+export function verifyUnsubscribeToken(token: string | undefined, secret: string): string | null {
+  if (!token) {
+    return null;
+  }
+  
+  const [encodedUserId, signature, ...rest] = token.split('.');
+  if (!encodedUserId || !signature || rest.length > 0) {
+    return null;
+  }
+  
+  const userId = Buffer.from(encodedUserId, 'base64url').toString('utf8');
+  const expected = Buffer.from(sign(userId, secret));
+  const provided = Buffer.from(signature);
+  
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+    return null;
+  }
+  return userId;
+}
+
+/**
+ * Build the HTTPS unsubscribe link for a user.
+ */
+export function buildUnsubscribeUrl(baseUrl: string, userId: string, secret: string): string {
+  const url = new URL(baseUrl);
+  url.searchParams.set('token', createUnsubscribeToken(userId, secret));
+  return url.toString();
+}
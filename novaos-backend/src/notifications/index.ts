@@ -15,19 +15,48 @@ export type {
   NotificationTemplate,
   NotificationSummary,
   CreateNotificationRequest,
+  NotificationStreamEvent,
+  NotificationStreamEntry,
+  DigestFrequency,
+  DigestChannel,
+  DigestRunResult,
 } from './types.js';
 
 export {
   NOTIFICATION_TEMPLATES,
   DEFAULT_NOTIFICATION_PREFERENCES,
   PRIORITY_ORDER,
+  DIGEST_CHANNELS,
   comparePriority,
   meetsMinPriority,
+  renderTemplate,
 } from './types.js';
 
 // Store
 export { NotificationStore, getNotificationStore } from './store.js';
 
+// Digests
+export {
+  DEFAULT_DIGEST_HOUR,
+  DEFAULT_DIGEST_DAY,
+  isQuietHours,
+  quietHoursEnd,
+  nextDigestAt,
+  getDeliveryTime,
+  renderDigest,
+  validateDigestSettings,
+} from './digest.js';
+
+// Stream
+export {
+  NotificationStream,
+  getNotificationStream,
+  initNotificationStream,
+  shutdownNotificationStream,
+  type NotificationStreamTransport,
+  type NotificationStreamSender,
+} from './stream.js';
+
 // Service
 export {
   NotificationService,
@@ -37,3 +66,9 @@ export {
   MockPushProvider,
   MockEmailProvider,
 } from './service.js';
+
+// Email
+export * from './email/index.js';
+
+// Web Push
+export * from './push/index.js';
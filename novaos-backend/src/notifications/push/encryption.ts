@@ -0,0 +1,128 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// WEB PUSH ENCRYPTION — aes128gcm Message Encryption (RFC 8291 / RFC 8188)
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Payloads are encrypted to the subscription's `p256dh` key with a fresh
+// ephemeral sender key and salt per message, as a single aes128gcm record:
+//
+//   salt (16) | record size (4) | key id length (1) | sender public key (65)
+//   | AES-128-GCM(payload | 0x02) | tag (16)
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { createCipheriv, createECDH, hkdfSync, randomBytes } from 'crypto';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const RECORD_SIZE = 4096;
+const HEADER_LENGTH = 16 + 4 + 1 + 65;
+const TAG_LENGTH = 16;
+
+/**
+ * Largest plaintext that keeps the encrypted body within the 4096 bytes
+ * every push service must accept (RFC 8030 §7.2).
+ */
+export const MAX_PUSH_PAYLOAD_BYTES = 4096 - HEADER_LENGTH - TAG_LENGTH - 1;
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export interface PushSubscriptionKeys {
+  /** base64url, user agent's P-256 public key */
+  p256dh: string;
+  /** base64url, 16-byte authentication secret */
+  auth: string;
+}
+
+export interface EncryptOptions {
+  /** Fixed salt (tests only) */
+  salt?: Buffer;
+  /** Fixed sender private key (tests only) */
+  senderPrivateKey?: Buffer;
+}
+
+export class PushEncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PushEncryptionError';
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// ENCRYPTION
+// ─────────────────────────────────────────────────────────────────────────────────
+
+function hkdf(salt: Buffer, ikm: Buffer, info: Buffer, length: number): Buffer {
+  return Buffer.from(hkdfSync('sha256', ikm, salt, info, length));
+}
+
+/**
+ * Encrypt a push message body for a subscription.
+ */
+export function encryptPushPayload(
+  payload: Buffer | string,
+  keys: PushSubscriptionKeys,
+  options: EncryptOptions = {}
+): Buffer {
+  const plaintext = typeof payload === 'string' ? Buffer.from(payload, 'utf8') : payload;
+  if (plaintext.length > MAX_PUSH_PAYLOAD_BYTES) {
+    throw new PushEncryptionError(
+      `Payload is ${plaintext.length} bytes; the limit is ${MAX_PUSH_PAYLOAD_BYTES}`
+    );
+  }
+  
+  const userAgentPublicKey = Buffer.from(keys.p256dh, 'base64url');
+  const authSecret = Buffer.from(keys.auth, 'base64url');
+  if (userAgentPublicKey.length !== 65 || userAgentPublicKey[0] !== 0x04) {
+    throw new PushEncryptionError('Invalid p256dh key');
+  }
+  if (authSecret.length !== 16) {
+    throw new PushEncryptionError('Invalid auth secret');
+  }
+  
+  const sender = createECDH('prime256v1');
+  if (options.senderPrivateKey) {
+    sender.setPrivateKey(options.senderPrivateKey);
+  } else {
+    sender.generateKeys();
+  }
+  const senderPublicKey = sender.getPublicKey();
+  
+  let sharedSecret: Buffer;
+  try {
+    sharedSecret = sender.computeSecret(userAgentPublicKey);
+  } catch {
+    throw new PushEncryptionError('Invalid p256dh key');
+  }
+  
+  // RFC 8291 §3.4: combine the ECDH secret with the auth secret
+  const keyInfo = Buffer.concat([
+    Buffer.from('WebPush: info\0', 'utf8'),
+    userAgentPublicKey,
+    senderPublicKey,
+  ]);
+  const ikm = hkdf(authSecret, sharedSecret, keyInfo, 32);
+  
+  // RFC 8188 §2.2: content encryption key and nonce
+  const salt = options.salt ?? randomBytes(16);
+  const contentKey = hkdf(salt, ikm, Buffer.from('Content-Encoding: aes128gcm\0', 'utf8'), 16);
+  const nonce = hkdf(salt, ikm, Buffer.from('Content-Encoding: nonce\0', 'utf8'), 12);
+  
+  const cipher = createCipheriv('aes-128-gcm', contentKey, nonce);
+  const ciphertext = Buffer.concat([
+    cipher.update(Buffer.concat([plaintext, Buffer.from([0x02])])),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+  
+  const header = Buffer.alloc(HEADER_LENGTH);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(senderPublicKey.length, 20);
+  senderPublicKey.copy(header, 21);
+  
+  return Buffer.concat([header, ciphertext]);
+}
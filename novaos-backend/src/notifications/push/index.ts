@@ -0,0 +1,49 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// PUSH MODULE — Web Push Delivery Channel for Notifications
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Provider
+export {
+  WebPushProvider,
+  PushDeliveryError,
+  PUSH_DELIVERY_POLICY,
+  createWebPushProvider,
+  getWebPushProvider,
+  toPushTopic,
+  type PushHttpClient,
+  type PushMessage,
+  type PushSendOptions,
+  type PushSendResult,
+  type PushUrgency,
+  type WebPushProviderConfig,
+  type PushDeliveryErrorCode,
+} from './provider.js';
+
+// Subscriptions
+export {
+  PushSubscriptionStore,
+  getPushSubscriptionStore,
+  validatePushSubscription,
+  subscriptionId,
+  MAX_SUBSCRIPTIONS_PER_USER,
+  type PushSubscriptionInput,
+  type PushSubscriptionRecord,
+} from './subscription-store.js';
+
+// Encryption & VAPID
+export {
+  encryptPushPayload,
+  PushEncryptionError,
+  MAX_PUSH_PAYLOAD_BYTES,
+  type PushSubscriptionKeys,
+} from './encryption.js';
+export {
+  generateVapidKeys,
+  validateVapidKeys,
+  createVapidAuthorization,
+  loadVapidKeys,
+  type VapidKeys,
+} from './vapid.js';
+
+// Spark reminders
+export { PushReminderSender, reminderPriority } from './reminder-sender.js';
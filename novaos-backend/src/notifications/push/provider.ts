@@ -0,0 +1,315 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// WEB PUSH PROVIDER — Push Channel for NotificationService (RFC 8030)
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Each notification is encrypted separately for every device subscription
+// and POSTed to the push service endpoint through the SSRF-guarded client.
+//
+//   201/202   delivered
+//   404/410   subscription gone → pruned
+//   other     failure (counted on the subscription)
+//
+// TTL and Urgency follow the notification priority.
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { createHash } from 'crypto';
+import { getStore, type KeyValueStore } from '../../storage/index.js';
+import { getLogger } from '../../logging/index.js';
+import { loadConfig, type PushConfig } from '../../config/index.js';
+import { createSSRFSafeClient } from '../../security/ssrf/client.js';
+import type { Notification, NotificationPriority } from '../types.js';
+import type { PushProvider } from '../service.js';
+import { encryptPushPayload } from './encryption.js';
+import { createVapidAuthorization, loadVapidKeys, type VapidKeys } from './vapid.js';
+import { PushSubscriptionStore, type PushSubscriptionRecord } from './subscription-store.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export type PushUrgency = 'very-low' | 'low' | 'normal' | 'high';
+
+/**
+ * Minimal HTTP client contract (satisfied by SSRFSafeClient).
+ */
+export interface PushHttpClient {
+  post(
+    url: string,
+    body: Buffer | string,
+    headers?: Record<string, string>
+  ): Promise<{ statusCode: number; body: Buffer }>;
+}
+
+/**
+ * JSON payload delivered to the service worker's `push` event.
+ */
+export interface PushMessage {
+  title: string;
+  body: string;
+  icon?: string;
+  /** Replaces an earlier notification with the same tag on the device */
+  tag?: string;
+  url?: string;
+  data?: Record<string, unknown>;
+}
+
+export interface PushSendOptions {
+  priority?: NotificationPriority;
+  /** Overrides the priority-based TTL */
+  ttlSeconds?: number;
+  /** Collapses undelivered messages with the same topic at the push service */
+  topic?: string;
+}
+
+export interface PushSendResult {
+  attempted: number;
+  delivered: number;
+  pruned: number;
+  failed: number;
+}
+
+export interface WebPushProviderConfig {
+  /** Contact URI sent in the VAPID JWT (`mailto:` or `https:`) */
+  subject: string;
+  vapidPublicKey?: string;
+  vapidPrivateKey?: string;
+  /** Generate and persist keys when none are configured (non-production) */
+  generateKeys: boolean;
+  requestTimeoutMs?: number;
+  
+  store?: KeyValueStore;
+  subscriptions?: PushSubscriptionStore;
+  httpClient?: PushHttpClient;
+}
+
+export type PushDeliveryErrorCode = 'NOT_CONFIGURED' | 'NO_SUBSCRIPTIONS' | 'FAILED';
+
+export class PushDeliveryError extends Error {
+  constructor(
+    message: string,
+    public readonly code: PushDeliveryErrorCode,
+    public readonly result?: PushSendResult
+  ) {
+    super(message);
+    this.name = 'PushDeliveryError';
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// PRIORITY MAPPING
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * TTL and Urgency per priority. Low-priority pushes may wait for the device
+ * to be on power/Wi-Fi; urgent ones are pointless after an hour.
+ */
+export const PUSH_DELIVERY_POLICY: Record<NotificationPriority, { ttlSeconds: number; urgency: PushUrgency }> = {
+  low: { ttlSeconds: 24 * 60 * 60, urgency: 'low' },
+  medium: { ttlSeconds: 12 * 60 * 60, urgency: 'normal' },
+  high: { ttlSeconds: 4 * 60 * 60, urgency: 'high' },
+  urgent: { ttlSeconds: 60 * 60, urgency: 'high' },
+};
+
+/**
+ * Topic header value: at most 32 base64url characters.
+ */
+export function toPushTopic(key: string): string {
+  return createHash('sha256').update(key).digest('base64url').slice(0, 32);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// PROVIDER
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export class WebPushProvider implements PushProvider {
+  private readonly config: WebPushProviderConfig;
+  private readonly store: KeyValueStore;
+  private readonly subscriptions: PushSubscriptionStore;
+  private readonly httpClient: PushHttpClient;
+  private readonly logger = getLogger({ component: 'web-push' });
+  private keysPromise: Promise<VapidKeys | null> | null = null;
+  
+  constructor(config: WebPushProviderConfig) {
+    this.config = config;
+    this.store = config.store ?? getStore();
+    this.subscriptions = config.subscriptions ?? new PushSubscriptionStore(this.store);
+    this.httpClient = config.httpClient ?? createSSRFSafeClient({
+      followRedirects: false,
+      requestTimeoutMs: config.requestTimeoutMs ?? 10000,
+    });
+  }
+  
+  /**
+   * Public key for clients to pass as `applicationServerKey`.
+   */
+  async getPublicKey(): Promise<string | null> {
+    return (await this.getKeys())?.publicKey ?? null;
+  }
+  
+  private getKeys(): Promise<VapidKeys | null> {
+    if (!this.keysPromise) {
+      this.keysPromise = loadVapidKeys(
+        { publicKey: this.config.vapidPublicKey, privateKey: this.config.vapidPrivateKey },
+        this.store,
+        { allowGenerate: this.config.generateKeys }
+      );
+    }
+    return this.keysPromise;
+  }
+  
+  // ═══════════════════════════════════════════════════════════════════════════════
+  // DELIVERY
+  // ═══════════════════════════════════════════════════════════════════════════════
+  
+  /**
+   * Deliver a notification to all of the user's devices.
+   * Throws unless at least one device accepted it.
+   */
+  async send(notification: Notification): Promise<void> {
+    const ttlSeconds = notification.expiresAt
+      ? Math.max(0, Math.floor((Date.parse(notification.expiresAt) - Date.now()) / 1000))
+      : undefined;
+    
+    const result = await this.sendToUser(notification.userId, {
+      title: notification.title,
+      body: notification.body,
+      icon: notification.icon,
+      tag: notification.correlationId ?? notification.id,
+      url: notification.action?.url,
+      data: {
+        notificationId: notification.id,
+        type: notification.type,
+        correlationId: notification.correlationId,
+      },
+    }, {
+      priority: notification.priority,
+      ttlSeconds: ttlSeconds === undefined
+        ? undefined
+        : Math.min(ttlSeconds, PUSH_DELIVERY_POLICY[notification.priority].ttlSeconds),
+      topic: notification.correlationId
+        ? toPushTopic(`${notification.type}:${notification.correlationId}`)
+        : undefined,
+    });
+    
+    if (result.attempted === 0) {
+      throw new PushDeliveryError('No push subscriptions for user', 'NO_SUBSCRIPTIONS', result);
+    }
+    if (result.delivered === 0) {
+      throw new PushDeliveryError('Push delivery failed on all devices', 'FAILED', result);
+    }
+  }
+  
+  /**
+   * Send a message to every subscription of a user.
+   */
+  async sendToUser(userId: string, message: PushMessage, options: PushSendOptions = {}): Promise<PushSendResult> {
+    const keys = await this.getKeys();
+    if (!keys) {
+      throw new PushDeliveryError('Web push is not configured', 'NOT_CONFIGURED');
+    }
+    
+    const policy = PUSH_DELIVERY_POLICY[options.priority ?? 'medium'];
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/octet-stream',
+      'Content-Encoding': 'aes128gcm',
+      TTL: String(options.ttlSeconds ?? policy.ttlSeconds),
+      Urgency: policy.urgency,
+    };
+    if (options.topic) {
+      headers.Topic = options.topic;
+    }
+    
+    const payload = JSON.stringify(message);
+    const subscriptions = await this.subscriptions.list(userId);
+    const result: PushSendResult = { attempted: subscriptions.length, delivered: 0, pruned: 0, failed: 0 };
+    
+    for (const subscription of subscriptions) {
+      const outcome = await this.deliver(subscription, payload, headers, keys);
+      result[outcome]++;
+    }
+    
+    this.logger.info('Push notification sent', { userId, ...result });
+    return result;
+  }
+  
+  private async deliver(
+    subscription: PushSubscriptionRecord,
+    payload: string,
+    headers: Record<string, string>,
+    keys: VapidKeys
+  ): Promise<'delivered' | 'pruned' | 'failed'> {
+    const { userId, id } = subscription;
+    
+    try {
+      const response = await this.httpClient.post(
+        subscription.endpoint,
+        encryptPushPayload(payload, subscription.keys),
+        {
+          ...headers,
+          Authorization: createVapidAuthorization(subscription.endpoint, keys, this.config.subject),
+        }
+      );
+      
+      if (response.statusCode >= 200 && response.statusCode < 300) {
+        await this.subscriptions.recordResult(userId, id, true);
+        return 'delivered';
+      }
+      
+      if (response.statusCode === 404 || response.statusCode === 410) {
+        await this.subscriptions.remove(userId, id);
+        this.logger.info('Pruned expired push subscription', { userId, subscriptionId: id });
+        return 'pruned';
+      }
+      
+      this.logger.warn('Push service rejected message', {
+        userId,
+        subscriptionId: id,
+        statusCode: response.statusCode,
+        response: response.body.toString('utf8').slice(0, 200),
+      });
+    } catch (error) {
+      this.logger.warn('Push delivery error', {
+        userId,
+        subscriptionId: id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    
+    await this.subscriptions.recordResult(userId, id, false);
+    return 'failed';
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// FACTORY & SINGLETON
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Create the provider from environment config, or null when push is disabled.
+ */
+export function createWebPushProvider(config: PushConfig): WebPushProvider | null {
+  if (!config.enabled) {
+    return null;
+  }
+  
+  return new WebPushProvider({
+    subject: config.vapidSubject,
+    vapidPublicKey: config.vapidPublicKey,
+    vapidPrivateKey: config.vapidPrivateKey,
+    generateKeys: config.generateDevKeys,
+    requestTimeoutMs: config.requestTimeoutMs,
+  });
+}
+
+let webPushProvider: WebPushProvider | null | undefined;
+
+/**
+ * Shared provider used by the notification service and push routes.
+ */
+export function getWebPushProvider(): WebPushProvider | null {
+  if (webPushProvider === undefined) {
+    webPushProvider = createWebPushProvider(loadConfig().push);
+  }
+  return webPushProvider;
+}
@@ -0,0 +1,70 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// PUSH REMINDER SENDER — Spark Reminders over Web Push
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Adapts WebPushProvider to the reminder service's INotificationSender so
+// reminders and their escalations reach the user's registered devices.
+// Priority (and therefore TTL/Urgency) rises with the escalation level.
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type { UserId } from '../../types/branded.js';
+import type { INotificationSender } from '../../services/spark-engine/reminder-service/service.js';
+import type { NotificationPriority } from '../types.js';
+import { PushDeliveryError, toPushTopic, type WebPushProvider } from './provider.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// PRIORITY MAPPING
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Level 0 is the first nudge; level 3 is the last-chance reminder.
+ */
+export function reminderPriority(escalationLevel: number): NotificationPriority {
+  if (escalationLevel >= 3) return 'urgent';
+  if (escalationLevel >= 1) return 'high';
+  return 'medium';
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SENDER
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export class PushReminderSender implements INotificationSender {
+  constructor(
+    private readonly provider: WebPushProvider,
+    private readonly title: string = 'Spark reminder'
+  ) {}
+  
+  async sendPush(userId: UserId, message: string, data?: Record<string, unknown>): Promise<boolean> {
+    const escalationLevel = typeof data?.escalationLevel === 'number' ? data.escalationLevel : 0;
+    const sparkId = typeof data?.sparkId === 'string' ? data.sparkId : undefined;
+    
+    try {
+      const result = await this.provider.sendToUser(userId, {
+        title: this.title,
+        body: message,
+        // A newer reminder for the same spark replaces the older one on the device
+        tag: sparkId ? `spark-reminder:${sparkId}` : undefined,
+        data: { ...data, type: 'spark_reminder' },
+      }, {
+        priority: reminderPriority(escalationLevel),
+        topic: sparkId ? toPushTopic(`spark_reminder:${sparkId}`) : undefined,
+      });
+      return result.delivered > 0;
+    } catch (error) {
+      if (error instanceof PushDeliveryError) {
+        return false;
+      }
+      throw error;
+    }
+  }
+  
+  async sendEmail(_userId: UserId, _subject: string, _body: string): Promise<boolean> {
+    return false;
+  }
+  
+  async sendSms(_userId: UserId, _message: string): Promise<boolean> {
+    return false;
+  }
+}
@@ -0,0 +1,202 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// PUSH SUBSCRIPTION STORE — Per-User Web Push Device Subscriptions
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { createHash } from 'crypto';
+import { getStore, type KeyValueStore } from '../../storage/index.js';
+import type { PushSubscriptionKeys } from './encryption.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * A browser PushSubscription as sent by `subscription.toJSON()`.
+ */
+export interface PushSubscriptionInput {
+  endpoint: string;
+  expirationTime?: number | null;
+  keys: PushSubscriptionKeys;
+}
+
+export interface PushSubscriptionRecord {
+  /** Stable ID derived from the endpoint */
+  id: string;
+  userId: string;
+  endpoint: string;
+  keys: PushSubscriptionKeys;
+  expirationTime?: number;
+  
+  /** Optional label shown in device lists */
+  userAgent?: string;
+  
+  createdAt: string;
+  lastSuccessAt?: string;
+  failureCount: number;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONSTANTS & KEYS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const SUBSCRIPTION_TTL = 365 * 24 * 60 * 60;  // 1 year
+export const MAX_SUBSCRIPTIONS_PER_USER = 10;
+
+function subscriptionsKey(userId: string): string {
+  return `notification:user:${userId}:push:subscriptions`;
+}
+
+export function subscriptionId(endpoint: string): string {
+  return `psub_${createHash('sha256').update(endpoint).digest('hex').slice(0, 16)}`;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// VALIDATION
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Validate a subscription from a client. Returns an error message or null.
+ */
+export function validatePushSubscription(input: unknown): string | null {
+  if (!input || typeof input !== 'object') {
+    return 'Subscription is required';
+  }
+  
+  const { endpoint, keys } = input as Partial<PushSubscriptionInput>;
+  
+  if (typeof endpoint !== 'string' || endpoint.length > 2048) {
+    return 'endpoint must be a URL';
+  }
+  try {
+    if (new URL(endpoint).protocol !== 'https:') {
+      return 'endpoint must use https';
+    }
+  } catch {
+    return 'endpoint must be a URL';
+  }
+  
+  if (!keys || typeof keys.p256dh !== 'string' || typeof keys.auth !== 'string') {
+    return 'keys.p256dh and keys.auth are required';
+  }
+  
+  const p256dh = Buffer.from(keys.p256dh, 'base64url');
+  if (p256dh.length !== 65 || p256dh[0] !== 0x04) {
+    return 'keys.p256dh must be an uncompressed P-256 public key';
+  }
+  if (Buffer.from(keys.auth, 'base64url').length !== 16) {
+    return 'keys.auth must be 16 bytes';
+  }
+  
+  return null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// STORE
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export class PushSubscriptionStore {
+  private store: KeyValueStore;
+  
+  constructor(store?: KeyValueStore) {
+    this.store = store ?? getStore();
+  }
+  
+  /**
+   * Add or refresh a subscription. Re-subscribing the same endpoint updates
+   * its keys; beyond MAX_SUBSCRIPTIONS_PER_USER the oldest is dropped.
+   */
+  async save(
+    userId: string,
+    input: PushSubscriptionInput,
+    userAgent?: string
+  ): Promise<PushSubscriptionRecord> {
+    const id = subscriptionId(input.endpoint);
+    const existing = await this.get(userId, id);
+    
+    const record: PushSubscriptionRecord = {
+      id,
+      userId,
+      endpoint: input.endpoint,
+      keys: { p256dh: input.keys.p256dh, auth: input.keys.auth },
+      expirationTime: input.expirationTime ?? undefined,
+      userAgent: userAgent?.slice(0, 200),
+      createdAt: existing?.createdAt ?? new Date().toISOString(),
+      lastSuccessAt: existing?.lastSuccessAt,
+      failureCount: 0,
+    };
+    
+    await this.store.hset(subscriptionsKey(userId), id, JSON.stringify(record));
+    await this.store.expire(subscriptionsKey(userId), SUBSCRIPTION_TTL);
+    
+    const all = await this.list(userId);
+    if (all.length > MAX_SUBSCRIPTIONS_PER_USER) {
+      const oldest = all.slice(0, all.length - MAX_SUBSCRIPTIONS_PER_USER);
+      for (const stale of oldest) {
+        await this.remove(userId, stale.id);
+      }
+    }
+    
+    return record;
+  }
+  
+  async get(userId: string, id: string): Promise<PushSubscriptionRecord | null> {
+    const data = await this.store.hget(subscriptionsKey(userId), id);
+    return data ? JSON.parse(data) : null;
+  }
+  
+  /**
+   * List a user's subscriptions, oldest first. Expired ones are dropped.
+   */
+  async list(userId: string): Promise<PushSubscriptionRecord[]> {
+    const all = await this.store.hgetall(subscriptionsKey(userId));
+    if (!all) {
+      return [];
+    }
+    
+    const now = Date.now();
+    const records: PushSubscriptionRecord[] = [];
+    for (const data of Object.values(all)) {
+      const record = JSON.parse(data) as PushSubscriptionRecord;
+      if (record.expirationTime && record.expirationTime <= now) {
+        await this.remove(userId, record.id);
+        continue;
+      }
+      records.push(record);
+    }
+    
+    return records.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+  
+  async remove(userId: string, id: string): Promise<boolean> {
+    return this.store.hdel(subscriptionsKey(userId), id);
+  }
+  
+  /**
+   * Record the outcome of a delivery attempt.
+   */
+  async recordResult(userId: string, id: string, success: boolean): Promise<void> {
+    const record = await this.get(userId, id);
+    if (!record) {
+      return;
+    }
+    
+    const updated: PushSubscriptionRecord = success
+      ? { ...record, lastSuccessAt: new Date().toISOString(), failureCount: 0 }
+      : { ...record, failureCount: record.failureCount + 1 };
+    
+    await this.store.hset(subscriptionsKey(userId), id, JSON.stringify(updated));
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SINGLETON
+// ─────────────────────────────────────────────────────────────────────────────────
+
+let pushSubscriptionStore: PushSubscriptionStore | null = null;
+
+export function getPushSubscriptionStore(): PushSubscriptionStore {
+  if (!pushSubscriptionStore) {
+    pushSubscriptionStore = new PushSubscriptionStore();
+  }
+  return pushSubscriptionStore;
+}
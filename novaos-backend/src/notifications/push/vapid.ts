@@ -0,0 +1,165 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// VAPID — Voluntary Application Server Identification (RFC 8292)
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Keys are P-256 pairs in the format browsers expect for
+// `applicationServerKey`: base64url of the 65-byte uncompressed public point
+// and of the 32-byte private scalar (the same format as the web-push CLI).
+//
+// Each push request carries:
+//
+//   Authorization: vapid t=<ES256 JWT {aud, exp, sub}>, k=<public key>
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { createECDH, createPrivateKey, sign, type KeyObject } from 'crypto';
+import type { KeyValueStore } from '../../storage/index.js';
+import { getLogger } from '../../logging/index.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export interface VapidKeys {
+  /** base64url, 65-byte uncompressed P-256 point */
+  publicKey: string;
+  /** base64url, 32-byte private scalar */
+  privateKey: string;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/** RFC 8292 caps the token lifetime at 24 hours */
+const MAX_TOKEN_TTL_SECONDS = 24 * 60 * 60;
+const DEFAULT_TOKEN_TTL_SECONDS = 12 * 60 * 60;
+
+const VAPID_KEYS_STORE_KEY = 'notification:push:vapid-keys';
+
+const logger = getLogger({ component: 'vapid' });
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// KEY GENERATION & VALIDATION
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Generate a new VAPID key pair.
+ */
+export function generateVapidKeys(): VapidKeys {
+  const ecdh = createECDH('prime256v1');
+  ecdh.generateKeys();
+  return {
+    publicKey: ecdh.getPublicKey().toString('base64url'),
+    privateKey: ecdh.getPrivateKey().toString('base64url'),
+  };
+}
+
+/**
+ * Check that both keys decode to the right lengths and belong together.
+ */
+export function validateVapidKeys(keys: VapidKeys): boolean {
+  try {
+    const publicKey = Buffer.from(keys.publicKey, 'base64url');
+    const privateKey = Buffer.from(keys.privateKey, 'base64url');
+    if (publicKey.length !== 65 || publicKey[0] !== 0x04 || privateKey.length !== 32) {
+      return false;
+    }
+    
+    const ecdh = createECDH('prime256v1');
+    ecdh.setPrivateKey(privateKey);
+    return ecdh.getPublicKey().equals(publicKey);
+  } catch {
+    return false;
+  }
+}
+
+function toSigningKey(keys: VapidKeys): KeyObject {
+  const publicKey = Buffer.from(keys.publicKey, 'base64url');
+  return createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: keys.privateKey,
+      x: publicKey.subarray(1, 33).toString('base64url'),
+      y: publicKey.subarray(33, 65).toString('base64url'),
+    },
+    format: 'jwk',
+  });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// AUTHORIZATION HEADER
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Build the `Authorization` header for a push request to `endpoint`.
+ *
+ * @param subject - Contact URI for the push service (`mailto:` or `https:`)
+ */
+export function createVapidAuthorization(
+  endpoint: string,
+  keys: VapidKeys,
+  subject: string,
+  ttlSeconds: number = DEFAULT_TOKEN_TTL_SECONDS
+): string {
+  const audience = new URL(endpoint).origin;
+  const expiresAt = Math.floor(Date.now() / 1000) + Math.min(ttlSeconds, MAX_TOKEN_TTL_SECONDS);
+  
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const unsigned = `${encode({ typ: 'JWT', alg: 'ES256' })}.${encode({ aud: audience, exp: expiresAt, sub: subject })}`;
+  
+  // JWS ES256 uses the raw r||s signature, not DER
+  const signature = sign('sha256', Buffer.from(unsigned), {
+    key: toSigningKey(keys),
+    dsaEncoding: 'ieee-p1363',
+  }).toString('base64url');
+  
+  return `vapid t=${unsigned}.${signature}, k=${keys.publicKey}`;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// KEY MANAGEMENT
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Resolve the VAPID keys to use.
+ *
+ * Configured keys always win. Without them, outside production a key pair is
+ * generated once and persisted so browser subscriptions (which are bound to
+ * the public key) survive restarts. In production missing keys disable push.
+ */
+export async function loadVapidKeys(
+  configured: Partial<VapidKeys>,
+  store: KeyValueStore,
+  options: { allowGenerate: boolean }
+): Promise<VapidKeys | null> {
+  if (configured.publicKey && configured.privateKey) {
+    const keys = { publicKey: configured.publicKey, privateKey: configured.privateKey };
+    if (!validateVapidKeys(keys)) {
+      logger.error('Configured VAPID keys are invalid; web push disabled');
+      return null;
+    }
+    return keys;
+  }
+  
+  if (!options.allowGenerate) {
+    logger.warn('VAPID keys not configured; web push disabled');
+    return null;
+  }
+  
+  const stored = await store.get(VAPID_KEYS_STORE_KEY);
+  if (stored) {
+    const keys = JSON.parse(stored) as VapidKeys;
+    if (validateVapidKeys(keys)) {
+      return keys;
+    }
+  }
+  
+  const keys = generateVapidKeys();
+  await store.set(VAPID_KEYS_STORE_KEY, JSON.stringify(keys));
+  logger.warn('Generated development VAPID keys; set VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY in production', {
+    publicKey: keys.publicKey,
+  });
+  return keys;
+}
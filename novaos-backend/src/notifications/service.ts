@@ -11,9 +11,16 @@ import type {
   NotificationPreferences,
   CreateNotificationRequest,
   NotificationAction,
+  DigestChannel,
+  DigestRunResult,
 } from './types.js';
-import { NOTIFICATION_TEMPLATES, meetsMinPriority } from './types.js';
+import { NOTIFICATION_TEMPLATES, meetsMinPriority, renderTemplate } from './types.js';
+import { DIGEST_RETRY_DELAY_MS, getDeliveryTime, isQuietHours, quietHoursEnd, renderDigest } from './digest.js';
 import { getLogger } from '../logging/index.js';
+import { getMemoryStore } from '../core/memory/store.js';
+import { loadConfig } from '../config/index.js';
+import { createEmailProvider } from './email/provider.js';
+import { getWebPushProvider } from './push/provider.js';
 
 // ─────────────────────────────────────────────────────────────────────────────────
 // LOGGER
@@ -29,17 +36,21 @@ export class NotificationService {
   private store: NotificationStore;
   private pushProvider: PushProvider | null = null;
   private emailProvider: EmailProvider | null = null;
+  private resolveTimezone: (userId: string) => Promise<string | null>;
   
   constructor(
     store?: NotificationStore,
     options?: {
       pushProvider?: PushProvider;
       emailProvider?: EmailProvider;
+      /** Timezone for quiet hours and digest times; defaults to the user's profile */
+      resolveTimezone?: (userId: string) => Promise<string | null>;
     }
   ) {
     this.store = store ?? getNotificationStore();
     this.pushProvider = options?.pushProvider ?? null;
     this.emailProvider = options?.emailProvider ?? null;
+    this.resolveTimezone = options?.resolveTimezone ?? (userId => getMemoryStore().getTimezone(userId));
   }
   
   // ═══════════════════════════════════════════════════════════════════════════════
@@ -66,16 +77,6 @@ export class NotificationService {
       throw new Error(`Notification type ${request.type} disabled`);
     }
     
-    // Check quiet hours
-    if (preferences.quietHoursEnabled && this.isQuietHours(preferences)) {
-      // During quiet hours, only deliver urgent notifications
-      if (request.priority !== 'urgent') {
-        logger.debug('Notification blocked by quiet hours', { userId, type: request.type });
-        // Still create the notification, but don't deliver via push/email
-        request.channels = ['in_app'];
-      }
-    }
-    
     // Apply type-specific overrides
     if (typeSettings?.priority) {
       request.priority = typeSettings.priority;
@@ -94,7 +95,7 @@ export class NotificationService {
       priority: notification.priority,
     });
     
-    // Deliver to channels
+    // Deliver to channels, or hold for a digest or the end of quiet hours
     await this.deliverToChannels(notification, preferences);
     
     return notification;
@@ -118,8 +119,8 @@ export class NotificationService {
     const template = NOTIFICATION_TEMPLATES[type];
     
     // Substitute variables
-    const title = this.substituteVariables(template.titleTemplate, variables);
-    const body = this.substituteVariables(template.bodyTemplate, variables);
+    const title = renderTemplate(template.titleTemplate, variables);
+    const body = renderTemplate(template.bodyTemplate, variables);
     
     return this.notify(userId, {
       type,
@@ -135,10 +136,6 @@ export class NotificationService {
     });
   }
   
-  private substituteVariables(template: string, variables: Record<string, string>): string {
-    return template.replace(/\{\{(\w+)\}\}/g, (_, key) => variables[key] ?? `{{${key}}}`);
-  }
-  
   // ═══════════════════════════════════════════════════════════════════════════════
   // DELIVERY
   // ═══════════════════════════════════════════════════════════════════════════════
@@ -148,6 +145,8 @@ export class NotificationService {
     preferences: NotificationPreferences
   ): Promise<void> {
     const channels = notification.channels;
+    const now = new Date();
+    const timezone = await this.getTimezone(notification.userId);
     
     for (const channel of channels) {
       const channelSettings = preferences.channelSettings[channel];
@@ -160,6 +159,17 @@ export class NotificationService {
       }
       
       try {
+        const dueAt = getDeliveryTime(preferences, channel, notification.priority, now, timezone);
+        if (dueAt) {
+          logger.debug('Notification held for digest', {
+            notificationId: notification.id,
+            channel,
+            dueAt: dueAt.toISOString(),
+          });
+          await this.store.queueForDigest(notification.userId, channel as DigestChannel, notification.id, dueAt);
+          continue;
+        }
+        
         await this.deliverToChannel(notification, channel);
         await this.store.markAsDelivered(notification.id, channel);
       } catch (error) {
@@ -172,13 +182,27 @@ export class NotificationService {
     }
   }
   
+  /**
+   * The user's timezone, or undefined for the server's when it is unset or
+   * cannot be looked up.
+   */
+  private async getTimezone(userId: string): Promise<string | undefined> {
+    try {
+      return (await this.resolveTimezone(userId)) ?? undefined;
+    } catch (error) {
+      logger.warn('Failed to resolve user timezone', {
+        userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+  
   private async deliverToChannel(notification: Notification, channel: NotificationChannel): Promise<void> {
     switch (channel) {
       case 'in_app':
-        // In-app is handled by polling/SSE, nothing to do
-        logger.debug('Notification ready for in-app delivery', { 
-          notificationId: notification.id 
-        });
+        // Listed by /notifications and pushed to open /notifications/stream clients
+        await this.store.publishNotification(notification);
         break;
         
       case 'push':
@@ -196,35 +220,79 @@ export class NotificationService {
   }
   
   // ═══════════════════════════════════════════════════════════════════════════════
-  // QUIET HOURS
+  // DIGESTS
   // ═══════════════════════════════════════════════════════════════════════════════
   
-  private isQuietHours(preferences: NotificationPreferences): boolean {
-    if (!preferences.quietHoursStart || !preferences.quietHoursEnd) {
-      return false;
-    }
-    
-    const now = new Date();
-    const currentMinutes = now.getHours() * 60 + now.getMinutes();
-    
-    const startParts = preferences.quietHoursStart.split(':').map(Number);
-    const endParts = preferences.quietHoursEnd.split(':').map(Number);
-    
-    const startHour = startParts[0] ?? 0;
-    const startMin = startParts[1] ?? 0;
-    const endHour = endParts[0] ?? 0;
-    const endMin = endParts[1] ?? 0;
-    
-    const startMinutes = startHour * 60 + startMin;
-    const endMinutes = endHour * 60 + endMin;
+  /**
+   * Send every digest queue that has come due. Notifications already read or
+   * dismissed in-app are left out, and a queue whose channel has since been
+   * turned off is dropped. Queues due during quiet hours wait for them to end,
+   * and a queue that fails to send is kept and tried again later.
+   */
+  async sendDueDigests(at: Date = new Date()): Promise<DigestRunResult> {
+    const result: DigestRunResult = {
+      checked: 0,
+      sent: 0,
+      notificationsSent: 0,
+      deferred: 0,
+      skipped: 0,
+      failed: 0,
+    };
     
-    if (startMinutes <= endMinutes) {
-      // Normal range (e.g., 22:00 to 07:00 next day doesn't apply here)
-      return currentMinutes >= startMinutes && currentMinutes < endMinutes;
-    } else {
-      // Overnight range (e.g., 22:00 to 07:00)
-      return currentMinutes >= startMinutes || currentMinutes < endMinutes;
+    for (const { userId, channel } of await this.store.getDueDigests(at)) {
+      result.checked++;
+      
+      const preferences = await this.store.getPreferences(userId);
+      const timezone = await this.getTimezone(userId);
+      if (isQuietHours(preferences, at, timezone)) {
+        await this.store.rescheduleDigest(userId, channel, quietHoursEnd(preferences, at, timezone));
+        result.deferred++;
+        continue;
+      }
+      
+      const ids = await this.store.getDigest(userId, channel);
+      const notifications: Notification[] = [];
+      for (const id of ids) {
+        const notification = await this.store.getNotification(id);
+        if (notification && !notification.read && !notification.dismissed) {
+          notifications.push(notification);
+        }
+      }
+      
+      const settings = preferences.channelSettings[channel];
+      if (notifications.length === 0 || !preferences.enabled || !settings?.enabled) {
+        await this.store.clearDigest(userId, channel, ids.length);
+        result.skipped++;
+        continue;
+      }
+      
+      const frequency = settings.digest ?? 'immediate';
+      
+      // A lone notification held through quiet hours goes out as itself
+      const message = notifications.length === 1 && frequency === 'immediate'
+        ? notifications[0]!
+        : renderDigest(userId, channel, frequency, notifications, at);
+      
+      try {
+        await this.deliverToChannel(message, channel);
+        for (const notification of notifications) {
+          await this.store.markAsDelivered(notification.id, channel);
+        }
+        await this.store.clearDigest(userId, channel, ids.length);
+        result.sent++;
+        result.notificationsSent += notifications.length;
+      } catch (error) {
+        await this.store.rescheduleDigest(userId, channel, new Date(at.getTime() + DIGEST_RETRY_DELAY_MS));
+        result.failed++;
+        logger.error(
+          `Failed to deliver notification digest via ${channel}`,
+          error instanceof Error ? error : new Error(String(error)),
+          { userId, channel, count: notifications.length }
+        );
+      }
     }
+    
+    return result;
   }
   
   // ═══════════════════════════════════════════════════════════════════════════════
@@ -400,7 +468,12 @@ let notificationService: NotificationService | null = null;
 
 export function getNotificationService(): NotificationService {
   if (!notificationService) {
-    notificationService = new NotificationService();
+    const emailProvider = createEmailProvider(loadConfig().email);
+    const pushProvider = getWebPushProvider();
+    notificationService = new NotificationService(undefined, {
+      pushProvider: pushProvider ?? undefined,
+      emailProvider: emailProvider ?? undefined,
+    });
   }
   return notificationService;
 }
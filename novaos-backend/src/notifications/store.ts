@@ -10,8 +10,11 @@ import type {
   NotificationPreferences,
   NotificationSummary,
   CreateNotificationRequest,
+  NotificationStreamEvent,
+  DigestChannel,
 } from './types.js';
 import { NOTIFICATION_TEMPLATES, PRIORITY_ORDER, DEFAULT_NOTIFICATION_PREFERENCES } from './types.js';
+import { getNotificationStream, type NotificationStream } from './stream.js';
 
 // ─────────────────────────────────────────────────────────────────────────────────
 // CONSTANTS
@@ -42,6 +45,17 @@ function preferencesKey(userId: string): string {
   return `notification:user:${userId}:preferences`;
 }
 
+function digestQueueKey(userId: string, channel: DigestChannel): string {
+  return `notification:user:${userId}:digest:${channel}`;
+}
+
+function digestDueKey(userId: string, channel: DigestChannel): string {
+  return `notification:user:${userId}:digest:${channel}:due`;
+}
+
+// Members are "channel:userId"; user ids may themselves contain colons
+const DIGEST_PENDING_KEY = 'notification:digests:pending';
+
 function generateId(): string {
   return `ntf_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
 }
@@ -52,9 +66,11 @@ function generateId(): string {
 
 export class NotificationStore {
   private store: KeyValueStore;
+  private stream: NotificationStream | null;
   
-  constructor(store?: KeyValueStore) {
+  constructor(store?: KeyValueStore, stream?: NotificationStream) {
     this.store = store ?? getStore();
+    this.stream = stream ?? null;
   }
   
   // ═══════════════════════════════════════════════════════════════════════════════
@@ -174,6 +190,8 @@ export class NotificationStore {
       await this.store.lpush(userNotificationsKey(userId), fid);
     }
     
+    await this.publishChange(userId, 'deleted', [id]);
+    
     return true;
   }
   
@@ -197,12 +215,14 @@ export class NotificationStore {
     await this.store.set(notificationKey(id), JSON.stringify(notification), NOTIFICATION_TTL);
     await this.store.srem(userUnreadKey(userId), id);
     
+    await this.publishChange(userId, 'read', [id]);
+    
     return true;
   }
   
   async markAllAsRead(userId: string): Promise<number> {
     const unreadIds = await this.store.smembers(userUnreadKey(userId));
-    let count = 0;
+    const readIds: string[] = [];
     
     for (const id of unreadIds) {
       const notification = await this.getNotification(id);
@@ -210,14 +230,18 @@ export class NotificationStore {
         notification.read = true;
         notification.readAt = new Date().toISOString();
         await this.store.set(notificationKey(id), JSON.stringify(notification), NOTIFICATION_TTL);
-        count++;
+        readIds.push(id);
       }
     }
     
     // Clear unread set
     await this.store.delete(userUnreadKey(userId));
     
-    return count;
+    if (readIds.length > 0) {
+      await this.publishChange(userId, 'read', readIds);
+    }
+    
+    return readIds.length;
   }
   
   async dismiss(id: string, userId: string): Promise<boolean> {
@@ -234,12 +258,14 @@ export class NotificationStore {
     await this.store.set(notificationKey(id), JSON.stringify(notification), NOTIFICATION_TTL);
     await this.store.srem(userUnreadKey(userId), id);
     
+    await this.publishChange(userId, 'dismissed', [id]);
+    
     return true;
   }
   
   async dismissAll(userId: string): Promise<number> {
     const ids = await this.store.lrange(userNotificationsKey(userId), 0, -1);
-    let count = 0;
+    const dismissedIds: string[] = [];
     const now = new Date().toISOString();
     
     for (const id of ids) {
@@ -250,13 +276,50 @@ export class NotificationStore {
         notification.read = true;
         notification.readAt = notification.readAt ?? now;
         await this.store.set(notificationKey(id), JSON.stringify(notification), NOTIFICATION_TTL);
-        count++;
+        dismissedIds.push(id);
       }
     }
     
     await this.store.delete(userUnreadKey(userId));
     
-    return count;
+    if (dismissedIds.length > 0) {
+      await this.publishChange(userId, 'dismissed', dismissedIds);
+    }
+    
+    return dismissedIds.length;
+  }
+  
+  // ═══════════════════════════════════════════════════════════════════════════════
+  // STREAM
+  // ═══════════════════════════════════════════════════════════════════════════════
+  
+  /**
+   * Push a change to the user's open notification streams, with the new
+   * unread count for the badge.
+   */
+  async publishChange(
+    userId: string,
+    type: 'read' | 'dismissed' | 'deleted',
+    ids: string[]
+  ): Promise<void> {
+    const event: NotificationStreamEvent = { type, ids, unread: await this.getUnreadCount(userId) };
+    await this.getStream().publish(userId, event);
+  }
+  
+  /**
+   * Push a notification delivered to the in-app channel.
+   */
+  async publishNotification(notification: Notification): Promise<void> {
+    await this.getStream().publish(notification.userId, {
+      type: 'notification',
+      notification,
+      unread: await this.getUnreadCount(notification.userId),
+    });
+  }
+  
+  private getStream(): NotificationStream {
+    // Resolved per call so a stream set up at startup replaces the default
+    return this.stream ?? getNotificationStream();
   }
   
   // ═══════════════════════════════════════════════════════════════════════════════
@@ -345,6 +408,88 @@ export class NotificationStore {
     return updated;
   }
   
+  // ═══════════════════════════════════════════════════════════════════════════════
+  // DIGEST QUEUE
+  // ═══════════════════════════════════════════════════════════════════════════════
+  
+  /**
+   * Hold a notification for a channel's next digest. The queue is due at the
+   * earliest time any of its notifications asked for.
+   */
+  async queueForDigest(
+    userId: string,
+    channel: DigestChannel,
+    notificationId: string,
+    dueAt: Date
+  ): Promise<void> {
+    await this.store.lpush(digestQueueKey(userId, channel), notificationId);
+    await this.store.expire(digestQueueKey(userId, channel), NOTIFICATION_TTL);
+    
+    const current = await this.getDigestDueAt(userId, channel);
+    if (!current || dueAt < current) {
+      await this.rescheduleDigest(userId, channel, dueAt);
+    }
+    
+    await this.store.sadd(DIGEST_PENDING_KEY, `${channel}:${userId}`);
+  }
+  
+  async getDigestDueAt(userId: string, channel: DigestChannel): Promise<Date | null> {
+    const data = await this.store.get(digestDueKey(userId, channel));
+    return data ? new Date(Number(data)) : null;
+  }
+  
+  async rescheduleDigest(userId: string, channel: DigestChannel, dueAt: Date): Promise<void> {
+    await this.store.set(digestDueKey(userId, channel), String(dueAt.getTime()), NOTIFICATION_TTL);
+  }
+  
+  /**
+   * Queues due at or before the given time. A queue whose due time has
+   * expired is treated as due.
+   */
+  async getDueDigests(at: Date): Promise<Array<{ userId: string; channel: DigestChannel }>> {
+    const members = await this.store.smembers(DIGEST_PENDING_KEY);
+    const due: Array<{ userId: string; channel: DigestChannel }> = [];
+    
+    for (const member of members) {
+      const separator = member.indexOf(':');
+      const channel = member.slice(0, separator) as DigestChannel;
+      const userId = member.slice(separator + 1);
+      
+      const dueAt = await this.getDigestDueAt(userId, channel);
+      if (!dueAt || dueAt <= at) {
+        due.push({ userId, channel });
+      }
+    }
+    
+    return due;
+  }
+  
+  /**
+   * A queue's notification ids, oldest first. They stay queued until
+   * clearDigest, so nothing is lost if sending fails.
+   */
+  async getDigest(userId: string, channel: DigestChannel): Promise<string[]> {
+    const ids = await this.store.lrange(digestQueueKey(userId, channel), 0, -1);
+    return ids.reverse();
+  }
+  
+  /**
+   * Remove the oldest `count` ids from a queue once they have been handled.
+   * New ids are pushed at the head, so any queued since getDigest are kept,
+   * and the queue stays pending for them.
+   */
+  async clearDigest(userId: string, channel: DigestChannel, count: number): Promise<void> {
+    const key = digestQueueKey(userId, channel);
+    await this.store.ltrim(key, 0, -count - 1);
+    
+    const remaining = await this.store.lrange(key, 0, 0);
+    if (remaining.length === 0) {
+      await this.store.delete(key);
+      await this.store.delete(digestDueKey(userId, channel));
+      await this.store.srem(DIGEST_PENDING_KEY, `${channel}:${userId}`);
+    }
+  }
+  
   // ═══════════════════════════════════════════════════════════════════════════════
   // CLEANUP
   // ═══════════════════════════════════════════════════════════════════════════════
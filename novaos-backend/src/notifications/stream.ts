@@ -0,0 +1,344 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// NOTIFICATION STREAM — Real-Time Fan-Out of In-App Notification Changes
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Each change is appended to a short per-user log, then published on a
+// pub/sub channel every server instance subscribes to. Instances forward
+// messages to the streams their own clients hold open, and the log lets a
+// reconnecting client resume from its Last-Event-ID.
+//
+// Without Redis, the in-memory client's pub/sub fans out within the process,
+// which is all a single-node deployment needs.
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { getStore, type KeyValueStore } from '../storage/index.js';
+import { RedisConfigSchema } from '../config/schema.js';
+import {
+  MemoryRedisClient,
+  createRedisClient,
+  getKeyPrefix,
+  type RedisStore,
+} from '../infrastructure/redis/index.js';
+import type { NotificationStreamEntry, NotificationStreamEvent } from './types.js';
+import { getLogger } from '../logging/index.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const LOG_TTL = 24 * 60 * 60;                  // 1 day
+const SEQUENCE_TTL = 365 * 24 * 60 * 60;       // 1 year
+const MAX_LOG_ENTRIES = 200;
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// LOGGER
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const logger = getLogger({ component: 'notification-stream' });
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// KEY GENERATION
+// ─────────────────────────────────────────────────────────────────────────────────
+
+function logKey(userId: string): string {
+  return `notification:user:${userId}:stream`;
+}
+
+// Outlives the log so ids never repeat for a client holding an old one
+function sequenceKey(userId: string): string {
+  return `notification:user:${userId}:stream:seq`;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export type NotificationStreamTransport = Pick<RedisStore, 'publish' | 'subscribe'>;
+
+/**
+ * Writes one event to a client. id is set for events that can be resumed
+ * from.
+ */
+export type NotificationStreamSender = (event: NotificationStreamEvent, id?: number) => void;
+
+type StreamListener = (entry: NotificationStreamEntry) => void;
+
+interface StreamMessage {
+  userId: string;
+  entry: NotificationStreamEntry;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// NOTIFICATION STREAM CLASS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export class NotificationStream {
+  private store: KeyValueStore;
+  private transport: NotificationStreamTransport;
+  private channel: string;
+  private listeners: Map<string, Set<StreamListener>> = new Map();
+  private unsubscribe: (() => Promise<void>) | null = null;
+  private subscribing: Promise<void> | null = null;
+
+  constructor(store?: KeyValueStore, transport?: NotificationStreamTransport) {
+    this.store = store ?? getStore();
+    this.transport = transport ?? new MemoryRedisClient();
+    this.channel = `${getKeyPrefix()}notifications:stream`;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════════
+  // PUBLISHING
+  // ═══════════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Record a change and fan it out to the user's open streams on every
+   * instance. Never throws: a client that misses an event picks it up when
+   * it resumes, or refetches after a reset.
+   */
+  async publish(userId: string, event: NotificationStreamEvent): Promise<void> {
+    try {
+      const id = await this.store.incr(sequenceKey(userId));
+      await this.store.expire(sequenceKey(userId), SEQUENCE_TTL);
+
+      const entry: NotificationStreamEntry = { id, event };
+      await this.store.lpush(logKey(userId), JSON.stringify(entry));
+      await this.store.ltrim(logKey(userId), 0, MAX_LOG_ENTRIES - 1);
+      await this.store.expire(logKey(userId), LOG_TTL);
+
+      const message: StreamMessage = { userId, entry };
+      await this.transport.publish(this.channel, JSON.stringify(message));
+    } catch (error) {
+      logger.error(
+        'Failed to publish notification stream event',
+        error instanceof Error ? error : new Error(String(error)),
+        { userId, type: event.type }
+      );
+    }
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════════
+  // SUBSCRIBING
+  // ═══════════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Start sending a user's events to a client. With a lastEventId, logged
+   * entries after it are sent first, preceded by a reset when some of them
+   * are no longer retained. Live entries follow without gaps or duplicates.
+   * Returns a function that stops the stream.
+   */
+  async open(
+    userId: string,
+    lastEventId: number | undefined,
+    send: NotificationStreamSender
+  ): Promise<() => void> {
+    let lastSent = lastEventId ?? 0;
+    let replaying = lastEventId !== undefined;
+    const pending: NotificationStreamEntry[] = [];
+
+    const deliver = (entry: NotificationStreamEntry) => {
+      if (entry.id <= lastSent) return;
+      lastSent = entry.id;
+      send(entry.event, entry.id);
+    };
+
+    // Listen before reading the log so nothing published meanwhile is lost
+    const stop = await this.listen(userId, entry => {
+      if (replaying) {
+        pending.push(entry);
+      } else {
+        deliver(entry);
+      }
+    });
+
+    if (lastEventId !== undefined) {
+      try {
+        const { entries, complete } = await this.getEntriesSince(userId, lastEventId);
+
+        if (!complete) {
+          send({ type: 'reset' });
+          lastSent = 0;
+        }
+
+        entries.forEach(deliver);
+        replaying = false;
+        pending.forEach(deliver);
+        pending.length = 0;
+      } catch (error) {
+        stop();
+        throw error;
+      }
+    }
+
+    return stop;
+  }
+
+  /**
+   * Logged entries after lastEventId, oldest first. complete is false when
+   * entries in between have been trimmed or expired, or the id is unknown.
+   */
+  async getEntriesSince(
+    userId: string,
+    lastEventId: number
+  ): Promise<{ entries: NotificationStreamEntry[]; complete: boolean }> {
+    const latest = await this.getLatestId(userId);
+    if (lastEventId === latest) {
+      return { entries: [], complete: true };
+    }
+
+    // An id ahead of the sequence was issued before it expired, so every
+    // retained entry is newer than what the client has
+    const after = lastEventId < latest ? lastEventId : 0;
+
+    const items = await this.store.lrange(logKey(userId), 0, -1);
+    const entries = items
+      .map(item => JSON.parse(item) as NotificationStreamEntry)
+      .filter(entry => entry.id > after)
+      .sort((a, b) => a.id - b.id);
+
+    const complete = lastEventId < latest && entries[0]?.id === lastEventId + 1;
+
+    return { entries, complete };
+  }
+
+  /**
+   * Id of the user's most recent event, or 0 if there has been none.
+   */
+  async getLatestId(userId: string): Promise<number> {
+    return Number(await this.store.get(sequenceKey(userId)) ?? 0);
+  }
+
+  /**
+   * Number of streams open on this instance for a user.
+   */
+  getConnectionCount(userId: string): number {
+    return this.listeners.get(userId)?.size ?? 0;
+  }
+
+  private async listen(userId: string, listener: StreamListener): Promise<() => void> {
+    await this.ensureSubscribed();
+
+    let listeners = this.listeners.get(userId);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(userId, listeners);
+    }
+    listeners.add(listener);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0 && this.listeners.get(userId) === listeners) {
+        this.listeners.delete(userId);
+      }
+    };
+  }
+
+  private async ensureSubscribed(): Promise<void> {
+    if (this.unsubscribe) return;
+
+    this.subscribing ??= this.transport
+      .subscribe(this.channel, message => this.handleMessage(message))
+      .then(unsubscribe => {
+        this.unsubscribe = unsubscribe;
+      })
+      .finally(() => {
+        this.subscribing = null;
+      });
+
+    await this.subscribing;
+  }
+
+  private handleMessage(message: string): void {
+    let parsed: StreamMessage;
+    try {
+      parsed = JSON.parse(message);
+    } catch {
+      logger.warn('Ignoring malformed notification stream message');
+      return;
+    }
+
+    for (const listener of this.listeners.get(parsed.userId) ?? []) {
+      try {
+        listener(parsed.entry);
+      } catch (error) {
+        logger.error(
+          'Notification stream listener failed',
+          error instanceof Error ? error : new Error(String(error)),
+          { userId: parsed.userId }
+        );
+      }
+    }
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════════
+  // LIFECYCLE
+  // ═══════════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Stop receiving messages from other instances. Open streams stay
+   * registered but receive nothing further.
+   */
+  async close(): Promise<void> {
+    const unsubscribe = this.unsubscribe;
+    this.unsubscribe = null;
+    await unsubscribe?.();
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SINGLETON
+// ─────────────────────────────────────────────────────────────────────────────────
+
+let notificationStream: NotificationStream | null = null;
+let ownedRedis: RedisStore | null = null;
+
+/**
+ * The process-wide stream. Until initNotificationStream() runs it fans out
+ * within this process only.
+ */
+export function getNotificationStream(): NotificationStream {
+  if (!notificationStream) {
+    notificationStream = new NotificationStream();
+  }
+  return notificationStream;
+}
+
+/**
+ * Replace the process-wide stream. With a Redis URL, events fan out across
+ * instances over Redis pub/sub; if Redis cannot be reached the stream stays
+ * in-process.
+ */
+export async function initNotificationStream(
+  store?: KeyValueStore,
+  redisUrl?: string
+): Promise<NotificationStream> {
+  await shutdownNotificationStream();
+
+  let transport: NotificationStreamTransport | undefined;
+
+  if (redisUrl) {
+    const client = createRedisClient(RedisConfigSchema.parse({ url: redisUrl }));
+    try {
+      await client.connect();
+      ownedRedis = client;
+      transport = client;
+    } catch (error) {
+      logger.warn('Redis pub/sub unavailable, notification stream limited to this instance', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  notificationStream = new NotificationStream(store, transport);
+  return notificationStream;
+}
+
+export async function shutdownNotificationStream(): Promise<void> {
+  await notificationStream?.close();
+  notificationStream = null;
+
+  if (ownedRedis) {
+    await ownedRedis.disconnect();
+    ownedRedis = null;
+  }
+}
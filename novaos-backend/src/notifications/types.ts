@@ -30,7 +30,10 @@ export type NotificationType =
   // System notifications
   | 'system_alert'
   | 'feature_update'
-  | 'tip';
+  | 'tip'
+  
+  // Digest notifications
+  | 'digest';
 
 export type NotificationPriority = 'low' | 'medium' | 'high' | 'urgent';
 
@@ -102,6 +105,27 @@ export interface CreateNotificationRequest {
   channels?: NotificationChannel[];
 }
 
+// ─────────────────────────────────────────────────────────────────────────────────
+// STREAM EVENTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Events pushed over /notifications/stream. Every event carries the unread
+ * badge count as of the change.
+ */
+export type NotificationStreamEvent =
+  | { type: 'notification'; notification: Notification; unread: number }
+  | { type: 'read'; ids: string[]; unread: number }
+  | { type: 'dismissed'; ids: string[]; unread: number }
+  | { type: 'deleted'; ids: string[]; unread: number }
+  | { type: 'badge'; unread: number }
+  | { type: 'reset' };         // Resume point no longer retained; refetch the list
+
+export interface NotificationStreamEntry {
+  id: number;                  // Per-user sequence, sent as the SSE event id
+  event: NotificationStreamEvent;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // NOTIFICATION PREFERENCES
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -115,6 +139,9 @@ export interface NotificationPreferences {
   quietHoursStart?: string;  // HH:mm format
   quietHoursEnd?: string;    // HH:mm format
   
+  // Delivery address for the email channel
+  emailAddress?: string;
+  
   // Per-type settings
   typeSettings: Partial<Record<NotificationType, NotificationTypeSettings>>;
   
@@ -131,6 +158,9 @@ export interface NotificationTypeSettings {
 export interface ChannelSettings {
   enabled: boolean;
   minPriority?: NotificationPriority; // Only deliver if priority >= this
+  digest?: DigestFrequency;           // Batch into periodic summaries (push and email only)
+  digestHour?: number;                // Local hour (0-23) daily and weekly digests go out
+  digestDay?: number;                 // Day (0 = Sunday) weekly digests go out
 }
 
 export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
@@ -145,6 +175,26 @@ export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
   },
 };
 
+// ─────────────────────────────────────────────────────────────────────────────────
+// DIGESTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export type DigestFrequency = 'immediate' | 'hourly' | 'daily' | 'weekly';
+
+/** Channels that can batch; in-app notifications are always listed at once */
+export type DigestChannel = Exclude<NotificationChannel, 'in_app'>;
+
+export const DIGEST_CHANNELS: readonly DigestChannel[] = ['push', 'email'];
+
+export interface DigestRunResult {
+  checked: number;             // Queues that were due
+  sent: number;                // Digests (or single deferred notifications) delivered
+  notificationsSent: number;
+  deferred: number;            // Queues pushed back because of quiet hours
+  skipped: number;             // Queues emptied without sending (all read, channel off)
+  failed: number;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // NOTIFICATION TEMPLATES
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -189,7 +239,7 @@ export const NOTIFICATION_TEMPLATES: Record<NotificationType, NotificationTempla
   goal_deadline: {
     type: 'goal_deadline',
     defaultPriority: 'high',
-    defaultChannels: ['in_app', 'push'],
+    defaultChannels: ['in_app', 'push', 'email'],
     icon: '🎯',
     titleTemplate: 'Goal deadline approaching',
     bodyTemplate: "'{{title}}' is due in {{timeLeft}}",
@@ -197,7 +247,7 @@ export const NOTIFICATION_TEMPLATES: Record<NotificationType, NotificationTempla
   goal_stalled: {
     type: 'goal_stalled',
     defaultPriority: 'medium',
-    defaultChannels: ['in_app'],
+    defaultChannels: ['in_app', 'email'],
     icon: '⏸️',
     titleTemplate: 'Goal needs attention',
     bodyTemplate: "'{{title}}' hasn't had progress in {{daysSinceUpdate}} days",
@@ -288,8 +338,26 @@ export const NOTIFICATION_TEMPLATES: Record<NotificationType, NotificationTempla
     titleTemplate: 'Tip',
     bodyTemplate: '{{message}}',
   },
+  
+  // Digest notifications
+  digest: {
+    type: 'digest',
+    defaultPriority: 'low',
+    defaultChannels: ['email'],
+    icon: '📬',
+    titleTemplate: 'Your {{period}} digest',
+    bodyTemplate: '{{summary}}\n\n{{items}}',
+  },
 };
 
+/**
+ * Replace `{{placeholders}}` with variable values. Unknown placeholders are
+ * left in place so missing variables are visible rather than silently blank.
+ */
+export function renderTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (_, key) => variables[key] ?? `{{${key}}}`);
+}
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // NOTIFICATION SUMMARY
 // ─────────────────────────────────────────────────────────────────────────────────
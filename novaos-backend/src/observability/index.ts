@@ -87,9 +87,14 @@ export {
   observeHistogram,
   startTimer,
   
+  // Exposition
+  type ExpositionFormat,
+  renderMetricFamilies,
+  
   // Middleware
   metricsMiddleware,
   metricsEndpoint,
+  METRICS_READ_PERMISSION,
   
   // Recording functions
   recordAuthSuccess,
@@ -152,14 +157,26 @@ export {
   // Types
   type Span,
   type SpanAttributes,
+  type SpanContext,
+  type SpanExporter,
   type TracerConfig,
   
   // Tracer
   configureTracer,
   isTracingEnabled,
+  shutdownTracer,
   startSpan,
   withSpan,
   withSpanSync,
+  getCurrentSpan,
+  runWithSpan,
+  
+  // Propagation
+  extractSpanContext,
+  createTraceHeaders,
+  
+  // Export
+  OtlpHttpExporter,
   
   // Middleware
   tracingMiddleware,
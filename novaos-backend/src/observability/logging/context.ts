@@ -68,6 +68,9 @@ export interface RequestContext {
   /** Current span ID for tracing */
   readonly spanId?: string;
   
+  /** W3C trace ID of the active span */
+  readonly traceId?: string;
+  
   /** Additional metadata */
   readonly metadata?: Readonly<Record<string, unknown>>;
 }
@@ -369,6 +372,7 @@ export function getLoggingContext(): Record<string, unknown> {
     requestId: ctx.requestId,
     correlationId: ctx.correlationId,
     ...(ctx.userId && { userId: ctx.userId }),
+    ...(ctx.traceId && { traceId: ctx.traceId }),
     ...(ctx.spanId && { spanId: ctx.spanId }),
     ...(ctx.parentSpanId && { parentSpanId: ctx.parentSpanId }),
     ...(ctx.path && { path: ctx.path }),
@@ -26,6 +26,13 @@ import {
   HTTP_DURATION_BUCKETS,
   type MetricDefinition,
 } from './definitions.js';
+import {
+  renderMetricFamilies,
+  type ExpositionFormat,
+  type MetricFamily,
+  type MetricSample,
+} from './exposition.js';
+import { collectRuntimeMetrics, sampleEventLoopLag } from './runtime.js';
 
 // ─────────────────────────────────────────────────────────────────────────────────
 // TYPES
@@ -86,46 +93,91 @@ export interface MetricsCollectorConfig {
   
   /** Enable/disable metrics collection */
   enabled?: boolean;
+  
+  /** Include process/Node.js runtime metrics in scrapes */
+  collectDefaultMetrics?: boolean;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────────
 // INTERNAL STORAGE
 // ─────────────────────────────────────────────────────────────────────────────────
 
+/**
+ * Sort label names so equal label sets share a key and render identically.
+ */
+function normalizeLabels(labels: Labels | undefined): Labels {
+  if (!labels) {
+    return {};
+  }
+  return Object.fromEntries(
+    Object.entries(labels).sort(([a], [b]) => a.localeCompare(b))
+  );
+}
+
 /**
  * Generate a label key for storage.
+ * JSON keeps keys unambiguous whatever characters label values contain.
  */
 function labelsToKey(labels: Labels | undefined): string {
   if (!labels || Object.keys(labels).length === 0) {
     return '';
   }
-  return Object.entries(labels)
-    .sort(([a], [b]) => a.localeCompare(b))
-    .map(([k, v]) => `${k}="${v}"`)
-    .join(',');
+  return JSON.stringify(Object.entries(normalizeLabels(labels)));
+}
+
+/**
+ * Value series keyed by label set, shared by counters and gauges.
+ */
+class LabeledValues {
+  private values = new Map<string, { labels: Labels; value: number }>();
+  
+  add(labels: Labels | undefined, delta: number): void {
+    const key = labelsToKey(labels);
+    const entry = this.values.get(key);
+    if (entry) {
+      entry.value += delta;
+    } else {
+      this.values.set(key, { labels: normalizeLabels(labels), value: delta });
+    }
+  }
+  
+  set(labels: Labels | undefined, value: number): void {
+    this.values.set(labelsToKey(labels), { labels: normalizeLabels(labels), value });
+  }
+  
+  get(labels?: Labels): number {
+    return this.values.get(labelsToKey(labels))?.value ?? 0;
+  }
+  
+  clear(): void {
+    this.values.clear();
+  }
+  
+  samples(): MetricSample[] {
+    return [...this.values.values()].map(({ labels, value }) => ({ labels, value }));
+  }
 }
 
 /**
  * Internal counter implementation.
  */
 class CounterImpl implements Counter {
-  private values = new Map<string, number>();
+  private values = new LabeledValues();
   
   inc(labels?: Labels, value: number = 1): void {
-    const key = labelsToKey(labels);
-    this.values.set(key, (this.values.get(key) ?? 0) + value);
+    this.values.add(labels, value);
   }
   
   get(labels?: Labels): number {
-    return this.values.get(labelsToKey(labels)) ?? 0;
+    return this.values.get(labels);
   }
   
   reset(): void {
     this.values.clear();
   }
   
-  getAll(): Map<string, number> {
-    return new Map(this.values);
+  samples(): MetricSample[] {
+    return this.values.samples();
   }
 }
 
@@ -133,32 +185,30 @@ class CounterImpl implements Counter {
  * Internal gauge implementation.
  */
 class GaugeImpl implements Gauge {
-  private values = new Map<string, number>();
+  private values = new LabeledValues();
   
   set(labels: Labels | undefined, value: number): void {
-    this.values.set(labelsToKey(labels), value);
+    this.values.set(labels, value);
   }
   
   inc(labels?: Labels, value: number = 1): void {
-    const key = labelsToKey(labels);
-    this.values.set(key, (this.values.get(key) ?? 0) + value);
+    this.values.add(labels, value);
   }
   
   dec(labels?: Labels, value: number = 1): void {
-    const key = labelsToKey(labels);
-    this.values.set(key, (this.values.get(key) ?? 0) - value);
+    this.values.add(labels, -value);
   }
   
   get(labels?: Labels): number {
-    return this.values.get(labelsToKey(labels)) ?? 0;
+    return this.values.get(labels);
   }
   
   reset(): void {
     this.values.clear();
   }
   
-  getAll(): Map<string, number> {
-    return new Map(this.values);
+  samples(): MetricSample[] {
+    return this.values.samples();
   }
 }
 
@@ -167,7 +217,7 @@ class GaugeImpl implements Gauge {
  */
 class HistogramImpl implements Histogram {
   private bucketBounds: number[];
-  private data = new Map<string, { sum: number; count: number; buckets: number[] }>();
+  private data = new Map<string, { labels: Labels; sum: number; count: number; buckets: number[] }>();
   
   constructor(buckets: readonly number[] = [...HTTP_DURATION_BUCKETS]) {
     this.bucketBounds = [...buckets].sort((a, b) => a - b);
@@ -179,6 +229,7 @@ class HistogramImpl implements Histogram {
     let data = this.data.get(key);
     if (!data) {
       data = {
+        labels: normalizeLabels(labels),
         sum: 0,
         count: 0,
         buckets: new Array(this.bucketBounds.length).fill(0),
@@ -220,13 +271,31 @@ class HistogramImpl implements Histogram {
     this.data.clear();
   }
   
-  getAll(): Map<string, { sum: number; count: number; buckets: number[] }> {
-    return new Map(this.data);
-  }
-  
   getBucketBounds(): number[] {
     return [...this.bucketBounds];
   }
+  
+  /**
+   * Cumulative `_bucket` series (ending with le="+Inf"), then `_sum` and `_count`.
+   */
+  samples(): MetricSample[] {
+    const samples: MetricSample[] = [];
+    
+    for (const data of this.data.values()) {
+      for (let i = 0; i < this.bucketBounds.length; i++) {
+        samples.push({
+          suffix: '_bucket',
+          labels: { ...data.labels, le: String(this.bucketBounds[i]) },
+          value: data.buckets[i]!,
+        });
+      }
+      samples.push({ suffix: '_bucket', labels: { ...data.labels, le: '+Inf' }, value: data.count });
+      samples.push({ suffix: '_sum', labels: data.labels, value: data.sum });
+      samples.push({ suffix: '_count', labels: data.labels, value: data.count });
+    }
+    
+    return samples;
+  }
 }
 
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -242,12 +311,14 @@ export class MetricsCollector {
   private histograms = new Map<string, HistogramImpl>();
   private definitions = new Map<string, MetricDefinition>();
   private config: Required<MetricsCollectorConfig>;
+  private lastCpuSample: { usage: NodeJS.CpuUsage; time: bigint } | null = null;
   
   constructor(config: MetricsCollectorConfig = {}) {
     this.config = {
       prefix: config.prefix ?? '',
       defaultLabels: config.defaultLabels ?? {},
       enabled: config.enabled ?? true,
+      collectDefaultMetrics: config.collectDefaultMetrics ?? true,
     };
     
     // Register all predefined metrics
@@ -480,77 +551,52 @@ export class MetricsCollector {
   // ─────────────────────────────────────────────────────────────────────────────
   
   /**
-   * Export all metrics in Prometheus text format.
+   * Snapshot all metrics as families, runtime metrics included.
    */
-  async getMetrics(): Promise<string> {
-    const lines: string[] = [];
-    
-    // Add default Node.js metrics
-    this.collectSystemMetrics();
-    
-    // Export counters
-    for (const [name, counter] of this.counters) {
-      const def = this.definitions.get(name);
-      if (def) {
-        lines.push(`# HELP ${name} ${def.help}`);
-        lines.push(`# TYPE ${name} counter`);
-      }
-      
-      for (const [labelKey, value] of counter.getAll()) {
-        const labelStr = labelKey ? `{${labelKey}}` : '';
-        lines.push(`${name}${labelStr} ${value}`);
-      }
-    }
+  collect(): MetricFamily[] {
+    const families: MetricFamily[] = [];
     
-    // Export gauges
-    for (const [name, gauge] of this.gauges) {
-      const def = this.definitions.get(name);
-      if (def) {
-        lines.push(`# HELP ${name} ${def.help}`);
-        lines.push(`# TYPE ${name} gauge`);
-      }
-      
-      for (const [labelKey, value] of gauge.getAll()) {
-        const labelStr = labelKey ? `{${labelKey}}` : '';
-        lines.push(`${name}${labelStr} ${value}`);
+    const sources: Array<['counter' | 'gauge' | 'histogram', Map<string, CounterImpl | GaugeImpl | HistogramImpl>]> = [
+      ['counter', this.counters],
+      ['gauge', this.gauges],
+      ['histogram', this.histograms],
+    ];
+    
+    for (const [type, metrics] of sources) {
+      for (const [name, metric] of metrics) {
+        families.push({
+          name,
+          help: this.definitions.get(name)?.help,
+          type,
+          samples: metric.samples(),
+        });
       }
     }
     
-    // Export histograms
-    for (const [name, histogram] of this.histograms) {
-      const def = this.definitions.get(name);
-      if (def) {
-        lines.push(`# HELP ${name} ${def.help}`);
-        lines.push(`# TYPE ${name} histogram`);
-      }
-      
-      const bucketBounds = histogram.getBucketBounds();
-      
-      for (const [labelKey, data] of histogram.getAll()) {
-        const baseLabels = labelKey ? `${labelKey},` : '';
-        
-        // Bucket values
-        for (let i = 0; i < bucketBounds.length; i++) {
-          const le = bucketBounds[i];
-          const count = data.buckets[i];
-          lines.push(`${name}_bucket{${baseLabels}le="${le}"} ${count}`);
-        }
-        lines.push(`${name}_bucket{${baseLabels}le="+Inf"} ${data.count}`);
-        
-        // Sum and count
-        const labelStr = labelKey ? `{${labelKey}}` : '';
-        lines.push(`${name}_sum${labelStr} ${data.sum}`);
-        lines.push(`${name}_count${labelStr} ${data.count}`);
-      }
+    return families;
+  }
+  
+  /**
+   * Export all metrics in Prometheus text (default) or OpenMetrics format.
+   */
+  async getMetrics(format: ExpositionFormat = 'prometheus'): Promise<string> {
+    let families: MetricFamily[];
+    
+    if (this.config.collectDefaultMetrics) {
+      const lag = sampleEventLoopLag();
+      this.collectSystemMetrics(lag.mean);
+      families = [...this.collect(), ...collectRuntimeMetrics(lag)];
+    } else {
+      families = this.collect();
     }
     
-    return lines.join('\n');
+    return renderMetricFamilies(families, format);
   }
   
   /**
    * Collect system metrics.
    */
-  private collectSystemMetrics(): void {
+  private collectSystemMetrics(eventLoopLagSeconds: number): void {
     // Memory usage
     const mem = process.memoryUsage();
     this.setGauge('process_memory_bytes', mem.heapUsed, { type: 'heap_used' });
@@ -558,6 +604,25 @@ export class MetricsCollector {
     this.setGauge('process_memory_bytes', mem.external, { type: 'external' });
     this.setGauge('process_memory_bytes', mem.rss, { type: 'rss' });
     
+    // CPU usage since the previous scrape
+    const now = process.hrtime.bigint();
+    const usage = process.cpuUsage();
+    if (this.lastCpuSample) {
+      const elapsedMicros = Number(now - this.lastCpuSample.time) / 1000;
+      const delta = process.cpuUsage(this.lastCpuSample.usage);
+      if (elapsedMicros > 0) {
+        this.setGauge('process_cpu_usage_percent', ((delta.user + delta.system) / elapsedMicros) * 100);
+      }
+    }
+    this.lastCpuSample = { usage, time: now };
+    
+    // Event loop and libuv resources (requests are the *Req* wraps, e.g. FSReqCallback)
+    this.setGauge('nodejs_eventloop_lag_seconds', eventLoopLagSeconds);
+    const resources = process.getActiveResourcesInfo();
+    const requests = resources.filter(r => r.includes('Req')).length;
+    this.setGauge('nodejs_active_requests', requests);
+    this.setGauge('nodejs_active_handles', resources.length - requests);
+    
     // Uptime
     this.setGauge('app_uptime_seconds', process.uptime());
     
@@ -0,0 +1,157 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// METRICS EXPOSITION — Prometheus Text & OpenMetrics Rendering
+// NovaOS Observability — Phase 3
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Renders metric families in either scrape format:
+//
+//   prometheus   text/plain; version=0.0.4
+//   openmetrics  application/openmetrics-text; version=1.0.0
+//
+// The formats differ mainly in counter naming (OpenMetrics families drop the
+// `_total` suffix, samples keep it), HELP escaping and the trailing `# EOF`.
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type { Labels } from './collector.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Supported exposition formats.
+ */
+export type ExpositionFormat = 'prometheus' | 'openmetrics';
+
+/**
+ * Metric family types that can be exposed.
+ */
+export type ExposedMetricType = 'counter' | 'gauge' | 'histogram' | 'unknown';
+
+/**
+ * A single sample line.
+ */
+export interface MetricSample {
+  /** Appended to the family name (e.g. `_bucket`, `_sum`, `_count`) */
+  readonly suffix?: string;
+  readonly labels: Labels;
+  readonly value: number;
+}
+
+/**
+ * A named group of samples sharing HELP and TYPE metadata.
+ */
+export interface MetricFamily {
+  readonly name: string;
+  readonly help?: string;
+  readonly type: ExposedMetricType;
+  readonly samples: readonly MetricSample[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONTENT NEGOTIATION
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Content-Type header for each format.
+ */
+export const EXPOSITION_CONTENT_TYPES: Record<ExpositionFormat, string> = {
+  prometheus: 'text/plain; version=0.0.4; charset=utf-8',
+  openmetrics: 'application/openmetrics-text; version=1.0.0; charset=utf-8',
+};
+
+/**
+ * Pick the format from a scraper's Accept header.
+ * Prometheus asks for OpenMetrics first when it supports it.
+ */
+export function negotiateExpositionFormat(accept: string | undefined): ExpositionFormat {
+  return accept?.includes('application/openmetrics-text') ? 'openmetrics' : 'prometheus';
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// ESCAPING & FORMATTING
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Escape a label value: backslash, double quote and newline.
+ */
+export function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Escape HELP text. OpenMetrics also escapes double quotes.
+ */
+export function escapeHelp(help: string, format: ExpositionFormat = 'prometheus'): string {
+  const escaped = help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+  return format === 'openmetrics' ? escaped.replace(/"/g, '\\"') : escaped;
+}
+
+/**
+ * Replace characters not allowed in a label name with underscores.
+ */
+export function sanitizeLabelName(name: string): string {
+  const sanitized = name.replace(/[^a-zA-Z0-9_]/g, '_');
+  return /^[0-9]/.test(sanitized) ? `_${sanitized}` : sanitized;
+}
+
+/**
+ * Format a sample value, including the special float values.
+ */
+export function formatMetricValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+  const pairs = entries.map(([k, v]) => `${sanitizeLabelName(k)}="${escapeLabelValue(v)}"`);
+  return `{${pairs.join(',')}}`;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// RENDERING
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Render metric families in the given format.
+ */
+export function renderMetricFamilies(
+  families: readonly MetricFamily[],
+  format: ExpositionFormat = 'prometheus'
+): string {
+  const lines: string[] = [];
+  const openMetrics = format === 'openmetrics';
+  
+  for (const family of families) {
+    const isCounter = family.type === 'counter';
+    const familyName = openMetrics && isCounter
+      ? family.name.replace(/_total$/, '')
+      : family.name;
+    const type = !openMetrics && family.type === 'unknown' ? 'untyped' : family.type;
+    
+    if (family.help) {
+      lines.push(`# HELP ${familyName} ${escapeHelp(family.help, format)}`);
+    }
+    lines.push(`# TYPE ${familyName} ${type}`);
+    
+    for (const sample of family.samples) {
+      const sampleName = openMetrics && isCounter
+        ? `${familyName}_total`
+        : `${family.name}${sample.suffix ?? ''}`;
+      lines.push(`${sampleName}${formatLabels(sample.labels)} ${formatMetricValue(sample.value)}`);
+    }
+  }
+  
+  if (openMetrics) {
+    lines.push('# EOF');
+  }
+  
+  return lines.join('\n') + '\n';
+}
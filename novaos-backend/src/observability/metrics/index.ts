@@ -64,6 +64,38 @@ export {
   startTimer,
 } from './collector.js';
 
+// ─────────────────────────────────────────────────────────────────────────────────
+// EXPOSITION
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export {
+  // Types
+  type ExpositionFormat,
+  type ExposedMetricType,
+  type MetricSample,
+  type MetricFamily,
+  
+  // Rendering
+  EXPOSITION_CONTENT_TYPES,
+  negotiateExpositionFormat,
+  renderMetricFamilies,
+  escapeLabelValue,
+  escapeHelp,
+  sanitizeLabelName,
+  formatMetricValue,
+} from './exposition.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// RUNTIME
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export {
+  type EventLoopLag,
+  collectRuntimeMetrics,
+  sampleEventLoopLag,
+  stopEventLoopMonitor,
+} from './runtime.js';
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // MIDDLEWARE
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -76,6 +108,7 @@ export {
   // Middleware
   metricsMiddleware,
   metricsEndpoint,
+  METRICS_READ_PERMISSION,
   
   // Recording functions
   recordAuthSuccess,
@@ -6,7 +6,8 @@
 // Provides Express middleware for:
 // - Recording HTTP request duration, status, size
 // - Tracking in-flight requests
-// - Exposing /metrics endpoint for Prometheus
+// - Exposing /metrics endpoint for Prometheus (text 0.0.4 or OpenMetrics),
+//   protected by service tokens carrying the `metrics:read` permission
 //
 // Usage:
 //   import { metricsMiddleware, metricsEndpoint } from './middleware.js';
@@ -18,6 +19,8 @@
 
 import type { Request, Response, NextFunction, RequestHandler } from 'express';
 import { getMetricsCollector, type Labels } from './collector.js';
+import { EXPOSITION_CONTENT_TYPES, negotiateExpositionFormat } from './exposition.js';
+import { extractBearerToken, verifyServiceToken } from '../../security/auth/tokens.js';
 
 // ─────────────────────────────────────────────────────────────────────────────────
 // MIDDLEWARE OPTIONS
@@ -53,13 +56,21 @@ export interface MetricsMiddlewareOptions {
  * Options for metrics endpoint.
  */
 export interface MetricsEndpointOptions {
-  /** Require authentication for metrics endpoint */
+  /** Require authentication for metrics endpoint (default: true) */
   requireAuth?: boolean;
   
-  /** Custom authentication check */
-  authCheck?: (req: Request) => boolean;
+  /** Custom authentication check (replaces the default service-token check) */
+  authCheck?: (req: Request) => boolean | Promise<boolean>;
+  
+  /** Permission a service token must grant (default: 'metrics:read') */
+  permission?: string;
 }
 
+/**
+ * Permission required of service tokens scraping /metrics.
+ */
+export const METRICS_READ_PERMISSION = 'metrics:read';
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // PATH NORMALIZATION
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -195,27 +206,32 @@ export function metricsMiddleware(
 
 /**
  * Create /metrics endpoint handler for Prometheus scraping.
+ * Serves OpenMetrics when the scraper's Accept header asks for it.
  */
 export function metricsEndpoint(
   options: MetricsEndpointOptions = {}
 ): RequestHandler {
-  const { requireAuth = false, authCheck } = options;
+  const { requireAuth = true, authCheck, permission = METRICS_READ_PERMISSION } = options;
   
   return async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
     // Check authentication if required
     if (requireAuth) {
-      const isAuthed = authCheck?.(req) ?? hasMetricsAuth(req);
+      const isAuthed = authCheck
+        ? await authCheck(req)
+        : await hasMetricsAuth(req, permission);
       if (!isAuthed) {
+        res.setHeader('WWW-Authenticate', 'Bearer realm="metrics"');
         res.status(401).json({ error: 'Unauthorized' });
         return;
       }
     }
     
     try {
+      const format = negotiateExpositionFormat(req.headers.accept);
       const metrics = getMetricsCollector();
-      const metricsText = await metrics.getMetrics();
+      const metricsText = await metrics.getMetrics(format);
       
-      res.setHeader('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+      res.setHeader('Content-Type', EXPOSITION_CONTENT_TYPES[format]);
       res.send(metricsText);
     } catch (error) {
       console.error('Error generating metrics:', error);
@@ -226,16 +242,24 @@ export function metricsEndpoint(
 
 /**
  * Default auth check for metrics endpoint.
+ * Accepts a service token granting `permission`; the static
+ * METRICS_AUTH_TOKEN / basic-auth credentials remain for older scrapers.
  */
-function hasMetricsAuth(req: Request): boolean {
-  // Check for bearer token
+async function hasMetricsAuth(req: Request, permission: string): Promise<boolean> {
   const authHeader = req.headers.authorization;
-  if (authHeader?.startsWith('Bearer ')) {
-    const token = authHeader.substring(7);
+  
+  // Check for bearer token
+  const token = extractBearerToken(authHeader);
+  if (token) {
     const metricsToken = process.env.METRICS_AUTH_TOKEN;
     if (metricsToken && token === metricsToken) {
       return true;
     }
+    
+    const verification = await verifyServiceToken(token, permission);
+    if (verification.ok) {
+      return true;
+    }
   }
   
   // Check for basic auth
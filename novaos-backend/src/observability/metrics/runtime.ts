@@ -0,0 +1,149 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// RUNTIME METRICS — Process & Node.js Default Metrics
+// NovaOS Observability — Phase 3
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Sampled at scrape time. Names follow prom-client's default metrics so
+// existing Node.js dashboards work unchanged.
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { readdirSync } from 'fs';
+import { monitorEventLoopDelay, type IntervalHistogram } from 'perf_hooks';
+import type { MetricFamily } from './exposition.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// EVENT LOOP MONITOR
+// ─────────────────────────────────────────────────────────────────────────────────
+
+let eventLoopMonitor: IntervalHistogram | null = null;
+
+/**
+ * Start sampling event loop delay (idempotent).
+ * The monitor does not keep the process alive.
+ */
+function getEventLoopMonitor(): IntervalHistogram {
+  if (!eventLoopMonitor) {
+    eventLoopMonitor = monitorEventLoopDelay({ resolution: 10 });
+    eventLoopMonitor.enable();
+  }
+  return eventLoopMonitor;
+}
+
+/**
+ * Event loop delay statistics in seconds since the last reset.
+ */
+export interface EventLoopLag {
+  readonly mean: number;
+  readonly p50: number;
+  readonly p99: number;
+  readonly max: number;
+}
+
+/**
+ * Read event loop delay and start a new measurement window.
+ * Returns zeros until the first window has samples.
+ */
+export function sampleEventLoopLag(): EventLoopLag {
+  const monitor = getEventLoopMonitor();
+  const toSeconds = (ns: number) => (Number.isFinite(ns) ? ns / 1e9 : 0);
+  
+  const lag = {
+    mean: toSeconds(monitor.mean),
+    p50: toSeconds(monitor.percentile(50)),
+    p99: toSeconds(monitor.percentile(99)),
+    max: toSeconds(monitor.max),
+  };
+  monitor.reset();
+  return lag;
+}
+
+/**
+ * Stop the event loop monitor (for tests and shutdown).
+ */
+export function stopEventLoopMonitor(): void {
+  eventLoopMonitor?.disable();
+  eventLoopMonitor = null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// COLLECTION
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const processStartTimeSeconds = Math.round(Date.now() / 1000 - process.uptime());
+
+/**
+ * Count open file descriptors (Linux only).
+ */
+function countOpenFds(): number | null {
+  if (process.platform !== 'linux') {
+    return null;
+  }
+  try {
+    return readdirSync('/proc/self/fd').length;
+  } catch {
+    return null;
+  }
+}
+
+function gauge(name: string, help: string, value: number): MetricFamily {
+  return { name, help, type: 'gauge', samples: [{ labels: {}, value }] };
+}
+
+/**
+ * Collect process and Node.js runtime metrics.
+ */
+export function collectRuntimeMetrics(lag: EventLoopLag = sampleEventLoopLag()): MetricFamily[] {
+  const cpu = process.cpuUsage();
+  const mem = process.memoryUsage();
+  const userSeconds = cpu.user / 1e6;
+  const systemSeconds = cpu.system / 1e6;
+  
+  const families: MetricFamily[] = [
+    {
+      name: 'process_cpu_user_seconds_total',
+      help: 'Total user CPU time spent in seconds.',
+      type: 'counter',
+      samples: [{ labels: {}, value: userSeconds }],
+    },
+    {
+      name: 'process_cpu_system_seconds_total',
+      help: 'Total system CPU time spent in seconds.',
+      type: 'counter',
+      samples: [{ labels: {}, value: systemSeconds }],
+    },
+    {
+      name: 'process_cpu_seconds_total',
+      help: 'Total user and system CPU time spent in seconds.',
+      type: 'counter',
+      samples: [{ labels: {}, value: userSeconds + systemSeconds }],
+    },
+    gauge('process_start_time_seconds', 'Start time of the process since unix epoch in seconds.', processStartTimeSeconds),
+    gauge('process_resident_memory_bytes', 'Resident memory size in bytes.', mem.rss),
+    gauge('nodejs_heap_size_total_bytes', 'Process heap size from Node.js in bytes.', mem.heapTotal),
+    gauge('nodejs_heap_size_used_bytes', 'Process heap size used from Node.js in bytes.', mem.heapUsed),
+    gauge('nodejs_external_memory_bytes', 'Node.js external memory size in bytes.', mem.external),
+    gauge('nodejs_eventloop_lag_p50_seconds', 'The 50th percentile of the recorded event loop delays.', lag.p50),
+    gauge('nodejs_eventloop_lag_p99_seconds', 'The 99th percentile of the recorded event loop delays.', lag.p99),
+    gauge('nodejs_eventloop_lag_max_seconds', 'The maximum recorded event loop delay.', lag.max),
+    {
+      name: 'nodejs_version_info',
+      help: 'Node.js version info.',
+      type: 'gauge',
+      samples: [{
+        labels: {
+          version: process.version,
+          major: String(process.versions.node.split('.')[0] ?? ''),
+        },
+        value: 1,
+      }],
+    },
+  ];
+  
+  const openFds = countOpenFds();
+  if (openFds !== null) {
+    families.push(gauge('process_open_fds', 'Number of open file descriptors.', openFds));
+  }
+  
+  return families;
+}
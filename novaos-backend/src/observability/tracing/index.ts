@@ -13,22 +13,56 @@ export {
   type SpanKind,
   type SpanAttributes,
   type Span,
+  type SpanContext,
+  type SpanEvent,
+  type FinishedSpan,
+  type SpanExporter,
+  type StartSpanOptions,
   type TracerConfig,
   
   // Configuration
   configureTracer,
   isTracingEnabled,
+  setSpanExporter,
+  getSpanExporter,
+  shutdownTracer,
   
   // Span API
   startSpan,
   withSpan,
   withSpanSync,
   getCurrentSpan,
+  runWithSpan,
   
   // Decorator
   traced,
 } from './tracer.js';
 
+// ─────────────────────────────────────────────────────────────────────────────────
+// PROPAGATION
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export {
+  TRACE_HEADERS,
+  parseTraceparent,
+  formatTraceparent,
+  extractSpanContext,
+  createTraceHeaders,
+} from './propagation.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// EXPORTER
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export {
+  type OtlpExporterConfig,
+  type OtlpExporterStats,
+  type OtlpExportRequest,
+  type OtlpSpan,
+  OtlpHttpExporter,
+  toOtlpPayload,
+} from './otlp-exporter.js';
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // MIDDLEWARE
 // ─────────────────────────────────────────────────────────────────────────────────
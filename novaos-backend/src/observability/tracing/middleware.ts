@@ -4,7 +4,14 @@
 // ═══════════════════════════════════════════════════════════════════════════════
 
 import type { Request, Response, NextFunction, RequestHandler } from 'express';
-import { startSpan, isTracingEnabled, type Span, type SpanAttributes } from './tracer.js';
+import {
+  startSpan,
+  runWithSpan,
+  isTracingEnabled,
+  type Span,
+  type SpanAttributes,
+} from './tracer.js';
+import { extractSpanContext, createTraceHeaders } from './propagation.js';
 import { getContext } from '../logging/context.js';
 
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -58,6 +65,11 @@ declare global {
 
 /**
  * Express tracing middleware.
+ *
+ * Continues the caller's trace when a valid `traceparent` header is present,
+ * echoes the server span's context back in `traceparent`/`tracestate`, and
+ * runs the rest of the request with the span active so gate, provider and
+ * outbound HTTP spans nest beneath it.
  */
 export function tracingMiddleware(
   options: TracingMiddlewareOptions = {}
@@ -105,15 +117,21 @@ export function tracingMiddleware(
       }
     }
     
-    // Start span
+    // Start span, continuing the remote trace if the caller sent one
     const span = startSpan(spanName, {
       kind: 'server',
       attributes,
+      parent: extractSpanContext(req.headers) ?? null,
     });
     
     // Attach to request
     req.span = span;
     
+    // Let the caller correlate its request with this trace
+    for (const [header, value] of Object.entries(createTraceHeaders(span))) {
+      res.setHeader(header, value);
+    }
+    
     // Handle response
     res.on('finish', () => {
       span.setAttribute('http.status_code', res.statusCode);
@@ -140,7 +158,7 @@ export function tracingMiddleware(
       span.end();
     });
     
-    next();
+    runWithSpan(span, () => next());
   };
 }
 
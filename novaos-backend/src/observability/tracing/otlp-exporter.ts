@@ -0,0 +1,363 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// OTLP EXPORTER — Batched OTLP/HTTP JSON Span Export
+// NovaOS Observability — Phase 3
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Buffers finished spans and POSTs them to an OpenTelemetry collector using
+// the OTLP/HTTP JSON encoding (ExportTraceServiceRequest).
+//
+//   - Exports when a batch fills, or after `scheduledDelayMs`
+//   - Drops new spans once `maxQueueSize` are buffered (never blocks requests)
+//   - Export failures are logged and counted, never thrown
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { getLogger } from '../logging/logger.js';
+import type {
+  FinishedSpan,
+  SpanAttributes,
+  SpanExporter,
+  SpanKind,
+  SpanStatus,
+} from './tracer.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * OTLP exporter configuration.
+ */
+export interface OtlpExporterConfig {
+  /** Collector traces endpoint (e.g. http://collector:4318/v1/traces) */
+  endpoint: string;
+  
+  /** Extra request headers */
+  headers?: Record<string, string>;
+  
+  /** Resource attributes (service.name, deployment.environment, ...) */
+  resourceAttributes?: SpanAttributes;
+  
+  /** Maximum spans per request */
+  maxExportBatchSize?: number;
+  
+  /** Delay before a partial batch is exported (ms) */
+  scheduledDelayMs?: number;
+  
+  /** Maximum buffered spans */
+  maxQueueSize?: number;
+  
+  /** Request timeout (ms) */
+  timeoutMs?: number;
+}
+
+/**
+ * Exporter counters.
+ */
+export interface OtlpExporterStats {
+  readonly queued: number;
+  readonly exported: number;
+  readonly dropped: number;
+  readonly failed: number;
+}
+
+/**
+ * OTLP AnyValue (JSON encoding).
+ */
+type OtlpAnyValue =
+  | { stringValue: string }
+  | { boolValue: boolean }
+  | { intValue: string }
+  | { doubleValue: number };
+
+/**
+ * OTLP KeyValue (JSON encoding).
+ */
+interface OtlpKeyValue {
+  key: string;
+  value: OtlpAnyValue;
+}
+
+/**
+ * OTLP span (JSON encoding). IDs are lowercase hex.
+ */
+export interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  traceState?: string;
+  name: string;
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OtlpKeyValue[];
+  events: Array<{
+    timeUnixNano: string;
+    name: string;
+    attributes: OtlpKeyValue[];
+  }>;
+  status: {
+    code: number;
+    message?: string;
+  };
+}
+
+/**
+ * OTLP ExportTraceServiceRequest (JSON encoding).
+ */
+export interface OtlpExportRequest {
+  resourceSpans: Array<{
+    resource: { attributes: OtlpKeyValue[] };
+    scopeSpans: Array<{
+      scope: { name: string };
+      spans: OtlpSpan[];
+    }>;
+  }>;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const DEFAULTS = {
+  maxExportBatchSize: 512,
+  scheduledDelayMs: 5000,
+  maxQueueSize: 2048,
+  timeoutMs: 10000,
+} as const;
+
+/** Instrumentation scope reported for every span */
+const SCOPE_NAME = 'novaos-tracer';
+
+const SPAN_KIND_CODES: Record<SpanKind, number> = {
+  internal: 1,
+  server: 2,
+  client: 3,
+  producer: 4,
+  consumer: 5,
+};
+
+const STATUS_CODES: Record<SpanStatus, number> = {
+  unset: 0,
+  ok: 1,
+  error: 2,
+};
+
+const logger = getLogger({ component: 'otlp-exporter' });
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// ENCODING
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Convert epoch milliseconds (fractional) to a nanosecond string.
+ * BigInt keeps full precision beyond Number.MAX_SAFE_INTEGER.
+ */
+export function toUnixNano(ms: number): string {
+  const whole = Math.floor(ms);
+  const nanos = Math.round((ms - whole) * 1e6);
+  return (BigInt(whole) * BigInt(1e6) + BigInt(nanos)).toString();
+}
+
+function toAnyValue(value: string | number | boolean): OtlpAnyValue {
+  if (typeof value === 'string') {
+    return { stringValue: value };
+  }
+  if (typeof value === 'boolean') {
+    return { boolValue: value };
+  }
+  return Number.isInteger(value)
+    ? { intValue: String(value) }
+    : { doubleValue: value };
+}
+
+function toKeyValues(attributes: Readonly<SpanAttributes> | undefined): OtlpKeyValue[] {
+  return Object.entries(attributes ?? {}).map(([key, value]) => ({
+    key,
+    value: toAnyValue(value),
+  }));
+}
+
+function toOtlpSpan(span: FinishedSpan): OtlpSpan {
+  return {
+    traceId: span.traceId,
+    spanId: span.spanId,
+    ...(span.parentSpanId && { parentSpanId: span.parentSpanId }),
+    ...(span.traceState && { traceState: span.traceState }),
+    name: span.name,
+    kind: SPAN_KIND_CODES[span.kind],
+    startTimeUnixNano: toUnixNano(span.startTimeMs),
+    endTimeUnixNano: toUnixNano(span.endTimeMs),
+    attributes: toKeyValues(span.attributes),
+    events: span.events.map((event) => ({
+      timeUnixNano: toUnixNano(event.timeMs),
+      name: event.name,
+      attributes: toKeyValues(event.attributes),
+    })),
+    status: {
+      code: STATUS_CODES[span.status],
+      ...(span.statusMessage && { message: span.statusMessage }),
+    },
+  };
+}
+
+/**
+ * Build an OTLP/HTTP JSON export request.
+ */
+export function toOtlpPayload(
+  spans: readonly FinishedSpan[],
+  resourceAttributes: SpanAttributes = {}
+): OtlpExportRequest {
+  return {
+    resourceSpans: [{
+      resource: { attributes: toKeyValues(resourceAttributes) },
+      scopeSpans: [{
+        scope: { name: SCOPE_NAME },
+        spans: spans.map(toOtlpSpan),
+      }],
+    }],
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// EXPORTER
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Batching OTLP/HTTP JSON span exporter.
+ */
+export class OtlpHttpExporter implements SpanExporter {
+  private readonly config: Required<OtlpExporterConfig>;
+  private queue: FinishedSpan[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private readonly inFlight = new Set<Promise<void>>();
+  private isShutdown = false;
+  private exported = 0;
+  private dropped = 0;
+  private failed = 0;
+  
+  constructor(config: OtlpExporterConfig) {
+    this.config = {
+      headers: {},
+      resourceAttributes: {},
+      ...DEFAULTS,
+      ...Object.fromEntries(Object.entries(config).filter(([, v]) => v !== undefined)),
+    } as Required<OtlpExporterConfig>;
+  }
+  
+  export(span: FinishedSpan): void {
+    if (this.isShutdown) {
+      return;
+    }
+    
+    if (this.queue.length >= this.config.maxQueueSize) {
+      this.dropped++;
+      return;
+    }
+    
+    this.queue.push(span);
+    
+    if (this.queue.length >= this.config.maxExportBatchSize) {
+      this.exportBatch();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.exportBatch();
+      }, this.config.scheduledDelayMs);
+      // Never keep the process alive just to export spans
+      this.timer.unref?.();
+    }
+  }
+  
+  async forceFlush(): Promise<void> {
+    this.clearTimer();
+    while (this.queue.length > 0) {
+      this.exportBatch();
+    }
+    await Promise.all(this.inFlight);
+  }
+  
+  async shutdown(): Promise<void> {
+    if (this.isShutdown) {
+      return;
+    }
+    await this.forceFlush();
+    this.isShutdown = true;
+  }
+  
+  /**
+   * Get exporter counters.
+   */
+  getStats(): OtlpExporterStats {
+    return {
+      queued: this.queue.length,
+      exported: this.exported,
+      dropped: this.dropped,
+      failed: this.failed,
+    };
+  }
+  
+  // ─────────────────────────────────────────────────────────────────────────────
+  // PRIVATE
+  // ─────────────────────────────────────────────────────────────────────────────
+  
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+  
+  private exportBatch(): void {
+    this.clearTimer();
+    const batch = this.queue.splice(0, this.config.maxExportBatchSize);
+    if (batch.length === 0) {
+      return;
+    }
+    
+    const request = this.send(batch).finally(() => {
+      this.inFlight.delete(request);
+    });
+    this.inFlight.add(request);
+    
+    // Spans that arrived past a full batch wait for the next tick
+    if (this.queue.length > 0 && !this.timer) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.exportBatch();
+      }, this.config.scheduledDelayMs);
+      this.timer.unref?.();
+    }
+  }
+  
+  private async send(batch: FinishedSpan[]): Promise<void> {
+    try {
+      const response = await fetch(this.config.endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...this.config.headers,
+        },
+        body: JSON.stringify(toOtlpPayload(batch, this.config.resourceAttributes)),
+        signal: AbortSignal.timeout(this.config.timeoutMs),
+      });
+      
+      if (!response.ok) {
+        this.failed += batch.length;
+        logger.warn('OTLP export rejected', {
+          status: response.status,
+          spanCount: batch.length,
+        });
+        return;
+      }
+      
+      this.exported += batch.length;
+    } catch (error) {
+      this.failed += batch.length;
+      logger.warn('OTLP export failed', {
+        error: error instanceof Error ? error.message : String(error),
+        spanCount: batch.length,
+      });
+    }
+  }
+}
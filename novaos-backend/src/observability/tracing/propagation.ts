@@ -0,0 +1,125 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// TRACE PROPAGATION — W3C Trace Context Headers
+// NovaOS Observability — Phase 3
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Reads and writes `traceparent` / `tracestate` (https://www.w3.org/TR/trace-context/)
+// so traces continue across service boundaries.
+//
+//   traceparent: 00-<32 hex trace id>-<16 hex parent span id>-<2 hex flags>
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type { Span, SpanContext } from './tracer.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * W3C trace context header names.
+ */
+export const TRACE_HEADERS = {
+  TRACEPARENT: 'traceparent',
+  TRACESTATE: 'tracestate',
+} as const;
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+const INVALID_TRACE_ID = '0'.repeat(32);
+const INVALID_SPAN_ID = '0'.repeat(16);
+const SAMPLED_FLAG = 0x01;
+
+/** The spec caps tracestate at 32 list members; 512 chars covers that in practice */
+const MAX_TRACESTATE_LENGTH = 512;
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// PARSING & FORMATTING
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Parse a traceparent header. Returns null for malformed or invalid values,
+ * in which case the receiver starts a new trace.
+ */
+export function parseTraceparent(
+  traceparent: string | undefined,
+  tracestate?: string
+): SpanContext | null {
+  if (!traceparent) {
+    return null;
+  }
+  
+  const match = TRACEPARENT_PATTERN.exec(traceparent.trim().toLowerCase());
+  if (!match) {
+    return null;
+  }
+  
+  const [, version, traceId, spanId, flags, rest] = match;
+  
+  // Version ff is forbidden; version 00 has no trailing fields
+  if (version === 'ff' || (version === '00' && rest)) {
+    return null;
+  }
+  if (traceId === INVALID_TRACE_ID || spanId === INVALID_SPAN_ID) {
+    return null;
+  }
+  
+  const state = tracestate?.trim();
+  
+  return {
+    traceId: traceId!,
+    spanId: spanId!,
+    sampled: (parseInt(flags!, 16) & SAMPLED_FLAG) === SAMPLED_FLAG,
+    traceState: state && state.length <= MAX_TRACESTATE_LENGTH ? state : undefined,
+  };
+}
+
+/**
+ * Format a span context as a traceparent header value.
+ */
+export function formatTraceparent(context: SpanContext): string {
+  return `00-${context.traceId}-${context.spanId}-${context.sampled ? '01' : '00'}`;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// HEADER HELPERS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Extract the remote parent span context from incoming HTTP headers.
+ */
+export function extractSpanContext(
+  headers: Record<string, string | string[] | undefined>
+): SpanContext | null {
+  const getHeader = (name: string): string | undefined => {
+    const value = headers[name];
+    if (typeof value === 'string') return value;
+    if (Array.isArray(value)) return value.join(',');
+    return undefined;
+  };
+  
+  return parseTraceparent(
+    getHeader(TRACE_HEADERS.TRACEPARENT),
+    getHeader(TRACE_HEADERS.TRACESTATE)
+  );
+}
+
+/**
+ * Create trace context headers for an outbound request made within `span`.
+ * Returns an empty object for no-op spans (tracing disabled).
+ */
+export function createTraceHeaders(span: Span): Record<string, string> {
+  const context = span.spanContext();
+  if (context.traceId === INVALID_TRACE_ID) {
+    return {};
+  }
+  
+  const headers: Record<string, string> = {
+    [TRACE_HEADERS.TRACEPARENT]: formatTraceparent(context),
+  };
+  
+  if (context.traceState) {
+    headers[TRACE_HEADERS.TRACESTATE] = context.traceState;
+  }
+  
+  return headers;
+}
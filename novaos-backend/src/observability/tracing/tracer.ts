@@ -1,15 +1,20 @@
 // ═══════════════════════════════════════════════════════════════════════════════
-// TRACING — OpenTelemetry Tracer Stub
+// TRACING — In-House Tracer with OTLP Export
 // NovaOS Observability — Phase 3
 // ═══════════════════════════════════════════════════════════════════════════════
 //
-// Placeholder for OpenTelemetry integration.
-// Provides a minimal tracing API that can be enhanced with full OTel support.
+// Minimal tracing API with OpenTelemetry-compatible span data:
+//   - W3C trace/span IDs, parent-based sampling
+//   - Active span tracked per async call chain
+//   - Finished spans handed to a SpanExporter (OTLP/HTTP when an endpoint is set)
 //
 // ═══════════════════════════════════════════════════════════════════════════════
 
-import { getContext, generateSpanId, runWithChildContext } from '../logging/context.js';
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes } from 'crypto';
+import { generateSpanId, runWithChildContext } from '../logging/context.js';
 import { getLogger } from '../logging/logger.js';
+import { OtlpHttpExporter } from './otlp-exporter.js';
 
 // ─────────────────────────────────────────────────────────────────────────────────
 // TYPES
@@ -30,6 +35,23 @@ export type SpanKind = 'internal' | 'server' | 'client' | 'producer' | 'consumer
  */
 export type SpanAttributes = Record<string, string | number | boolean>;
 
+/**
+ * Identity of a span, as propagated in W3C trace context headers.
+ */
+export interface SpanContext {
+  /** Trace ID (32 hex characters) */
+  readonly traceId: string;
+  
+  /** Span ID (16 hex characters) */
+  readonly spanId: string;
+  
+  /** Whether the trace is sampled (exported) */
+  readonly sampled: boolean;
+  
+  /** Vendor-specific trace state, passed through unchanged */
+  readonly traceState?: string;
+}
+
 /**
  * Span interface.
  */
@@ -37,9 +59,15 @@ export interface Span {
   /** Span ID */
   readonly spanId: string;
   
+  /** Trace ID */
+  readonly traceId: string;
+  
   /** Span name */
   readonly name: string;
   
+  /** Span identity for propagation */
+  spanContext(): SpanContext;
+  
   /** Set an attribute */
   setAttribute(key: string, value: string | number | boolean): void;
   
@@ -62,6 +90,69 @@ export interface Span {
   isRecording(): boolean;
 }
 
+/**
+ * Span event.
+ */
+export interface SpanEvent {
+  readonly name: string;
+  
+  /** Epoch milliseconds */
+  readonly timeMs: number;
+  
+  readonly attributes?: SpanAttributes;
+}
+
+/**
+ * A completed span, as handed to the exporter.
+ */
+export interface FinishedSpan {
+  readonly traceId: string;
+  readonly spanId: string;
+  readonly parentSpanId?: string;
+  readonly traceState?: string;
+  readonly name: string;
+  readonly kind: SpanKind;
+  
+  /** Epoch milliseconds (fractional) */
+  readonly startTimeMs: number;
+  
+  /** Epoch milliseconds (fractional) */
+  readonly endTimeMs: number;
+  
+  readonly attributes: Readonly<SpanAttributes>;
+  readonly events: readonly SpanEvent[];
+  readonly status: SpanStatus;
+  readonly statusMessage?: string;
+}
+
+/**
+ * Receives finished, sampled spans.
+ */
+export interface SpanExporter {
+  /** Accept a finished span (must not block or throw) */
+  export(span: FinishedSpan): void;
+  
+  /** Send everything buffered */
+  forceFlush(): Promise<void>;
+  
+  /** Flush and stop accepting spans */
+  shutdown(): Promise<void>;
+}
+
+/**
+ * Span creation options.
+ */
+export interface StartSpanOptions {
+  kind?: SpanKind;
+  attributes?: SpanAttributes;
+  
+  /**
+   * Parent span context. Defaults to the active span; pass a remote
+   * context to continue an incoming trace, or null to start a new trace.
+   */
+  parent?: SpanContext | null;
+}
+
 /**
  * Tracer configuration.
  */
@@ -72,11 +163,29 @@ export interface TracerConfig {
   /** Enable tracing */
   enabled?: boolean;
   
-  /** Sample rate (0-1) */
+  /** Sample rate (0-1) for new traces; child spans follow their parent */
   sampleRate?: number;
   
-  /** Export endpoint (for future OTel export) */
+  /** OTLP/HTTP traces endpoint (e.g. http://collector:4318/v1/traces) */
   exporterEndpoint?: string;
+  
+  /** Extra exporter request headers (e.g. collector auth) */
+  exporterHeaders?: Record<string, string>;
+  
+  /** Resource attributes attached to every exported span */
+  resourceAttributes?: SpanAttributes;
+  
+  /** Maximum spans per export request */
+  exportBatchSize?: number;
+  
+  /** Delay before a partial batch is exported (ms) */
+  exportIntervalMs?: number;
+  
+  /** Maximum buffered spans; newer spans are dropped beyond this */
+  maxQueueSize?: number;
+  
+  /** Export request timeout (ms) */
+  exportTimeoutMs?: number;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -89,11 +198,32 @@ let tracerConfig: TracerConfig = {
   sampleRate: 1.0,
 };
 
+let spanExporter: SpanExporter | null = null;
+
+const logger = getLogger({ component: 'tracing' });
+
 /**
  * Configure the tracer.
+ * Setting `exporterEndpoint` replaces the current exporter with an
+ * OTLP/HTTP exporter for that endpoint.
  */
 export function configureTracer(config: TracerConfig): void {
   tracerConfig = { ...tracerConfig, ...config };
+  
+  if (config.exporterEndpoint) {
+    setSpanExporter(new OtlpHttpExporter({
+      endpoint: config.exporterEndpoint,
+      headers: tracerConfig.exporterHeaders,
+      resourceAttributes: {
+        'service.name': tracerConfig.serviceName ?? 'novaos',
+        ...tracerConfig.resourceAttributes,
+      },
+      maxExportBatchSize: tracerConfig.exportBatchSize,
+      scheduledDelayMs: tracerConfig.exportIntervalMs,
+      maxQueueSize: tracerConfig.maxQueueSize,
+      timeoutMs: tracerConfig.exportTimeoutMs,
+    }));
+  }
 }
 
 /**
@@ -103,61 +233,148 @@ export function isTracingEnabled(): boolean {
   return tracerConfig.enabled ?? false;
 }
 
+/**
+ * Replace the span exporter. The previous exporter is shut down (flushed).
+ */
+export function setSpanExporter(exporter: SpanExporter | null): void {
+  const previous = spanExporter;
+  spanExporter = exporter;
+  
+  if (previous && previous !== exporter) {
+    previous.shutdown().catch((error) => {
+      logger.warn('Span exporter shutdown failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  }
+}
+
+/**
+ * Get the current span exporter.
+ */
+export function getSpanExporter(): SpanExporter | null {
+  return spanExporter;
+}
+
+/**
+ * Flush and stop the exporter (call on process shutdown).
+ */
+export async function shutdownTracer(): Promise<void> {
+  const exporter = spanExporter;
+  spanExporter = null;
+  await exporter?.shutdown();
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// ACTIVE SPAN
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Active span for the current async call chain.
+ */
+const activeSpanStorage = new AsyncLocalStorage<Span>();
+
+/**
+ * Run a function with `span` as the active span.
+ * Spans started inside become its children, and log lines carry its IDs.
+ */
+export function runWithSpan<T>(span: Span, fn: () => T): T {
+  if (span === noopSpan) {
+    return fn();
+  }
+  return activeSpanStorage.run(span, () =>
+    runWithChildContext({ spanId: span.spanId, traceId: span.traceId }, fn)
+  );
+}
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // SPAN IMPLEMENTATION
 // ─────────────────────────────────────────────────────────────────────────────────
 
+/**
+ * Current time in epoch milliseconds with sub-millisecond precision.
+ */
+function nowMs(): number {
+  return performance.timeOrigin + performance.now();
+}
+
+/**
+ * Generate a trace ID (32 hex characters).
+ */
+function generateTraceId(): string {
+  return randomBytes(16).toString('hex');
+}
+
 /**
  * Internal span implementation.
+ * Unsampled spans carry IDs for propagation but record nothing.
  */
 class SpanImpl implements Span {
   readonly spanId: string;
+  readonly traceId: string;
   readonly name: string;
+  private readonly kind: SpanKind;
+  private readonly parentSpanId?: string;
+  private readonly traceState?: string;
+  private readonly sampled: boolean;
   private readonly startTime: number;
   private readonly attributes: SpanAttributes = {};
-  private readonly events: Array<{ name: string; timestamp: number; attributes?: SpanAttributes }> = [];
+  private readonly events: SpanEvent[] = [];
   private status: SpanStatus = 'unset';
   private statusMessage?: string;
   private ended = false;
-  private readonly logger = getLogger({ component: 'tracing' });
   
-  constructor(name: string, spanId?: string) {
+  constructor(name: string, kind: SpanKind, parent: SpanContext | undefined, sampled: boolean) {
     this.name = name;
-    this.spanId = spanId ?? generateSpanId();
-    this.startTime = performance.now();
+    this.kind = kind;
+    this.spanId = generateSpanId();
+    this.traceId = parent?.traceId ?? generateTraceId();
+    this.parentSpanId = parent?.spanId;
+    this.traceState = parent?.traceState;
+    this.sampled = sampled;
+    this.startTime = nowMs();
+  }
+  
+  spanContext(): SpanContext {
+    return {
+      traceId: this.traceId,
+      spanId: this.spanId,
+      sampled: this.sampled,
+      traceState: this.traceState,
+    };
   }
   
   setAttribute(key: string, value: string | number | boolean): void {
-    if (!this.ended) {
+    if (this.isRecording()) {
       this.attributes[key] = value;
     }
   }
   
   setAttributes(attributes: SpanAttributes): void {
-    if (!this.ended) {
+    if (this.isRecording()) {
       Object.assign(this.attributes, attributes);
     }
   }
   
   addEvent(name: string, attributes?: SpanAttributes): void {
-    if (!this.ended) {
+    if (this.isRecording()) {
       this.events.push({
         name,
-        timestamp: performance.now(),
+        timeMs: nowMs(),
         attributes,
       });
     }
   }
   
   setStatus(status: SpanStatus, message?: string): void {
-    if (!this.ended) {
+    if (this.isRecording()) {
       this.status = status;
       this.statusMessage = message;
     }
   }
   
   recordException(error: Error): void {
-    if (!this.ended) {
+    if (this.isRecording()) {
       this.addEvent('exception', {
         'exception.type': error.name,
         'exception.message': error.message,
@@ -171,22 +388,56 @@ class SpanImpl implements Span {
     if (this.ended) return;
     
     this.ended = true;
-    const durationMs = performance.now() - this.startTime;
+    if (!this.sampled) return;
     
-    if (tracerConfig.enabled) {
-      this.logger.debug('Span ended', {
-        spanId: this.spanId,
-        name: this.name,
-        durationMs: durationMs.toFixed(2),
-        status: this.status,
-        attributeCount: Object.keys(this.attributes).length,
-        eventCount: this.events.length,
-      });
-    }
+    const endTime = nowMs();
+    
+    logger.debug('Span ended', {
+      traceId: this.traceId,
+      spanId: this.spanId,
+      name: this.name,
+      durationMs: (endTime - this.startTime).toFixed(2),
+      status: this.status,
+      attributeCount: Object.keys(this.attributes).length,
+      eventCount: this.events.length,
+    });
+    
+    spanExporter?.export({
+      traceId: this.traceId,
+      spanId: this.spanId,
+      parentSpanId: this.parentSpanId,
+      traceState: this.traceState,
+      name: this.name,
+      kind: this.kind,
+      startTimeMs: this.startTime,
+      endTimeMs: endTime,
+      attributes: this.attributes,
+      events: this.events,
+      status: this.status,
+      statusMessage: this.statusMessage,
+    });
   }
   
   isRecording(): boolean {
-    return !this.ended;
+    return this.sampled && !this.ended;
+  }
+  
+  /**
+   * Mark the span ok unless the instrumented code already set a status.
+   */
+  completeOk(): void {
+    if (this.status === 'unset') {
+      this.setStatus('ok');
+    }
+  }
+}
+
+/**
+ * Mark a span ok on success without overwriting an explicit error status.
+ */
+function completeOk(span: Span): void {
+  if (span instanceof SpanImpl) {
+    span.completeOk();
   }
 }
 
@@ -198,8 +449,14 @@ class SpanImpl implements Span {
  * No-op span when tracing is disabled.
  */
 const noopSpan: Span = {
-  spanId: 'noop',
+  spanId: '0000000000000000',
+  traceId: '00000000000000000000000000000000',
   name: 'noop',
+  spanContext: () => ({
+    traceId: '00000000000000000000000000000000',
+    spanId: '0000000000000000',
+    sampled: false,
+  }),
   setAttribute: () => {},
   setAttributes: () => {},
   addEvent: () => {},
@@ -214,34 +471,31 @@ const noopSpan: Span = {
 // ─────────────────────────────────────────────────────────────────────────────────
 
 /**
- * Start a new span.
+ * Start a new span, as a child of the active span unless a parent is given.
  */
 export function startSpan(
   name: string,
-  options?: {
-    kind?: SpanKind;
-    attributes?: SpanAttributes;
-  }
+  options?: StartSpanOptions
 ): Span {
   if (!tracerConfig.enabled) {
     return noopSpan;
   }
   
-  // Sample based on rate
-  if (Math.random() > (tracerConfig.sampleRate ?? 1.0)) {
-    return noopSpan;
-  }
+  const parent = options?.parent === undefined
+    ? activeSpanStorage.getStore()?.spanContext()
+    : options.parent ?? undefined;
   
-  const span = new SpanImpl(name);
+  // Parent-based sampling: only new traces roll the dice
+  const sampled = parent
+    ? parent.sampled
+    : Math.random() < (tracerConfig.sampleRate ?? 1.0);
+  
+  const span = new SpanImpl(name, options?.kind ?? 'internal', parent, sampled);
   
   if (options?.attributes) {
     span.setAttributes(options.attributes);
   }
   
-  if (options?.kind) {
-    span.setAttribute('span.kind', options.kind);
-  }
-  
   return span;
 }
 
@@ -251,16 +505,13 @@ export function startSpan(
 export async function withSpan<T>(
   name: string,
   fn: (span: Span) => Promise<T>,
-  options?: {
-    kind?: SpanKind;
-    attributes?: SpanAttributes;
-  }
+  options?: StartSpanOptions
 ): Promise<T> {
   const span = startSpan(name, options);
   
   try {
-    const result = await runWithChildContext({ spanId: span.spanId }, () => fn(span));
-    span.setStatus('ok');
+    const result = await runWithSpan(span, () => fn(span));
+    completeOk(span);
     return result;
   } catch (error) {
     if (error instanceof Error) {
@@ -278,16 +529,13 @@ export async function withSpan<T>(
 export function withSpanSync<T>(
   name: string,
   fn: (span: Span) => T,
-  options?: {
-    kind?: SpanKind;
-    attributes?: SpanAttributes;
-  }
+  options?: StartSpanOptions
 ): T {
   const span = startSpan(name, options);
   
   try {
-    const result = fn(span);
-    span.setStatus('ok');
+    const result = runWithSpan(span, () => fn(span));
+    completeOk(span);
     return result;
   } catch (error) {
     if (error instanceof Error) {
@@ -300,16 +548,13 @@ export function withSpanSync<T>(
 }
 
 /**
- * Get the current span from context.
+ * Get the active span for the current async call chain.
  */
 export function getCurrentSpan(): Span | undefined {
-  const ctx = getContext();
-  if (!ctx?.spanId || !tracerConfig.enabled) {
+  if (!tracerConfig.enabled) {
     return undefined;
   }
-  // Note: This is a simplified implementation.
-  // A full implementation would maintain a span registry.
-  return undefined;
+  return activeSpanStorage.getStore();
 }
 
 /**
@@ -14,7 +14,9 @@
 
 import {
   ExecutionPipeline,
+  pickReusableGateResults,
   type PipelineConfig,
+  type PipelineStreamHooks,
 } from './execution-pipeline.js';
 
 import type {
@@ -47,6 +49,7 @@ export interface EnhancedPipelineConfig extends PipelineConfig {
 
 export interface EnhancedContext {
   userId: string;
+  tenantId?: string;
   conversationId?: string;  // Optional - will be created if not provided
   sessionId?: string;
   requestId?: string;
@@ -100,7 +103,8 @@ export class EnhancedPipeline {
   
   async execute(
     userMessage: string,
-    context: EnhancedContext
+    context: EnhancedContext,
+    streamHooks: PipelineStreamHooks = {}
   ): Promise<EnhancedResult> {
     const startTime = Date.now();
     const userId = context.userId ?? 'anonymous';
@@ -122,9 +126,9 @@ export class EnhancedPipeline {
       await conversations.addUserMessage(conversationId, userMessage);
       
       // ─── STEP 4: BUILD CONVERSATION HISTORY ───
-      const messages = await conversations.getMessages(conversationId, 10);
-      const history = (messages ?? []).map((m: any) => ({
-        role: m.role as 'user' | 'assistant',
+      const contextWindow = await conversations.buildContext(conversationId);
+      const history = contextWindow.messages.map(m => ({
+        role: m.role,
         content: m.content,
       }));
       
@@ -133,6 +137,8 @@ export class EnhancedPipeline {
         ...context,
         conversationId,
         conversationHistory: history.slice(0, -1), // Exclude current message (already in userMessage)
+        // The context injection already carries the summary when hooks are on
+        conversationSummary: preResult.contextInjection ? undefined : contextWindow.summary ?? undefined,
       };
       
       // Override system prompt with context-injected version
@@ -142,7 +148,7 @@ export class EnhancedPipeline {
       
       // Create a new pipeline instance with modified system prompt
       const enhancedBasePipeline = new ExecutionPipeline(modifiedConfig);
-      const baseResult = await enhancedBasePipeline.execute(userMessage, pipelineContext);
+      const baseResult = await enhancedBasePipeline.execute(userMessage, pipelineContext, streamHooks);
       
       // ─── STEP 6: POST-GENERATION HOOKS ───
       const postResult = await this.runPostGeneration(
@@ -167,6 +173,7 @@ export class EnhancedPipeline {
       await conversations.addAssistantMessage(conversationId, finalResponse, {
         stance: baseResult.stance,
         status: baseResult.status,
+        gateResults: pickReusableGateResults(baseResult.gateResults),
       });
       
       // ─── STEP 9: BUILD RESULT ───
@@ -231,7 +238,7 @@ export class EnhancedPipeline {
           user: { profile: null, preferences: null },
           memory: { summary: '', facts: [], preferences: [], activeProjects: [], warnings: [] },
           sword: { activeGoals: [], currentSpark: null, overallProgress: 0, nextAction: null },
-          conversation: { id: conversationId, recentMessages: [], messageCount: 0, topics: [] },
+          conversation: { id: conversationId, recentMessages: [], messageCount: 0, topics: [], summary: null },
           session: { timestamp: new Date().toISOString() },
         },
         modifiedSystemPrompt: NOVA_SYSTEM_PROMPT,
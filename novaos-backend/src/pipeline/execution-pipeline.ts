@@ -6,7 +6,9 @@ import type {
   PipelineState,
   PipelineContext,
   PipelineResult,
+  GateResult,
   GateResults,
+  ShieldResult,
   Stance,
   GenerationConstraints,
   Generation,
@@ -30,7 +32,8 @@ import {
 import { 
   ProviderManager, 
   NOVA_SYSTEM_PROMPT,
-  type ProviderManagerConfig 
+  type ProviderManagerConfig,
+  type ProviderHealth,
 } from '../providers/index.js';
 
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -44,6 +47,20 @@ import type { TopicId } from '../services/spark-engine/resource-discovery/types.
 import type { UserId, Timestamp } from '../types/branded.js';
 import { createUserId, createTimestamp } from '../types/branded.js';
 import { ok, err, type AsyncAppResult } from '../types/result.js';
+import {
+  GateRegistry,
+  DEFAULT_PIPELINE_DEFINITION,
+  REGENERATION_START_GATE,
+  PipelineDefinitionError,
+  isCoreGateId,
+  runStage,
+  type GateRunContext,
+  type PipelineDefinition,
+  type PipelineGate,
+} from './gate-registry.js';
+import { withUsagePurpose } from '../usage/scope.js';
+import { formatSummaryForPrompt } from '../conversations/summaries.js';
+import { chatEvents } from '../events/index.js';
 
 // Phase 14A: Import ExploreStore for session checking
 import { ExploreStore, createExploreStore } from '../gates/sword/explore/explore-store.js';
@@ -67,9 +84,32 @@ import type { Redis } from 'ioredis';
 // CONSTANTS
 // ─────────────────────────────────────────────────────────────────────────────────
 
-const MAX_REGENERATIONS = 2;
+export const MAX_REGENERATIONS = 2;
 const PIPELINE_TIMEOUT_MS = 30000;
 
+// ─────────────────────────────────────────────────────────────────────────────────
+// TURN SNAPSHOTS — Gate results reused by user-requested regeneration
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/** Gates that run before generation; their results are persisted with a turn */
+const REUSED_GATE_IDS = ['intent', 'shield', 'lens', 'stance', 'capability'] as const;
+
+export type TurnGateResults = Pick<GateResults, typeof REUSED_GATE_IDS[number]>;
+
+/**
+ * The upstream gate results of a turn, to store with its response so the
+ * response can later be regenerated without re-running them.
+ */
+export function pickReusableGateResults(gateResults: GateResults): TurnGateResults {
+  const picked: TurnGateResults = {};
+  for (const id of REUSED_GATE_IDS) {
+    if (gateResults[id]) {
+      (picked as Record<string, unknown>)[id] = gateResults[id];
+    }
+  }
+  return picked;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // IN-MEMORY REFINEMENT STORE — Lightweight store for SwordGate
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -156,6 +196,32 @@ export interface PipelineConfig extends ProviderManagerConfig {
   enableFullStepGenerator?: boolean;  // ← Enable LLM-based curriculum generation
   redis?: Redis;                       // ← Redis instance for full mode
   sparkEngineConfig?: Partial<SparkEngineConfig>;  // ← Additional SparkEngine config
+
+  // Gate registry options
+  gates?: PipelineGate[];                             // ← Custom gates to register alongside the built-ins
+  pipelineDefinition?: PipelineDefinition;            // ← Default stage order (DEFAULT_PIPELINE_DEFINITION if omitted)
+  tenantPipelines?: Record<string, PipelineDefinition>;  // ← Per-tenant stage order, keyed by context.tenantId
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// STREAMING HOOKS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Observers for incremental pipeline progress, used by the SSE chat endpoints.
+ * All callbacks are optional; execute() behaves identically without them.
+ */
+export interface PipelineStreamHooks {
+  /** Called as each gate finishes, in pipeline order (custom gates included) */
+  onGate?: (gateId: string, result: GateResult<unknown>) => void;
+  /** Called with each text delta from the model stage (first attempt only) */
+  onToken?: (text: string) => void;
+  /**
+   * Called once with the final response when it differs from the streamed
+   * tokens, which have not been through personality validation (rewrites,
+   * regenerations, or a later gate stopping the turn).
+   */
+  onReplace?: (text: string) => void;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -183,6 +249,11 @@ export class ExecutionPipeline {
   private redis?: Redis;
   private sparkEngineConfig?: Partial<SparkEngineConfig>;
 
+  // Gate registry and stage definitions
+  private readonly registry = new GateRegistry();
+  private defaultDefinition: PipelineDefinition = DEFAULT_PIPELINE_DEFINITION;
+  private tenantDefinitions = new Map<string, PipelineDefinition>();
+
   constructor(config: PipelineConfig = {}) {
     this.systemPrompt = config.systemPrompt ?? NOVA_SYSTEM_PROMPT;
     this.enableLensSearch = config.enableLensSearch ?? true;
@@ -194,7 +265,7 @@ export class ExecutionPipeline {
     this.sparkEngineConfig = config.sparkEngineConfig;
     
     // Determine mock mode
-    const hasConfigKeys = !!(config.openaiApiKey || config.geminiApiKey);
+    const hasConfigKeys = !!(config.openaiApiKey || config.geminiApiKey || config.local?.baseUrl);
     
     if (config.useMockProvider !== undefined) {
       this.useMock = config.useMockProvider;
@@ -209,10 +280,23 @@ export class ExecutionPipeline {
       this.providerManager = new ProviderManager({
         openaiApiKey: config.openaiApiKey,
         geminiApiKey: config.geminiApiKey,
+        local: config.local,
         preferredProvider: config.preferredProvider,
+        providerOrder: config.providerOrder,
         enableFallback: config.enableFallback ?? true,
       });
     }
+
+    // Register gates and validate stage definitions up front so a bad
+    // deployment config fails at startup rather than on the first request
+    this.registerBuiltinGates();
+    for (const gate of config.gates ?? []) {
+      this.registry.register(gate);
+    }
+    this.setDefaultPipeline(config.pipelineDefinition ?? DEFAULT_PIPELINE_DEFINITION);
+    for (const [tenantId, definition] of Object.entries(config.tenantPipelines ?? {})) {
+      this.setTenantPipeline(tenantId, definition);
+    }
   }
   
   /**
@@ -241,7 +325,7 @@ export class ExecutionPipeline {
     }
     
     if (this.useMock || !this.providerManager) {
-      console.warn('[PIPELINE] Full mode requires real LLM provider. Configure openaiApiKey or geminiApiKey.');
+      console.warn('[PIPELINE] Full mode requires real LLM provider. Configure openaiApiKey, geminiApiKey or a local model.');
       return;
     }
     
@@ -256,7 +340,6 @@ export class ExecutionPipeline {
       {
         encryptionEnabled: true,
         useStubStepGenerator: false, // Full mode
-        useStubReminderService: true, // Reminders still stubbed
         ...this.sparkEngineConfig,
       }
     );
@@ -291,7 +374,6 @@ export class ExecutionPipeline {
       this.sparkEngineBootstrap = bootstrapSparkEngine(kvStore, {
         encryptionEnabled: true,
         useStubStepGenerator: true,
-        useStubReminderService: true,
       });
       
       console.log('[PIPELINE] SparkEngine bootstrapped:', this.sparkEngineBootstrap.status);
@@ -327,11 +409,11 @@ export class ExecutionPipeline {
       this.swordGate = new SwordGate(
         this.refinementStore,
         {
-          useLlmModeDetection: !this.useMock && !!process.env.OPENAI_API_KEY,
+          useLlmModeDetection: !this.useMock && !!this.providerManager?.isAvailable(),
         },
         {
           sparkEngine,
-          openaiApiKey: process.env.OPENAI_API_KEY,
+          llm: this.providerManager ?? undefined,
           resourceService,  // ← Pass resource discovery!
         }
       );
@@ -499,7 +581,8 @@ export class ExecutionPipeline {
 
   async execute(
     userMessage: string,
-    context: PipelineContext
+    context: PipelineContext,
+    hooks: PipelineStreamHooks = {}
   ): Promise<PipelineResult> {
     const pipelineStart = Date.now();
     const requestId = context.requestId ?? crypto.randomUUID();
@@ -516,7 +599,7 @@ export class ExecutionPipeline {
     };
 
     try {
-      return await this.executePipeline(state, { ...context, requestId });
+      return await this.executePipeline(state, { ...context, requestId }, hooks);
     } catch (error) {
       console.error('[PIPELINE] Error:', error);
       return {
@@ -533,57 +616,408 @@ export class ExecutionPipeline {
     }
   }
 
-  private async executePipeline(
+  /**
+   * Produce a new response for a past turn. The model stage and every stage
+   * ordered after it run again (custom gates included); intent, shield,
+   * lens, stance and capability results come from the turn's snapshot (see
+   * pickReusableGateResults).
+   */
+  async regenerate(
+    userMessage: string,
+    context: PipelineContext,
+    snapshot: TurnGateResults,
+    hooks: PipelineStreamHooks = {}
+  ): Promise<PipelineResult> {
+    const pipelineStart = Date.now();
+    const requestId = context.requestId ?? crypto.randomUUID();
+
+    const state: PipelineState = {
+      userMessage,
+      normalizedInput: userMessage.trim(),
+      gateResults: { ...snapshot },
+      flags: { userRegeneration: true },
+      timestamps: {
+        pipelineStart: Date.now(),
+      },
+      intent: snapshot.intent?.output,
+      shieldResult: snapshot.shield?.output,
+      lensResult: snapshot.lens?.output,
+      stance: snapshot.stance?.output.stance,
+      capabilities: snapshot.capability?.output,
+    };
+
+    try {
+      return await this.executePipeline(state, { ...context, requestId }, hooks, REGENERATION_START_GATE);
+    } catch (error) {
+      console.error('[PIPELINE] Regeneration error:', error);
+      return {
+        status: 'error',
+        response: 'An error occurred regenerating the response. Please try again.',
+        stance: state.stance ?? 'shield',
+        gateResults: state.gateResults,
+        metadata: {
+          requestId,
+          totalTimeMs: Date.now() - pipelineStart,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+      };
+    }
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // GATE REGISTRY
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * The registry this pipeline resolves stage ids against. Register custom
+   * gates here, then reference them from a PipelineDefinition.
+   */
+  getGateRegistry(): GateRegistry {
+    return this.registry;
+  }
+
+  /**
+   * Set the pipeline definition used for requests whose context carries
+   * this tenantId. Throws PipelineDefinitionError if the definition is invalid.
+   */
+  setTenantPipeline(tenantId: string, definition: PipelineDefinition): void {
+    this.registry.validate(definition);
+    this.tenantDefinitions.set(tenantId, definition);
+  }
+
+  removeTenantPipeline(tenantId: string): boolean {
+    return this.tenantDefinitions.delete(tenantId);
+  }
+
+  /**
+   * Replace the default pipeline definition.
+   */
+  setDefaultPipeline(definition: PipelineDefinition): void {
+    this.registry.validate(definition);
+    this.defaultDefinition = definition;
+  }
+
+  resolvePipelineDefinition(tenantId?: string): PipelineDefinition {
+    return (tenantId ? this.tenantDefinitions.get(tenantId) : undefined) ?? this.defaultDefinition;
+  }
+
+  /**
+   * Register the built-in gates. Shield is required: no definition may omit,
+   * disable or time-out-skip it.
+   */
+  private registerBuiltinGates(): void {
+    this.registry.register({
+      id: 'intent',
+      execute: async (state, context) => {
+        state.gateResults.intent = await executeIntentGateAsync(state, context);
+        state.intent = state.gateResults.intent.output;
+        return state.gateResults.intent;
+      },
+    });
+
+    this.registry.register({
+      id: 'shield',
+      required: true,
+      execute: async (state, context) => {
+        state.gateResults.shield = await executeShieldGate(state, context);
+        state.shieldResult = state.gateResults.shield.output;
+
+        if (state.gateResults.shield.action === 'stop') {
+          state.stance = state.shieldResult.controlMode ? 'control' : 'shield';
+        } else if (state.gateResults.shield.action === 'await_ack') {
+          state.stance = 'shield';
+        }
+
+        await this.emitShieldEvents(state.gateResults.shield, state, context);
+
+        return {
+          ...state.gateResults.shield,
+          message: state.gateResults.shield.message ?? state.shieldResult.message,
+        };
+      },
+    });
+
+    this.registry.register({
+      id: 'lens',
+      runsAfter: ['intent'],
+      execute: (state, context) => this.runLensGate(state, context),
+    });
+
+    this.registry.register({
+      id: 'stance',
+      runsAfter: ['intent', 'shield', 'lens'],
+      execute: (state, context) => {
+        state.gateResults.stance = executeStanceGate(state, context);
+        state.stance = state.gateResults.stance.output.stance;
+        return state.gateResults.stance;
+      },
+    });
+
+    this.registry.register({
+      id: 'capability',
+      runsAfter: ['stance'],
+      execute: (state, context) => {
+        state.gateResults.capability = executeCapabilityGate(state, context);
+        state.capabilities = state.gateResults.capability.output;
+        return state.gateResults.capability;
+      },
+    });
+
+    this.registry.register({
+      id: 'sword',
+      runsAfter: ['intent'],
+      shouldSkip: (_state, context) => !this.enableSwordGate || !context.userId,
+      execute: (state, context) => this.runSwordGate(state, context),
+    });
+
+    this.registry.register({
+      id: 'model',
+      runsAfter: ['capability'],
+      execute: (state, context, run) => this.runModelGate(state, context, run),
+    });
+
+    this.registry.register({
+      id: 'personality',
+      runsAfter: ['model'],
+      execute: (state, context) => {
+        state.gateResults.personality = executePersonalityGate(state, context);
+        state.validatedOutput = state.gateResults.personality.output;
+        return state.gateResults.personality;
+      },
+    });
+
+    this.registry.register({
+      id: 'spark',
+      runsAfter: ['personality'],
+      execute: (state, context) => {
+        // SwordGate may already have recorded a spark result for this turn
+        if (!state.gateResults.spark) {
+          state.gateResults.spark = executeSparkGate(state, context);
+          if (state.gateResults.spark.output.spark) {
+            state.spark = state.gateResults.spark.output.spark;
+          }
+        }
+        return state.gateResults.spark;
+      },
+    });
+  }
+
+  /**
+   * Publish chat.shield_triggered when Shield stops or holds a request, plus
+   * chat.veto when it did so with a veto rather than control mode.
+   */
+  private async emitShieldEvents(
+    result: GateResult<ShieldResult>,
     state: PipelineState,
     context: PipelineContext
+  ): Promise<void> {
+    if (!context.userId || result.action === 'continue') return;
+
+    const shield = result.output;
+    const triggers = shield.triggers
+      ? [...shield.triggers]
+      : typeof shield.controlMode === 'string' ? [shield.controlMode] : [];
+
+    await chatEvents.shieldTriggered(context.userId, {
+      riskLevel: shield.riskLevel,
+      triggers,
+      stance: state.stance ?? 'shield',
+    });
+
+    if (shield.vetoType) {
+      await chatEvents.veto(context.userId, {
+        type: shield.vetoType,
+        reason: shield.message ?? result.message ?? 'Request blocked by Shield',
+      });
+    }
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // PIPELINE RUNNER
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  private async executePipeline(
+    state: PipelineState,
+    context: PipelineContext,
+    hooks: PipelineStreamHooks,
+    startAt?: string
+  ): Promise<PipelineResult> {
+    const { onToken, onReplace } = hooks;
+    if (!onToken) {
+      return this.runStages(state, context, hooks, startAt);
+    }
+
+    let streamed = '';
+    const result = await this.runStages(state, context, {
+      ...hooks,
+      onToken: (text) => {
+        streamed += text;
+        onToken(text);
+      },
+    }, startAt);
+
+    if (streamed && streamed !== result.response) {
+      onReplace?.(result.response);
+    }
+    return result;
+  }
+
+  private async runStages(
+    state: PipelineState,
+    context: PipelineContext,
+    hooks: PipelineStreamHooks,
+    startAt?: string
   ): Promise<PipelineResult> {
     const pipelineStart = state.timestamps.pipelineStart;
+    const definition = this.resolvePipelineDefinition(context.tenantId);
+    const firstStage = startAt ? definition.stages.findIndex(stage => stage.gate === startAt) : 0;
+    const stages = definition.stages
+      .slice(Math.max(firstStage, 0))
+      .filter(stage => stage.enabled !== false);
+    const regenerationStart = stages.findIndex(stage => stage.gate === REGENERATION_START_GATE);
 
-    // ─── STAGE 1: INTENT (ASYNC - LLM POWERED) ───
-    state.gateResults.intent = await executeIntentGateAsync(state, context);
-    state.intent = state.gateResults.intent.output;
+    let regenerationCount = 0;
+    let degradationReason: string | undefined;
+
+    for (let i = 0; i < stages.length; i++) {
+      const stage = stages[i]!;
+      const gate = this.registry.get(stage.gate);
+      if (!gate) {
+        throw new PipelineDefinitionError(definition.id, `unknown gate "${stage.gate}"`);
+      }
+
+      if (gate.shouldSkip?.(state, context) || stage.skipWhen?.(state, context)) {
+        continue;
+      }
+
+      // LLM calls made by the gate are attributed to it in the usage ledger
+      const result = await withUsagePurpose(gate.id, () => runStage(gate, stage, state, context, {
+        regenerationCount,
+        // Only the first attempt streams; regenerated text reaches streaming
+        // clients through the final response instead of as a second token run
+        onToken: regenerationCount === 0 ? hooks.onToken : undefined,
+      }));
+      if (!result) {
+        continue;
+      }
+
+      // Built-in gates write their own typed slot; custom gates are collected by id
+      if (!isCoreGateId(gate.id)) {
+        state.gateResults.custom = { ...state.gateResults.custom, [gate.id]: result };
+      }
+      hooks.onGate?.(gate.id, result);
+
+      switch (result.action) {
+        case 'stop':
+          return {
+            status: 'stopped',
+            response: result.message ?? 'Request cannot be processed.',
+            stance: state.stance ?? 'shield',
+            gateResults: state.gateResults,
+            metadata: {
+              requestId: context.requestId,
+              totalTimeMs: Date.now() - pipelineStart,
+            },
+          };
+
+        case 'await_ack':
+          if (context.ackTokenValid) {
+            state.flags.ackTokenValid = true;
+            break;
+          }
+          return {
+            status: 'await_ack',
+            response: result.message ?? 'Acknowledgment required.',
+            stance: 'shield',
+            gateResults: state.gateResults,
+            ackToken: (result.output as { ackToken?: string } | undefined)?.ackToken,
+            ackMessage: 'Please acknowledge to proceed with this high-stakes request.',
+            metadata: {
+              requestId: context.requestId,
+              totalTimeMs: Date.now() - pipelineStart,
+            },
+          };
+
+        case 'halt':
+          return {
+            status: 'success',
+            response: result.message ?? '',
+            stance: state.stance ?? 'lens',
+            gateResults: state.gateResults,
+            metadata: {
+              requestId: context.requestId,
+              totalTimeMs: Date.now() - pipelineStart,
+            },
+          };
 
-    // ─── STAGE 2: SHIELD (ASYNC - LLM POWERED) ───
-    state.gateResults.shield = await executeShieldGate(state, context);
-    state.shieldResult = state.gateResults.shield.output;
+        case 'regenerate':
+          if (regenerationStart !== -1 && regenerationStart < i && regenerationCount < MAX_REGENERATIONS) {
+            regenerationCount++;
+            state.flags.regenerationAttempt = regenerationCount;
+            i = regenerationStart - 1;
+          }
+          break;
 
-    // Check for hard veto (stop immediately)
-    if (state.gateResults.shield.action === 'stop') {
-      state.stance = state.shieldResult.controlMode ? 'control' : 'shield';
+        case 'degrade':
+          degradationReason = result.message ?? `Degraded by ${gate.id} gate`;
+          break;
+
+        default:
+          break;
+      }
+    }
+
+    // ─── BUILD FINAL RESPONSE ───
+    const finalText = state.validatedOutput?.text ?? state.generation?.text ?? '';
+
+    // Check degradation
+    if (state.lensResult?.status === 'degraded') {
+      degradationReason = state.lensResult.message
+        ?? `Unverified ${state.lensResult.domain ?? 'information'}`;
+    }
+
+    if (degradationReason) {
       return {
-        status: 'stopped',
-        response: state.shieldResult.message ?? 'Request cannot be processed.',
-        stance: state.stance,
+        status: 'degraded',
+        response: finalText,
+        stance: state.stance ?? 'lens',
         gateResults: state.gateResults,
+        spark: state.spark,
         metadata: {
           requestId: context.requestId,
           totalTimeMs: Date.now() - pipelineStart,
+          regenerations: regenerationCount,
+          degradationReason,
         },
       };
     }
 
-    // Check for soft veto (await acknowledgment)
-    if (state.gateResults.shield.action === 'await_ack') {
-      if (context.ackTokenValid) {
-        state.flags.ackTokenValid = true;
-      } else {
-        state.stance = 'shield';
-        return {
-          status: 'await_ack',
-          response: state.shieldResult.message ?? 'Acknowledgment required.',
-          stance: 'shield',
-          gateResults: state.gateResults,
-          ackToken: state.shieldResult.ackToken,
-          ackMessage: 'Please acknowledge to proceed with this high-stakes request.',
-          metadata: {
-            requestId: context.requestId,
-            totalTimeMs: Date.now() - pipelineStart,
-          },
-        };
-      }
-    }
+    return {
+      status: 'success',
+      response: finalText,
+      stance: state.stance ?? 'lens',
+      gateResults: state.gateResults,
+      spark: state.spark,
+      metadata: {
+        requestId: context.requestId,
+        totalTimeMs: Date.now() - pipelineStart,
+        regenerations: regenerationCount,
+      },
+    };
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // BUILT-IN GATE STAGES
+  // ═══════════════════════════════════════════════════════════════════════════
 
-    // ─── STAGE 3: LENS (ASYNC - LLM POWERED WITH TIERED VERIFICATION) ───
+  /**
+   * LENS (async, LLM-powered with tiered verification), falling back to the
+   * sync lens gate in mock mode or on error.
+   */
+  private async runLensGate(
+    state: PipelineState,
+    context: PipelineContext
+  ): Promise<GateResult<unknown>> {
     const shouldUseAsyncLens = !this.useMock && 
                                this.providerManager !== null &&
                                !!process.env.OPENAI_API_KEY && 
@@ -606,34 +1040,31 @@ export class ExecutionPipeline {
       state.lensResult = state.gateResults.lens.output;
     }
 
-    // ─── STAGE 4: STANCE ───
-    state.gateResults.stance = executeStanceGate(state, context);
-    state.stance = state.gateResults.stance.output.stance;
-
-    // ─── STAGE 5: CAPABILITY ───
-    state.gateResults.capability = executeCapabilityGate(state, context);
-    state.capabilities = state.gateResults.capability.output;
-
-    // ═══════════════════════════════════════════════════════════════════════════
-    // STAGE 5.5: SWORDGATE — Goal Creation Flow (Phase 13)
-    // ═══════════════════════════════════════════════════════════════════════════
-    //
-    // Route to SwordGate if:
-    //   1. User has an ACTIVE sword session (explore OR refinement), OR
-    //   2. This is a NEW learning intent (detected by intent OR pattern)
-    //
-    // This ensures follow-up messages like "sure" or "skip" are
-    // routed back to SwordGate even if they don't match the education intent.
-    //
-    // SwordGate handles: explore → capture → refine → suggest → create
-    // If suppressModelGeneration is true, return SwordGate's response directly.
-    //
-    // ═══════════════════════════════════════════════════════════════════════════
-    
+    return state.gateResults.lens;
+  }
+
+  /**
+   * SWORDGATE — Goal Creation Flow (Phase 13)
+   *
+   * Route to SwordGate if:
+   *   1. User has an ACTIVE sword session (explore OR refinement), OR
+   *   2. This is a NEW learning intent (detected by intent OR pattern)
+   *
+   * This ensures follow-up messages like "sure" or "skip" are
+   * routed back to SwordGate even if they don't match the education intent.
+   *
+   * SwordGate handles: explore → capture → refine → suggest → create
+   * If suppressModelGeneration is true, the gate halts the pipeline with
+   * SwordGate's response. Returns null when the request is not routed.
+   */
+  private async runSwordGate(
+    state: PipelineState,
+    context: PipelineContext
+  ): Promise<GateResult<unknown> | null> {
+    const userId = context.userId!;
+
     // Check 1: Does user have an ACTIVE sword session (explore OR refinement)?
-    const hasActiveSwordSession = context.userId 
-      ? await this.checkActiveSwordSession(context.userId)
-      : false;
+    const hasActiveSwordSession = await this.checkActiveSwordSession(userId);
     
     // Check 2: Is this a NEW learning intent?
     // Check both intent classification AND keyword patterns for robustness
@@ -658,344 +1089,328 @@ export class ExecutionPipeline {
     const isNewLearningIntent = isLearningIntentByClassifier || isLearningIntentByPattern;
     
     // Route to SwordGate if EITHER condition is true
-    const shouldUseSwordGate = 
-      this.enableSwordGate &&
-      context.userId &&
-      (hasActiveSwordSession || isNewLearningIntent);
+    const shouldUseSwordGate = hasActiveSwordSession || isNewLearningIntent;
     
     // ★ DIAGNOSTIC: Log the routing decision
-    console.log(`[PIPELINE] SwordGate routing check: enableSwordGate=${this.enableSwordGate}, userId=${!!context.userId}, hasActive=${hasActiveSwordSession}, newIntent=${isNewLearningIntent}, shouldUse=${shouldUseSwordGate}`);
+    console.log(`[PIPELINE] SwordGate routing check: hasActive=${hasActiveSwordSession}, newIntent=${isNewLearningIntent}, shouldUse=${shouldUseSwordGate}`);
     
-    if (shouldUseSwordGate) {
-      console.log('[PIPELINE] Entering SwordGate block...');
-      try {
-        const routeReason = hasActiveSwordSession 
-          ? 'active sword session' 
-          : isLearningIntentByPattern ? 'learning pattern detected' : 'education + action intent';
-        console.log(`[PIPELINE] Routing to SwordGate (${routeReason})`);
-        
-        // Build a compatible state object for SwordGate
-        // SwordGate expects a different PipelineState type with state.input
-        const swordCompatibleState = {
-          ...state,
-          input: {
-            userId: context.userId,
-            message: state.userMessage,
-            sessionId: context.sessionId,
-          },
-          // SwordGate's PipelineState also expects these fields
-          regenerationCount: 0,
-          degraded: false,
-        };
-        
-        const swordGate = this.getSwordGate();
-        // Cast to any to bridge the two different PipelineState types
-        const swordResult = await swordGate.execute(swordCompatibleState as any, context as any);
-        
-        const swordOutput = swordResult.output as SwordGateOutput;
-        
-        // If SwordGate wants to handle the response directly, return early
-        if (swordOutput.suppressModelGeneration && swordOutput.responseMessage) {
-          console.log(`[PIPELINE] SwordGate mode: ${swordOutput.mode}, suppressing LLM`);
-          
-          // Convert SwordGateOutput to SparkResult for type compatibility
-          state.gateResults.spark = {
-            gateId: 'spark',
-            status: swordResult.status,
-            output: {
-              eligible: true,
-              spark: swordOutput.createdGoal ? {
-                action: swordOutput.responseMessage,
-                rationale: `Goal creation via SwordGate: ${swordOutput.mode}`,
-                category: 'immediate' as const,
-              } : undefined,
-            },
-            action: swordResult.action,
-            executionTimeMs: swordResult.executionTimeMs,
-          };
-          
-          return {
-            status: 'success',
-            response: swordOutput.responseMessage,
-            stance: 'sword',
-            gateResults: state.gateResults,
-            metadata: {
-              requestId: context.requestId,
-              totalTimeMs: Date.now() - pipelineStart,
-              // Note: swordMode and refinementProgress stored in gateResults.spark
-            },
-          };
-        }
+    if (!shouldUseSwordGate) {
+      return null;
+    }
+
+    console.log('[PIPELINE] Entering SwordGate block...');
+    try {
+      const routeReason = hasActiveSwordSession 
+        ? 'active sword session' 
+        : isLearningIntentByPattern ? 'learning pattern detected' : 'education + action intent';
+      console.log(`[PIPELINE] Routing to SwordGate (${routeReason})`);
+      
+      // Build a compatible state object for SwordGate
+      // SwordGate expects a different PipelineState type with state.input
+      const swordCompatibleState = {
+        ...state,
+        input: {
+          userId,
+          message: state.userMessage,
+          sessionId: context.sessionId,
+        },
+        // SwordGate's PipelineState also expects these fields
+        regenerationCount: 0,
+        degraded: false,
+      };
+      
+      const swordGate = this.getSwordGate();
+      // Cast to any to bridge the two different PipelineState types
+      const swordResult = await swordGate.execute(swordCompatibleState as any, context as any);
+      
+      const swordOutput = swordResult.output as SwordGateOutput;
+      
+      // If SwordGate wants to handle the response directly, halt the pipeline
+      if (swordOutput.suppressModelGeneration && swordOutput.responseMessage) {
+        console.log(`[PIPELINE] SwordGate mode: ${swordOutput.mode}, suppressing LLM`);
         
-        // Store a compatible spark result for passthrough case
+        // Convert SwordGateOutput to SparkResult for type compatibility
         state.gateResults.spark = {
           gateId: 'spark',
-          status: 'pass',
+          status: swordResult.status,
           output: {
-            eligible: false,
-            ineligibilityReason: 'sword_gate_passthrough',
+            eligible: true,
+            spark: swordOutput.createdGoal ? {
+              action: swordOutput.responseMessage,
+              rationale: `Goal creation via SwordGate: ${swordOutput.mode}`,
+              category: 'immediate' as const,
+            } : undefined,
           },
-          action: 'continue',
+          action: swordResult.action,
           executionTimeMs: swordResult.executionTimeMs,
         };
+        state.stance = 'sword';
         
-        // Continue with normal LLM generation
-        console.log(`[PIPELINE] SwordGate mode: ${swordOutput.mode}, continuing to LLM`);
-        
-      } catch (swordError) {
-        console.error('[PIPELINE] SwordGate error, falling back to normal flow:', swordError);
-        // Continue with normal spark gate on error
+        return {
+          gateId: 'sword',
+          status: swordResult.status,
+          output: swordOutput,
+          action: 'halt',
+          message: swordOutput.responseMessage,
+          executionTimeMs: swordResult.executionTimeMs,
+        };
+      }
+      
+      // Store a compatible spark result for passthrough case
+      state.gateResults.spark = {
+        gateId: 'spark',
+        status: 'pass',
+        output: {
+          eligible: false,
+          ineligibilityReason: 'sword_gate_passthrough',
+        },
+        action: 'continue',
+        executionTimeMs: swordResult.executionTimeMs,
+      };
+      
+      // Continue with normal LLM generation
+      console.log(`[PIPELINE] SwordGate mode: ${swordOutput.mode}, continuing to LLM`);
+
+      return {
+        gateId: 'sword',
+        status: swordResult.status,
+        output: swordOutput,
+        action: 'continue',
+        executionTimeMs: swordResult.executionTimeMs,
+      };
+    } catch (swordError) {
+      console.error('[PIPELINE] SwordGate error, falling back to normal flow:', swordError);
+      // Continue with normal spark gate on error
+      return null;
+    }
+  }
+
+  /**
+   * MODEL. Builds the evidence-augmented prompt from the current state on
+   * every attempt, so gates that rewrite state.userMessage (e.g. redaction)
+   * and regenerations both see the latest input.
+   */
+  private async runModelGate(
+    state: PipelineState,
+    context: PipelineContext,
+    run: GateRunContext
+  ): Promise<GateResult<unknown>> {
+    const { onToken } = run;
+
+    if (this.useMock || !this.providerManager) {
+      state.gateResults.model = executeModelGate(state, context);
+      if (onToken) {
+        for (const piece of state.gateResults.model.output.text.match(/\S+\s*|\s+/g) ?? []) {
+          onToken(piece);
+        }
       }
+    } else {
+      const augmentedMessage = this.buildModelPrompt(state);
+      const generateOptions = {
+        conversationHistory: context.conversationHistory ? [...context.conversationHistory] : undefined,
+      };
+      const systemPrompt = context.conversationSummary
+        ? `${this.systemPrompt}\n\n${formatSummaryForPrompt(context.conversationSummary)}`
+        : this.systemPrompt;
+      state.gateResults.model = await executeModelGateAsync(
+        state,
+        context,
+        (prompt, systemPrompt, constraints) => onToken
+          ? this.providerManager!.generateStream(augmentedMessage, systemPrompt, constraints, {
+              ...generateOptions,
+              onToken,
+            })
+          : this.providerManager!.generate(augmentedMessage, systemPrompt, constraints, generateOptions),
+        systemPrompt
+      );
     }
+    state.generation = state.gateResults.model.output;
 
-    // ─── STAGE 6-7: GENERATION LOOP ───
-    let regenerationCount = 0;
+    return state.gateResults.model;
+  }
 
-    // ─── INJECT LENS EVIDENCE INTO PROMPT ───
-    let augmentedMessage = state.userMessage;
-    const lensResult = state.lensResult as any;
+  /**
+   * Inject lens evidence (or lookup errors) into the user message.
+   */
+  private buildModelPrompt(state: PipelineState): string {
+      let augmentedMessage = state.userMessage;
+      const lensResult = state.lensResult as any;
     
-    let evidenceContext = '';
-    let errorContext = '';
+      let evidenceContext = '';
+      let errorContext = '';
     
-    // Structure 1: Direct fetchResults from orchestrator
-    if (lensResult?.fetchResults?.length > 0) {
-      const successfulFetches = lensResult.fetchResults.filter((f: any) => f.result?.ok);
-      const failedFetches = lensResult.fetchResults.filter((f: any) => f.result && !f.result.ok);
+      // Structure 1: Direct fetchResults from orchestrator
+      if (lensResult?.fetchResults?.length > 0) {
+        const successfulFetches = lensResult.fetchResults.filter((f: any) => f.result?.ok);
+        const failedFetches = lensResult.fetchResults.filter((f: any) => f.result && !f.result.ok);
       
-      if (successfulFetches.length > 0) {
-        const evidenceLines = successfulFetches.map((fetch: any) => {
-          const data = fetch.result.data;
-          if (!data) return null;
+        if (successfulFetches.length > 0) {
+          const evidenceLines = successfulFetches.map((fetch: any) => {
+            const data = fetch.result.data;
+            if (!data) return null;
           
-          if (data.type === 'stock') {
-            const price = data.price ?? 0;
-            const change = data.change ?? 0;
-            const changePercent = data.changePercent ?? 0;
-            const dayLow = data.dayLow ?? 0;
-            const dayHigh = data.dayHigh ?? 0;
-            const prevClose = data.previousClose ?? 0;
-            return `LIVE STOCK DATA for ${data.symbol}:\n` +
-                   `• Current Price: $${price.toFixed(2)} ${data.currency || 'USD'}\n` +
-                   `• Change: ${change >= 0 ? '+' : ''}${change.toFixed(2)} (${changePercent >= 0 ? '+' : ''}${changePercent.toFixed(2)}%)\n` +
-                   `• Day Range: $${dayLow.toFixed(2)} - $${dayHigh.toFixed(2)}\n` +
-                   `• Previous Close: $${prevClose.toFixed(2)}\n` +
-                   `• Exchange: ${data.exchange || 'Unknown'}\n` +
-                   `• Data Source: ${fetch.result.provider} (fetched just now)`;
-          } else if (data.type === 'weather') {
-            const tempF = data.temperatureFahrenheit ?? data.temperature ?? 0;
-            const tempC = data.temperatureCelsius ?? 0;
-            const feelsLikeF = data.feelsLikeFahrenheit ?? 0;
-            const condition = data.condition ?? data.conditions ?? 'Unknown';
-            const humidity = data.humidity ?? 0;
-            const windMph = data.windSpeedMph ?? 0;
-            const windDir = data.windDirection ?? '';
-            return `LIVE WEATHER DATA for ${data.location}:\n` +
-                   `• Temperature: ${tempF}°F (${tempC}°C)\n` +
-                   `• Feels Like: ${feelsLikeF}°F\n` +
-                   `• Conditions: ${condition}\n` +
-                   `• Humidity: ${humidity}%\n` +
-                   `• Wind: ${windMph} mph ${windDir}\n` +
-                   `• Data Source: ${fetch.result.provider}`;
-          } else if (data.type === 'crypto') {
-            const price = data.priceUsd ?? data.price ?? 0;
-            const change = data.change24h ?? data.changePercent24h ?? 0;
-            const marketCap = data.marketCapUsd ?? data.marketCap ?? 0;
-            return `LIVE CRYPTO DATA for ${data.symbol} (${data.name || data.symbol}):\n` +
-                   `• Current Price: $${price.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}\n` +
-                   `• 24h Change: ${change >= 0 ? '+' : ''}${change.toFixed(2)}%\n` +
-                   `• Market Cap: $${(marketCap / 1e9).toFixed(2)}B\n` +
-                   `• Data Source: ${fetch.result.provider}`;
-          } else if (data.type === 'fx') {
-            const fromCurrency = data.baseCurrency ?? data.from ?? '???';
-            const toCurrency = data.quoteCurrency ?? data.to ?? '???';
-            const rate = data.rate ?? 0;
-            return `LIVE EXCHANGE RATE:\n` +
-                   `• ${fromCurrency}/${toCurrency}: ${rate.toFixed(4)}\n` +
-                   `• 1 ${fromCurrency} = ${rate.toFixed(4)} ${toCurrency}\n` +
-                   `• Data Source: ${fetch.result.provider}`;
-          } else if (data.type === 'time') {
-            const timezone = data.timezone ?? data.location ?? 'Unknown';
-            const localTime = data.localTime ?? data.time ?? data.formatted ?? 'Unknown';
-            const abbr = data.abbreviation ?? '';
+            if (data.type === 'stock') {
+              const price = data.price ?? 0;
+              const change = data.change ?? 0;
+              const changePercent = data.changePercent ?? 0;
+              const dayLow = data.dayLow ?? 0;
+              const dayHigh = data.dayHigh ?? 0;
+              const prevClose = data.previousClose ?? 0;
+              return `LIVE STOCK DATA for ${data.symbol}:\n` +
+                     `• Current Price: $${price.toFixed(2)} ${data.currency || 'USD'}\n` +
+                     `• Change: ${change >= 0 ? '+' : ''}${change.toFixed(2)} (${changePercent >= 0 ? '+' : ''}${changePercent.toFixed(2)}%)\n` +
+                     `• Day Range: $${dayLow.toFixed(2)} - $${dayHigh.toFixed(2)}\n` +
+                     `• Previous Close: $${prevClose.toFixed(2)}\n` +
+                     `• Exchange: ${data.exchange || 'Unknown'}\n` +
+                     `• Data Source: ${fetch.result.provider} (fetched just now)`;
+            } else if (data.type === 'weather') {
+              const tempF = data.temperatureFahrenheit ?? data.temperature ?? 0;
+              const tempC = data.temperatureCelsius ?? 0;
+              const feelsLikeF = data.feelsLikeFahrenheit ?? 0;
+              const condition = data.condition ?? data.conditions ?? 'Unknown';
+              const humidity = data.humidity ?? 0;
+              const windMph = data.windSpeedMph ?? 0;
+              const windDir = data.windDirection ?? '';
+              return `LIVE WEATHER DATA for ${data.location}:\n` +
+                     `• Temperature: ${tempF}°F (${tempC}°C)\n` +
+                     `• Feels Like: ${feelsLikeF}°F\n` +
+                     `• Conditions: ${condition}\n` +
+                     `• Humidity: ${humidity}%\n` +
+                     `• Wind: ${windMph} mph ${windDir}\n` +
+                     `• Data Source: ${fetch.result.provider}`;
+            } else if (data.type === 'crypto') {
+              const price = data.priceUsd ?? data.price ?? 0;
+              const change = data.change24h ?? data.changePercent24h ?? 0;
+              const marketCap = data.marketCapUsd ?? data.marketCap ?? 0;
+              return `LIVE CRYPTO DATA for ${data.symbol} (${data.name || data.symbol}):\n` +
+                     `• Current Price: $${price.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}\n` +
+                     `• 24h Change: ${change >= 0 ? '+' : ''}${change.toFixed(2)}%\n` +
+                     `• Market Cap: $${(marketCap / 1e9).toFixed(2)}B\n` +
+                     `• Data Source: ${fetch.result.provider}`;
+            } else if (data.type === 'fx') {
+              const fromCurrency = data.baseCurrency ?? data.from ?? '???';
+              const toCurrency = data.quoteCurrency ?? data.to ?? '???';
+              const rate = data.rate ?? 0;
+              return `LIVE EXCHANGE RATE:\n` +
+                     `• ${fromCurrency}/${toCurrency}: ${rate.toFixed(4)}\n` +
+                     `• 1 ${fromCurrency} = ${rate.toFixed(4)} ${toCurrency}\n` +
+                     `• Data Source: ${fetch.result.provider}`;
+            } else if (data.type === 'time') {
+              const timezone = data.timezone ?? data.location ?? 'Unknown';
+              const localTime = data.localTime ?? data.time ?? data.formatted ?? 'Unknown';
+              const abbr = data.abbreviation ?? '';
             
-            let formattedTime = localTime;
-            let datePart = '';
-            try {
-              const parts = localTime.split(' ');
-              datePart = parts[0] || '';
-              const timePart = parts[1] || localTime;
-              const [hours, minutes] = timePart.split(':').map(Number);
-              const period = hours >= 12 ? 'PM' : 'AM';
-              const hour12 = hours % 12 || 12;
-              formattedTime = `${hour12}:${String(minutes).padStart(2, '0')} ${period}`;
-            } catch {
-              // Keep original if parsing fails
-            }
+              let formattedTime = localTime;
+              let datePart = '';
+              try {
+                const parts = localTime.split(' ');
+                datePart = parts[0] || '';
+                const timePart = parts[1] || localTime;
+                const [hours, minutes] = timePart.split(':').map(Number);
+                const period = hours >= 12 ? 'PM' : 'AM';
+                const hour12 = hours % 12 || 12;
+                formattedTime = `${hour12}:${String(minutes).padStart(2, '0')} ${period}`;
+              } catch {
+                // Keep original if parsing fails
+              }
             
-            const isLocalTime = timezone === 'America/Los_Angeles' || abbr === 'PST' || abbr === 'PDT';
-            const locationName = timezone.split('/')[1]?.replace('_', ' ') || timezone;
+              const isLocalTime = timezone === 'America/Los_Angeles' || abbr === 'PST' || abbr === 'PDT';
+              const locationName = timezone.split('/')[1]?.replace('_', ' ') || timezone;
             
-            if (isLocalTime) {
-              return `===== ANSWER THIS QUESTION ONLY =====\n` +
-                     `The user asked for the CURRENT TIME (their local time).\n` +
-                     `ANSWER: The current time is ${formattedTime}.\n` +
-                     `DO NOT mention any other timezone from earlier in the conversation.\n` +
-                     `DO NOT calculate or convert times. Just state the current local time.\n` +
-                     `===================================`;
-            } else {
-              return `===== ANSWER THIS QUESTION ONLY =====\n` +
-                     `The user asked for the time in ${locationName}.\n` +
-                     `ANSWER: The current time in ${locationName} is ${formattedTime}.\n` +
-                     `DO NOT reference any other timezones or previous questions.\n` +
-                     `===================================`;
+              if (isLocalTime) {
+                return `===== ANSWER THIS QUESTION ONLY =====\n` +
+                       `The user asked for the CURRENT TIME (their local time).\n` +
+                       `ANSWER: The current time is ${formattedTime}.\n` +
+                       `DO NOT mention any other timezone from earlier in the conversation.\n` +
+                       `DO NOT calculate or convert times. Just state the current local time.\n` +
+                       `===================================`;
+              } else {
+                return `===== ANSWER THIS QUESTION ONLY =====\n` +
+                       `The user asked for the time in ${locationName}.\n` +
+                       `ANSWER: The current time in ${locationName} is ${formattedTime}.\n` +
+                       `DO NOT reference any other timezones or previous questions.\n` +
+                       `===================================`;
+              }
             }
-          }
           
-          return `LIVE DATA:\n${JSON.stringify(data, null, 2)}`;
-        }).filter(Boolean);
+            return `LIVE DATA:\n${JSON.stringify(data, null, 2)}`;
+          }).filter(Boolean);
         
-        if (evidenceLines.length > 0) {
-          evidenceContext = evidenceLines.join('\n\n');
+          if (evidenceLines.length > 0) {
+            evidenceContext = evidenceLines.join('\n\n');
+          }
         }
-      }
       
-      if (failedFetches.length > 0) {
-        const errorMessages = failedFetches
-          .filter((f: any) => f.result?.error?.message)
-          .map((f: any) => f.result.error.message);
+        if (failedFetches.length > 0) {
+          const errorMessages = failedFetches
+            .filter((f: any) => f.result?.error?.message)
+            .map((f: any) => f.result.error.message);
         
-        if (errorMessages.length > 0) {
-          errorContext = errorMessages.join('\n');
+          if (errorMessages.length > 0) {
+            errorContext = errorMessages.join('\n');
+          }
         }
       }
-    }
     
-    // Structure 2: evidencePack.items (legacy format)
-    else if (lensResult?.evidencePack?.items?.length > 0) {
-      const evidenceItems = lensResult.evidencePack.items;
-      const evidenceLines = evidenceItems
-        .slice(0, 5)
-        .map((item: any, i: number) => {
-          const content = item.excerpt || item.snippet || '';
-          if (!content || content.length < 10) return null;
-          return `[Source ${i + 1}: ${item.title || item.url}]\n${content}`;
-        })
-        .filter(Boolean);
+      // Structure 2: evidencePack.items (legacy format)
+      else if (lensResult?.evidencePack?.items?.length > 0) {
+        const evidenceItems = lensResult.evidencePack.items;
+        const evidenceLines = evidenceItems
+          .slice(0, 5)
+          .map((item: any, i: number) => {
+            const content = item.excerpt || item.snippet || '';
+            if (!content || content.length < 10) return null;
+            return `[Source ${i + 1}: ${item.title || item.url}]\n${content}`;
+          })
+          .filter(Boolean);
       
-      if (evidenceLines.length > 0) {
-        evidenceContext = evidenceLines.join('\n\n');
+        if (evidenceLines.length > 0) {
+          evidenceContext = evidenceLines.join('\n\n');
+        }
       }
-    }
     
-    // Structure 3: evidence.formattedContext (alternative format)
-    else if (lensResult?.evidence?.formattedContext) {
-      evidenceContext = lensResult.evidence.formattedContext;
-    }
+      // Structure 3: evidence.formattedContext (alternative format)
+      else if (lensResult?.evidence?.formattedContext) {
+        evidenceContext = lensResult.evidence.formattedContext;
+      }
     
-    // Inject evidence into the prompt if we have any
-    if (evidenceContext) {
-      augmentedMessage = `IMPORTANT INSTRUCTION: You have access to LIVE, REAL-TIME data that was just retrieved. You MUST use this data to answer the user's question. Do NOT say you cannot provide real-time information - the verified data is provided below.
-
-===== VERIFIED LIVE DATA =====
-${evidenceContext}
-===== END LIVE DATA =====
-
-USER QUESTION: ${state.userMessage}
-
-Remember: Use the live data above to give a specific, accurate answer. Include the actual numbers from the data.`;
-    }
-    // If no evidence but we have error context (like typo suggestions), inject that
-    else if (errorContext) {
-      augmentedMessage = `IMPORTANT: The data lookup encountered an issue. Please relay this message to the user:
-
-===== DATA LOOKUP ERROR =====
-${errorContext}
-===== END ERROR =====
+      // Inject evidence into the prompt if we have any
+      if (evidenceContext) {
+        augmentedMessage = `IMPORTANT INSTRUCTION: You have access to LIVE, REAL-TIME data that was just retrieved. You MUST use this data to answer the user's question. Do NOT say you cannot provide real-time information - the verified data is provided below.
 
-USER QUESTION: ${state.userMessage}
+  ===== VERIFIED LIVE DATA =====
+  ${evidenceContext}
+  ===== END LIVE DATA =====
 
-Relay the error message above to help the user. If there's a suggestion (like "Did you mean..."), include that in your response.`;
-    }
+  USER QUESTION: ${state.userMessage}
 
-    while (regenerationCount <= MAX_REGENERATIONS) {
-      // ─── STAGE 6: MODEL ───
-      if (this.useMock || !this.providerManager) {
-        state.gateResults.model = executeModelGate(state, context);
-      } else {
-        state.gateResults.model = await executeModelGateAsync(
-          state,
-          context,
-          (prompt, systemPrompt, constraints) => 
-            this.providerManager!.generate(augmentedMessage, systemPrompt, constraints, {
-              conversationHistory: context.conversationHistory ? [...context.conversationHistory] : undefined,
-            }),
-          this.systemPrompt
-        );
+  Remember: Use the live data above to give a specific, accurate answer. Include the actual numbers from the data.`;
       }
-      state.generation = state.gateResults.model.output;
-
-      // ─── STAGE 7: PERSONALITY ───
-      state.gateResults.personality = executePersonalityGate(state, context);
-      state.validatedOutput = state.gateResults.personality.output;
-
-      // Check if regeneration needed
-      if (
-        state.gateResults.personality.action === 'regenerate' &&
-        regenerationCount < MAX_REGENERATIONS
-      ) {
-        regenerationCount++;
-        state.flags.regenerationAttempt = regenerationCount;
-        continue;
-      }
-
-      break;
-    }
+      // If no evidence but we have error context (like typo suggestions), inject that
+      else if (errorContext) {
+        augmentedMessage = `IMPORTANT: The data lookup encountered an issue. Please relay this message to the user:
 
-    // ─── STAGE 8: SPARK (only if not already handled by SwordGate) ───
-    if (!state.gateResults.spark) {
-      state.gateResults.spark = executeSparkGate(state, context);
-      if (state.gateResults.spark.output.spark) {
-        state.spark = state.gateResults.spark.output.spark;
-      }
-    }
+  ===== DATA LOOKUP ERROR =====
+  ${errorContext}
+  ===== END ERROR =====
 
-    // ─── BUILD FINAL RESPONSE ───
-    const finalText = state.validatedOutput?.text ?? state.generation?.text ?? '';
+  USER QUESTION: ${state.userMessage}
 
-    // Check degradation
-    if (state.lensResult?.status === 'degraded') {
-      return {
-        status: 'degraded',
-        response: finalText,
-        stance: state.stance,
-        gateResults: state.gateResults,
-        spark: state.spark,
-        metadata: {
-          requestId: context.requestId,
-          totalTimeMs: Date.now() - pipelineStart,
-          regenerations: regenerationCount,
-          degradationReason: state.lensResult.message 
-            ?? `Unverified ${state.lensResult.domain ?? 'information'}`,
-        },
-      };
-    }
+  Relay the error message above to help the user. If there's a suggestion (like "Did you mean..."), include that in your response.`;
+      }
 
-    return {
-      status: 'success',
-      response: finalText,
-      stance: state.stance,
-      gateResults: state.gateResults,
-      spark: state.spark,
-      metadata: {
-        requestId: context.requestId,
-        totalTimeMs: Date.now() - pipelineStart,
-        regenerations: regenerationCount,
-      },
-    };
+    return augmentedMessage;
   }
 
   getAvailableProviders(): string[] {
     return this.providerManager?.getAvailableProviders() ?? ['mock'];
   }
+
+  getProviderOrder(): string[] {
+    return this.providerManager?.getProviderOrder() ?? ['mock'];
+  }
+
+  async checkProviderHealth(): Promise<ProviderHealth[]> {
+    return this.providerManager?.checkHealth() ?? [];
+  }
 }
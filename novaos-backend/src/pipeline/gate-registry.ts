@@ -0,0 +1,379 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// GATE REGISTRY — Pluggable gates and declarative pipeline definitions
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// The ExecutionPipeline runs whatever stages a PipelineDefinition lists, looking
+// each gate up by id in a GateRegistry. The built-in gates (intent → spark) are
+// registered by the pipeline itself; deployments add their own gates (PII
+// redaction, org policy, ...) by registering them and inserting a stage.
+//
+// Gates follow the GateResult.action contract from BACKEND_ARCHITECTURE_V4:
+//   continue   → run the next stage
+//   stop       → hard veto, respond with result.message
+//   await_ack  → soft veto unless the request carries a valid ack token
+//   halt       → finish early with result.message as a successful response
+//   regenerate → re-run from the model stage (bounded by MAX_REGENERATIONS)
+//   degrade    → keep going, but mark the final response as degraded
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type {
+  PipelineState,
+  PipelineContext,
+  GateResult,
+} from '../types/index.js';
+import { withTimeout, PipelineTimeoutError } from '../helpers/pipeline-utilities.js';
+import { withSpan } from '../observability/tracing/index.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CORE GATE IDS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export type CoreGateId =
+  | 'intent'
+  | 'shield'
+  | 'lens'
+  | 'stance'
+  | 'capability'
+  | 'sword'
+  | 'model'
+  | 'personality'
+  | 'spark';
+
+export const CORE_GATE_IDS: readonly CoreGateId[] = [
+  'intent',
+  'shield',
+  'lens',
+  'stance',
+  'capability',
+  'sword',
+  'model',
+  'personality',
+  'spark',
+];
+
+/**
+ * Regeneration jumps back to this stage. A user regenerating a response
+ * re-runs it and every stage ordered after it; earlier results are reused.
+ */
+export const REGENERATION_START_GATE: CoreGateId = 'model';
+
+export function isCoreGateId(id: string): id is CoreGateId {
+  return (CORE_GATE_IDS as readonly string[]).includes(id);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// GATE INTERFACE
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export type GateSkipCondition = (state: PipelineState, context: PipelineContext) => boolean;
+
+export type GateTimeoutPolicy = 'fail' | 'skip';
+
+/**
+ * Per-run values the pipeline hands to each gate.
+ */
+export interface GateRunContext {
+  /** Number of regenerations performed so far (0 on the first pass) */
+  readonly regenerationCount: number;
+  /** Streaming observers, if the caller requested them */
+  readonly onToken?: (text: string) => void;
+}
+
+/**
+ * A pipeline gate. Gates read and write the shared PipelineState and return a
+ * GateResult whose `action` drives control flow. Returning null means the gate
+ * chose not to act on this request (nothing is recorded or reported).
+ */
+export interface PipelineGate<T = unknown> {
+  readonly id: string;
+  /** Required gates cannot be omitted, disabled, skipped or fail open */
+  readonly required?: boolean;
+  /** Gates that must appear earlier in any definition that includes this one */
+  readonly runsAfter?: readonly string[];
+  /** Default timeout; a stage definition may override it */
+  readonly timeoutMs?: number;
+  /** Default timeout policy; a stage definition may override it */
+  readonly onTimeout?: GateTimeoutPolicy;
+  /** Gate-level skip condition, evaluated before the stage's own skipWhen */
+  shouldSkip?(state: PipelineState, context: PipelineContext): boolean;
+  execute(
+    state: PipelineState,
+    context: PipelineContext,
+    run: GateRunContext
+  ): Promise<GateResult<T> | null> | GateResult<T> | null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// PIPELINE DEFINITION
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export interface PipelineStageDefinition {
+  /** Registry id of the gate to run */
+  readonly gate: string;
+  /** Set to false to keep the stage listed but not run it */
+  readonly enabled?: boolean;
+  readonly timeoutMs?: number;
+  readonly onTimeout?: GateTimeoutPolicy;
+  readonly skipWhen?: GateSkipCondition;
+}
+
+export interface PipelineDefinition {
+  readonly id: string;
+  readonly stages: readonly PipelineStageDefinition[];
+}
+
+export const DEFAULT_PIPELINE_DEFINITION: PipelineDefinition = {
+  id: 'default',
+  stages: CORE_GATE_IDS.map(gate => ({ gate })),
+};
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// ERRORS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export class PipelineDefinitionError extends Error {
+  readonly code = 'INVALID_PIPELINE_DEFINITION';
+  readonly definitionId: string;
+
+  constructor(definitionId: string, message: string) {
+    super(`Pipeline definition "${definitionId}": ${message}`);
+    this.name = 'PipelineDefinitionError';
+    this.definitionId = definitionId;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// REGISTRY
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export class GateRegistry {
+  private gates = new Map<string, PipelineGate>();
+
+  register(gate: PipelineGate): void {
+    if (this.gates.has(gate.id)) {
+      throw new Error(`Gate already registered: ${gate.id}`);
+    }
+    this.gates.set(gate.id, gate);
+  }
+
+  /**
+   * Replace a registered gate (or register it if absent). Used to swap a
+   * built-in implementation without touching pipeline definitions.
+   */
+  replace(gate: PipelineGate): void {
+    this.gates.set(gate.id, gate);
+  }
+
+  unregister(id: string): boolean {
+    const gate = this.gates.get(id);
+    if (gate?.required) {
+      throw new Error(`Cannot unregister required gate: ${id}`);
+    }
+    return this.gates.delete(id);
+  }
+
+  get(id: string): PipelineGate | undefined {
+    return this.gates.get(id);
+  }
+
+  has(id: string): boolean {
+    return this.gates.has(id);
+  }
+
+  list(): string[] {
+    return [...this.gates.keys()];
+  }
+
+  /**
+   * Check a definition against the registered gates.
+   * Throws PipelineDefinitionError on the first problem found.
+   */
+  validate(definition: PipelineDefinition): void {
+    const seen = new Set<string>();
+
+    for (const stage of definition.stages) {
+      const gate = this.gates.get(stage.gate);
+      if (!gate) {
+        throw new PipelineDefinitionError(definition.id, `unknown gate "${stage.gate}"`);
+      }
+      if (seen.has(stage.gate)) {
+        throw new PipelineDefinitionError(definition.id, `gate "${stage.gate}" listed more than once`);
+      }
+
+      if (gate.required) {
+        if (stage.enabled === false || stage.skipWhen) {
+          throw new PipelineDefinitionError(definition.id, `required gate "${gate.id}" cannot be disabled or skipped`);
+        }
+        if ((stage.onTimeout ?? gate.onTimeout) === 'skip') {
+          throw new PipelineDefinitionError(definition.id, `required gate "${gate.id}" cannot skip on timeout`);
+        }
+      }
+
+      for (const dependency of gate.runsAfter ?? []) {
+        const listed = definition.stages.some(s => s.gate === dependency);
+        if (listed && !seen.has(dependency)) {
+          throw new PipelineDefinitionError(definition.id, `gate "${gate.id}" must run after "${dependency}"`);
+        }
+      }
+
+      seen.add(stage.gate);
+    }
+
+    for (const gate of this.gates.values()) {
+      if (gate.required && !seen.has(gate.id)) {
+        throw new PipelineDefinitionError(definition.id, `required gate "${gate.id}" is missing`);
+      }
+    }
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// DEFINITION HELPERS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export type StagePosition =
+  | { readonly before: string }
+  | { readonly after: string };
+
+/**
+ * Return a copy of a definition with a stage inserted before or after
+ * an existing one.
+ */
+export function insertStage(
+  definition: PipelineDefinition,
+  stage: PipelineStageDefinition,
+  position: StagePosition,
+  id: string = definition.id
+): PipelineDefinition {
+  const anchor = 'before' in position ? position.before : position.after;
+  const index = definition.stages.findIndex(s => s.gate === anchor);
+  if (index === -1) {
+    throw new PipelineDefinitionError(definition.id, `anchor gate "${anchor}" not found`);
+  }
+
+  const insertAt = 'before' in position ? index : index + 1;
+  const stages = [...definition.stages];
+  stages.splice(insertAt, 0, stage);
+  return { id, stages };
+}
+
+/**
+ * Return a copy of a definition with the given gate's stage options updated.
+ */
+export function configureStage(
+  definition: PipelineDefinition,
+  gate: string,
+  options: Omit<PipelineStageDefinition, 'gate'>,
+  id: string = definition.id
+): PipelineDefinition {
+  if (!definition.stages.some(s => s.gate === gate)) {
+    throw new PipelineDefinitionError(definition.id, `gate "${gate}" not found`);
+  }
+  return {
+    id,
+    stages: definition.stages.map(s => (s.gate === gate ? { ...s, ...options } : s)),
+  };
+}
+
+/**
+ * Return a copy of a definition with the stages reordered. Gates not named in
+ * `order` keep their relative position after the named ones.
+ */
+export function reorderStages(
+  definition: PipelineDefinition,
+  order: readonly string[],
+  id: string = definition.id
+): PipelineDefinition {
+  const named = order.map(gate => {
+    const stage = definition.stages.find(s => s.gate === gate);
+    if (!stage) {
+      throw new PipelineDefinitionError(definition.id, `gate "${gate}" not found`);
+    }
+    return stage;
+  });
+  const rest = definition.stages.filter(s => !order.includes(s.gate));
+  return { id, stages: [...named, ...rest] };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// STAGE EXECUTION
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Run one stage, applying its timeout and timeout policy.
+ * Returns null when the gate produced no result or timed out with policy 'skip'.
+ * Each stage is recorded as a `gate.<id>` span of the request's trace.
+ */
+export async function runStage(
+  gate: PipelineGate,
+  stage: PipelineStageDefinition,
+  state: PipelineState,
+  context: PipelineContext,
+  run: GateRunContext
+): Promise<GateResult<unknown> | null> {
+  return withSpan(`gate.${gate.id}`, async (span) => {
+    span.setAttribute('gate.id', gate.id);
+
+    const result = await executeStage(gate, stage, state, context, run);
+    if (result) {
+      span.setAttributes({
+        'gate.action': result.action,
+        'gate.status': result.status,
+      });
+    } else {
+      span.setAttribute('gate.skipped', true);
+    }
+    return result;
+  });
+}
+
+async function executeStage(
+  gate: PipelineGate,
+  stage: PipelineStageDefinition,
+  state: PipelineState,
+  context: PipelineContext,
+  run: GateRunContext
+): Promise<GateResult<unknown> | null> {
+  const timeoutMs = stage.timeoutMs ?? gate.timeoutMs;
+
+  if (!timeoutMs) {
+    return gate.execute(state, context, run);
+  }
+
+  // A gate that times out keeps running. It works on a copy of the state,
+  // adopted only when it finishes in time, so a late result changes nothing.
+  const working = structuredClone(state);
+  let abandoned = false;
+  const onToken = run.onToken;
+  const execution = Promise.resolve(gate.execute(working, context, {
+    ...run,
+    onToken: onToken && ((text: string) => { if (!abandoned) onToken(text); }),
+  }));
+
+  try {
+    const result = await withTimeout(execution, timeoutMs, {
+      requestId: context.requestId,
+      gateId: gate.id,
+    });
+    adoptState(state, working);
+    return result;
+  } catch (error) {
+    abandoned = true;
+    const policy = stage.onTimeout ?? gate.onTimeout ?? 'fail';
+    if (error instanceof PipelineTimeoutError && policy === 'skip') {
+      console.warn(`[PIPELINE] Gate ${gate.id} timed out after ${timeoutMs}ms, skipping`);
+      return null;
+    }
+    throw error;
+  }
+}
+
+function adoptState(state: PipelineState, working: PipelineState): void {
+  for (const key of Object.keys(state)) {
+    if (!(key in working)) {
+      delete (state as unknown as Record<string, unknown>)[key];
+    }
+  }
+  Object.assign(state, working);
+}
@@ -4,15 +4,59 @@
 // ═══════════════════════════════════════════════════════════════════════════════
 
 import OpenAI from 'openai';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { GoogleGenerativeAI, type UsageMetadata } from '@google/generative-ai';
 import type { Generation, GenerationConstraints, ConversationMessage } from '../types/index.js';
+import { withSpan } from '../observability/tracing/index.js';
+import {
+  loadFeatureFlags,
+  loadLocalModelConfig,
+  loadUsageConfig,
+  type LocalModelConfig,
+} from '../config/index.js';
+import { getCircuitBreaker } from '../infrastructure/circuit-breaker/breaker.js';
+import { CircuitOpenError } from '../infrastructure/circuit-breaker/types.js';
+import { createRetryPolicy, isRetryableError } from '../infrastructure/retry/policy.js';
+import { RetryExhaustedError, type RetryConfig } from '../infrastructure/retry/types.js';
+import { getUsageLedger } from '../usage/ledger.js';
+import { getUsageScope } from '../usage/scope.js';
+import {
+  ensureJsonInstruction,
+  parseJsonResponse,
+  LlmUnavailableError,
+  LlmTimeoutError,
+  type Completion,
+  type CompletionRequest,
+  type LlmClient,
+} from './llm-client.js';
+
+export * from './llm-client.js';
 
 // ─────────────────────────────────────────────────────────────────────────────────
 // PROVIDER INTERFACE
 // ─────────────────────────────────────────────────────────────────────────────────
 
+export type ProviderName = 'openai' | 'gemini' | 'local' | 'mock';
+
+export const PROVIDER_NAMES: readonly ProviderName[] = ['openai', 'gemini', 'local', 'mock'];
+
+export interface ProviderHealth {
+  provider: string;
+  healthy: boolean;
+  checkedAt: string;
+  latencyMs?: number;
+  error?: string;
+  details?: Record<string, unknown>;
+}
+
 export interface GenerateOptions {
   conversationHistory?: ConversationMessage[];
+  /** Model for this call, applied within the provider's family (see CompletionRequest.model) */
+  model?: string;
+}
+
+export interface StreamGenerateOptions extends GenerateOptions {
+  /** Called with each text delta as the model produces it */
+  onToken: (text: string) => void;
 }
 
 export interface ModelProvider {
@@ -23,30 +67,72 @@ export interface ModelProvider {
     constraints?: GenerationConstraints,
     options?: GenerateOptions
   ): Promise<Generation>;
+  /**
+   * Streaming variant of generate(). Emits text deltas through
+   * options.onToken and resolves with the complete Generation once the
+   * model has finished.
+   */
+  generateStream(
+    prompt: string,
+    systemPrompt: string,
+    constraints: GenerationConstraints | undefined,
+    options: StreamGenerateOptions
+  ): Promise<Generation>;
+  /**
+   * Raw chat completion for classifiers and sub-flows: no Nova constraints,
+   * optional JSON mode. See LlmClient.
+   */
+  complete(request: CompletionRequest): Promise<Completion>;
   isAvailable(): boolean;
+  /** Actively probe the backend. Providers without a probe report configuration only. */
+  probeHealth?(): Promise<ProviderHealth>;
+}
+
+type ModelFamily = 'openai' | 'gemini' | 'local';
+
+/**
+ * Per-call model override, applied only within the provider's own family.
+ * Self-hosted servers always use their configured model: per-call models
+ * name hosted models that a local server does not serve.
+ */
+function resolveModel(requested: string | undefined, fallback: string, family: ModelFamily): string {
+  if (!requested || family === 'local') return fallback;
+  const isGemini = requested.startsWith('gemini');
+  return (family === 'gemini') === isGemini ? requested : fallback;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────────
-// OPENAI PROVIDER
+// OPENAI-COMPATIBLE BASE
 // ─────────────────────────────────────────────────────────────────────────────────
 
-export class OpenAIProvider implements ModelProvider {
-  name = 'openai';
-  private client: OpenAI | null = null;
-  private model: string;
+type ChatMessage = OpenAI.Chat.ChatCompletionMessageParam;
 
-  constructor(apiKey?: string, model: string = 'gpt-4o-mini') {
-    const key = apiKey ?? process.env.OPENAI_API_KEY;
-    if (key) {
-      this.client = new OpenAI({ apiKey: key });
-    }
-    this.model = model;
-  }
+/**
+ * Chat Completions implementation shared by OpenAI and self-hosted servers
+ * that speak the same API.
+ */
+abstract class OpenAICompatibleProvider implements ModelProvider {
+  abstract name: string;
+  protected abstract readonly displayName: string;
+  protected abstract readonly family: ModelFamily;
+
+  constructor(
+    protected client: OpenAI | null,
+    protected model: string
+  ) {}
 
   isAvailable(): boolean {
     return this.client !== null;
   }
 
+  /**
+   * Adjust messages and output budget before a request. The default sends
+   * them unchanged; providers with a small context window trim history.
+   */
+  protected fitToContext(messages: ChatMessage[], maxTokens: number): { messages: ChatMessage[]; maxTokens: number } {
+    return { messages, maxTokens };
+  }
+
   async generate(
     prompt: string,
     systemPrompt: string,
@@ -54,13 +140,148 @@ export class OpenAIProvider implements ModelProvider {
     options?: GenerateOptions
   ): Promise<Generation> {
     if (!this.client) {
-      throw new Error('OpenAI client not initialized');
+      throw new Error(`${this.displayName} client not initialized`);
+    }
+
+    const { messages, maxTokens } = this.fitToContext(
+      this.buildMessages(prompt, systemPrompt, constraints, options),
+      2048
+    );
+    const model = resolveModel(options?.model, this.model, this.family);
+
+    const response = await this.client.chat.completions.create({
+      model,
+      messages,
+      max_tokens: maxTokens,
+      temperature: 0.7,
+    });
+
+    const text = response.choices[0]?.message?.content ?? '';
+    const tokensUsed = response.usage?.total_tokens ?? 0;
+
+    return {
+      text: this.applyPostConstraints(text, constraints),
+      model,
+      tokensUsed,
+      promptTokens: response.usage?.prompt_tokens,
+      completionTokens: response.usage?.completion_tokens,
+      constraints,
+    };
+  }
+
+  async generateStream(
+    prompt: string,
+    systemPrompt: string,
+    constraints: GenerationConstraints | undefined,
+    options: StreamGenerateOptions
+  ): Promise<Generation> {
+    if (!this.client) {
+      throw new Error(`${this.displayName} client not initialized`);
+    }
+
+    const { messages, maxTokens } = this.fitToContext(
+      this.buildMessages(prompt, systemPrompt, constraints, options),
+      2048
+    );
+    const model = resolveModel(options.model, this.model, this.family);
+
+    const stream = await this.client.chat.completions.create({
+      model,
+      messages,
+      max_tokens: maxTokens,
+      temperature: 0.7,
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+
+    const prefix = constraints?.mustPrepend ? constraints.mustPrepend + '\n\n' : '';
+    if (prefix) {
+      options.onToken(prefix);
+    }
+
+    let text = '';
+    let usage: OpenAI.CompletionUsage | undefined;
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        options.onToken(delta);
+      }
+      if (chunk.usage) {
+        usage = chunk.usage;
+      }
     }
 
+    const finalText = this.applyPostConstraints(text, constraints);
+    const suffix = finalText.slice(prefix.length + text.length);
+    if (suffix) {
+      options.onToken(suffix);
+    }
+
+    return {
+      text: finalText,
+      model,
+      tokensUsed: usage?.total_tokens ?? 0,
+      promptTokens: usage?.prompt_tokens,
+      completionTokens: usage?.completion_tokens,
+      constraints,
+    };
+  }
+
+  async complete(request: CompletionRequest): Promise<Completion> {
+    if (!this.client) {
+      throw new Error(`${this.displayName} client not initialized`);
+    }
+
+    const json = request.responseFormat === 'json' || request.jsonSchema !== undefined;
+    const { messages, maxTokens } = this.fitToContext(
+      json ? ensureJsonInstruction(request.messages) : [...request.messages],
+      request.maxTokens ?? 1024
+    );
+    const model = resolveModel(request.model, this.model, this.family);
+
+    const response = await this.client.chat.completions.create({
+      model,
+      messages,
+      max_tokens: maxTokens,
+      temperature: request.temperature ?? 0,
+      ...(request.jsonSchema
+        ? {
+            response_format: {
+              type: 'json_schema' as const,
+              json_schema: {
+                name: request.jsonSchema.name,
+                schema: request.jsonSchema.schema,
+                strict: request.jsonSchema.strict ?? false,
+              },
+            },
+          }
+        : json
+          ? { response_format: { type: 'json_object' as const } }
+          : {}),
+    });
+
+    return {
+      text: response.choices[0]?.message?.content?.trim() ?? '',
+      provider: this.name,
+      model,
+      tokensUsed: response.usage?.total_tokens ?? 0,
+      promptTokens: response.usage?.prompt_tokens,
+      completionTokens: response.usage?.completion_tokens,
+    };
+  }
+
+  private buildMessages(
+    prompt: string,
+    systemPrompt: string,
+    constraints?: GenerationConstraints,
+    options?: GenerateOptions
+  ): ChatMessage[] {
     const fullSystemPrompt = this.buildSystemPrompt(systemPrompt, constraints);
 
     // Build messages array with conversation history
-    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+    const messages: ChatMessage[] = [
       { role: 'system', content: fullSystemPrompt },
     ];
 
@@ -77,22 +298,7 @@ export class OpenAIProvider implements ModelProvider {
     // Add current user message
     messages.push({ role: 'user', content: prompt });
 
-    const response = await this.client.chat.completions.create({
-      model: this.model,
-      messages,
-      max_tokens: 2048,
-      temperature: 0.7,
-    });
-
-    const text = response.choices[0]?.message?.content ?? '';
-    const tokensUsed = response.usage?.total_tokens ?? 0;
-
-    return {
-      text: this.applyPostConstraints(text, constraints),
-      model: this.model,
-      tokensUsed,
-      constraints,
-    };
+    return messages;
   }
 
   private buildSystemPrompt(base: string, constraints?: GenerationConstraints): string {
@@ -140,10 +346,332 @@ export class OpenAIProvider implements ModelProvider {
   }
 }
 
+// ─────────────────────────────────────────────────────────────────────────────────
+// OPENAI PROVIDER
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export class OpenAIProvider extends OpenAICompatibleProvider {
+  name = 'openai';
+  protected readonly displayName = 'OpenAI';
+  protected readonly family = 'openai';
+
+  constructor(apiKey?: string, model: string = 'gpt-4o-mini') {
+    const key = apiKey ?? process.env.OPENAI_API_KEY;
+    super(key ? new OpenAI({ apiKey: key }) : null, model);
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// LOCAL PROVIDER (Ollama, llama.cpp server, vLLM, ...)
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export interface LocalModelCapabilities {
+  model: string;
+  contextLength: number;
+  toolCalling: boolean;
+}
+
+const DEFAULT_LOCAL_CONTEXT_LENGTH = 8192;
+const LOCAL_HEALTH_PROBE_TIMEOUT_MS = 5000;
+
+/** Output budget kept free when trimming history to fit the context window */
+const MIN_LOCAL_OUTPUT_TOKENS = 256;
+
+/** Rough token count; the server's tokenizer is not available here */
+function estimateTokens(message: ChatMessage): number {
+  const content = typeof message.content === 'string'
+    ? message.content
+    : JSON.stringify(message.content ?? '');
+  return Math.ceil(content.length / 4) + 4;
+}
+
+/**
+ * Context window advertised in a /models entry. Servers disagree on the
+ * field: vLLM `max_model_len`, llama.cpp `meta.n_ctx_train`, LM Studio
+ * `max_context_length`.
+ */
+function advertisedContextLength(entry: Record<string, unknown>): number | undefined {
+  const meta = entry.meta as Record<string, unknown> | undefined;
+  const candidates = [entry.max_model_len, entry.context_length, entry.max_context_length, meta?.n_ctx_train];
+  for (const value of candidates) {
+    if (typeof value === 'number' && value > 0) return value;
+  }
+  return undefined;
+}
+
+/**
+ * Provider for any server that speaks the OpenAI Chat Completions API, so
+ * deployments can run without reaching a hosted model.
+ *
+ * Health is probed with GET /models, on demand and at most once per
+ * interval from isAvailable(). While the last probe or a connection
+ * failure says the server is down, the provider reports unavailable and
+ * ProviderManager moves on to the next provider.
+ */
+export class LocalProvider extends OpenAICompatibleProvider {
+  name = 'local';
+  protected readonly displayName = 'Local model';
+  protected readonly family = 'local';
+
+  private readonly config: LocalModelConfig;
+  private health: ProviderHealth | null = null;
+  private probing: Promise<ProviderHealth> | null = null;
+  private detectedContextLength: number | undefined;
+  private toolCalling: Promise<boolean> | null = null;
+
+  constructor(config: Partial<LocalModelConfig> = {}) {
+    const resolved = { ...loadLocalModelConfig(), ...config };
+    super(
+      resolved.baseUrl
+        ? new OpenAI({
+            baseURL: resolved.baseUrl.replace(/\/+$/, ''),
+            // Most local servers ignore the key, but the SDK requires one
+            apiKey: resolved.apiKey ?? 'local',
+            timeout: resolved.requestTimeoutMs,
+            // ProviderManager owns retries
+            maxRetries: 0,
+          })
+        : null,
+      resolved.model
+    );
+    this.config = resolved;
+  }
+
+  isAvailable(): boolean {
+    if (!this.client) return false;
+    this.refreshHealthIfStale();
+    return this.health?.healthy !== false;
+  }
+
+  async generate(
+    prompt: string,
+    systemPrompt: string,
+    constraints?: GenerationConstraints,
+    options?: GenerateOptions
+  ): Promise<Generation> {
+    return this.trackConnection(() => super.generate(prompt, systemPrompt, constraints, options));
+  }
+
+  async generateStream(
+    prompt: string,
+    systemPrompt: string,
+    constraints: GenerationConstraints | undefined,
+    options: StreamGenerateOptions
+  ): Promise<Generation> {
+    return this.trackConnection(() => super.generateStream(prompt, systemPrompt, constraints, options));
+  }
+
+  async complete(request: CompletionRequest): Promise<Completion> {
+    return this.trackConnection(() => super.complete(request));
+  }
+
+  /**
+   * Context window in tokens: configured, else advertised by the server,
+   * else a conservative default.
+   */
+  getContextLength(): number {
+    return this.config.contextLength || this.detectedContextLength || DEFAULT_LOCAL_CONTEXT_LENGTH;
+  }
+
+  async getCapabilities(): Promise<LocalModelCapabilities> {
+    if (!this.health) {
+      await this.probeHealth();
+    }
+    return {
+      model: this.model,
+      contextLength: this.getContextLength(),
+      toolCalling: await this.detectToolCalling(),
+    };
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // HEALTH
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  async probeHealth(): Promise<ProviderHealth> {
+    if (!this.probing) {
+      this.probing = this.runHealthProbe().finally(() => {
+        this.probing = null;
+      });
+    }
+    return this.probing;
+  }
+
+  private refreshHealthIfStale(): void {
+    const interval = this.config.healthCheckIntervalMs;
+    if (interval <= 0 || this.probing) return;
+    if (this.health && Date.now() - Date.parse(this.health.checkedAt) < interval) return;
+    // Failures are recorded in the health state, never thrown
+    void this.probeHealth();
+  }
+
+  private async runHealthProbe(): Promise<ProviderHealth> {
+    const start = Date.now();
+    const record = (healthy: boolean, extra: Partial<ProviderHealth> = {}): ProviderHealth => {
+      this.health = {
+        provider: this.name,
+        healthy,
+        checkedAt: new Date().toISOString(),
+        latencyMs: Date.now() - start,
+        ...extra,
+      };
+      return this.health;
+    };
+
+    if (!this.client) {
+      return record(false, { error: 'Local model base URL not configured' });
+    }
+
+    try {
+      const response = await fetch(`${this.client.baseURL}/models`, {
+        headers: this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {},
+        signal: AbortSignal.timeout(Math.min(LOCAL_HEALTH_PROBE_TIMEOUT_MS, this.config.requestTimeoutMs)),
+      });
+      if (!response.ok) {
+        return record(false, { error: `GET /models returned ${response.status}` });
+      }
+
+      const body = await response.json() as { data?: Array<Record<string, unknown>> };
+      const models = body.data ?? [];
+      // Ollama lists tags ("llama3.1:latest"); llama.cpp serves a single
+      // model whatever name the request uses
+      const entry = models.find((m) => m.id === this.model || m.id === `${this.model}:latest`)
+        ?? (models.length === 1 ? models[0] : undefined);
+      if (entry) {
+        this.detectedContextLength = advertisedContextLength(entry);
+      }
+
+      return record(true, {
+        details: {
+          model: this.model,
+          modelListed: entry !== undefined,
+          contextLength: this.getContextLength(),
+          toolCalling: await this.detectToolCalling(),
+        },
+      });
+    } catch (error) {
+      return record(false, { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  /**
+   * Mark the server down on connection failures so fallback skips it until
+   * the next successful probe. Timeouts only mean the model is busy.
+   */
+  private async trackConnection<T>(fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (error) {
+      if (error instanceof OpenAI.APIConnectionError && !(error instanceof OpenAI.APIConnectionTimeoutError)) {
+        this.health = {
+          provider: this.name,
+          healthy: false,
+          checkedAt: new Date().toISOString(),
+          error: error.message,
+        };
+      }
+      throw error;
+    }
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // CAPABILITIES
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Tool calling depends on the server and the model's chat template, so in
+   * 'auto' mode one request with a tool attached decides it. The answer is
+   * cached unless the server could not be reached.
+   */
+  private detectToolCalling(): Promise<boolean> {
+    if (this.config.toolCalling !== 'auto') {
+      return Promise.resolve(this.config.toolCalling === 'enabled');
+    }
+    if (!this.toolCalling) {
+      this.toolCalling = this.probeToolCalling().catch(() => {
+        this.toolCalling = null;
+        return false;
+      });
+    }
+    return this.toolCalling;
+  }
+
+  private async probeToolCalling(): Promise<boolean> {
+    if (!this.client) return false;
+
+    try {
+      const response = await this.client.chat.completions.create({
+        model: this.model,
+        messages: [{ role: 'user', content: 'Call the ping tool.' }],
+        tools: [{
+          type: 'function',
+          function: {
+            name: 'ping',
+            description: 'Connectivity check',
+            parameters: { type: 'object', properties: {} },
+          },
+        }],
+        max_tokens: 64,
+        temperature: 0,
+      });
+      return (response.choices[0]?.message?.tool_calls?.length ?? 0) > 0;
+    } catch (error) {
+      if (error instanceof OpenAI.APIConnectionError) {
+        throw error;
+      }
+      // Servers without tool support reject the request
+      return false;
+    }
+  }
+
+  /**
+   * Drop the oldest history until the prompt plus a minimum output budget
+   * fits, then clamp the output budget to the remaining window. System
+   * messages and the latest message are always kept.
+   */
+  protected fitToContext(messages: ChatMessage[], maxTokens: number): { messages: ChatMessage[]; maxTokens: number } {
+    const contextLength = this.getContextLength();
+    const fitted = [...messages];
+    let used = fitted.reduce((sum, m) => sum + estimateTokens(m), 0);
+    const reserve = Math.min(maxTokens, MIN_LOCAL_OUTPUT_TOKENS);
+
+    while (used + reserve > contextLength) {
+      const index = fitted.findIndex((m, i) => m.role !== 'system' && i < fitted.length - 1);
+      if (index === -1) break;
+      used -= estimateTokens(fitted[index]!);
+      fitted.splice(index, 1);
+    }
+
+    return {
+      messages: fitted,
+      maxTokens: Math.max(1, Math.min(maxTokens, contextLength - used)),
+    };
+  }
+}
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // GEMINI PROVIDER
 // ─────────────────────────────────────────────────────────────────────────────────
 
+/**
+ * Token counts from Gemini usage metadata, estimated from the output
+ * length when the response carries none.
+ */
+function geminiUsage(
+  metadata: UsageMetadata | undefined,
+  text: string
+): Pick<Generation, 'tokensUsed' | 'promptTokens' | 'completionTokens'> {
+  if (!metadata) {
+    const estimate = Math.ceil(text.length / 4);
+    return { tokensUsed: estimate, completionTokens: estimate };
+  }
+  return {
+    tokensUsed: metadata.totalTokenCount,
+    promptTokens: metadata.promptTokenCount,
+    completionTokens: metadata.candidatesTokenCount,
+  };
+}
+
 export class GeminiProvider implements ModelProvider {
   name = 'gemini';
   private client: GoogleGenerativeAI | null = null;
@@ -172,8 +700,9 @@ export class GeminiProvider implements ModelProvider {
     }
 
     const fullSystemPrompt = this.buildSystemPrompt(systemPrompt, constraints);
+    const modelName = resolveModel(options?.model, this.model, 'gemini');
     const model = this.client.getGenerativeModel({ 
-      model: this.model,
+      model: modelName,
       systemInstruction: fullSystemPrompt,
     });
 
@@ -187,12 +716,11 @@ export class GeminiProvider implements ModelProvider {
       });
       const result = await chat.sendMessage(prompt);
       const text = result.response.text();
-      const tokensUsed = Math.ceil(text.length / 4);
       
       return {
         text: this.applyPostConstraints(text, constraints),
-        model: this.model,
-        tokensUsed,
+        model: modelName,
+        ...geminiUsage(result.response.usageMetadata, text),
         constraints,
       };
     }
@@ -201,16 +729,114 @@ export class GeminiProvider implements ModelProvider {
     const result = await model.generateContent(prompt);
     const response = result.response;
     const text = response.text();
-    const tokensUsed = Math.ceil(text.length / 4);
 
     return {
       text: this.applyPostConstraints(text, constraints),
-      model: this.model,
-      tokensUsed,
+      model: modelName,
+      ...geminiUsage(response.usageMetadata, text),
+      constraints,
+    };
+  }
+
+  async generateStream(
+    prompt: string,
+    systemPrompt: string,
+    constraints: GenerationConstraints | undefined,
+    options: StreamGenerateOptions
+  ): Promise<Generation> {
+    if (!this.client) {
+      throw new Error('Gemini client not initialized');
+    }
+
+    const fullSystemPrompt = this.buildSystemPrompt(systemPrompt, constraints);
+    const modelName = resolveModel(options.model, this.model, 'gemini');
+    const model = this.client.getGenerativeModel({
+      model: modelName,
+      systemInstruction: fullSystemPrompt,
+    });
+
+    // Use a chat session when history is present, otherwise a single-shot stream
+    const result = options.conversationHistory?.length
+      ? await model.startChat({
+          history: options.conversationHistory.map(msg => ({
+            role: msg.role === 'assistant' ? 'model' : 'user',
+            parts: [{ text: msg.content }],
+          })),
+        }).sendMessageStream(prompt)
+      : await model.generateContentStream(prompt);
+
+    const prefix = constraints?.mustPrepend ? constraints.mustPrepend + '\n\n' : '';
+    if (prefix) {
+      options.onToken(prefix);
+    }
+
+    let text = '';
+    for await (const chunk of result.stream) {
+      const delta = chunk.text();
+      if (delta) {
+        text += delta;
+        options.onToken(delta);
+      }
+    }
+
+    const finalText = this.applyPostConstraints(text, constraints);
+    const suffix = finalText.slice(prefix.length + text.length);
+    if (suffix) {
+      options.onToken(suffix);
+    }
+
+    const response = await result.response;
+
+    return {
+      text: finalText,
+      model: modelName,
+      ...geminiUsage(response.usageMetadata, text),
       constraints,
     };
   }
 
+  async complete(request: CompletionRequest): Promise<Completion> {
+    if (!this.client) {
+      throw new Error('Gemini client not initialized');
+    }
+
+    // Gemini takes system messages as a separate instruction; the schema is
+    // not translated to Gemini's OpenAPI subset, JSON mode is used instead
+    const json = request.responseFormat === 'json' || request.jsonSchema !== undefined;
+    const systemInstruction = request.messages
+      .filter(m => m.role === 'system')
+      .map(m => m.content)
+      .join('\n\n');
+    const model = resolveModel(request.model, this.model, 'gemini');
+
+    const generativeModel = this.client.getGenerativeModel({
+      model,
+      ...(systemInstruction ? { systemInstruction } : {}),
+      generationConfig: {
+        maxOutputTokens: request.maxTokens ?? 1024,
+        temperature: request.temperature ?? 0,
+        ...(json ? { responseMimeType: 'application/json' } : {}),
+      },
+    });
+
+    const result = await generativeModel.generateContent({
+      contents: request.messages
+        .filter(m => m.role !== 'system')
+        .map(m => ({
+          role: m.role === 'assistant' ? 'model' : 'user',
+          parts: [{ text: m.content }],
+        })),
+    });
+    const text = result.response.text().trim();
+
+    return {
+      text,
+      provider: this.name,
+      model,
+      ...geminiUsage(result.response.usageMetadata, text),
+    };
+  }
+
   private buildSystemPrompt(base: string, constraints?: GenerationConstraints): string {
     let prompt = base;
 
@@ -288,6 +914,36 @@ export class MockProvider implements ModelProvider {
     };
   }
 
+  async generateStream(
+    prompt: string,
+    systemPrompt: string,
+    constraints: GenerationConstraints | undefined,
+    options: StreamGenerateOptions
+  ): Promise<Generation> {
+    const generation = await this.generate(prompt, systemPrompt, constraints, options);
+
+    // Emit word-by-word (keeping whitespace) so clients exercise the same
+    // incremental rendering path they use with real providers
+    for (const piece of generation.text.match(/\S+\s*|\s+/g) ?? []) {
+      options.onToken(piece);
+    }
+
+    return generation;
+  }
+
+  async complete(request: CompletionRequest): Promise<Completion> {
+    const lastUser = [...request.messages].reverse().find(m => m.role === 'user');
+    const json = request.responseFormat === 'json' || request.jsonSchema !== undefined;
+    const text = json ? '{}' : this.generateMockResponse(lastUser?.content ?? '');
+
+    return {
+      text,
+      provider: this.name,
+      model: 'mock-v1',
+      tokensUsed: text.split(/\s+/).length,
+    };
+  }
+
   private generateMockResponse(prompt: string): string {
     const lower = prompt.toLowerCase();
 
@@ -314,35 +970,84 @@ export class MockProvider implements ModelProvider {
 export interface ProviderManagerConfig {
   openaiApiKey?: string;
   geminiApiKey?: string;
-  preferredProvider?: 'openai' | 'gemini' | 'mock';
+  /** Self-hosted OpenAI-compatible server (defaults to LOCAL_LLM_* env) */
+  local?: Partial<LocalModelConfig>;
+  preferredProvider?: ProviderName;
+  /** Explicit fallback order; overrides preferredProvider. Mock is always last. */
+  providerOrder?: readonly ProviderName[];
   enableFallback?: boolean;
+  /** Retry policy for each provider's completion attempt */
+  completionRetry?: Partial<RetryConfig>;
+}
+
+/**
+ * Classifier calls sit on the request path: one quick retry, then fall back
+ * to the next provider.
+ */
+const DEFAULT_COMPLETION_RETRY: Partial<RetryConfig> = {
+  maxAttempts: 1,
+  initialDelayMs: 250,
+  maxDelayMs: 2000,
+};
+
+type RealProviderName = Exclude<ProviderName, 'mock'>;
+
+const DEFAULT_PROVIDER_ORDER: readonly RealProviderName[] = ['openai', 'gemini', 'local'];
+
+/**
+ * Fallback order of the real providers. An explicit order wins and may
+ * leave providers out; otherwise the preferred provider goes first.
+ * Preferring 'mock' disables the real providers.
+ */
+export function resolveProviderOrder(
+  config: Pick<ProviderManagerConfig, 'preferredProvider' | 'providerOrder'>
+): RealProviderName[] {
+  if (config.providerOrder?.length) {
+    return [...new Set(config.providerOrder)].filter((n): n is RealProviderName => n !== 'mock');
+  }
+
+  const preferred = config.preferredProvider ?? 'openai';
+  if (preferred === 'mock') {
+    return [];
+  }
+  return [preferred, ...DEFAULT_PROVIDER_ORDER.filter(n => n !== preferred)];
+}
+
+/**
+ * Validate a configured order such as PROVIDER_ORDER=local,openai.
+ */
+export function parseProviderOrder(names: readonly string[]): ProviderName[] {
+  return names.map((name) => {
+    const normalized = name.trim().toLowerCase();
+    if (!PROVIDER_NAMES.includes(normalized as ProviderName)) {
+      throw new Error(`Unknown provider "${name}" in provider order (expected one of: ${PROVIDER_NAMES.join(', ')})`);
+    }
+    return normalized as ProviderName;
+  });
 }
 
-export class ProviderManager {
+export class ProviderManager implements LlmClient {
   private providers: ModelProvider[] = [];
   private enableFallback: boolean;
+  private completionRetry: Partial<RetryConfig>;
 
   constructor(config: ProviderManagerConfig = {}) {
     this.enableFallback = config.enableFallback ?? true;
+    this.completionRetry = { ...DEFAULT_COMPLETION_RETRY, ...config.completionRetry };
 
     // Initialize providers based on config and available keys
-    const openai = new OpenAIProvider(config.openaiApiKey);
-    const gemini = new GeminiProvider(config.geminiApiKey);
-    const mock = new MockProvider();
-
-    // Order by preference
-    const preferred = config.preferredProvider ?? 'openai';
+    const candidates: Record<RealProviderName, ModelProvider> = {
+      openai: new OpenAIProvider(config.openaiApiKey),
+      gemini: new GeminiProvider(config.geminiApiKey),
+      local: new LocalProvider(config.local),
+    };
 
-    if (preferred === 'openai') {
-      if (openai.isAvailable()) this.providers.push(openai);
-      if (gemini.isAvailable()) this.providers.push(gemini);
-    } else if (preferred === 'gemini') {
-      if (gemini.isAvailable()) this.providers.push(gemini);
-      if (openai.isAvailable()) this.providers.push(openai);
+    for (const name of resolveProviderOrder(config)) {
+      if (candidates[name].isAvailable()) this.providers.push(candidates[name]);
     }
 
     // Always add mock as final fallback
-    this.providers.push(mock);
+    this.providers.push(new MockProvider());
 
     console.log(`[PROVIDERS] Initialized: ${this.providers.map(p => p.name).join(' → ')}`);
   }
@@ -354,13 +1059,16 @@ export class ProviderManager {
     options?: GenerateOptions
   ): Promise<Generation> {
     let lastError: Error | null = null;
+    let attempt = 0;
 
     for (const provider of this.providers) {
       if (!provider.isAvailable()) continue;
 
       try {
         console.log(`[PROVIDERS] Attempting ${provider.name}...`);
-        const result = await provider.generate(prompt, systemPrompt, constraints, options);
+        const result = await this.traceAttempt(provider, attempt++, false, () =>
+          provider.generate(prompt, systemPrompt, constraints, this.withEconomyModel(provider, options))
+        );
         console.log(`[PROVIDERS] Success with ${provider.name}`);
         return result;
       } catch (error) {
@@ -376,9 +1084,284 @@ export class ProviderManager {
     throw lastError ?? new Error('No providers available');
   }
 
+  /**
+   * Streaming generate with the same provider fallback order as generate().
+   * Fallback only happens while no tokens have been emitted; once a provider
+   * has started streaming, a mid-stream failure is surfaced to the caller
+   * rather than splicing output from two different models.
+   */
+  async generateStream(
+    prompt: string,
+    systemPrompt: string,
+    constraints: GenerationConstraints | undefined,
+    options: StreamGenerateOptions
+  ): Promise<Generation> {
+    let lastError: Error | null = null;
+    let attempt = 0;
+
+    for (const provider of this.providers) {
+      if (!provider.isAvailable()) continue;
+
+      let emitted = false;
+      try {
+        console.log(`[PROVIDERS] Attempting ${provider.name} (stream)...`);
+        const result = await this.traceAttempt(provider, attempt++, true, () =>
+          provider.generateStream(prompt, systemPrompt, constraints, {
+            ...this.withEconomyModel(provider, options),
+            onToken: (text) => {
+              emitted = true;
+              options.onToken(text);
+            },
+          })
+        );
+        console.log(`[PROVIDERS] Stream success with ${provider.name}`);
+        return result;
+      } catch (error) {
+        console.error(`[PROVIDERS] ${provider.name} stream failed:`, error);
+        lastError = error instanceof Error ? error : new Error(String(error));
+
+        if (!this.enableFallback || emitted) {
+          throw lastError;
+        }
+      }
+    }
+
+    throw lastError ?? new Error('No providers available');
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // COMPLETIONS (LlmClient)
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Completions never fall back to the mock provider: callers treat an
+   * unavailable client as "no LLM" and use their own fail-safe defaults.
+   */
+  isAvailable(): boolean {
+    return this.completionProviders().length > 0;
+  }
+
+  /**
+   * Complete with retries and a circuit breaker per provider, falling back
+   * through the configured provider order.
+   */
+  async complete(request: CompletionRequest): Promise<Completion> {
+    if (!request.timeoutMs) {
+      return this.completeWithFallback(request);
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new LlmTimeoutError(request.timeoutMs!)), request.timeoutMs);
+    });
+    try {
+      return await Promise.race([this.completeWithFallback(request), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private async completeWithFallback(request: CompletionRequest): Promise<Completion> {
+    const providers = this.completionProviders();
+    if (providers.length === 0) {
+      throw new LlmUnavailableError();
+    }
+
+    const policy = createRetryPolicy({
+      ...this.completionRetry,
+      isRetryable: (error) => !(error instanceof CircuitOpenError) && isRetryableError(error),
+    });
+
+    let lastError: Error | null = null;
+    let attempt = 0;
+
+    for (const provider of providers) {
+      const breaker = getCircuitBreaker(provider.name);
+      const economyModel = this.economyModel(provider);
+      const providerRequest = economyModel ? { ...request, model: economyModel } : request;
+      try {
+        return await this.traceAttempt(provider, attempt++, false, () =>
+          policy.execute(() => breaker.execute(() => provider.complete(providerRequest)))
+        );
+      } catch (error) {
+        lastError = error instanceof RetryExhaustedError && error.cause instanceof Error
+          ? error.cause
+          : error instanceof Error ? error : new Error(String(error));
+        console.error(`[PROVIDERS] ${provider.name} completion failed:`, lastError.message);
+
+        if (!this.enableFallback) {
+          throw lastError;
+        }
+      }
+    }
+
+    throw lastError ?? new LlmUnavailableError();
+  }
+
+  async completeJson<T = unknown>(request: CompletionRequest): Promise<T> {
+    const completion = await this.complete({ ...request, responseFormat: 'json' });
+    return parseJsonResponse<T>(completion.text);
+  }
+
+  private completionProviders(): ModelProvider[] {
+    return this.providers.filter(p => p.name !== 'mock' && p.isAvailable());
+  }
+
   getAvailableProviders(): string[] {
     return this.providers.filter(p => p.isAvailable()).map(p => p.name);
   }
+
+  /** Configured providers in fallback order, mock last */
+  getProviderOrder(): string[] {
+    return this.providers.map(p => p.name);
+  }
+
+  /**
+   * Health of each real provider in fallback order. Providers with a probe
+   * are contacted; the others report whether they are configured.
+   */
+  async checkHealth(): Promise<ProviderHealth[]> {
+    return Promise.all(
+      this.providers
+        .filter(p => p.name !== 'mock')
+        .map(async (provider): Promise<ProviderHealth> =>
+          provider.probeHealth
+            ? provider.probeHealth()
+            : { provider: provider.name, healthy: provider.isAvailable(), checkedAt: new Date().toISOString() }
+        )
+    );
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // USAGE
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Model to use instead of the provider default while the current usage
+   * scope is over budget. Self-hosted models are already free.
+   */
+  private economyModel(provider: ModelProvider): string | undefined {
+    if (!getUsageScope()?.economy) return undefined;
+    const models = loadUsageConfig().economyModels;
+    if (provider.name === 'openai') return models.openai;
+    if (provider.name === 'gemini') return models.gemini;
+    return undefined;
+  }
+
+  private withEconomyModel<T extends GenerateOptions | undefined>(provider: ModelProvider, options: T): T {
+    const model = this.economyModel(provider);
+    return model ? { ...options, model } as T : options;
+  }
+
+  /**
+   * Attribute a successful call to the current usage scope. Ledger writes
+   * never fail or delay the call itself.
+   */
+  private recordUsage(provider: ModelProvider, result: Generation | Completion): void {
+    if (provider.name === 'mock') return;
+
+    const scope = getUsageScope();
+    const promptTokens = result.promptTokens ?? 0;
+    getUsageLedger()
+      .record({
+        provider: provider.name,
+        model: result.model,
+        promptTokens,
+        completionTokens: result.completionTokens ?? Math.max(0, result.tokensUsed - promptTokens),
+        userId: scope?.userId,
+        tenantId: scope?.tenantId,
+        purpose: scope?.purpose,
+      })
+      .catch((error) => {
+        console.error('[PROVIDERS] Failed to record usage:', error);
+      });
+  }
+
+  /**
+   * Record one provider attempt as a client span. Attempts after the first
+   * are fallbacks, so a slow request shows which providers failed before it.
+   */
+  private traceAttempt<T extends Generation | Completion>(
+    provider: ModelProvider,
+    attempt: number,
+    stream: boolean,
+    fn: () => Promise<T>
+  ): Promise<T> {
+    return withSpan(`llm.${provider.name}`, async (span) => {
+      const result = await fn();
+      span.setAttributes({
+        'llm.model': result.model,
+        'llm.tokens_used': result.tokensUsed,
+      });
+      this.recordUsage(provider, result);
+      return result;
+    }, {
+      kind: 'client',
+      attributes: {
+        'llm.provider': provider.name,
+        'llm.stream': stream,
+        'llm.attempt': attempt,
+        'llm.fallback': attempt > 0,
+      },
+    });
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SHARED LLM CLIENT
+// ─────────────────────────────────────────────────────────────────────────────────
+
+let sharedLlmClient: LlmClient | null = null;
+let sharedLlmClientInjected = false;
+let sharedLlmClientEnv = '';
+
+/** Provider-relevant environment the shared client was built from */
+function providerEnvironment(): string {
+  return [
+    process.env.OPENAI_API_KEY ?? '',
+    process.env.GEMINI_API_KEY ?? '',
+    process.env.PREFERRED_PROVIDER ?? '',
+    process.env.PROVIDER_ORDER ?? '',
+    process.env.USE_MOCK_PROVIDER ?? '',
+    ...Object.keys(process.env)
+      .filter(key => key.startsWith('LOCAL_LLM_'))
+      .sort()
+      .map(key => `${key}=${process.env[key]}`),
+  ].join('\n');
+}
+
+/**
+ * Client used by gates and sub-flows that are not given one explicitly.
+ * Built from the environment, and rebuilt when provider keys change.
+ */
+export function getLlmClient(): LlmClient {
+  if (sharedLlmClientInjected && sharedLlmClient) {
+    return sharedLlmClient;
+  }
+
+  const env = providerEnvironment();
+  if (!sharedLlmClient || env !== sharedLlmClientEnv) {
+    const flags = loadFeatureFlags();
+    sharedLlmClient = new ProviderManager({
+      preferredProvider: flags.mockProviderOnly ? 'mock' : flags.preferredProvider,
+      providerOrder: flags.mockProviderOnly ? undefined : parseProviderOrder(flags.providerOrder),
+    });
+    sharedLlmClientEnv = env;
+  }
+  return sharedLlmClient;
+}
+
+/**
+ * Replace the shared client (tests, or to share the pipeline's manager).
+ */
+export function setLlmClient(client: LlmClient): void {
+  sharedLlmClient = client;
+  sharedLlmClientInjected = true;
+}
+
+export function resetLlmClient(): void {
+  sharedLlmClient = null;
+  sharedLlmClientInjected = false;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -0,0 +1,148 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// LLM CLIENT — Provider-Agnostic Completions for Gates and Sub-Flows
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Classifiers and Sword sub-flows need short, usually JSON, completions rather
+// than the constrained Nova generations served by ModelProvider.generate().
+// They depend on this interface only; ProviderManager implements it with
+// provider fallback, retries and per-provider circuit breakers.
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export interface CompletionMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * JSON Schema for structured outputs. Enforced by providers that support it
+ * (OpenAI); others fall back to plain JSON mode.
+ */
+export interface CompletionJsonSchema {
+  name: string;
+  schema: Record<string, unknown>;
+  strict?: boolean;
+}
+
+export interface CompletionRequest {
+  messages: readonly CompletionMessage[];
+
+  /**
+   * Model for this call. Applied only by the provider that serves the model
+   * family (e.g. `gpt-*` on OpenAI, `gemini-*` on Gemini); other providers
+   * use their configured default.
+   */
+  model?: string;
+
+  temperature?: number;
+  maxTokens?: number;
+
+  /** 'json' constrains the output to a single JSON object */
+  responseFormat?: 'text' | 'json';
+  jsonSchema?: CompletionJsonSchema;
+
+  /** Budget for the whole call, including retries and fallbacks */
+  timeoutMs?: number;
+}
+
+export interface Completion {
+  text: string;
+  provider: string;
+  model: string;
+  tokensUsed: number;
+  /** Split of tokensUsed, when the provider reports it */
+  promptTokens?: number;
+  completionTokens?: number;
+}
+
+/**
+ * Completion client injected into gates and sub-flows.
+ */
+export interface LlmClient {
+  /** True when at least one real (non-mock) provider is configured */
+  isAvailable(): boolean;
+
+  complete(request: CompletionRequest): Promise<Completion>;
+
+  /**
+   * Complete in JSON mode and parse the result.
+   * Throws LlmResponseParseError when the output is not valid JSON.
+   */
+  completeJson<T = unknown>(request: CompletionRequest): Promise<T>;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// ERRORS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export class LlmUnavailableError extends Error {
+  constructor(message: string = 'No LLM provider configured') {
+    super(message);
+    this.name = 'LlmUnavailableError';
+  }
+}
+
+export class LlmTimeoutError extends Error {
+  constructor(public readonly timeoutMs: number) {
+    super(`LLM completion timed out after ${timeoutMs}ms`);
+    this.name = 'LlmTimeoutError';
+  }
+}
+
+export class LlmResponseParseError extends Error {
+  constructor(
+    message: string,
+    public readonly rawText: string
+  ) {
+    super(message);
+    this.name = 'LlmResponseParseError';
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// HELPERS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Parse model output as JSON, tolerating markdown code fences.
+ */
+export function parseJsonResponse<T = unknown>(text: string): T {
+  let cleaned = text.trim();
+  const fenced = /^```(?:json)?\s*([\s\S]*?)\s*```$/i.exec(cleaned);
+  if (fenced) {
+    cleaned = fenced[1]!;
+  }
+
+  try {
+    return JSON.parse(cleaned) as T;
+  } catch (error) {
+    throw new LlmResponseParseError(
+      `Model output is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+      text
+    );
+  }
+}
+
+/**
+ * OpenAI's JSON mode rejects requests whose messages never mention JSON.
+ * Append a short instruction to the system message when that is the case.
+ */
+export function ensureJsonInstruction(messages: readonly CompletionMessage[]): CompletionMessage[] {
+  if (messages.some((m) => /json/i.test(m.content))) {
+    return [...messages];
+  }
+
+  const instruction = 'Respond with a single JSON object.';
+  const systemIndex = messages.findIndex((m) => m.role === 'system');
+  if (systemIndex === -1) {
+    return [{ role: 'system', content: instruction }, ...messages];
+  }
+
+  return messages.map((m, i) =>
+    i === systemIndex ? { ...m, content: `${m.content}\n\n${instruction}` } : m
+  );
+}
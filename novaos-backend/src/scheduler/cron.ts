@@ -19,8 +19,16 @@
 //   '*/15 * * * *'   - Every 15 minutes
 //   '0 9-17 * * 1-5' - 9 AM to 5 PM, Mon-Fri
 //
+// Fields are matched against the server's local clock unless a timezone is
+// given, in which case they are matched against that zone's wall clock with
+// daylight saving applied. A wall-clock time skipped when clocks go forward
+// never matches; one repeated when they go back matches both times.
+//
 // ═══════════════════════════════════════════════════════════════════════════════
 
+import { DateTime } from 'luxon';
+import { isValidTimezone } from '../utils/timezone.js';
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // TYPES
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -36,6 +44,7 @@ export interface CronFields {
 export interface ParsedCron {
   expression: string;
   fields: CronFields;
+  timezone?: string;     // IANA zone or UTC offset; server local time if unset
   valid: boolean;
   error?: string;
 }
@@ -160,20 +169,32 @@ function parseField(
 // ─────────────────────────────────────────────────────────────────────────────────
 
 /**
- * Parse a cron expression into its component fields.
+ * Parse a cron expression into its component fields, optionally to be
+ * evaluated in a timezone.
  */
-export function parseCron(expression: string): ParsedCron {
+export function parseCron(expression: string, timezone?: string): ParsedCron {
   const parts = expression.trim().split(/\s+/);
   
   if (parts.length !== 5) {
     return {
       expression,
       fields: { minute: [], hour: [], dayOfMonth: [], month: [], dayOfWeek: [] },
+      timezone,
       valid: false,
       error: `Expected 5 fields, got ${parts.length}`,
     };
   }
   
+  if (timezone !== undefined && !isValidTimezone(timezone)) {
+    return {
+      expression,
+      fields: { minute: [], hour: [], dayOfMonth: [], month: [], dayOfWeek: [] },
+      timezone,
+      valid: false,
+      error: `Invalid timezone: ${timezone}`,
+    };
+  }
+  
   try {
     const fields: CronFields = {
       minute: parseField(parts[0]!, FIELD_DEFS[0]!),
@@ -183,11 +204,12 @@ export function parseCron(expression: string): ParsedCron {
       dayOfWeek: parseField(parts[4]!, FIELD_DEFS[4]!, DAY_NAMES),
     };
     
-    return { expression, fields, valid: true };
+    return { expression, fields, timezone, valid: true };
   } catch (error) {
     return {
       expression,
       fields: { minute: [], hour: [], dayOfMonth: [], month: [], dayOfWeek: [] },
+      timezone,
       valid: false,
       error: error instanceof Error ? error.message : 'Parse error',
     };
@@ -199,19 +221,20 @@ export function parseCron(expression: string): ParsedCron {
 // ─────────────────────────────────────────────────────────────────────────────────
 
 /**
- * Check if a date matches the cron expression.
+ * Check if a date matches the cron expression, in the expression's timezone.
  */
 export function matchesCron(date: Date, cron: ParsedCron): boolean {
   if (!cron.valid) return false;
   
   const { fields } = cron;
+  const local = getWallClock(date, cron.timezone);
   
   return (
-    fields.minute.includes(date.getMinutes()) &&
-    fields.hour.includes(date.getHours()) &&
-    fields.dayOfMonth.includes(date.getDate()) &&
-    fields.month.includes(date.getMonth() + 1) &&
-    fields.dayOfWeek.includes(date.getDay())
+    fields.minute.includes(local.minute) &&
+    fields.hour.includes(local.hour) &&
+    fields.dayOfMonth.includes(local.dayOfMonth) &&
+    fields.month.includes(local.month) &&
+    fields.dayOfWeek.includes(local.dayOfWeek)
   );
 }
 
@@ -219,14 +242,41 @@ export function matchesCron(date: Date, cron: ParsedCron): boolean {
  * Check if a cron expression should trigger at the current time.
  * Compares current time (truncated to minute) with cron fields.
  */
-export function shouldRunNow(expression: string, now?: Date): boolean {
-  const parsed = parseCron(expression);
+export function shouldRunNow(expression: string, now?: Date, timezone?: string): boolean {
+  const parsed = parseCron(expression, timezone);
   if (!parsed.valid) return false;
   
   const date = now ?? new Date();
   return matchesCron(date, parsed);
 }
 
+function getWallClock(date: Date, timezone?: string): {
+  minute: number;
+  hour: number;
+  dayOfMonth: number;
+  month: number;
+  dayOfWeek: number;
+} {
+  if (!timezone) {
+    return {
+      minute: date.getMinutes(),
+      hour: date.getHours(),
+      dayOfMonth: date.getDate(),
+      month: date.getMonth() + 1,
+      dayOfWeek: date.getDay(),
+    };
+  }
+  
+  const local = DateTime.fromJSDate(date, { zone: timezone });
+  return {
+    minute: local.minute,
+    hour: local.hour,
+    dayOfMonth: local.day,
+    month: local.month,
+    dayOfWeek: local.weekday % 7,   // Luxon counts Monday = 1 to Sunday = 7
+  };
+}
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // NEXT RUN CALCULATION
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -237,26 +287,59 @@ export function shouldRunNow(expression: string, now?: Date): boolean {
  * @param expression - Cron expression
  * @param from - Start date (defaults to now)
  * @param maxIterations - Max minutes to search (defaults to 525600 = 1 year)
+ * @param timezone - Zone to evaluate the expression in (defaults to server local time)
  * @returns Next run date or null if not found
  */
 export function getNextRun(
   expression: string,
   from?: Date,
-  maxIterations: number = 525600
+  maxIterations: number = 525600,
+  timezone?: string
 ): Date | null {
-  const parsed = parseCron(expression);
+  const parsed = parseCron(expression, timezone);
   if (!parsed.valid) return null;
   
   // Start from next minute
   const current = from ? new Date(from) : new Date();
   current.setSeconds(0, 0);
-  current.setMinutes(current.getMinutes() + 1);
+  current.setTime(current.getTime() + 60000);
+  
+  for (let i = 0; i < maxIterations; i++) {
+    if (matchesCron(current, parsed)) {
+      return current;
+    }
+    current.setTime(current.getTime() + 60000);
+  }
+  
+  return null;
+}
+
+/**
+ * Calculate the most recent run time at or before a date.
+ * 
+ * @param expression - Cron expression
+ * @param from - End date (defaults to now)
+ * @param maxIterations - Max minutes to search back (defaults to 525600 = 1 year)
+ * @param timezone - Zone to evaluate the expression in (defaults to server local time)
+ * @returns Previous run date or null if not found
+ */
+export function getPreviousRun(
+  expression: string,
+  from?: Date,
+  maxIterations: number = 525600,
+  timezone?: string
+): Date | null {
+  const parsed = parseCron(expression, timezone);
+  if (!parsed.valid) return null;
+  
+  const current = from ? new Date(from) : new Date();
+  current.setSeconds(0, 0);
   
   for (let i = 0; i < maxIterations; i++) {
     if (matchesCron(current, parsed)) {
       return current;
     }
-    current.setMinutes(current.getMinutes() + 1);
+    current.setTime(current.getTime() - 60000);
   }
   
   return null;
@@ -265,8 +348,8 @@ export function getNextRun(
 /**
  * Calculate time until next run in milliseconds.
  */
-export function getTimeUntilNextRun(expression: string, from?: Date): number | null {
-  const nextRun = getNextRun(expression, from);
+export function getTimeUntilNextRun(expression: string, from?: Date, timezone?: string): number | null {
+  const nextRun = getNextRun(expression, from, undefined, timezone);
   if (!nextRun) return null;
   
   const now = from ?? new Date();
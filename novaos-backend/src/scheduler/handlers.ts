@@ -13,7 +13,13 @@ import type { JobContext, JobResult, JobHandler, SparkReminder, GoalCheckin, Job
 import { getStore, storeManager, type KeyValueStore } from '../storage/index.js';
 import { getMemoryStore, MEMORY_DECAY_CONFIG } from '../core/memory/index.js';
 import { getSwordStore } from '../core/sword/index.js';
+import { getSparkEngine } from '../services/spark-engine/spark-engine-bootstrap.js';
+import { memoryEvents } from '../events/index.js';
+import { getNotificationService } from '../notifications/service.js';
 import { getLogger } from '../observability/logging/index.js';
+import { CRON_PRESETS } from './cron.js';
+import { getJobDefinition } from './jobs.js';
+import { getLocalRun, markLocalRun } from './local-schedule.js';
 
 // Import Sword job handlers
 import {
@@ -23,6 +29,7 @@ import {
   dayEndReconciliationHandler,
   knownSourcesHealthHandler,
   retentionEnforcementHandler,
+  reviewQueueHandler,
 } from './jobs/index.js';
 
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -36,7 +43,8 @@ const logger = getLogger({ component: 'job-handlers' });
 // ─────────────────────────────────────────────────────────────────────────────────
 
 /**
- * Applies decay to memory reinforcement scores.
+ * Applies decay to memory reinforcement scores and reports each user's
+ * decay as a memory.decayed event.
  */
 export const memoryDecayHandler: JobHandler = async (context: JobContext): Promise<JobResult> => {
   logger.info('Starting memory decay job', { executionId: context.executionId });
@@ -59,6 +67,8 @@ export const memoryDecayHandler: JobHandler = async (context: JobContext): Promi
       try {
         const memories = await memoryStore.queryMemories(userId, { includeExpired: true });
         const now = Date.now();
+        let decayed = 0;
+        let forgotten = 0;
         
         for (const memory of memories) {
           itemsProcessed++;
@@ -72,15 +82,22 @@ export const memoryDecayHandler: JobHandler = async (context: JobContext): Promi
           const newScore = Math.max(0, memory.reinforcementScore - decay);
           
           if (newScore < MEMORY_DECAY_CONFIG.forgetThreshold) {
-            await memoryStore.deleteMemory(memory.id, userId);
-            memoriesDeleted++;
+            await memoryStore.deleteMemory(memory.id, userId, 'decayed');
+            forgotten++;
           } else if (newScore !== memory.reinforcementScore) {
             await memoryStore.updateMemory(memory.id, userId, {
               reinforcementScore: Math.round(newScore),
             } as Parameters<typeof memoryStore.updateMemory>[2]);
-            memoriesDecayed++;
+            decayed++;
           }
         }
+        
+        memoriesDecayed += decayed;
+        memoriesDeleted += forgotten;
+        
+        if (decayed > 0 || forgotten > 0) {
+          await memoryEvents.decayed(userId, { decayedCount: decayed, deletedCount: forgotten });
+        }
       } catch (error) {
         const msg = `Error processing user ${userId}: ${error instanceof Error ? error.message : 'Unknown error'}`;
         errors.push(msg);
@@ -110,6 +127,10 @@ export const memoryDecayHandler: JobHandler = async (context: JobContext): Promi
 // SPARK REMINDERS HANDLER
 // ─────────────────────────────────────────────────────────────────────────────────
 
+/**
+ * Generates reminders for active sparks and delivers the spark engine's
+ * due reminders over web push when push is configured.
+ */
 export const sparkRemindersHandler: JobHandler = async (context: JobContext): Promise<JobResult> => {
   logger.info('Starting spark reminders job', { executionId: context.executionId });
   
@@ -118,6 +139,7 @@ export const sparkRemindersHandler: JobHandler = async (context: JobContext): Pr
   const errors: string[] = [];
   let itemsProcessed = 0;
   const reminders: SparkReminder[] = [];
+  let pushDelivery: { sent: number; failed: number; expired: number } | undefined;
   
   try {
     const sparkKeys = await store.keys('sword:user:*:sparks');
@@ -176,6 +198,12 @@ export const sparkRemindersHandler: JobHandler = async (context: JobContext): Pr
       }
     }
     
+    const { reminderDelivery } = getSparkEngine(store);
+    if (reminderDelivery) {
+      const { sent, failed, expired } = await reminderDelivery.processPendingReminders();
+      pushDelivery = { sent, failed, expired };
+    }
+    
     return {
       success: errors.length === 0,
       duration: Date.now() - context.startedAt,
@@ -183,6 +211,7 @@ export const sparkRemindersHandler: JobHandler = async (context: JobContext): Pr
       errors: errors.length > 0 ? errors : undefined,
       metadata: { 
         remindersGenerated: reminders.length,
+        pushDelivery,
         byType: {
           gentle: reminders.filter(r => r.reminderType === 'gentle').length,
           deadline: reminders.filter(r => r.reminderType === 'deadline').length,
@@ -224,9 +253,14 @@ export const goalDeadlineCheckinsHandler: JobHandler = async (context: JobContex
     const now = Date.now();
     const oneDay = 24 * 60 * 60 * 1000;
     const oneWeek = 7 * oneDay;
+    const localCron = getJobDefinition('goal_deadline_checkins')?.schedule.localCron ?? CRON_PRESETS.DAILY_9AM;
     
     for (const userId of userIds) {
       try {
+        // Only users whose local 9 AM has just passed
+        const run = await getLocalRun('goal_deadline_checkins', localCron, userId, new Date(now), store);
+        if (!run) continue;
+        
         const goals = await swordStore.getGoals(userId);
         
         for (const goal of goals) {
@@ -276,6 +310,8 @@ export const goalDeadlineCheckinsHandler: JobHandler = async (context: JobContex
             checkins.push(checkin);
           }
         }
+        
+        await markLocalRun('goal_deadline_checkins', run, store);
       } catch (error) {
         const msg = `Error processing goals for user ${userId}: ${error instanceof Error ? error.message : 'Unknown error'}`;
         errors.push(msg);
@@ -499,6 +535,37 @@ export const metricsAggregationHandler: JobHandler = async (context: JobContext)
   }
 };
 
+// ─────────────────────────────────────────────────────────────────────────────────
+// NOTIFICATION DIGESTS HANDLER
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Sends digest queues that have come due. Queues due during a user's quiet
+ * hours are pushed back to when they end.
+ */
+export const notificationDigestsHandler: JobHandler = async (context: JobContext): Promise<JobResult> => {
+  logger.info('Starting notification digests job', { executionId: context.executionId });
+  
+  try {
+    const result = await getNotificationService().sendDueDigests(new Date(context.startedAt));
+    
+    return {
+      success: result.failed === 0,
+      duration: Date.now() - context.startedAt,
+      itemsProcessed: result.checked,
+      errors: result.failed > 0 ? [`${result.failed} digest(s) failed to send`] : undefined,
+      metadata: { ...result },
+    };
+  } catch (error) {
+    logger.error('Notification digests job failed', error instanceof Error ? error : new Error(String(error)));
+    return {
+      success: false,
+      duration: Date.now() - context.startedAt,
+      errors: [error instanceof Error ? error.message : 'Unknown error'],
+    };
+  }
+};
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // HEALTH CHECK HANDLER
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -553,6 +620,7 @@ export const JOB_HANDLERS: Record<JobId, JobHandler> = {
   expired_tokens_cleanup: expiredTokensCleanupHandler,
   metrics_aggregation: metricsAggregationHandler,
   health_check: healthCheckHandler,
+  notification_digests: notificationDigestsHandler,
   // Sword handlers (Phase 15)
   generate_daily_steps: generateDailyStepsHandler,
   morning_sparks: morningSparksHandler,
@@ -560,6 +628,7 @@ export const JOB_HANDLERS: Record<JobId, JobHandler> = {
   day_end_reconciliation: dayEndReconciliationHandler,
   known_sources_health: knownSourcesHealthHandler,
   retention_enforcement: retentionEnforcementHandler,
+  review_queue: reviewQueueHandler,
 };
 
 export function getJobHandler(jobId: JobId): JobHandler | undefined {
@@ -574,4 +643,5 @@ export {
   dayEndReconciliationHandler,
   knownSourcesHealthHandler,
   retentionEnforcementHandler,
+  reviewQueueHandler,
 };
@@ -75,6 +75,7 @@ export type {
   DayEndReconciliationJobResult,
   KnownSourcesHealthJobResult,
   RetentionEnforcementJobResult,
+  ReviewQueueJobResult,
 } from './types.js';
 
 export {
@@ -99,6 +100,7 @@ export {
   matchesCron,
   shouldRunNow,
   getNextRun,
+  getPreviousRun,
   getTimeUntilNextRun,
   describeCron,
   CRON_PRESETS,
@@ -139,6 +141,7 @@ export {
   expiredTokensCleanupHandler,
   metricsAggregationHandler,
   healthCheckHandler,
+  notificationDigestsHandler,
   // Sword handlers (Phase 15)
   generateDailyStepsHandler,
   morningSparksHandler,
@@ -146,6 +149,7 @@ export {
   dayEndReconciliationHandler,
   knownSourcesHealthHandler,
   retentionEnforcementHandler,
+  reviewQueueHandler,
 } from './handlers.js';
 
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -158,6 +162,18 @@ export {
   createScheduler,
 } from './scheduler.js';
 
+// ─────────────────────────────────────────────────────────────────────────────────
+// LOCAL SCHEDULE
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export {
+  getLocalRun,
+  markLocalRun,
+  resolveUserTimezone,
+  LOCAL_RUN_GRACE_MINUTES,
+  type LocalRun,
+} from './local-schedule.js';
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // LOCKING (Phase 15)
 // ─────────────────────────────────────────────────────────────────────────────────
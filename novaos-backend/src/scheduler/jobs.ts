@@ -57,13 +57,13 @@ export const CORE_JOB_DEFINITIONS: Record<string, JobDefinition> = {
 
   // ─────────────────────────────────────────────────────────────────────────────
   // GOAL DEADLINE CHECK-INS
-  // Monitors goals and generates check-in prompts
+  // Monitors goals and generates check-in prompts at 9 AM in each user's timezone
   // ─────────────────────────────────────────────────────────────────────────────
   goal_deadline_checkins: {
     id: 'goal_deadline_checkins',
     name: 'Goal Deadline Check-ins',
     description: 'Monitors goal deadlines and generates check-in prompts for users',
-    schedule: { cron: CRON_PRESETS.DAILY_9AM },
+    schedule: { cron: CRON_PRESETS.EVERY_15_MINUTES, localCron: CRON_PRESETS.DAILY_9AM },
     priority: 'normal',
     timeout: 180000,       // 3 minutes
     retryAttempts: 2,
@@ -168,6 +168,25 @@ export const CORE_JOB_DEFINITIONS: Record<string, JobDefinition> = {
     runOnStartup: true,
     exclusive: false,
   },
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // NOTIFICATION DIGESTS
+  // Sends batched notifications and those held through quiet hours
+  // ─────────────────────────────────────────────────────────────────────────────
+  notification_digests: {
+    id: 'notification_digests',
+    name: 'Notification Digests',
+    description: 'Sends hourly, daily and weekly notification digests and notifications deferred by quiet hours',
+    schedule: { cron: CRON_PRESETS.EVERY_15_MINUTES },
+    priority: 'normal',
+    timeout: 120000,       // 2 minutes
+    retryAttempts: 2,
+    retryDelayMs: 30000,   // 30 seconds
+    enabled: true,
+    requiresRedis: false,
+    runOnStartup: false,
+    exclusive: true,
+  },
 };
 
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -201,13 +220,13 @@ export const SWORD_JOB_DEFINITIONS: Record<string, JobDefinition> = {
 
   // ─────────────────────────────────────────────────────────────────────────────
   // MORNING SPARKS
-  // Creates initial sparks at 9 AM
+  // Creates initial sparks at 9 AM in each user's timezone
   // ─────────────────────────────────────────────────────────────────────────────
   morning_sparks: {
     id: 'morning_sparks',
     name: 'Morning Sparks',
     description: 'Creates initial spark actions for users with today\'s steps',
-    schedule: { cron: CRON_PRESETS.DAILY_9AM },
+    schedule: { cron: CRON_PRESETS.EVERY_15_MINUTES, localCron: CRON_PRESETS.DAILY_9AM },
     handler: 'morning_sparks',
     priority: 'high',
     timeout: 180000,       // 3 minutes
@@ -250,7 +269,7 @@ export const SWORD_JOB_DEFINITIONS: Record<string, JobDefinition> = {
   day_end_reconciliation: {
     id: 'day_end_reconciliation',
     name: 'Day End Reconciliation',
-    description: 'Marks incomplete steps as missed, updates streaks, generates daily summary',
+    description: 'Marks incomplete steps as missed, updates streaks, generates daily summary, reschedules plans that fell behind',
     schedule: { cron: '0 23 * * *' }, // 11 PM
     handler: 'day_end_reconciliation',
     priority: 'high',
@@ -308,6 +327,28 @@ export const SWORD_JOB_DEFINITIONS: Record<string, JobDefinition> = {
     alertOnFailure: true,
     deadLetterOnFailure: true,
   },
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // REVIEW QUEUE
+  // Hourly so each user's queue is built at their local morning
+  // ─────────────────────────────────────────────────────────────────────────────
+  review_queue: {
+    id: 'review_queue',
+    name: 'Review Queue',
+    description: 'Queues due spaced-repetition reviews once each user\'s local day starts',
+    schedule: { cron: CRON_PRESETS.EVERY_HOUR },
+    handler: 'review_queue',
+    priority: 'normal',
+    timeout: 120000,       // 2 minutes
+    retryAttempts: 2,
+    retryDelayMs: 10000,
+    enabled: true,
+    requiresRedis: false,
+    runOnStartup: false,
+    exclusive: true,
+    alertOnFailure: false,
+    deadLetterOnFailure: false,
+  },
 };
 
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -3,9 +3,17 @@
 // NovaOS Scheduler — Phase 15: Enhanced Scheduler & Jobs
 // ═══════════════════════════════════════════════════════════════════════════════
 
+import { DateTime } from 'luxon';
 import type { JobContext, JobResult, JobHandler, SwordJobId } from '../types.js';
 import { getStore } from '../../storage/index.js';
+import { getSparkEngine } from '../../services/spark-engine/spark-engine-bootstrap.js';
+import { isPausedOn } from '../../services/spark-engine/rescheduling/index.js';
+import type { GoalId, UserId } from '../../types/branded.js';
+import { sparkEvents } from '../../events/index.js';
 import { getLogger } from '../../observability/logging/index.js';
+import { CRON_PRESETS } from '../cron.js';
+import { getJobDefinition } from '../jobs.js';
+import { getLocalRun, markLocalRun, type LocalRun } from '../local-schedule.js';
 
 // ─────────────────────────────────────────────────────────────────────────────────
 // LOGGER
@@ -130,7 +138,7 @@ export const generateDailyStepsHandler: JobHandler = async (context: JobContext)
 
 /**
  * Creates initial spark actions for today's steps.
- * Runs at 9 AM.
+ * Runs at 9 AM in each user's timezone, for the steps of their local day.
  */
 export const morningSparksHandler: JobHandler = async (context: JobContext): Promise<JobResult> => {
   logger.info('Starting morning sparks job', { executionId: context.executionId });
@@ -143,58 +151,73 @@ export const morningSparksHandler: JobHandler = async (context: JobContext): Pro
   let usersWithExistingSparks = 0;
   
   try {
-    const today = new Date().toISOString().split('T')[0];
+    const now = new Date();
+    const localCron = getJobDefinition('morning_sparks')?.schedule.localCron ?? CRON_PRESETS.DAILY_9AM;
+    const oneDay = 24 * 60 * 60 * 1000;
     
-    // Find all steps scheduled for today
-    const stepDateKeys = await store.keys(`sword:step:date:${today}:*`);
+    // A user's local day is within one day of the UTC date either way
+    const dates = [-1, 0, 1].map(offset => new Date(now.getTime() + offset * oneDay).toISOString().split('T')[0]);
+    
+    const localRuns = new Map<string, LocalRun | null>();
     const processedUsers = new Set<string>();
     
-    for (const dateKey of stepDateKeys) {
-      const stepId = await store.get(dateKey);
-      if (!stepId) continue;
-      
-      const stepData = await store.get(`sword:step:${stepId}`);
-      if (!stepData) continue;
-      
-      const step = JSON.parse(stepData);
-      if (processedUsers.has(step.userId)) continue;
-      processedUsers.add(step.userId);
+    for (const date of dates) {
+      // Find all steps scheduled for this date
+      const stepDateKeys = await store.keys(`sword:step:date:${date}:*`);
       
-      try {
-        // Check if user already has active spark
-        const activeSparkKeys = await store.keys(`sword:spark:active:${step.userId}:*`);
-        if (activeSparkKeys.length > 0) {
-          usersWithExistingSparks++;
-          continue;
-        }
-        
-        // Check if step is already completed
-        if (step.status === 'completed') {
-          continue;
-        }
+      for (const dateKey of stepDateKeys) {
+        const stepId = await store.get(dateKey);
+        if (!stepId) continue;
         
-        // Create spark
-        const sparkId = `spark_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
-        const spark = {
-          id: sparkId,
-          stepId: step.id,
-          userId: step.userId,
-          action: `Start: ${step.title}`,
-          status: 'active',
-          escalationLevel: 0,
-          createdAt: new Date().toISOString(),
-          expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
-        };
+        const stepData = await store.get(`sword:step:${stepId}`);
+        if (!stepData) continue;
         
-        await store.set(`sword:spark:${sparkId}`, JSON.stringify(spark), 86400);
-        await store.set(`sword:spark:active:${step.userId}:${sparkId}`, sparkId, 86400);
+        const step = JSON.parse(stepData);
+        if (processedUsers.has(step.userId)) continue;
         
-        sparksCreated++;
-        usersProcessed++;
-      } catch (error) {
-        const msg = `Error creating spark for user ${step.userId}: ${error instanceof Error ? error.message : 'Unknown'}`;
-        errors.push(msg);
-        logger.warn(msg);
+        try {
+          // Only users whose local 9 AM has just passed, and only their local day's step
+          let run = localRuns.get(step.userId);
+          if (run === undefined) {
+            run = await getLocalRun('morning_sparks', localCron, step.userId, now, store);
+            localRuns.set(step.userId, run);
+          }
+          if (!run || DateTime.fromJSDate(run.scheduledFor, { zone: run.timezone }).toISODate() !== date) {
+            continue;
+          }
+          processedUsers.add(step.userId);
+          
+          // Check if user already has active spark
+          const activeSparkKeys = await store.keys(`sword:spark:active:${step.userId}:*`);
+          if (activeSparkKeys.length > 0) {
+            usersWithExistingSparks++;
+          } else if (step.status !== 'completed') {
+            // Create spark
+            const sparkId = `spark_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+            const spark = {
+              id: sparkId,
+              stepId: step.id,
+              userId: step.userId,
+              action: `Start: ${step.title}`,
+              status: 'active',
+              escalationLevel: 0,
+              createdAt: new Date().toISOString(),
+              expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+            };
+            
+            await store.set(`sword:spark:${sparkId}`, JSON.stringify(spark), 86400);
+            await store.set(`sword:spark:active:${step.userId}:${sparkId}`, sparkId, 86400);
+            
+            sparksCreated++;
+            usersProcessed++;
+          }
+          
+          await markLocalRun('morning_sparks', run, store);
+        } catch (error) {
+          const msg = `Error creating spark for user ${step.userId}: ${error instanceof Error ? error.message : 'Unknown'}`;
+          errors.push(msg);
+          logger.warn(msg);
+        }
       }
     }
     
@@ -268,6 +291,9 @@ export const reminderEscalationHandler: JobHandler = async (context: JobContext)
           spark.status = 'expired';
           await store.set(key, JSON.stringify(spark));
           sparksExpired++;
+          if (spark.userId) {
+            await sparkEvents.expired(spark.userId, { id: spark.id, action: spark.action });
+          }
           continue;
         }
         
@@ -332,7 +358,9 @@ export const reminderEscalationHandler: JobHandler = async (context: JobContext)
 // ─────────────────────────────────────────────────────────────────────────────────
 
 /**
- * Marks incomplete steps as missed and updates streaks.
+ * Marks incomplete steps as missed and updates streaks, then moves missed
+ * steps of plans with a reschedule policy back onto the calendar.
+ * Steps of paused plans are neither missed nor counted, so streaks freeze.
  * Runs at 11 PM.
  */
 export const dayEndReconciliationHandler: JobHandler = async (context: JobContext): Promise<JobResult> => {
@@ -343,10 +371,22 @@ export const dayEndReconciliationHandler: JobHandler = async (context: JobContex
   let usersProcessed = 0;
   let stepsMarkedMissed = 0;
   let stepsCompleted = 0;
+  let stepsPaused = 0;
   let streaksBroken = 0;
+  let plansRescheduled = 0;
   
   try {
-    const today = new Date().toISOString().split('T')[0];
+    const today = new Date().toISOString().split('T')[0]!;
+    const { sparkEngine } = getSparkEngine(store);
+    const pausedGoals = new Map<string, boolean>();
+    
+    const isGoalPaused = async (goalId: string): Promise<boolean> => {
+      if (!pausedGoals.has(goalId)) {
+        const result = await sparkEngine.getGoal(goalId as GoalId);
+        pausedGoals.set(goalId, result.ok && isPausedOn(result.value?.pauses, today));
+      }
+      return pausedGoals.get(goalId)!;
+    };
     
     // Find all steps scheduled for today
     const stepDateKeys = await store.keys(`sword:step:date:${today}:*`);
@@ -368,7 +408,9 @@ export const dayEndReconciliationHandler: JobHandler = async (context: JobContex
       const stats = userStats.get(step.userId)!;
       
       try {
-        if (step.status === 'completed') {
+        if (step.goalId && await isGoalPaused(step.goalId)) {
+          stepsPaused++;
+        } else if (step.status === 'completed') {
           stepsCompleted++;
           stats.completed++;
         } else if (step.status === 'pending' || step.status === 'in_progress') {
@@ -425,6 +467,16 @@ export const dayEndReconciliationHandler: JobHandler = async (context: JobContex
         errors.push(msg);
         logger.warn(msg);
       }
+      
+      // Catch up plans that fell behind
+      const rescheduleResult = await sparkEngine.rescheduleMissedDays(userId as UserId);
+      if (rescheduleResult.ok) {
+        plansRescheduled += rescheduleResult.value.length;
+      } else {
+        const msg = `Error rescheduling plans for user ${userId}: ${rescheduleResult.error.message}`;
+        errors.push(msg);
+        logger.warn(msg);
+      }
     }
     
     // Expire active sparks
@@ -438,7 +490,9 @@ export const dayEndReconciliationHandler: JobHandler = async (context: JobContex
       usersProcessed,
       stepsCompleted,
       stepsMarkedMissed,
+      stepsPaused,
       streaksBroken,
+      plansRescheduled,
     });
     
     return {
@@ -446,7 +500,7 @@ export const dayEndReconciliationHandler: JobHandler = async (context: JobContex
       duration: Date.now() - context.startedAt,
       itemsProcessed: usersProcessed,
       errors: errors.length > 0 ? errors : undefined,
-      metadata: { usersProcessed, stepsMarkedMissed, stepsCompleted, streaksBroken },
+      metadata: { usersProcessed, stepsMarkedMissed, stepsCompleted, stepsPaused, streaksBroken, plansRescheduled },
     };
   } catch (error) {
     logger.error('Day end reconciliation job failed', error instanceof Error ? error : new Error(String(error)));
@@ -668,6 +722,47 @@ export const retentionEnforcementHandler: JobHandler = async (context: JobContex
   }
 };
 
+// ─────────────────────────────────────────────────────────────────────────────────
+// REVIEW QUEUE HANDLER
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Builds each user's daily review queue once their local day has started.
+ * Runs hourly; users already queued for their local date are skipped.
+ */
+export const reviewQueueHandler: JobHandler = async (context: JobContext): Promise<JobResult> => {
+  logger.info('Starting review queue job', { executionId: context.executionId });
+  
+  try {
+    const { reviewService } = getSparkEngine(getStore());
+    const result = await reviewService.queueDueReviews(new Date(context.startedAt));
+    
+    if (!result.ok) {
+      return {
+        success: false,
+        duration: Date.now() - context.startedAt,
+        errors: [result.error.message],
+      };
+    }
+    
+    const { usersChecked, usersQueued, reviewsQueued } = result.value;
+    
+    return {
+      success: true,
+      duration: Date.now() - context.startedAt,
+      itemsProcessed: usersChecked,
+      metadata: { usersChecked, usersQueued, reviewsQueued },
+    };
+  } catch (error) {
+    logger.error('Review queue job failed', error instanceof Error ? error : new Error(String(error)));
+    return {
+      success: false,
+      duration: Date.now() - context.startedAt,
+      errors: [error instanceof Error ? error.message : 'Unknown error'],
+    };
+  }
+};
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // HANDLER REGISTRY
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -679,6 +774,7 @@ export const SWORD_JOB_HANDLERS: Map<SwordJobId, JobHandler> = new Map([
   ['day_end_reconciliation', dayEndReconciliationHandler],
   ['known_sources_health', knownSourcesHealthHandler],
   ['retention_enforcement', retentionEnforcementHandler],
+  ['review_queue', reviewQueueHandler],
 ]);
 
 export const swordJobHandlers = {
@@ -688,6 +784,7 @@ export const swordJobHandlers = {
   dayEndReconciliationHandler,
   knownSourcesHealthHandler,
   retentionEnforcementHandler,
+  reviewQueueHandler,
 };
 
 export function getSwordJobHandler(jobId: SwordJobId): JobHandler | undefined {
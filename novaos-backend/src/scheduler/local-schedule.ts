@@ -0,0 +1,94 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// LOCAL SCHEDULE — Per-User Timezone Scheduling for Jobs
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Jobs with a `localCron` run often in server time and act for each user once
+// that expression has fired in the user's own timezone:
+//   - Timezones come from the user's profile, falling back to the server's
+//   - A run is due for LOCAL_RUN_GRACE_MINUTES after its local time, so a
+//     missed tick or a lock held by another instance does not skip the day
+//   - A per-user marker records the last local run handled, so each one is
+//     handled once even though several ticks fall inside the grace window
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type { KeyValueStore } from '../storage/index.js';
+import { getStore } from '../storage/index.js';
+import { getMemoryStore } from '../core/memory/store.js';
+import { getServerTimezone } from '../utils/timezone.js';
+import { getPreviousRun } from './cron.js';
+import type { JobId } from './types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/** How long after its local time a run may still be picked up */
+export const LOCAL_RUN_GRACE_MINUTES = 60;
+
+/** Markers only need to outlive the gap between two runs */
+const LOCAL_RUN_MARKER_TTL_SECONDS = 8 * 24 * 60 * 60;
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * A local run that is due for a user.
+ */
+export interface LocalRun {
+  userId: string;
+  timezone: string;
+  scheduledFor: Date;        // When the expression fired in the user's timezone
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// RESOLUTION
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * The user's profile timezone, or the server's when they have not set one.
+ */
+export async function resolveUserTimezone(userId: string): Promise<string> {
+  return (await getMemoryStore().getTimezone(userId)) ?? getServerTimezone();
+}
+
+/**
+ * The local run due for a user, or null if the expression has not fired in
+ * their timezone within the grace window or that run was already handled.
+ */
+export async function getLocalRun(
+  jobId: JobId,
+  expression: string,
+  userId: string,
+  at: Date = new Date(),
+  store: KeyValueStore = getStore()
+): Promise<LocalRun | null> {
+  const timezone = await resolveUserTimezone(userId);
+  const scheduledFor = getPreviousRun(expression, at, LOCAL_RUN_GRACE_MINUTES, timezone);
+  if (!scheduledFor) {
+    return null;
+  }
+
+  const lastRun = await store.get(getMarkerKey(jobId, userId));
+  if (lastRun && Number(lastRun) >= scheduledFor.getTime()) {
+    return null;
+  }
+
+  return { userId, timezone, scheduledFor };
+}
+
+/**
+ * Record that a local run was handled so later ticks skip it.
+ */
+export async function markLocalRun(
+  jobId: JobId,
+  run: LocalRun,
+  store: KeyValueStore = getStore()
+): Promise<void> {
+  await store.set(getMarkerKey(jobId, run.userId), String(run.scheduledFor.getTime()), LOCAL_RUN_MARKER_TTL_SECONDS);
+}
+
+function getMarkerKey(jobId: JobId, userId: string): string {
+  return `scheduler:local:${jobId}:${userId}`;
+}
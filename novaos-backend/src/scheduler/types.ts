@@ -27,13 +27,15 @@ export type JobId =
   | 'expired_tokens_cleanup'
   | 'metrics_aggregation'
   | 'health_check'
+  | 'notification_digests'
   // Sword system jobs (Phase 15)
   | 'generate_daily_steps'
   | 'morning_sparks'
   | 'reminder_escalation'
   | 'day_end_reconciliation'
   | 'known_sources_health'
-  | 'retention_enforcement';
+  | 'retention_enforcement'
+  | 'review_queue';
 
 /**
  * Sword-specific job identifiers.
@@ -44,7 +46,8 @@ export type SwordJobId =
   | 'reminder_escalation'
   | 'day_end_reconciliation'
   | 'known_sources_health'
-  | 'retention_enforcement';
+  | 'retention_enforcement'
+  | 'review_queue';
 
 /**
  * Core scheduler job identifiers.
@@ -77,10 +80,17 @@ export type JobPriority = 'low' | 'normal' | 'high' | 'critical';
  *   { cron: '0 * * * *' }           - Top of every hour
  *   { cron: '0 0 * * *' }           - Midnight daily
  *   { cron: '0 3 * * 0' }           - 3 AM every Sunday
+ * 
+ * localCron: For per-user jobs, the time in each user's own timezone the job
+ * should act for them. The job still runs on `cron`, which must fire often
+ * enough to catch every zone; handlers use it to pick the users who are due.
+ * 
+ *   { cron: '0,30 * * * *', localCron: '0 9 * * *' } - 9 AM wherever each user is
  */
 export interface JobSchedule {
   intervalMs?: number;
   cron?: string;
+  localCron?: string;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -424,7 +434,9 @@ export interface DayEndReconciliationJobResult {
   usersProcessed: number;
   stepsMarkedMissed: number;
   stepsCompleted: number;
+  stepsPaused: number;
   streaksBroken: number;
+  plansRescheduled: number;
 }
 
 export interface KnownSourcesHealthJobResult {
@@ -443,6 +455,12 @@ export interface RetentionEnforcementJobResult {
   policiesApplied: number;
 }
 
+export interface ReviewQueueJobResult {
+  usersChecked: number;
+  usersQueued: number;
+  reviewsQueued: number;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // TYPE GUARDS
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -454,6 +472,7 @@ const SWORD_JOB_IDS: Set<string> = new Set([
   'day_end_reconciliation',
   'known_sources_health',
   'retention_enforcement',
+  'review_queue',
 ]);
 
 export function isSwordJobId(jobId: string): jobId is SwordJobId {
@@ -470,5 +489,6 @@ export function isJobId(value: string): value is JobId {
     'expired_tokens_cleanup',
     'metrics_aggregation',
     'health_check',
+    'notification_digests',
   ].includes(value);
 }
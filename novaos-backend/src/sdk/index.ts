@@ -47,6 +47,7 @@ export type {
   ChatRequest,
   ChatResponse,
   StreamEvent,
+  GateProgress,
   
   // Conversations
   Conversation,
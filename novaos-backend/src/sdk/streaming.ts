@@ -3,7 +3,7 @@
 // ═══════════════════════════════════════════════════════════════════════════════
 
 import { StreamError, NetworkError } from './errors.js';
-import type { StreamEvent, ChatResponse } from './types.js';
+import type { StreamEvent, ChatResponse, GateProgress } from './types.js';
 
 // ─────────────────────────────────────────────────────────────────────────────────
 // TYPES
@@ -12,12 +12,16 @@ import type { StreamEvent, ChatResponse } from './types.js';
 export interface StreamOptions {
   /** Callback for each text chunk */
   onChunk?: (text: string) => void;
+  /** Callback when the server replaces the streamed text with the validated text */
+  onReplace?: (text: string) => void;
   /** Callback when streaming is complete */
   onComplete?: (response: ChatResponse) => void;
   /** Callback for errors */
   onError?: (error: Error) => void;
   /** Callback for metadata updates */
   onMetadata?: (metadata: Partial<ChatResponse>) => void;
+  /** Callback as each server-side gate completes */
+  onGate?: (progress: GateProgress) => void;
   /** Abort signal for cancellation */
   signal?: AbortSignal;
 }
@@ -79,6 +83,10 @@ export function parseSSEEvent(data: string): StreamEvent | null {
       return { type: 'chunk', data: parsed.data };
     }
     
+    if (parsed.type === 'replace') {
+      return { type: 'replace', data: parsed.data };
+    }
+    
     if (parsed.type === 'done') {
       return { type: 'done', metadata: parsed.metadata };
     }
@@ -91,6 +99,18 @@ export function parseSSEEvent(data: string): StreamEvent | null {
       return { type: 'metadata', metadata: parsed.metadata };
     }
     
+    if (parsed.type === 'gate') {
+      return {
+        type: 'gate',
+        gate: {
+          gate: parsed.gate,
+          status: parsed.status,
+          action: parsed.action,
+          executionTimeMs: parsed.executionTimeMs,
+        },
+      };
+    }
+    
     return null;
   } catch {
     // If not JSON, treat as raw chunk
@@ -234,6 +254,11 @@ export async function consumeStream(
           }
           break;
           
+        case 'replace':
+          fullText = event.data ?? '';
+          options.onReplace?.(fullText);
+          break;
+          
         case 'metadata':
           if (event.metadata) {
             metadata = { ...metadata, ...event.metadata };
@@ -241,6 +266,12 @@ export async function consumeStream(
           }
           break;
           
+        case 'gate':
+          if (event.gate) {
+            options.onGate?.(event.gate);
+          }
+          break;
+          
         case 'done':
           if (event.metadata) {
             metadata = { ...metadata, ...event.metadata };
@@ -333,6 +364,8 @@ export class TextStream {
       if (event.type === 'chunk' && event.data) {
         this.chunks.push(event.data);
         yield event.data;
+      } else if (event.type === 'replace') {
+        this.chunks = [event.data ?? ''];
       } else if (event.type === 'metadata' && event.metadata) {
         this.metadata = { ...this.metadata, ...event.metadata };
       } else if (event.type === 'done' && event.metadata) {
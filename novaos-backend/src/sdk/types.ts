@@ -106,12 +106,22 @@ export interface ChatResponse {
     expiresAt: string;
   };
   stoppedReason?: string;
+  requestId?: string;
+  gateResults?: Record<string, unknown>;
+}
+
+export interface GateProgress {
+  gate: 'intent' | 'shield' | 'lens' | 'stance' | 'capability' | 'model' | 'personality' | 'spark';
+  status: string;
+  action: string;
+  executionTimeMs?: number;
 }
 
 export interface StreamEvent {
-  type: 'chunk' | 'done' | 'error' | 'metadata';
+  type: 'chunk' | 'replace' | 'done' | 'error' | 'metadata' | 'gate';
   data?: string;
   metadata?: Partial<ChatResponse>;
+  gate?: GateProgress;
   error?: string;
 }
 
@@ -9,12 +9,22 @@ import type {
   IndexedDocument,
   SearchResult,
   SearchableType,
+  IndexField,
+  Posting,
+  CorpusStats,
+  WeightedTerm,
+  BM25Options,
+  RankedDocument,
+  QueryNode,
+  QueryField,
 } from './types.js';
 import {
   DEFAULT_TOKENIZER_OPTIONS,
   DEFAULT_FUZZY_OPTIONS,
   STOP_WORDS,
   FIELD_BOOSTS,
+  INDEX_FIELDS,
+  DEFAULT_BM25_OPTIONS,
 } from './types.js';
 
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -223,6 +233,10 @@ export class FuzzyMatcher {
 // SEARCH RANKER
 // ─────────────────────────────────────────────────────────────────────────────────
 
+/**
+ * Per-document TF-IDF scorer. SearchEngine ranks with BM25Ranker over
+ * postings; this remains for scoring a single document in isolation.
+ */
 export class SearchRanker {
   private tokenizer: Tokenizer;
   private fuzzyMatcher: FuzzyMatcher;
@@ -391,6 +405,120 @@ export class SearchRanker {
   }
 }
 
+// ─────────────────────────────────────────────────────────────────────────────────
+// BM25 RANKER
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * BM25F-style ranking over postings lists. Field term frequencies are
+ * length-normalized per field, weighted by FIELD_BOOSTS and then saturated,
+ * so a title hit outweighs a content hit without letting one field dominate.
+ */
+export class BM25Ranker {
+  private options: BM25Options;
+  
+  constructor(options: Partial<BM25Options> = {}) {
+    this.options = { ...DEFAULT_BM25_OPTIONS, ...options };
+  }
+  
+  /**
+   * Boost for a field; memories index their key as title and value as content.
+   */
+  fieldBoost(type: SearchableType, field: IndexField): number {
+    if (type === 'memory') {
+      if (field === 'title') return FIELD_BOOSTS['key']!;
+      if (field === 'content') return FIELD_BOOSTS['value']!;
+    }
+    return FIELD_BOOSTS[field]!;
+  }
+  
+  /**
+   * Inverse document frequency (BM25+ variant, never negative).
+   */
+  idf(documentFrequency: number, documentCount: number): number {
+    return Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+  }
+  
+  /**
+   * Score every document that appears in the postings of any query term.
+   * Scores are normalized to 0-1 relative to the best match and include the
+   * same recency boost the per-document ranker applies.
+   */
+  rank(
+    terms: WeightedTerm[],
+    postings: Map<string, Posting[]>,
+    stats: CorpusStats
+  ): RankedDocument[] {
+    const { k1, b } = this.options;
+    const documentCount = Math.max(1, stats.documentCount);
+    const scored = new Map<string, RankedDocument & { matched: Set<string> }>();
+    
+    for (const { term, weight } of terms) {
+      const list = postings.get(term);
+      if (!list || list.length === 0) continue;
+      
+      const idf = this.idf(list.length, documentCount);
+      
+      for (const posting of list) {
+        let weightedTf = 0;
+        for (const field of INDEX_FIELDS) {
+          const tf = posting.tf[field];
+          if (!tf) continue;
+          
+          const avgLength = stats.totalFieldLength[field] / documentCount || 1;
+          const length = posting.length[field] ?? 0;
+          const norm = 1 - b + b * (length / avgLength);
+          weightedTf += this.fieldBoost(posting.type, field) * tf / norm;
+        }
+        if (weightedTf === 0) continue;
+        
+        const termScore = weight * idf * (weightedTf * (k1 + 1)) / (weightedTf + k1);
+        
+        let entry = scored.get(posting.docId);
+        if (!entry) {
+          entry = {
+            docId: posting.docId,
+            type: posting.type,
+            updatedAt: posting.updatedAt,
+            score: 0,
+            matchedTerms: [],
+            matched: new Set(),
+          };
+          scored.set(posting.docId, entry);
+        }
+        entry.score += termScore;
+        entry.matched.add(term);
+      }
+    }
+    
+    const ranked: RankedDocument[] = [];
+    for (const { matched, ...entry } of scored.values()) {
+      ranked.push({
+        ...entry,
+        score: entry.score * this.recencyBoost(entry.updatedAt),
+        matchedTerms: [...matched],
+      });
+    }
+    
+    const best = ranked.reduce((max, r) => Math.max(max, r.score), 0);
+    if (best > 0) {
+      for (const r of ranked) {
+        r.score = r.score / best;
+      }
+    }
+    
+    return ranked.sort((a, c) => c.score - a.score);
+  }
+  
+  private recencyBoost(updatedAt: string): number {
+    const docAge = Date.now() - new Date(updatedAt).getTime();
+    const daysSinceUpdate = docAge / (1000 * 60 * 60 * 24);
+    return daysSinceUpdate < 7
+      ? 1 + (0.5 * (1 - daysSinceUpdate / 7))
+      : 1;
+  }
+}
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // SEARCH ENGINE
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -399,11 +527,13 @@ export class SearchEngine {
   private tokenizer: Tokenizer;
   private fuzzyMatcher: FuzzyMatcher;
   private ranker: SearchRanker;
+  private bm25: BM25Ranker;
   
-  constructor() {
+  constructor(bm25Options: Partial<BM25Options> = {}) {
     this.tokenizer = new Tokenizer();
     this.fuzzyMatcher = new FuzzyMatcher();
     this.ranker = new SearchRanker();
+    this.bm25 = new BM25Ranker(bm25Options);
   }
   
   /**
@@ -446,7 +576,202 @@ export class SearchEngine {
   }
   
   /**
-   * Search indexed documents.
+   * Per-field term frequencies and lengths for a document.
+   * Content beyond maxTokens is not indexed.
+   */
+  getFieldFrequencies(
+    doc: Pick<IndexedDocument, 'title' | 'tags' | 'content'>,
+    maxTokens?: number
+  ): Record<IndexField, Map<string, number>> & { length: Record<IndexField, number> } {
+    let contentTokens = this.tokenizer.tokenize(doc.content);
+    if (maxTokens !== undefined && contentTokens.length > maxTokens) {
+      contentTokens = contentTokens.slice(0, maxTokens);
+    }
+    
+    const fieldTokens: Record<IndexField, string[]> = {
+      title: doc.title ? this.tokenizer.tokenize(doc.title) : [],
+      tags: (doc.tags ?? []).flatMap(tag => this.tokenizer.tokenize(tag)),
+      content: contentTokens,
+    };
+    
+    const count = (tokens: string[]) => {
+      const freq = new Map<string, number>();
+      for (const token of tokens) {
+        freq.set(token, (freq.get(token) ?? 0) + 1);
+      }
+      return freq;
+    };
+    
+    return {
+      title: count(fieldTokens.title),
+      tags: count(fieldTokens.tags),
+      content: count(fieldTokens.content),
+      length: {
+        title: fieldTokens.title.length,
+        tags: fieldTokens.tags.length,
+        content: fieldTokens.content.length,
+      },
+    };
+  }
+  
+  /**
+   * Build the postings a document contributes to the inverted index, keyed by term.
+   */
+  buildPostings(doc: IndexedDocument, maxTokens?: number): Map<string, Posting> {
+    const frequencies = this.getFieldFrequencies(doc, maxTokens);
+    const postings = new Map<string, Posting>();
+    
+    for (const field of INDEX_FIELDS) {
+      for (const [term, tf] of frequencies[field]) {
+        let posting = postings.get(term);
+        if (!posting) {
+          posting = {
+            docId: doc.id,
+            type: doc.type,
+            updatedAt: doc.updatedAt,
+            tf: {},
+            length: frequencies.length,
+          };
+          postings.set(term, posting);
+        }
+        posting.tf[field] = tf;
+      }
+    }
+    
+    return postings;
+  }
+  
+  /**
+   * Turn query text into the terms to look up. With fuzzy matching on, query
+   * terms missing from the vocabulary expand to their closest indexed terms
+   * at a reduced weight.
+   */
+  expandQuery(
+    query: string,
+    vocabulary: Iterable<string> | null,
+    fuzzy: boolean = true,
+    maxExpansions: number = 3
+  ): WeightedTerm[] {
+    const queryTokens = this.tokenizer.tokenizeUnique(query);
+    const vocab = vocabulary ? new Set(vocabulary) : null;
+    const terms: WeightedTerm[] = [];
+    
+    for (const queryTerm of queryTokens) {
+      if (!fuzzy || !vocab || vocab.has(queryTerm)) {
+        terms.push({ term: queryTerm, weight: 1, queryTerm });
+        continue;
+      }
+      
+      // Cheap length check first; edit distance is at least the length difference
+      const maxDistance = DEFAULT_FUZZY_OPTIONS.maxDistance ?? 2;
+      const candidates = [...vocab].filter(t =>
+        Math.abs(t.length - queryTerm.length) <= maxDistance &&
+        this.fuzzyMatcher.matches(queryTerm, t)
+      );
+      const matches = this.fuzzyMatcher
+        .findMatches(queryTerm, candidates)
+        .slice(0, maxExpansions);
+      
+      for (const match of matches) {
+        terms.push({ term: match.term, weight: 0.5 * match.score, queryTerm });
+      }
+    }
+    
+    return terms;
+  }
+  
+  /**
+   * Evaluate a parsed query against a document. `expansions` maps query
+   * tokens to fuzzy alternatives; a term matches if the document contains
+   * the token itself or any of its alternatives.
+   */
+  matchesQuery(
+    node: QueryNode,
+    doc: IndexedDocument,
+    expansions: Map<string, string[]> = new Map()
+  ): boolean {
+    const docTokens = new Set(doc.tokens);
+    const hasToken = (token: string) =>
+      docTokens.has(token) || (expansions.get(token) ?? []).some(t => docTokens.has(t));
+    
+    const evaluate = (n: QueryNode): boolean => {
+      switch (n.kind) {
+        case 'term':
+          // Terms made only of stop words or punctuation constrain nothing
+          return this.tokenizer.tokenize(n.value).every(hasToken);
+        
+        case 'phrase': {
+          const phrase = this.tokenizer.tokenize(n.value);
+          return this.containsSequence(this.tokenizer.tokenize(doc.title ?? ''), phrase) ||
+            this.containsSequence(this.tokenizer.tokenize(doc.content), phrase);
+        }
+        
+        case 'field':
+          return this.matchesField(n.field, n.value, doc);
+        
+        case 'date': {
+          const created = new Date(doc.createdAt).getTime();
+          const dayStart = new Date(`${n.date}T00:00:00.000Z`).getTime();
+          const dayEnd = dayStart + 24 * 60 * 60 * 1000;
+          if (n.op === 'after') return created >= dayStart;
+          if (n.op === 'before') return created < dayStart;
+          return created >= dayStart && created < dayEnd;
+        }
+        
+        case 'not':
+          return !evaluate(n.operand);
+        
+        case 'and':
+          return n.operands.every(evaluate);
+        
+        case 'or':
+          return n.operands.some(evaluate);
+      }
+    };
+    
+    return evaluate(node);
+  }
+  
+  /**
+   * Rank postings with BM25.
+   */
+  rankPostings(
+    terms: WeightedTerm[],
+    postings: Map<string, Posting[]>,
+    stats: CorpusStats
+  ): RankedDocument[] {
+    return this.bm25.rank(terms, postings, stats);
+  }
+  
+  /**
+   * Convert a ranked document into a search result.
+   */
+  toSearchResult(
+    doc: IndexedDocument,
+    score: number,
+    matchedTerms: string[],
+    highlight: boolean = true
+  ): SearchResult {
+    return {
+      id: doc.id,
+      type: doc.type,
+      title: doc.title ?? this.generateTitle(doc.content),
+      snippet: doc.content.slice(0, 200),
+      highlightedSnippet: highlight
+        ? this.ranker.highlightSnippet(doc.content, matchedTerms)
+        : undefined,
+      score,
+      matchedTerms,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt,
+      data: this.buildResultData(doc),
+    };
+  }
+  
+  /**
+   * Search an in-memory set of documents. Builds a transient inverted index
+   * and ranks with BM25; persistent per-user search goes through
+   * SearchIndexStore's postings instead.
    */
   search(
     query: string,
@@ -470,64 +795,35 @@ export class SearchEngine {
       highlight = true,
     } = options;
     
-    // Build term document counts for IDF
-    const termDocCounts = new Map<string, number>();
-    for (const doc of documents) {
-      const uniqueTokens = new Set(doc.tokens);
-      for (const token of uniqueTokens) {
-        termDocCounts.set(token, (termDocCounts.get(token) ?? 0) + 1);
-      }
-    }
-    
-    // Score all documents
-    const scored: Array<{
-      doc: IndexedDocument;
-      score: number;
-      matchedTerms: string[];
-    }> = [];
+    const postings = new Map<string, Posting[]>();
+    const stats: CorpusStats = {
+      documentCount: documents.length,
+      totalFieldLength: { title: 0, tags: 0, content: 0 },
+    };
+    const byId = new Map<string, IndexedDocument>();
     
     for (const doc of documents) {
-      const { score, matchedTerms } = this.ranker.calculateScore(
-        query,
-        doc,
-        documents.length,
-        termDocCounts
-      );
-      
-      if (score >= minScore) {
-        scored.push({ doc, score, matchedTerms });
+      byId.set(doc.id, doc);
+      for (const [term, posting] of this.buildPostings(doc)) {
+        const list = postings.get(term) ?? [];
+        list.push(posting);
+        postings.set(term, list);
+      }
+      const { length } = this.getFieldFrequencies(doc);
+      for (const field of INDEX_FIELDS) {
+        stats.totalFieldLength[field] += length[field];
       }
     }
     
-    // Sort by score
-    scored.sort((a, b) => b.score - a.score);
+    const terms = this.expandQuery(query, postings.keys(), fuzzy);
+    const ranked = this.rankPostings(terms, postings, stats)
+      .filter(r => r.score >= minScore);
     
-    // Paginate
-    const totalResults = scored.length;
-    const paged = scored.slice(offset, offset + limit);
+    const results = ranked
+      .slice(offset, offset + limit)
+      .map(r => this.toSearchResult(byId.get(r.docId)!, r.score, r.matchedTerms, highlight));
     
-    // Convert to SearchResult
-    const results: SearchResult[] = paged.map(({ doc, score, matchedTerms }) => {
-      const snippet = doc.content.slice(0, 200);
-      const highlightedSnippet = highlight
-        ? this.ranker.highlightSnippet(doc.content, matchedTerms)
-        : undefined;
-      
-      return {
-        id: doc.id,
-        type: doc.type,
-        title: doc.title ?? this.generateTitle(doc.content),
-        snippet,
-        highlightedSnippet,
-        score,
-        matchedTerms,
-        createdAt: doc.createdAt,
-        updatedAt: doc.updatedAt,
-        data: this.buildResultData(doc),
-      };
-    });
-    
-    return { results, totalResults };
+    return { results, totalResults: ranked.length };
   }
   
   /**
@@ -574,6 +870,48 @@ export class SearchEngine {
       .map(m => m.term);
   }
   
+  private matchesField(field: QueryField, value: string, doc: IndexedDocument): boolean {
+    const lower = value.toLowerCase();
+    const metadataValue = (key: string) => {
+      const v = doc.metadata[key];
+      return typeof v === 'string' ? v : undefined;
+    };
+    
+    switch (field) {
+      case 'title': {
+        const titleTokens = new Set(this.tokenizer.tokenize(doc.title ?? ''));
+        return this.tokenizer.tokenize(value).every(t => titleTokens.has(t));
+      }
+      case 'tag':
+        return doc.tags?.some(tag => tag.toLowerCase() === lower) ?? false;
+      case 'type':
+        return doc.type === value;
+      case 'category':
+        return metadataValue('category')?.toLowerCase() === lower;
+      case 'role':
+        return metadataValue('role')?.toLowerCase() === lower;
+      case 'confidence':
+        return metadataValue('confidence')?.toLowerCase() === lower;
+      case 'conversation':
+        // Ids are case-sensitive; conversations match on their own id
+        return metadataValue('conversationId') === value ||
+          (doc.type === 'conversation' && doc.id === value);
+    }
+  }
+  
+  private containsSequence(tokens: string[], sequence: string[]): boolean {
+    if (sequence.length === 0) return true;
+    
+    outer:
+    for (let i = 0; i <= tokens.length - sequence.length; i++) {
+      for (let j = 0; j < sequence.length; j++) {
+        if (tokens[i + j] !== sequence[j]) continue outer;
+      }
+      return true;
+    }
+    return false;
+  }
+  
   private generateTitle(content: string): string {
     const firstLine = content.split('\n')[0] ?? '';
     if (firstLine.length <= 60) return firstLine;
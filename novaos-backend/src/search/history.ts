@@ -11,6 +11,13 @@ import type {
   SearchConfig,
 } from './types.js';
 import { DEFAULT_SEARCH_CONFIG } from './types.js';
+import {
+  parseSearchQuery,
+  canonicalizeQuery,
+  collectFieldClauses,
+  splitTrailingFieldClause,
+  quoteQueryValue,
+} from './query-parser.js';
 
 // ─────────────────────────────────────────────────────────────────────────────────
 // CONSTANTS
@@ -173,6 +180,8 @@ export class SearchHistoryStore {
   
   /**
    * Get search suggestions based on history and popular queries.
+   * A prefix ending in a field clause (`rust tag:we`) is completed with
+   * values the user has searched that field with before.
    */
   async getSuggestions(
     userId: string,
@@ -189,6 +198,14 @@ export class SearchHistoryStore {
         s.query.toLowerCase().startsWith(lowerPrefix) ||
         s.query.toLowerCase().includes(lowerPrefix)
       );
+      
+      const completions = this.completeFieldClause(popular, prefix);
+      const seen = new Set(suggestions.map(s => canonicalizeQuery(s.query)));
+      for (const completion of completions) {
+        if (!seen.has(canonicalizeQuery(completion.query))) {
+          suggestions.push(completion);
+        }
+      }
     }
     
     // Sort by score (frequency + recency)
@@ -224,6 +241,41 @@ export class SearchHistoryStore {
   // POPULAR QUERIES
   // ═══════════════════════════════════════════════════════════════════════════════
   
+  /**
+   * Complete a trailing `field:partial` using field values from past queries,
+   * scored by how often queries using them were run.
+   */
+  private completeFieldClause(
+    popular: SearchSuggestion[],
+    prefix: string
+  ): SearchSuggestion[] {
+    const trailing = splitTrailingFieldClause(prefix);
+    if (!trailing) return [];
+    
+    const partial = trailing.partial.toLowerCase();
+    const values = new Map<string, number>();
+    
+    for (const entry of popular) {
+      let clauses;
+      try {
+        clauses = collectFieldClauses(parseSearchQuery(entry.query).ast);
+      } catch {
+        continue; // Recorded before the query language existed
+      }
+      
+      for (const clause of clauses) {
+        if (clause.field !== trailing.field) continue;
+        if (!clause.value.toLowerCase().startsWith(partial)) continue;
+        values.set(clause.value, (values.get(clause.value) ?? 0) + entry.score);
+      }
+    }
+    
+    return [...values.entries()].map(([value, score]) => ({
+      query: `${trailing.head}${trailing.negated ? '-' : ''}${trailing.field}:${quoteQueryValue(value)}`,
+      score,
+    }));
+  }
+  
   private async getPopularQueries(userId: string): Promise<SearchSuggestion[]> {
     const data = await this.store.get(popularQueriesKey(userId));
     return data ? JSON.parse(data) : [];
@@ -231,10 +283,11 @@ export class SearchHistoryStore {
   
   private async updatePopularQueries(userId: string, query: string): Promise<void> {
     const popular = await this.getPopularQueries(userId);
-    const lowerQuery = query.toLowerCase();
+    const canonical = canonicalizeQuery(query);
     
-    // Find existing entry
-    const existing = popular.find(p => p.query.toLowerCase() === lowerQuery);
+    // Find existing entry; queries that differ only in case, spacing or
+    // quoting (`TAG:rust  "async"` vs `tag:rust "async"`) count as one
+    const existing = popular.find(p => canonicalizeQuery(p.query) === canonical);
     
     if (existing) {
       // Increment score
@@ -1,15 +1,28 @@
 // ═══════════════════════════════════════════════════════════════════════════════
 // SEARCH INDEX STORE — Persistence for Search Index
 // ═══════════════════════════════════════════════════════════════════════════════
+//
+// Each user has an inverted index alongside the stored documents:
+//   term:{term}  → postings (docId → per-field term frequencies and lengths)
+//   terms        → vocabulary set, used for fuzzy query expansion
+//   corpus       → document count and total field lengths for BM25
+// Indexing and removal update only the terms a document contains, so search
+// cost scales with the number of matching documents rather than the corpus.
+//
+// ═══════════════════════════════════════════════════════════════════════════════
 
 import { getStore, type KeyValueStore } from '../storage/index.js';
+import { getLogger } from '../observability/logging/index.js';
 import type {
   IndexedDocument,
   SearchableType,
   IndexStats,
   SearchConfig,
+  Posting,
+  CorpusStats,
+  IndexField,
 } from './types.js';
-import { DEFAULT_SEARCH_CONFIG } from './types.js';
+import { DEFAULT_SEARCH_CONFIG, INDEX_FIELDS } from './types.js';
 import { SearchEngine, Tokenizer } from './engine.js';
 
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -17,6 +30,13 @@ import { SearchEngine, Tokenizer } from './engine.js';
 // ─────────────────────────────────────────────────────────────────────────────────
 
 const INDEX_TTL = 30 * 24 * 60 * 60; // 30 days
+const CORPUS_RECOUNT_INTERVAL = 24 * 60 * 60; // 1 day
+
+const logger = getLogger({ component: 'search-index' });
+
+// Bump when the postings format changes; older indexes are rebuilt on first use.
+// Stored without a TTL so an index kept alive by writes is never seen as legacy.
+const INVERTED_INDEX_VERSION = '1';
 
 // ─────────────────────────────────────────────────────────────────────────────────
 // KEY GENERATION
@@ -42,6 +62,26 @@ function statsKey(userId: string): string {
   return `search:user:${userId}:stats`;
 }
 
+function termKey(userId: string, term: string): string {
+  return `search:user:${userId}:term:${term}`;
+}
+
+function vocabularyKey(userId: string): string {
+  return `search:user:${userId}:terms`;
+}
+
+function corpusKey(userId: string): string {
+  return `search:user:${userId}:corpus`;
+}
+
+function indexVersionKey(userId: string): string {
+  return `search:user:${userId}:index:version`;
+}
+
+function corpusRecountKey(userId: string): string {
+  return `search:user:${userId}:corpus:recounted`;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // SEARCH INDEX STORE
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -79,6 +119,14 @@ export class SearchIndexStore {
       extra?: Record<string, unknown>;
     }
   ): Promise<IndexedDocument> {
+    // Legacy indexes are migrated before the first incremental update
+    await this.ensureInvertedIndex(userId);
+    
+    // Re-indexing replaces the previous version's postings and counts
+    if (await this.store.exists(documentKey(userId, id))) {
+      await this.removeDocument(userId, id);
+    }
+    
     // Create indexed document
     const doc = this.engine.indexDocument(
       id,
@@ -100,8 +148,11 @@ export class SearchIndexStore {
       INDEX_TTL
     );
     
+    // Add postings for every term in the document
+    await this.addPostings(userId, doc);
+    
     // Add to user index
-    await this.addToIndex(userId, id);
+    const evicted = await this.addToIndex(userId, id);
     
     // Add to type index
     await this.addToTypeIndex(userId, type, id);
@@ -116,6 +167,11 @@ export class SearchIndexStore {
     // Update stats
     await this.incrementDocCount(userId, type);
     
+    // Drop the document that fell out of the size-capped index
+    if (evicted) {
+      await this.removeDocument(userId, evicted);
+    }
+    
     return doc;
   }
   
@@ -222,6 +278,9 @@ export class SearchIndexStore {
     
     const doc: IndexedDocument = JSON.parse(docData);
     
+    // Remove postings
+    await this.removePostings(userId, doc);
+    
     // Remove from main index
     await this.removeFromIndex(userId, docId);
     
@@ -279,6 +338,15 @@ export class SearchIndexStore {
     return data ? JSON.parse(data) : null;
   }
   
+  /**
+   * Get several indexed documents, preserving the order of the ids given.
+   * Missing documents are skipped.
+   */
+  async getDocuments(userId: string, docIds: string[]): Promise<IndexedDocument[]> {
+    const docs = await Promise.all(docIds.map(id => this.getDocument(userId, id)));
+    return docs.filter((doc): doc is IndexedDocument => doc !== null);
+  }
+  
   /**
    * Get all indexed documents for a user.
    */
@@ -354,6 +422,68 @@ export class SearchIndexStore {
     return Array.from(tags).sort();
   }
   
+  // ═══════════════════════════════════════════════════════════════════════════════
+  // INVERTED INDEX
+  // ═══════════════════════════════════════════════════════════════════════════════
+  
+  /**
+   * Get the postings list for each term. Terms with no postings are omitted.
+   */
+  async getPostings(userId: string, terms: string[]): Promise<Map<string, Posting[]>> {
+    const unique = [...new Set(terms)];
+    const lists = await Promise.all(unique.map(term => this.getTermPostings(userId, term)));
+    const postings = new Map<string, Posting[]>();
+    
+    unique.forEach((term, i) => {
+      const list = Object.values(lists[i]!);
+      if (list.length > 0) {
+        postings.set(term, list);
+      }
+    });
+    
+    return postings;
+  }
+  
+  /**
+   * Get every term in the user's index.
+   */
+  async getVocabulary(userId: string): Promise<string[]> {
+    return this.store.smembers(vocabularyKey(userId));
+  }
+  
+  /**
+   * Get corpus statistics used for BM25 length normalization and IDF.
+   */
+  async getCorpusStats(userId: string): Promise<CorpusStats> {
+    const data = await this.store.get(corpusKey(userId));
+    return data
+      ? JSON.parse(data)
+      : { documentCount: 0, totalFieldLength: { title: 0, tags: 0, content: 0 } };
+  }
+  
+  /**
+   * Make sure the user's inverted index is current, rebuilding it from the
+   * stored documents if it predates the postings format and recounting the
+   * corpus once a day. Returns true if a migration ran.
+   */
+  async ensureInvertedIndex(userId: string): Promise<boolean> {
+    const version = await this.store.get(indexVersionKey(userId));
+    if (version === INVERTED_INDEX_VERSION) {
+      await this.recountCorpus(userId);
+      return false;
+    }
+    
+    const docIds = await this.getIndexDocIds(userId);
+    if (docIds.length === 0) {
+      await this.store.set(indexVersionKey(userId), INVERTED_INDEX_VERSION);
+      return false;
+    }
+    
+    const count = await this.rebuildIndex(userId);
+    logger.info('Migrated documents to inverted index', { userId, count });
+    return true;
+  }
+  
   // ═══════════════════════════════════════════════════════════════════════════════
   // STATS
   // ═══════════════════════════════════════════════════════════════════════════════
@@ -412,8 +542,12 @@ export class SearchIndexStore {
       if (removed) count++;
     }
     
-    // Clear stats
+    // Clear stats and index metadata
     await this.store.delete(statsKey(userId));
+    await this.store.delete(corpusKey(userId));
+    await this.store.delete(vocabularyKey(userId));
+    await this.store.delete(indexVersionKey(userId));
+    await this.store.delete(corpusRecountKey(userId));
     
     return count;
   }
@@ -434,11 +568,12 @@ export class SearchIndexStore {
   }
   
   /**
-   * Rebuild index from scratch.
+   * Rebuild index from scratch. Without documents, re-indexes the user's
+   * stored documents, which migrates them into the current postings format.
    */
   async rebuildIndex(
     userId: string,
-    documents: Array<{
+    documents?: Array<{
       id: string;
       type: SearchableType;
       content: string;
@@ -451,12 +586,28 @@ export class SearchIndexStore {
       };
     }>
   ): Promise<number> {
+    const source = documents ?? (await this.getAllDocuments(userId)).map(doc => ({
+      id: doc.id,
+      type: doc.type,
+      content: doc.content,
+      metadata: {
+        title: doc.title,
+        tags: doc.tags,
+        createdAt: doc.createdAt,
+        updatedAt: doc.updatedAt,
+        extra: doc.metadata,
+      },
+    }));
+    
     // Clear existing
     await this.clearIndex(userId);
     
+    // Mark current first so indexDocument does not try to migrate again
+    await this.store.set(indexVersionKey(userId), INVERTED_INDEX_VERSION);
+    
     // Re-index all
     let count = 0;
-    for (const doc of documents) {
+    for (const doc of source) {
       await this.indexDocument(
         userId,
         doc.id,
@@ -479,18 +630,24 @@ export class SearchIndexStore {
     return data ? JSON.parse(data) : [];
   }
   
-  private async addToIndex(userId: string, docId: string): Promise<void> {
+  /**
+   * Add a document id to the user index. Returns the id evicted to keep the
+   * index within maxIndexSize, if any.
+   */
+  private async addToIndex(userId: string, docId: string): Promise<string | undefined> {
     const ids = await this.getIndexDocIds(userId);
+    let evicted: string | undefined;
     if (!ids.includes(docId)) {
       ids.push(docId);
       
       // Enforce max size
       if (ids.length > this.config.maxIndexSize) {
-        ids.shift(); // Remove oldest
+        evicted = ids.shift(); // Remove oldest
       }
       
       await this.store.set(userIndexKey(userId), JSON.stringify(ids), INDEX_TTL);
     }
+    return evicted;
   }
   
   private async removeFromIndex(userId: string, docId: string): Promise<void> {
@@ -537,6 +694,101 @@ export class SearchIndexStore {
     await this.store.set(tagIndexKey(userId, tag), JSON.stringify(filtered), INDEX_TTL);
   }
   
+  private async getTermPostings(userId: string, term: string): Promise<Record<string, Posting>> {
+    const data = await this.store.get(termKey(userId, term));
+    return data ? JSON.parse(data) : {};
+  }
+  
+  private async addPostings(userId: string, doc: IndexedDocument): Promise<void> {
+    const postings = this.engine.buildPostings(doc, this.config.maxTokensPerDocument);
+    
+    for (const [term, posting] of postings) {
+      const existing = await this.getTermPostings(userId, term);
+      existing[doc.id] = posting;
+      await this.store.set(termKey(userId, term), JSON.stringify(existing), INDEX_TTL);
+    }
+    
+    // Documents with no indexable terms stay out of the corpus statistics
+    if (postings.size === 0) return;
+    
+    await this.store.sadd(vocabularyKey(userId), ...postings.keys());
+    await this.store.expire(vocabularyKey(userId), INDEX_TTL);
+    await this.adjustCorpusStats(userId, this.fieldLengths(doc), 1);
+  }
+  
+  private async removePostings(userId: string, doc: IndexedDocument): Promise<void> {
+    const postings = this.engine.buildPostings(doc, this.config.maxTokensPerDocument);
+    let indexed = false;
+    
+    for (const term of postings.keys()) {
+      const existing = await this.getTermPostings(userId, term);
+      if (!existing[doc.id]) continue;
+      
+      indexed = true;
+      delete existing[doc.id];
+      
+      if (Object.keys(existing).length === 0) {
+        await this.store.delete(termKey(userId, term));
+        await this.store.srem(vocabularyKey(userId), term);
+      } else {
+        await this.store.set(termKey(userId, term), JSON.stringify(existing), INDEX_TTL);
+      }
+    }
+    
+    // Documents from before the inverted index (or without terms) never
+    // contributed to the corpus
+    if (indexed) {
+      await this.adjustCorpusStats(userId, this.fieldLengths(doc), -1);
+    }
+  }
+  
+  /**
+   * Documents expire on their own TTL without going through removeDocument,
+   * so they stay counted in the corpus. Drop expired ids from the user index
+   * and recount the corpus from the documents that remain.
+   */
+  private async recountCorpus(userId: string): Promise<void> {
+    if (await this.store.exists(corpusRecountKey(userId))) return;
+    await this.store.set(corpusRecountKey(userId), new Date().toISOString(), CORPUS_RECOUNT_INTERVAL);
+    
+    const ids = await this.getIndexDocIds(userId);
+    const documents = await this.getDocuments(userId, ids);
+    if (documents.length < ids.length) {
+      await this.store.set(userIndexKey(userId), JSON.stringify(documents.map(doc => doc.id)), INDEX_TTL);
+      await this.store.delete(statsKey(userId));
+    }
+    
+    const stats: CorpusStats = { documentCount: 0, totalFieldLength: { title: 0, tags: 0, content: 0 } };
+    for (const doc of documents) {
+      // Same rule as addPostings: documents without terms are not counted
+      if (this.engine.buildPostings(doc, this.config.maxTokensPerDocument).size === 0) continue;
+      
+      const lengths = this.fieldLengths(doc);
+      stats.documentCount++;
+      for (const field of INDEX_FIELDS) {
+        stats.totalFieldLength[field] += lengths[field];
+      }
+    }
+    await this.store.set(corpusKey(userId), JSON.stringify(stats), INDEX_TTL);
+  }
+  
+  private fieldLengths(doc: IndexedDocument): Record<IndexField, number> {
+    return this.engine.getFieldFrequencies(doc, this.config.maxTokensPerDocument).length;
+  }
+  
+  private async adjustCorpusStats(
+    userId: string,
+    lengths: Record<IndexField, number>,
+    delta: 1 | -1
+  ): Promise<void> {
+    const stats = await this.getCorpusStats(userId);
+    stats.documentCount = Math.max(0, stats.documentCount + delta);
+    for (const field of INDEX_FIELDS) {
+      stats.totalFieldLength[field] = Math.max(0, stats.totalFieldLength[field] + delta * lengths[field]);
+    }
+    await this.store.set(corpusKey(userId), JSON.stringify(stats), INDEX_TTL);
+  }
+  
   private async incrementDocCount(userId: string, type: SearchableType): Promise<void> {
     // Get raw stats from cache only (don't recalculate to avoid double-counting)
     const data = await this.store.get(statsKey(userId));
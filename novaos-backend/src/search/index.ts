@@ -22,6 +22,18 @@ export type {
   TokenizerOptions,
   FuzzyMatchOptions,
   RankingFactors,
+  IndexField,
+  Posting,
+  CorpusStats,
+  WeightedTerm,
+  RankedDocument,
+  BM25Options,
+  QueryField,
+  DateOperator,
+  QueryNode,
+  QueryParseErrorCode,
+  QueryParseIssue,
+  ParsedSearchQuery,
   SearchConfig,
 } from './types.js';
 
@@ -31,6 +43,8 @@ export {
   DEFAULT_FUZZY_OPTIONS,
   STOP_WORDS,
   FIELD_BOOSTS,
+  INDEX_FIELDS,
+  DEFAULT_BM25_OPTIONS,
   DEFAULT_SEARCH_CONFIG,
 } from './types.js';
 
@@ -39,10 +53,24 @@ export {
   Tokenizer,
   FuzzyMatcher,
   SearchRanker,
+  BM25Ranker,
   SearchEngine,
   getSearchEngine,
 } from './engine.js';
 
+// Query Language
+export {
+  QUERY_FIELDS,
+  DATE_OPERATORS,
+  SearchQueryError,
+  parseSearchQuery,
+  formatQuery,
+  canonicalizeQuery,
+  collectFieldClauses,
+  splitTrailingFieldClause,
+  quoteQueryValue,
+} from './query-parser.js';
+
 // Index Store
 export {
   SearchIndexStore,
@@ -0,0 +1,496 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// SEARCH QUERY PARSER — Phrases, Field Filters, Boolean Operators, Date Ranges
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Grammar (AND binds tighter than OR; juxtaposition is AND):
+//
+//   query   := or
+//   or      := and ( "OR" and )*
+//   and     := unary ( "AND"? unary )*
+//   unary   := ( "-" | "NOT" ) unary | primary
+//   primary := "(" or ")" | "\"" phrase "\"" | field ":" value | term
+//
+// Operators are recognised in upper case only, so "or" and "and" in ordinary
+// text stay search terms (and are then dropped as stop words). Likewise only
+// known field names start a field clause; "re:meeting" or a URL is a term.
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type {
+  QueryNode,
+  QueryField,
+  DateOperator,
+  QueryParseIssue,
+  QueryParseErrorCode,
+  ParsedSearchQuery,
+  SearchableType,
+} from './types.js';
+import { Tokenizer } from './engine.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export const QUERY_FIELDS: readonly QueryField[] = [
+  'title',
+  'tag',
+  'type',
+  'category',
+  'role',
+  'conversation',
+  'confidence',
+];
+
+export const DATE_OPERATORS: readonly DateOperator[] = ['after', 'before', 'on'];
+
+const TYPE_ALIASES: Record<string, SearchableType> = {
+  conversation: 'conversation',
+  conversations: 'conversation',
+  message: 'message',
+  messages: 'message',
+  memory: 'memory',
+  memories: 'memory',
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isFieldName(name: string): boolean {
+  return (QUERY_FIELDS as readonly string[]).includes(name) ||
+    (DATE_OPERATORS as readonly string[]).includes(name);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// ERRORS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export class SearchQueryError extends Error {
+  readonly code = 'INVALID_SEARCH_QUERY';
+  readonly issue: QueryParseIssue;
+
+  constructor(code: QueryParseErrorCode, message: string, position: number, length: number) {
+    super(`${message} (at position ${position})`);
+    this.name = 'SearchQueryError';
+    this.issue = { code, message, position, length };
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// LEXER
+// ─────────────────────────────────────────────────────────────────────────────────
+
+type Token =
+  | { type: 'lparen' | 'rparen' | 'or' | 'and' | 'not'; position: number; length: number }
+  | { type: 'word' | 'phrase'; value: string; position: number; length: number }
+  | { type: 'field'; name: string; value: string; position: number; length: number };
+
+function readPhrase(input: string, start: number): { value: string; end: number } {
+  const close = input.indexOf('"', start + 1);
+  if (close === -1) {
+    throw new SearchQueryError(
+      'UNTERMINATED_PHRASE',
+      'Phrase is missing its closing quote',
+      start,
+      input.length - start
+    );
+  }
+  return { value: input.slice(start + 1, close), end: close + 1 };
+}
+
+function lex(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i]!;
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (ch === '(' || ch === ')') {
+      tokens.push({ type: ch === '(' ? 'lparen' : 'rparen', position: i, length: 1 });
+      i++;
+      continue;
+    }
+
+    if (ch === '"') {
+      const { value, end } = readPhrase(input, i);
+      tokens.push({ type: 'phrase', value, position: i, length: end - i });
+      i = end;
+      continue;
+    }
+
+    // A leading dash negates the clause it is attached to
+    if (ch === '-' && i + 1 < input.length && !/[\s)]/.test(input[i + 1]!)) {
+      tokens.push({ type: 'not', position: i, length: 1 });
+      i++;
+      continue;
+    }
+
+    let end = i;
+    while (end < input.length && !/[\s()"]/.test(input[end]!)) {
+      end++;
+    }
+    const word = input.slice(i, end);
+    const colon = word.indexOf(':');
+    const name = word.slice(0, colon).toLowerCase();
+
+    if (colon > 0 && isFieldName(name)) {
+      let value = word.slice(colon + 1);
+      if (value === '' && input[end] === '"') {
+        const phrase = readPhrase(input, end);
+        value = phrase.value;
+        end = phrase.end;
+      }
+      tokens.push({
+        type: 'field',
+        name,
+        value,
+        position: i,
+        length: end - i,
+      });
+    } else if (word === 'OR' || word === 'AND' || word === 'NOT') {
+      tokens.push({ type: word.toLowerCase() as 'or' | 'and' | 'not', position: i, length: word.length });
+    } else {
+      tokens.push({ type: 'word', value: word, position: i, length: word.length });
+    }
+
+    i = end;
+  }
+
+  return tokens;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// PARSER
+// ─────────────────────────────────────────────────────────────────────────────────
+
+class QueryParser {
+  private tokens: Token[];
+  private index = 0;
+  private inputLength: number;
+
+  constructor(input: string) {
+    this.tokens = lex(input);
+    this.inputLength = input.length;
+  }
+
+  parse(): QueryNode {
+    const node = this.parseOr();
+    const extra = this.peek();
+    if (extra) {
+      // parseOr only stops early on a closing parenthesis
+      throw new SearchQueryError('UNBALANCED_PARENTHESIS', 'Unexpected closing parenthesis', extra.position, 1);
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++]!;
+  }
+
+  private startsOperand(token: Token | undefined): boolean {
+    return token !== undefined && token.type !== 'rparen' && token.type !== 'or' && token.type !== 'and';
+  }
+
+  private missingOperand(after: Token): never {
+    throw new SearchQueryError(
+      'MISSING_OPERAND',
+      `Operator at position ${after.position} needs something to apply to`,
+      after.position,
+      after.length
+    );
+  }
+
+  private parseOr(): QueryNode {
+    const operands = [this.parseAnd()];
+
+    while (this.peek()?.type === 'or') {
+      const operator = this.next();
+      if (!this.startsOperand(this.peek())) this.missingOperand(operator);
+      operands.push(this.parseAnd());
+    }
+
+    return operands.length === 1 ? operands[0]! : { kind: 'or', operands };
+  }
+
+  private parseAnd(): QueryNode {
+    const operands: QueryNode[] = [];
+
+    while (true) {
+      const token = this.peek();
+      if (token?.type === 'and') {
+        if (operands.length === 0) this.missingOperand(token);
+        this.next();
+        if (!this.startsOperand(this.peek())) this.missingOperand(token);
+        continue;
+      }
+      if (!this.startsOperand(token)) break;
+      operands.push(this.parseUnary());
+    }
+
+    if (operands.length === 0) {
+      const token = this.peek();
+      if (token?.type === 'rparen') {
+        throw new SearchQueryError('UNBALANCED_PARENTHESIS', 'Unexpected closing parenthesis', token.position, 1);
+      }
+      if (token) this.missingOperand(token);
+      throw new SearchQueryError('MISSING_OPERAND', 'Query is empty', this.inputLength, 0);
+    }
+
+    return operands.length === 1 ? operands[0]! : { kind: 'and', operands };
+  }
+
+  private parseUnary(): QueryNode {
+    const token = this.peek()!;
+    if (token.type === 'not') {
+      this.next();
+      if (!this.startsOperand(this.peek())) this.missingOperand(token);
+      return { kind: 'not', operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): QueryNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'lparen': {
+        if (this.peek()?.type === 'rparen') {
+          throw new SearchQueryError('MISSING_OPERAND', 'Empty group', token.position, 2);
+        }
+        const node = this.parseOr();
+        if (this.peek()?.type !== 'rparen') {
+          throw new SearchQueryError('UNBALANCED_PARENTHESIS', 'Group is missing its closing parenthesis', token.position, 1);
+        }
+        this.next();
+        return node;
+      }
+
+      case 'phrase':
+        if (token.value.trim() === '') {
+          throw new SearchQueryError('EMPTY_PHRASE', 'Phrase is empty', token.position, token.length);
+        }
+        return { kind: 'phrase', value: token.value };
+
+      case 'field':
+        return this.parseField(token);
+
+      case 'word':
+        return { kind: 'term', value: token.value };
+
+      default:
+        // startsOperand() rules out the remaining token types
+        return this.missingOperand(token);
+    }
+  }
+
+  private parseField(token: Extract<Token, { type: 'field' }>): QueryNode {
+    const { name, position, length } = token;
+    const value = token.value.trim();
+
+    const isDate = (DATE_OPERATORS as readonly string[]).includes(name);
+
+    if (value === '') {
+      throw new SearchQueryError('EMPTY_FIELD_VALUE', `Field "${name}" needs a value`, position, length);
+    }
+
+    if (isDate) {
+      if (!isValidDate(value)) {
+        throw new SearchQueryError('INVALID_DATE', `"${value}" is not a valid YYYY-MM-DD date`, position, length);
+      }
+      return { kind: 'date', op: name as DateOperator, date: value };
+    }
+
+    if (name === 'type') {
+      const type = TYPE_ALIASES[value.toLowerCase()];
+      if (!type) {
+        throw new SearchQueryError(
+          'INVALID_FIELD_VALUE',
+          `"${value}" is not a searchable type (conversation, message or memory)`,
+          position,
+          length
+        );
+      }
+      return { kind: 'field', field: 'type', value: type };
+    }
+
+    return { kind: 'field', field: name as QueryField, value };
+  }
+}
+
+function isValidDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00.000Z`);
+  // Rejects dates that roll over, such as 2026-02-30
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// ANALYSIS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const tokenizer = new Tokenizer();
+
+/**
+ * Tokens that contribute to relevance: non-negated terms, phrases and
+ * title/tag values (both are indexed fields).
+ */
+function collectRankingTerms(node: QueryNode, negated: boolean, out: Set<string>): void {
+  switch (node.kind) {
+    case 'term':
+    case 'phrase':
+      if (!negated) tokenizer.tokenize(node.value).forEach(t => out.add(t));
+      return;
+    case 'field':
+      if (!negated && (node.field === 'title' || node.field === 'tag')) {
+        tokenizer.tokenize(node.value).forEach(t => out.add(t));
+      }
+      return;
+    case 'not':
+      collectRankingTerms(node.operand, !negated, out);
+      return;
+    case 'and':
+    case 'or':
+      node.operands.forEach(op => collectRankingTerms(op, negated, out));
+      return;
+    default:
+      return;
+  }
+}
+
+/**
+ * Whether every matching document must contain one of the ranking terms,
+ * which lets the caller take candidates from postings instead of a scan.
+ */
+function requiresText(node: QueryNode): boolean {
+  switch (node.kind) {
+    case 'term':
+    case 'phrase':
+      return tokenizer.tokenize(node.value).length > 0;
+    case 'field':
+      return (node.field === 'title' || node.field === 'tag') &&
+        tokenizer.tokenize(node.value).length > 0;
+    case 'and':
+      return node.operands.some(requiresText);
+    case 'or':
+      return node.operands.every(requiresText);
+    default:
+      return false;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// PUBLIC API
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Parse a search query. Throws SearchQueryError for malformed input.
+ */
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const ast = new QueryParser(input).parse();
+  const rankingTerms = new Set<string>();
+  collectRankingTerms(ast, false, rankingTerms);
+
+  return {
+    ast,
+    rankingTerms: [...rankingTerms],
+    requiresText: requiresText(ast),
+  };
+}
+
+/**
+ * Quote a field value if it would not survive as a bare word.
+ */
+export function quoteQueryValue(value: string): string {
+  return /[\s()"]/.test(value) || value === '' ? `"${value.replace(/"/g, '')}"` : value;
+}
+
+/**
+ * Render an AST back into canonical query syntax.
+ */
+export function formatQuery(node: QueryNode): string {
+  switch (node.kind) {
+    case 'term':
+      return node.value;
+    case 'phrase':
+      return `"${node.value}"`;
+    case 'field':
+      return `${node.field}:${quoteQueryValue(node.value)}`;
+    case 'date':
+      return `${node.op}:${node.date}`;
+    case 'not': {
+      const inner = formatQuery(node.operand);
+      return node.operand.kind === 'and' || node.operand.kind === 'or' ? `-(${inner})` : `-${inner}`;
+    }
+    case 'and':
+      return node.operands
+        .map(op => (op.kind === 'or' ? `(${formatQuery(op)})` : formatQuery(op)))
+        .join(' ');
+    case 'or':
+      return node.operands.map(formatQuery).join(' OR ');
+  }
+}
+
+/**
+ * Field and date clauses in a query, e.g. for history-based completion.
+ */
+export function collectFieldClauses(
+  node: QueryNode,
+  negated: boolean = false
+): Array<{ field: QueryField | DateOperator; value: string; negated: boolean }> {
+  switch (node.kind) {
+    case 'field':
+      return [{ field: node.field, value: node.value, negated }];
+    case 'date':
+      return [{ field: node.op, value: node.date, negated }];
+    case 'not':
+      return collectFieldClauses(node.operand, !negated);
+    case 'and':
+    case 'or':
+      return node.operands.flatMap(op => collectFieldClauses(op, negated));
+    default:
+      return [];
+  }
+}
+
+/**
+ * Split a partially typed query into its completed head and a trailing
+ * field clause still being typed (`... tag:ru`). Returns null when the
+ * query does not end in a known field.
+ */
+export function splitTrailingFieldClause(
+  input: string
+): { head: string; negated: boolean; field: QueryField | DateOperator; partial: string } | null {
+  const match = /(^|\s)(-?)([a-zA-Z]+):"?([^\s"]*)$/.exec(input);
+  if (!match) return null;
+
+  const field = match[3]!.toLowerCase();
+  if (!isFieldName(field)) {
+    return null;
+  }
+
+  return {
+    head: input.slice(0, match.index + match[1]!.length),
+    negated: match[2] === '-',
+    field: field as QueryField | DateOperator,
+    partial: match[4]!,
+  };
+}
+
+/**
+ * Canonical form used to treat equivalent queries as one history entry.
+ * Falls back to the trimmed lowercase text for unparseable input.
+ */
+export function canonicalizeQuery(input: string): string {
+  try {
+    return formatQuery(parseSearchQuery(input).ast).toLowerCase();
+  } catch {
+    return input.trim().toLowerCase();
+  }
+}
@@ -19,6 +19,18 @@ import { DEFAULT_SEARCH_CONFIG } from './types.js';
 import { SearchEngine, getSearchEngine } from './engine.js';
 import { SearchIndexStore, getSearchIndexStore } from './index-store.js';
 import { SearchHistoryStore, getSearchHistoryStore } from './history.js';
+import { parseSearchQuery } from './query-parser.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const SCOPE_TYPES: Record<SearchScope, SearchableType[] | null> = {
+  all: null,
+  conversations: ['conversation'],
+  messages: ['message'],
+  memories: ['memory'],
+};
 
 // ─────────────────────────────────────────────────────────────────────────────────
 // SEARCH SERVICE
@@ -49,7 +61,8 @@ export class SearchService {
   // ═══════════════════════════════════════════════════════════════════════════════
   
   /**
-   * Execute a search query.
+   * Execute a search query. Throws SearchQueryError if the query text does
+   * not parse.
    */
   async search(userId: string, query: SearchQuery): Promise<SearchResults> {
     const startTime = Date.now();
@@ -70,21 +83,65 @@ export class SearchService {
       return this.emptyResults(queryText, scope, limit, offset, Date.now() - startTime);
     }
     
-    // Get documents based on scope
-    let documents = await this.getDocumentsForScope(userId, scope);
+    // Parse first so malformed queries fail before touching the index
+    const parsed = parseSearchQuery(queryText);
     
-    // Apply filters
-    documents = this.applyFilters(documents, filters);
+    // Indexes written before postings existed are migrated on first search
+    await this.indexStore.ensureInvertedIndex(userId);
     
-    // Execute search
-    const { results, totalResults } = this.engine.search(
-      queryText,
-      documents,
-      { fuzzy, minScore, limit, offset, highlight }
-    );
+    // Resolve ranking terms (fuzzy expansion works off the vocabulary, not documents)
+    const vocabulary = fuzzy && parsed.rankingTerms.length > 0
+      ? await this.indexStore.getVocabulary(userId)
+      : null;
+    const terms = this.engine.expandQuery(parsed.rankingTerms.join(' '), vocabulary, fuzzy);
+    const expansions = new Map<string, string[]>();
+    for (const { term, queryTerm } of terms) {
+      if (term !== queryTerm) {
+        expansions.set(queryTerm, [...(expansions.get(queryTerm) ?? []), term]);
+      }
+    }
+    
+    const [postings, corpusStats] = await Promise.all([
+      this.indexStore.getPostings(userId, terms.map(t => t.term)),
+      this.indexStore.getCorpusStats(userId),
+    ]);
+    
+    // Rank against the whole corpus so IDF is not skewed by scope or filters
+    const ranked = this.engine.rankPostings(terms, postings, corpusStats);
+    const rankById = new Map(ranked.map(r => [r.docId, r]));
+    
+    // Text queries take candidates from postings; filter-only queries scan the scope
+    const scopeTypes = SCOPE_TYPES[scope];
+    const candidates = parsed.requiresText
+      ? await this.indexStore.getDocuments(
+          userId,
+          ranked.filter(r => !scopeTypes || scopeTypes.includes(r.type)).map(r => r.docId)
+        )
+      : await this.getDocumentsForScope(userId, scope);
+    
+    const documents = this.applyFilters(candidates, filters)
+      .filter(doc => this.engine.matchesQuery(parsed.ast, doc, expansions));
+    
+    // Normalize against the best surviving match. minScore only applies when
+    // every match had to contain a ranking term; otherwise a document may match
+    // on filters alone and legitimately score zero.
+    const best = documents.reduce((max, doc) => Math.max(max, rankById.get(doc.id)?.score ?? 0), 0);
+    const scored = documents
+      .map(doc => ({
+        doc,
+        score: best > 0 ? (rankById.get(doc.id)?.score ?? 0) / best : 1,
+        matchedTerms: rankById.get(doc.id)?.matchedTerms ?? [],
+      }))
+      .filter(s => !parsed.requiresText || s.score >= minScore)
+      .sort((a, b) => (b.score - a.score) || b.doc.createdAt.localeCompare(a.doc.createdAt));
+    
+    const totalResults = scored.length;
+    const results = scored
+      .slice(offset, offset + limit)
+      .map(s => this.engine.toSearchResult(s.doc, s.score, s.matchedTerms, highlight));
     
     // Calculate facets
-    const facets = this.calculateFacets(documents, results);
+    const facets = this.calculateFacets(scored.map(s => s.doc), results);
     
     // Record in history
     await this.historyStore.recordSearch(
@@ -264,6 +321,39 @@ export class SearchService {
     );
   }
   
+  /**
+   * Keep a conversation's indexed messages on its active branch: remove
+   * messages that left it and index the ones that joined it. Conversations
+   * with no indexed messages are left alone.
+   */
+  async syncMessageBranch(
+    userId: string,
+    conversationId: string,
+    messages: Array<{ id: string; role: 'user' | 'assistant' | 'system'; content: string; timestamp: number }>,
+    activeIds: ReadonlySet<string>
+  ): Promise<void> {
+    const indexed = await this.indexStore.getDocuments(userId, messages.map(m => m.id));
+    if (indexed.length === 0) return;
+    const indexedIds = new Set(indexed.map(doc => doc.id));
+
+    for (const message of messages) {
+      if (!activeIds.has(message.id)) {
+        if (indexedIds.has(message.id)) {
+          await this.indexStore.removeDocument(userId, message.id);
+        }
+      } else if (!indexedIds.has(message.id)) {
+        await this.indexStore.indexMessage(
+          userId,
+          message.id,
+          conversationId,
+          message.role,
+          message.content,
+          new Date(message.timestamp).toISOString()
+        );
+      }
+    }
+  }
+
   /**
    * Remove a document from the index.
    */
@@ -400,17 +490,14 @@ export class SearchService {
     userId: string,
     scope: SearchScope
   ): Promise<IndexedDocument[]> {
-    switch (scope) {
-      case 'conversations':
-        return this.indexStore.getDocumentsByType(userId, 'conversation');
-      case 'messages':
-        return this.indexStore.getDocumentsByType(userId, 'message');
-      case 'memories':
-        return this.indexStore.getDocumentsByType(userId, 'memory');
-      case 'all':
-      default:
-        return this.indexStore.getAllDocuments(userId);
+    const types = SCOPE_TYPES[scope];
+    if (!types) {
+      return this.indexStore.getAllDocuments(userId);
     }
+    const byType = await Promise.all(
+      types.map(type => this.indexStore.getDocumentsByType(userId, type))
+    );
+    return byType.flat();
   }
   
   private applyFilters(
@@ -476,8 +563,12 @@ export class SearchService {
     });
   }
   
+  /**
+   * Facets over the matched documents; type and date counts cover the
+   * current page of results.
+   */
   private calculateFacets(
-    allDocuments: IndexedDocument[],
+    matchedDocuments: IndexedDocument[],
     results: SearchResult[]
   ): SearchFacets {
     // Type counts from results
@@ -491,9 +582,9 @@ export class SearchService {
       byType[result.type]++;
     }
     
-    // Tag counts from all documents
+    // Tag counts from matched documents
     const byTag: Record<string, number> = {};
-    for (const doc of allDocuments) {
+    for (const doc of matchedDocuments) {
       if (doc.tags) {
         for (const tag of doc.tags) {
           byTag[tag] = (byTag[tag] ?? 0) + 1;
@@ -503,7 +594,7 @@ export class SearchService {
     
     // Category counts (memories only)
     const byCategory: Record<string, number> = {};
-    for (const doc of allDocuments) {
+    for (const doc of matchedDocuments) {
       if (doc.type === 'memory') {
         const category = doc.metadata['category'] as string;
         if (category) {
@@ -15,7 +15,7 @@ export type SearchScope = 'all' | 'conversations' | 'messages' | 'memories';
 // ─────────────────────────────────────────────────────────────────────────────────
 
 export interface SearchQuery {
-  // Query text
+  // Query text (see QueryNode for the supported syntax)
   query: string;
   
   // Scope
@@ -51,6 +51,64 @@ export interface SearchFilters {
   memorySensitivity?: ('public' | 'private' | 'sensitive')[];
 }
 
+// ─────────────────────────────────────────────────────────────────────────────────
+// QUERY LANGUAGE
+// ─────────────────────────────────────────────────────────────────────────────────
+//
+//   rust borrow          both terms (implicit AND)
+//   "borrow checker"     exact phrase
+//   rust OR go           either term; AND binds tighter than OR
+//   -unsafe, NOT unsafe  exclude
+//   (rust OR go) async   grouping
+//   tag:rust  type:memory  title:ownership  category:skill
+//   role:user  conversation:<id>  confidence:explicit
+//   after:2026-01-01  before:2026-02-01  on:2026-01-15   (UTC days on createdAt)
+//
+
+export type QueryField =
+  | 'title'
+  | 'tag'
+  | 'type'
+  | 'category'
+  | 'role'
+  | 'conversation'
+  | 'confidence';
+
+export type DateOperator = 'after' | 'before' | 'on';
+
+export type QueryNode =
+  | { kind: 'term'; value: string }
+  | { kind: 'phrase'; value: string }
+  | { kind: 'field'; field: QueryField; value: string }
+  | { kind: 'date'; op: DateOperator; date: string }      // YYYY-MM-DD
+  | { kind: 'not'; operand: QueryNode }
+  | { kind: 'and'; operands: QueryNode[] }
+  | { kind: 'or'; operands: QueryNode[] };
+
+export type QueryParseErrorCode =
+  | 'UNTERMINATED_PHRASE'
+  | 'EMPTY_PHRASE'
+  | 'UNBALANCED_PARENTHESIS'
+  | 'MISSING_OPERAND'
+  | 'EMPTY_FIELD_VALUE'
+  | 'INVALID_FIELD_VALUE'
+  | 'INVALID_DATE';
+
+export interface QueryParseIssue {
+  code: QueryParseErrorCode;
+  message: string;
+  position: number;          // Character offset into the query
+  length: number;            // Length of the offending input
+}
+
+export interface ParsedSearchQuery {
+  ast: QueryNode;
+  // Tokens from non-negated terms, phrases and title/tag values, used for ranking
+  rankingTerms: string[];
+  // True when every match must contain at least one ranking term
+  requiresText: boolean;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // SEARCH RESULTS
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -255,6 +313,57 @@ export const FIELD_BOOSTS: Record<string, number> = {
   value: 1.2,                // Memory value
 };
 
+// ─────────────────────────────────────────────────────────────────────────────────
+// INVERTED INDEX
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export type IndexField = 'title' | 'tags' | 'content';
+
+export const INDEX_FIELDS: readonly IndexField[] = ['title', 'tags', 'content'];
+
+/**
+ * One document's entry in a term's postings list.
+ * Field lengths are carried on every posting so BM25 length normalization
+ * needs no extra lookups at query time.
+ */
+export interface Posting {
+  docId: string;
+  type: SearchableType;
+  updatedAt: string;
+  tf: Partial<Record<IndexField, number>>;      // Term frequency per field
+  length: Partial<Record<IndexField, number>>;  // Token count per field
+}
+
+export interface CorpusStats {
+  documentCount: number;
+  totalFieldLength: Record<IndexField, number>;
+}
+
+/** A query term to look up, with its weight (1 for exact, < 1 for fuzzy expansions) */
+export interface WeightedTerm {
+  term: string;
+  weight: number;
+  queryTerm: string;
+}
+
+export interface RankedDocument {
+  docId: string;
+  type: SearchableType;
+  updatedAt: string;
+  score: number;             // 0-1, relative to the best match
+  matchedTerms: string[];
+}
+
+export interface BM25Options {
+  k1: number;                // Term frequency saturation
+  b: number;                 // Length normalization (0 = none, 1 = full)
+}
+
+export const DEFAULT_BM25_OPTIONS: BM25Options = {
+  k1: 1.2,
+  b: 0.75,
+};
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // CONFIGURATION
 // ─────────────────────────────────────────────────────────────────────────────────
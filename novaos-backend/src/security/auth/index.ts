@@ -12,6 +12,7 @@ export {
   type AuthenticatedUser,
   type JWTPayload,
   type ServiceIdentity,
+  type ServiceTokenPayload,
   type RequestContext,
   type SecureRequest,
   type TokenVerificationResult,
@@ -38,6 +39,7 @@ export {
   generateServiceToken,
   verifyToken,
   verifyTokenSync,
+  verifyServiceToken,
   decodeToken,
   revokeToken,
   revokeTokenByValue,
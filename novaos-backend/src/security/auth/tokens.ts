@@ -5,12 +5,14 @@
 
 import jwt from 'jsonwebtoken';
 import type { SignOptions, VerifyOptions, JwtPayload } from 'jsonwebtoken';
+import { z } from 'zod';
 import { getStore, type KeyValueStore } from '../../storage/index.js';
 import { createTimestamp, type UserId } from '../../types/branded.js';
 import { ok, err, type Result } from '../../types/result.js';
 import {
   type AuthenticatedUser,
   type JWTPayload,
+  type ServiceTokenPayload,
   type TokenOptions,
   type GeneratedToken,
   type TokenVerificationResult,
@@ -345,6 +347,62 @@ export function verifyTokenSync(token: string): Result<JWTPayload, TokenError> {
   }
 }
 
+/**
+ * Claims a service token must carry (see generateServiceToken).
+ */
+const ServiceTokenPayloadSchema = z.object({
+  sub: z.string().min(1),
+  iat: z.number(),
+  exp: z.number(),
+  iss: z.string(),
+  type: z.literal('service'),
+  serviceName: z.string().min(1),
+  permissions: z.array(z.string()),
+  jti: z.string().optional(),
+});
+
+/**
+ * Verify a service token (see generateServiceToken).
+ * Checks signature, expiry, issuer, audience, revocation, the service token
+ * claims and, when given, that the token grants `requiredPermission`.
+ */
+export async function verifyServiceToken(
+  token: string,
+  requiredPermission?: string
+): Promise<Result<ServiceTokenPayload, TokenError>> {
+  const verified = verifyTokenSync(token);
+  if (!verified.ok) {
+    return verified;
+  }
+
+  const parsed = ServiceTokenPayloadSchema.safeParse(verified.value);
+  if (!parsed.success) {
+    return err({ code: 'NOT_SERVICE_TOKEN', message: 'Token is not a service token' });
+  }
+  const payload = parsed.data;
+
+  if (payload.jti) {
+    const revocation = await getRevocationStore().isRevoked(payload.jti);
+    if (revocation.revoked) {
+      return err({
+        code: 'REVOKED',
+        message: `Token has been revoked: ${revocation.reason ?? 'unknown reason'}`,
+        revokedAt: revocation.revokedAt,
+      });
+    }
+  }
+
+  if (requiredPermission && !payload.permissions.includes(requiredPermission)) {
+    return err({
+      code: 'INSUFFICIENT_PERMISSIONS',
+      message: `Service token lacks permission: ${requiredPermission}`,
+      required: requiredPermission,
+    });
+  }
+
+  return ok(payload);
+}
+
 /**
  * Decode a token without verification (for inspection only).
  */
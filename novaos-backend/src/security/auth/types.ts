@@ -318,7 +318,9 @@ export type TokenError =
   | { readonly code: 'REVOKED'; readonly message: string; readonly revokedAt?: Date }
   | { readonly code: 'INVALID_ISSUER'; readonly message: string }
   | { readonly code: 'INVALID_AUDIENCE'; readonly message: string }
-  | { readonly code: 'MISSING'; readonly message: string };
+  | { readonly code: 'MISSING'; readonly message: string }
+  | { readonly code: 'NOT_SERVICE_TOKEN'; readonly message: string }
+  | { readonly code: 'INSUFFICIENT_PERMISSIONS'; readonly message: string; readonly required: Permission };
 
 /**
  * Get error code from TokenError.
@@ -43,6 +43,7 @@ export {
   type AuthenticatedUser,
   type JWTPayload,
   type ServiceIdentity,
+  type ServiceTokenPayload,
   type RequestContext,
   type SecureRequest,
   type TokenVerificationResult,
@@ -68,6 +69,7 @@ export {
   generateServiceToken,
   verifyToken,
   verifyTokenSync,
+  verifyServiceToken,
   decodeToken,
   revokeToken,
   revokeTokenByValue,
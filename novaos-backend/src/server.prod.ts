@@ -13,8 +13,14 @@ import {
   loadSecurityConfig,
 } from './api/middleware/index.js';
 import { storeManager } from './storage/index.js';
-import { loadConfig, canVerify } from './config/index.js';
+import { initEventBus, getEventBus } from './events/index.js';
+import { initNotificationStream, shutdownNotificationStream } from './notifications/stream.js';
+import { getWebhookDispatcher } from './webhooks/index.js';
+import { loadConfig, loadFeatureFlags, canVerify } from './config/index.js';
+import { parseProviderOrder, type ProviderName } from './providers/index.js';
 import { getLogger } from './logging/index.js';
+import { configureTracer, tracingMiddleware, shutdownTracer } from './observability/tracing/index.js';
+import { metricsMiddleware, metricsEndpoint } from './observability/metrics/index.js';
 import {
   circuitRegistry,
   circuitBreakerStatusMiddleware,
@@ -32,7 +38,8 @@ const NODE_ENV = process.env.NODE_ENV ?? 'development';
 // Provider configuration
 const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
 const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
-const PREFERRED_PROVIDER = (process.env.PREFERRED_PROVIDER as 'openai' | 'gemini' | 'mock') ?? 'openai';
+const PREFERRED_PROVIDER = (process.env.PREFERRED_PROVIDER as ProviderName) ?? 'openai';
+const PROVIDER_ORDER = parseProviderOrder(loadFeatureFlags().providerOrder);
 const USE_MOCK = process.env.USE_MOCK_PROVIDER === 'true';
 
 // Auth configuration
@@ -102,6 +109,13 @@ app.use(sanitizeRequest());
 // Request ID and logging middleware
 app.use(requestMiddleware);
 
+// Distributed tracing (no-op unless ENABLE_TRACING=true)
+configureTracer(loadConfig().tracing);
+app.use(tracingMiddleware());
+
+// HTTP request metrics
+app.use(metricsMiddleware());
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // HEALTH & MONITORING ROUTES
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -113,6 +127,9 @@ app.use('/', healthRouter);
 // Circuit breaker status endpoint (Phase 20)
 app.get('/circuits', circuitBreakerStatusMiddleware());
 
+// Prometheus scrape endpoint (service token with metrics:read)
+app.get('/metrics', metricsEndpoint());
+
 // Simple root check for load balancers
 app.get('/', (_req, res) => {
   res.json({ 
@@ -168,8 +185,15 @@ function gracefulShutdown(signal: string) {
     
     logger.info('HTTP server closed');
     
-    // Close storage connections
-    storeManager.close()
+    // Unacknowledged events stay in the outbox for the next start
+    getEventBus().stop();
+    getWebhookDispatcher().stop();
+    
+    // Close storage connections, then flush buffered spans
+    getEventBus().drain()
+      .then(() => shutdownNotificationStream())
+      .then(() => storeManager.close())
+      .then(() => shutdownTracer())
       .then(() => {
         logger.info('Storage connections closed');
         
@@ -217,6 +241,16 @@ async function startup() {
     });
   }
   
+  // Domain events: outbox relay and webhook delivery
+  initEventBus(storeManager.getStore());
+  getWebhookDispatcher().start();
+  
+  // Notification streams fan out across instances over Redis pub/sub
+  await initNotificationStream(
+    storeManager.getStore(),
+    storeManager.isUsingRedis() ? REDIS_URL : undefined
+  );
+  
   // Determine verification capability
   const verificationStatus = canVerify() ? 'enabled' : 'disabled';
   
@@ -244,8 +278,10 @@ async function startup() {
     const apiRouter = await createRouterAsync({
       requireAuth: REQUIRE_AUTH || NODE_ENV === 'production',
       preferredProvider: USE_MOCK ? 'mock' : PREFERRED_PROVIDER,
+      providerOrder: USE_MOCK ? undefined : PROVIDER_ORDER,
       openaiApiKey: OPENAI_API_KEY,
       geminiApiKey: GEMINI_API_KEY,
+      local: loadConfig().localModel,
     });
     app.use('/api/v1', apiRouter);
     logger.info('API router mounted');
@@ -8,8 +8,14 @@ import { createRouterAsync, errorHandler } from './api/routes.js';  // ← Chang
 import { createHealthRouter } from './api/routes/health.js';
 import { requestMiddleware } from './api/middleware/request.js';
 import { storeManager } from './storage/index.js';
-import { loadConfig, canVerify } from './config/index.js';
+import { initEventBus, getEventBus } from './events/index.js';
+import { initNotificationStream, shutdownNotificationStream } from './notifications/stream.js';
+import { getWebhookDispatcher } from './webhooks/index.js';
+import { loadConfig, loadFeatureFlags, canVerify } from './config/index.js';
+import { parseProviderOrder, type ProviderName } from './providers/index.js';
 import { getLogger } from './logging/index.js';
+import { configureTracer, tracingMiddleware, shutdownTracer } from './observability/tracing/index.js';
+import { metricsMiddleware, metricsEndpoint } from './observability/metrics/index.js';
 
 // Debug imports for live data providers
 import { getAvailableProviders, getFinnhubProvider, getWeatherProvider, getCryptoProvider, getFxProvider } from './services/data-providers/providers/index.js';
@@ -24,7 +30,8 @@ const NODE_ENV = process.env.NODE_ENV ?? 'development';
 // Provider configuration
 const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
 const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
-const PREFERRED_PROVIDER = (process.env.PREFERRED_PROVIDER as 'openai' | 'gemini' | 'mock') ?? 'openai';
+const PREFERRED_PROVIDER = (process.env.PREFERRED_PROVIDER as ProviderName) ?? 'openai';
+const PROVIDER_ORDER = parseProviderOrder(loadFeatureFlags().providerOrder);
 const USE_MOCK = process.env.USE_MOCK_PROVIDER === 'true';
 
 // Auth configuration
@@ -66,8 +73,8 @@ app.set('trust proxy', 1);
 app.use(cors({
   origin: '*',
   methods: ['GET', 'POST', 'PATCH', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'X-Request-Id'],
-  exposedHeaders: ['X-Request-Id'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'X-Request-Id', 'traceparent', 'tracestate'],
+  exposedHeaders: ['X-Request-Id', 'traceparent', 'tracestate'],
 }));
 
 // Body parsing
@@ -79,6 +86,13 @@ app.use(express.static('public'));
 // Request ID and logging middleware
 app.use(requestMiddleware);
 
+// Distributed tracing (no-op unless ENABLE_TRACING=true)
+configureTracer(loadConfig().tracing);
+app.use(tracingMiddleware());
+
+// HTTP request metrics
+app.use(metricsMiddleware());
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // ROUTES
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -87,6 +101,9 @@ app.use(requestMiddleware);
 const healthRouter = createHealthRouter();
 app.use('/', healthRouter);
 
+// Prometheus scrape endpoint (service token with metrics:read)
+app.get('/metrics', metricsEndpoint());
+
 // Simple root check for load balancers
 app.get('/', (_req, res) => {
   res.json({ 
@@ -129,6 +146,16 @@ async function startServer() {
   // Initialize storage (Redis or memory fallback)
   await storeManager.initialize();
 
+  // Domain events: outbox relay and webhook delivery
+  initEventBus(storeManager.getStore());
+  getWebhookDispatcher().start();
+
+  // Notification streams fan out across instances over Redis pub/sub
+  await initNotificationStream(
+    storeManager.getStore(),
+    storeManager.isUsingRedis() ? REDIS_URL : undefined
+  );
+
   const config = loadConfig();
 
   // ═══════════════════════════════════════════════════════════════════════════════
@@ -140,7 +167,9 @@ async function startServer() {
   const router = await createRouterAsync({
     openaiApiKey: OPENAI_API_KEY,
     geminiApiKey: GEMINI_API_KEY,
+    local: config.localModel,
     preferredProvider: PREFERRED_PROVIDER,
+    providerOrder: PROVIDER_ORDER,
     useMockProvider: USE_MOCK,
     requireAuth: REQUIRE_AUTH,
     enableFullStepGenerator: ENABLE_FULL_STEP_GENERATOR,  // ← NEW: Enable full mode
@@ -154,7 +183,11 @@ async function startServer() {
   const server = app.listen(PORT, () => {
     const providerStatus = USE_MOCK 
       ? 'mock' 
-      : [OPENAI_API_KEY ? 'openai' : '', GEMINI_API_KEY ? 'gemini' : ''].filter(Boolean).join(', ') || 'none (mock fallback)';
+      : [
+          OPENAI_API_KEY ? 'openai' : '',
+          GEMINI_API_KEY ? 'gemini' : '',
+          config.localModel.baseUrl ? 'local' : '',
+        ].filter(Boolean).join(', ') || 'none (mock fallback)';
     const storageStatus = storeManager.isUsingRedis() ? 'redis' : 'memory';
     const verifyStatus = canVerify() ? 'enabled' : 'disabled';
     const stepGenStatus = ENABLE_FULL_STEP_GENERATOR && storeManager.isUsingRedis() ? 'full' : 'stub';
@@ -234,6 +267,9 @@ Admin:
   POST /api/v1/admin/block-user    Block a user
   POST /api/v1/admin/unblock-user  Unblock a user
   GET  /api/v1/admin/audit-logs    View audit logs
+  GET  /api/v1/admin/usage         LLM usage and top spenders
+  GET  /api/v1/admin/usage/users/:id   Usage of one user
+  GET  /api/v1/admin/usage/tenants/:id Usage of one tenant
 
 Ready to enforce the Nova Constitution. Startup: ${startupTime}ms
     `);
@@ -246,9 +282,17 @@ Ready to enforce the Nova Constitution. Startup: ${startupTime}ms
     server.close(async () => {
       logger.info('HTTP server closed');
       
+      // Unacknowledged events stay in the outbox for the next start
+      getEventBus().stop();
+      getWebhookDispatcher().stop();
+      await getEventBus().drain();
+      await shutdownNotificationStream();
+      
       await storeManager.disconnect();
       logger.info('Storage disconnected');
       
+      await shutdownTracer();
+      
       logger.info('Server shutdown complete');
       process.exit(0);
     });
@@ -3,7 +3,7 @@
 // NovaOS Spark Engine — Phase 8: Core Types & SparkEngine
 // ═══════════════════════════════════════════════════════════════════════════════
 
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { ok, err } from '../../../types/result.js';
 import type { AsyncAppResult } from '../../../types/result.js';
 import {
@@ -21,6 +21,7 @@ import {
 } from '../../../types/branded.js';
 
 import { SparkEngine } from '../spark-engine.js';
+import { getEventBus, resetEventBus, type DomainEvent } from '../../../events/index.js';
 import type {
   Goal,
   Quest,
@@ -33,6 +34,8 @@ import type {
   IStepGenerator,
   ISparkGenerator,
   IReminderService,
+  IReviewScheduler,
+  IPaceAdapter,
 } from '../interfaces.js';
 
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -82,6 +85,10 @@ function createMockStore(): ISparkEngineStore {
     getStep: vi.fn(async (stepId: StepId): AsyncAppResult<Step | null> => {
       return ok(steps.get(stepId) ?? null);
     }),
+    deleteStep: vi.fn(async (stepId: StepId): AsyncAppResult<void> => {
+      steps.delete(stepId);
+      return ok(undefined);
+    }),
     getStepsByQuest: vi.fn(async (questId: QuestId): AsyncAppResult<readonly Step[]> => {
       return ok(Array.from(steps.values()).filter(s => s.questId === questId));
     }),
@@ -567,6 +574,19 @@ describe('SparkEngine', () => {
       expect(lastStep.difficultyRating).toBe(3);
     });
 
+    it('feeds the rating to the pace adapter', async () => {
+      const paceAdapter: IPaceAdapter = { onStepFeedback: vi.fn(async () => ok(null)) };
+      engine = new SparkEngine(store, stepGenerator, sparkGenerator, reminderService, null, paceAdapter);
+      const step = createTestStep(createQuestId());
+      await store.saveStep(step);
+
+      await engine.rateDifficulty(step.id, 5);
+
+      expect(paceAdapter.onStepFeedback).toHaveBeenCalledWith(
+        expect.objectContaining({ id: step.id, difficultyRating: 5 })
+      );
+    });
+
     it('returns error for non-existent step', async () => {
       const result = await engine.rateDifficulty(createStepId(), 3);
       expect(result.ok).toBe(false);
@@ -576,6 +596,114 @@ describe('SparkEngine', () => {
     });
   });
 
+  // ─────────────────────────────────────────────────────────────────────────────
+  // recordQuizResult
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  describe('recordQuizResult', () => {
+    it('completes the step on a passing score and derives difficulty', async () => {
+      const step = createTestStep(createQuestId());
+      await store.saveStep(step);
+
+      const result = await engine.recordQuizResult(step.id, 80, true);
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.status).toBe('completed');
+        expect(result.value.completedAt).toBeDefined();
+        expect(result.value.difficultyRating).toBe(2);
+        expect(result.value.difficultySource).toBe('quiz');
+        expect(result.value.quizScore).toBe(80);
+      }
+    });
+
+    it('closes open sparks and feeds the pace adapter on completion', async () => {
+      const paceAdapter: IPaceAdapter = { onStepFeedback: vi.fn(async () => ok(null)) };
+      engine = new SparkEngine(store, stepGenerator, sparkGenerator, reminderService, null, paceAdapter);
+      const step = createTestStep(createQuestId());
+      const spark = createTestSpark(step.id);
+      await store.saveStep(step);
+      await store.saveSpark(spark);
+
+      await engine.recordQuizResult(step.id, 80, true);
+
+      expect(reminderService.cancelReminders).toHaveBeenCalledWith(spark.id);
+      const sparkResult = await store.getSpark(spark.id);
+      expect(sparkResult.ok && sparkResult.value?.status).toBe('completed');
+      expect(paceAdapter.onStepFeedback).toHaveBeenCalledWith(
+        expect.objectContaining({ id: step.id, status: 'completed', difficultyRating: 2 })
+      );
+    });
+
+    it('publishes step.completed on the event bus', async () => {
+      resetEventBus();
+      const published: DomainEvent[] = [];
+      getEventBus().subscribe('test', async (event) => { published.push(event); });
+
+      const userId = createUserId();
+      const goal = createTestGoal(userId);
+      const quest = createTestQuest(goal.id);
+      const step = createTestStep(quest.id);
+      await store.saveGoal(goal);
+      await store.saveQuest(quest);
+      await store.saveStep(step);
+
+      try {
+        await engine.recordQuizResult(step.id, 20, false);
+        await engine.recordQuizResult(step.id, 80, true);
+        await engine.recordQuizResult(step.id, 90, true);
+        await getEventBus().drain();
+
+        expect(published.filter(e => e.type === 'step.completed')).toEqual([
+          expect.objectContaining({
+            userId,
+            data: { step: { id: step.id, questId: quest.id, title: step.title } },
+          }),
+        ]);
+      } finally {
+        resetEventBus();
+      }
+    });
+
+    it('does not complete the step on a failing score', async () => {
+      const step = createTestStep(createQuestId());
+      await store.saveStep(step);
+
+      const result = await engine.recordQuizResult(step.id, 20, false);
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.status).toBe(step.status);
+        expect(result.value.difficultyRating).toBe(5);
+      }
+    });
+
+    it('keeps the best score and an explicit user rating', async () => {
+      const step = createTestStep(createQuestId());
+      await store.saveStep(step);
+      await engine.rateDifficulty(step.id, 4);
+
+      await engine.recordQuizResult(step.id, 90, true);
+      const result = await engine.recordQuizResult(step.id, 50, false);
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.difficultyRating).toBe(4);
+        expect(result.value.difficultySource).toBe('user');
+        expect(result.value.quizScore).toBe(90);
+        expect(result.value.status).toBe('completed');
+      }
+    });
+
+    it('returns error for non-existent step', async () => {
+      const result = await engine.recordQuizResult(createStepId(), 80, true);
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe('NOT_FOUND');
+      }
+    });
+  });
+
   // ─────────────────────────────────────────────────────────────────────────────
   // getPathProgress
   // ─────────────────────────────────────────────────────────────────────────────
@@ -655,8 +783,170 @@ describe('SparkEngine', () => {
         expect(result.value.hasContent).toBe(false);
         expect(result.value.step).toBeNull();
         expect(result.value.spark).toBeNull();
+        expect(result.value.reviews).toEqual([]);
       }
     });
+
+    it('includes reviews due today', async () => {
+      const userId = createUserId();
+      await store.saveGoal(createTestGoal(userId));
+      const review = { stepId: createStepId(), title: 'Earlier lesson' };
+      const reviewScheduler: IReviewScheduler = {
+        syncStep: vi.fn(async () => ok(null)),
+        recordQuizScore: vi.fn(async () => ok(null)),
+        getReviewsForDate: vi.fn(async () => ok([review] as never)),
+      };
+      engine = new SparkEngine(store, stepGenerator, sparkGenerator, reminderService, reviewScheduler);
+
+      const result = await engine.getTodayForUser(userId);
+
+      expect(result.ok && result.value.reviews).toEqual([review]);
+      expect(reviewScheduler.getReviewsForDate).toHaveBeenCalledWith(userId, expect.any(String));
+    });
+  });
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Rescheduling
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  describe('rescheduling', () => {
+    // Wednesday 2026-10-21, midday in New York
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2026-10-21T16:00:00Z'));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    async function seedPlan(goal: Goal): Promise<Step[]> {
+      await store.saveGoal(goal);
+      const quest = createTestQuest(goal.id);
+      await store.saveQuest(quest);
+
+      const dates = ['2026-10-19', '2026-10-20', '2026-10-21', '2026-10-22', '2026-10-23'];
+      const steps = dates.map((scheduledDate, i) => ({
+        ...createTestStep(quest.id),
+        title: `Day ${i + 1}`,
+        order: i + 1,
+        dayNumber: i + 1,
+        scheduledDate,
+      }));
+      for (const step of steps) {
+        await store.saveStep(step);
+      }
+      return steps;
+    }
+
+    async function datesOf(steps: readonly Step[]): Promise<(string | undefined)[]> {
+      const dates: (string | undefined)[] = [];
+      for (const step of steps) {
+        const result = await store.getStep(step.id);
+        dates.push(result.ok ? result.value?.scheduledDate : undefined);
+      }
+      return dates;
+    }
+
+    it('pushes missed steps back and cancels their reminders', async () => {
+      const goal = createTestGoal(createUserId());
+      const steps = await seedPlan(goal);
+      const spark = { ...createTestSpark(steps[0]!.id), status: 'active' as const };
+      await store.saveSpark(spark);
+
+      const result = await engine.reschedulePlan(goal.id);
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.policy).toBe('push_back');
+        expect(result.value.fromDate).toBe('2026-10-21');
+        expect(result.value.endDate).toBe('2026-10-27');
+      }
+      expect(await datesOf(steps)).toEqual([
+        '2026-10-21', '2026-10-22', '2026-10-23', '2026-10-26', '2026-10-27',
+      ]);
+      expect(reminderService.cancelReminders).toHaveBeenCalledWith(spark.id);
+    });
+
+    it('returns NOT_FOUND for unknown goal', async () => {
+      const result = await engine.reschedulePlan(createGoalId());
+      expect(!result.ok && result.error.code).toBe('NOT_FOUND');
+    });
+
+    it('pauses a plan and moves steps out of the pause', async () => {
+      const goal = createTestGoal(createUserId());
+      const steps = await seedPlan(goal);
+      await store.saveStep({ ...steps[0]!, status: 'completed' });
+      await store.saveStep({ ...steps[1]!, status: 'completed' });
+
+      const result = await engine.pausePlan(goal.id, {
+        startDate: '2026-10-22',
+        endDate: '2026-10-23',
+        reason: 'Conference',
+      });
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.goal.pauses).toHaveLength(1);
+        expect(result.value.reschedule.moved).toHaveLength(2);
+      }
+      expect(await datesOf(steps)).toEqual([
+        '2026-10-19', '2026-10-20', '2026-10-21', '2026-10-26', '2026-10-27',
+      ]);
+    });
+
+    it('rejects invalid pauses', async () => {
+      const goal = createTestGoal(createUserId());
+      await seedPlan(goal);
+
+      const reversed = await engine.pausePlan(goal.id, { startDate: '2026-10-23', endDate: '2026-10-22' });
+      const past = await engine.pausePlan(goal.id, { startDate: '2026-10-01', endDate: '2026-10-02' });
+
+      expect(!reversed.ok && reversed.error.code).toBe('INVALID_PAUSE');
+      expect(!past.ok && past.error.code).toBe('INVALID_PAUSE');
+    });
+
+    it('resumes a pause that started today and pulls steps forward', async () => {
+      const goal = createTestGoal(createUserId());
+      const steps = await seedPlan(goal);
+      await store.saveStep({ ...steps[0]!, status: 'completed' });
+      await store.saveStep({ ...steps[1]!, status: 'completed' });
+      await engine.pausePlan(goal.id, { startDate: '2026-10-21', endDate: '2026-10-23' });
+
+      const result = await engine.resumePlan(goal.id);
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.goal.pauses).toEqual([]);
+      }
+      expect(await datesOf(steps)).toEqual([
+        '2026-10-19', '2026-10-20', '2026-10-21', '2026-10-22', '2026-10-23',
+      ]);
+
+      const again = await engine.resumePlan(goal.id);
+      expect(!again.ok && again.error.code).toBe('NOT_PAUSED');
+    });
+
+    it('reschedules missed days only for goals with a policy', async () => {
+      const userId = createUserId();
+      const optedIn: Goal = {
+        ...createTestGoal(userId),
+        learningConfig: { reschedulePolicy: 'compress' },
+      };
+      const manual = createTestGoal(userId);
+      const optedInSteps = await seedPlan(optedIn);
+      const manualSteps = await seedPlan(manual);
+
+      const result = await engine.rescheduleMissedDays(userId);
+
+      expect(result.ok && result.value.map(r => r.goalId)).toEqual([optedIn.id]);
+      expect(await datesOf(optedInSteps)).toEqual([
+        '2026-10-21', '2026-10-21', '2026-10-22', '2026-10-22', '2026-10-23',
+      ]);
+      expect(await datesOf(manualSteps)).toEqual([
+        '2026-10-19', '2026-10-20', '2026-10-21', '2026-10-22', '2026-10-23',
+      ]);
+    });
   });
 
   // ─────────────────────────────────────────────────────────────────────────────
@@ -677,6 +967,18 @@ describe('SparkEngine', () => {
       }
     });
 
+    it('never goes below the step\'s paced escalation level', async () => {
+      const step = { ...createTestStep(createQuestId()), baseEscalationLevel: 1 };
+      await store.saveStep(step);
+
+      const result = await engine.generateSparkForStep(step.id, 0);
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.escalationLevel).toBe(1);
+      }
+    });
+
     it('returns error for non-existent step', async () => {
       const result = await engine.generateSparkForStep(createStepId(), 0);
       expect(result.ok).toBe(false);
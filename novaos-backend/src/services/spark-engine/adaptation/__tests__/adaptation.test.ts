@@ -0,0 +1,407 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// ADAPTATION TESTS — Pace Assessment, Plan Changes & Undo
+// NovaOS Spark Engine — Adaptive Pacing
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ok } from '../../../../types/result.js';
+import type { AsyncAppResult } from '../../../../types/result.js';
+import {
+  createGoalId,
+  createQuestId,
+  createResourceId,
+  createStepId,
+  createUserId,
+  createTimestamp,
+  type GoalId,
+  type QuestId,
+  type StepId,
+  type Timestamp,
+} from '../../../../types/branded.js';
+
+import { WEEKDAYS, type Goal, type Quest, type Step } from '../../types.js';
+import type { ISparkEngineStore } from '../../interfaces.js';
+import type { IAdaptationStore } from '../../store/types.js';
+import { assessPace, planAdaptation, type PacingContext } from '../pacing.js';
+import { AdaptationService } from '../service.js';
+import type { PlanAdaptation } from '../types.js';
+import { DEFAULT_ADAPTATION_CONFIG, AdaptationErrorCode } from '../types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TEST FIXTURES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const config = DEFAULT_ADAPTATION_CONFIG;
+
+/** Wednesday; tomorrow is the first day adaptations may change */
+const TODAY = '2026-10-21';
+
+const context: PacingContext = {
+  today: TODAY,
+  activeDays: WEEKDAYS,
+  dailyMinutes: 30,
+  userLevel: 'beginner',
+};
+
+/**
+ * Days 1-3 completed (Mon-Wed), days 4-7 upcoming (Thu, Fri, Mon, Tue).
+ */
+function createPlan(
+  questId: QuestId,
+  completed: Partial<Step> = {},
+  upcoming: Partial<Step> = {}
+): Step[] {
+  const dates = ['2026-10-19', '2026-10-20', '2026-10-21', '2026-10-22', '2026-10-23', '2026-10-26', '2026-10-27'];
+  return dates.map((scheduledDate, i) => {
+    const done = i < 3;
+    return {
+      id: createStepId(),
+      questId,
+      title: `Day ${i + 1}`,
+      description: `Day ${i + 1} content`,
+      status: done ? 'completed' : 'pending',
+      order: i + 1,
+      dayNumber: i + 1,
+      theme: `Topic ${i + 1}`,
+      createdAt: createTimestamp(),
+      updatedAt: createTimestamp(),
+      scheduledDate,
+      estimatedMinutes: 30,
+      activities: [
+        { type: 'read', minutes: 15, task: `Read ${i + 1}` },
+        { type: 'exercise', minutes: 15, task: `Practice ${i + 1}` },
+      ],
+      ...(done
+        ? { completedAt: createTimestamp(new Date(`${scheduledDate}T20:00:00Z`)), ...completed }
+        : upcoming),
+    };
+  });
+}
+
+function byDay(steps: readonly Step[], dayNumber: number): Step | undefined {
+  return steps.find(s => s.dayNumber === dayNumber);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// ASSESSMENT
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('assessPace', () => {
+  const questId = createQuestId();
+
+  it('is struggling when every recent day was rated hard or ran over', () => {
+    const steps = createPlan(questId, { difficultyRating: 4, actualMinutes: 60 });
+
+    const assessment = assessPace(steps, config);
+
+    expect(assessment).toMatchObject({ signal: 'struggling', averageDifficulty: 4, timeRatio: 2 });
+    expect(assessment.stepIds).toEqual([steps[2]!.id, steps[1]!.id, steps[0]!.id]);
+  });
+
+  it('is breezing when every recent day was easy and quick', () => {
+    const steps = createPlan(questId, { difficultyRating: 1, actualMinutes: 15 });
+
+    expect(assessPace(steps, config).signal).toBe('breezing');
+  });
+
+  it('is steady on mixed feedback or without feedback', () => {
+    const mixed = createPlan(questId, { difficultyRating: 5 })
+      .map((s, i) => i === 0 ? { ...s, difficultyRating: 2 as const } : s);
+
+    expect(assessPace(mixed, config).signal).toBe('steady');
+    expect(assessPace(createPlan(questId), config).signal).toBe('steady');
+  });
+
+  it('only counts days completed since the last adaptation', () => {
+    const steps = createPlan(questId, { difficultyRating: 5 });
+
+    const assessment = assessPace(steps, config, steps[0]!.completedAt);
+
+    expect(assessment.signal).toBe('steady');
+    expect(assessment.stepIds).toHaveLength(2);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// PLANNING
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('planAdaptation', () => {
+  const questId = createQuestId();
+
+  it('splits the next day when days run over time', () => {
+    const steps = createPlan(questId, { difficultyRating: 3, actualMinutes: 60 });
+
+    const planned = planAdaptation(steps, assessPace(steps, config), context, config)!;
+
+    expect(planned.kind).toBe('split_step');
+    expect(planned.explanation).toBe(
+      'Your last 3 days took about 200% of the estimated time, so "Day 4" is now spread over two days.'
+    );
+    expect(planned.created).toHaveLength(1);
+    expect(planned.created[0]).toMatchObject({
+      title: 'Day 4 (Part 2)',
+      dayNumber: 5,
+      scheduledDate: '2026-10-23',
+      activities: [{ type: 'exercise', minutes: 15, task: 'Practice 4' }],
+    });
+    expect(byDay(planned.changed, 4)).toMatchObject({ title: 'Day 4 (Part 1)', estimatedMinutes: 15 });
+    expect(planned.changed.map(s => [s.title, s.dayNumber, s.scheduledDate])).toEqual([
+      ['Day 4 (Part 1)', 4, '2026-10-22'],
+      ['Day 5', 6, '2026-10-26'],
+      ['Day 6', 7, '2026-10-27'],
+      ['Day 7', 8, '2026-10-28'],
+    ]);
+  });
+
+  it('inserts a catch-up day from gap remediation when days are rated hard', () => {
+    const steps = createPlan(questId, { difficultyRating: 4 }).map((s, i) => i === 1
+      ? {
+          ...s,
+          difficultyRating: 5 as const,
+          resources: [{
+            id: createResourceId(),
+            providerId: 'mdn',
+            title: 'Closures',
+            type: 'documentation' as const,
+            url: 'https://developer.mozilla.org/closures',
+            verificationLevel: 'strong' as const,
+          }],
+        }
+      : s
+    );
+
+    const planned = planAdaptation(steps, assessPace(steps, config), context, config)!;
+
+    expect(planned.kind).toBe('insert_remediation');
+    expect(planned.explanation).toBe(
+      'Your last 3 days were rated hard (average 4.33/5), so a catch-up day on Topic 2 comes before "Day 4".'
+    );
+    expect(planned.created[0]).toMatchObject({
+      title: 'Catch-up: Topic 2',
+      dayNumber: 4,
+      scheduledDate: '2026-10-22',
+      estimatedMinutes: 30,
+      resources: [{ url: 'https://developer.mozilla.org/closures' }],
+    });
+    expect(planned.created[0]!.activities!.map(a => a.type)).toEqual(['read', 'exercise']);
+    expect(byDay(planned.changed, 5)).toMatchObject({ title: 'Day 4', scheduledDate: '2026-10-23' });
+  });
+
+  it('lowers the spark variant when a catch-up day was just added', () => {
+    const steps = createPlan(questId, { difficultyRating: 5 });
+
+    const planned = planAdaptation(
+      steps,
+      assessPace(steps, config),
+      { ...context, lastKind: 'insert_remediation' },
+      config
+    )!;
+
+    expect(planned.kind).toBe('lower_variant');
+    expect(planned.explanation).toBe(
+      'Your last 3 days were rated hard (average 5/5), so the next 3 days start with smaller sparks.'
+    );
+    expect(planned.changed.map(s => [s.dayNumber, s.baseEscalationLevel])).toEqual([[4, 1], [5, 1], [6, 1]]);
+    expect(planned.created).toEqual([]);
+  });
+
+  it('merges two light days when the learner is breezing', () => {
+    const light = { estimatedMinutes: 10, activities: [{ type: 'read' as const, minutes: 10 }] };
+    const steps = createPlan(questId, { difficultyRating: 1, actualMinutes: 10 }, light);
+
+    const planned = planAdaptation(steps, assessPace(steps, config), context, config)!;
+
+    expect(planned.kind).toBe('merge_steps');
+    expect(planned.explanation).toBe(
+      'Your last 3 days were rated easy (average 1/5) and took about 33% of the estimated time, so "Day 4" and "Day 5" are now one day.'
+    );
+    expect(byDay(planned.changed, 4)).toMatchObject({ estimatedMinutes: 20, scheduledDate: '2026-10-22' });
+    expect(byDay(planned.changed, 5)).toMatchObject({ status: 'skipped' });
+    expect(byDay(planned.changed, 6)?.scheduledDate).toBe('2026-10-23');
+    expect(byDay(planned.changed, 7)?.scheduledDate).toBe('2026-10-26');
+  });
+
+  it('moves days earlier and restores full sparks when days are too long to merge', () => {
+    const steps = createPlan(questId, { difficultyRating: 2, actualMinutes: 20 }, { baseEscalationLevel: 1 })
+      .map(s => s.dayNumber === 4 ? { ...s, scheduledDate: '2026-10-26' } : s)
+      .map(s => s.dayNumber === 5 ? { ...s, scheduledDate: '2026-10-27' } : s);
+
+    const planned = planAdaptation(steps, assessPace(steps, config), context, config)!;
+
+    expect(planned.kind).toBe('accelerate');
+    expect(planned.explanation).toMatch(/so upcoming days move earlier and full sparks are back\.$/);
+    expect(planned.changed.map(s => [s.dayNumber, s.scheduledDate, s.baseEscalationLevel])).toEqual([
+      [4, '2026-10-22', 0],
+      [5, '2026-10-23', 0],
+      [6, '2026-10-26', 0],
+    ]);
+  });
+
+  it('leaves today and earlier days alone', () => {
+    const steps = createPlan(questId, { difficultyRating: 5 });
+
+    const planned = planAdaptation(steps, assessPace(steps, config), { ...context, today: '2026-10-27' }, config);
+
+    expect(planned).toBeNull();
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SERVICE
+// ─────────────────────────────────────────────────────────────────────────────────
+
+function createMockStore(goal: Goal, quest: Quest): ISparkEngineStore & { steps: Map<string, Step> } {
+  const steps = new Map<string, Step>();
+  return {
+    steps,
+    getGoal: vi.fn(async () => ok(goal)),
+    getQuest: vi.fn(async () => ok(quest)),
+    getQuestsByGoal: vi.fn(async () => ok([quest])),
+    getStepsByQuest: vi.fn(async () => ok([...steps.values()])),
+    getStep: vi.fn(async (stepId: StepId) => ok(steps.get(stepId) ?? null)),
+    saveStep: vi.fn(async (step: Step) => {
+      steps.set(step.id, step);
+      return ok(step);
+    }),
+    deleteStep: vi.fn(async (stepId: StepId) => {
+      steps.delete(stepId);
+      return ok(undefined);
+    }),
+  } as unknown as ISparkEngineStore & { steps: Map<string, Step> };
+}
+
+function createMockAdaptationStore(): IAdaptationStore {
+  const adaptations = new Map<string, PlanAdaptation>();
+  return {
+    save: vi.fn(async (adaptation: PlanAdaptation): AsyncAppResult<PlanAdaptation> => {
+      adaptations.set(adaptation.id, adaptation);
+      return ok(adaptation);
+    }),
+    get: vi.fn(async (id: string): AsyncAppResult<PlanAdaptation | null> => {
+      return ok(adaptations.get(id) ?? null);
+    }),
+    getByGoal: vi.fn(async (goalId: GoalId): AsyncAppResult<readonly PlanAdaptation[]> => {
+      return ok([...adaptations.values()]
+        .filter(a => a.goalId === goalId)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt)));
+    }),
+    deleteByGoal: vi.fn(async (): AsyncAppResult<number> => ok(0)),
+  };
+}
+
+describe('AdaptationService', () => {
+  let goal: Goal;
+  let store: ReturnType<typeof createMockStore>;
+  let service: AdaptationService;
+  let plan: Step[];
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-21T22:00:00Z'));
+
+    goal = {
+      id: createGoalId(),
+      userId: createUserId(),
+      title: 'Learn JavaScript',
+      description: '',
+      status: 'active',
+      createdAt: createTimestamp(),
+      updatedAt: createTimestamp(),
+      reminderConfig: { timezone: 'America/New_York' },
+    } as Goal;
+    const quest = { id: createQuestId(), goalId: goal.id } as Quest;
+
+    store = createMockStore(goal, quest);
+    service = new AdaptationService(store, createMockAdaptationStore());
+
+    plan = createPlan(quest.id, { difficultyRating: 3, actualMinutes: 60 });
+    for (const step of plan) {
+      await store.saveStep(step);
+    }
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('adapts the plan after feedback and records the change', async () => {
+    const result = await service.onStepFeedback(plan[2]!);
+
+    expect(result.ok).toBe(true);
+    const adaptation = result.ok ? result.value! : null;
+    expect(adaptation).toMatchObject({
+      goalId: goal.id,
+      userId: goal.userId,
+      kind: 'split_step',
+      status: 'applied',
+      assessment: { signal: 'struggling' },
+    });
+    expect(adaptation!.affectedStepIds).toHaveLength(4);
+    expect(adaptation!.createdStepIds).toHaveLength(1);
+    expect(adaptation!.previousSteps.map(s => s.title)).toEqual(['Day 4', 'Day 5', 'Day 6', 'Day 7']);
+    expect(store.steps.size).toBe(8);
+
+    // The same feedback doesn't trigger a second change
+    const again = await service.onStepFeedback(plan[2]!);
+    expect(again.ok && again.value).toBeNull();
+  });
+
+  it('ignores steps that are not completed and goals that opted out', async () => {
+    const pending = await service.onStepFeedback(plan[3]!);
+    expect(pending.ok && pending.value).toBeNull();
+
+    goal = { ...goal, learningConfig: { adaptivePacing: false } };
+    vi.mocked(store.getGoal).mockResolvedValue(ok(goal));
+    const optedOut = await service.onStepFeedback(plan[2]!);
+    expect(optedOut.ok && optedOut.value).toBeNull();
+  });
+
+  it('undoes an adaptation', async () => {
+    const applied = await service.onStepFeedback(plan[2]!);
+    const adaptation = applied.ok ? applied.value! : null;
+
+    const result = await service.undoAdaptation(adaptation!.id);
+
+    expect(result.ok && result.value.status).toBe('undone');
+    expect(store.steps.size).toBe(7);
+    expect([...store.steps.values()].map(s => [s.title, s.dayNumber, s.scheduledDate])).toEqual(
+      plan.map(s => [s.title, s.dayNumber, s.scheduledDate])
+    );
+
+    const again = await service.undoAdaptation(adaptation!.id);
+    expect(!again.ok && again.error.code).toBe(AdaptationErrorCode.ALREADY_UNDONE);
+
+    const history = await service.getAdaptations(goal.id);
+    expect(history.ok && history.value.map(a => a.status)).toEqual(['undone']);
+  });
+
+  it('refuses to undo once a changed day was started', async () => {
+    const applied = await service.onStepFeedback(plan[2]!);
+    const adaptation = applied.ok ? applied.value! : null;
+    const partOne = store.steps.get(plan[3]!.id)!;
+    await store.saveStep({ ...partOne, status: 'completed', completedAt: createTimestamp() });
+
+    const result = await service.undoAdaptation(adaptation!.id);
+
+    expect(!result.ok && result.error.code).toBe(AdaptationErrorCode.ADAPTATION_STALE);
+  });
+
+  it('refuses to undo once a changed day was rescheduled', async () => {
+    const applied = await service.onStepFeedback(plan[2]!);
+    const adaptation = applied.ok ? applied.value! : null;
+    const partTwo = store.steps.get(plan[4]!.id)!;
+    const later = new Date(Date.parse(adaptation!.createdAt) + 60_000).toISOString() as Timestamp;
+    await store.saveStep({ ...partTwo, scheduledDate: '2030-01-01', updatedAt: later });
+
+    const result = await service.undoAdaptation(adaptation!.id);
+
+    expect(!result.ok && result.error.code).toBe(AdaptationErrorCode.ADAPTATION_STALE);
+    expect(store.steps.get(plan[4]!.id)?.scheduledDate).toBe('2030-01-01');
+  });
+
+  it('returns ADAPTATION_NOT_FOUND for unknown adaptations', async () => {
+    const result = await service.undoAdaptation('adaptation-missing');
+    expect(!result.ok && result.error.code).toBe(AdaptationErrorCode.ADAPTATION_NOT_FOUND);
+  });
+});
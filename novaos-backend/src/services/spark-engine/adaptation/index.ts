@@ -0,0 +1,48 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// ADAPTATION MODULE — Public API Exports
+// NovaOS Spark Engine — Adaptive Pacing
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// This module exports the adaptive pacing public API:
+//   - AdaptationService: pace-driven plan changes, history and undo
+//   - The pure pacing planner
+//
+// Usage:
+//   import { createAdaptationService } from './adaptation';
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SERVICE
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export { AdaptationService, createAdaptationService } from './service.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export type {
+  PaceSignal,
+  PaceAssessment,
+  AdaptationKind,
+  AdaptationStatus,
+  PlanAdaptation,
+  AdaptationConfig,
+} from './types.js';
+
+export {
+  DEFAULT_ADAPTATION_CONFIG,
+  AdaptationErrorCode,
+} from './types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// PACING
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export {
+  assessPace,
+  planAdaptation,
+  type PacingContext,
+  type PlannedAdaptation,
+} from './pacing.js';
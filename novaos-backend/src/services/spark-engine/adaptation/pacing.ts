@@ -0,0 +1,512 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// PACING — Read the Learner's Pace and Plan Changes
+// NovaOS Spark Engine — Adaptive Pacing
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Pure planning functions; AdaptationService loads, saves and records.
+//
+// The pace is read from the steps completed since the last adaptation. When
+// every one of them agrees, the upcoming steps (from tomorrow on) change:
+//
+//   struggling → split the next day, insert a catch-up day, or start the next
+//                days with smaller sparks
+//   breezing   → merge two light days, or move upcoming days earlier and
+//                restore full sparks
+//
+// Today's step is never touched, so the learner's current day stays stable.
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { createStepId, createTimestamp, type Timestamp } from '../../../types/branded.js';
+import type { Step, Activity, StepResource, DayOfWeek, UserLevel } from '../types.js';
+import type { PlanPause } from '../rescheduling/types.js';
+import { planReschedule } from '../rescheduling/planner.js';
+import { addDays } from '../review/sm2.js';
+import { generateFallbackTemplate, type ITopicTaxonomy } from '../step-generator/gap-remediation.js';
+import type { TopicGap } from '../step-generator/types.js';
+import { createTopicId } from '../resource-discovery/types.js';
+import type {
+  AdaptationConfig,
+  AdaptationKind,
+  PaceAssessment,
+  PaceSignal,
+} from './types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Calendar and preferences the plan is adapted within.
+ */
+export interface PacingContext {
+  /** Today in the learner's timezone (YYYY-MM-DD) */
+  readonly today: string;
+
+  /** The learner's active days */
+  readonly activeDays: readonly DayOfWeek[];
+
+  /** Paused date ranges */
+  readonly pauses?: readonly PlanPause[];
+
+  /** Daily time budget in minutes */
+  readonly dailyMinutes: number;
+
+  /** Level used for catch-up day exercises */
+  readonly userLevel: UserLevel;
+
+  /** Kind of the goal's previous adaptation */
+  readonly lastKind?: AdaptationKind;
+}
+
+/**
+ * A planned change to the upcoming steps.
+ */
+export interface PlannedAdaptation {
+  /** What changes */
+  readonly kind: AdaptationKind;
+
+  /** Learner-facing explanation */
+  readonly explanation: string;
+
+  /** Existing steps after the change */
+  readonly changed: readonly Step[];
+
+  /** New steps */
+  readonly created: readonly Step[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// HELPERS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+function planPosition(step: Step): number {
+  return step.dayNumber ?? step.order;
+}
+
+function sumMinutes(activities: readonly Activity[]): number {
+  return activities.reduce((sum, a) => sum + a.minutes, 0);
+}
+
+function stepMinutes(step: Step): number {
+  return step.activities && step.activities.length > 0
+    ? sumMinutes(step.activities)
+    : step.estimatedMinutes ?? 0;
+}
+
+function timeRatio(step: Step): number | null {
+  return step.actualMinutes !== undefined && step.estimatedMinutes
+    ? step.actualMinutes / step.estimatedMinutes
+    : null;
+}
+
+function average(values: readonly number[]): number | null {
+  return values.length > 0
+    ? Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 100) / 100
+    : null;
+}
+
+function isHard(step: Step, config: AdaptationConfig): boolean {
+  return (
+    (step.difficultyRating ?? 0) >= config.hardRating ||
+    (timeRatio(step) ?? 0) >= config.overrunRatio
+  );
+}
+
+function isEasy(step: Step, config: AdaptationConfig): boolean {
+  const ratio = timeRatio(step);
+  if (step.difficultyRating === undefined && ratio === null) {
+    return false;
+  }
+  return (
+    (step.difficultyRating === undefined || step.difficultyRating <= config.easyRating) &&
+    (ratio === null || ratio <= config.underrunRatio)
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// ASSESSMENT
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Read the learner's pace from their most recent completed steps.
+ *
+ * @param steps - All steps of the goal's plan
+ * @param config - Window and thresholds
+ * @param since - Only steps completed after this count (the last adaptation)
+ */
+export function assessPace(
+  steps: readonly Step[],
+  config: AdaptationConfig,
+  since?: Timestamp
+): PaceAssessment {
+  const recent = steps
+    .filter((s) => s.status === 'completed' && s.completedAt && (!since || s.completedAt > since))
+    .sort((a, b) => b.completedAt!.localeCompare(a.completedAt!))
+    .slice(0, config.windowSize);
+
+  let signal: PaceSignal = 'steady';
+  if (recent.length >= config.windowSize) {
+    if (recent.every((s) => isHard(s, config))) {
+      signal = 'struggling';
+    } else if (recent.every((s) => isEasy(s, config))) {
+      signal = 'breezing';
+    }
+  }
+
+  return {
+    signal,
+    stepIds: recent.map((s) => s.id),
+    averageDifficulty: average(recent.flatMap((s) => s.difficultyRating ?? [])),
+    timeRatio: average(recent.flatMap((s) => timeRatio(s) ?? [])),
+  };
+}
+
+/**
+ * "Your last 3 days were rated hard (average 4.3/5)" — the reason clause of
+ * an explanation.
+ */
+function describePace(assessment: PaceAssessment, config: AdaptationConfig): string {
+  const reasons: string[] = [];
+  const struggling = assessment.signal === 'struggling';
+  const { averageDifficulty, timeRatio: ratio } = assessment;
+
+  if (averageDifficulty !== null && (!struggling || averageDifficulty >= config.hardRating)) {
+    reasons.push(`were rated ${struggling ? 'hard' : 'easy'} (average ${averageDifficulty}/5)`);
+  }
+  if (ratio !== null && (!struggling || ratio >= config.overrunRatio)) {
+    reasons.push(`took about ${Math.round(ratio * 100)}% of the estimated time`);
+  }
+  if (reasons.length === 0) {
+    reasons.push(struggling ? 'were hard going' : 'went smoothly');
+  }
+
+  return `Your last ${assessment.stepIds.length} days ${reasons.join(' and ')}`;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// PLANNING
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Plan a change to the upcoming steps for an assessed pace.
+ *
+ * @param steps - All steps of the goal's plan
+ * @param assessment - The learner's pace
+ * @param context - Calendar and preferences
+ * @param config - Thresholds
+ * @returns The change, or null when the pace is steady or nothing can change
+ */
+export function planAdaptation(
+  steps: readonly Step[],
+  assessment: PaceAssessment,
+  context: PacingContext,
+  config: AdaptationConfig
+): PlannedAdaptation | null {
+  const tomorrow = addDays(context.today, 1);
+  const upcoming = steps
+    .filter((s) => s.status === 'pending' && (!s.scheduledDate || s.scheduledDate >= tomorrow))
+    .sort((a, b) => planPosition(a) - planPosition(b));
+
+  if (upcoming.length === 0 || assessment.signal === 'steady') {
+    return null;
+  }
+
+  const reason = describePace(assessment, config);
+  const next = upcoming[0]!;
+
+  if (assessment.signal === 'struggling') {
+    if ((assessment.timeRatio ?? 0) >= config.overrunRatio && (next.activities?.length ?? 0) >= 2) {
+      return splitStep(upcoming, reason, context);
+    }
+    if (
+      (assessment.averageDifficulty ?? 0) >= config.hardRating &&
+      context.lastKind !== 'insert_remediation'
+    ) {
+      const recent = assessment.stepIds.flatMap((id) => steps.find((s) => s.id === id) ?? []);
+      return insertRemediation(upcoming, recent, reason, context);
+    }
+    return lowerVariant(upcoming, reason, config);
+  }
+
+  const following = upcoming[1];
+  if (
+    following &&
+    following.questId === next.questId &&
+    stepMinutes(next) + stepMinutes(following) <= context.dailyMinutes
+  ) {
+    return mergeSteps(upcoming, reason, context);
+  }
+  return accelerate(upcoming, reason, context, config);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SLOWING DOWN
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Spread the next day's activities over two days.
+ */
+function splitStep(
+  upcoming: readonly Step[],
+  reason: string,
+  context: PacingContext
+): PlannedAdaptation {
+  const next = upcoming[0]!;
+  const activities = next.activities ?? [];
+  const firstHalf = activities.slice(0, Math.ceil(activities.length / 2));
+  const secondHalf = activities.slice(firstHalf.length);
+  const now = createTimestamp();
+
+  const partOne: Step = {
+    ...next,
+    title: `${next.title} (Part 1)`,
+    activities: firstHalf,
+    estimatedMinutes: sumMinutes(firstHalf),
+  };
+
+  const partTwo: Step = {
+    ...next,
+    id: createStepId(),
+    title: `${next.title} (Part 2)`,
+    activities: secondHalf,
+    estimatedMinutes: sumMinutes(secondHalf),
+    scheduledDate: undefined,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  return finish(
+    'split_step',
+    `${reason}, so "${next.title}" is now spread over two days.`,
+    upcoming,
+    insertStep([partOne, ...upcoming.slice(1)], 1, partTwo),
+    context,
+    false
+  );
+}
+
+/**
+ * Insert a catch-up day on the hardest recent topic before the next day.
+ * Its content is the gap-remediation fallback for that topic.
+ */
+function insertRemediation(
+  upcoming: readonly Step[],
+  recent: readonly Step[],
+  reason: string,
+  context: PacingContext
+): PlannedAdaptation {
+  const next = upcoming[0]!;
+  const hardest = [...recent].sort(
+    (a, b) => (b.difficultyRating ?? 0) - (a.difficultyRating ?? 0)
+  )[0] ?? next;
+  const topicName = hardest.theme ?? hardest.title;
+  const docs: StepResource | undefined = hardest.resources?.find((r) => r.type === 'documentation');
+
+  const gap: TopicGap = {
+    topicId: createTopicId(`remediation:${hardest.id}`),
+    topicName,
+    reason: 'Rated hard on recent days',
+    priority: 1,
+    estimatedMinutes: context.dailyMinutes,
+    coveredPrerequisites: [],
+    missingPrerequisites: [],
+  };
+
+  const taxonomy: ITopicTaxonomy = {
+    getTopic: () => undefined,
+    getTopicName: () => topicName,
+    getPrerequisites: () => [],
+    getOfficialDocsUrl: () => docs?.url,
+  };
+
+  const template = generateFallbackTemplate(gap, taxonomy, context.userLevel);
+  const now = createTimestamp();
+
+  const remediation: Step = {
+    id: createStepId(),
+    questId: next.questId,
+    title: `Catch-up: ${topicName}`,
+    description: `Revisit ${topicName} before moving on.`,
+    status: 'pending',
+    order: next.order,
+    dayNumber: next.dayNumber,
+    createdAt: now,
+    updatedAt: now,
+    objective: `Consolidate ${topicName}`,
+    theme: hardest.theme,
+    activities: template.activities,
+    resources: docs ? [docs] : [],
+    estimatedMinutes: template.estimatedMinutes,
+  };
+
+  return finish(
+    'insert_remediation',
+    `${reason}, so a catch-up day on ${topicName} comes before "${next.title}".`,
+    upcoming,
+    insertStep(upcoming, 0, remediation),
+    context,
+    false
+  );
+}
+
+/**
+ * Start the next few days one escalation level lower (smaller sparks).
+ */
+function lowerVariant(
+  upcoming: readonly Step[],
+  reason: string,
+  config: AdaptationConfig
+): PlannedAdaptation | null {
+  const changed = upcoming
+    .slice(0, config.lookaheadSteps)
+    .filter((s) => (s.baseEscalationLevel ?? 0) < config.maxBaseEscalationLevel)
+    .map((s) => ({ ...s, baseEscalationLevel: (s.baseEscalationLevel ?? 0) + 1 }));
+
+  if (changed.length === 0) {
+    return null;
+  }
+
+  return {
+    kind: 'lower_variant',
+    explanation: `${reason}, so the next ${changed.length === 1 ? 'day starts' : `${changed.length} days start`} with smaller sparks.`,
+    changed,
+    created: [],
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SPEEDING UP
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Fold the second upcoming day into the first and move later days up.
+ */
+function mergeSteps(
+  upcoming: readonly Step[],
+  reason: string,
+  context: PacingContext
+): PlannedAdaptation {
+  const [first, second] = upcoming as [Step, Step];
+  const activities = [...(first.activities ?? []), ...(second.activities ?? [])];
+  const resources = [...(first.resources ?? [])];
+  for (const resource of second.resources ?? []) {
+    if (!resources.some((r) => r.id === resource.id)) {
+      resources.push(resource);
+    }
+  }
+
+  const merged: Step = {
+    ...first,
+    activities,
+    resources,
+    estimatedMinutes: stepMinutes(first) + stepMinutes(second),
+  };
+
+  const planned = finish(
+    'merge_steps',
+    `${reason}, so "${first.title}" and "${second.title}" are now one day.`,
+    upcoming,
+    [merged, ...upcoming.slice(2)],
+    context,
+    true
+  );
+
+  return { ...planned, changed: [...planned.changed, { ...second, status: 'skipped' }] };
+}
+
+/**
+ * Move upcoming days into any free earlier days and restore full sparks.
+ */
+function accelerate(
+  upcoming: readonly Step[],
+  reason: string,
+  context: PacingContext,
+  config: AdaptationConfig
+): PlannedAdaptation | null {
+  let restored = 0;
+  const steps = upcoming.map((s, i) => {
+    if (i < config.lookaheadSteps && (s.baseEscalationLevel ?? 0) > 0) {
+      restored++;
+      return { ...s, baseEscalationLevel: 0 };
+    }
+    return s;
+  });
+
+  const planned = finish('accelerate', '', upcoming, steps, context, true);
+  if (planned.changed.length === 0) {
+    return null;
+  }
+
+  const moved = planned.changed.some(
+    (s) => s.scheduledDate !== upcoming.find((u) => u.id === s.id)?.scheduledDate
+  );
+  const changes = [
+    moved ? 'upcoming days move earlier' : null,
+    restored > 0 ? 'full sparks are back' : null,
+  ].filter((c): c is string => c !== null);
+
+  return { ...planned, explanation: `${reason}, so ${changes.join(' and ')}.` };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// LAYOUT
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Insert a step at `index`, taking that day's place; the steps from `index`
+ * on move one day (and, within the same quest, one position) back.
+ */
+function insertStep(steps: readonly Step[], index: number, inserted: Step): Step[] {
+  const anchor = steps[index];
+  const last = steps[steps.length - 1]!;
+  const placed: Step = anchor
+    ? { ...inserted, questId: anchor.questId, order: anchor.order, dayNumber: anchor.dayNumber }
+    : {
+        ...inserted,
+        questId: last.questId,
+        order: last.order + 1,
+        dayNumber: last.dayNumber === undefined ? undefined : last.dayNumber + 1,
+      };
+
+  const shifted = steps.slice(index).map((s) => ({
+    ...s,
+    order: s.questId === placed.questId ? s.order + 1 : s.order,
+    dayNumber: s.dayNumber === undefined ? undefined : s.dayNumber + 1,
+  }));
+
+  return [...steps.slice(0, index), placed, ...shifted];
+}
+
+/**
+ * Put the restructured steps on the calendar from tomorrow and split the
+ * result into changed and new steps.
+ */
+function finish(
+  kind: AdaptationKind,
+  explanation: string,
+  original: readonly Step[],
+  steps: readonly Step[],
+  context: PacingContext,
+  pullForward: boolean
+): PlannedAdaptation {
+  const plan = planReschedule(steps, {
+    policy: 'push_back',
+    fromDate: addDays(context.today, 1),
+    activeDays: context.activeDays,
+    pauses: context.pauses,
+    dailyMinutes: context.dailyMinutes,
+    maxStepsPerDay: 1,
+    pullForward,
+  });
+
+  const laidOut = steps.map((s) => plan.changed.find((c) => c.id === s.id) ?? s);
+  const before = new Map(original.map((s) => [s.id, s]));
+
+  return {
+    kind,
+    explanation,
+    changed: laidOut.filter((s) => before.has(s.id) && before.get(s.id) !== s),
+    created: laidOut.filter((s) => !before.has(s.id)),
+  };
+}
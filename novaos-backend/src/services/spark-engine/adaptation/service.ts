@@ -0,0 +1,334 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// ADAPTATION SERVICE — Adaptive Pacing
+// NovaOS Spark Engine — Adaptive Pacing
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Feeds difficulty ratings and time spent back into the plan:
+//   - Each completion or rating re-reads the learner's pace
+//   - A consistent pace changes the upcoming steps (see pacing.ts)
+//   - Every change is recorded with an explanation and the steps it replaced
+//   - Undo restores those steps and removes the ones it added
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { DateTime } from 'luxon';
+import { v4 as uuidv4 } from 'uuid';
+import { ok, err, isOk } from '../../../types/result.js';
+import type { AsyncAppResult } from '../../../types/result.js';
+import { createTimestamp, type GoalId, type StepId } from '../../../types/branded.js';
+import { getLogger } from '../../../observability/logging/index.js';
+
+import type { Goal, Step } from '../types.js';
+import type { ISparkEngineStore, IPaceAdapter } from '../interfaces.js';
+import type { IAdaptationStore } from '../store/types.js';
+import { DEFAULT_STEP_GENERATION_CONFIG } from '../step-generator/types.js';
+import { assessPace, planAdaptation } from './pacing.js';
+import type { PlanAdaptation, AdaptationConfig } from './types.js';
+import { DEFAULT_ADAPTATION_CONFIG, AdaptationErrorCode } from './types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// LOGGER
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const logger = getLogger({ component: 'adaptation-service' });
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// HELPERS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Whether the learner has started working on a step.
+ */
+function isStarted(step: Step): boolean {
+  return step.status === 'completed' || step.status === 'active' || step.startedAt !== undefined;
+}
+
+function touchedSteps(adaptation: PlanAdaptation): readonly StepId[] {
+  return [...adaptation.affectedStepIds, ...adaptation.createdStepIds];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// ADAPTATION SERVICE
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Adaptive pacing of lesson plans.
+ */
+export class AdaptationService implements IPaceAdapter {
+  private readonly config: AdaptationConfig;
+
+  constructor(
+    private readonly store: ISparkEngineStore,
+    private readonly adaptationStore: IAdaptationStore,
+    config: Partial<AdaptationConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_ADAPTATION_CONFIG, ...config };
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Pacing (IPaceAdapter)
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  async onStepFeedback(step: Step): AsyncAppResult<PlanAdaptation | null> {
+    if (step.status !== 'completed') {
+      return ok(null);
+    }
+
+    const questResult = await this.store.getQuest(step.questId);
+    if (!isOk(questResult)) {
+      return questResult;
+    }
+    if (!questResult.value) {
+      return ok(null);
+    }
+
+    const goalResult = await this.store.getGoal(questResult.value.goalId);
+    if (!isOk(goalResult)) {
+      return goalResult;
+    }
+
+    const goal = goalResult.value;
+    if (!goal || goal.status !== 'active' || goal.learningConfig?.adaptivePacing === false) {
+      return ok(null);
+    }
+
+    return this.adaptGoal(goal);
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // History
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Get a goal's adaptations, newest first.
+   */
+  async getAdaptations(goalId: GoalId): AsyncAppResult<readonly PlanAdaptation[]> {
+    return this.adaptationStore.getByGoal(goalId);
+  }
+
+  /**
+   * Get an adaptation by ID.
+   */
+  async getAdaptation(adaptationId: string): AsyncAppResult<PlanAdaptation | null> {
+    return this.adaptationStore.get(adaptationId);
+  }
+
+  /**
+   * Undo an adaptation: restore the steps it changed and delete the steps it
+   * added. Refused once the learner has started any of those steps, or when
+   * a later adaptation changed them again (undo that one first).
+   */
+  async undoAdaptation(adaptationId: string): AsyncAppResult<PlanAdaptation> {
+    const adaptationResult = await this.adaptationStore.get(adaptationId);
+    if (!isOk(adaptationResult)) {
+      return adaptationResult;
+    }
+
+    const adaptation = adaptationResult.value;
+    if (!adaptation) {
+      return err({
+        code: AdaptationErrorCode.ADAPTATION_NOT_FOUND,
+        message: `Adaptation not found: ${adaptationId}`,
+      });
+    }
+
+    if (adaptation.status === 'undone') {
+      return err({
+        code: AdaptationErrorCode.ALREADY_UNDONE,
+        message: `Adaptation already undone: ${adaptationId}`,
+      });
+    }
+
+    const touched = new Set<string>(touchedSteps(adaptation));
+
+    const historyResult = await this.adaptationStore.getByGoal(adaptation.goalId);
+    if (!isOk(historyResult)) {
+      return historyResult;
+    }
+
+    const superseded = historyResult.value.some(
+      (a) =>
+        a.id !== adaptation.id &&
+        a.status === 'applied' &&
+        a.createdAt > adaptation.createdAt &&
+        touchedSteps(a).some((id) => touched.has(id))
+    );
+
+    if (superseded) {
+      return err({
+        code: AdaptationErrorCode.ADAPTATION_STALE,
+        message: 'A later adaptation changed the same days; undo it first',
+      });
+    }
+
+    for (const stepId of touched) {
+      const stepResult = await this.store.getStep(stepId as StepId);
+      if (!isOk(stepResult)) {
+        return stepResult;
+      }
+      if (stepResult.value && isStarted(stepResult.value)) {
+        return err({
+          code: AdaptationErrorCode.ADAPTATION_STALE,
+          message: 'The changed days have already been started',
+        });
+      }
+      // Restoring the old snapshot would silently revert a later reschedule
+      // or pause, and could put the day in a paused range or the past
+      if (stepResult.value && stepResult.value.updatedAt > adaptation.createdAt) {
+        return err({
+          code: AdaptationErrorCode.ADAPTATION_STALE,
+          message: 'The changed days have been rescheduled or edited since',
+        });
+      }
+    }
+
+    const now = createTimestamp();
+
+    for (const step of adaptation.previousSteps) {
+      const saveResult = await this.store.saveStep({ ...step, updatedAt: now });
+      if (!isOk(saveResult)) {
+        return err(saveResult.error);
+      }
+    }
+
+    for (const stepId of adaptation.createdStepIds) {
+      const deleteResult = await this.store.deleteStep(stepId);
+      if (!isOk(deleteResult)) {
+        return err(deleteResult.error);
+      }
+    }
+
+    logger.info('Plan adaptation undone', {
+      adaptationId,
+      goalId: adaptation.goalId,
+      kind: adaptation.kind,
+    });
+
+    return this.adaptationStore.save({
+      ...adaptation,
+      status: 'undone',
+      undoneAt: now,
+    });
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Private Helpers
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Assess the goal's pace since its last adaptation and apply any change.
+   */
+  private async adaptGoal(goal: Goal): AsyncAppResult<PlanAdaptation | null> {
+    const historyResult = await this.adaptationStore.getByGoal(goal.id);
+    if (!isOk(historyResult)) {
+      return historyResult;
+    }
+
+    const stepsResult = await this.getGoalSteps(goal.id);
+    if (!isOk(stepsResult)) {
+      return stepsResult;
+    }
+
+    // Only feedback given after the last change (even an undone one) counts,
+    // so one streak of hard days leads to one change
+    const last = historyResult.value[0];
+    const steps = stepsResult.value;
+    const assessment = assessPace(steps, this.config, last?.createdAt);
+
+    const planned = planAdaptation(
+      steps,
+      assessment,
+      {
+        today: this.localDate(goal.reminderConfig?.timezone ?? this.config.defaultTimezone),
+        activeDays: goal.learningConfig?.activeDays ?? DEFAULT_STEP_GENERATION_CONFIG.activeDays,
+        pauses: goal.pauses,
+        dailyMinutes:
+          goal.learningConfig?.dailyTimeCommitment ?? DEFAULT_STEP_GENERATION_CONFIG.dailyMinutes,
+        userLevel: goal.learningConfig?.userLevel ?? DEFAULT_STEP_GENERATION_CONFIG.userLevel,
+        lastKind: last?.kind,
+      },
+      this.config
+    );
+
+    if (!planned) {
+      return ok(null);
+    }
+
+    const now = createTimestamp();
+
+    for (const step of [...planned.created, ...planned.changed]) {
+      const saveResult = await this.store.saveStep({ ...step, updatedAt: now });
+      if (!isOk(saveResult)) {
+        return err(saveResult.error);
+      }
+    }
+
+    const affected = new Set<string>(planned.changed.map((s) => s.id));
+
+    const adaptation: PlanAdaptation = {
+      id: `adaptation-${uuidv4()}`,
+      goalId: goal.id,
+      userId: goal.userId,
+      kind: planned.kind,
+      status: 'applied',
+      explanation: planned.explanation,
+      assessment,
+      affectedStepIds: planned.changed.map((s) => s.id),
+      createdStepIds: planned.created.map((s) => s.id),
+      previousSteps: steps.filter((s) => affected.has(s.id)),
+      createdAt: now,
+    };
+
+    logger.info('Plan adapted to pace', {
+      goalId: goal.id,
+      kind: adaptation.kind,
+      signal: assessment.signal,
+      affected: adaptation.affectedStepIds.length,
+      created: adaptation.createdStepIds.length,
+    });
+
+    return this.adaptationStore.save(adaptation);
+  }
+
+  /**
+   * All steps of a goal.
+   */
+  private async getGoalSteps(goalId: GoalId): AsyncAppResult<readonly Step[]> {
+    const questsResult = await this.store.getQuestsByGoal(goalId);
+    if (!isOk(questsResult)) {
+      return questsResult;
+    }
+
+    const steps: Step[] = [];
+    for (const quest of questsResult.value) {
+      const stepsResult = await this.store.getStepsByQuest(quest.id);
+      if (!isOk(stepsResult)) {
+        return stepsResult;
+      }
+      steps.push(...stepsResult.value);
+    }
+
+    return ok(steps);
+  }
+
+  /**
+   * Today's date in a timezone, falling back to the default on invalid zones.
+   */
+  private localDate(timezone: string): string {
+    const local = DateTime.now().setZone(timezone);
+    return local.isValid
+      ? local.toISODate()!
+      : DateTime.now().setZone(this.config.defaultTimezone).toISODate()!;
+  }
+}
+
+/**
+ * Create an AdaptationService.
+ */
+export function createAdaptationService(
+  store: ISparkEngineStore,
+  adaptationStore: IAdaptationStore,
+  config?: Partial<AdaptationConfig>
+): AdaptationService {
+  return new AdaptationService(store, adaptationStore, config);
+}
@@ -0,0 +1,176 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// ADAPTATION TYPES — Adaptive Pacing
+// NovaOS Spark Engine — Adaptive Pacing
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Difficulty ratings and time spent on completed steps are read as a pace
+// signal. A consistent signal changes the upcoming steps of the plan; every
+// change is recorded with an explanation and can be undone.
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type { GoalId, StepId, UserId, Timestamp } from '../../../types/branded.js';
+import type { Step } from '../types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// PACE
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * How the learner is keeping up with the plan.
+ *
+ * - struggling: recent days were rated hard or ran over time
+ * - steady: mixed or on-plan feedback
+ * - breezing: recent days were rated easy and finished early
+ */
+export type PaceSignal = 'struggling' | 'steady' | 'breezing';
+
+/**
+ * Pace read from the most recent completed steps.
+ */
+export interface PaceAssessment {
+  /** Overall signal */
+  readonly signal: PaceSignal;
+
+  /** Steps the assessment is based on, most recent first */
+  readonly stepIds: readonly StepId[];
+
+  /** Average difficulty rating (1-5), null without ratings */
+  readonly averageDifficulty: number | null;
+
+  /** Average actual / estimated minutes, null without time data */
+  readonly timeRatio: number | null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// ADAPTATIONS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Kind of change made to the plan.
+ *
+ * - split_step: the next day is spread over two days
+ * - insert_remediation: a catch-up day revisits the hardest recent topic
+ * - lower_variant: upcoming days start with smaller sparks
+ * - merge_steps: two light upcoming days become one
+ * - accelerate: upcoming days move earlier and full sparks return
+ */
+export type AdaptationKind =
+  | 'split_step'
+  | 'insert_remediation'
+  | 'lower_variant'
+  | 'merge_steps'
+  | 'accelerate';
+
+/**
+ * Whether an adaptation is still in effect.
+ */
+export type AdaptationStatus = 'applied' | 'undone';
+
+/**
+ * A recorded change to a goal's plan.
+ */
+export interface PlanAdaptation {
+  /** Adaptation identifier */
+  readonly id: string;
+
+  /** Adapted goal */
+  readonly goalId: GoalId;
+
+  /** Owner */
+  readonly userId: UserId;
+
+  /** What changed */
+  readonly kind: AdaptationKind;
+
+  /** Whether the change is still in effect */
+  readonly status: AdaptationStatus;
+
+  /** Learner-facing explanation of the change */
+  readonly explanation: string;
+
+  /** The pace that triggered the change */
+  readonly assessment: PaceAssessment;
+
+  /** Existing steps that were changed */
+  readonly affectedStepIds: readonly StepId[];
+
+  /** Steps added to the plan */
+  readonly createdStepIds: readonly StepId[];
+
+  /** Affected steps as they were before the change (restored on undo) */
+  readonly previousSteps: readonly Step[];
+
+  /** When the change was made */
+  readonly createdAt: Timestamp;
+
+  /** When the change was undone */
+  readonly undoneAt?: Timestamp;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONFIGURATION
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Adaptive pacing configuration.
+ */
+export interface AdaptationConfig {
+  /** Completed steps (since the last adaptation) that must agree on a signal */
+  readonly windowSize: number;
+
+  /** Rating at or above which a day counts as hard */
+  readonly hardRating: number;
+
+  /** Rating at or below which a day counts as easy */
+  readonly easyRating: number;
+
+  /** Actual / estimated minutes at or above which a day overran */
+  readonly overrunRatio: number;
+
+  /** Actual / estimated minutes at or below which a day finished early */
+  readonly underrunRatio: number;
+
+  /** Upcoming steps whose spark variant is lowered or restored */
+  readonly lookaheadSteps: number;
+
+  /** Highest base escalation level lower_variant sets */
+  readonly maxBaseEscalationLevel: number;
+
+  /** Timezone when the goal has none configured */
+  readonly defaultTimezone: string;
+}
+
+/**
+ * Default adaptive pacing configuration.
+ */
+export const DEFAULT_ADAPTATION_CONFIG: AdaptationConfig = {
+  windowSize: 3,
+  hardRating: 4,
+  easyRating: 2,
+  overrunRatio: 1.5,
+  underrunRatio: 0.75,
+  lookaheadSteps: 3,
+  maxBaseEscalationLevel: 2,
+  defaultTimezone: 'UTC',
+};
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// ERRORS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Adaptation error codes.
+ */
+export const AdaptationErrorCode = {
+  /** No adaptation with this ID */
+  ADAPTATION_NOT_FOUND: 'ADAPTATION_NOT_FOUND',
+
+  /** The adaptation was already undone */
+  ALREADY_UNDONE: 'ALREADY_UNDONE',
+
+  /** The learner has started the changed steps, or they changed again after the adaptation */
+  ADAPTATION_STALE: 'ADAPTATION_STALE',
+} as const;
+
+export type AdaptationErrorCode = typeof AdaptationErrorCode[keyof typeof AdaptationErrorCode];
@@ -0,0 +1,316 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// CALENDAR TESTS — iCalendar Writer, Step Events & Feeds
+// NovaOS Spark Engine — Calendar Integration
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ok } from '../../../../types/result.js';
+import { MemoryStore } from '../../../../storage/index.js';
+import {
+  createGoalId,
+  createQuestId,
+  createResourceId,
+  createStepId,
+  createUserId,
+  createTimestamp,
+  type Timestamp,
+} from '../../../../types/branded.js';
+
+import type { Goal, Quest, ReminderConfig, ReminderSchedule, Step } from '../../types.js';
+import type { ISparkEngineStore, IReminderService } from '../../interfaces.js';
+import { CalendarFeedStore } from '../../store/calendar-feed-store.js';
+import { escapeText, foldLine, buildTimezone, serializeCalendar } from '../ical.js';
+import { buildStepEvent } from '../events.js';
+import { CalendarService } from '../service.js';
+import { DEFAULT_CALENDAR_CONFIG } from '../types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TEST FIXTURES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const reminderConfig: ReminderConfig = {
+  enabled: true,
+  firstReminderHour: 9,
+  lastReminderHour: 15,
+  intervalHours: 3,
+  channels: { push: true, email: false, sms: false },
+  shrinkSparksOnEscalation: true,
+  maxRemindersPerDay: 4,
+  quietDays: [],
+  timezone: 'America/New_York',
+};
+
+function createGoal(overrides: Partial<Goal> = {}): Goal {
+  return {
+    id: createGoalId(),
+    userId: createUserId(),
+    title: 'Learn Rust',
+    description: 'Systems programming',
+    status: 'active',
+    createdAt: createTimestamp(),
+    updatedAt: createTimestamp(),
+    reminderConfig,
+    ...overrides,
+  } as Goal;
+}
+
+function createStep(quest: Quest, overrides: Partial<Step> = {}): Step {
+  return {
+    id: createStepId(),
+    questId: quest.id,
+    title: 'Ownership basics',
+    description: 'Move semantics',
+    status: 'pending',
+    order: 1,
+    dayNumber: 3,
+    objective: 'Explain moves, borrows and lifetimes',
+    createdAt: '2026-10-01T00:00:00.000Z' as Timestamp,
+    updatedAt: '2026-10-01T00:00:10.000Z' as Timestamp,
+    scheduledDate: '2026-10-22',
+    estimatedMinutes: 45,
+    resources: [{
+      id: createResourceId(),
+      providerId: 'docs',
+      title: 'The Book, ch. 4',
+      type: 'documentation',
+      url: 'https://doc.rust-lang.org/book/ch04-00-understanding-ownership.html',
+      verificationLevel: 'strong',
+    }],
+    ...overrides,
+  };
+}
+
+function unfold(ics: string): string {
+  return ics.replace(/\r\n /g, '');
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// ICAL WRITER
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('iCalendar writer', () => {
+  it('escapes TEXT values', () => {
+    expect(escapeText('a,b;c\\d\ne')).toBe('a\\,b\\;c\\\\d\\ne');
+  });
+
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const line = `SUMMARY:${'é'.repeat(60)}`;
+
+    const folded = foldLine(line);
+    const parts = folded.split('\r\n');
+
+    expect(parts.length).toBeGreaterThan(1);
+    for (const part of parts) {
+      expect(Buffer.byteLength(part, 'utf8')).toBeLessThanOrEqual(75);
+    }
+    expect(unfold(folded)).toBe(line);
+    expect(foldLine('SUMMARY:short')).toBe('SUMMARY:short');
+  });
+
+  it('builds VTIMEZONE observances from the zone transitions', () => {
+    const lines = buildTimezone('America/New_York', 2026, 2026);
+
+    expect(lines.join('\n')).toContain([
+      'BEGIN:DAYLIGHT',
+      'DTSTART:20260308T020000',
+      'TZOFFSETFROM:-0500',
+      'TZOFFSETTO:-0400',
+      'TZNAME:EDT',
+      'END:DAYLIGHT',
+      'BEGIN:STANDARD',
+      'DTSTART:20261101T020000',
+      'TZOFFSETFROM:-0400',
+      'TZOFFSETTO:-0500',
+      'TZNAME:EST',
+      'END:STANDARD',
+    ].join('\n'));
+  });
+
+  it('gives zones without DST a single observance', () => {
+    const lines = buildTimezone('Asia/Tokyo', 2026, 2027);
+
+    expect(lines.filter((l) => l.startsWith('BEGIN:'))).toEqual(['BEGIN:VTIMEZONE', 'BEGIN:STANDARD']);
+    expect(lines).toContain('TZOFFSETTO:+0900');
+  });
+
+  it('serializes a calendar with CRLF line endings', () => {
+    const ics = serializeCalendar({
+      productId: '-//Test//EN',
+      name: 'Plan',
+      timezone: 'UTC',
+      refreshIntervalMinutes: 60,
+      generatedAt: '2026-10-21T12:00:00.000Z',
+      events: [],
+    });
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\nPRODID:-//Test//EN\r\n')).toBe(true);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics).toContain('REFRESH-INTERVAL;VALUE=DURATION:PT60M');
+    expect(ics).not.toContain('BEGIN:VTIMEZONE');
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// STEP EVENTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('buildStepEvent', () => {
+  const goal = createGoal();
+  const quest = { id: createQuestId(), goalId: goal.id } as Quest;
+  const context = {
+    goal,
+    timezone: 'America/New_York',
+    startHour: 9,
+    alarmTimes: ['2026-10-22T09:00:00.000-04:00'],
+    config: DEFAULT_CALENDAR_CONFIG,
+  };
+
+  it('maps a scheduled step to a zoned event', () => {
+    const step = createStep(quest);
+
+    const event = buildStepEvent(step, context)!;
+
+    expect(event).toMatchObject({
+      uid: `${step.id}@novaos.app`,
+      summary: 'Ownership basics',
+      start: '2026-10-22T09:00',
+      timezone: 'America/New_York',
+      durationMinutes: 45,
+      status: 'CONFIRMED',
+      transparent: false,
+      sequence: 10,
+      categories: ['Learn Rust'],
+    });
+    expect(event.description).toBe([
+      'Objective: Explain moves, borrows and lifetimes',
+      'Goal: Learn Rust (day 3)',
+      'Resources:\n- The Book, ch. 4: https://doc.rust-lang.org/book/ch04-00-understanding-ownership.html',
+    ].join('\n\n'));
+    expect(event.alarms).toHaveLength(1);
+  });
+
+  it('keeps completed steps as free time without alarms', () => {
+    const event = buildStepEvent(createStep(quest, { status: 'completed' }), context)!;
+
+    expect(event.summary).toBe('✓ Ownership basics');
+    expect(event.transparent).toBe(true);
+    expect(event.alarms).toEqual([]);
+  });
+
+  it('cancels skipped steps and ignores unscheduled ones', () => {
+    expect(buildStepEvent(createStep(quest, { status: 'skipped' }), context)!.status).toBe('CANCELLED');
+    expect(buildStepEvent(createStep(quest, { scheduledDate: undefined }), context)).toBeNull();
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CALENDAR SERVICE
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('CalendarService', () => {
+  let goal: Goal;
+  let quest: Quest;
+  let steps: Step[];
+  let pendingReminders: ReminderSchedule[];
+  let service: CalendarService;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-21T16:00:00Z'));
+
+    goal = createGoal();
+    quest = { id: createQuestId(), goalId: goal.id } as Quest;
+    steps = [
+      createStep(quest, { scheduledDate: '2026-10-21', title: 'Today' }),
+      createStep(quest, { scheduledDate: '2026-10-22', title: 'Tomorrow' }),
+    ];
+    pendingReminders = [];
+
+    const store = {
+      getGoal: vi.fn(async () => ok(goal)),
+      getGoalsByUser: vi.fn(async () => ok([goal])),
+      getQuestsByGoal: vi.fn(async () => ok([quest])),
+      getStepsByQuest: vi.fn(async () => ok(steps)),
+    } as unknown as ISparkEngineStore;
+
+    const reminderService = {
+      getPendingReminders: vi.fn(async () => ok(pendingReminders)),
+    } as unknown as IReminderService;
+
+    const feedStore = new CalendarFeedStore(new MemoryStore(), { encryptionEnabled: false });
+    service = new CalendarService(store, feedStore, reminderService);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('renders zoned events with future alarms from the reminder config', async () => {
+    const result = await service.renderGoalCalendar(goal.id);
+
+    expect(result.ok).toBe(true);
+    const ics = unfold(result.ok ? result.value : '');
+
+    expect(ics).toContain('X-WR-CALNAME:Learn Rust');
+    expect(ics).toContain('X-WR-TIMEZONE:America/New_York');
+    expect(ics).toContain('TZID:America/New_York');
+    expect(ics).toContain('DTSTART;TZID=America/New_York:20261021T090000');
+    expect(ics).toContain('DTSTART;TZID=America/New_York:20261022T090000');
+
+    // 9:00, 12:00 and 15:00 EDT; today's 9:00 and 12:00 have passed
+    const triggers = ics.match(/TRIGGER;VALUE=DATE-TIME:\w+/g);
+    expect(triggers).toEqual([
+      'TRIGGER;VALUE=DATE-TIME:20261021T190000Z',
+      'TRIGGER;VALUE=DATE-TIME:20261022T130000Z',
+      'TRIGGER;VALUE=DATE-TIME:20261022T160000Z',
+      'TRIGGER;VALUE=DATE-TIME:20261022T190000Z',
+    ]);
+  });
+
+  it('prefers pending reminders over the reminder config', async () => {
+    pendingReminders = [{
+      stepId: steps[0]!.id,
+      scheduledTime: '2026-10-21T17:30:00.000-04:00',
+    } as ReminderSchedule];
+
+    const result = await service.renderGoalCalendar(goal.id);
+    const ics = unfold(result.ok ? result.value : '');
+
+    expect(ics.match(/TRIGGER;VALUE=DATE-TIME:20261021T\w+/g)).toEqual([
+      'TRIGGER;VALUE=DATE-TIME:20261021T213000Z',
+    ]);
+  });
+
+  it('reflects rescheduled steps on the next render', async () => {
+    steps[1] = { ...steps[1]!, scheduledDate: '2026-10-26', updatedAt: '2026-10-21T16:00:00.000Z' as Timestamp };
+
+    const result = await service.renderGoalCalendar(goal.id);
+    const ics = unfold(result.ok ? result.value : '');
+
+    expect(ics).toContain('DTSTART;TZID=America/New_York:20261026T090000');
+    expect(ics).not.toContain('20261022T090000');
+  });
+
+  it('issues, rotates, resolves and revokes feed tokens', async () => {
+    const first = await service.issueFeed(goal.userId);
+    const token = first.ok ? first.value.token : '';
+    expect(token).toMatch(/^[A-Za-z0-9_-]{43}$/);
+
+    const resolved = await service.resolveFeed(token);
+    expect(resolved.ok && resolved.value?.userId).toBe(goal.userId);
+
+    const rotated = await service.issueFeed(goal.userId);
+    const newToken = rotated.ok ? rotated.value.token : '';
+    expect(newToken).not.toBe(token);
+    const stale = await service.resolveFeed(token);
+    expect(stale.ok && stale.value).toBeNull();
+
+    const feed = await service.renderUserFeed(goal.userId);
+    expect(feed.ok && feed.value).toContain('X-WR-CALNAME:NovaOS Learning Plan');
+
+    const revoked = await service.revokeFeed(goal.userId);
+    expect(revoked.ok && revoked.value).toBe(true);
+    const gone = await service.resolveFeed(newToken);
+    expect(gone.ok && gone.value).toBeNull();
+  });
+});
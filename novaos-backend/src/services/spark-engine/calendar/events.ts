@@ -0,0 +1,115 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// CALENDAR EVENTS — Steps as iCalendar Events
+// NovaOS Spark Engine — Calendar Integration
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Pure mapping from scheduled steps to calendar events:
+//   - One event per scheduled step, with a UID stable across reschedules
+//   - Objective, goal and resource links in the description
+//   - Completed steps stay on the calendar as free time; skipped steps
+//     are cancelled so subscribed calendars remove them
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type { StepId } from '../../../types/branded.js';
+import type { Goal, Step } from '../types.js';
+import type { CalendarConfig, ICalEvent } from './types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Everything besides the step needed to render its event.
+ */
+export interface StepEventContext {
+  readonly goal: Goal;
+
+  /** IANA timezone of the event */
+  readonly timezone: string;
+
+  /** Local start hour (0-23) */
+  readonly startHour: number;
+
+  /** Reminder delivery times (ISO 8601), rendered as alarms */
+  readonly alarmTimes: readonly string[];
+
+  readonly config: CalendarConfig;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// HELPERS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Event UID for a step.
+ */
+export function stepEventUid(stepId: StepId, domain: string): string {
+  return `${stepId}@${domain}`;
+}
+
+function describeStep(step: Step, goal: Goal): string {
+  const sections: string[] = [];
+
+  sections.push(step.objective ? `Objective: ${step.objective}` : step.description);
+  sections.push(
+    step.dayNumber !== undefined
+      ? `Goal: ${goal.title} (day ${step.dayNumber})`
+      : `Goal: ${goal.title}`
+  );
+
+  if (step.resources && step.resources.length > 0) {
+    sections.push([
+      'Resources:',
+      ...step.resources.map((r) => `- ${r.title}: ${r.url}`),
+    ].join('\n'));
+  }
+
+  return sections.filter(Boolean).join('\n\n');
+}
+
+/**
+ * Revision number from the step's edit history: later updates always
+ * produce a higher number, so importing calendars accept the change.
+ */
+function sequenceOf(step: Step): number {
+  const elapsed = Date.parse(step.updatedAt) - Date.parse(step.createdAt);
+  return Number.isFinite(elapsed) ? Math.max(0, Math.floor(elapsed / 1000)) : 0;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// EVENT MAPPING
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Build the calendar event for a step, or null if it isn't scheduled.
+ */
+export function buildStepEvent(step: Step, context: StepEventContext): ICalEvent | null {
+  if (!step.scheduledDate) {
+    return null;
+  }
+
+  const { goal, config } = context;
+  const done = step.status === 'completed';
+  const hour = context.startHour.toString().padStart(2, '0');
+
+  return {
+    uid: stepEventUid(step.id, config.uidDomain),
+    summary: done ? `✓ ${step.title}` : step.title,
+    description: describeStep(step, goal),
+    categories: [goal.title],
+    start: `${step.scheduledDate}T${hour}:00`,
+    timezone: context.timezone,
+    durationMinutes: step.estimatedMinutes ?? config.defaultDurationMinutes,
+    status: step.status === 'skipped' ? 'CANCELLED' : 'CONFIRMED',
+    transparent: done,
+    sequence: sequenceOf(step),
+    lastModified: step.updatedAt,
+    alarms: done || step.status === 'skipped'
+      ? []
+      : context.alarmTimes.map((trigger) => ({
+          trigger,
+          description: `Time for today's lesson: ${step.title}`,
+        })),
+  };
+}
@@ -0,0 +1,254 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// ICAL WRITER — RFC 5545 Serialization
+// NovaOS Spark Engine — Calendar Integration
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Pure serialization of calendars into iCalendar text:
+//   - CRLF line endings, lines folded at 75 octets (UTF-8 safe)
+//   - TEXT values escaped
+//   - Zoned event times (DTSTART;TZID=...) with a VTIMEZONE per zone,
+//     built from the IANA database for the years the events span
+//   - Alarms as absolute UTC triggers
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { DateTime } from 'luxon';
+import type { ICalCalendar, ICalEvent } from './types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const CRLF = '\r\n';
+
+/** Maximum line length in octets, excluding the line break */
+const MAX_LINE_OCTETS = 75;
+
+const UTC_FORMAT = "yyyyMMdd'T'HHmmss'Z'";
+const LOCAL_FORMAT = "yyyyMMdd'T'HHmmss";
+
+/** Resolution used to locate UTC offset transitions */
+const TRANSITION_STEP_MINUTES = 15;
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// VALUE FORMATTING
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Escape a TEXT value (RFC 5545 §3.3.11).
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+/**
+ * Fold a content line at 75 octets (RFC 5545 §3.1).
+ * Never splits a multi-byte character.
+ */
+export function foldLine(line: string): string {
+  if (Buffer.byteLength(line, 'utf8') <= MAX_LINE_OCTETS) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  // Continuation lines start with a space, which counts towards the limit
+  let limit = MAX_LINE_OCTETS;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf8');
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+      limit = MAX_LINE_OCTETS - 1;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join(`${CRLF} `);
+}
+
+function formatUtc(iso: string): string {
+  return DateTime.fromISO(iso, { zone: 'utc' }).toFormat(UTC_FORMAT);
+}
+
+function formatLocal(local: string): string {
+  // Parsed as a floating time: the TZID parameter carries the zone
+  return DateTime.fromISO(local, { zone: 'utc' }).toFormat(LOCAL_FORMAT);
+}
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  const hours = Math.floor(abs / 60).toString().padStart(2, '0');
+  const mins = (abs % 60).toString().padStart(2, '0');
+  return `${sign}${hours}${mins}`;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// VTIMEZONE
+// ─────────────────────────────────────────────────────────────────────────────────
+
+function observance(
+  daylight: boolean,
+  offsetFrom: number,
+  offsetTo: number,
+  start: string,
+  name: string | null
+): string[] {
+  const type = daylight ? 'DAYLIGHT' : 'STANDARD';
+  return [
+    `BEGIN:${type}`,
+    `DTSTART:${start}`,
+    `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+    `TZOFFSETTO:${formatOffset(offsetTo)}`,
+    ...(name ? [`TZNAME:${escapeText(name)}`] : []),
+    `END:${type}`,
+  ];
+}
+
+/**
+ * Build a VTIMEZONE for an IANA zone covering whole years.
+ *
+ * Each UTC offset transition in the range becomes an observance; the offset in
+ * effect at the start of the range is given as an observance from 1970.
+ */
+export function buildTimezone(zone: string, fromYear: number, toYear: number): string[] {
+  const start = DateTime.fromObject({ year: fromYear, month: 1, day: 1 }, { zone });
+  const end = DateTime.fromObject({ year: toYear + 1, month: 1, day: 1 }, { zone }).toUTC();
+
+  const lines = [
+    'BEGIN:VTIMEZONE',
+    `TZID:${zone}`,
+    ...observance(start.isInDST, start.offset, start.offset, '19700101T000000', start.offsetNameShort),
+  ];
+
+  let offset = start.offset;
+  let day = start.toUTC();
+
+  while (day < end) {
+    const next = day.plus({ days: 1 });
+
+    if (next.setZone(zone).offset !== offset) {
+      let transition = day;
+      while (transition.setZone(zone).offset === offset) {
+        transition = transition.plus({ minutes: TRANSITION_STEP_MINUTES });
+      }
+
+      const after = transition.setZone(zone);
+      lines.push(
+        ...observance(
+          after.isInDST,
+          offset,
+          after.offset,
+          // Onset is given in the local time in effect before the transition
+          transition.plus({ minutes: offset }).toFormat(LOCAL_FORMAT),
+          after.offsetNameShort
+        )
+      );
+      offset = after.offset;
+    }
+
+    day = next;
+  }
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// VEVENT
+// ─────────────────────────────────────────────────────────────────────────────────
+
+function eventLines(event: ICalEvent, stamp: string): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;TZID=${event.timezone}:${formatLocal(event.start)}`,
+    `DURATION:PT${event.durationMinutes}M`,
+    `SUMMARY:${escapeText(event.summary)}`,
+  ];
+
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+  if (event.categories && event.categories.length > 0) {
+    lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`);
+  }
+
+  lines.push(
+    `STATUS:${event.status}`,
+    `TRANSP:${event.transparent ? 'TRANSPARENT' : 'OPAQUE'}`,
+    `SEQUENCE:${event.sequence}`,
+    `LAST-MODIFIED:${formatUtc(event.lastModified)}`
+  );
+
+  for (const alarm of event.alarms) {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(alarm.description)}`,
+      `TRIGGER;VALUE=DATE-TIME:${formatUtc(alarm.trigger)}`,
+      'END:VALARM'
+    );
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// VCALENDAR
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Serialize a calendar to iCalendar text.
+ */
+export function serializeCalendar(calendar: ICalCalendar): string {
+  const stamp = formatUtc(calendar.generatedAt);
+  const refresh = `PT${calendar.refreshIntervalMinutes}M`;
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${calendar.productId}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendar.name)}`,
+    `X-WR-TIMEZONE:${calendar.timezone}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${refresh}`,
+    `X-PUBLISHED-TTL:${refresh}`,
+  ];
+
+  // One VTIMEZONE per zone, covering the years its events fall in
+  const years = new Map<string, { from: number; to: number }>();
+  for (const event of calendar.events) {
+    const year = Number(event.start.slice(0, 4));
+    const range = years.get(event.timezone);
+    years.set(event.timezone, {
+      from: Math.min(range?.from ?? year, year),
+      to: Math.max(range?.to ?? year, year),
+    });
+  }
+
+  for (const [zone, range] of [...years.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+    lines.push(...buildTimezone(zone, range.from, range.to));
+  }
+
+  for (const event of calendar.events) {
+    lines.push(...eventLines(event, stamp));
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join(CRLF) + CRLF;
+}
@@ -0,0 +1,50 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// CALENDAR MODULE — Public API Exports
+// NovaOS Spark Engine — Calendar Integration
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// This module exports the calendar integration public API:
+//   - CalendarService: subscription feeds and per-goal .ics exports
+//   - The RFC 5545 writer and step → event mapping
+//
+// Usage:
+//   import { createCalendarService } from './calendar';
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SERVICE
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export { CalendarService, createCalendarService } from './service.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export type {
+  CalendarFeed,
+  ICalAlarm,
+  ICalEvent,
+  ICalCalendar,
+  CalendarConfig,
+} from './types.js';
+
+export { DEFAULT_CALENDAR_CONFIG } from './types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// ICALENDAR
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export {
+  serializeCalendar,
+  buildTimezone,
+  escapeText,
+  foldLine,
+} from './ical.js';
+
+export {
+  buildStepEvent,
+  stepEventUid,
+  type StepEventContext,
+} from './events.js';
@@ -0,0 +1,309 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// CALENDAR SERVICE — iCalendar Feeds & Exports
+// NovaOS Spark Engine — Calendar Integration
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Publishes lesson plans to the learner's own calendar:
+//   - Subscription feed per user, authenticated by a secret URL token
+//   - One-off .ics export per goal
+//   - Alarms from pending reminders, or derived from the goal's reminder config
+//
+// Calendars are rendered from the current plan on every request, so rescheduled,
+// completed and skipped steps update on the calendar's next refresh.
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { randomBytes } from 'crypto';
+import { DateTime } from 'luxon';
+import { ok, err, isOk } from '../../../types/result.js';
+import type { AsyncAppResult } from '../../../types/result.js';
+import { createTimestamp, type GoalId, type UserId } from '../../../types/branded.js';
+import { getLogger } from '../../../observability/logging/index.js';
+
+import type { Goal, Step } from '../types.js';
+import type { ISparkEngineStore, IReminderService } from '../interfaces.js';
+import type { ICalendarFeedStore } from '../store/types.js';
+import { generateScheduleForDate, isValidTimezone } from '../reminder-service/scheduler.js';
+import { buildStepEvent } from './events.js';
+import { serializeCalendar } from './ical.js';
+import type { CalendarConfig, CalendarFeed, ICalEvent } from './types.js';
+import { DEFAULT_CALENDAR_CONFIG } from './types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// LOGGER
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const logger = getLogger({ component: 'calendar-service' });
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/** Feed token size (256 bits) */
+const TOKEN_BYTES = 32;
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CALENDAR SERVICE
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * iCalendar publishing of lesson plans.
+ */
+export class CalendarService {
+  private readonly config: CalendarConfig;
+
+  constructor(
+    private readonly store: ISparkEngineStore,
+    private readonly feedStore: ICalendarFeedStore,
+    private readonly reminderService: IReminderService,
+    config: Partial<CalendarConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_CALENDAR_CONFIG, ...config };
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Subscription Feed
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Get a user's subscription feed, if one was issued.
+   */
+  async getFeed(userId: UserId): AsyncAppResult<CalendarFeed | null> {
+    return this.feedStore.get(userId);
+  }
+
+  /**
+   * Issue a new feed token, revoking the previous one.
+   */
+  async issueFeed(userId: UserId): AsyncAppResult<CalendarFeed> {
+    const revokeResult = await this.feedStore.delete(userId);
+    if (!isOk(revokeResult)) {
+      return err(revokeResult.error);
+    }
+
+    const feed: CalendarFeed = {
+      userId,
+      token: randomBytes(TOKEN_BYTES).toString('base64url'),
+      createdAt: createTimestamp(),
+    };
+
+    const saveResult = await this.feedStore.save(feed);
+    if (!isOk(saveResult)) {
+      return saveResult;
+    }
+
+    logger.info('Calendar feed issued', { userId, rotated: revokeResult.value });
+
+    return saveResult;
+  }
+
+  /**
+   * Revoke a user's feed. Returns whether a feed existed.
+   */
+  async revokeFeed(userId: UserId): AsyncAppResult<boolean> {
+    const result = await this.feedStore.delete(userId);
+    if (isOk(result) && result.value) {
+      logger.info('Calendar feed revoked', { userId });
+    }
+    return result;
+  }
+
+  /**
+   * Find the feed for a URL token.
+   */
+  async resolveFeed(token: string): AsyncAppResult<CalendarFeed | null> {
+    return this.feedStore.getByToken(token);
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Rendering
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Render a user's subscription feed: every goal that isn't abandoned,
+   * from `feedHistoryDays` ago onwards.
+   */
+  async renderUserFeed(userId: UserId): AsyncAppResult<string> {
+    const goalsResult = await this.store.getGoalsByUser(userId);
+    if (!isOk(goalsResult)) {
+      return goalsResult;
+    }
+
+    const goals = goalsResult.value.filter((g) => g.status !== 'abandoned');
+    const since = DateTime.utc().minus({ days: this.config.feedHistoryDays }).toISODate()!;
+    const reminders = await this.getPendingReminders(userId);
+
+    const events: ICalEvent[] = [];
+    for (const goal of goals) {
+      const eventsResult = await this.buildGoalEvents(goal, reminders, since);
+      if (!isOk(eventsResult)) {
+        return eventsResult;
+      }
+      events.push(...eventsResult.value);
+    }
+
+    const first = goals[0];
+    return ok(this.render(
+      this.config.feedName,
+      first ? this.timezoneOf(first) : this.config.defaultTimezone,
+      events
+    ));
+  }
+
+  /**
+   * Render one goal's full plan for download.
+   */
+  async renderGoalCalendar(goalId: GoalId): AsyncAppResult<string> {
+    const goalResult = await this.store.getGoal(goalId);
+    if (!isOk(goalResult)) {
+      return goalResult;
+    }
+
+    const goal = goalResult.value;
+    if (!goal) {
+      return err({
+        code: 'NOT_FOUND',
+        message: `Goal not found: ${goalId}`,
+      });
+    }
+
+    const reminders = await this.getPendingReminders(goal.userId);
+    const eventsResult = await this.buildGoalEvents(goal, reminders);
+    if (!isOk(eventsResult)) {
+      return eventsResult;
+    }
+
+    return ok(this.render(goal.title, this.timezoneOf(goal), eventsResult.value));
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Private Helpers
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  private render(name: string, timezone: string, events: readonly ICalEvent[]): string {
+    return serializeCalendar({
+      productId: this.config.productId,
+      name,
+      timezone,
+      refreshIntervalMinutes: this.config.refreshIntervalMinutes,
+      generatedAt: new Date().toISOString(),
+      events: [...events].sort((a, b) => a.start.localeCompare(b.start)),
+    });
+  }
+
+  /**
+   * Events for a goal's scheduled steps, optionally from a date onwards.
+   */
+  private async buildGoalEvents(
+    goal: Goal,
+    reminders: ReadonlyMap<string, readonly string[]>,
+    since?: string
+  ): AsyncAppResult<readonly ICalEvent[]> {
+    const questsResult = await this.store.getQuestsByGoal(goal.id);
+    if (!isOk(questsResult)) {
+      return questsResult;
+    }
+
+    const timezone = this.timezoneOf(goal);
+    const startHour = goal.reminderConfig?.firstReminderHour ?? this.config.defaultStartHour;
+    const now = Date.now();
+    const events: ICalEvent[] = [];
+
+    for (const quest of questsResult.value) {
+      const stepsResult = await this.store.getStepsByQuest(quest.id);
+      if (!isOk(stepsResult)) {
+        return stepsResult;
+      }
+
+      for (const step of stepsResult.value) {
+        if (!step.scheduledDate || (since && step.scheduledDate < since)) {
+          continue;
+        }
+
+        const alarmTimes = this.alarmTimesFor(step, goal, timezone, reminders)
+          .filter((time) => Date.parse(time) > now);
+
+        const event = buildStepEvent(step, {
+          goal,
+          timezone,
+          startHour,
+          alarmTimes,
+          config: this.config,
+        });
+        if (event) {
+          events.push(event);
+        }
+      }
+    }
+
+    return ok(events);
+  }
+
+  /**
+   * Reminder times for a step: its pending reminders when scheduled,
+   * otherwise what the goal's reminder config would schedule for that day.
+   */
+  private alarmTimesFor(
+    step: Step,
+    goal: Goal,
+    timezone: string,
+    reminders: ReadonlyMap<string, readonly string[]>
+  ): readonly string[] {
+    const scheduled = reminders.get(step.id);
+    if (scheduled) {
+      return scheduled;
+    }
+
+    const reminderConfig = goal.reminderConfig;
+    if (!reminderConfig || !step.scheduledDate) {
+      return [];
+    }
+
+    return generateScheduleForDate(step.scheduledDate, { ...reminderConfig, timezone })
+      .slots.map((slot) => slot.scheduledTime);
+  }
+
+  /**
+   * Pending reminder times by step. Alarms fall back to the reminder config
+   * when reminders can't be loaded.
+   */
+  private async getPendingReminders(
+    userId: UserId
+  ): Promise<ReadonlyMap<string, readonly string[]>> {
+    const byStep = new Map<string, string[]>();
+
+    const result = await this.reminderService.getPendingReminders(userId);
+    if (!isOk(result)) {
+      logger.warn('Failed to load pending reminders for calendar', {
+        userId,
+        error: result.error.message,
+      });
+      return byStep;
+    }
+
+    for (const reminder of result.value) {
+      const times = byStep.get(reminder.stepId) ?? [];
+      times.push(reminder.scheduledTime);
+      byStep.set(reminder.stepId, times);
+    }
+
+    return byStep;
+  }
+
+  private timezoneOf(goal: Goal): string {
+    const timezone = goal.reminderConfig?.timezone;
+    return timezone && isValidTimezone(timezone) ? timezone : this.config.defaultTimezone;
+  }
+}
+
+/**
+ * Create a CalendarService.
+ */
+export function createCalendarService(
+  store: ISparkEngineStore,
+  feedStore: ICalendarFeedStore,
+  reminderService: IReminderService,
+  config?: Partial<CalendarConfig>
+): CalendarService {
+  return new CalendarService(store, feedStore, reminderService, config);
+}
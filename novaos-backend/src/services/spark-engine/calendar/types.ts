@@ -0,0 +1,150 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// CALENDAR TYPES — iCalendar Feeds & Exports
+// NovaOS Spark Engine — Calendar Integration
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Scheduled steps are published as iCalendar (RFC 5545) events, either through
+// a per-user subscription feed (authenticated by a secret token in the URL) or
+// as a one-off .ics download per goal. Feeds are rendered on every fetch, so
+// rescheduled and completed steps show up on the calendar's next refresh.
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type { UserId, Timestamp } from '../../../types/branded.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SUBSCRIPTION FEED
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * A user's calendar subscription feed.
+ *
+ * The token is the only credential for the feed URL: calendar apps can't send
+ * auth headers. Issuing a new token revokes the previous one.
+ */
+export interface CalendarFeed {
+  /** Feed owner */
+  readonly userId: UserId;
+
+  /** Secret URL token (base64url, 256 bits) */
+  readonly token: string;
+
+  /** When the token was issued */
+  readonly createdAt: Timestamp;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// ICALENDAR COMPONENTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * A VALARM on an event, fired at an absolute time.
+ */
+export interface ICalAlarm {
+  /** Trigger time (ISO 8601 instant) */
+  readonly trigger: string;
+
+  /** Alarm text */
+  readonly description: string;
+}
+
+/**
+ * A VEVENT in a zoned local time.
+ */
+export interface ICalEvent {
+  /** Globally unique, stable across renders */
+  readonly uid: string;
+
+  readonly summary: string;
+  readonly description?: string;
+  readonly categories?: readonly string[];
+
+  /** Start as local date-time (YYYY-MM-DDTHH:mm) in `timezone` */
+  readonly start: string;
+
+  /** IANA timezone of `start` (TZID) */
+  readonly timezone: string;
+
+  readonly durationMinutes: number;
+  readonly status: 'CONFIRMED' | 'CANCELLED';
+
+  /** Whether the event shows as free time */
+  readonly transparent: boolean;
+
+  /** Revision number, increases with every change */
+  readonly sequence: number;
+
+  /** Last change (ISO 8601 instant) */
+  readonly lastModified: string;
+
+  readonly alarms: readonly ICalAlarm[];
+}
+
+/**
+ * A VCALENDAR with its events.
+ */
+export interface ICalCalendar {
+  /** PRODID */
+  readonly productId: string;
+
+  /** Display name (X-WR-CALNAME) */
+  readonly name: string;
+
+  /** Default timezone for display (X-WR-TIMEZONE) */
+  readonly timezone: string;
+
+  /** Suggested polling interval for subscribed calendars */
+  readonly refreshIntervalMinutes: number;
+
+  /** Render time, used as DTSTAMP (ISO 8601 instant) */
+  readonly generatedAt: string;
+
+  readonly events: readonly ICalEvent[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONFIGURATION
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Calendar configuration.
+ */
+export interface CalendarConfig {
+  /** PRODID of generated calendars */
+  readonly productId: string;
+
+  /** Domain part of event UIDs */
+  readonly uidDomain: string;
+
+  /** Name of the subscription feed calendar */
+  readonly feedName: string;
+
+  /** Timezone for goals without a valid reminder timezone */
+  readonly defaultTimezone: string;
+
+  /** Start hour for goals without reminder config (0-23) */
+  readonly defaultStartHour: number;
+
+  /** Duration for steps without an estimate */
+  readonly defaultDurationMinutes: number;
+
+  /** Suggested polling interval for subscribed calendars */
+  readonly refreshIntervalMinutes: number;
+
+  /** Days of past steps kept in the subscription feed */
+  readonly feedHistoryDays: number;
+}
+
+/**
+ * Default calendar configuration.
+ */
+export const DEFAULT_CALENDAR_CONFIG: CalendarConfig = {
+  productId: '-//NovaOS//Spark Engine//EN',
+  uidDomain: 'novaos.app',
+  feedName: 'NovaOS Learning Plan',
+  defaultTimezone: 'UTC',
+  defaultStartHour: 9,
+  defaultDurationMinutes: 30,
+  refreshIntervalMinutes: 60,
+  feedHistoryDays: 30,
+};
@@ -10,6 +10,9 @@
 //   - Made-up statistics or claims
 //   - References to non-existent content
 //
+// Curriculum output is checked field by field; other LLM output (e.g. quiz
+// questions) is checked as a flat list of text locations.
+//
 // INVARIANT: All resource references MUST trace back to verified resources.
 //            Any unverifiable reference is a hallucination.
 //
@@ -90,6 +93,17 @@ export interface HallucinationDetectionResult {
   readonly countBySeverity: Readonly<Record<HallucinationSeverity, number>>;
 }
 
+/**
+ * A piece of LLM-generated text and where it came from.
+ */
+export interface TextLocation {
+  /** The generated text */
+  readonly text: string;
+
+  /** Location in output (e.g. "questions[2].prompt") */
+  readonly path: string;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // URL PATTERNS
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -351,25 +365,36 @@ function detectSuspiciousReferences(curriculum: RawCurriculumOutput): Hallucinat
   
   // Check for suspicious patterns
   for (const { text, path } of textLocations) {
-    for (const pattern of SUSPICIOUS_PATTERNS) {
-      pattern.lastIndex = 0;
-      const matches = text.matchAll(pattern);
-      
-      for (const match of matches) {
-        hallucinations.push({
-          type: 'suspicious_claim',
-          severity: 'low',
-          path,
-          description: 'Potentially fabricated reference or statistic detected',
-          fabricatedContent: match[0],
-        });
-      }
-    }
+    checkTextForSuspiciousPatterns(text, path, hallucinations);
   }
   
   return hallucinations;
 }
 
+/**
+ * Check text for suspicious patterns and report each match.
+ */
+function checkTextForSuspiciousPatterns(
+  text: string,
+  path: string,
+  hallucinations: Hallucination[]
+): void {
+  for (const pattern of SUSPICIOUS_PATTERNS) {
+    pattern.lastIndex = 0;
+    const matches = text.matchAll(pattern);
+    
+    for (const match of matches) {
+      hallucinations.push({
+        type: 'suspicious_claim',
+        severity: 'low',
+        path,
+        description: 'Potentially fabricated reference or statistic detected',
+        fabricatedContent: match[0],
+      });
+    }
+  }
+}
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // MAIN DETECTOR
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -400,6 +425,36 @@ export function detectHallucinations(
   const suspiciousHallucinations = detectSuspiciousReferences(curriculum);
   allHallucinations.push(...suspiciousHallucinations);
   
+  return summarizeHallucinations(allHallucinations);
+}
+
+/**
+ * Detect hallucinations in free-form LLM text.
+ *
+ * Every URL must match a verified URL; suspicious references are reported
+ * as low severity, as for curriculum output.
+ */
+export function detectTextHallucinations(
+  locations: readonly TextLocation[],
+  verifiedUrls: readonly string[]
+): HallucinationDetectionResult {
+  const allHallucinations: Hallucination[] = [];
+  const normalizedUrls = new Set<string>(verifiedUrls.map(normalizeUrl));
+  
+  for (const { text, path } of locations) {
+    checkTextForUrls(text, path, normalizedUrls, allHallucinations);
+    checkTextForSuspiciousPatterns(text, path, allHallucinations);
+  }
+  
+  return summarizeHallucinations(allHallucinations);
+}
+
+/**
+ * Count, log and record metrics for detected hallucinations.
+ */
+function summarizeHallucinations(
+  hallucinations: readonly Hallucination[]
+): HallucinationDetectionResult {
   // Count by type
   const countByType: Record<HallucinationType, number> = {
     fabricated_index: 0,
@@ -418,25 +473,25 @@ export function detectHallucinations(
     low: 0,
   };
   
-  for (const h of allHallucinations) {
+  for (const h of hallucinations) {
     countByType[h.type]++;
     countBySeverity[h.severity]++;
   }
   
   const hasCritical = countBySeverity.critical > 0;
-  const hasHallucinations = allHallucinations.length > 0;
+  const hasHallucinations = hallucinations.length > 0;
   
   // Log results
   if (hasCritical) {
     logger.warn('Critical hallucinations detected', {
-      total: allHallucinations.length,
+      total: hallucinations.length,
       critical: countBySeverity.critical,
       types: Object.entries(countByType).filter(([, v]) => v > 0),
     });
     incCounter('hallucination_detection_total', { result: 'critical' });
   } else if (hasHallucinations) {
     logger.info('Minor hallucinations detected', {
-      total: allHallucinations.length,
+      total: hallucinations.length,
       types: Object.entries(countByType).filter(([, v]) => v > 0),
     });
     incCounter('hallucination_detection_total', { result: 'detected' });
@@ -448,7 +503,7 @@ export function detectHallucinations(
   return {
     hasHallucinations,
     hasCritical,
-    hallucinations: allHallucinations,
+    hallucinations,
     countByType,
     countBySeverity,
   };
@@ -169,6 +169,7 @@ export {
 export {
   // Main detector
   detectHallucinations,
+  detectTextHallucinations,
   hasCriticalHallucinations,
   hasAnyUrls,
   
@@ -177,6 +178,7 @@ export {
   type HallucinationSeverity,
   type Hallucination,
   type HallucinationDetectionResult,
+  type TextLocation,
   
   // Internals (for testing)
   extractUrls,
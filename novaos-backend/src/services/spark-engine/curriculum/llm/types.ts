@@ -26,6 +26,7 @@ export type LLMPurpose =
   | 'spark_creation'           // Creating spark reminders
   | 'content_summary'          // Summarizing verified content
   | 'difficulty_assessment'    // Assessing resource difficulty
+  | 'quiz_generation'          // Writing knowledge-check questions for a step
   | 'test';                    // Testing/development
 
 /**
@@ -73,6 +74,12 @@ export const PURPOSE_LIMITS: Record<LLMPurpose, {
     timeoutMs: 10000,
     priority: 3,
   },
+  quiz_generation: {
+    maxTokensOutput: 2000,
+    maxTokensInput: 3000,
+    timeoutMs: 20000,
+    priority: 2,
+  },
   test: {
     maxTokensOutput: 1000,
     maxTokensInput: 2000,
@@ -19,6 +19,7 @@ import type { Result } from '../../../types/result.js';
 import { ok, err } from '../../../types/result.js';
 import { getLogger } from '../../../observability/logging/index.js';
 import { incCounter, observeHistogram } from '../../../observability/metrics/index.js';
+import { runWithBudget } from '../../../usage/index.js';
 
 import type { VerifiedResource, TopicId } from '../resource-discovery/types.js';
 import type {
@@ -465,6 +466,13 @@ const DEFAULT_CONFIG: CurriculumStructurerConfig = {
 export async function generateCurriculum(
   request: CurriculumGenerationRequest,
   config?: Partial<CurriculumStructurerConfig>
+): Promise<CurriculumGenerationResult> {
+  return runWithBudget(request.userId, 'curriculum_structuring', () => structureCurriculum(request, config));
+}
+
+async function structureCurriculum(
+  request: CurriculumGenerationRequest,
+  config?: Partial<CurriculumStructurerConfig>
 ): Promise<CurriculumGenerationResult> {
   const { maxRetries, temperature } = { ...DEFAULT_CONFIG, ...config };
   const startTime = Date.now();
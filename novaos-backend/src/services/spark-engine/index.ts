@@ -39,6 +39,7 @@ export {
   // Step types
   type StepStatus,
   type DifficultyRating,
+  type DifficultySource,
   type Step,
 
   // Activity types
@@ -65,6 +66,9 @@ export {
   type CreateGoalParams,
   type CreateQuestParams,
   type UpdateGoalParams,
+  type RescheduleOptions,
+  type PausePlanParams,
+  type PlanPauseResult,
   type TodayResult,
   type PathProgress,
 } from './types.js';
@@ -8,6 +8,8 @@
 //   - IStepGenerator: Step generation service
 //   - ISparkGenerator: Spark generation service
 //   - IReminderService: Reminder scheduling service
+//   - IReviewScheduler: Spaced-repetition review scheduling
+//   - IPaceAdapter: Adaptive pacing of upcoming steps
 //   - ISparkEngine: Main orchestrator interface
 //
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -32,7 +34,13 @@ import type {
   UpdateGoalParams,
   TodayResult,
   PathProgress,
+  RescheduleOptions,
+  PausePlanParams,
+  PlanPauseResult,
 } from './types.js';
+import type { ReviewItem } from './review/types.js';
+import type { PlanAdaptation } from './adaptation/types.js';
+import type { RescheduleResult } from './rescheduling/types.js';
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // STORE INTERFACE
@@ -99,6 +107,11 @@ export interface ISparkEngineStore {
    */
   getStep(stepId: StepId): AsyncAppResult<Step | null>;
 
+  /**
+   * Delete a step (and its sparks, quiz and review item).
+   */
+  deleteStep(stepId: StepId): AsyncAppResult<void>;
+
   /**
    * Get all steps for a quest.
    */
@@ -210,6 +223,61 @@ export interface IReminderService {
   ): AsyncAppResult<readonly ReminderSchedule[]>;
 }
 
+// ═══════════════════════════════════════════════════════════════════════════════
+// REVIEW SCHEDULER INTERFACE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Schedules spaced-repetition reviews of completed steps.
+ */
+export interface IReviewScheduler {
+  /**
+   * Create or refresh the review item for a step.
+   * Steps that aren't completed are ignored; items that have already been
+   * reviewed keep their schedule.
+   *
+   * @param step - The step after its latest change
+   * @returns The review item, or null if the step isn't reviewable
+   */
+  syncStep(step: Step): AsyncAppResult<ReviewItem | null>;
+
+  /**
+   * Feed a quiz score into the step's review schedule.
+   *
+   * @param step - The quizzed step
+   * @param score - Quiz score (0-100)
+   * @returns The review item, or null if the step isn't reviewable
+   */
+  recordQuizScore(step: Step, score: number): AsyncAppResult<ReviewItem | null>;
+
+  /**
+   * Get the reviews to surface on a date.
+   *
+   * @param userId - The user
+   * @param date - Date in the user's timezone (YYYY-MM-DD)
+   * @returns Due reviews, most overdue first
+   */
+  getReviewsForDate(userId: UserId, date: string): AsyncAppResult<readonly ReviewItem[]>;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// PACE ADAPTER INTERFACE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Adapts a goal's upcoming steps to the learner's pace.
+ */
+export interface IPaceAdapter {
+  /**
+   * Re-read the learner's pace after feedback on a step (completion time or
+   * difficulty rating) and change the upcoming steps if it calls for it.
+   *
+   * @param step - The step after its latest change
+   * @returns The recorded adaptation, or null if the plan didn't change
+   */
+  onStepFeedback(step: Step): AsyncAppResult<PlanAdaptation | null>;
+}
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // SPARK ENGINE INTERFACE
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -223,6 +291,8 @@ export interface IReminderService {
  * - Completion tracking
  * - Progress computation
  * - Reminder scheduling (via ReminderService)
+ * - Missed-day rescheduling and plan pauses
+ * - Adaptive pacing (via PaceAdapter)
  */
 export interface ISparkEngine {
   // ─────────────────────────────────────────────────────────────────────────────
@@ -284,7 +354,7 @@ export interface ISparkEngine {
 
   /**
    * Get today's learning content for a user.
-   * Finds the scheduled step and active/creates spark.
+   * Finds the scheduled step and active/creates spark, plus any due reviews.
    */
   getTodayForUser(userId: UserId): AsyncAppResult<TodayResult>;
 
@@ -324,6 +394,17 @@ export interface ISparkEngine {
     rating: DifficultyRating
   ): AsyncAppResult<void>;
 
+  /**
+   * Record a graded quiz attempt for a step.
+   * Tracks the best score, derives the difficulty rating unless the user
+   * rated the step, and completes the step when the attempt passed.
+   */
+  recordQuizResult(
+    stepId: StepId,
+    score: number,
+    passed: boolean
+  ): AsyncAppResult<Step>;
+
   // ─────────────────────────────────────────────────────────────────────────────
   // Progress
   // ─────────────────────────────────────────────────────────────────────────────
@@ -332,4 +413,34 @@ export interface ISparkEngine {
    * Get progress through a goal's learning path.
    */
   getPathProgress(goalId: GoalId): AsyncAppResult<PathProgress>;
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Rescheduling
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Move a goal's remaining steps back onto the calendar after missed days.
+   * Does nothing when the plan is in sync.
+   */
+  reschedulePlan(
+    goalId: GoalId,
+    options?: RescheduleOptions
+  ): AsyncAppResult<RescheduleResult>;
+
+  /**
+   * Reschedule every active goal of a user that has a reschedule policy.
+   * Returns only the plans that changed.
+   */
+  rescheduleMissedDays(userId: UserId): AsyncAppResult<readonly RescheduleResult[]>;
+
+  /**
+   * Pause a goal's plan over a date range ("vacation mode").
+   * Steps in the range move past it and their reminders are cancelled.
+   */
+  pausePlan(goalId: GoalId, params: PausePlanParams): AsyncAppResult<PlanPauseResult>;
+
+  /**
+   * End the current pause early and pull the plan forward to today.
+   */
+  resumePlan(goalId: GoalId): AsyncAppResult<PlanPauseResult>;
 }
@@ -0,0 +1,415 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// QUIZ TESTS — Grading, Generation & Submission
+// NovaOS Spark Engine — Quiz Activities
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ok } from '../../../../types/result.js';
+import type { AsyncAppResult } from '../../../../types/result.js';
+import {
+  createGoalId,
+  createQuestId,
+  createStepId,
+  createUserId,
+  createTimestamp,
+  type StepId,
+  type UserId,
+} from '../../../../types/branded.js';
+
+import type { Goal, Quest, Step } from '../../types.js';
+import type { ISparkEngine, ISparkEngineStore } from '../../interfaces.js';
+import type { IQuizStore } from '../../store/types.js';
+import {
+  initSecureLLMClient,
+  resetSecureLLMClient,
+} from '../../curriculum/llm/index.js';
+import {
+  gradeQuestion,
+  gradeQuiz,
+  normalizeAnswer,
+  normalizeOutput,
+  difficultyFromScore,
+  toPublicQuestion,
+} from '../grader.js';
+import { parseQuizResponse, QuizGenerator, type IQuizGenerator } from '../generator.js';
+import { QuizService } from '../service.js';
+import type { QuizQuestion, StepQuiz } from '../types.js';
+import { QuizErrorCode } from '../types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TEST FIXTURES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const QUESTIONS: QuizQuestion[] = [
+  {
+    id: 'q1',
+    type: 'multiple_choice',
+    prompt: 'Which keyword declares a constant?',
+    choices: ['var', 'let', 'const'],
+    correctChoice: 2,
+    explanation: 'const bindings cannot be reassigned.',
+  },
+  {
+    id: 'q2',
+    type: 'short_answer',
+    prompt: 'What type does typeof null return?',
+    acceptedAnswers: ['object'],
+  },
+  {
+    id: 'q3',
+    type: 'code_output',
+    prompt: 'What does this print?',
+    code: 'console.log(1 + 2);\nconsole.log("a");',
+    language: 'javascript',
+    expectedOutput: '3\na',
+  },
+];
+
+function createRawQuizJson(extra: unknown[] = []): string {
+  return JSON.stringify({
+    questions: [
+      QUESTIONS.map(({ id: _id, ...rest }) => rest),
+      extra,
+    ].flat(),
+  });
+}
+
+function createTestStep(questId = createQuestId()): Step {
+  return {
+    id: createStepId(),
+    questId,
+    title: 'Day 1: Variables',
+    description: 'Declaring variables in JavaScript',
+    status: 'active',
+    order: 1,
+    createdAt: createTimestamp(),
+    updatedAt: createTimestamp(),
+    scheduledDate: '2025-01-01',
+    dayNumber: 1,
+    objective: 'Understand var, let and const',
+  };
+}
+
+function createMockQuizStore(): IQuizStore & { quizzes: Map<string, StepQuiz> } {
+  const quizzes = new Map<string, StepQuiz>();
+  return {
+    quizzes,
+    save: vi.fn(async (quiz: StepQuiz): AsyncAppResult<StepQuiz> => {
+      quizzes.set(quiz.stepId, quiz);
+      return ok(quiz);
+    }),
+    get: vi.fn(async (stepId: StepId): AsyncAppResult<StepQuiz | null> => {
+      return ok(quizzes.get(stepId) ?? null);
+    }),
+    delete: vi.fn(async (stepId: StepId): AsyncAppResult<boolean> => {
+      return ok(quizzes.delete(stepId));
+    }),
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// GRADER
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('Quiz grader', () => {
+  it('normalizes short answers', () => {
+    expect(normalizeAnswer('  The Object. ')).toBe('object');
+    expect(normalizeAnswer('"Hello   World"')).toBe('hello world');
+  });
+
+  it('normalizes program output', () => {
+    expect(normalizeOutput('3  \r\na\n\n')).toBe('3\na');
+  });
+
+  it('grades each question type', () => {
+    const [mc, sa, code] = QUESTIONS as [QuizQuestion, QuizQuestion, QuizQuestion];
+
+    expect(gradeQuestion(mc, { questionId: 'q1', response: 2 }).correct).toBe(true);
+    expect(gradeQuestion(mc, { questionId: 'q1', response: '2' }).correct).toBe(false);
+    expect(gradeQuestion(sa, { questionId: 'q2', response: 'An Object' }).correct).toBe(true);
+    expect(gradeQuestion(sa, { questionId: 'q2', response: '' }).answered).toBe(false);
+    expect(gradeQuestion(code, { questionId: 'q3', response: '3\na\n' }).correct).toBe(true);
+    expect(gradeQuestion(code, { questionId: 'q3', response: '3' }).correct).toBe(false);
+  });
+
+  it('counts missing answers as incorrect', () => {
+    const result = gradeQuiz(QUESTIONS, [{ questionId: 'q1', response: 2 }]);
+
+    expect(result.correctCount).toBe(1);
+    expect(result.score).toBe(33);
+    expect(result.results.map(r => r.answered)).toEqual([true, false, false]);
+  });
+
+  it('maps scores to difficulty ratings', () => {
+    expect(difficultyFromScore(100)).toBe(1);
+    expect(difficultyFromScore(80)).toBe(2);
+    expect(difficultyFromScore(60)).toBe(3);
+    expect(difficultyFromScore(40)).toBe(4);
+    expect(difficultyFromScore(0)).toBe(5);
+  });
+
+  it('strips answers from public questions', () => {
+    const publicQuestions = QUESTIONS.map(toPublicQuestion);
+
+    for (const question of publicQuestions) {
+      expect(question).not.toHaveProperty('correctChoice');
+      expect(question).not.toHaveProperty('acceptedAnswers');
+      expect(question).not.toHaveProperty('expectedOutput');
+      expect(question).not.toHaveProperty('explanation');
+    }
+    expect(publicQuestions[0]).toHaveProperty('choices');
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// GENERATOR
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('parseQuizResponse', () => {
+  it('parses questions and assigns sequential IDs', () => {
+    const result = parseQuizResponse(createRawQuizJson(), []);
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.questions.map(q => q.id)).toEqual(['q1', 'q2', 'q3']);
+      expect(result.value.dropped).toBe(0);
+    }
+  });
+
+  it('drops invalid and hallucinated questions', () => {
+    const result = parseQuizResponse(createRawQuizJson([
+      { type: 'multiple_choice', prompt: 'Pick one', choices: ['a', 'b'], correctChoice: 5 },
+      { type: 'short_answer', prompt: 'See https://made-up.example.com/docs for details', acceptedAnswers: ['x'] },
+      { type: 'short_answer', prompt: 'What is covered in chapter 7?', acceptedAnswers: ['loops'] },
+    ]), []);
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.questions).toHaveLength(3);
+      expect(result.value.dropped).toBe(3);
+    }
+  });
+
+  it('rejects non-JSON output', () => {
+    expect(parseQuizResponse('no quiz here', []).ok).toBe(false);
+  });
+});
+
+describe('QuizGenerator', () => {
+  afterEach(() => {
+    resetSecureLLMClient();
+  });
+
+  it('reports an unavailable LLM client', async () => {
+    resetSecureLLMClient();
+    const result = await new QuizGenerator().generateQuiz(createTestStep(), 'user-1');
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe(QuizErrorCode.LLM_UNAVAILABLE);
+    }
+  });
+
+  it('generates questions through the curriculum LLM client', async () => {
+    const execute = vi.fn(async () => ({
+      content: createRawQuizJson(),
+      finishReason: 'stop' as const,
+      usage: { promptTokens: 100, completionTokens: 200, totalTokens: 300 },
+      model: 'mock-model',
+    }));
+    initSecureLLMClient({ provider: 'mock', execute });
+
+    const result = await new QuizGenerator().generateQuiz(createTestStep(), 'user-1');
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.questions).toHaveLength(3);
+      expect(result.value.model).toBe('mock-model');
+    }
+    expect(execute).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails when too few questions survive', async () => {
+    const execute = vi.fn(async () => ({
+      content: JSON.stringify({ questions: [{ type: 'short_answer', prompt: 'Q?', acceptedAnswers: ['a'] }] }),
+      finishReason: 'stop' as const,
+      usage: { promptTokens: 100, completionTokens: 20, totalTokens: 120 },
+      model: 'mock-model',
+    }));
+    initSecureLLMClient({ provider: 'mock', execute });
+
+    const result = await new QuizGenerator({ maxRetries: 1 }).generateQuiz(createTestStep(), 'user-1');
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe(QuizErrorCode.GENERATION_FAILED);
+    }
+    expect(execute).toHaveBeenCalledTimes(2);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SERVICE
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('QuizService', () => {
+  let userId: UserId;
+  let step: Step;
+  let quizStore: ReturnType<typeof createMockQuizStore>;
+  let generator: IQuizGenerator;
+  let engine: ISparkEngine;
+  let service: QuizService;
+
+  beforeEach(() => {
+    userId = createUserId();
+    const goal = { id: createGoalId(), userId } as Goal;
+    const quest = { id: createQuestId(), goalId: goal.id } as Quest;
+    step = createTestStep(quest.id);
+
+    const store = {
+      getStep: vi.fn(async (id: StepId) => ok(id === step.id ? step : null)),
+      getQuest: vi.fn(async () => ok(quest)),
+      getGoal: vi.fn(async () => ok(goal)),
+    } as unknown as ISparkEngineStore;
+
+    engine = {
+      recordQuizResult: vi.fn(async (_id: StepId, score: number, passed: boolean) =>
+        ok({ ...step, quizScore: score, status: passed ? 'completed' : step.status } as Step)),
+    } as unknown as ISparkEngine;
+
+    generator = {
+      generateQuiz: vi.fn(async () => ok({
+        questions: QUESTIONS,
+        model: 'mock-model',
+        requestId: 'req-1',
+        droppedQuestions: 0,
+      })),
+    };
+
+    quizStore = createMockQuizStore();
+    service = new QuizService(store, engine, quizStore, generator);
+  });
+
+  it('generates the quiz once and serves it without answers', async () => {
+    const first = await service.getQuiz(step.id, userId);
+    const second = await service.getQuiz(step.id, userId);
+
+    expect(first.ok && second.ok).toBe(true);
+    if (first.ok) {
+      expect(first.value.questions).toHaveLength(3);
+      expect(first.value.questions[0]).not.toHaveProperty('correctChoice');
+      expect(first.value.bestScore).toBeNull();
+    }
+    expect(generator.generateQuiz).toHaveBeenCalledTimes(1);
+  });
+
+  it('hides steps owned by other users', async () => {
+    const result = await service.getQuiz(step.id, createUserId());
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe(QuizErrorCode.STEP_NOT_FOUND);
+    }
+    expect(generator.generateQuiz).not.toHaveBeenCalled();
+  });
+
+  it('requires a quiz before accepting attempts', async () => {
+    const result = await service.submitAttempt(step.id, userId, []);
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe(QuizErrorCode.QUIZ_NOT_FOUND);
+    }
+  });
+
+  it('grades attempts and feeds the score to the engine', async () => {
+    await service.getQuiz(step.id, userId);
+
+    const result = await service.submitAttempt(step.id, userId, [
+      { questionId: 'q1', response: 2 },
+      { questionId: 'q2', response: 'object' },
+      { questionId: 'q3', response: '3\na' },
+    ]);
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.attempt.score).toBe(100);
+      expect(result.value.attempt.passed).toBe(true);
+      expect(result.value.step.status).toBe('completed');
+    }
+    expect(engine.recordQuizResult).toHaveBeenCalledWith(step.id, 100, true);
+    expect(quizStore.quizzes.get(step.id)?.bestScore).toBe(100);
+  });
+
+  it('keeps the best score across attempts', async () => {
+    await service.getQuiz(step.id, userId);
+    await service.submitAttempt(step.id, userId, [{ questionId: 'q1', response: 2 }]);
+    await service.submitAttempt(step.id, userId, [{ questionId: 'q1', response: 0 }]);
+
+    const attempts = await service.getAttempts(step.id, userId);
+
+    expect(attempts.ok).toBe(true);
+    if (attempts.ok) {
+      expect(attempts.value.map(a => a.score)).toEqual([33, 0]);
+    }
+    expect(quizStore.quizzes.get(step.id)?.bestScore).toBe(33);
+    expect(engine.recordQuizResult).toHaveBeenLastCalledWith(step.id, 0, false);
+  });
+
+  it('withholds correct answers until the quiz is passed', async () => {
+    await service.getQuiz(step.id, userId);
+
+    const failed = await service.submitAttempt(step.id, userId, [{ questionId: 'q1', response: 0 }]);
+    const view = await service.getQuiz(step.id, userId);
+    const history = await service.getAttempts(step.id, userId);
+
+    expect(failed.ok && view.ok && history.ok).toBe(true);
+    if (failed.ok && view.ok && history.ok) {
+      for (const attempt of [failed.value.attempt, view.value.lastAttempt!, history.value[0]!]) {
+        expect(attempt.results[0]).toEqual({ questionId: 'q1', correct: false, answered: true });
+      }
+    }
+    expect(quizStore.quizzes.get(step.id)?.attempts[0]?.results[0]?.expected).toBe(2);
+
+    const passed = await service.submitAttempt(step.id, userId, [
+      { questionId: 'q1', response: 2 },
+      { questionId: 'q2', response: 'object' },
+      { questionId: 'q3', response: '3\na' },
+    ]);
+    const after = await service.getAttempts(step.id, userId);
+
+    expect(passed.ok && after.ok).toBe(true);
+    if (passed.ok && after.ok) {
+      expect(passed.value.attempt.results[0]?.expected).toBe(2);
+      expect(after.value[0]?.results[0]?.expected).toBe(2);
+    }
+  });
+
+  it('rejects answers to unknown questions or of the wrong kind', async () => {
+    await service.getQuiz(step.id, userId);
+
+    const unknown = await service.submitAttempt(step.id, userId, [{ questionId: 'q9', response: 1 }]);
+    const wrongKind = await service.submitAttempt(step.id, userId, [{ questionId: 'q2', response: 1 }]);
+
+    expect(unknown.ok).toBe(false);
+    expect(wrongKind.ok).toBe(false);
+    if (!wrongKind.ok) {
+      expect(wrongKind.error.code).toBe(QuizErrorCode.INVALID_ANSWERS);
+    }
+    expect(engine.recordQuizResult).not.toHaveBeenCalled();
+  });
+
+  it('keeps attempts when regenerating questions', async () => {
+    await service.getQuiz(step.id, userId);
+    await service.submitAttempt(step.id, userId, [{ questionId: 'q1', response: 2 }]);
+
+    const result = await service.getQuiz(step.id, userId, { regenerate: true });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.attemptCount).toBe(1);
+      expect(result.value.bestScore).toBe(33);
+    }
+    expect(generator.generateQuiz).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,331 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// QUIZ GENERATOR — LLM-Authored Knowledge Checks
+// NovaOS Spark Engine — Quiz Activities
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Generates a question bank for a step:
+//   1. Build prompt from the step's objective, theme and activities
+//   2. Call the secure curriculum LLM client
+//   3. Validate each question against its schema
+//   4. Drop questions flagged by the hallucination detector
+//   5. Retry if too few questions survive
+//
+// INVARIANT: Questions must not cite URLs, chapters or statistics that don't
+//            come from the step's verified resources.
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type { Result, AsyncAppResult } from '../../../types/result.js';
+import { ok, err } from '../../../types/result.js';
+import { getLogger } from '../../../observability/logging/index.js';
+import { incCounter, observeHistogram } from '../../../observability/metrics/index.js';
+import { runWithBudget } from '../../../usage/index.js';
+
+import type { Step } from '../types.js';
+import {
+  getSecureLLMClient,
+  createLLMRequest,
+  type SecureLLMClient,
+  type ResourceInput,
+} from '../curriculum/llm/index.js';
+import { extractJson } from '../curriculum/structurer.js';
+import {
+  detectTextHallucinations,
+  type TextLocation,
+} from '../curriculum/hallucination-detector.js';
+
+import { RawQuizOutputSchema, RawQuizQuestionSchema, type RawQuizQuestion } from './schemas.js';
+import type { QuizQuestion, QuizConfig, GeneratedQuiz } from './types.js';
+import { DEFAULT_QUIZ_CONFIG, QuizErrorCode } from './types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// LOGGER
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const logger = getLogger({ component: 'quiz-generator' });
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// INTERFACE
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Generates quiz questions for steps.
+ */
+export interface IQuizGenerator {
+  /**
+   * Generate a question bank for a step.
+   *
+   * @param step - The step to quiz on
+   * @param userId - Requesting user (for LLM auditing)
+   */
+  generateQuiz(step: Step, userId: string): AsyncAppResult<GeneratedQuiz>;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SYSTEM PROMPT
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const QUIZ_SYSTEM_PROMPT = `You write short knowledge-check quizzes for a single day of a learning plan.
+
+CRITICAL RULES:
+1. Only ask about concepts named in the day's objective, theme and activities.
+2. Never include URLs, links, chapter numbers, page numbers, timestamps or statistics.
+3. Never refer to "the video", "the article" or any specific resource content you have not been shown.
+4. Each question must have exactly one correct answer.
+5. Code in code_output questions must be deterministic and print the same output on every run.
+
+OUTPUT FORMAT:
+You must respond with valid JSON only. No markdown, no explanations, no additional text.
+
+JSON SCHEMA:
+{
+  "questions": [
+    {"type": "multiple_choice", "prompt": "string", "choices": ["string"], "correctChoice": 0, "explanation": "string"},
+    {"type": "short_answer", "prompt": "string", "acceptedAnswers": ["string"], "explanation": "string"},
+    {"type": "code_output", "prompt": "string", "code": "string", "language": "string", "expectedOutput": "string", "explanation": "string"}
+  ]
+}
+
+QUESTION TYPES:
+- multiple_choice: 3-5 distinct choices, correctChoice is the 0-based index
+- short_answer: answers of 1-3 words; list common equivalent spellings in acceptedAnswers
+- code_output: a snippet of at most 15 lines; expectedOutput is exactly what it prints`;
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// PROMPT BUILDER
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Build user prompt for a step.
+ */
+function buildQuizPrompt(step: Step, questionCount: number): string {
+  const activityLines = (step.activities ?? [])
+    .filter(a => a.type !== 'quiz')
+    .map(a => `- ${a.type}${a.section ? ` (${a.section})` : ''}${a.task ? `: ${a.task}` : ''}`)
+    .join('\n');
+
+  return `Write a ${questionCount}-question quiz for this lesson:
+
+LESSON: ${step.title}
+${step.objective ? `OBJECTIVE: ${step.objective}\n` : ''}${step.theme ? `THEME: ${step.theme}\n` : ''}${step.description ? `DESCRIPTION: ${step.description}\n` : ''}
+${activityLines ? `ACTIVITIES:\n${activityLines}\n` : ''}
+Use a mix of question types. Include code_output questions only if the lesson involves programming.
+Respond with valid JSON only, no other text`;
+}
+
+/**
+ * Convert step resources to sanitizer input format.
+ */
+function toResourceInputs(step: Step): ResourceInput[] {
+  return (step.resources ?? []).map(resource => ({
+    title: resource.title,
+    description: '',
+    provider: resource.type,
+    estimatedMinutes: 0,
+    difficulty: 'intermediate',
+    topics: [],
+  }));
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// RESPONSE PARSING
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Collect a question's generated text for hallucination checks.
+ */
+function questionTextLocations(question: RawQuizQuestion, path: string): TextLocation[] {
+  const locations: TextLocation[] = [{ text: question.prompt, path: `${path}.prompt` }];
+
+  if (question.explanation) {
+    locations.push({ text: question.explanation, path: `${path}.explanation` });
+  }
+
+  switch (question.type) {
+    case 'multiple_choice':
+      question.choices.forEach((choice, i) => {
+        locations.push({ text: choice, path: `${path}.choices[${i}]` });
+      });
+      break;
+    case 'short_answer':
+      break;
+    case 'code_output':
+      locations.push({ text: question.code, path: `${path}.code` });
+      break;
+  }
+
+  return locations;
+}
+
+/**
+ * Parse LLM output into questions.
+ *
+ * Invalid questions and questions with any detected hallucination are dropped;
+ * the rest are numbered q1..qN in order.
+ */
+function parseQuizResponse(
+  text: string,
+  verifiedUrls: readonly string[]
+): Result<{ questions: QuizQuestion[]; dropped: number }, string> {
+  const jsonResult = extractJson(text);
+  if (!jsonResult.ok) {
+    return err(jsonResult.error);
+  }
+
+  const rawResult = RawQuizOutputSchema.safeParse(jsonResult.value);
+  if (!rawResult.success) {
+    const issues = rawResult.error.errors.map(e => `${e.path.join('.')}: ${e.message}`);
+    return err(`Schema validation failed: ${issues.join('; ')}`);
+  }
+
+  const questions: QuizQuestion[] = [];
+  let dropped = 0;
+
+  rawResult.data.questions.forEach((candidate, i) => {
+    const parsed = RawQuizQuestionSchema.safeParse(candidate);
+    if (!parsed.success) {
+      dropped++;
+      return;
+    }
+
+    const detection = detectTextHallucinations(
+      questionTextLocations(parsed.data, `questions[${i}]`),
+      verifiedUrls
+    );
+    if (detection.hasHallucinations) {
+      dropped++;
+      return;
+    }
+
+    questions.push({ ...parsed.data, id: `q${questions.length + 1}` });
+  });
+
+  return ok({ questions, dropped });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// QUIZ GENERATOR
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * LLM-backed quiz generator.
+ *
+ * The LLM client is resolved per call, so the generator can be created
+ * before the curriculum LLM client is initialized.
+ */
+export class QuizGenerator implements IQuizGenerator {
+  private readonly config: QuizConfig;
+
+  constructor(config: Partial<QuizConfig> = {}) {
+    this.config = { ...DEFAULT_QUIZ_CONFIG, ...config };
+  }
+
+  async generateQuiz(step: Step, userId: string): AsyncAppResult<GeneratedQuiz> {
+    return runWithBudget(userId, 'quiz_generation', () => this.requestQuiz(step, userId));
+  }
+
+  private async requestQuiz(step: Step, userId: string): AsyncAppResult<GeneratedQuiz> {
+    const { questionCount, minQuestions, maxRetries, temperature } = this.config;
+    const startTime = Date.now();
+
+    let client: SecureLLMClient;
+    try {
+      client = getSecureLLMClient();
+    } catch {
+      return err({
+        code: QuizErrorCode.LLM_UNAVAILABLE,
+        message: 'Curriculum LLM client not initialized',
+      });
+    }
+
+    const userPrompt = buildQuizPrompt(step, questionCount);
+    const resourceInputs = toResourceInputs(step);
+    const verifiedUrls = (step.resources ?? []).map(r => r.url);
+
+    let lastError: string | undefined;
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      const llmRequest = createLLMRequest()
+        .setPurpose('quiz_generation')
+        .setSystemPrompt(QUIZ_SYSTEM_PROMPT)
+        .setUserPrompt(userPrompt)
+        .setResources(resourceInputs)
+        .setTemperature(temperature)
+        .setUserId(userId)
+        .build();
+
+      const response = await client.execute<string>(llmRequest);
+
+      if (!response.ok) {
+        lastError = response.error?.message ?? 'LLM request failed';
+        logger.warn('Quiz LLM request failed', {
+          stepId: step.id,
+          attempt,
+          errorCode: response.error?.code,
+        });
+
+        if (response.error?.code === 'SANITIZATION_BLOCKED' ||
+            response.error?.code === 'TOKEN_LIMIT_EXCEEDED') {
+          break;
+        }
+        continue;
+      }
+
+      const parseResult = parseQuizResponse(response.rawContent ?? '', verifiedUrls);
+      if (!parseResult.ok) {
+        lastError = parseResult.error;
+        logger.warn('Quiz response parsing failed', { stepId: step.id, attempt, error: lastError });
+        continue;
+      }
+
+      const { questions, dropped } = parseResult.value;
+      if (questions.length < minQuestions) {
+        lastError = `Only ${questions.length} usable questions (${dropped} dropped)`;
+        logger.warn('Too few usable quiz questions', { stepId: step.id, attempt, dropped });
+        continue;
+      }
+
+      const durationMs = Date.now() - startTime;
+      logger.info('Quiz generated', {
+        stepId: step.id,
+        questions: questions.length,
+        dropped,
+        durationMs,
+      });
+      incCounter('quiz_generation_total', { result: 'success' });
+      observeHistogram('quiz_generation_duration_ms', durationMs);
+
+      return ok({
+        questions: questions.slice(0, questionCount),
+        model: response.metrics.model,
+        requestId: response.audit.requestId,
+        droppedQuestions: dropped,
+      });
+    }
+
+    logger.error('Quiz generation failed after retries', undefined, { stepId: step.id, error: lastError });
+    incCounter('quiz_generation_total', { result: 'error' });
+
+    return err({
+      code: QuizErrorCode.GENERATION_FAILED,
+      message: lastError ?? 'Quiz generation failed',
+    });
+  }
+}
+
+/**
+ * Create a QuizGenerator.
+ */
+export function createQuizGenerator(config?: Partial<QuizConfig>): QuizGenerator {
+  return new QuizGenerator(config);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// EXPORTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export {
+  QUIZ_SYSTEM_PROMPT,
+  buildQuizPrompt,
+  parseQuizResponse,
+};
@@ -0,0 +1,166 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// QUIZ GRADER — Deterministic Answer Checking
+// NovaOS Spark Engine — Quiz Activities
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Grades quiz attempts without calling the LLM:
+//   - multiple_choice: chosen index must equal the correct index
+//   - short_answer: normalized text must equal an accepted answer
+//   - code_output: output must match line by line (trailing whitespace ignored)
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type { DifficultyRating } from '../types.js';
+import type {
+  QuizQuestion,
+  QuizAnswer,
+  QuestionResult,
+  QuizAttempt,
+  PublicQuizQuestion,
+} from './types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// NORMALIZATION
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Normalize a short answer for comparison.
+ * Case, surrounding punctuation, articles and repeated whitespace are ignored.
+ */
+export function normalizeAnswer(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[`'"]/g, '')
+    .replace(/^[\s.,;:!?()]+|[\s.,;:!?()]+$/g, '')
+    .replace(/^(a|an|the)\s+/, '')
+    .replace(/\s+/g, ' ');
+}
+
+/**
+ * Normalize program output for comparison.
+ * Line endings and trailing whitespace (per line and at the end) are ignored.
+ */
+export function normalizeOutput(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n')
+    .replace(/\n+$/, '');
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// GRADING
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Grade a single question. A missing answer is incorrect.
+ */
+export function gradeQuestion(
+  question: QuizQuestion,
+  answer: QuizAnswer | undefined
+): QuestionResult {
+  const response = answer?.response;
+  let correct = false;
+  let expected: number | string;
+
+  switch (question.type) {
+    case 'multiple_choice':
+      expected = question.correctChoice;
+      correct = typeof response === 'number' && response === question.correctChoice;
+      break;
+
+    case 'short_answer': {
+      expected = question.acceptedAnswers[0]!;
+      if (typeof response === 'string') {
+        const normalized = normalizeAnswer(response);
+        correct = normalized.length > 0 &&
+          question.acceptedAnswers.some(a => normalizeAnswer(a) === normalized);
+      }
+      break;
+    }
+
+    case 'code_output':
+      expected = question.expectedOutput;
+      correct = typeof response === 'string' &&
+        normalizeOutput(response) === normalizeOutput(question.expectedOutput);
+      break;
+  }
+
+  return {
+    questionId: question.id,
+    correct,
+    answered: response !== undefined && response !== '',
+    expected,
+    explanation: question.explanation,
+  };
+}
+
+/**
+ * Grade a full attempt.
+ *
+ * @returns Per-question results in question order and a 0-100 score
+ */
+export function gradeQuiz(
+  questions: readonly QuizQuestion[],
+  answers: readonly QuizAnswer[]
+): { results: QuestionResult[]; correctCount: number; score: number } {
+  const answersById = new Map(answers.map(a => [a.questionId, a]));
+  const results = questions.map(q => gradeQuestion(q, answersById.get(q.id)));
+  const correctCount = results.filter(r => r.correct).length;
+  const score = questions.length > 0
+    ? Math.round((correctCount / questions.length) * 100)
+    : 0;
+
+  return { results, correctCount, score };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// DIFFICULTY
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Derive a difficulty rating (1=easy, 5=very hard) from a quiz score.
+ */
+export function difficultyFromScore(score: number): DifficultyRating {
+  if (score >= 90) return 1;
+  if (score >= 75) return 2;
+  if (score >= 60) return 3;
+  if (score >= 40) return 4;
+  return 5;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// PRESENTATION
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Strip answers and explanations from a question before showing it.
+ */
+export function toPublicQuestion(question: QuizQuestion): PublicQuizQuestion {
+  switch (question.type) {
+    case 'multiple_choice': {
+      const { correctChoice: _c, explanation: _e, ...rest } = question;
+      return rest;
+    }
+    case 'short_answer': {
+      const { acceptedAnswers: _a, explanation: _e, ...rest } = question;
+      return rest;
+    }
+    case 'code_output': {
+      const { expectedOutput: _o, explanation: _e, ...rest } = question;
+      return rest;
+    }
+  }
+}
+
+/**
+ * Strip correct answers and explanations from an attempt's results, so a
+ * failed attempt cannot simply be resubmitted with the answers it showed.
+ */
+export function withoutAnswers(attempt: QuizAttempt): QuizAttempt {
+  return {
+    ...attempt,
+    results: attempt.results.map(({ expected: _e, explanation: _x, ...rest }) => rest),
+  };
+}
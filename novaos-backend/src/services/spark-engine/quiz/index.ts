@@ -0,0 +1,69 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// QUIZ MODULE — Public API Exports
+// NovaOS Spark Engine — Quiz Activities
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// This module exports the step quiz public API:
+//   - QuizService: delivery, submission and step feedback
+//   - QuizGenerator: LLM-authored question banks
+//   - Grading utilities
+//
+// Usage:
+//   import { createQuizService, createQuizGenerator } from './quiz';
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SERVICE & GENERATOR
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export { QuizService, createQuizService } from './service.js';
+
+export {
+  QuizGenerator,
+  createQuizGenerator,
+  type IQuizGenerator,
+} from './generator.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export type {
+  QuizQuestionType,
+  MultipleChoiceQuestion,
+  ShortAnswerQuestion,
+  CodeOutputQuestion,
+  QuizQuestion,
+  PublicQuizQuestion,
+  QuizAnswer,
+  QuestionResult,
+  QuizAttempt,
+  StepQuiz,
+  QuizView,
+  QuizSubmissionResult,
+  GeneratedQuiz,
+  QuizConfig,
+} from './types.js';
+
+export {
+  QUIZ_QUESTION_TYPES,
+  DEFAULT_QUIZ_CONFIG,
+  QuizErrorCode,
+} from './types.js';
+
+export { QUIZ_CONSTRAINTS } from './schemas.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// GRADING
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export {
+  gradeQuestion,
+  gradeQuiz,
+  normalizeAnswer,
+  normalizeOutput,
+  difficultyFromScore,
+  toPublicQuestion,
+  withoutAnswers,
+} from './grader.js';
@@ -0,0 +1,112 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// QUIZ SCHEMAS — Zod Validation for Generated Questions
+// NovaOS Spark Engine — Quiz Activities
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Validation schemas for LLM-generated quiz questions:
+//   - ASCII printable only, maximum lengths enforced (as for curriculum output)
+//   - Multiple-choice answers must index into the choices
+//   - Every question carries what is needed to grade it
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { z } from 'zod';
+import { isAsciiPrintable } from '../curriculum/schemas.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONSTRAINTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Limits on generated questions.
+ */
+export const QUIZ_CONSTRAINTS = {
+  MAX_QUESTIONS: 10,
+  MAX_PROMPT_LENGTH: 500,
+  MAX_CHOICE_LENGTH: 200,
+  MIN_CHOICES: 2,
+  MAX_CHOICES: 6,
+  MAX_ACCEPTED_ANSWERS: 5,
+  MAX_ANSWER_LENGTH: 100,
+  MAX_CODE_LENGTH: 1500,
+  MAX_OUTPUT_LENGTH: 500,
+  MAX_EXPLANATION_LENGTH: 500,
+} as const;
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// HELPERS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Non-empty ASCII string with a maximum length.
+ */
+function asciiText(maxLength: number) {
+  return z
+    .string()
+    .trim()
+    .min(1, 'Cannot be empty')
+    .max(maxLength, `Maximum ${maxLength} characters`)
+    .refine(isAsciiPrintable, {
+      message: 'Must contain only ASCII printable characters',
+    });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// QUESTION SCHEMAS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const QuestionBaseSchema = z.object({
+  prompt: asciiText(QUIZ_CONSTRAINTS.MAX_PROMPT_LENGTH),
+  explanation: asciiText(QUIZ_CONSTRAINTS.MAX_EXPLANATION_LENGTH).optional(),
+});
+
+export const MultipleChoiceQuestionSchema = QuestionBaseSchema.extend({
+  type: z.literal('multiple_choice'),
+  choices: z
+    .array(asciiText(QUIZ_CONSTRAINTS.MAX_CHOICE_LENGTH))
+    .min(QUIZ_CONSTRAINTS.MIN_CHOICES)
+    .max(QUIZ_CONSTRAINTS.MAX_CHOICES),
+  correctChoice: z.number().int().min(0),
+}).refine(q => q.correctChoice < q.choices.length, {
+  message: 'correctChoice must index into choices',
+  path: ['correctChoice'],
+}).refine(q => new Set(q.choices.map(c => c.toLowerCase())).size === q.choices.length, {
+  message: 'Choices must be distinct',
+  path: ['choices'],
+});
+
+export const ShortAnswerQuestionSchema = QuestionBaseSchema.extend({
+  type: z.literal('short_answer'),
+  acceptedAnswers: z
+    .array(asciiText(QUIZ_CONSTRAINTS.MAX_ANSWER_LENGTH))
+    .min(1)
+    .max(QUIZ_CONSTRAINTS.MAX_ACCEPTED_ANSWERS),
+});
+
+export const CodeOutputQuestionSchema = QuestionBaseSchema.extend({
+  type: z.literal('code_output'),
+  code: asciiText(QUIZ_CONSTRAINTS.MAX_CODE_LENGTH),
+  language: z.string().trim().min(1).max(30).regex(/^[a-zA-Z0-9+#.-]+$/),
+  expectedOutput: asciiText(QUIZ_CONSTRAINTS.MAX_OUTPUT_LENGTH),
+});
+
+/**
+ * A single generated question (any type).
+ */
+export const RawQuizQuestionSchema = z.union([
+  MultipleChoiceQuestionSchema,
+  ShortAnswerQuestionSchema,
+  CodeOutputQuestionSchema,
+]);
+
+/**
+ * Raw LLM output.
+ * Individual questions are validated separately so one bad question
+ * doesn't discard the rest.
+ */
+export const RawQuizOutputSchema = z.object({
+  questions: z.array(z.unknown()).min(1).max(QUIZ_CONSTRAINTS.MAX_QUESTIONS),
+});
+
+export type RawQuizQuestion = z.infer<typeof RawQuizQuestionSchema>;
+export type RawQuizOutput = z.infer<typeof RawQuizOutputSchema>;
@@ -0,0 +1,350 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// QUIZ SERVICE — Delivery, Submission & Step Feedback
+// NovaOS Spark Engine — Quiz Activities
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Orchestrates step quizzes:
+//   - Generates the question bank on first request and stores it
+//   - Serves questions with answers stripped
+//   - Grades submissions and keeps the attempt history
+//   - Withholds correct answers until the learner has passed
+//   - Feeds scores back to the SparkEngine (completion, difficulty)
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { ok, err, isOk } from '../../../types/result.js';
+import type { AsyncAppResult } from '../../../types/result.js';
+import { createTimestamp, type StepId, type UserId } from '../../../types/branded.js';
+import { getLogger } from '../../../observability/logging/index.js';
+
+import type { Step } from '../types.js';
+import type { ISparkEngine, ISparkEngineStore } from '../interfaces.js';
+import type { IQuizStore } from '../store/types.js';
+import type { IQuizGenerator } from './generator.js';
+import { gradeQuiz, toPublicQuestion, withoutAnswers } from './grader.js';
+import { QUIZ_CONSTRAINTS } from './schemas.js';
+import type {
+  StepQuiz,
+  QuizAnswer,
+  QuizAttempt,
+  QuizView,
+  QuizSubmissionResult,
+  QuizConfig,
+} from './types.js';
+import { DEFAULT_QUIZ_CONFIG, QuizErrorCode } from './types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// LOGGER
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const logger = getLogger({ component: 'quiz-service' });
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// HELPERS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Generate unique attempt ID.
+ */
+function generateAttemptId(): string {
+  const timestamp = Date.now().toString(36);
+  const random = Math.random().toString(36).slice(2, 8);
+  return `attempt-${timestamp}-${random}`;
+}
+
+/**
+ * Check submitted answers against the quiz.
+ *
+ * @returns Error message, or undefined if valid
+ */
+function validateAnswers(quiz: StepQuiz, answers: readonly QuizAnswer[]): string | undefined {
+  const questions = new Map(quiz.questions.map(q => [q.id, q]));
+  const seen = new Set<string>();
+
+  for (const answer of answers) {
+    const question = questions.get(answer.questionId);
+    if (!question) {
+      return `Unknown question: ${answer.questionId}`;
+    }
+    if (seen.has(answer.questionId)) {
+      return `Duplicate answer for question: ${answer.questionId}`;
+    }
+    seen.add(answer.questionId);
+
+    if (question.type === 'multiple_choice') {
+      if (typeof answer.response !== 'number' || !Number.isInteger(answer.response)) {
+        return `Answer to ${answer.questionId} must be a choice index`;
+      }
+    } else if (typeof answer.response !== 'string') {
+      return `Answer to ${answer.questionId} must be text`;
+    } else if (answer.response.length > QUIZ_CONSTRAINTS.MAX_OUTPUT_LENGTH) {
+      return `Answer to ${answer.questionId} is too long`;
+    }
+  }
+
+  return undefined;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// QUIZ SERVICE
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Step quiz orchestration.
+ */
+export class QuizService {
+  private readonly config: QuizConfig;
+
+  constructor(
+    private readonly store: ISparkEngineStore,
+    private readonly engine: ISparkEngine,
+    private readonly quizStore: IQuizStore,
+    private readonly generator: IQuizGenerator,
+    config: Partial<QuizConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_QUIZ_CONFIG, ...config };
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Delivery
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Get the quiz for a step, generating it on first request.
+   *
+   * @param options.regenerate - Replace the existing questions (attempts are kept)
+   */
+  async getQuiz(
+    stepId: StepId,
+    userId: UserId,
+    options: { regenerate?: boolean } = {}
+  ): AsyncAppResult<QuizView> {
+    const stepResult = await this.getOwnedStep(stepId, userId);
+    if (!isOk(stepResult)) {
+      return stepResult;
+    }
+
+    const existingResult = await this.quizStore.get(stepId);
+    if (!isOk(existingResult)) {
+      return existingResult;
+    }
+
+    let quiz = existingResult.value;
+
+    if (!quiz || options.regenerate) {
+      const generated = await this.generator.generateQuiz(stepResult.value, userId);
+      if (!isOk(generated)) {
+        return generated;
+      }
+
+      const now = createTimestamp();
+      const saveResult = await this.quizStore.save({
+        stepId,
+        questions: generated.value.questions,
+        generation: {
+          model: generated.value.model,
+          requestId: generated.value.requestId,
+          generatedAt: now,
+          droppedQuestions: generated.value.droppedQuestions,
+        },
+        attempts: quiz?.attempts ?? [],
+        bestScore: quiz?.bestScore,
+        createdAt: quiz?.createdAt ?? now,
+        updatedAt: now,
+      });
+      if (!isOk(saveResult)) {
+        return saveResult;
+      }
+
+      quiz = saveResult.value;
+      logger.info('Quiz created for step', {
+        stepId,
+        questions: quiz.questions.length,
+        regenerated: options.regenerate === true,
+      });
+    }
+
+    return ok(this.toView(quiz));
+  }
+
+  /**
+   * Get the attempt history for a step, oldest first.
+   */
+  async getAttempts(stepId: StepId, userId: UserId): AsyncAppResult<readonly QuizAttempt[]> {
+    const quizResult = await this.getOwnedQuiz(stepId, userId);
+    if (!isOk(quizResult)) {
+      return quizResult;
+    }
+
+    const quiz = quizResult.value;
+    return ok(quiz.attempts.map(attempt => this.presentAttempt(quiz, attempt)));
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Submission
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Grade and record an attempt, then update the step.
+   * Unanswered questions count as incorrect.
+   */
+  async submitAttempt(
+    stepId: StepId,
+    userId: UserId,
+    answers: readonly QuizAnswer[]
+  ): AsyncAppResult<QuizSubmissionResult> {
+    const quizResult = await this.getOwnedQuiz(stepId, userId);
+    if (!isOk(quizResult)) {
+      return quizResult;
+    }
+
+    const quiz = quizResult.value;
+
+    const validationError = validateAnswers(quiz, answers);
+    if (validationError) {
+      return err({
+        code: QuizErrorCode.INVALID_ANSWERS,
+        message: validationError,
+      });
+    }
+
+    const { results, correctCount, score } = gradeQuiz(quiz.questions, answers);
+    const now = createTimestamp();
+
+    const attempt: QuizAttempt = {
+      id: generateAttemptId(),
+      stepId,
+      answers,
+      results,
+      correctCount,
+      totalCount: quiz.questions.length,
+      score,
+      passed: score >= this.config.passingScore,
+      submittedAt: now,
+    };
+
+    const saveResult = await this.quizStore.save({
+      ...quiz,
+      attempts: [...quiz.attempts, attempt].slice(-this.config.maxStoredAttempts),
+      bestScore: Math.max(quiz.bestScore ?? 0, score),
+      updatedAt: now,
+    });
+    if (!isOk(saveResult)) {
+      return saveResult;
+    }
+
+    const stepResult = await this.engine.recordQuizResult(stepId, score, attempt.passed);
+    if (!isOk(stepResult)) {
+      return stepResult;
+    }
+
+    logger.info('Quiz attempt recorded', {
+      stepId,
+      score,
+      passed: attempt.passed,
+      attempt: saveResult.value.attempts.length,
+    });
+
+    return ok({ attempt: this.presentAttempt(saveResult.value, attempt), step: stepResult.value });
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Private Helpers
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Get a step, treating steps in other users' goals as missing.
+   */
+  private async getOwnedStep(stepId: StepId, userId: UserId): AsyncAppResult<Step> {
+    const notFound = err({
+      code: QuizErrorCode.STEP_NOT_FOUND,
+      message: `Step not found: ${stepId}`,
+    });
+
+    const stepResult = await this.store.getStep(stepId);
+    if (!isOk(stepResult)) {
+      return stepResult;
+    }
+    if (!stepResult.value) {
+      return notFound;
+    }
+
+    const questResult = await this.store.getQuest(stepResult.value.questId);
+    if (!isOk(questResult)) {
+      return questResult;
+    }
+    if (!questResult.value) {
+      return notFound;
+    }
+
+    const goalResult = await this.store.getGoal(questResult.value.goalId);
+    if (!isOk(goalResult)) {
+      return goalResult;
+    }
+    if (!goalResult.value || goalResult.value.userId !== userId) {
+      return notFound;
+    }
+
+    return ok(stepResult.value);
+  }
+
+  /**
+   * Get the stored quiz for an owned step.
+   */
+  private async getOwnedQuiz(stepId: StepId, userId: UserId): AsyncAppResult<StepQuiz> {
+    const stepResult = await this.getOwnedStep(stepId, userId);
+    if (!isOk(stepResult)) {
+      return stepResult;
+    }
+
+    const quizResult = await this.quizStore.get(stepId);
+    if (!isOk(quizResult)) {
+      return quizResult;
+    }
+    if (!quizResult.value) {
+      return err({
+        code: QuizErrorCode.QUIZ_NOT_FOUND,
+        message: `No quiz for step: ${stepId}`,
+      });
+    }
+
+    return ok(quizResult.value);
+  }
+
+  /**
+   * Build the learner-facing view of a quiz.
+   */
+  private toView(quiz: StepQuiz): QuizView {
+    const lastAttempt = quiz.attempts[quiz.attempts.length - 1];
+
+    return {
+      stepId: quiz.stepId,
+      questions: quiz.questions.map(toPublicQuestion),
+      passingScore: this.config.passingScore,
+      attemptCount: quiz.attempts.length,
+      bestScore: quiz.bestScore ?? null,
+      lastAttempt: lastAttempt ? this.presentAttempt(quiz, lastAttempt) : null,
+    };
+  }
+
+  /**
+   * An attempt as shown to the learner: answers are only revealed once the
+   * quiz has been passed, so they cannot be copied into the next attempt.
+   */
+  private presentAttempt(quiz: StepQuiz, attempt: QuizAttempt): QuizAttempt {
+    return (quiz.bestScore ?? 0) >= this.config.passingScore ? attempt : withoutAnswers(attempt);
+  }
+}
+
+/**
+ * Create a QuizService.
+ */
+export function createQuizService(
+  store: ISparkEngineStore,
+  engine: ISparkEngine,
+  quizStore: IQuizStore,
+  generator: IQuizGenerator,
+  config?: Partial<QuizConfig>
+): QuizService {
+  return new QuizService(store, engine, quizStore, generator, config);
+}
@@ -0,0 +1,312 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// QUIZ TYPES — Question Banks, Attempts & Grading
+// NovaOS Spark Engine — Quiz Activities
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// This module defines types for step quizzes:
+//   - QuizQuestion: Multiple-choice, short-answer and code-output questions
+//   - StepQuiz: The question bank for a step plus its attempt history
+//   - QuizAttempt: One graded submission
+//   - QuizView: What the learner sees (answers stripped)
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type { StepId, Timestamp } from '../../../types/branded.js';
+import type { Step } from '../types.js';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// QUESTIONS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Supported question types.
+ * - multiple_choice: Pick one of 2-6 choices
+ * - short_answer: Free text, matched against accepted answers
+ * - code_output: Predict what a snippet prints
+ */
+export type QuizQuestionType = 'multiple_choice' | 'short_answer' | 'code_output';
+
+/**
+ * All question types.
+ */
+export const QUIZ_QUESTION_TYPES: readonly QuizQuestionType[] = [
+  'multiple_choice',
+  'short_answer',
+  'code_output',
+];
+
+/**
+ * Fields shared by every question type.
+ */
+interface QuizQuestionBase {
+  /** Question identifier, unique within the quiz (e.g., "q1") */
+  readonly id: string;
+
+  /** Question type */
+  readonly type: QuizQuestionType;
+
+  /** The question text */
+  readonly prompt: string;
+
+  /** Why the answer is correct (shown after grading) */
+  readonly explanation?: string;
+}
+
+/**
+ * A multiple-choice question with a single correct choice.
+ */
+export interface MultipleChoiceQuestion extends QuizQuestionBase {
+  readonly type: 'multiple_choice';
+
+  /** Choices in display order */
+  readonly choices: readonly string[];
+
+  /** Index of the correct choice (0-based) */
+  readonly correctChoice: number;
+}
+
+/**
+ * A short free-text question.
+ * Answers are compared case- and punctuation-insensitively.
+ */
+export interface ShortAnswerQuestion extends QuizQuestionBase {
+  readonly type: 'short_answer';
+
+  /** Accepted answers (any match is correct) */
+  readonly acceptedAnswers: readonly string[];
+}
+
+/**
+ * A "what does this print" question.
+ * Output is compared line by line, ignoring trailing whitespace.
+ */
+export interface CodeOutputQuestion extends QuizQuestionBase {
+  readonly type: 'code_output';
+
+  /** Snippet to read */
+  readonly code: string;
+
+  /** Language for display (e.g., "python") */
+  readonly language: string;
+
+  /** Exact expected output */
+  readonly expectedOutput: string;
+}
+
+/**
+ * A quiz question.
+ */
+export type QuizQuestion =
+  | MultipleChoiceQuestion
+  | ShortAnswerQuestion
+  | CodeOutputQuestion;
+
+/**
+ * A question as shown to the learner (no answers).
+ */
+export type PublicQuizQuestion =
+  | Omit<MultipleChoiceQuestion, 'correctChoice' | 'explanation'>
+  | Omit<ShortAnswerQuestion, 'acceptedAnswers' | 'explanation'>
+  | Omit<CodeOutputQuestion, 'expectedOutput' | 'explanation'>;
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// ATTEMPTS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * A learner's answer to one question.
+ * Multiple-choice answers are the chosen index; others are text.
+ */
+export interface QuizAnswer {
+  readonly questionId: string;
+  readonly response: number | string;
+}
+
+/**
+ * Grading outcome for one question.
+ */
+export interface QuestionResult {
+  readonly questionId: string;
+
+  /** Whether the answer was correct */
+  readonly correct: boolean;
+
+  /** Whether the question was left unanswered */
+  readonly answered: boolean;
+
+  /** The correct answer, for review (withheld from learners until they pass) */
+  readonly expected?: number | string;
+
+  /** Why the answer is correct (withheld from learners until they pass) */
+  readonly explanation?: string;
+}
+
+/**
+ * One graded quiz submission.
+ */
+export interface QuizAttempt {
+  /** Attempt identifier */
+  readonly id: string;
+
+  /** Step the quiz belongs to */
+  readonly stepId: StepId;
+
+  /** Answers as submitted */
+  readonly answers: readonly QuizAnswer[];
+
+  /** Per-question results, in question order */
+  readonly results: readonly QuestionResult[];
+
+  /** Number of correct answers */
+  readonly correctCount: number;
+
+  /** Number of questions */
+  readonly totalCount: number;
+
+  /** Score (0-100) */
+  readonly score: number;
+
+  /** Whether the score met the passing score */
+  readonly passed: boolean;
+
+  /** Submission timestamp */
+  readonly submittedAt: Timestamp;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// QUESTION BANK
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * The question bank for a step, with its attempt history.
+ * Stored one per step.
+ */
+export interface StepQuiz {
+  /** Step the quiz belongs to */
+  readonly stepId: StepId;
+
+  /** Questions in display order */
+  readonly questions: readonly QuizQuestion[];
+
+  /** Generation metadata */
+  readonly generation: {
+    readonly model: string;
+    readonly requestId: string;
+    readonly generatedAt: Timestamp;
+    /** Questions dropped by the hallucination check */
+    readonly droppedQuestions: number;
+  };
+
+  /** Most recent attempts, oldest first */
+  readonly attempts: readonly QuizAttempt[];
+
+  /** Best score across all attempts (0-100) */
+  readonly bestScore?: number;
+
+  /** Creation timestamp */
+  readonly createdAt: Timestamp;
+
+  /** Last update timestamp */
+  readonly updatedAt: Timestamp;
+}
+
+/**
+ * A quiz as shown to the learner.
+ */
+export interface QuizView {
+  readonly stepId: StepId;
+  readonly questions: readonly PublicQuizQuestion[];
+  readonly passingScore: number;
+  readonly attemptCount: number;
+  readonly bestScore: number | null;
+  readonly lastAttempt: QuizAttempt | null;
+}
+
+/**
+ * Result of submitting an attempt.
+ */
+export interface QuizSubmissionResult {
+  readonly attempt: QuizAttempt;
+
+  /** The step after the score was recorded */
+  readonly step: Step;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// GENERATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Questions produced by a generator, before they are stored.
+ */
+export interface GeneratedQuiz {
+  readonly questions: readonly QuizQuestion[];
+  readonly model: string;
+  readonly requestId: string;
+  readonly droppedQuestions: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Quiz configuration.
+ */
+export interface QuizConfig {
+  /** Questions to request from the LLM */
+  readonly questionCount: number;
+
+  /** Fewest usable questions for a quiz to be kept */
+  readonly minQuestions: number;
+
+  /** Score (0-100) needed to pass and complete the step */
+  readonly passingScore: number;
+
+  /** Attempts kept per step */
+  readonly maxStoredAttempts: number;
+
+  /** Maximum retries on invalid LLM output */
+  readonly maxRetries: number;
+
+  /** Temperature for LLM */
+  readonly temperature: number;
+}
+
+/**
+ * Default quiz configuration.
+ */
+export const DEFAULT_QUIZ_CONFIG: QuizConfig = {
+  questionCount: 5,
+  minQuestions: 3,
+  passingScore: 70,
+  maxStoredAttempts: 20,
+  maxRetries: 2,
+  temperature: 0.4,
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// ERROR CODES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Error codes for quiz operations.
+ */
+export const QuizErrorCode = {
+  /** Step does not exist or belongs to another user */
+  STEP_NOT_FOUND: 'QUIZ_STEP_NOT_FOUND',
+
+  /** No quiz has been generated for the step */
+  QUIZ_NOT_FOUND: 'QUIZ_NOT_FOUND',
+
+  /** Curriculum LLM client is not available */
+  LLM_UNAVAILABLE: 'QUIZ_LLM_UNAVAILABLE',
+
+  /** LLM output was unusable after retries */
+  GENERATION_FAILED: 'QUIZ_GENERATION_FAILED',
+
+  /** Submitted answers don't match the quiz */
+  INVALID_ANSWERS: 'QUIZ_INVALID_ANSWERS',
+} as const;
+
+export type QuizErrorCode = typeof QuizErrorCode[keyof typeof QuizErrorCode];
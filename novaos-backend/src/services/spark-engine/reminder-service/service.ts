@@ -38,6 +38,7 @@ import type {
 } from '../types.js';
 import { REMINDER_CONFIG_DEFAULTS } from '../types.js';
 import type { IReminderService } from '../interfaces.js';
+import { isPausedOn } from '../rescheduling/planner.js';
 
 import {
   generateScheduleForDate,
@@ -280,8 +281,13 @@ export class ReminderService implements IReminderService {
       }
     }
 
-    // Check idempotency - don't schedule twice for same spark+date
+    // No reminders while the plan is paused
     const today = todayInTimezone(reminderConfig.timezone);
+    if (isPausedOn(goal.pauses, today)) {
+      return ok([]);
+    }
+
+    // Check idempotency - don't schedule twice for same spark+date
     const alreadyScheduled = await this.idempotency.isSparkScheduledForDate(spark.id, today);
 
     if (alreadyScheduled) {
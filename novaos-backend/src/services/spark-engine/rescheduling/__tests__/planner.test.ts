@@ -0,0 +1,194 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// RESCHEDULE PLANNER TESTS — Policies, Pauses & Active Days
+// NovaOS Spark Engine — Plan Rescheduling
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { describe, it, expect } from 'vitest';
+import {
+  createQuestId,
+  createStepId,
+  createTimestamp,
+} from '../../../../types/branded.js';
+
+import { WEEKDAYS, type Activity, type Step } from '../../types.js';
+import { planReschedule, isPausedOn, nextAvailableDate, type PlanOptions } from '../planner.js';
+import type { PlanPause } from '../types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TEST FIXTURES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/** Weekday plan: Mon 2026-10-19 through Mon 2026-10-26 */
+const PLAN_DATES = ['2026-10-19', '2026-10-20', '2026-10-21', '2026-10-22', '2026-10-23', '2026-10-26'];
+
+const questId = createQuestId();
+
+function createPlan(activities?: (day: number) => Activity[]): Step[] {
+  return PLAN_DATES.map((date, i) => ({
+    id: createStepId(),
+    questId,
+    title: `Day ${i + 1}`,
+    description: `Day ${i + 1} content`,
+    status: 'pending',
+    order: i + 1,
+    createdAt: createTimestamp(),
+    updatedAt: createTimestamp(),
+    scheduledDate: date,
+    dayNumber: i + 1,
+    estimatedMinutes: 40,
+    activities: activities?.(i + 1),
+  }));
+}
+
+function pause(startDate: string, endDate: string): PlanPause {
+  return { startDate, endDate, createdAt: createTimestamp() };
+}
+
+function options(overrides: Partial<PlanOptions> = {}): PlanOptions {
+  return {
+    policy: 'push_back',
+    fromDate: '2026-10-21',
+    activeDays: WEEKDAYS,
+    dailyMinutes: 45,
+    maxStepsPerDay: 2,
+    ...overrides,
+  };
+}
+
+function datesAfter(steps: readonly Step[], changed: readonly Step[]): (string | undefined)[] {
+  return steps.map(s => (changed.find(c => c.id === s.id) ?? s).scheduledDate);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CALENDAR
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('calendar', () => {
+  it('skips inactive and paused days', () => {
+    const pauses = [pause('2026-10-26', '2026-10-27')];
+
+    expect(nextAvailableDate('2026-10-24', WEEKDAYS, pauses)).toBe('2026-10-28');
+    expect(isPausedOn(pauses, '2026-10-27')).toBe(true);
+    expect(isPausedOn(pauses, '2026-10-28')).toBe(false);
+    expect(isPausedOn(undefined, '2026-10-27')).toBe(false);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// POLICIES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('planReschedule', () => {
+  it('leaves a plan that is in sync alone', () => {
+    const steps = createPlan();
+
+    const plan = planReschedule(steps, options({ fromDate: '2026-10-19' }));
+
+    expect(plan.changed).toEqual([]);
+    expect(plan.endDate).toBe('2026-10-26');
+  });
+
+  it('push_back moves every remaining step back past the weekend', () => {
+    const steps = createPlan();
+
+    const plan = planReschedule(steps, options());
+
+    expect(datesAfter(steps, plan.changed)).toEqual([
+      '2026-10-21', '2026-10-22', '2026-10-23', '2026-10-26', '2026-10-27', '2026-10-28',
+    ]);
+    expect(plan.moved[0]).toMatchObject({ dayNumber: 1, fromDate: '2026-10-19', toDate: '2026-10-21' });
+    expect(plan.previousEndDate).toBe('2026-10-26');
+    expect(plan.endDate).toBe('2026-10-28');
+  });
+
+  it('keeps completed steps where they are', () => {
+    const steps = createPlan().map((s, i) => i === 0 ? { ...s, status: 'completed' as const } : s);
+
+    const plan = planReschedule(steps, options());
+
+    expect(plan.changed.map(s => s.id)).not.toContain(steps[0]!.id);
+    expect(datesAfter(steps, plan.changed).slice(0, 3)).toEqual(['2026-10-19', '2026-10-21', '2026-10-22']);
+  });
+
+  it('compress doubles up steps to keep the end date', () => {
+    const steps = createPlan();
+
+    const plan = planReschedule(steps, options({ policy: 'compress' }));
+
+    expect(datesAfter(steps, plan.changed)).toEqual([
+      '2026-10-21', '2026-10-21', '2026-10-22', '2026-10-22', '2026-10-23', '2026-10-26',
+    ]);
+    expect(plan.endDate).toBe('2026-10-26');
+  });
+
+  it('compress spills past the end date at the per-day cap', () => {
+    const steps = createPlan();
+
+    const plan = planReschedule(steps, options({ policy: 'compress', fromDate: '2026-10-26' }));
+
+    expect(datesAfter(steps, plan.changed)).toEqual([
+      '2026-10-26', '2026-10-26', '2026-10-27', '2026-10-27', '2026-10-28', '2026-10-28',
+    ]);
+  });
+
+  it('drop_optional trims optional activities and packs steps by minutes', () => {
+    const steps = createPlan(day => day === 3
+      ? [{ type: 'read', minutes: 20, optional: true }]
+      : [{ type: 'read', minutes: 20 }, { type: 'exercise', minutes: 20, optional: true }]
+    );
+
+    const plan = planReschedule(steps, options({ policy: 'drop_optional' }));
+
+    expect(plan.dropped).toEqual([steps[2]!.id]);
+    expect(plan.changed.find(s => s.id === steps[2]!.id)?.status).toBe('skipped');
+    expect(plan.trimmed).toHaveLength(5);
+    expect(plan.changed.find(s => s.id === steps[0]!.id)).toMatchObject({
+      activities: [{ type: 'read', minutes: 20 }],
+      estimatedMinutes: 20,
+    });
+    expect(datesAfter(steps, plan.changed)).toEqual([
+      '2026-10-21', '2026-10-21', '2026-10-21', '2026-10-22', '2026-10-23', '2026-10-26',
+    ]);
+    expect(plan.moved.map(m => m.stepId)).not.toContain(steps[2]!.id);
+    expect(plan.endDate).toBe('2026-10-26');
+  });
+
+  it('drop_optional does not share a day beyond the daily budget', () => {
+    const steps = createPlan(() => [{ type: 'read', minutes: 30 }]);
+
+    const plan = planReschedule(steps, options({ policy: 'drop_optional' }));
+
+    expect(plan.trimmed).toEqual([]);
+    expect(datesAfter(steps, plan.changed)).toEqual([
+      '2026-10-21', '2026-10-22', '2026-10-23', '2026-10-26', '2026-10-27', '2026-10-28',
+    ]);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// PAUSES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('planReschedule with pauses', () => {
+  it('moves steps out of a paused range', () => {
+    const steps = createPlan();
+
+    const plan = planReschedule(steps, options({
+      fromDate: '2026-10-19',
+      pauses: [pause('2026-10-21', '2026-10-23')],
+    }));
+
+    expect(datesAfter(steps, plan.changed)).toEqual([
+      '2026-10-19', '2026-10-20', '2026-10-26', '2026-10-27', '2026-10-28', '2026-10-29',
+    ]);
+    expect(plan.moved).toHaveLength(4);
+  });
+
+  it('pulls steps forward when laying the plan out again', () => {
+    const steps = createPlan().map(s => ({ ...s, scheduledDate: s.scheduledDate!.replace('2026-10-2', '2026-10-3') }));
+
+    const plan = planReschedule(steps, options({ fromDate: '2026-10-19', pullForward: true }));
+
+    expect(datesAfter(steps, plan.changed)).toEqual(PLAN_DATES);
+  });
+});
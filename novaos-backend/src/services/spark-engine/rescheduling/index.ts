@@ -0,0 +1,44 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// RESCHEDULING MODULE — Public API Exports
+// NovaOS Spark Engine — Plan Rescheduling
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// This module exports the plan rescheduling public API:
+//   - Reschedule policies and plan pauses
+//   - The pure planner used by SparkEngine
+//
+// Usage:
+//   import { planReschedule } from './rescheduling';
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// PLANNER
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export {
+  planReschedule,
+  isOutOfSync,
+  isPausedOn,
+  nextAvailableDate,
+  type PlanOptions,
+  type PlanResult,
+} from './planner.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export type {
+  ReschedulePolicy,
+  PlanPause,
+  StepMove,
+  RescheduleResult,
+  RescheduleConfig,
+} from './types.js';
+
+export {
+  RESCHEDULE_POLICIES,
+  DEFAULT_RESCHEDULE_CONFIG,
+  RescheduleErrorCode,
+} from './types.js';
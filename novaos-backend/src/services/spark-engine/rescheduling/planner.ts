@@ -0,0 +1,315 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// RESCHEDULE PLANNER — Lay Out Remaining Steps on the Calendar
+// NovaOS Spark Engine — Plan Rescheduling
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Pure planning functions; SparkEngine loads and saves the steps.
+//
+// Remaining steps (pending or active) are placed on the learner's active days,
+// in plan order, starting at `fromDate` and skipping paused dates. Steps that
+// are already complete or skipped keep their dates.
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { DateTime } from 'luxon';
+import type { StepId } from '../../../types/branded.js';
+import type { Step, DayOfWeek } from '../types.js';
+import { getDayOfWeek } from '../step-generator/day-sequence.js';
+import type { PlanPause, ReschedulePolicy, StepMove } from './types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Inputs for planning a reschedule.
+ */
+export interface PlanOptions {
+  /** Policy to apply */
+  readonly policy: ReschedulePolicy;
+
+  /** First date a step may be placed on (YYYY-MM-DD) */
+  readonly fromDate: string;
+
+  /** The learner's active days */
+  readonly activeDays: readonly DayOfWeek[];
+
+  /** Paused date ranges */
+  readonly pauses?: readonly PlanPause[];
+
+  /** Daily time budget in minutes (drop_optional) */
+  readonly dailyMinutes: number;
+
+  /** Most steps on one day (compress) */
+  readonly maxStepsPerDay: number;
+
+  /**
+   * Lay the plan out again from `fromDate`, moving steps earlier where there
+   * is room (e.g. after resuming a pause early). Otherwise steps only move
+   * later, and only when the plan is out of sync.
+   */
+  readonly pullForward?: boolean;
+}
+
+/**
+ * A planned reschedule.
+ */
+export interface PlanResult {
+  /** Steps to save (moved, trimmed or dropped) */
+  readonly changed: readonly Step[];
+
+  /** Steps moved to a new date */
+  readonly moved: readonly StepMove[];
+
+  /** Steps that lost their optional activities */
+  readonly trimmed: readonly StepId[];
+
+  /** Steps skipped because all of their content was optional */
+  readonly dropped: readonly StepId[];
+
+  /** Last scheduled date before rescheduling */
+  readonly previousEndDate: string | null;
+
+  /** Last scheduled date after rescheduling */
+  readonly endDate: string | null;
+}
+
+/** Upper bound on days scanned for the next available date */
+const MAX_SCAN_DAYS = 730;
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// DATES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+function addDays(date: string, days: number): string {
+  return DateTime.fromISO(date, { zone: 'UTC' }).plus({ days }).toISODate()!;
+}
+
+/**
+ * Whether a date falls inside any pause.
+ */
+export function isPausedOn(pauses: readonly PlanPause[] | undefined, date: string): boolean {
+  return (pauses ?? []).some(p => p.startDate <= date && date <= p.endDate);
+}
+
+function isAvailable(
+  date: string,
+  activeDays: readonly DayOfWeek[],
+  pauses: readonly PlanPause[] | undefined
+): boolean {
+  return activeDays.includes(getDayOfWeek(date)) && !isPausedOn(pauses, date);
+}
+
+/**
+ * First active, unpaused date on or after `date`.
+ * Falls back to `date` when no active day is found.
+ */
+export function nextAvailableDate(
+  date: string,
+  activeDays: readonly DayOfWeek[],
+  pauses?: readonly PlanPause[]
+): string {
+  let candidate = date;
+  for (let i = 0; i < MAX_SCAN_DAYS; i++) {
+    if (isAvailable(candidate, activeDays, pauses)) {
+      return candidate;
+    }
+    candidate = addDays(candidate, 1);
+  }
+  return date;
+}
+
+/**
+ * Number of active, unpaused dates in [from, to].
+ */
+function countAvailableDates(
+  from: string,
+  to: string,
+  activeDays: readonly DayOfWeek[],
+  pauses: readonly PlanPause[] | undefined
+): number {
+  let count = 0;
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    if (isAvailable(date, activeDays, pauses)) {
+      count++;
+    }
+  }
+  return count;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// STEPS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+function isRemaining(step: Step): boolean {
+  return step.status === 'pending' || step.status === 'active';
+}
+
+function planPosition(step: Step): number {
+  return step.dayNumber ?? step.order;
+}
+
+function stepMinutes(step: Step): number {
+  return step.activities && step.activities.length > 0
+    ? step.activities.reduce((sum, a) => sum + a.minutes, 0)
+    : step.estimatedMinutes ?? 0;
+}
+
+function lastDate(steps: readonly Step[]): string | null {
+  return steps.reduce<string | null>(
+    (latest, s) => s.scheduledDate && (!latest || s.scheduledDate > latest) ? s.scheduledDate : latest,
+    null
+  );
+}
+
+/**
+ * Whether the remaining steps no longer match the calendar: a step is
+ * overdue, paused, or on a day the learner doesn't study.
+ */
+export function isOutOfSync(
+  steps: readonly Step[],
+  fromDate: string,
+  activeDays: readonly DayOfWeek[],
+  pauses?: readonly PlanPause[]
+): boolean {
+  return steps.filter(isRemaining).some(s =>
+    !s.scheduledDate ||
+    s.scheduledDate < fromDate ||
+    !isAvailable(s.scheduledDate, activeDays, pauses)
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// PLANNING
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Plan new dates for a goal's remaining steps.
+ *
+ * @param steps - All steps of the goal's plan
+ * @param options - Policy, calendar and budget
+ * @returns The steps to save; empty when the plan is already in sync
+ */
+export function planReschedule(steps: readonly Step[], options: PlanOptions): PlanResult {
+  const { fromDate, activeDays, pauses } = options;
+  const remaining = steps.filter(isRemaining).sort((a, b) => planPosition(a) - planPosition(b));
+  const previousEndDate = lastDate(steps);
+
+  if (
+    remaining.length === 0 ||
+    (!options.pullForward && !isOutOfSync(remaining, fromDate, activeDays, pauses))
+  ) {
+    return { changed: [], moved: [], trimmed: [], dropped: [], previousEndDate, endDate: previousEndDate };
+  }
+
+  // Drop optional activities; steps with nothing else left are skipped
+  const trimmed: StepId[] = [];
+  const dropped: Step[] = [];
+  let kept: Step[] = remaining;
+
+  if (options.policy === 'drop_optional') {
+    kept = [];
+    for (const step of remaining) {
+      const activities = step.activities ?? [];
+      const required = activities.filter(a => !a.optional);
+      if (required.length === activities.length) {
+        kept.push(step);
+      } else if (required.length === 0) {
+        dropped.push({ ...step, status: 'skipped' });
+      } else {
+        trimmed.push(step.id);
+        kept.push({
+          ...step,
+          activities: required,
+          estimatedMinutes: required.reduce((sum, a) => sum + a.minutes, 0),
+        });
+      }
+    }
+  }
+
+  const dates = options.policy === 'push_back'
+    ? layOutSequentially(kept, options)
+    : layOutToEndDate(kept, options, lastDate(remaining) ?? fromDate);
+
+  const changed: Step[] = [...dropped];
+  const moved: StepMove[] = [];
+
+  kept.forEach((step, i) => {
+    const toDate = dates[i]!;
+    const original = remaining.find(s => s.id === step.id)!;
+    if (toDate !== step.scheduledDate) {
+      moved.push({ stepId: step.id, dayNumber: step.dayNumber, fromDate: step.scheduledDate, toDate });
+    }
+    if (toDate !== step.scheduledDate || step !== original) {
+      changed.push({ ...step, scheduledDate: toDate });
+    }
+  });
+
+  const completed = steps.filter(s => !isRemaining(s));
+
+  return {
+    changed,
+    moved,
+    trimmed,
+    dropped: dropped.map(s => s.id),
+    previousEndDate,
+    endDate: lastDate([...completed, ...kept.map((s, i) => ({ ...s, scheduledDate: dates[i] }))]),
+  };
+}
+
+/**
+ * One step per available day, in order. Without `pullForward` a step never
+ * moves earlier than its current date.
+ */
+function layOutSequentially(steps: readonly Step[], options: PlanOptions): string[] {
+  const dates: string[] = [];
+  let cursor = options.fromDate;
+
+  for (const step of steps) {
+    const floor = !options.pullForward && step.scheduledDate && step.scheduledDate > cursor
+      ? step.scheduledDate
+      : cursor;
+    const date = nextAvailableDate(floor, options.activeDays, options.pauses);
+    dates.push(date);
+    cursor = addDays(date, 1);
+  }
+
+  return dates;
+}
+
+/**
+ * Place steps from `fromDate`, letting a step share the previous step's day
+ * while there are more steps left than days before `endDate`. Compress caps
+ * steps per day; drop_optional caps minutes per day. Steps that don't fit
+ * spill past the end date.
+ */
+function layOutToEndDate(steps: readonly Step[], options: PlanOptions, endDate: string): string[] {
+  const { activeDays, pauses } = options;
+  const dates: string[] = [];
+  let day = nextAvailableDate(options.fromDate, activeDays, pauses);
+  let stepsOnDay = 0;
+  let minutesOnDay = 0;
+
+  steps.forEach((step, i) => {
+    const minutes = stepMinutes(step);
+
+    if (stepsOnDay > 0) {
+      const behind = steps.length - i > countAvailableDates(addDays(day, 1), endDate, activeDays, pauses);
+      const fits = options.policy === 'compress'
+        ? stepsOnDay < options.maxStepsPerDay
+        : minutesOnDay + minutes <= options.dailyMinutes;
+
+      if (!behind || !fits) {
+        day = nextAvailableDate(addDays(day, 1), activeDays, pauses);
+        stepsOnDay = 0;
+        minutesOnDay = 0;
+      }
+    }
+
+    dates.push(day);
+    stepsOnDay++;
+    minutesOnDay += minutes;
+  });
+
+  return dates;
+}
@@ -0,0 +1,152 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// RESCHEDULING TYPES — Missed Days & Plan Pauses
+// NovaOS Spark Engine — Plan Rescheduling
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// A lesson plan is laid out on calendar dates when its steps are generated.
+// When the learner misses days or pauses the plan, the remaining steps are
+// moved according to a reschedule policy.
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type { GoalId, StepId, Timestamp } from '../../../types/branded.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// POLICIES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * How the remaining steps of a plan are moved after missed days.
+ *
+ * - push_back: every remaining step moves back; the plan ends later
+ * - compress: steps double up until the plan is back on its end date
+ * - drop_optional: optional activities are dropped, and the lighter steps
+ *   share days within the daily time budget until the plan is back on its
+ *   end date
+ */
+export type ReschedulePolicy = 'push_back' | 'compress' | 'drop_optional';
+
+/**
+ * All valid reschedule policies.
+ */
+export const RESCHEDULE_POLICIES: readonly ReschedulePolicy[] = [
+  'push_back',
+  'compress',
+  'drop_optional',
+] as const;
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// PAUSES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * A date range during which a plan is paused ("vacation mode").
+ * No steps are scheduled, no reminders are sent and streaks are frozen.
+ */
+export interface PlanPause {
+  /** First paused date in the user's timezone (YYYY-MM-DD) */
+  readonly startDate: string;
+
+  /** Last paused date in the user's timezone (YYYY-MM-DD, inclusive) */
+  readonly endDate: string;
+
+  /** Optional note from the learner */
+  readonly reason?: string;
+
+  /** When the pause was created */
+  readonly createdAt: Timestamp;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// RESULTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * A step moved to a new date.
+ */
+export interface StepMove {
+  /** Moved step */
+  readonly stepId: StepId;
+
+  /** Day number in the lesson plan */
+  readonly dayNumber?: number;
+
+  /** Previous scheduled date */
+  readonly fromDate?: string;
+
+  /** New scheduled date */
+  readonly toDate: string;
+}
+
+/**
+ * Outcome of rescheduling a plan.
+ */
+export interface RescheduleResult {
+  /** Rescheduled goal */
+  readonly goalId: GoalId;
+
+  /** Policy applied */
+  readonly policy: ReschedulePolicy;
+
+  /** First date steps could be moved to */
+  readonly fromDate: string;
+
+  /** Steps moved to a new date */
+  readonly moved: readonly StepMove[];
+
+  /** Steps that lost their optional activities */
+  readonly trimmed: readonly StepId[];
+
+  /** Steps skipped because all of their content was optional */
+  readonly dropped: readonly StepId[];
+
+  /** Last scheduled date before rescheduling */
+  readonly previousEndDate: string | null;
+
+  /** Last scheduled date after rescheduling */
+  readonly endDate: string | null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONFIGURATION
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Rescheduling configuration.
+ */
+export interface RescheduleConfig {
+  /** Policy when neither the request nor the goal names one */
+  readonly defaultPolicy: ReschedulePolicy;
+
+  /** Most steps the compress policy places on one day */
+  readonly maxStepsPerDay: number;
+
+  /** Longest pause accepted (days) */
+  readonly maxPauseDays: number;
+}
+
+/**
+ * Default rescheduling configuration.
+ */
+export const DEFAULT_RESCHEDULE_CONFIG: RescheduleConfig = {
+  defaultPolicy: 'push_back',
+  maxStepsPerDay: 2,
+  maxPauseDays: 90,
+};
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// ERRORS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Rescheduling error codes.
+ */
+export const RescheduleErrorCode = {
+  /** The pause range is reversed, in the past or too long */
+  INVALID_PAUSE: 'INVALID_PAUSE',
+
+  /** Resume was requested while the plan isn't paused */
+  NOT_PAUSED: 'NOT_PAUSED',
+} as const;
+
+export type RescheduleErrorCode = typeof RescheduleErrorCode[keyof typeof RescheduleErrorCode];
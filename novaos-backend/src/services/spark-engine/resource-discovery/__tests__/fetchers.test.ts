@@ -0,0 +1,303 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// PROVIDER FETCHER TESTS — Stack Overflow, MDN, npm, PyPI, crates.io
+// NovaOS Spark Engine — Phase 6: Resource Discovery
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { TopicId } from '../types.js';
+import { getApiKeyManager, initApiKeyManager, resetApiKeyManager } from '../api-keys/index.js';
+import { resetResourceCache } from '../cache/index.js';
+import {
+  searchStackOverflow,
+  searchMdn,
+  searchNpm,
+  searchPyPI,
+  searchCratesIo,
+  type FetcherRequest,
+} from '../fetchers/index.js';
+import {
+  STACKOVERFLOW_SEARCH,
+  STACKOVERFLOW_ANSWERS,
+  MDN_SEARCH,
+  MDN_PROMISE_DOCUMENT,
+  NPM_SEARCH,
+  NPM_DOWNLOADS_YUP,
+  NPM_DOWNLOADS_TYPEBOX,
+  PYPI_PANDAS,
+  PYPISTATS_PANDAS,
+  CRATES_SEARCH,
+} from './fixtures.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// FAKE FETCH
+// ─────────────────────────────────────────────────────────────────────────────────
+
+type Route = (url: URL) => Response | undefined;
+
+let routes: Route[];
+let requests: URL[];
+
+function json(body: unknown, init: ResponseInit = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+    ...init,
+  });
+}
+
+function route(host: string, pathPrefix: string, respond: (url: URL) => Response): void {
+  routes.push((url) =>
+    url.host === host && url.pathname.startsWith(pathPrefix) ? respond(url) : undefined
+  );
+}
+
+function request(query: string, overrides: Partial<FetcherRequest> = {}): FetcherRequest {
+  return {
+    query,
+    topicIds: ['language:test' as TopicId],
+    maxResults: 5,
+    ...overrides,
+  };
+}
+
+beforeEach(async () => {
+  routes = [];
+  requests = [];
+  vi.stubGlobal('fetch', vi.fn(async (input: string) => {
+    const url = new URL(input);
+    requests.push(url);
+    for (const r of routes) {
+      const response = r(url);
+      if (response) return response;
+    }
+    return new Response('not found', { status: 404 });
+  }));
+
+  delete process.env.STACKOVERFLOW_KEY;
+  resetApiKeyManager();
+  resetResourceCache();
+  await initApiKeyManager();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  resetApiKeyManager();
+  resetResourceCache();
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// STACK OVERFLOW
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('searchStackOverflow', () => {
+  beforeEach(() => {
+    route('api.stackexchange.com', '/2.3/search/advanced', () => json(STACKOVERFLOW_SEARCH));
+    route('api.stackexchange.com', '/2.3/answers/', () => json(STACKOVERFLOW_ANSWERS));
+  });
+
+  it('maps votes and accepted answers', async () => {
+    const candidates = await searchStackOverflow(request('rust borrow checker'));
+
+    expect(candidates).toHaveLength(2);
+    expect(candidates[0]).toMatchObject({
+      id: 'stackoverflow:30412345',
+      canonicalUrl: 'https://stackoverflow.com/questions/30412345',
+      provider: 'stackoverflow',
+      title: 'Why can\'t I borrow "self" mutably twice?',
+      source: { type: 'stackoverflow_api', query: 'rust borrow checker', resultPosition: 0 },
+      metadata: {
+        votes: 412,
+        answerCount: 3,
+        isAnswered: true,
+        acceptedAnswerId: 30416531,
+        acceptedAnswerVotes: 520,
+        viewCount: 98120,
+        tags: ['rust', 'borrow-checker'],
+        authorReputation: 48211,
+        publishedAt: '2015-05-26T00:00:00.000Z',
+      },
+    });
+    expect(candidates[1]!.title).toBe('Lifetimes in structs & enums');
+    expect(candidates[1]!.metadata?.acceptedAnswerId).toBeUndefined();
+
+    const answersCall = requests.find(u => u.pathname.startsWith('/2.3/answers/'));
+    expect(answersCall?.pathname).toBe('/2.3/answers/30416531');
+  });
+
+  it('uses anonymous access until a key is configured', async () => {
+    await searchStackOverflow(request('rust borrow checker'));
+    expect(requests[0]!.searchParams.has('key')).toBe(false);
+
+    getApiKeyManager().addKey({ service: 'stackoverflow', key: 'so-key', name: 'stackoverflow-test', priority: -1 });
+    await searchStackOverflow(request('rust lifetimes'));
+    expect(requests.at(-1)!.searchParams.get('key')).toBe('so-key');
+  });
+
+  it('serves repeated searches from the resource cache', async () => {
+    await searchStackOverflow(request('rust borrow checker'));
+    const callsAfterFirst = requests.length;
+
+    const again = await searchStackOverflow(request('rust borrow checker'));
+
+    expect(again).toHaveLength(2);
+    expect(requests).toHaveLength(callsAfterFirst);
+    expect(getApiKeyManager().getServiceUsage('stackoverflow')?.totalUsed).toBe(2);
+  });
+
+  it('stops calling the API when asked to back off', async () => {
+    routes.unshift((url) =>
+      url.pathname === '/2.3/search/advanced' ? json({ ...STACKOVERFLOW_SEARCH, items: [], backoff: 10 }) : undefined
+    );
+
+    await searchStackOverflow(request('rust borrow checker'));
+    const result = await searchStackOverflow(request('rust lifetimes', { useCache: false }));
+
+    expect(result).toEqual([]);
+    expect(requests).toHaveLength(1);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// MDN
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('searchMdn', () => {
+  beforeEach(() => {
+    route('developer.mozilla.org', '/api/v1/search', () => json(MDN_SEARCH));
+    route('developer.mozilla.org', '/en-US/docs/', () => json(MDN_PROMISE_DOCUMENT));
+  });
+
+  it('records section anchors and the last-modified date', async () => {
+    const [candidate] = await searchMdn(request('javascript promises'));
+
+    const pageUrl = 'https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Promise';
+    expect(candidate).toMatchObject({
+      canonicalUrl: pageUrl,
+      provider: 'mdn',
+      title: 'Promise',
+      metadata: { score: 0.41, lastModifiedAt: '2026-09-30T04:11:52.000Z' },
+    });
+    expect(candidate!.metadata?.sections).toEqual([
+      { title: 'Description', anchor: 'description', url: `${pageUrl}#description` },
+      { title: 'Constructor', anchor: 'constructor', url: `${pageUrl}#constructor` },
+      { title: 'Promise.all() and friends', anchor: 'promise_concurrency', url: `${pageUrl}#promise_concurrency` },
+    ]);
+    expect(requests.at(-1)!.pathname).toBe('/en-US/docs/Web/JavaScript/Reference/Global_Objects/Promise/index.json');
+  });
+
+  it('skips queries outside the web platform', async () => {
+    expect(await searchMdn(request('rust ownership'))).toEqual([]);
+    expect(requests).toHaveLength(0);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// NPM
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('searchNpm', () => {
+  beforeEach(() => {
+    route('registry.npmjs.org', '/-/v1/search', () => json(NPM_SEARCH));
+    route('api.npmjs.org', '/downloads/point/last-week/yup', () => json(NPM_DOWNLOADS_YUP));
+    route('api.npmjs.org', '/downloads/point/last-week/@sinclair/typebox', () => json(NPM_DOWNLOADS_TYPEBOX));
+  });
+
+  it('records versions, publish dates and weekly downloads', async () => {
+    const candidates = await searchNpm(request('typescript schema validation tutorial'));
+
+    expect(requests[0]!.searchParams.get('text')).toBe('schema validation');
+    expect(candidates.map(c => [c.canonicalUrl, c.metadata?.downloads])).toEqual([
+      ['https://www.npmjs.com/package/zod', 15324011],
+      ['https://www.npmjs.com/package/yup', 7811021],
+      ['https://www.npmjs.com/package/@sinclair/typebox', 40112233],
+    ]);
+    expect(candidates[0]!.metadata).toMatchObject({
+      packageName: 'zod',
+      version: '3.25.76',
+      downloadPeriod: 'week',
+      lastPublishedAt: '2026-07-08T09:20:44.100Z',
+      repositoryUrl: 'git+https://github.com/colinhacks/zod.git',
+      owner: 'colinhacks',
+    });
+  });
+
+  it('skips queries outside the JavaScript ecosystem', async () => {
+    expect(await searchNpm(request('python pandas'))).toEqual([]);
+    expect(requests).toHaveLength(0);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// PYPI
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('searchPyPI', () => {
+  beforeEach(() => {
+    route('pypi.org', '/pypi/pandas/json', () => json(PYPI_PANDAS));
+    route('pypistats.org', '/api/packages/pandas/recent', () => json(PYPISTATS_PANDAS));
+  });
+
+  it('looks up projects named after the subject words', async () => {
+    const candidates = await searchPyPI(request('python data pandas tutorial'));
+
+    expect(requests.filter(u => u.host === 'pypi.org').map(u => u.pathname)).toEqual([
+      '/pypi/data-pandas/json',
+      '/pypi/data/json',
+      '/pypi/pandas/json',
+    ]);
+    expect(candidates).toHaveLength(1);
+    expect(candidates[0]).toMatchObject({
+      id: 'pypi:pandas',
+      canonicalUrl: 'https://pypi.org/project/pandas/',
+      provider: 'pypi',
+      snippet: 'Powerful data structures for data analysis, time series, and statistics',
+      metadata: {
+        version: '2.3.3',
+        downloads: 331234567,
+        downloadPeriod: 'month',
+        lastPublishedAt: '2026-09-29T12:05:40.654321Z',
+        repositoryUrl: 'https://github.com/pandas-dev/pandas',
+        homepageUrl: 'https://pandas.pydata.org',
+        license: 'BSD 3-Clause License',
+      },
+    });
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CRATES.IO
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('searchCratesIo', () => {
+  beforeEach(() => {
+    route('crates.io', '/api/v1/crates', () => json(CRATES_SEARCH));
+  });
+
+  it('records recent downloads and the last publish date', async () => {
+    const [candidate] = await searchCratesIo(request('rust async runtime'));
+
+    expect(requests[0]!.searchParams.get('q')).toBe('async runtime');
+    expect(candidate).toMatchObject({
+      canonicalUrl: 'https://crates.io/crates/tokio',
+      provider: 'crates_io',
+      snippet: 'An event-driven, non-blocking I/O platform for writing asynchronous I/O\nbacked applications.',
+      metadata: {
+        version: '1.47.1',
+        downloads: 61234567,
+        downloadPeriod: '90_days',
+        lastPublishedAt: '2026-09-22T17:41:09.000Z',
+        homepageUrl: 'https://docs.rs/tokio/latest/tokio',
+      },
+    });
+  });
+
+  it('marks the quota rate limited on 429 and stops calling', async () => {
+    routes.unshift(() => new Response('slow down', { status: 429, headers: { 'Retry-After': '30' } }));
+
+    expect(await searchCratesIo(request('rust async runtime'))).toEqual([]);
+    expect(await searchCratesIo(request('rust serde'))).toEqual([]);
+
+    expect(requests).toHaveLength(1);
+    expect(getApiKeyManager().getServiceUsage('crates_io')?.activeKeys).toBe(0);
+  });
+});
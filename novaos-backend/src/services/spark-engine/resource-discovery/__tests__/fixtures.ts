@@ -0,0 +1,210 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// PROVIDER API FIXTURES — Recorded Response Shapes
+// NovaOS Spark Engine — Phase 6: Resource Discovery
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Trimmed responses from each provider API, keeping the fields the fetchers
+// read plus a few they ignore.
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// STACK EXCHANGE
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export const STACKOVERFLOW_SEARCH = {
+  items: [
+    {
+      tags: ['rust', 'borrow-checker'],
+      owner: { reputation: 48211, user_id: 155423, display_name: 'Shepmaster' },
+      is_answered: true,
+      view_count: 98120,
+      accepted_answer_id: 30416531,
+      answer_count: 3,
+      score: 412,
+      last_activity_date: 1735689600,
+      creation_date: 1432598400,
+      question_id: 30412345,
+      content_license: 'CC BY-SA 4.0',
+      link: 'https://stackoverflow.com/questions/30412345/why-cant-i-borrow-mutably-twice',
+      title: 'Why can&#39;t I borrow &quot;self&quot; mutably twice?',
+    },
+    {
+      tags: ['rust'],
+      owner: { reputation: 1203, user_id: 99881, display_name: 'ferris' },
+      is_answered: true,
+      view_count: 5400,
+      answer_count: 1,
+      score: 37,
+      last_activity_date: 1700000000,
+      creation_date: 1650000000,
+      question_id: 71234567,
+      link: 'https://stackoverflow.com/questions/71234567/lifetimes-in-structs',
+      title: 'Lifetimes in structs &amp; enums',
+    },
+  ],
+  has_more: true,
+  quota_max: 300,
+  quota_remaining: 287,
+};
+
+export const STACKOVERFLOW_ANSWERS = {
+  items: [
+    { owner: { display_name: 'Shepmaster' }, is_accepted: true, score: 520, answer_id: 30416531, question_id: 30412345 },
+  ],
+  has_more: false,
+  quota_max: 300,
+  quota_remaining: 286,
+};
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// MDN
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export const MDN_SEARCH = {
+  documents: [
+    {
+      mdn_url: '/en-US/docs/Web/JavaScript/Reference/Global_Objects/Promise',
+      score: 98.2,
+      title: 'Promise',
+      locale: 'en-US',
+      slug: 'Web/JavaScript/Reference/Global_Objects/Promise',
+      popularity: 0.41,
+      summary: 'The Promise object represents the eventual completion (or failure) of an asynchronous operation and its resulting value.',
+      highlight: { body: ['The <mark>Promise</mark> object'], title: [] },
+    },
+  ],
+  metadata: { took_ms: 12, total: { value: 1, relation: 'eq' }, size: 5, page: 1 },
+};
+
+export const MDN_PROMISE_DOCUMENT = {
+  doc: {
+    title: 'Promise',
+    mdn_url: '/en-US/docs/Web/JavaScript/Reference/Global_Objects/Promise',
+    modified: '2026-09-30T04:11:52.000Z',
+    locale: 'en-US',
+    toc: [
+      { text: 'Description', id: 'description' },
+      { text: 'Constructor', id: 'constructor' },
+      { text: '<code>Promise.all()</code> and friends', id: 'promise_concurrency' },
+    ],
+  },
+};
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// NPM
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export const NPM_SEARCH = {
+  objects: [
+    {
+      downloads: { monthly: 61234567, weekly: 15324011 },
+      package: {
+        name: 'zod',
+        keywords: ['typescript', 'schema', 'validation'],
+        version: '3.25.76',
+        description: 'TypeScript-first schema declaration and validation library with static type inference',
+        publisher: { email: 'colin@example.com', username: 'colinhacks' },
+        date: '2026-07-08T09:20:44.100Z',
+        links: {
+          homepage: 'https://zod.dev',
+          repository: 'git+https://github.com/colinhacks/zod.git',
+          npm: 'https://www.npmjs.com/package/zod',
+        },
+      },
+      score: { final: 1409.2, detail: { popularity: 1, quality: 1, maintenance: 1 } },
+    },
+    {
+      package: {
+        name: 'yup',
+        version: '1.6.1',
+        description: 'Dead simple Object schema validation',
+        date: '2024-12-18T20:01:05.514Z',
+        links: { npm: 'https://www.npmjs.com/package/yup' },
+      },
+      score: { final: 802.5, detail: { popularity: 1, quality: 1, maintenance: 1 } },
+    },
+    {
+      package: {
+        name: '@sinclair/typebox',
+        version: '0.34.38',
+        description: 'Json Schema Type Builder with Static Type Resolution for TypeScript',
+        date: '2026-06-02T11:00:00.000Z',
+        links: { npm: 'https://www.npmjs.com/package/@sinclair/typebox' },
+      },
+      score: { final: 640.1, detail: { popularity: 1, quality: 1, maintenance: 1 } },
+    },
+  ],
+  total: 4718,
+  time: 'Fri Oct 16 2026 10:00:00 GMT+0000 (Coordinated Universal Time)',
+};
+
+export const NPM_DOWNLOADS_YUP = {
+  downloads: 7811021,
+  start: '2026-10-09',
+  end: '2026-10-15',
+  package: 'yup',
+};
+
+export const NPM_DOWNLOADS_TYPEBOX = {
+  downloads: 40112233,
+  start: '2026-10-09',
+  end: '2026-10-15',
+  package: '@sinclair/typebox',
+};
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// PYPI
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export const PYPI_PANDAS = {
+  info: {
+    name: 'pandas',
+    version: '2.3.3',
+    summary: 'Powerful data structures for data analysis, time series, and statistics',
+    home_page: '',
+    license: 'BSD 3-Clause License',
+    project_urls: {
+      Homepage: 'https://pandas.pydata.org',
+      Documentation: 'https://pandas.pydata.org/docs/',
+      Source: 'https://github.com/pandas-dev/pandas',
+    },
+    requires_python: '>=3.9',
+  },
+  urls: [
+    { filename: 'pandas-2.3.3.tar.gz', upload_time_iso_8601: '2026-09-29T12:01:02.123456Z' },
+    { filename: 'pandas-2.3.3-cp312-cp312-manylinux_2_17_x86_64.whl', upload_time_iso_8601: '2026-09-29T12:05:40.654321Z' },
+  ],
+};
+
+export const PYPISTATS_PANDAS = {
+  data: { last_day: 11234567, last_month: 331234567, last_week: 79876543 },
+  package: 'pandas',
+  type: 'recent_downloads',
+};
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CRATES.IO
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export const CRATES_SEARCH = {
+  crates: [
+    {
+      id: 'tokio',
+      name: 'tokio',
+      description: 'An event-driven, non-blocking I/O platform for writing asynchronous I/O\nbacked applications.\n',
+      downloads: 412345678,
+      recent_downloads: 61234567,
+      max_version: '1.47.1',
+      max_stable_version: '1.47.1',
+      newest_version: '1.47.1',
+      created_at: '2016-07-01T20:26:46.000Z',
+      updated_at: '2026-09-22T17:41:09.000Z',
+      homepage: 'https://tokio.rs',
+      documentation: 'https://docs.rs/tokio/latest/tokio',
+      repository: 'https://github.com/tokio-rs/tokio',
+      exact_match: true,
+    },
+  ],
+  meta: { total: 1, next_page: null, prev_page: null },
+};
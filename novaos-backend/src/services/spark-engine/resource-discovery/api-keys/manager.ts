@@ -12,7 +12,8 @@
 // Supported services:
 //   - YouTube Data API
 //   - GitHub API
-//   - (Extensible for more)
+//   - Stack Exchange API (key optional)
+//   - MDN, npm, PyPI and crates.io (keyless, quota-tracked)
 //
 // ═══════════════════════════════════════════════════════════════════════════════
 
@@ -37,7 +38,11 @@ const logger = getLogger({ component: 'api-key-manager' });
 export type ApiService =
   | 'youtube'
   | 'github'
-  | 'stackoverflow';
+  | 'stackoverflow'
+  | 'mdn'
+  | 'npm'
+  | 'pypi'
+  | 'crates_io';
 
 /**
  * Key status.
@@ -188,7 +193,7 @@ export interface ServiceUsageSummary {
 /**
  * Environment variable prefixes for API keys.
  */
-const ENV_PREFIXES: Record<ApiService, string> = {
+const ENV_PREFIXES: Partial<Record<ApiService, string>> = {
   youtube: 'YOUTUBE_API_KEY',
   github: 'GITHUB_TOKEN',
   stackoverflow: 'STACKOVERFLOW_KEY',
@@ -201,6 +206,23 @@ const DEFAULT_QUOTAS: Record<ApiService, { limit: number; period: QuotaPeriod }>
   youtube: { limit: 10000, period: 'daily' },      // YouTube: 10,000 units/day
   github: { limit: 5000, period: 'hourly' },       // GitHub: 5,000 requests/hour
   stackoverflow: { limit: 10000, period: 'daily' }, // Stack Exchange: 10,000/day
+  mdn: { limit: 1000, period: 'hourly' },
+  npm: { limit: 5000, period: 'hourly' },
+  pypi: { limit: 5000, period: 'hourly' },
+  crates_io: { limit: 3600, period: 'hourly' },     // crates.io: 1 request/second
+};
+
+/**
+ * Services that can be called without a key, and the quota to hold
+ * anonymous use to. An anonymous key (empty value) is registered for
+ * each one that has no configured keys.
+ */
+const ANONYMOUS_QUOTAS: Partial<Record<ApiService, { limit: number; period: QuotaPeriod }>> = {
+  stackoverflow: { limit: 300, period: 'daily' },   // Stack Exchange: 300/day per IP
+  mdn: DEFAULT_QUOTAS.mdn,
+  npm: DEFAULT_QUOTAS.npm,
+  pypi: DEFAULT_QUOTAS.pypi,
+  crates_io: DEFAULT_QUOTAS.crates_io,
 };
 
 /**
@@ -301,6 +323,18 @@ export class ApiKeyManager {
       }
     }
     
+    // Keyless services fall back to anonymous access
+    for (const [service, quota] of Object.entries(ANONYMOUS_QUOTAS)) {
+      if (!this.serviceIndex.has(service as ApiService)) {
+        this.addKey({
+          service: service as ApiService,
+          key: '',
+          name: `${service}-anonymous`,
+          quota,
+        });
+      }
+    }
+    
     logger.info('API key manager initialized', {
       services: Array.from(this.serviceIndex.keys()),
       totalKeys: this.keys.size,
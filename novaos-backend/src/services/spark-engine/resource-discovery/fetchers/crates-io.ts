@@ -0,0 +1,103 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// CRATES.IO FETCHER — crates.io API Search
+// NovaOS Spark Engine — Phase 6: Resource Discovery
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Searches crates.io for Rust topics, recording each crate's latest version,
+// last publish date and downloads over the past 90 days.
+//
+// crates.io allows one request per second from crawlers; the crates_io quota
+// in the API key manager holds us to that on average.
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type { RawResourceCandidate } from '../types.js';
+import {
+  fetchProviderJson,
+  createApiCandidate,
+  mentionsEcosystem,
+  subjectWords,
+  type FetcherRequest,
+} from './shared.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// API TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+interface CratesSearchResponse {
+  crates?: CratesIoCrate[];
+  meta?: { total: number };
+}
+
+interface CratesIoCrate {
+  id: string;
+  name: string;
+  description?: string | null;
+  downloads: number;
+  recent_downloads?: number | null;
+  max_version: string;
+  max_stable_version?: string | null;
+  updated_at: string;
+  created_at: string;
+  homepage?: string | null;
+  documentation?: string | null;
+  repository?: string | null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/** Topics published to crates.io */
+const RUST_ECOSYSTEM: ReadonlySet<string> = new Set([
+  'rust', 'rustlang', 'cargo', 'crate', 'crates',
+]);
+
+/** crates.io caps page size at 100 */
+const MAX_PAGE_SIZE = 100;
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// FETCHER
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Search crates.io, for queries about Rust.
+ */
+export async function searchCratesIo(request: FetcherRequest): Promise<RawResourceCandidate[]> {
+  if (!mentionsEcosystem(request.query, RUST_ECOSYSTEM)) {
+    return [];
+  }
+
+  const terms = subjectWords(request.query, RUST_ECOSYSTEM);
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const url = new URL('https://crates.io/api/v1/crates');
+  url.searchParams.set('q', terms.join(' '));
+  url.searchParams.set('per_page', String(Math.min(request.maxResults, MAX_PAGE_SIZE)));
+
+  const data = await fetchProviderJson<CratesSearchResponse>('crates_io', url, { useCache: request.useCache });
+  const crates = (data?.crates ?? []).slice(0, request.maxResults);
+
+  return crates.map((crate, index) => createApiCandidate({
+    id: `crates_io:${crate.id}`,
+    url: `https://crates.io/crates/${crate.id}`,
+    source: 'crates_io_api',
+    provider: 'crates_io',
+    providerId: crate.id,
+    title: crate.name,
+    snippet: crate.description?.trim() || undefined,
+    request,
+    position: index,
+    metadata: {
+      packageName: crate.name,
+      version: crate.max_stable_version ?? crate.max_version,
+      downloads: crate.recent_downloads ?? undefined,
+      downloadPeriod: crate.recent_downloads != null ? '90_days' : undefined,
+      lastPublishedAt: crate.updated_at,
+      repositoryUrl: crate.repository ?? undefined,
+      homepageUrl: crate.documentation ?? crate.homepage ?? undefined,
+    },
+  }));
+}
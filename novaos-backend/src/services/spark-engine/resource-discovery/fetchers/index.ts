@@ -0,0 +1,41 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// PROVIDER FETCHERS MODULE — Stack Overflow, MDN and Package Registries
+// NovaOS Spark Engine — Phase 6: Resource Discovery
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type { ProviderFetcher, ProviderSourceType } from './shared.js';
+import { searchStackOverflow } from './stackoverflow.js';
+import { searchMdn } from './mdn.js';
+import { searchNpm } from './npm.js';
+import { searchPyPI } from './pypi.js';
+import { searchCratesIo } from './crates-io.js';
+
+export {
+  // Types
+  type ProviderSourceType,
+  type FetcherRequest,
+  type ProviderFetcher,
+  type ProviderFetchOptions,
+
+  // Shared
+  fetchProviderJson,
+} from './shared.js';
+
+export {
+  searchStackOverflow,
+  searchMdn,
+  searchNpm,
+  searchPyPI,
+  searchCratesIo,
+};
+
+/**
+ * Fetcher for each provider discovery source.
+ */
+export const PROVIDER_FETCHERS: Readonly<Record<ProviderSourceType, ProviderFetcher>> = {
+  stackoverflow_api: searchStackOverflow,
+  mdn_search: searchMdn,
+  npm_registry: searchNpm,
+  pypi_api: searchPyPI,
+  crates_io_api: searchCratesIo,
+};
@@ -0,0 +1,117 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// MDN FETCHER — MDN Web Docs Search
+// NovaOS Spark Engine — Phase 6: Resource Discovery
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Searches MDN for web platform topics, then reads each page's document JSON
+// for its last-modified date and table of contents, so steps can link
+// straight to a section.
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type { DocSection, RawResourceCandidate } from '../types.js';
+import {
+  fetchProviderJson,
+  createApiCandidate,
+  mentionsEcosystem,
+  stripTags,
+  type FetcherRequest,
+} from './shared.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// API TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+interface MdnSearchResponse {
+  documents?: MdnSearchDocument[];
+}
+
+interface MdnSearchDocument {
+  mdn_url: string;
+  title: string;
+  summary?: string;
+  slug?: string;
+  locale?: string;
+  score?: number;
+  popularity?: number;
+}
+
+interface MdnDocumentResponse {
+  doc?: {
+    title: string;
+    mdn_url: string;
+    modified?: string;
+    toc?: Array<{ id: string; text: string }>;
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const MDN_ORIGIN = 'https://developer.mozilla.org';
+
+/** Topics MDN documents */
+const WEB_ECOSYSTEM: ReadonlySet<string> = new Set([
+  'javascript', 'js', 'typescript', 'ts', 'html', 'css', 'dom', 'web',
+  'browser', 'http', 'frontend', 'webassembly', 'wasm', 'svg',
+]);
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// FETCHER
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Search MDN, for queries about the web platform.
+ */
+export async function searchMdn(request: FetcherRequest): Promise<RawResourceCandidate[]> {
+  if (!mentionsEcosystem(request.query, WEB_ECOSYSTEM)) {
+    return [];
+  }
+
+  const url = new URL(`${MDN_ORIGIN}/api/v1/search`);
+  url.searchParams.set('q', request.query);
+  url.searchParams.set('locale', 'en-US');
+  url.searchParams.set('size', String(request.maxResults));
+
+  const data = await fetchProviderJson<MdnSearchResponse>('mdn', url, { useCache: request.useCache });
+  const documents = (data?.documents ?? []).slice(0, request.maxResults);
+
+  return Promise.all(documents.map(async (document, index) => {
+    const pageUrl = `${MDN_ORIGIN}${document.mdn_url}`;
+    const details = await fetchDocument(document.mdn_url, request);
+
+    return createApiCandidate({
+      id: `mdn:${document.mdn_url}`,
+      url: pageUrl,
+      source: 'mdn_search',
+      provider: 'mdn',
+      providerId: document.slug,
+      title: document.title,
+      snippet: document.summary,
+      request,
+      position: index,
+      metadata: {
+        score: document.popularity,
+        lastModifiedAt: details?.modified,
+        sections: (details?.toc ?? []).map((entry): DocSection => ({
+          title: stripTags(entry.text),
+          anchor: entry.id,
+          url: `${pageUrl}#${entry.id}`,
+        })),
+      },
+    });
+  }));
+}
+
+/**
+ * A page's document JSON, or null when it can't be read.
+ */
+async function fetchDocument(
+  mdnUrl: string,
+  request: FetcherRequest
+): Promise<MdnDocumentResponse['doc'] | null> {
+  const url = new URL(`${MDN_ORIGIN}${mdnUrl}/index.json`);
+  const data = await fetchProviderJson<MdnDocumentResponse>('mdn', url, { useCache: request.useCache });
+  return data?.doc ?? null;
+}
@@ -0,0 +1,165 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// NPM FETCHER — npm Registry Search
+// NovaOS Spark Engine — Phase 6: Resource Discovery
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Searches the npm registry for JavaScript and TypeScript topics, recording
+// each package's latest version, last publish date and weekly downloads.
+// Downloads missing from the search results come from the downloads API.
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type { RawResourceCandidate } from '../types.js';
+import {
+  fetchProviderJson,
+  createApiCandidate,
+  mentionsEcosystem,
+  subjectWords,
+  type FetcherRequest,
+} from './shared.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// API TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+interface NpmSearchResponse {
+  objects?: NpmSearchObject[];
+  total?: number;
+}
+
+interface NpmSearchObject {
+  package: {
+    name: string;
+    version: string;
+    description?: string;
+    keywords?: string[];
+    date?: string;
+    links?: {
+      npm?: string;
+      homepage?: string;
+      repository?: string;
+    };
+    publisher?: { username: string };
+  };
+  downloads?: {
+    weekly?: number;
+    monthly?: number;
+  };
+}
+
+interface NpmDownloadsPoint {
+  downloads: number;
+  package: string;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/** Topics published to npm */
+const JS_ECOSYSTEM: ReadonlySet<string> = new Set([
+  'javascript', 'js', 'typescript', 'ts', 'node', 'nodejs', 'node.js', 'npm',
+  'react', 'vue', 'angular', 'svelte', 'express', 'deno',
+]);
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// FETCHER
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Search npm, for queries about the JavaScript ecosystem.
+ */
+export async function searchNpm(request: FetcherRequest): Promise<RawResourceCandidate[]> {
+  if (!mentionsEcosystem(request.query, JS_ECOSYSTEM)) {
+    return [];
+  }
+
+  const terms = subjectWords(request.query, JS_ECOSYSTEM);
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const url = new URL('https://registry.npmjs.org/-/v1/search');
+  url.searchParams.set('text', terms.join(' '));
+  url.searchParams.set('size', String(request.maxResults));
+
+  const data = await fetchProviderJson<NpmSearchResponse>('npm', url, { useCache: request.useCache });
+  const objects = (data?.objects ?? []).slice(0, request.maxResults);
+  if (objects.length === 0) {
+    return [];
+  }
+
+  const missing = objects
+    .filter(o => o.downloads?.weekly === undefined)
+    .map(o => o.package.name);
+  const weeklyDownloads = await fetchWeeklyDownloads(missing, request);
+
+  return objects.map((object, index) => {
+    const pkg = object.package;
+
+    return createApiCandidate({
+      id: `npm:${pkg.name}`,
+      url: `https://www.npmjs.com/package/${pkg.name}`,
+      source: 'npm_registry',
+      provider: 'npm',
+      providerId: pkg.name,
+      title: pkg.name,
+      snippet: pkg.description,
+      request,
+      position: index,
+      metadata: {
+        packageName: pkg.name,
+        version: pkg.version,
+        downloads: object.downloads?.weekly ?? weeklyDownloads.get(pkg.name),
+        downloadPeriod: 'week',
+        lastPublishedAt: pkg.date,
+        repositoryUrl: pkg.links?.repository,
+        homepageUrl: pkg.links?.homepage,
+        owner: pkg.publisher?.username,
+        topics: pkg.keywords,
+      },
+    });
+  });
+}
+
+/**
+ * Last week's downloads per package.
+ *
+ * The bulk endpoint takes unscoped packages only, so scoped packages are
+ * looked up one at a time.
+ */
+async function fetchWeeklyDownloads(
+  names: readonly string[],
+  request: FetcherRequest
+): Promise<Map<string, number>> {
+  const downloads = new Map<string, number>();
+
+  const unscoped = names.filter(name => !name.startsWith('@'));
+  const lookups = [
+    ...(unscoped.length > 1 ? [unscoped] : []),
+    ...names.filter(name => name.startsWith('@') || unscoped.length === 1).map(name => [name]),
+  ];
+
+  for (const batch of lookups) {
+    const url = new URL(`https://api.npmjs.org/downloads/point/last-week/${batch.join(',')}`);
+    const data = await fetchProviderJson<NpmDownloadsPoint | Record<string, NpmDownloadsPoint | null>>(
+      'npm',
+      url,
+      { useCache: request.useCache }
+    );
+    if (!data) continue;
+
+    // One package returns a point; several return a point per package
+    const points = batch.length === 1
+      ? [data as NpmDownloadsPoint]
+      : Object.values(data as Record<string, NpmDownloadsPoint | null>);
+
+    for (const point of points) {
+      if (point && typeof point.downloads === 'number') {
+        downloads.set(point.package, point.downloads);
+      }
+    }
+  }
+
+  return downloads;
+}
@@ -0,0 +1,148 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// PYPI FETCHER — PyPI JSON API Lookup
+// NovaOS Spark Engine — Phase 6: Resource Discovery
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// PyPI has no search API, so for Python topics the fetcher looks up projects
+// named after the query's subject words (e.g. "python pandas" → pandas),
+// recording the latest version, its upload date and last month's downloads
+// from pypistats.org.
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type { RawResourceCandidate } from '../types.js';
+import {
+  fetchProviderJson,
+  createApiCandidate,
+  mentionsEcosystem,
+  subjectWords,
+  type FetcherRequest,
+} from './shared.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// API TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+interface PyPIProjectResponse {
+  info: {
+    name: string;
+    version: string;
+    summary?: string | null;
+    home_page?: string | null;
+    license?: string | null;
+    project_urls?: Record<string, string> | null;
+  };
+  urls?: Array<{ upload_time_iso_8601: string }>;
+}
+
+interface PyPIStatsRecentResponse {
+  data?: {
+    last_day?: number;
+    last_week?: number;
+    last_month?: number;
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/** Topics published to PyPI */
+const PYTHON_ECOSYSTEM: ReadonlySet<string> = new Set([
+  'python', 'python3', 'py', 'pip', 'pypi',
+]);
+
+/** project_urls labels that point at source code */
+const REPOSITORY_LABELS = ['source', 'source code', 'repository', 'code', 'github'];
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// FETCHER
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Look up PyPI projects, for queries about Python.
+ */
+export async function searchPyPI(request: FetcherRequest): Promise<RawResourceCandidate[]> {
+  if (!mentionsEcosystem(request.query, PYTHON_ECOSYSTEM)) {
+    return [];
+  }
+
+  const names = candidateNames(subjectWords(request.query, PYTHON_ECOSYSTEM))
+    .slice(0, request.maxResults);
+
+  const candidates: RawResourceCandidate[] = [];
+
+  for (const name of names) {
+    const url = new URL(`https://pypi.org/pypi/${encodeURIComponent(name)}/json`);
+    const project = await fetchProviderJson<PyPIProjectResponse>('pypi', url, { useCache: request.useCache });
+    if (!project) continue;
+
+    const info = project.info;
+    const downloads = await fetchMonthlyDownloads(info.name, request);
+
+    candidates.push(createApiCandidate({
+      id: `pypi:${normalizeName(info.name)}`,
+      url: `https://pypi.org/project/${info.name}/`,
+      source: 'pypi_api',
+      provider: 'pypi',
+      providerId: normalizeName(info.name),
+      title: info.name,
+      snippet: info.summary ?? undefined,
+      request,
+      position: candidates.length,
+      metadata: {
+        packageName: info.name,
+        version: info.version,
+        downloads,
+        downloadPeriod: downloads !== undefined ? 'month' : undefined,
+        lastPublishedAt: latestUpload(project),
+        repositoryUrl: findRepositoryUrl(info.project_urls),
+        homepageUrl: info.home_page || info.project_urls?.['Homepage'] || undefined,
+        license: info.license || undefined,
+      },
+    }));
+  }
+
+  return candidates;
+}
+
+/**
+ * Project names to try: the whole phrase first, then each word.
+ */
+function candidateNames(words: readonly string[]): string[] {
+  const names = words.length > 1 ? [words.join('-'), ...words] : [...words];
+  return [...new Set(names.map(normalizeName))];
+}
+
+/**
+ * PEP 503 name normalization.
+ */
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[-_.]+/g, '-');
+}
+
+/**
+ * Upload time of the latest release's newest file.
+ */
+function latestUpload(project: PyPIProjectResponse): string | undefined {
+  const times = (project.urls ?? []).map(file => file.upload_time_iso_8601).sort();
+  return times[times.length - 1];
+}
+
+function findRepositoryUrl(projectUrls: Record<string, string> | null | undefined): string | undefined {
+  for (const [label, url] of Object.entries(projectUrls ?? {})) {
+    if (REPOSITORY_LABELS.includes(label.toLowerCase())) {
+      return url;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Last month's downloads from pypistats.org, which shares the PyPI quota.
+ */
+async function fetchMonthlyDownloads(name: string, request: FetcherRequest): Promise<number | undefined> {
+  const url = new URL(`https://pypistats.org/api/packages/${encodeURIComponent(normalizeName(name))}/recent`);
+  const stats = await fetchProviderJson<PyPIStatsRecentResponse>('pypi', url, { useCache: request.useCache });
+  return stats?.data?.last_month;
+}
@@ -0,0 +1,284 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// PROVIDER FETCHERS — Shared Request Handling
+// NovaOS Spark Engine — Phase 6: Resource Discovery
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Every provider fetcher goes through fetchProviderJson, which:
+//   - Serves repeated requests from the resource cache
+//   - Selects a key (or anonymous access) through the API key manager
+//   - Records quota usage and marks keys rate limited on 403/429 or backoff
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { getLogger } from '../../../../observability/logging/index.js';
+import type {
+  CanonicalURL,
+  DisplayURL,
+  TopicId,
+  ResourceProvider,
+  ResourceSourceType,
+  RawResourceCandidate,
+} from '../types.js';
+import { createResourceId, RESOURCE_TTL } from '../types.js';
+import { getApiKeyManager, type ApiService } from '../api-keys/index.js';
+import { getResourceCache } from '../cache/index.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// LOGGER
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const logger = getLogger({ component: 'resource-fetchers' });
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Discovery sources served by provider fetchers.
+ */
+export type ProviderSourceType = Extract<
+  ResourceSourceType,
+  'stackoverflow_api' | 'mdn_search' | 'npm_registry' | 'pypi_api' | 'crates_io_api'
+>;
+
+/**
+ * What a fetcher is asked to find.
+ */
+export interface FetcherRequest {
+  /** Search terms built from the discovery request */
+  readonly query: string;
+
+  /** Topics the results are attributed to */
+  readonly topicIds: readonly TopicId[];
+
+  /** Maximum candidates to return */
+  readonly maxResults: number;
+
+  /** Serve and store API responses through the resource cache (default: true) */
+  readonly useCache?: boolean;
+}
+
+/**
+ * A provider fetcher.
+ */
+export type ProviderFetcher = (request: FetcherRequest) => Promise<RawResourceCandidate[]>;
+
+/**
+ * Options for a provider API call.
+ */
+export interface ProviderFetchOptions<T> {
+  /** Query parameter that carries the key, when one is configured */
+  readonly keyParam?: string;
+
+  /** Serve and store the response through the resource cache */
+  readonly useCache?: boolean;
+
+  /** Seconds the API asked us to back off, read from a successful response */
+  readonly backoffSeconds?: (data: T) => number | undefined;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/** Sent with every request; crates.io rejects requests without one */
+const USER_AGENT = 'NovaOS-ResourceDiscovery/1.0 (+https://novaos.app)';
+
+/** Snippet length limit, matching the search API fetchers */
+const MAX_SNIPPET_LENGTH = 500;
+
+/** Words that describe the learning goal rather than the subject */
+const GENERIC_TERMS: ReadonlySet<string> = new Set([
+  'tutorial', 'tutorials', 'learning', 'learn', 'guide', 'course',
+  'programming', 'basics', 'beginner', 'beginners', 'introduction', 'intro',
+]);
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// API REQUESTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Fetch JSON from a provider API with key selection, quota tracking and caching.
+ * Returns null when no quota is available or the request fails.
+ */
+export async function fetchProviderJson<T>(
+  service: ApiService,
+  url: URL,
+  options: ProviderFetchOptions<T> = {}
+): Promise<T | null> {
+  const cache = getResourceCache();
+  const cacheKey = `api:${service}:${url.toString()}`;
+  const useCache = options.useCache ?? true;
+
+  if (useCache) {
+    const cached = await cache.get<T>(cacheKey);
+    if (cached.ok) {
+      return cached.value.data;
+    }
+  }
+
+  const keyManager = getApiKeyManager();
+  const keyResult = keyManager.getKey(service);
+  if (!keyResult.ok) {
+    logger.debug('Provider API quota unavailable', { service, error: keyResult.error });
+    return null;
+  }
+
+  const keySelection = keyResult.value;
+
+  // The key goes on a copy so it never ends up in a cache key or log
+  const requestUrl = new URL(url.toString());
+  if (keySelection.key && options.keyParam) {
+    requestUrl.searchParams.set(options.keyParam, keySelection.key);
+  }
+
+  try {
+    const response = await fetch(requestUrl.toString(), {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json',
+        'User-Agent': USER_AGENT,
+      },
+    });
+
+    keyManager.recordUsage(keySelection.keyId, 1);
+
+    if (!response.ok) {
+      if (response.status === 404) {
+        logger.debug('Provider API resource not found', { service, url: url.toString() });
+        return null;
+      }
+
+      const errorText = await response.text();
+      logger.error('Provider API error', {
+        service,
+        status: response.status,
+        error: errorText.substring(0, 200),
+      });
+
+      if (response.status === 403 || response.status === 429) {
+        keyManager.markRateLimited(keySelection.keyId, parseRetryAfter(response.headers.get('retry-after')));
+      }
+
+      return null;
+    }
+
+    const data = await response.json() as T;
+
+    const backoff = options.backoffSeconds?.(data);
+    if (backoff !== undefined && backoff > 0) {
+      keyManager.markRateLimited(keySelection.keyId, backoff);
+    }
+
+    if (useCache) {
+      await cache.set(cacheKey, data, 'candidate');
+    }
+
+    return data;
+  } catch (error) {
+    logger.error('Provider API fetch error', { service, error });
+    return null;
+  }
+}
+
+/**
+ * Parse a Retry-After header given in seconds.
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds : undefined;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// QUERY HELPERS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Lowercased words of a query.
+ */
+export function queryWords(query: string): string[] {
+  return query.toLowerCase().split(/[^a-z0-9+#.-]+/).filter(Boolean);
+}
+
+/**
+ * Whether a query is about an ecosystem, e.g. Python for PyPI.
+ */
+export function mentionsEcosystem(query: string, ecosystem: ReadonlySet<string>): boolean {
+  return queryWords(query).some(word => ecosystem.has(word));
+}
+
+/**
+ * Subject words of a query: without the ecosystem name or learning-goal words,
+ * which only add noise to registry searches.
+ */
+export function subjectWords(query: string, ecosystem: ReadonlySet<string>): string[] {
+  return queryWords(query).filter(word => !ecosystem.has(word) && !GENERIC_TERMS.has(word));
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CANDIDATES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Build a raw candidate for an API result.
+ */
+export function createApiCandidate(params: {
+  readonly id: string;
+  readonly url: string;
+  readonly source: ProviderSourceType;
+  readonly provider: ResourceProvider;
+  readonly providerId?: string;
+  readonly title: string;
+  readonly snippet?: string;
+  readonly request: FetcherRequest;
+  readonly position: number;
+  readonly metadata: NonNullable<RawResourceCandidate['metadata']>;
+}): RawResourceCandidate {
+  const now = new Date();
+
+  return {
+    id: createResourceId(params.id),
+    canonicalUrl: params.url as CanonicalURL,
+    displayUrl: params.url as unknown as DisplayURL,
+    source: {
+      type: params.source,
+      discoveredAt: now,
+      query: params.request.query,
+      resultPosition: params.position,
+    },
+    provider: params.provider,
+    providerId: params.providerId,
+    topicIds: params.request.topicIds,
+    title: params.title,
+    snippet: params.snippet?.substring(0, MAX_SNIPPET_LENGTH),
+    createdAt: now,
+    expiresAt: new Date(now.getTime() + RESOURCE_TTL.API_SEARCH_MS),
+    metadata: {
+      query: params.request.query,
+      resultPosition: params.position,
+      ...params.metadata,
+    },
+  };
+}
+
+/**
+ * Decode the HTML entities APIs leave in plain-text fields.
+ */
+export function decodeEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Strip markup from an HTML fragment.
+ */
+export function stripTags(html: string): string {
+  return decodeEntities(html.replace(/<[^>]*>/g, '')).trim();
+}
@@ -0,0 +1,164 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// STACK OVERFLOW FETCHER — Stack Exchange API Search
+// NovaOS Spark Engine — Phase 6: Resource Discovery
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Finds highly voted, answered questions and records their votes, answer
+// counts and accepted answer (with its votes, from a second batched call).
+//
+// Works without a key at the anonymous quota; STACKOVERFLOW_KEY raises it.
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type { RawResourceCandidate } from '../types.js';
+import {
+  fetchProviderJson,
+  createApiCandidate,
+  decodeEntities,
+  type FetcherRequest,
+} from './shared.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// API TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+interface StackExchangeResponse<T> {
+  items?: T[];
+  has_more?: boolean;
+  quota_max?: number;
+  quota_remaining?: number;
+  backoff?: number;
+}
+
+interface StackOverflowQuestion {
+  question_id: number;
+  title: string;
+  link: string;
+  score: number;
+  answer_count: number;
+  is_answered: boolean;
+  accepted_answer_id?: number;
+  view_count: number;
+  tags: string[];
+  creation_date: number;
+  last_activity_date: number;
+  owner?: {
+    reputation?: number;
+    display_name?: string;
+  };
+}
+
+interface StackOverflowAnswer {
+  answer_id: number;
+  score: number;
+  is_accepted: boolean;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const API_BASE = 'https://api.stackexchange.com/2.3';
+
+/** Stack Exchange caps page size at 100; search results past 30 are rarely useful */
+const MAX_PAGE_SIZE = 30;
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// FETCHER
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Search Stack Overflow for answered questions, most votes first.
+ */
+export async function searchStackOverflow(request: FetcherRequest): Promise<RawResourceCandidate[]> {
+  const url = new URL(`${API_BASE}/search/advanced`);
+  url.searchParams.set('q', request.query);
+  url.searchParams.set('site', 'stackoverflow');
+  url.searchParams.set('order', 'desc');
+  url.searchParams.set('sort', 'votes');
+  url.searchParams.set('answers', '1');
+  url.searchParams.set('pagesize', String(Math.min(request.maxResults, MAX_PAGE_SIZE)));
+
+  const data = await fetchProviderJson<StackExchangeResponse<StackOverflowQuestion>>(
+    'stackoverflow',
+    url,
+    { keyParam: 'key', useCache: request.useCache, backoffSeconds: (d) => d.backoff }
+  );
+  const questions = (data?.items ?? []).slice(0, request.maxResults);
+  if (questions.length === 0) {
+    return [];
+  }
+
+  const acceptedVotes = await fetchAcceptedAnswerVotes(questions, request);
+
+  return questions.map((question, index) => {
+    const acceptedAnswerId = question.accepted_answer_id;
+
+    return createApiCandidate({
+      id: `stackoverflow:${question.question_id}`,
+      url: `https://stackoverflow.com/questions/${question.question_id}`,
+      source: 'stackoverflow_api',
+      provider: 'stackoverflow',
+      providerId: String(question.question_id),
+      title: decodeEntities(question.title),
+      snippet: describeQuestion(question),
+      request,
+      position: index,
+      metadata: {
+        votes: question.score,
+        answerCount: question.answer_count,
+        isAnswered: question.is_answered,
+        acceptedAnswerId,
+        acceptedAnswerVotes: acceptedAnswerId !== undefined ? acceptedVotes.get(acceptedAnswerId) : undefined,
+        viewCount: question.view_count,
+        tags: question.tags,
+        authorReputation: question.owner?.reputation,
+        publishedAt: new Date(question.creation_date * 1000).toISOString(),
+        updatedAt: new Date(question.last_activity_date * 1000).toISOString(),
+      },
+    });
+  });
+}
+
+/**
+ * Votes on the accepted answers of a page of questions, in one request.
+ */
+async function fetchAcceptedAnswerVotes(
+  questions: readonly StackOverflowQuestion[],
+  request: FetcherRequest
+): Promise<Map<number, number>> {
+  const votes = new Map<number, number>();
+
+  const ids = questions
+    .map(q => q.accepted_answer_id)
+    .filter((id): id is number => id !== undefined);
+  if (ids.length === 0) {
+    return votes;
+  }
+
+  const url = new URL(`${API_BASE}/answers/${ids.join(';')}`);
+  url.searchParams.set('site', 'stackoverflow');
+  url.searchParams.set('pagesize', String(ids.length));
+
+  const data = await fetchProviderJson<StackExchangeResponse<StackOverflowAnswer>>(
+    'stackoverflow',
+    url,
+    { keyParam: 'key', useCache: request.useCache, backoffSeconds: (d) => d.backoff }
+  );
+
+  for (const answer of data?.items ?? []) {
+    votes.set(answer.answer_id, answer.score);
+  }
+
+  return votes;
+}
+
+/**
+ * One-line summary, since search results carry no body.
+ */
+function describeQuestion(question: StackOverflowQuestion): string {
+  const answers = `${question.answer_count} answer${question.answer_count === 1 ? '' : 's'}`;
+  const accepted = question.accepted_answer_id !== undefined ? ', accepted answer' : '';
+  const tags = question.tags.length > 0 ? ` · ${question.tags.join(', ')}` : '';
+  return `${question.score} votes · ${answers}${accepted}${tags}`;
+}
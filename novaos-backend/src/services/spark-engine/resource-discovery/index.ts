@@ -11,6 +11,7 @@
 //   - Topic taxonomy with token-based matching
 //   - Known source registry with HMAC integrity
 //   - API key management with rotation and quota tracking
+//   - Provider fetchers for Stack Overflow, MDN, npm, PyPI and crates.io
 //   - Multi-tier caching with TTL per resource stage
 //   - Full discovery pipeline orchestration
 //
@@ -52,6 +53,7 @@ export {
   type GitHubMetadata,
   type WebPageMetadata,
   type ProviderMetadata,
+  type DocSection,
   
   // Quality and verification
   type QualitySignals,
@@ -311,6 +313,27 @@ export {
   resetResourceCache,
 } from './cache/index.js';
 
+// ─────────────────────────────────────────────────────────────────────────────────
+// PROVIDER FETCHERS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export {
+  // Types
+  type ProviderSourceType,
+  type FetcherRequest,
+  type ProviderFetcher,
+  type ProviderFetchOptions,
+  
+  // Fetchers
+  PROVIDER_FETCHERS,
+  fetchProviderJson,
+  searchStackOverflow,
+  searchMdn,
+  searchNpm,
+  searchPyPI,
+  searchCratesIo,
+} from './fetchers/index.js';
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // ORCHESTRATOR
 // ─────────────────────────────────────────────────────────────────────────────────
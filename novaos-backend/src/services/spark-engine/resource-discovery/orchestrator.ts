@@ -57,6 +57,7 @@ import { getKnownSourcesRegistry, type KnownSourceMatch } from './known-sources/
 import type { TopicMatchResult } from './taxonomy/index.js';
 import { getResourceCache, type CacheGetResult } from './cache/index.js';
 import { getApiKeyManager, type KeySelection } from './api-keys/index.js';
+import { PROVIDER_FETCHERS } from './fetchers/index.js';
 
 // ─────────────────────────────────────────────────────────────────────────────────
 // LOGGER
@@ -130,8 +131,13 @@ export const DEFAULT_ORCHESTRATOR_CONFIG: OrchestratorConfig = {
     { type: 'curated_list', enabled: true, priority: 2, maxResults: 10 },
     { type: 'youtube_api', enabled: true, priority: 3, maxResults: 10 },
     { type: 'github_api', enabled: true, priority: 4, maxResults: 10 },
-    { type: 'tavily_search', enabled: true, priority: 5, maxResults: 10 },
-    { type: 'google_cse', enabled: false, priority: 6, maxResults: 10 },  // Disabled - requires CSE setup
+    { type: 'mdn_search', enabled: true, priority: 5, maxResults: 5 },
+    { type: 'stackoverflow_api', enabled: true, priority: 6, maxResults: 5 },
+    { type: 'npm_registry', enabled: true, priority: 7, maxResults: 5 },
+    { type: 'pypi_api', enabled: true, priority: 7, maxResults: 5 },
+    { type: 'crates_io_api', enabled: true, priority: 7, maxResults: 5 },
+    { type: 'tavily_search', enabled: true, priority: 8, maxResults: 10 },
+    { type: 'google_cse', enabled: false, priority: 9, maxResults: 10 },  // Disabled - requires CSE setup
   ],
 };
 
@@ -500,6 +506,19 @@ export class ResourceDiscoveryOrchestrator {
       case 'github_api':
         return this.findFromGitHubApi(request, source.maxResults);
       
+      case 'stackoverflow_api':
+      case 'mdn_search':
+      case 'npm_registry':
+      case 'pypi_api':
+      case 'crates_io_api':
+        // Registry and docs searches work best on the bare subject
+        return PROVIDER_FETCHERS[source.type]({
+          query: this.buildSearchQuery(request, ''),
+          topicIds: request.topics,
+          maxResults: source.maxResults,
+          useCache: this.config.enableCache,
+        });
+      
       case 'tavily_search':
         return this.findFromTavily(request, source.maxResults);
       
@@ -1330,8 +1349,11 @@ export class ResourceDiscoveryOrchestrator {
     candidate: RawResourceCandidate & { classification: ClassificationResult }
   ): QualitySignals {
     let popularity = 0.5;
+    let recency = 0.7; // Assume reasonably recent
     let authority = 0.5;
     let starCount: number | undefined;
+    let upvotes: number | undefined;
+    let lastUpdatedDays: number | undefined;
     
     // Boost for known sources
     if (candidate.classification.knownSource) {
@@ -1347,16 +1369,36 @@ export class ResourceDiscoveryOrchestrator {
       starCount = metadata.stars;
       popularity = Math.min(0.9, 0.3 + Math.log10(metadata.stars + 1) / 5);
     }
-    
+    if (typeof metadata?.votes === 'number') {
+      // Stack Overflow votes; an accepted answer vouches for the question
+      upvotes = metadata.votes;
+      popularity = Math.min(0.9, 0.3 + Math.log10(Math.max(0, metadata.votes) + 1) / 5);
+      if (metadata.acceptedAnswerId !== undefined) {
+        authority = Math.max(authority, 0.7);
+      }
+    }
+    if (typeof metadata?.downloads === 'number') {
+      // Package downloads run to millions a week
+      popularity = Math.min(0.9, 0.2 + Math.log10(metadata.downloads + 1) / 10);
+    }
+
+    const lastChange = Date.parse(metadata?.lastPublishedAt ?? metadata?.lastModifiedAt ?? '');
+    if (Number.isFinite(lastChange)) {
+      lastUpdatedDays = Math.max(0, Math.floor((Date.now() - lastChange) / 86_400_000));
+      recency = lastUpdatedDays <= 180 ? 0.9 : lastUpdatedDays <= 730 ? 0.7 : 0.4;
+    }
+
     return {
       popularity,
-      recency: 0.7, // Assume reasonably recent
+      recency,
       authority,
       completeness: 0.6,
-      composite: (popularity + 0.7 + authority + 0.6) / 4,
+      composite: (popularity + recency + authority + 0.6) / 4,
       details: {
         starCount,
+        upvotes,
         ageInDays: 0, // Unknown at this stage
+        lastUpdatedDays,
       },
     };
   }
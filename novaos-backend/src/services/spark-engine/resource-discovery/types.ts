@@ -58,6 +58,11 @@ export type ResourceSourceType =
   | 'known_source'      // Pre-verified official documentation
   | 'youtube_api'       // YouTube Data API search
   | 'github_api'        // GitHub API search
+  | 'stackoverflow_api' // Stack Exchange API search
+  | 'mdn_search'        // MDN site search
+  | 'npm_registry'      // npm registry search
+  | 'pypi_api'          // PyPI JSON API lookup
+  | 'crates_io_api'     // crates.io API search
   | 'web_search'        // General web search
   | 'tavily_search'     // Tavily API search
   | 'google_cse'        // Google Custom Search Engine
@@ -215,9 +220,43 @@ export interface RawResourceCandidate {
     readonly displayLink?: string;
     readonly formattedUrl?: string;
     readonly htmlSnippet?: string;
+    // Stack Overflow-specific
+    readonly votes?: number;
+    readonly answerCount?: number;
+    readonly isAnswered?: boolean;
+    readonly acceptedAnswerId?: number;
+    readonly acceptedAnswerVotes?: number;
+    readonly tags?: readonly string[];
+    readonly authorReputation?: number;
+    // Package registry-specific (npm, PyPI, crates.io)
+    readonly packageName?: string;
+    readonly version?: string;
+    readonly downloads?: number;
+    readonly downloadPeriod?: 'week' | 'month' | '90_days';
+    readonly lastPublishedAt?: string;
+    readonly repositoryUrl?: string;
+    readonly homepageUrl?: string;
+    readonly license?: string;
+    // MDN-specific
+    readonly lastModifiedAt?: string;
+    readonly sections?: readonly DocSection[];
   };
 }
 
+/**
+ * A linkable section of a documentation page.
+ */
+export interface DocSection {
+  /** Section heading */
+  readonly title: string;
+  
+  /** Fragment identifier, without '#' */
+  readonly anchor: string;
+  
+  /** Page URL with the fragment */
+  readonly url: string;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // PROVIDER METADATA (Provider-specific details)
 // ─────────────────────────────────────────────────────────────────────────────────
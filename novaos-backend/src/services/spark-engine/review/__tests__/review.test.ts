@@ -0,0 +1,302 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// REVIEW TESTS — SM-2 Scheduling, Review Items & Daily Queues
+// NovaOS Spark Engine — Review Scheduling
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { DateTime } from 'luxon';
+import { ok } from '../../../../types/result.js';
+import type { AsyncAppResult } from '../../../../types/result.js';
+import {
+  createGoalId,
+  createQuestId,
+  createStepId,
+  createUserId,
+  createTimestamp,
+  type StepId,
+  type UserId,
+} from '../../../../types/branded.js';
+
+import type { Goal, Quest, Step } from '../../types.js';
+import type { ISparkEngineStore } from '../../interfaces.js';
+import type { IReviewStore } from '../../store/types.js';
+import {
+  initialSchedule,
+  nextSchedule,
+  qualityFromDifficulty,
+  qualityFromQuizScore,
+  addDays,
+} from '../sm2.js';
+import { ReviewService } from '../service.js';
+import type { ReviewItem, ReviewQueue } from '../types.js';
+import { ReviewErrorCode } from '../types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TEST FIXTURES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+function createTestStep(questId: Step['questId'], overrides: Partial<Step> = {}): Step {
+  return {
+    id: createStepId(),
+    questId,
+    title: 'Day 1: Variables',
+    description: 'Declaring variables in JavaScript',
+    status: 'completed',
+    order: 1,
+    createdAt: createTimestamp(),
+    updatedAt: createTimestamp(),
+    scheduledDate: '2025-01-01',
+    dayNumber: 1,
+    ...overrides,
+  };
+}
+
+function createTestItem(userId: UserId, overrides: Partial<ReviewItem> = {}): ReviewItem {
+  return {
+    stepId: createStepId(),
+    userId,
+    goalId: createGoalId(),
+    questId: createQuestId(),
+    title: 'Review me',
+    schedule: { easeFactor: 2.5, intervalDays: 1, repetitions: 1, lapses: 0 },
+    dueDate: '2025-01-01',
+    source: 'completion',
+    reviewCount: 0,
+    createdAt: createTimestamp(),
+    updatedAt: createTimestamp(),
+    ...overrides,
+  };
+}
+
+function createMockReviewStore(): IReviewStore & {
+  items: Map<string, ReviewItem>;
+  queues: Map<string, ReviewQueue>;
+} {
+  const items = new Map<string, ReviewItem>();
+  const queues = new Map<string, ReviewQueue>();
+  return {
+    items,
+    queues,
+    save: vi.fn(async (item: ReviewItem): AsyncAppResult<ReviewItem> => {
+      items.set(item.stepId, item);
+      return ok(item);
+    }),
+    get: vi.fn(async (stepId: StepId): AsyncAppResult<ReviewItem | null> => {
+      return ok(items.get(stepId) ?? null);
+    }),
+    delete: vi.fn(async (stepId: StepId): AsyncAppResult<boolean> => {
+      return ok(items.delete(stepId));
+    }),
+    getByUser: vi.fn(async (userId: UserId): AsyncAppResult<readonly ReviewItem[]> => {
+      return ok([...items.values()].filter(i => i.userId === userId));
+    }),
+    getUsers: vi.fn(async (): AsyncAppResult<readonly UserId[]> => {
+      return ok([...new Set([...items.values()].map(i => i.userId))]);
+    }),
+    saveQueue: vi.fn(async (queue: ReviewQueue): AsyncAppResult<ReviewQueue> => {
+      queues.set(`${queue.userId}:${queue.date}`, queue);
+      return ok(queue);
+    }),
+    getQueue: vi.fn(async (userId: UserId, date: string): AsyncAppResult<ReviewQueue | null> => {
+      return ok(queues.get(`${userId}:${date}`) ?? null);
+    }),
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SM-2
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('SM-2 scheduling', () => {
+  it('grows intervals 1, 6, then by the ease factor', () => {
+    let schedule = initialSchedule();
+    const intervals: number[] = [];
+    for (let i = 0; i < 4; i++) {
+      schedule = nextSchedule(schedule, 4);
+      intervals.push(schedule.intervalDays);
+    }
+
+    expect(intervals).toEqual([1, 6, 15, 38]);
+    expect(schedule.easeFactor).toBe(2.5);
+  });
+
+  it('resets repetitions and counts a lapse on failed recall', () => {
+    const schedule = nextSchedule(
+      { easeFactor: 2.5, intervalDays: 15, repetitions: 3, lapses: 0 },
+      1
+    );
+
+    expect(schedule).toEqual({ easeFactor: 1.96, intervalDays: 1, repetitions: 0, lapses: 1 });
+  });
+
+  it('keeps the ease factor above the floor', () => {
+    let schedule = initialSchedule();
+    for (let i = 0; i < 10; i++) {
+      schedule = nextSchedule(schedule, 0);
+    }
+    expect(schedule.easeFactor).toBe(1.3);
+  });
+
+  it('caps intervals', () => {
+    const schedule = nextSchedule(
+      { easeFactor: 2.5, intervalDays: 300, repetitions: 5, lapses: 0 },
+      5
+    );
+    expect(schedule.intervalDays).toBe(365);
+  });
+
+  it('maps difficulty and quiz scores to recall quality', () => {
+    expect(qualityFromDifficulty(1)).toBe(5);
+    expect(qualityFromDifficulty(5)).toBe(2);
+    expect(qualityFromDifficulty(undefined)).toBe(4);
+    expect(qualityFromQuizScore(95)).toBe(5);
+    expect(qualityFromQuizScore(30)).toBe(1);
+  });
+
+  it('adds days across month boundaries', () => {
+    expect(addDays('2025-01-30', 3)).toBe('2025-02-02');
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SERVICE
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('ReviewService', () => {
+  let userId: UserId;
+  let goal: Goal;
+  let quest: Quest;
+  let reviewStore: ReturnType<typeof createMockReviewStore>;
+  let service: ReviewService;
+
+  beforeEach(() => {
+    userId = createUserId();
+    goal = {
+      id: createGoalId(),
+      userId,
+      status: 'active',
+      reminderConfig: { timezone: 'Asia/Tokyo' },
+    } as Goal;
+    quest = { id: createQuestId(), goalId: goal.id } as Quest;
+
+    const store = {
+      getQuest: vi.fn(async () => ok(quest)),
+      getGoal: vi.fn(async () => ok(goal)),
+      getGoalsByUser: vi.fn(async () => ok([goal])),
+    } as unknown as ISparkEngineStore;
+
+    reviewStore = createMockReviewStore();
+    service = new ReviewService(store, reviewStore, { maxDailyReviews: 2 });
+  });
+
+  it('creates a review item when a step is completed', async () => {
+    const step = createTestStep(quest.id, { difficultyRating: 4 });
+
+    const result = await service.syncStep(step);
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      const tomorrow = addDays(DateTime.now().setZone('Asia/Tokyo').toISODate()!, 1);
+      expect(result.value).toMatchObject({
+        stepId: step.id,
+        userId,
+        goalId: goal.id,
+        source: 'completion',
+        reviewCount: 0,
+        dueDate: tomorrow,
+      });
+      expect(result.value!.schedule.easeFactor).toBe(2.36);
+    }
+  });
+
+  it('ignores steps that are not completed', async () => {
+    const result = await service.syncStep(createTestStep(quest.id, { status: 'active' }));
+
+    expect(result).toEqual(ok(null));
+    expect(reviewStore.items.size).toBe(0);
+  });
+
+  it('lets a quiz score replace the completion estimate', async () => {
+    const step = createTestStep(quest.id, { difficultyRating: 5 });
+    await service.syncStep(step);
+
+    const result = await service.recordQuizScore(step, 100);
+
+    expect(result.ok && result.value?.source).toBe('quiz');
+    expect(reviewStore.items.get(step.id)!.schedule.easeFactor).toBe(2.6);
+
+    // A later rating no longer overrides quiz data
+    await service.syncStep({ ...step, difficultyRating: 1 });
+    expect(reviewStore.items.get(step.id)!.source).toBe('quiz');
+  });
+
+  it('reschedules on review and rejects other users', async () => {
+    const item = createTestItem(userId);
+    reviewStore.items.set(item.stepId, item);
+
+    const denied = await service.submitReview(item.stepId, createUserId(), 'good');
+    expect(denied.ok).toBe(false);
+    if (!denied.ok) {
+      expect(denied.error.code).toBe(ReviewErrorCode.REVIEW_NOT_FOUND);
+    }
+
+    const result = await service.submitReview(item.stepId, userId, 'good');
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.schedule.intervalDays).toBe(6);
+      expect(result.value.reviewCount).toBe(1);
+      expect(result.value.lastRating).toBe('good');
+    }
+  });
+
+  it('caps daily reviews, most overdue first', async () => {
+    const items = [
+      createTestItem(userId, { dueDate: '2025-01-03' }),
+      createTestItem(userId, { dueDate: '2025-01-01' }),
+      createTestItem(userId, { dueDate: '2025-01-02' }),
+      createTestItem(userId, { dueDate: '2025-01-09' }),
+    ];
+    for (const item of items) reviewStore.items.set(item.stepId, item);
+
+    const result = await service.getReviewsForDate(userId, '2025-01-05');
+
+    expect(result.ok && result.value.map(i => i.dueDate)).toEqual(['2025-01-01', '2025-01-02']);
+  });
+
+  it('queues reviews once the local day reaches the queue hour', async () => {
+    const item = createTestItem(userId, { dueDate: '2025-01-01' });
+    reviewStore.items.set(item.stepId, item);
+
+    // 20:00 UTC on Jan 4 is 05:00 on Jan 5 in Tokyo: too early
+    const early = await service.queueDueReviews(new Date('2025-01-04T20:00:00Z'));
+    expect(early.ok && early.value.usersQueued).toBe(0);
+
+    // 22:00 UTC is 07:00 in Tokyo
+    const due = await service.queueDueReviews(new Date('2025-01-04T22:00:00Z'));
+    expect(due.ok && due.value).toEqual({ usersChecked: 1, usersQueued: 1, reviewsQueued: 1 });
+    expect(reviewStore.queues.get(`${userId}:2025-01-05`)?.stepIds).toEqual([item.stepId]);
+
+    // Later runs the same local day leave the queue alone
+    const again = await service.queueDueReviews(new Date('2025-01-04T23:00:00Z'));
+    expect(again.ok && again.value.usersQueued).toBe(0);
+  });
+
+  it('serves the queued list and drops items reviewed since', async () => {
+    const queued = createTestItem(userId, { dueDate: '2025-01-01' });
+    const reviewed = createTestItem(userId, { dueDate: '2025-01-01' });
+    const late = createTestItem(userId, { dueDate: '2025-01-05' });
+    for (const item of [queued, reviewed, late]) reviewStore.items.set(item.stepId, item);
+    reviewStore.queues.set(`${userId}:2025-01-05`, {
+      userId,
+      date: '2025-01-05',
+      timezone: 'Asia/Tokyo',
+      stepIds: [queued.stepId, reviewed.stepId],
+      queuedAt: createTimestamp(),
+    });
+    reviewStore.items.set(reviewed.stepId, { ...reviewed, dueDate: '2025-01-11' });
+
+    const result = await service.getReviewsForDate(userId, '2025-01-05');
+
+    expect(result.ok && result.value.map(i => i.stepId)).toEqual([queued.stepId]);
+  });
+});
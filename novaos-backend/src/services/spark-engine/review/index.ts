@@ -0,0 +1,52 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// REVIEW MODULE — Public API Exports
+// NovaOS Spark Engine — Review Scheduling
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// This module exports the spaced-repetition review public API:
+//   - ReviewService: review items, ratings and daily queues
+//   - SM-2 scheduling utilities
+//
+// Usage:
+//   import { createReviewService } from './review';
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SERVICE
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export { ReviewService, createReviewService } from './service.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export type {
+  ReviewRating,
+  ReviewSource,
+  ReviewSchedule,
+  ReviewItem,
+  ReviewQueue,
+  ReviewQueueRunResult,
+  ReviewConfig,
+} from './types.js';
+
+export {
+  REVIEW_RATINGS,
+  DEFAULT_REVIEW_CONFIG,
+  ReviewErrorCode,
+} from './types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SCHEDULING
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export {
+  initialSchedule,
+  nextSchedule,
+  qualityFromRating,
+  qualityFromDifficulty,
+  qualityFromQuizScore,
+  addDays,
+} from './sm2.js';
@@ -0,0 +1,380 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// REVIEW SERVICE — Spaced-Repetition Scheduling
+// NovaOS Spark Engine — Review Scheduling
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Turns completed steps into review items and keeps them on an SM-2 schedule:
+//   - Completion creates an item; the difficulty rating sets the first interval
+//   - Quiz scores refine an unreviewed item, or count as a review
+//   - Learner ratings move the item to its next due date
+//   - A daily queue, built in the user's timezone, caps the review load
+//
+// All dates are calendar dates (YYYY-MM-DD) in the user's timezone.
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { DateTime } from 'luxon';
+import { ok, err, isOk } from '../../../types/result.js';
+import type { AsyncAppResult } from '../../../types/result.js';
+import { createTimestamp, type StepId, type UserId } from '../../../types/branded.js';
+import { getLogger } from '../../../observability/logging/index.js';
+
+import type { Step } from '../types.js';
+import type { ISparkEngineStore, IReviewScheduler } from '../interfaces.js';
+import type { IReviewStore } from '../store/types.js';
+import {
+  initialSchedule,
+  nextSchedule,
+  qualityFromDifficulty,
+  qualityFromQuizScore,
+  qualityFromRating,
+  addDays,
+} from './sm2.js';
+import type {
+  ReviewItem,
+  ReviewRating,
+  ReviewSource,
+  ReviewConfig,
+  ReviewQueueRunResult,
+} from './types.js';
+import { DEFAULT_REVIEW_CONFIG, ReviewErrorCode } from './types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// LOGGER
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const logger = getLogger({ component: 'review-service' });
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// HELPERS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Order reviews most overdue first, then by position in the plan.
+ */
+function compareDue(a: ReviewItem, b: ReviewItem): number {
+  if (a.dueDate !== b.dueDate) {
+    return a.dueDate < b.dueDate ? -1 : 1;
+  }
+  return (a.dayNumber ?? 0) - (b.dayNumber ?? 0);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// REVIEW SERVICE
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Spaced-repetition review scheduling.
+ */
+export class ReviewService implements IReviewScheduler {
+  private readonly config: ReviewConfig;
+
+  constructor(
+    private readonly store: ISparkEngineStore,
+    private readonly reviewStore: IReviewStore,
+    config: Partial<ReviewConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_REVIEW_CONFIG, ...config };
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Scheduling (IReviewScheduler)
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  async syncStep(step: Step): AsyncAppResult<ReviewItem | null> {
+    if (step.status !== 'completed') {
+      return ok(null);
+    }
+
+    const existingResult = await this.reviewStore.get(step.id);
+    if (!isOk(existingResult)) {
+      return existingResult;
+    }
+
+    const existing = existingResult.value;
+
+    // Real recall data beats the completion-time estimate
+    if (existing && (existing.reviewCount > 0 || existing.source !== 'completion')) {
+      return ok(existing);
+    }
+
+    return this.scheduleInitial(step, qualityFromDifficulty(step.difficultyRating), 'completion');
+  }
+
+  async recordQuizScore(step: Step, score: number): AsyncAppResult<ReviewItem | null> {
+    const quality = qualityFromQuizScore(score);
+
+    const existingResult = await this.reviewStore.get(step.id);
+    if (!isOk(existingResult)) {
+      return existingResult;
+    }
+
+    const existing = existingResult.value;
+
+    if (!existing) {
+      return step.status === 'completed'
+        ? this.scheduleInitial(step, quality, 'quiz')
+        : ok(null);
+    }
+
+    // A quiz right after completion replaces the difficulty estimate;
+    // a later one counts as a review
+    if (existing.reviewCount === 0) {
+      return this.scheduleInitial(step, quality, 'quiz');
+    }
+
+    return this.applyRecall(existing, quality, 'quiz');
+  }
+
+  async getReviewsForDate(userId: UserId, date: string): AsyncAppResult<readonly ReviewItem[]> {
+    const itemsResult = await this.reviewStore.getByUser(userId);
+    if (!isOk(itemsResult)) {
+      return itemsResult;
+    }
+
+    const due = itemsResult.value.filter(item => item.dueDate <= date);
+
+    const queueResult = await this.reviewStore.getQueue(userId, date);
+    if (isOk(queueResult) && queueResult.value) {
+      // Items reviewed today have moved on and drop out of the queue
+      const queued = new Set<string>(queueResult.value.stepIds);
+      return ok(due.filter(item => queued.has(item.stepId)).sort(compareDue));
+    }
+
+    return ok(due.sort(compareDue).slice(0, this.config.maxDailyReviews));
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Learner Operations
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Get today's reviews in the user's timezone.
+   */
+  async getTodayReviews(
+    userId: UserId
+  ): AsyncAppResult<{ date: string; timezone: string; reviews: readonly ReviewItem[] }> {
+    const timezone = await this.resolveTimezone(userId);
+    const date = this.localDate(timezone);
+
+    const reviewsResult = await this.getReviewsForDate(userId, date);
+    if (!isOk(reviewsResult)) {
+      return reviewsResult;
+    }
+
+    return ok({ date, timezone, reviews: reviewsResult.value });
+  }
+
+  /**
+   * Record the learner's recall rating for a review.
+   */
+  async submitReview(
+    stepId: StepId,
+    userId: UserId,
+    rating: ReviewRating
+  ): AsyncAppResult<ReviewItem> {
+    const itemResult = await this.reviewStore.get(stepId);
+    if (!isOk(itemResult)) {
+      return itemResult;
+    }
+
+    const item = itemResult.value;
+    if (!item || item.userId !== userId) {
+      return err({
+        code: ReviewErrorCode.REVIEW_NOT_FOUND,
+        message: `No review for step: ${stepId}`,
+      });
+    }
+
+    const result = await this.applyRecall(item, qualityFromRating(rating), 'review', rating);
+    if (isOk(result)) {
+      logger.info('Review recorded', {
+        stepId,
+        rating,
+        nextDueDate: result.value.dueDate,
+        intervalDays: result.value.schedule.intervalDays,
+      });
+    }
+    return result;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Daily Queue
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Build today's review queue for every user whose local day has reached
+   * the queue hour. Users already queued for their local date are skipped,
+   * so the job can run hourly.
+   */
+  async queueDueReviews(now: Date = new Date()): AsyncAppResult<ReviewQueueRunResult> {
+    const usersResult = await this.reviewStore.getUsers();
+    if (!isOk(usersResult)) {
+      return usersResult;
+    }
+
+    let usersQueued = 0;
+    let reviewsQueued = 0;
+
+    for (const userId of usersResult.value) {
+      const timezone = await this.resolveTimezone(userId);
+      let local = DateTime.fromJSDate(now).setZone(timezone);
+      if (!local.isValid) {
+        local = DateTime.fromJSDate(now).setZone(this.config.defaultTimezone);
+      }
+      if (local.hour < this.config.queueHour) {
+        continue;
+      }
+
+      const date = local.toISODate()!;
+      const existingQueue = await this.reviewStore.getQueue(userId, date);
+      if (!isOk(existingQueue) || existingQueue.value) {
+        continue;
+      }
+
+      const dueResult = await this.getReviewsForDate(userId, date);
+      if (!isOk(dueResult) || dueResult.value.length === 0) {
+        continue;
+      }
+
+      const saveResult = await this.reviewStore.saveQueue({
+        userId,
+        date,
+        timezone,
+        stepIds: dueResult.value.map(item => item.stepId),
+        queuedAt: createTimestamp(),
+      });
+      if (!isOk(saveResult)) {
+        logger.warn('Failed to save review queue', { userId, date, error: saveResult.error.message });
+        continue;
+      }
+
+      usersQueued++;
+      reviewsQueued += dueResult.value.length;
+    }
+
+    logger.info('Review queues built', {
+      usersChecked: usersResult.value.length,
+      usersQueued,
+      reviewsQueued,
+    });
+
+    return ok({ usersChecked: usersResult.value.length, usersQueued, reviewsQueued });
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Private Helpers
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Create (or reset) an item with its first interval from `quality`.
+   */
+  private async scheduleInitial(
+    step: Step,
+    quality: number,
+    source: ReviewSource
+  ): AsyncAppResult<ReviewItem | null> {
+    const questResult = await this.store.getQuest(step.questId);
+    if (!isOk(questResult)) {
+      return questResult;
+    }
+    if (!questResult.value) {
+      return ok(null);
+    }
+
+    const goalResult = await this.store.getGoal(questResult.value.goalId);
+    if (!isOk(goalResult)) {
+      return goalResult;
+    }
+    if (!goalResult.value) {
+      return ok(null);
+    }
+
+    const goal = goalResult.value;
+    const timezone = goal.reminderConfig?.timezone ?? this.config.defaultTimezone;
+    const schedule = nextSchedule(initialSchedule(this.config), quality, this.config);
+    const now = createTimestamp();
+
+    const existingResult = await this.reviewStore.get(step.id);
+    const existing = isOk(existingResult) ? existingResult.value : null;
+
+    return this.reviewStore.save({
+      stepId: step.id,
+      userId: goal.userId,
+      goalId: goal.id,
+      questId: step.questId,
+      title: step.title,
+      objective: step.objective,
+      theme: step.theme,
+      dayNumber: step.dayNumber,
+      schedule,
+      dueDate: addDays(this.localDate(timezone), schedule.intervalDays),
+      source,
+      reviewCount: 0,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    });
+  }
+
+  /**
+   * Move an item to its next due date after a recall.
+   */
+  private async applyRecall(
+    item: ReviewItem,
+    quality: number,
+    source: ReviewSource,
+    rating?: ReviewRating
+  ): AsyncAppResult<ReviewItem> {
+    const timezone = await this.resolveTimezone(item.userId);
+    const schedule = nextSchedule(item.schedule, quality, this.config);
+    const now = createTimestamp();
+
+    return this.reviewStore.save({
+      ...item,
+      schedule,
+      dueDate: addDays(this.localDate(timezone), schedule.intervalDays),
+      source,
+      reviewCount: item.reviewCount + 1,
+      lastRating: rating ?? item.lastRating,
+      lastReviewedAt: now,
+      updatedAt: now,
+    });
+  }
+
+  /**
+   * Find the user's timezone from their first active goal with reminders.
+   */
+  private async resolveTimezone(userId: UserId): Promise<string> {
+    const goalsResult = await this.store.getGoalsByUser(userId);
+    if (!isOk(goalsResult)) {
+      return this.config.defaultTimezone;
+    }
+
+    const activeGoal = goalsResult.value.find(
+      (g) => g.status === 'active' && g.reminderConfig?.timezone
+    );
+
+    return activeGoal?.reminderConfig?.timezone ?? this.config.defaultTimezone;
+  }
+
+  /**
+   * Today's date in a timezone, falling back to the default on invalid zones.
+   */
+  private localDate(timezone: string): string {
+    const local = DateTime.now().setZone(timezone);
+    return local.isValid
+      ? local.toISODate()!
+      : DateTime.now().setZone(this.config.defaultTimezone).toISODate()!;
+  }
+}
+
+/**
+ * Create a ReviewService.
+ */
+export function createReviewService(
+  store: ISparkEngineStore,
+  reviewStore: IReviewStore,
+  config?: Partial<ReviewConfig>
+): ReviewService {
+  return new ReviewService(store, reviewStore, config);
+}
@@ -0,0 +1,136 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// SM-2 — Spaced-Repetition Interval Calculation
+// NovaOS Spark Engine — Review Scheduling
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// SuperMemo-2 with Anki-style ratings:
+//   - Recall quality 0-5; below 3 is a lapse (relearn tomorrow)
+//   - Intervals: 1 day, 6 days, then previous interval × ease factor
+//   - Ease factor moves with quality and never drops below the floor
+//
+// Quality comes from one of three signals:
+//   - Review rating (again / hard / good / easy)
+//   - Difficulty rating given when the step was completed
+//   - Quiz score
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { DateTime } from 'luxon';
+import type { DifficultyRating } from '../types.js';
+import type { ReviewRating, ReviewSchedule, ReviewConfig } from './types.js';
+import { DEFAULT_REVIEW_CONFIG } from './types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// QUALITY MAPPING
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Recall quality (0-5) for a review rating.
+ */
+export function qualityFromRating(rating: ReviewRating): number {
+  switch (rating) {
+    case 'again': return 1;
+    case 'hard': return 3;
+    case 'good': return 4;
+    case 'easy': return 5;
+  }
+}
+
+/**
+ * Recall quality (0-5) implied by a step's difficulty rating.
+ * Unrated steps are treated as "good".
+ */
+export function qualityFromDifficulty(difficulty: DifficultyRating | undefined): number {
+  switch (difficulty) {
+    case 1: return 5;
+    case 2: return 4;
+    case 3: return 4;
+    case 4: return 3;
+    case 5: return 2;
+    default: return 4;
+  }
+}
+
+/**
+ * Recall quality (0-5) implied by a quiz score (0-100).
+ */
+export function qualityFromQuizScore(score: number): number {
+  if (score >= 90) return 5;
+  if (score >= 75) return 4;
+  if (score >= 60) return 3;
+  if (score >= 40) return 2;
+  return 1;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SCHEDULING
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Schedule for an item that has never been reviewed.
+ */
+export function initialSchedule(config: ReviewConfig = DEFAULT_REVIEW_CONFIG): ReviewSchedule {
+  return {
+    easeFactor: config.initialEaseFactor,
+    intervalDays: 0,
+    repetitions: 0,
+    lapses: 0,
+  };
+}
+
+/**
+ * Apply one recall to a schedule.
+ *
+ * @param schedule - Current schedule
+ * @param quality - Recall quality (0-5)
+ * @returns The next schedule; `intervalDays` is the gap until the next review
+ */
+export function nextSchedule(
+  schedule: ReviewSchedule,
+  quality: number,
+  config: ReviewConfig = DEFAULT_REVIEW_CONFIG
+): ReviewSchedule {
+  const q = Math.max(0, Math.min(5, Math.round(quality)));
+
+  const easeFactor = Math.round(Math.max(
+    config.minEaseFactor,
+    schedule.easeFactor + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02))
+  ) * 100) / 100;
+
+  if (q < 3) {
+    return {
+      easeFactor,
+      intervalDays: 1,
+      repetitions: 0,
+      lapses: schedule.lapses + 1,
+    };
+  }
+
+  const repetitions = schedule.repetitions + 1;
+  let intervalDays: number;
+  if (repetitions === 1) {
+    intervalDays = 1;
+  } else if (repetitions === 2) {
+    intervalDays = 6;
+  } else {
+    intervalDays = Math.round(schedule.intervalDays * easeFactor);
+  }
+
+  return {
+    easeFactor,
+    intervalDays: Math.min(config.maxIntervalDays, Math.max(1, intervalDays)),
+    repetitions,
+    lapses: schedule.lapses,
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// DATES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Add days to a YYYY-MM-DD date.
+ */
+export function addDays(date: string, days: number): string {
+  return DateTime.fromISO(date, { zone: 'UTC' }).plus({ days }).toISODate()!;
+}
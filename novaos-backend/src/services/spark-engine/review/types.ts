@@ -0,0 +1,217 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// REVIEW TYPES — Spaced-Repetition Review Items
+// NovaOS Spark Engine — Review Scheduling
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// A completed step becomes a review item. Each review is rated by the learner
+// and the SM-2 schedule decides when the step resurfaces.
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type {
+  GoalId,
+  QuestId,
+  StepId,
+  UserId,
+  Timestamp,
+} from '../../../types/branded.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// RATINGS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Learner's recall rating for a review.
+ *
+ * - again: couldn't recall; relearn tomorrow
+ * - hard: recalled with serious effort
+ * - good: recalled after some thought
+ * - easy: recalled instantly
+ */
+export type ReviewRating = 'again' | 'hard' | 'good' | 'easy';
+
+/**
+ * All valid review ratings.
+ */
+export const REVIEW_RATINGS: readonly ReviewRating[] = [
+  'again',
+  'hard',
+  'good',
+  'easy',
+] as const;
+
+/**
+ * What last updated a review item's schedule.
+ */
+export type ReviewSource = 'completion' | 'quiz' | 'review';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SCHEDULE STATE
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * SM-2 scheduling state.
+ */
+export interface ReviewSchedule {
+  /** Ease factor (>= 1.3); higher means intervals grow faster */
+  readonly easeFactor: number;
+
+  /** Current interval in days */
+  readonly intervalDays: number;
+
+  /** Consecutive successful recalls */
+  readonly repetitions: number;
+
+  /** Times the learner forgot the material */
+  readonly lapses: number;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// REVIEW ITEM
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * A completed step scheduled for review.
+ * One item per step; the step's lesson content is denormalized for display.
+ */
+export interface ReviewItem {
+  /** Reviewed step (also the item's identifier) */
+  readonly stepId: StepId;
+
+  /** Owner */
+  readonly userId: UserId;
+
+  /** Parent goal */
+  readonly goalId: GoalId;
+
+  /** Parent quest */
+  readonly questId: QuestId;
+
+  /** Step title */
+  readonly title: string;
+
+  /** Step objective */
+  readonly objective?: string;
+
+  /** Step theme */
+  readonly theme?: string;
+
+  /** Day number in the learning plan */
+  readonly dayNumber?: number;
+
+  /** SM-2 state */
+  readonly schedule: ReviewSchedule;
+
+  /** Next review date in the user's timezone (YYYY-MM-DD) */
+  readonly dueDate: string;
+
+  /** What last updated the schedule */
+  readonly source: ReviewSource;
+
+  /** Number of completed reviews */
+  readonly reviewCount: number;
+
+  /** Last review rating */
+  readonly lastRating?: ReviewRating;
+
+  /** When the item was last reviewed */
+  readonly lastReviewedAt?: Timestamp;
+
+  /** Created at */
+  readonly createdAt: Timestamp;
+
+  /** Updated at */
+  readonly updatedAt: Timestamp;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// DAILY QUEUE
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Reviews queued for a user's day by the scheduler job.
+ * Fixing the list at the start of the day keeps the daily load stable.
+ */
+export interface ReviewQueue {
+  /** Owner */
+  readonly userId: UserId;
+
+  /** Queue date in the user's timezone (YYYY-MM-DD) */
+  readonly date: string;
+
+  /** Timezone the date was computed in */
+  readonly timezone: string;
+
+  /** Queued steps, most overdue first */
+  readonly stepIds: readonly StepId[];
+
+  /** When the queue was built */
+  readonly queuedAt: Timestamp;
+}
+
+/**
+ * Result of one scheduler pass.
+ */
+export interface ReviewQueueRunResult {
+  /** Users with review items */
+  readonly usersChecked: number;
+
+  /** Users whose queue was built in this pass */
+  readonly usersQueued: number;
+
+  /** Total reviews queued */
+  readonly reviewsQueued: number;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONFIGURATION
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Review scheduling configuration.
+ */
+export interface ReviewConfig {
+  /** Maximum reviews surfaced per day (overflow rolls to the next day) */
+  readonly maxDailyReviews: number;
+
+  /** Starting ease factor */
+  readonly initialEaseFactor: number;
+
+  /** Ease factor floor */
+  readonly minEaseFactor: number;
+
+  /** Interval ceiling in days */
+  readonly maxIntervalDays: number;
+
+  /** Local hour (0-23) from which the daily queue is built */
+  readonly queueHour: number;
+
+  /** Timezone when the user has none configured */
+  readonly defaultTimezone: string;
+}
+
+/**
+ * Default review configuration.
+ */
+export const DEFAULT_REVIEW_CONFIG: ReviewConfig = {
+  maxDailyReviews: 10,
+  initialEaseFactor: 2.5,
+  minEaseFactor: 1.3,
+  maxIntervalDays: 365,
+  queueHour: 6,
+  defaultTimezone: 'UTC',
+};
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// ERRORS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Review error codes.
+ */
+export const ReviewErrorCode = {
+  /** The step has no review item, or it belongs to another user */
+  REVIEW_NOT_FOUND: 'REVIEW_NOT_FOUND',
+} as const;
+
+export type ReviewErrorCode = typeof ReviewErrorCode[keyof typeof ReviewErrorCode];
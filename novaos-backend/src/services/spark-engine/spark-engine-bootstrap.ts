@@ -6,7 +6,7 @@
 // This module provides complete SparkEngine wiring for the ExecutionPipeline:
 //   - Store adapter bridging SparkEngineStoreManager → ISparkEngineStore
 //   - Full StepGenerator with resource discovery and curriculum generation
-//   - Stub implementations for optional features (ReminderService)
+//   - ReminderService delivering over web push (stub when push is unconfigured)
 //   - Enhanced TopicTaxonomy with real topic data
 //   - Factory functions for both sync (stub) and async (full) initialization
 //
@@ -24,13 +24,15 @@
 import type { Redis } from 'ioredis';
 
 import type { KeyValueStore } from '../../storage/index.js';
-import { ok, err, type AsyncAppResult } from '../../types/result.js';
+import { ok, err, type AppResult, type AsyncAppResult } from '../../types/result.js';
 import type {
   GoalId,
   QuestId,
   StepId,
   SparkId,
   UserId,
+  ReminderId,
+  Timestamp,
 } from '../../types/branded.js';
 
 // SparkEngine core
@@ -46,6 +48,7 @@ import {
   type Step,
   type Spark,
   type ReminderSchedule,
+  type ReminderStatus,
 } from './index.js';
 
 // Store layer
@@ -53,6 +56,17 @@ import {
   createStoreManager as createSparkEngineStoreManager,
   type SparkEngineStoreManager,
 } from './store/index.js';
+import type { ReminderStore } from './store/reminder-store.js';
+
+// Reminder delivery
+import {
+  createReminderService,
+  type ReminderService,
+  type IReminderStore,
+} from './reminder-service/index.js';
+import { getWebPushProvider } from '../../notifications/push/provider.js';
+import { PushReminderSender } from '../../notifications/push/reminder-sender.js';
+import { loadConfig } from '../../config/index.js';
 
 // SparkGenerator (full implementation)
 import { createSparkGenerator } from './spark-generator/generator.js';
@@ -80,6 +94,18 @@ import {
   resetSecureLLMClient,
 } from './curriculum-llm-adapter.js';
 
+// Quiz activities
+import { createQuizService, createQuizGenerator, type QuizService } from './quiz/index.js';
+
+// Spaced-repetition reviews
+import { createReviewService, type ReviewService } from './review/index.js';
+
+// Adaptive pacing
+import { createAdaptationService, type AdaptationService } from './adaptation/index.js';
+
+// Calendar feeds and exports
+import { createCalendarService, type CalendarService } from './calendar/index.js';
+
 // Encryption
 import { getEncryptionService } from '../../security/encryption/service.js';
 
@@ -181,6 +207,14 @@ export class SparkEngineStoreAdapter implements ISparkEngineStore {
     return this.manager.steps.get(stepId);
   }
 
+  async deleteStep(stepId: StepId): AsyncAppResult<void> {
+    const result = await this.manager.steps.delete(stepId);
+    if (!result.ok) {
+      return err(result.error);
+    }
+    return ok(undefined);
+  }
+
   async getStepsByQuest(questId: QuestId): AsyncAppResult<readonly Step[]> {
     const result = await this.manager.steps.getByQuest(questId, { limit: 100 });
     if (!result.ok) {
@@ -451,6 +485,77 @@ class StubReminderService implements IReminderService {
   }
 }
 
+// ═══════════════════════════════════════════════════════════════════════════════
+// REMINDER STORE ADAPTER — Bridges ReminderStore to the ReminderService store
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Adapter that bridges the Phase 12 ReminderStore (Result-returning) to the
+ * plain-promise IReminderStore the ReminderService expects.
+ *
+ * Store failures are thrown so the reminder job records them.
+ */
+class ReminderStoreAdapter implements IReminderStore {
+  constructor(private readonly reminders: ReminderStore) {}
+
+  async save(reminder: ReminderSchedule): Promise<void> {
+    unwrap(await this.reminders.save(reminder));
+  }
+
+  async get(reminderId: string): Promise<ReminderSchedule | null> {
+    return unwrap(await this.reminders.get(reminderId as ReminderId));
+  }
+
+  async getPendingByUser(userId: UserId): Promise<readonly ReminderSchedule[]> {
+    return unwrap(await this.reminders.getPendingByUser(userId));
+  }
+
+  async getPendingBySpark(sparkId: SparkId): Promise<readonly ReminderSchedule[]> {
+    return unwrap(await this.reminders.getPendingBySpark(sparkId));
+  }
+
+  async getDueReminders(): Promise<readonly ReminderSchedule[]> {
+    return unwrap(await this.reminders.getDueReminders());
+  }
+
+  async updateStatus(reminderId: string, status: ReminderStatus, timestamp?: Timestamp): Promise<void> {
+    unwrap(await this.reminders.updateStatus(reminderId as ReminderId, status, timestamp));
+  }
+
+  async deleteBySpark(sparkId: SparkId): Promise<number> {
+    return unwrap(await this.reminders.deleteBySpark(sparkId));
+  }
+}
+
+function unwrap<T>(result: AppResult<T>): T {
+  if (!result.ok) {
+    throw new Error(result.error.message);
+  }
+  return result.value;
+}
+
+/**
+ * Create the push-backed ReminderService, or null when web push can't sign
+ * requests (disabled, or production without VAPID keys).
+ */
+function createPushReminderService(
+  storeManager: SparkEngineStoreManager,
+  kvStore: KeyValueStore
+): ReminderService | null {
+  const push = loadConfig().push;
+  const hasVapidKeys = Boolean(push.vapidPublicKey && push.vapidPrivateKey) || push.generateDevKeys;
+  const provider = hasVapidKeys ? getWebPushProvider() : null;
+  if (!provider) {
+    return null;
+  }
+
+  return createReminderService(
+    new ReminderStoreAdapter(storeManager.reminders),
+    new PushReminderSender(provider),
+    kvStore
+  );
+}
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // BOOTSTRAP CONFIGURATION
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -465,7 +570,7 @@ export interface SparkEngineBootstrapConfig {
   /** Use stub step generator (default: true) */
   readonly useStubStepGenerator?: boolean;
 
-  /** Use stub reminder service (default: true) */
+  /** Use stub reminder service (default: false; also stubbed when web push is unconfigured) */
   readonly useStubReminderService?: boolean;
 
   /** SparkGenerator config */
@@ -492,7 +597,7 @@ export const DEFAULT_BOOTSTRAP_CONFIG: Required<Omit<SparkEngineBootstrapConfig,
   Pick<SparkEngineBootstrapConfig, 'stepGeneratorConfig' | 'resourceDiscoveryConfig' | 'additionalTopics'> = {
   encryptionEnabled: true,
   useStubStepGenerator: true,
-  useStubReminderService: true,
+  useStubReminderService: false,
   sparkGeneratorConfig: {},
   stepGeneratorConfig: undefined,
   resourceDiscoveryConfig: undefined,
@@ -516,12 +621,27 @@ export interface SparkEngineBootstrapResult {
   /** The store adapter (implements ISparkEngineStore) */
   readonly storeAdapter: ISparkEngineStore;
 
+  /** Step quiz delivery and grading */
+  readonly quizService: QuizService;
+
+  /** Spaced-repetition review scheduling */
+  readonly reviewService: ReviewService;
+
+  /** Adaptive pacing of upcoming steps */
+  readonly adaptationService: AdaptationService;
+
+  /** iCalendar feeds and exports of scheduled steps */
+  readonly calendarService: CalendarService;
+
   /** The topic taxonomy (for topic lookups) */
   readonly taxonomy: ITopicTaxonomy;
 
   /** The resource discovery orchestrator (null if stub mode) */
   readonly resourceDiscovery: ResourceDiscoveryOrchestrator | null;
 
+  /** The push-backed reminder service that delivers due reminders (null if stub mode) */
+  readonly reminderDelivery: ReminderService | null;
+
   /** Configuration used */
   readonly config: SparkEngineBootstrapConfig;
 
@@ -587,35 +707,70 @@ export function bootstrapSparkEngine(
   console.log('[SPARK_ENGINE_BOOTSTRAP] StepGenerator created (stub)');
 
   // 5. Create ReminderService
-  const reminderService = new StubReminderService();
-  console.log('[SPARK_ENGINE_BOOTSTRAP] ReminderService created (stub)');
+  const reminderDelivery = finalConfig.useStubReminderService
+    ? null
+    : createPushReminderService(storeManager, kvStore);
+  const reminderService: IReminderService = reminderDelivery ?? new StubReminderService();
+  console.log(`[SPARK_ENGINE_BOOTSTRAP] ReminderService created (${reminderDelivery ? 'full' : 'stub'})`);
 
   // 6. Create taxonomy
   const taxonomy = new TopicTaxonomy(finalConfig.additionalTopics);
   console.log('[SPARK_ENGINE_BOOTSTRAP] TopicTaxonomy created');
 
-  // 7. Create SparkEngine
+  // 7. Create ReviewService
+  const reviewService = createReviewService(storeAdapter, storeManager.reviews);
+  console.log('[SPARK_ENGINE_BOOTSTRAP] ReviewService created');
+
+  // 8. Create AdaptationService
+  const adaptationService = createAdaptationService(storeAdapter, storeManager.adaptations);
+  console.log('[SPARK_ENGINE_BOOTSTRAP] AdaptationService created');
+
+  // 9. Create SparkEngine
   const sparkEngine = new SparkEngine(
     storeAdapter,
     stepGenerator,
     sparkGenerator,
-    reminderService
+    reminderService,
+    reviewService,
+    adaptationService
   );
   console.log('[SPARK_ENGINE_BOOTSTRAP] SparkEngine created');
 
+  // 10. Create QuizService
+  const quizService = createQuizService(
+    storeAdapter,
+    sparkEngine,
+    storeManager.quizzes,
+    createQuizGenerator()
+  );
+  console.log('[SPARK_ENGINE_BOOTSTRAP] QuizService created');
+
+  // 11. Create CalendarService
+  const calendarService = createCalendarService(
+    storeAdapter,
+    storeManager.calendarFeeds,
+    reminderService
+  );
+  console.log('[SPARK_ENGINE_BOOTSTRAP] CalendarService created');
+
   const storageStatus = kvStore.isConnected() ? 'redis' : 'memory';
 
   const result: SparkEngineBootstrapResult = {
     sparkEngine,
     storeManager,
     storeAdapter,
+    quizService,
+    reviewService,
+    adaptationService,
+    calendarService,
     taxonomy,
     resourceDiscovery: null,
+    reminderDelivery,
     config: finalConfig,
     status: {
       stepGenerator: 'stub',
       sparkGenerator: 'full',
-      reminderService: 'stub',
+      reminderService: reminderDelivery ? 'full' : 'stub',
       storage: storageStatus,
       resourceDiscovery: 'not_initialized',
       curriculumLLM: 'not_initialized',
@@ -705,37 +860,62 @@ export async function bootstrapSparkEngineAsync(
   console.log('[SPARK_ENGINE_BOOTSTRAP] StepGenerator created (full)');
 
   // 8. Create ReminderService
-  let reminderService: IReminderService;
-  let reminderServiceStatus: 'stub' | 'full';
-
-  if (finalConfig.useStubReminderService) {
-    reminderService = new StubReminderService();
-    reminderServiceStatus = 'stub';
-    console.log('[SPARK_ENGINE_BOOTSTRAP] ReminderService created (stub)');
-  } else {
-    // Full implementation not yet available
-    reminderService = new StubReminderService();
-    reminderServiceStatus = 'stub';
-    console.log('[SPARK_ENGINE_BOOTSTRAP] ReminderService created (stub - full not yet wired)');
-  }
-
-  // 9. Create SparkEngine
+  const reminderDelivery = finalConfig.useStubReminderService
+    ? null
+    : createPushReminderService(storeManager, kvStore);
+  const reminderService: IReminderService = reminderDelivery ?? new StubReminderService();
+  const reminderServiceStatus = reminderDelivery ? 'full' : 'stub';
+  console.log(`[SPARK_ENGINE_BOOTSTRAP] ReminderService created (${reminderServiceStatus})`);
+
+  // 9. Create ReviewService
+  const reviewService = createReviewService(storeAdapter, storeManager.reviews);
+  console.log('[SPARK_ENGINE_BOOTSTRAP] ReviewService created');
+
+  // 10. Create AdaptationService
+  const adaptationService = createAdaptationService(storeAdapter, storeManager.adaptations);
+  console.log('[SPARK_ENGINE_BOOTSTRAP] AdaptationService created');
+
+  // 11. Create SparkEngine
   const sparkEngine = new SparkEngine(
     storeAdapter,
     stepGenerator,
     sparkGenerator,
-    reminderService
+    reminderService,
+    reviewService,
+    adaptationService
   );
   console.log('[SPARK_ENGINE_BOOTSTRAP] SparkEngine created');
 
+  // 12. Create QuizService
+  const quizService = createQuizService(
+    storeAdapter,
+    sparkEngine,
+    storeManager.quizzes,
+    createQuizGenerator()
+  );
+  console.log('[SPARK_ENGINE_BOOTSTRAP] QuizService created');
+
+  // 13. Create CalendarService
+  const calendarService = createCalendarService(
+    storeAdapter,
+    storeManager.calendarFeeds,
+    reminderService
+  );
+  console.log('[SPARK_ENGINE_BOOTSTRAP] CalendarService created');
+
   const storageStatus = kvStore.isConnected() ? 'redis' : 'memory';
 
   const result: SparkEngineBootstrapResult = {
     sparkEngine,
     storeManager,
     storeAdapter,
+    quizService,
+    reviewService,
+    adaptationService,
+    calendarService,
     taxonomy,
     resourceDiscovery,
+    reminderDelivery,
     config: finalConfig,
     status: {
       stepGenerator: 'full',
@@ -9,6 +9,9 @@
 //   - Completion tracking
 //   - Progress computation
 //   - Reminder scheduling (via ReminderService)
+//   - Missed-day rescheduling and plan pauses
+//   - Adaptive pacing (via PaceAdapter)
+//   - Domain events for goals, quests, steps and sparks (via the event bus)
 //
 // ═══════════════════════════════════════════════════════════════════════════════
 
@@ -38,6 +41,9 @@ import type {
   TodayResult,
   PathProgress,
   ReminderConfig,
+  RescheduleOptions,
+  PausePlanParams,
+  PlanPauseResult,
 } from './types.js';
 
 import type {
@@ -46,7 +52,24 @@ import type {
   IStepGenerator,
   ISparkGenerator,
   IReminderService,
+  IReviewScheduler,
+  IPaceAdapter,
 } from './interfaces.js';
+import type { ReviewItem } from './review/types.js';
+
+import { difficultyFromScore } from './quiz/grader.js';
+import { addDays } from './review/sm2.js';
+import { DEFAULT_STEP_GENERATION_CONFIG } from './step-generator/types.js';
+import { isValidDateString } from './step-generator/day-sequence.js';
+import { planReschedule, isPausedOn } from './rescheduling/planner.js';
+import type {
+  ReschedulePolicy,
+  RescheduleResult,
+  RescheduleConfig,
+  PlanPause,
+} from './rescheduling/types.js';
+import { DEFAULT_RESCHEDULE_CONFIG, RescheduleErrorCode } from './rescheduling/types.js';
+import { goalEvents, questEvents, stepEvents, sparkEvents } from '../../events/index.js';
 
 // ─────────────────────────────────────────────────────────────────────────────────
 // CONFIGURATION
@@ -58,6 +81,9 @@ import type {
 export interface SparkEngineConfig {
   /** Default timezone if user hasn't set one */
   readonly defaultTimezone: string;
+
+  /** Missed-day rescheduling */
+  readonly reschedule: RescheduleConfig;
 }
 
 /**
@@ -65,6 +91,7 @@ export interface SparkEngineConfig {
  */
 export const DEFAULT_SPARK_ENGINE_CONFIG: SparkEngineConfig = {
   defaultTimezone: 'UTC',
+  reschedule: DEFAULT_RESCHEDULE_CONFIG,
 };
 
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -79,6 +106,8 @@ export class SparkEngine implements ISparkEngine {
   private readonly stepGenerator: IStepGenerator;
   private readonly sparkGenerator: ISparkGenerator;
   private readonly reminderService: IReminderService;
+  private readonly reviewScheduler: IReviewScheduler | null;
+  private readonly paceAdapter: IPaceAdapter | null;
   private readonly config: SparkEngineConfig;
 
   constructor(
@@ -86,12 +115,16 @@ export class SparkEngine implements ISparkEngine {
     stepGenerator: IStepGenerator,
     sparkGenerator: ISparkGenerator,
     reminderService: IReminderService,
+    reviewScheduler: IReviewScheduler | null = null,
+    paceAdapter: IPaceAdapter | null = null,
     config: Partial<SparkEngineConfig> = {}
   ) {
     this.store = store;
     this.stepGenerator = stepGenerator;
     this.sparkGenerator = sparkGenerator;
     this.reminderService = reminderService;
+    this.reviewScheduler = reviewScheduler;
+    this.paceAdapter = paceAdapter;
     this.config = { ...DEFAULT_SPARK_ENGINE_CONFIG, ...config };
   }
 
@@ -114,7 +147,16 @@ export class SparkEngine implements ISparkEngine {
       reminderConfig: params.reminderConfig,
     };
 
-    return this.store.saveGoal(goal);
+    const saveResult = await this.store.saveGoal(goal);
+    if (isOk(saveResult)) {
+      await goalEvents.created(goal.userId, {
+        id: goal.id,
+        title: goal.title,
+        description: goal.description,
+      });
+    }
+
+    return saveResult;
   }
 
   async getGoal(goalId: GoalId): AsyncAppResult<Goal | null> {
@@ -158,7 +200,17 @@ export class SparkEngine implements ISparkEngine {
       updatedAt: now,
     };
 
-    return this.store.saveGoal(updated);
+    const saveResult = await this.store.saveGoal(updated);
+    if (isOk(saveResult)) {
+      const changes = (Object.keys(updates) as (keyof UpdateGoalParams)[]).filter(
+        (key) => updates[key] !== undefined
+      );
+      if (changes.length > 0) {
+        await goalEvents.updated(updated.userId, { id: updated.id, title: updated.title, changes });
+      }
+    }
+
+    return saveResult;
   }
 
   async deleteGoal(goalId: GoalId): AsyncAppResult<void> {
@@ -184,7 +236,19 @@ export class SparkEngine implements ISparkEngine {
       estimatedDays: params.estimatedDays,
     };
 
-    return this.store.saveQuest(quest);
+    const saveResult = await this.store.saveQuest(quest);
+    if (isOk(saveResult)) {
+      const goalResult = await this.store.getGoal(quest.goalId);
+      if (isOk(goalResult) && goalResult.value) {
+        await questEvents.created(goalResult.value.userId, {
+          id: quest.id,
+          goalId: quest.goalId,
+          title: quest.title,
+        });
+      }
+    }
+
+    return saveResult;
   }
 
   async getQuestsForGoal(goalId: GoalId): AsyncAppResult<readonly Quest[]> {
@@ -219,6 +283,7 @@ export class SparkEngine implements ISparkEngine {
       if (!isOk(saveResult)) {
         return err(saveResult.error);
       }
+      await stepEvents.created(goal.userId, { id: step.id, questId: step.questId, title: step.title });
     }
 
     // Activate first quest
@@ -233,15 +298,31 @@ export class SparkEngine implements ISparkEngine {
       return err(questSaveResult.error);
     }
 
+    await questEvents.started(goal.userId, {
+      id: activatedQuest.id,
+      goalId: activatedQuest.goalId,
+      title: activatedQuest.title,
+    });
+
     // Schedule reminders for first day if there are steps
     if (stepsResult.value.length > 0) {
       const firstStep = stepsResult.value[0]!;
 
       // Generate initial spark
-      const sparkResult = await this.sparkGenerator.generateSpark(firstStep, 0);
+      const sparkResult = await this.sparkGenerator.generateSpark(
+        firstStep,
+        firstStep.baseEscalationLevel ?? 0
+      );
 
       if (isOk(sparkResult)) {
-        await this.store.saveSpark(sparkResult.value);
+        const saveResult = await this.store.saveSpark(sparkResult.value);
+        if (isOk(saveResult)) {
+          await sparkEvents.suggested(goal.userId, {
+            id: saveResult.value.id,
+            action: saveResult.value.action,
+            stepId: saveResult.value.stepId,
+          });
+        }
 
         // Schedule reminders
         await this.reminderService.scheduleReminders(sparkResult.value, goal);
@@ -283,6 +364,9 @@ export class SparkEngine implements ISparkEngine {
 
     const step = stepResult.value;
 
+    // Earlier steps due for review
+    const reviews = await this.getReviewsForDate(userId, today);
+
     // No content today
     if (!step) {
       return ok({
@@ -293,6 +377,7 @@ export class SparkEngine implements ISparkEngine {
         timezone,
         goalId: null,
         questId: null,
+        reviews,
       });
     }
 
@@ -305,12 +390,16 @@ export class SparkEngine implements ISparkEngine {
       spark = existingSparkResult.value;
     } else {
       // Generate new spark
-      const sparkResult = await this.sparkGenerator.generateSpark(step, 0);
+      const sparkResult = await this.sparkGenerator.generateSpark(
+        step,
+        step.baseEscalationLevel ?? 0
+      );
 
       if (isOk(sparkResult)) {
         const saveResult = await this.store.saveSpark(sparkResult.value);
         if (isOk(saveResult)) {
           spark = saveResult.value;
+          await sparkEvents.suggested(userId, { id: spark.id, action: spark.action, stepId: spark.stepId });
         }
       }
     }
@@ -327,6 +416,7 @@ export class SparkEngine implements ISparkEngine {
       timezone,
       goalId: quest?.goalId ?? null,
       questId: step.questId,
+      reviews,
     });
   }
 
@@ -347,7 +437,11 @@ export class SparkEngine implements ISparkEngine {
       });
     }
 
-    return this.sparkGenerator.generateSpark(stepResult.value, escalationLevel);
+    // Adaptive pacing may have lowered the step's starting variant
+    return this.sparkGenerator.generateSpark(
+      stepResult.value,
+      Math.max(escalationLevel, stepResult.value.baseEscalationLevel ?? 0)
+    );
   }
 
   // ─────────────────────────────────────────────────────────────────────────────
@@ -390,6 +484,11 @@ export class SparkEngine implements ISparkEngine {
     // Cancel pending reminders
     await this.reminderService.cancelReminders(sparkId);
 
+    const ownerId = await this.getStepOwner(spark.stepId);
+    if (ownerId) {
+      await sparkEvents.completed(ownerId, { id: spark.id, action: spark.action, duration: actualMinutes });
+    }
+
     // Check if all sparks for step are complete
     const stepSparksResult = await this.store.getSparksByStep(spark.stepId);
 
@@ -403,15 +502,10 @@ export class SparkEngine implements ISparkEngine {
         const stepResult = await this.store.getStep(spark.stepId);
 
         if (isOk(stepResult) && stepResult.value) {
-          const completedStep: Step = {
-            ...stepResult.value,
-            status: 'completed',
-            completedAt: now,
-            actualMinutes,
-            updatedAt: now,
-          };
-
-          await this.store.saveStep(completedStep);
+          const saveStepResult = await this.completeStep(stepResult.value, { actualMinutes }, ownerId);
+          if (isOk(saveStepResult)) {
+            await this.reviewScheduler?.syncStep(saveStepResult.value);
+          }
         }
       }
     }
@@ -450,6 +544,11 @@ export class SparkEngine implements ISparkEngine {
     // Cancel pending reminders
     await this.reminderService.cancelReminders(sparkId);
 
+    const ownerId = await this.getStepOwner(spark.stepId);
+    if (ownerId) {
+      await sparkEvents.declined(ownerId, { id: spark.id, action: spark.action, reason });
+    }
+
     return ok(undefined);
   }
 
@@ -473,12 +572,67 @@ export class SparkEngine implements ISparkEngine {
     const updatedStep: Step = {
       ...stepResult.value,
       difficultyRating: rating,
+      difficultySource: 'user',
       updatedAt: createTimestamp(),
     };
 
     const saveResult = await this.store.saveStep(updatedStep);
+    if (!isOk(saveResult)) {
+      return err(saveResult.error);
+    }
+
+    // A rating on a completed step sets its first review interval and
+    // feeds the learner's pace
+    await this.reviewScheduler?.syncStep(saveResult.value);
+    await this.paceAdapter?.onStepFeedback(saveResult.value);
 
-    return isOk(saveResult) ? ok(undefined) : err(saveResult.error);
+    return ok(undefined);
+  }
+
+  async recordQuizResult(
+    stepId: StepId,
+    score: number,
+    passed: boolean
+  ): AsyncAppResult<Step> {
+    const stepResult = await this.store.getStep(stepId);
+
+    if (!isOk(stepResult)) {
+      return stepResult;
+    }
+
+    if (!stepResult.value) {
+      return err({
+        code: 'NOT_FOUND',
+        message: `Step not found: ${stepId}`,
+      });
+    }
+
+    const step = stepResult.value;
+    const now = createTimestamp();
+
+    // The latest score reflects current understanding; explicit user
+    // ratings always win
+    const rating: Pick<Step, 'difficultyRating' | 'difficultySource'> =
+      step.difficultySource === 'user'
+        ? {}
+        : { difficultyRating: difficultyFromScore(score), difficultySource: 'quiz' };
+
+    const updates: Partial<Step> = {
+      ...rating,
+      quizScore: Math.max(step.quizScore ?? 0, score),
+    };
+
+    // Passing the quiz completes the step
+    const saveResult = passed && step.status !== 'completed'
+      ? await this.completeStep(step, updates, await this.getStepOwner(stepId))
+      : await this.store.saveStep({ ...step, ...updates, updatedAt: now });
+    if (!isOk(saveResult)) {
+      return err(saveResult.error);
+    }
+
+    await this.reviewScheduler?.recordQuizScore(saveResult.value, score);
+
+    return ok(saveResult.value);
   }
 
   // ─────────────────────────────────────────────────────────────────────────────
@@ -586,10 +740,373 @@ export class SparkEngine implements ISparkEngine {
     });
   }
 
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Rescheduling
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  async reschedulePlan(
+    goalId: GoalId,
+    options: RescheduleOptions = {}
+  ): AsyncAppResult<RescheduleResult> {
+    const goalResult = await this.store.getGoal(goalId);
+
+    if (!isOk(goalResult)) {
+      return goalResult;
+    }
+
+    if (!goalResult.value) {
+      return err({
+        code: 'NOT_FOUND',
+        message: `Goal not found: ${goalId}`,
+      });
+    }
+
+    const goal = goalResult.value;
+    const policy =
+      options.policy ??
+      goal.learningConfig?.reschedulePolicy ??
+      this.config.reschedule.defaultPolicy;
+
+    return this.applyReschedule(goal, policy, options.fromDate ?? this.getTodayForGoal(goal), false);
+  }
+
+  async rescheduleMissedDays(userId: UserId): AsyncAppResult<readonly RescheduleResult[]> {
+    const goalsResult = await this.store.getGoalsByUser(userId);
+
+    if (!isOk(goalsResult)) {
+      return goalsResult;
+    }
+
+    const results: RescheduleResult[] = [];
+
+    // Only goals that opted into automatic catch-up
+    for (const goal of goalsResult.value) {
+      const policy = goal.learningConfig?.reschedulePolicy;
+      if (goal.status !== 'active' || !policy) {
+        continue;
+      }
+
+      const result = await this.applyReschedule(goal, policy, this.getTodayForGoal(goal), false);
+      if (!isOk(result)) {
+        return err(result.error);
+      }
+      if (result.value.moved.length > 0 || result.value.dropped.length > 0) {
+        results.push(result.value);
+      }
+    }
+
+    return ok(results);
+  }
+
+  async pausePlan(
+    goalId: GoalId,
+    params: PausePlanParams
+  ): AsyncAppResult<PlanPauseResult> {
+    const goalResult = await this.store.getGoal(goalId);
+
+    if (!isOk(goalResult)) {
+      return goalResult;
+    }
+
+    if (!goalResult.value) {
+      return err({
+        code: 'NOT_FOUND',
+        message: `Goal not found: ${goalId}`,
+      });
+    }
+
+    const goal = goalResult.value;
+    const today = this.getTodayForGoal(goal);
+
+    const invalid = this.validatePause(params, goal.pauses ?? [], today);
+    if (invalid) {
+      return err({
+        code: RescheduleErrorCode.INVALID_PAUSE,
+        message: invalid,
+      });
+    }
+
+    const pause: PlanPause = {
+      startDate: params.startDate,
+      endDate: params.endDate,
+      reason: params.reason,
+      createdAt: createTimestamp(),
+    };
+
+    const pauses = [...(goal.pauses ?? []), pause].sort((a, b) =>
+      a.startDate.localeCompare(b.startDate)
+    );
+
+    return this.savePauses(goal, pauses, today, false);
+  }
+
+  async resumePlan(goalId: GoalId): AsyncAppResult<PlanPauseResult> {
+    const goalResult = await this.store.getGoal(goalId);
+
+    if (!isOk(goalResult)) {
+      return goalResult;
+    }
+
+    if (!goalResult.value) {
+      return err({
+        code: 'NOT_FOUND',
+        message: `Goal not found: ${goalId}`,
+      });
+    }
+
+    const goal = goalResult.value;
+    const today = this.getTodayForGoal(goal);
+    const current = (goal.pauses ?? []).find((p) => isPausedOn([p], today));
+
+    if (!current) {
+      return err({
+        code: RescheduleErrorCode.NOT_PAUSED,
+        message: `Goal is not paused: ${goalId}`,
+      });
+    }
+
+    // Days already taken off stay in the history; a pause that starts
+    // today is dropped entirely
+    const pauses = (goal.pauses ?? []).flatMap((p) =>
+      p !== current
+        ? [p]
+        : p.startDate < today
+          ? [{ ...p, endDate: addDays(today, -1) }]
+          : []
+    );
+
+    // Lay the plan out again so steps pushed past the pause come back
+    return this.savePauses(goal, pauses, today, true);
+  }
+
   // ─────────────────────────────────────────────────────────────────────────────
   // Private Helpers
   // ─────────────────────────────────────────────────────────────────────────────
 
+  /**
+   * Mark a step completed, however it got there. Closes its open sparks and
+   * their reminders, feeds the pace adapter and publishes the completion.
+   * Review scheduling is left to the caller, which knows what to record.
+   */
+  private async completeStep(
+    step: Step,
+    updates: Partial<Step>,
+    ownerId: UserId | null
+  ): AsyncAppResult<Step> {
+    const now = createTimestamp();
+
+    const saveResult = await this.store.saveStep({
+      ...step,
+      ...updates,
+      status: 'completed',
+      completedAt: now,
+      updatedAt: now,
+    });
+    if (!isOk(saveResult)) {
+      return saveResult;
+    }
+
+    const sparksResult = await this.store.getSparksByStep(step.id);
+    if (isOk(sparksResult)) {
+      for (const spark of sparksResult.value) {
+        if (spark.status === 'completed' || spark.status === 'skipped') continue;
+        await this.store.saveSpark({ ...spark, status: 'completed', updatedAt: now });
+        await this.reminderService.cancelReminders(spark.id);
+      }
+    }
+
+    await this.paceAdapter?.onStepFeedback(saveResult.value);
+    if (ownerId) {
+      await stepEvents.completed(ownerId, {
+        id: step.id,
+        questId: step.questId,
+        title: step.title,
+      });
+    }
+
+    return saveResult;
+  }
+
+  /**
+   * Due reviews for a date; review failures never block today's content.
+   */
+  private async getReviewsForDate(userId: UserId, date: string): Promise<readonly ReviewItem[]> {
+    if (!this.reviewScheduler) {
+      return [];
+    }
+    const result = await this.reviewScheduler.getReviewsForDate(userId, date);
+    return isOk(result) ? result.value : [];
+  }
+
+  /**
+   * Validate a new pause against the calendar and existing pauses.
+   */
+  private validatePause(
+    params: PausePlanParams,
+    pauses: readonly PlanPause[],
+    today: string
+  ): string | undefined {
+    const { startDate, endDate } = params;
+    const maxDays = this.config.reschedule.maxPauseDays;
+
+    if (!isValidDateString(startDate) || !isValidDateString(endDate)) {
+      return 'Pause dates must be in YYYY-MM-DD format';
+    }
+    if (startDate > endDate) {
+      return 'Pause must end on or after its start date';
+    }
+    if (endDate < today) {
+      return 'Pause must not end in the past';
+    }
+    if (addDays(startDate, maxDays) <= endDate) {
+      return `Pause must not exceed ${maxDays} days`;
+    }
+    if (pauses.some((p) => p.startDate <= endDate && startDate <= p.endDate)) {
+      return 'Pause overlaps an existing pause';
+    }
+    return undefined;
+  }
+
+  /**
+   * Save a goal's pauses and move its remaining steps around them.
+   */
+  private async savePauses(
+    goal: Goal,
+    pauses: readonly PlanPause[],
+    today: string,
+    pullForward: boolean
+  ): AsyncAppResult<PlanPauseResult> {
+    const saveResult = await this.store.saveGoal({
+      ...goal,
+      pauses,
+      updatedAt: createTimestamp(),
+    });
+
+    if (!isOk(saveResult)) {
+      return err(saveResult.error);
+    }
+
+    // Pausing is not falling behind: the plan always waits
+    const rescheduleResult = await this.applyReschedule(
+      saveResult.value,
+      'push_back',
+      today,
+      pullForward
+    );
+
+    if (!isOk(rescheduleResult)) {
+      return err(rescheduleResult.error);
+    }
+
+    return ok({ goal: saveResult.value, reschedule: rescheduleResult.value });
+  }
+
+  /**
+   * Plan and save new dates for a goal's remaining steps.
+   * Reminders of moved or dropped steps belong to the old date and are cancelled.
+   */
+  private async applyReschedule(
+    goal: Goal,
+    policy: ReschedulePolicy,
+    fromDate: string,
+    pullForward: boolean
+  ): AsyncAppResult<RescheduleResult> {
+    const stepsResult = await this.getGoalSteps(goal.id);
+
+    if (!isOk(stepsResult)) {
+      return stepsResult;
+    }
+
+    const plan = planReschedule(stepsResult.value, {
+      policy,
+      fromDate,
+      activeDays: goal.learningConfig?.activeDays ?? DEFAULT_STEP_GENERATION_CONFIG.activeDays,
+      pauses: goal.pauses,
+      dailyMinutes:
+        goal.learningConfig?.dailyTimeCommitment ?? DEFAULT_STEP_GENERATION_CONFIG.dailyMinutes,
+      maxStepsPerDay: this.config.reschedule.maxStepsPerDay,
+      pullForward,
+    });
+
+    const now = createTimestamp();
+    const moved = new Set<string>(plan.moved.map((m) => m.stepId));
+
+    for (const step of plan.changed) {
+      const saveResult = await this.store.saveStep({ ...step, updatedAt: now });
+      if (!isOk(saveResult)) {
+        return err(saveResult.error);
+      }
+
+      if (moved.has(step.id) || step.status === 'skipped') {
+        const sparkResult = await this.store.getActiveSparkForStep(step.id);
+        if (isOk(sparkResult) && sparkResult.value) {
+          await this.reminderService.cancelReminders(sparkResult.value.id);
+        }
+      }
+    }
+
+    return ok({
+      goalId: goal.id,
+      policy,
+      fromDate,
+      moved: plan.moved,
+      trimmed: plan.trimmed,
+      dropped: plan.dropped,
+      previousEndDate: plan.previousEndDate,
+      endDate: plan.endDate,
+    });
+  }
+
+  /**
+   * The user a step belongs to, through its quest and goal. Sparks and steps
+   * carry no userId of their own.
+   */
+  private async getStepOwner(stepId: StepId): Promise<UserId | null> {
+    const stepResult = await this.store.getStep(stepId);
+    if (!isOk(stepResult) || !stepResult.value) return null;
+
+    const questResult = await this.store.getQuest(stepResult.value.questId);
+    if (!isOk(questResult) || !questResult.value) return null;
+
+    const goalResult = await this.store.getGoal(questResult.value.goalId);
+    if (!isOk(goalResult) || !goalResult.value) return null;
+
+    return goalResult.value.userId;
+  }
+
+  /**
+   * All steps of a goal, in quest order.
+   */
+  private async getGoalSteps(goalId: GoalId): AsyncAppResult<readonly Step[]> {
+    const questsResult = await this.store.getQuestsByGoal(goalId);
+
+    if (!isOk(questsResult)) {
+      return questsResult;
+    }
+
+    const quests = [...questsResult.value].sort((a, b) => a.order - b.order);
+    const steps: Step[] = [];
+
+    for (const quest of quests) {
+      const stepsResult = await this.store.getStepsByQuest(quest.id);
+      if (!isOk(stepsResult)) {
+        return stepsResult;
+      }
+      steps.push(...stepsResult.value);
+    }
+
+    return ok(steps);
+  }
+
+  /**
+   * Today's date in the goal owner's timezone.
+   */
+  private getTodayForGoal(goal: Goal): string {
+    return this.getTodayInTimezone(
+      goal.reminderConfig?.timezone ?? this.config.defaultTimezone
+    );
+  }
+
   /**
    * Get today's date in the given timezone (YYYY-MM-DD format).
    */
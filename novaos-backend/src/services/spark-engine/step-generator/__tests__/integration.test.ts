@@ -38,6 +38,7 @@ function createMockStore(): ISparkEngineStore {
       return ok(step);
     }),
     getStep: vi.fn().mockImplementation(async () => ok(null)),
+    deleteStep: vi.fn().mockImplementation(async () => ok(undefined)),
     getStepsByQuest: vi.fn().mockImplementation(async () => ok(steps)),
     getStepByDate: vi.fn().mockImplementation(async () => ok(null)),
     saveSpark: vi.fn().mockImplementation(async (spark) => ok(spark)),
@@ -29,6 +29,7 @@ import {
 import type { ResourceId } from '../../../types/branded.js';
 import { getLogger } from '../../../observability/logging/index.js';
 import { incCounter, observeHistogram } from '../../../observability/metrics/index.js';
+import { runWithBudget } from '../../../usage/index.js';
 
 // Phase 8 types
 import type { IStepGenerator, ISparkEngineStore } from '../interfaces.js';
@@ -181,6 +182,10 @@ export class StepGenerator implements IStepGenerator {
    * Generate steps for a quest.
    */
   async generateSteps(quest: Quest, goal: Goal): AsyncAppResult<readonly Step[]> {
+    return runWithBudget(goal.userId, 'step_generation', () => this.runStepGeneration(quest, goal));
+  }
+
+  private async runStepGeneration(quest: Quest, goal: Goal): AsyncAppResult<readonly Step[]> {
     const startTime = Date.now();
     // Use mutable object for building diagnostics
     const diagnostics: {
@@ -579,12 +584,14 @@ export class StepGenerator implements IStepGenerator {
         section: r.focus,
         task: r.notes ?? `Study: ${r.title}`,
         minutes: r.minutes,
+        optional: r.optional,
       })),
       // Exercise activities
       ...day.exercises.map(e => ({
         type: e.type as Activity['type'],
         task: e.description,
         minutes: e.minutes,
+        optional: e.optional,
       })),
     ];
 
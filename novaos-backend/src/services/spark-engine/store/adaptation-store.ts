@@ -0,0 +1,176 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// ADAPTATION STORE — Encrypted Plan Adaptation Storage
+// NovaOS Spark Engine — Adaptive Pacing
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Persistent storage for plan adaptations with:
+//   - Encryption at rest (explanations and step snapshots)
+//   - Goal-based indexing (adaptation history per goal)
+//   - Deleted with the owning goal
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type { KeyValueStore } from '../../../storage/index.js';
+import type { EncryptionService } from '../../../security/encryption/service.js';
+import { ok, err, type AsyncAppResult } from '../../../types/result.js';
+import type { GoalId } from '../../../types/branded.js';
+import { SwordKeys } from '../../../infrastructure/redis/keys.js';
+import type { PlanAdaptation } from '../adaptation/types.js';
+import { SecureStore, storeError } from './secure-store.js';
+import type { IAdaptationStore, SecureStoreConfig } from './types.js';
+import { StoreErrorCode as ErrorCodes } from './types.js';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// ADAPTATION STORE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Encrypted storage for plan adaptations.
+ *
+ * Features:
+ * - Goal-based indexing via Redis sets
+ * - History returned newest first
+ */
+export class AdaptationStore extends SecureStore<PlanAdaptation, string> implements IAdaptationStore {
+  constructor(
+    store: KeyValueStore,
+    config: Partial<SecureStoreConfig> = {},
+    encryption?: EncryptionService
+  ) {
+    super(store, config, encryption);
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // ABSTRACT METHOD IMPLEMENTATIONS
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  protected getKey(adaptationId: string): string {
+    return SwordKeys.adaptation(adaptationId);
+  }
+
+  protected validate(adaptation: PlanAdaptation): string | undefined {
+    if (!adaptation.id) {
+      return 'Adaptation ID is required';
+    }
+    if (!adaptation.goalId) {
+      return 'Goal ID is required';
+    }
+    if (!adaptation.userId) {
+      return 'User ID is required';
+    }
+    if (!adaptation.explanation) {
+      return 'Explanation is required';
+    }
+    return undefined;
+  }
+
+  protected getId(adaptation: PlanAdaptation): string {
+    return adaptation.id;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // PUBLIC API (IAdaptationStore)
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Save an adaptation (create or update).
+   */
+  async save(adaptation: PlanAdaptation): AsyncAppResult<PlanAdaptation> {
+    const result = await this.saveEntity(adaptation);
+    if (!result.ok) {
+      return err(result.error);
+    }
+
+    try {
+      await this.store.sadd(SwordKeys.goalAdaptations(adaptation.goalId), adaptation.id);
+    } catch (error) {
+      // Rollback: an unindexed adaptation could never be undone
+      await this.deleteEntity(adaptation.id);
+      return err(
+        storeError(
+          ErrorCodes.BACKEND_ERROR,
+          `Failed to index adaptation: ${error instanceof Error ? error.message : String(error)}`,
+          { adaptationId: adaptation.id }
+        )
+      );
+    }
+
+    return ok(adaptation);
+  }
+
+  /**
+   * Get an adaptation by ID.
+   */
+  async get(adaptationId: string): AsyncAppResult<PlanAdaptation | null> {
+    return this.getEntity(adaptationId);
+  }
+
+  /**
+   * Get all adaptations for a goal, newest first.
+   */
+  async getByGoal(goalId: GoalId): AsyncAppResult<readonly PlanAdaptation[]> {
+    try {
+      const ids = await this.store.smembers(SwordKeys.goalAdaptations(goalId));
+      if (ids.length === 0) {
+        return ok([]);
+      }
+
+      const adaptationsResult = await this.getMany(ids);
+      if (!adaptationsResult.ok) {
+        return err(adaptationsResult.error);
+      }
+
+      return ok(
+        Array.from(adaptationsResult.value.values()).sort((a, b) =>
+          b.createdAt.localeCompare(a.createdAt)
+        )
+      );
+    } catch (error) {
+      return err(
+        storeError(
+          ErrorCodes.BACKEND_ERROR,
+          `Failed to get adaptations for goal: ${error instanceof Error ? error.message : String(error)}`,
+          { goalId }
+        )
+      );
+    }
+  }
+
+  /**
+   * Delete all adaptations for a goal.
+   */
+  async deleteByGoal(goalId: GoalId): AsyncAppResult<number> {
+    try {
+      const indexKey = SwordKeys.goalAdaptations(goalId);
+      const ids = await this.store.smembers(indexKey);
+
+      const deletedResult = await this.deleteMany(ids);
+      await this.store.delete(indexKey);
+
+      return deletedResult;
+    } catch (error) {
+      return err(
+        storeError(
+          ErrorCodes.BACKEND_ERROR,
+          `Failed to delete adaptations for goal: ${error instanceof Error ? error.message : String(error)}`,
+          { goalId }
+        )
+      );
+    }
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// FACTORY
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Create an AdaptationStore instance.
+ */
+export function createAdaptationStore(
+  store: KeyValueStore,
+  config?: Partial<SecureStoreConfig>,
+  encryption?: EncryptionService
+): AdaptationStore {
+  return new AdaptationStore(store, config, encryption);
+}
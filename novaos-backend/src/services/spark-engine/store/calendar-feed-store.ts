@@ -0,0 +1,185 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// CALENDAR FEED STORE — Encrypted Calendar Subscription Tokens
+// NovaOS Spark Engine — Calendar Integration
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Persistent storage for calendar feed tokens with:
+//   - Encryption at rest (the token is a credential)
+//   - One feed per user
+//   - Token lookup through a SHA-256 index, so the index holds no token
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { createHash, timingSafeEqual } from 'crypto';
+import type { KeyValueStore } from '../../../storage/index.js';
+import type { EncryptionService } from '../../../security/encryption/service.js';
+import { ok, err, type AsyncAppResult } from '../../../types/result.js';
+import type { UserId } from '../../../types/branded.js';
+import { SwordKeys } from '../../../infrastructure/redis/keys.js';
+import type { CalendarFeed } from '../calendar/types.js';
+import { SecureStore, storeError } from './secure-store.js';
+import type { ICalendarFeedStore, SecureStoreConfig } from './types.js';
+import { StoreErrorCode as ErrorCodes } from './types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// HELPERS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token, 'utf8').digest('hex');
+}
+
+function tokensMatch(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// CALENDAR FEED STORE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Encrypted storage for calendar feeds.
+ *
+ * Features:
+ * - Feed per user
+ * - Token → user index keyed by token hash
+ */
+export class CalendarFeedStore extends SecureStore<CalendarFeed, UserId> implements ICalendarFeedStore {
+  constructor(
+    store: KeyValueStore,
+    config: Partial<SecureStoreConfig> = {},
+    encryption?: EncryptionService
+  ) {
+    super(store, config, encryption);
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // ABSTRACT METHOD IMPLEMENTATIONS
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  protected getKey(userId: UserId): string {
+    return SwordKeys.userCalendarFeed(userId);
+  }
+
+  protected validate(feed: CalendarFeed): string | undefined {
+    if (!feed.userId) {
+      return 'User ID is required';
+    }
+    if (!feed.token) {
+      return 'Token is required';
+    }
+    return undefined;
+  }
+
+  protected getId(feed: CalendarFeed): UserId {
+    return feed.userId;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // PUBLIC API (ICalendarFeedStore)
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Save a user's feed and index its token.
+   */
+  async save(feed: CalendarFeed): AsyncAppResult<CalendarFeed> {
+    const result = await this.saveEntity(feed);
+    if (!result.ok) {
+      return err(result.error);
+    }
+
+    try {
+      await this.store.set(SwordKeys.calendarFeedToken(hashToken(feed.token)), feed.userId);
+    } catch (error) {
+      // Rollback: an unindexed feed URL would never resolve
+      await this.deleteEntity(feed.userId);
+      return err(
+        storeError(
+          ErrorCodes.BACKEND_ERROR,
+          `Failed to index calendar feed: ${error instanceof Error ? error.message : String(error)}`,
+          { userId: feed.userId }
+        )
+      );
+    }
+
+    return ok(feed);
+  }
+
+  /**
+   * Get a user's feed.
+   */
+  async get(userId: UserId): AsyncAppResult<CalendarFeed | null> {
+    return this.getEntity(userId);
+  }
+
+  /**
+   * Get the feed for a token, or null for unknown and revoked tokens.
+   */
+  async getByToken(token: string): AsyncAppResult<CalendarFeed | null> {
+    try {
+      const userId = await this.store.get(SwordKeys.calendarFeedToken(hashToken(token)));
+      if (!userId) {
+        return ok(null);
+      }
+
+      const feedResult = await this.getEntity(userId as UserId);
+      if (!feedResult.ok) {
+        return feedResult;
+      }
+
+      const feed = feedResult.value;
+      return ok(feed && tokensMatch(feed.token, token) ? feed : null);
+    } catch (error) {
+      return err(
+        storeError(
+          ErrorCodes.BACKEND_ERROR,
+          `Failed to resolve calendar feed: ${error instanceof Error ? error.message : String(error)}`
+        )
+      );
+    }
+  }
+
+  /**
+   * Delete a user's feed and its token index.
+   */
+  async delete(userId: UserId): AsyncAppResult<boolean> {
+    const feedResult = await this.getEntity(userId);
+    if (!feedResult.ok) {
+      return err(feedResult.error);
+    }
+    if (!feedResult.value) {
+      return ok(false);
+    }
+
+    try {
+      await this.store.delete(SwordKeys.calendarFeedToken(hashToken(feedResult.value.token)));
+    } catch (error) {
+      return err(
+        storeError(
+          ErrorCodes.BACKEND_ERROR,
+          `Failed to delete calendar feed index: ${error instanceof Error ? error.message : String(error)}`,
+          { userId }
+        )
+      );
+    }
+
+    return this.deleteEntity(userId);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// FACTORY
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Create a CalendarFeedStore instance.
+ */
+export function createCalendarFeedStore(
+  store: KeyValueStore,
+  config?: Partial<SecureStoreConfig>,
+  encryption?: EncryptionService
+): CalendarFeedStore {
+  return new CalendarFeedStore(store, config, encryption);
+}
@@ -21,6 +21,10 @@ export type {
   ISparkStore,
   IReminderStore,
   IRefinementStore,
+  IQuizStore,
+  IReviewStore,
+  IAdaptationStore,
+  ICalendarFeedStore,
   ISparkEngineStores,
   RefinementState,
   StoreErrorCode,
@@ -43,6 +47,10 @@ export { StepStore, createStepStore } from './step-store.js';
 export { SparkStore, createSparkStore } from './spark-store.js';
 export { ReminderStore, createReminderStore } from './reminder-store.js';
 export { RefinementStore, createRefinementStore } from './refinement-store.js';
+export { QuizStore, createQuizStore } from './quiz-store.js';
+export { ReviewStore, createReviewStore } from './review-store.js';
+export { AdaptationStore, createAdaptationStore } from './adaptation-store.js';
+export { CalendarFeedStore, createCalendarFeedStore } from './calendar-feed-store.js';
 
 // Store manager
 export {
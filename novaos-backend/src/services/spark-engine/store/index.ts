@@ -23,6 +23,10 @@ import { StepStore, createStepStore } from './step-store.js';
 import { SparkStore, createSparkStore } from './spark-store.js';
 import { ReminderStore, createReminderStore } from './reminder-store.js';
 import { RefinementStore, createRefinementStore } from './refinement-store.js';
+import { QuizStore, createQuizStore } from './quiz-store.js';
+import { ReviewStore, createReviewStore } from './review-store.js';
+import { AdaptationStore, createAdaptationStore } from './adaptation-store.js';
+import { CalendarFeedStore, createCalendarFeedStore } from './calendar-feed-store.js';
 import type {
   ISparkEngineStores,
   SecureStoreConfig,
@@ -46,6 +50,10 @@ export interface StoreHealthCheck {
     readonly sparks: boolean;
     readonly reminders: boolean;
     readonly refinement: boolean;
+    readonly quizzes: boolean;
+    readonly reviews: boolean;
+    readonly adaptations: boolean;
+    readonly calendarFeeds: boolean;
   };
   readonly encryption: boolean;
   readonly backend: boolean;
@@ -78,6 +86,10 @@ export class SparkEngineStoreManager implements ISparkEngineStores {
   readonly sparks: SparkStore;
   readonly reminders: ReminderStore;
   readonly refinement: RefinementStore;
+  readonly quizzes: QuizStore;
+  readonly reviews: ReviewStore;
+  readonly adaptations: AdaptationStore;
+  readonly calendarFeeds: CalendarFeedStore;
 
   private readonly store: KeyValueStore;
   private readonly config: SecureStoreConfig;
@@ -111,6 +123,10 @@ export class SparkEngineStoreManager implements ISparkEngineStores {
     this.sparks = createSparkStore(store, this.config, this.encryption);
     this.reminders = createReminderStore(store, this.config, this.encryption);
     this.refinement = createRefinementStore(store, this.config, this.encryption);
+    this.quizzes = createQuizStore(store, this.config, this.encryption);
+    this.reviews = createReviewStore(store, this.config, this.encryption);
+    this.adaptations = createAdaptationStore(store, this.config, this.encryption);
+    this.calendarFeeds = createCalendarFeedStore(store, this.config, this.encryption);
 
     // Wire up cascade delete callbacks
     this.wireCascadeDeletes();
@@ -125,14 +141,23 @@ export class SparkEngineStoreManager implements ISparkEngineStores {
    *
    * Hierarchy:
    *   Goal → Quest → Step → Spark → Reminder
+   *        → Adaptation
+   *                      → Quiz
+   *                      → Review
    *
    * When a parent is deleted, all children are deleted.
    */
   private wireCascadeDeletes(): void {
     // Goal delete → delete all quests (which cascades to steps, sparks, reminders)
+    // and the adaptation history
     this.goals.setCascadeDeleteCallback(async (goalId: GoalId): Promise<number> => {
       let count = 0;
 
+      const adaptationsResult = await this.adaptations.deleteByGoal(goalId);
+      if (adaptationsResult.ok) {
+        count += adaptationsResult.value;
+      }
+
       // Get all quests for this goal
       const questsResult = await this.quests.getByGoal(goalId, { limit: 1000 });
       if (questsResult.ok) {
@@ -165,10 +190,21 @@ export class SparkEngineStoreManager implements ISparkEngineStores {
       return count;
     });
 
-    // Step delete → delete all sparks (which cascades to reminders)
+    // Step delete → delete all sparks (which cascades to reminders), the quiz
+    // and the review item
     this.steps.setCascadeDeleteCallback(async (stepId: StepId): Promise<number> => {
       let count = 0;
 
+      const quizResult = await this.quizzes.delete(stepId);
+      if (quizResult.ok && quizResult.value) {
+        count++;
+      }
+
+      const reviewResult = await this.reviews.delete(stepId);
+      if (reviewResult.ok && reviewResult.value) {
+        count++;
+      }
+
       // Get all sparks for this step
       const sparksResult = await this.sparks.getByStep(stepId, { limit: 1000 });
       if (sparksResult.ok) {
@@ -230,6 +266,10 @@ export class SparkEngineStoreManager implements ISparkEngineStores {
           sparks: backendHealthy,
           reminders: backendHealthy,
           refinement: backendHealthy,
+          quizzes: backendHealthy,
+          reviews: backendHealthy,
+          adaptations: backendHealthy,
+          calendarFeeds: backendHealthy,
         },
         encryption: encryptionHealthy,
         backend: backendHealthy,
@@ -247,6 +287,10 @@ export class SparkEngineStoreManager implements ISparkEngineStores {
           sparks: false,
           reminders: false,
           refinement: false,
+          quizzes: false,
+          reviews: false,
+          adaptations: false,
+          calendarFeeds: false,
         },
         encryption: false,
         backend: false,
@@ -302,6 +346,12 @@ export class SparkEngineStoreManager implements ISparkEngineStores {
       count++;
     }
 
+    // Revoke calendar feed
+    const feedResult = await this.calendarFeeds.delete(userId);
+    if (feedResult.ok && feedResult.value) {
+      count++;
+    }
+
     return ok(count);
   }
 
@@ -0,0 +1,116 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// QUIZ STORE — Encrypted Quiz Storage
+// NovaOS Spark Engine — Quiz Activities
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Persistent storage for step quizzes with:
+//   - Encryption at rest (answers and learner responses)
+//   - Step-based keying (one question bank per step)
+//   - Deleted with the owning step
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type { KeyValueStore } from '../../../storage/index.js';
+import type { EncryptionService } from '../../../security/encryption/service.js';
+import { ok, err, type AsyncAppResult } from '../../../types/result.js';
+import type { StepId } from '../../../types/branded.js';
+import { SwordKeys } from '../../../infrastructure/redis/keys.js';
+import type { StepQuiz } from '../quiz/types.js';
+import { SecureStore } from './secure-store.js';
+import type { IQuizStore, SecureStoreConfig } from './types.js';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// QUIZ STORE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Encrypted storage for step quizzes.
+ *
+ * The question bank and the attempt history live in one entity, so
+ * recording an attempt is a single versioned write.
+ */
+export class QuizStore extends SecureStore<StepQuiz, StepId> implements IQuizStore {
+  constructor(
+    store: KeyValueStore,
+    config: Partial<SecureStoreConfig> = {},
+    encryption?: EncryptionService
+  ) {
+    super(store, config, encryption);
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // ABSTRACT METHOD IMPLEMENTATIONS
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  protected getKey(stepId: StepId): string {
+    return SwordKeys.stepQuiz(stepId);
+  }
+
+  protected validate(quiz: StepQuiz): string | undefined {
+    if (!quiz.stepId) {
+      return 'Step ID is required';
+    }
+    if (!Array.isArray(quiz.questions) || quiz.questions.length === 0) {
+      return 'Quiz must have at least one question';
+    }
+    const ids = new Set(quiz.questions.map((q) => q.id));
+    if (ids.size !== quiz.questions.length) {
+      return 'Question IDs must be unique';
+    }
+    if (!Array.isArray(quiz.attempts)) {
+      return 'Attempts must be an array';
+    }
+    if (quiz.bestScore !== undefined && (quiz.bestScore < 0 || quiz.bestScore > 100)) {
+      return 'Best score must be between 0 and 100';
+    }
+    return undefined;
+  }
+
+  protected getId(quiz: StepQuiz): StepId {
+    return quiz.stepId;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // PUBLIC API (IQuizStore)
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Save a quiz (create or update).
+   */
+  async save(quiz: StepQuiz): AsyncAppResult<StepQuiz> {
+    const result = await this.saveEntity(quiz);
+    if (!result.ok) {
+      return err(result.error);
+    }
+    return ok(quiz);
+  }
+
+  /**
+   * Get the quiz for a step.
+   */
+  async get(stepId: StepId): AsyncAppResult<StepQuiz | null> {
+    return this.getEntity(stepId);
+  }
+
+  /**
+   * Delete the quiz for a step.
+   */
+  async delete(stepId: StepId): AsyncAppResult<boolean> {
+    return this.deleteEntity(stepId);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// FACTORY
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Create a QuizStore instance.
+ */
+export function createQuizStore(
+  store: KeyValueStore,
+  config?: Partial<SecureStoreConfig>,
+  encryption?: EncryptionService
+): QuizStore {
+  return new QuizStore(store, config, encryption);
+}
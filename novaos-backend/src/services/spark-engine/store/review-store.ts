@@ -0,0 +1,240 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// REVIEW STORE — Encrypted Review Item Storage
+// NovaOS Spark Engine — Review Scheduling
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Persistent storage for spaced-repetition review items with:
+//   - Encryption at rest (lesson content and ratings)
+//   - Step-based keying (one review item per step)
+//   - User-based indexing (review items per user)
+//   - Daily review queues (plain step ID lists, expire after two days)
+//   - Deleted with the owning step
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type { KeyValueStore } from '../../../storage/index.js';
+import type { EncryptionService } from '../../../security/encryption/service.js';
+import { ok, err, type AsyncAppResult } from '../../../types/result.js';
+import type { StepId, UserId } from '../../../types/branded.js';
+import { SwordKeys } from '../../../infrastructure/redis/keys.js';
+import type { ReviewItem, ReviewQueue } from '../review/types.js';
+import { SecureStore, storeError } from './secure-store.js';
+import type { IReviewStore, SecureStoreConfig } from './types.js';
+import { StoreErrorCode as ErrorCodes } from './types.js';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// CONSTANTS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Daily queues only matter for the day they were built.
+ */
+const QUEUE_TTL_SECONDS = 2 * 24 * 60 * 60;
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// REVIEW STORE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Encrypted storage for review items.
+ *
+ * Features:
+ * - User-based indexing via Redis sets
+ * - Global set of users with review items (for the queue job)
+ * - Daily queue snapshots
+ */
+export class ReviewStore extends SecureStore<ReviewItem, StepId> implements IReviewStore {
+  constructor(
+    store: KeyValueStore,
+    config: Partial<SecureStoreConfig> = {},
+    encryption?: EncryptionService
+  ) {
+    super(store, config, encryption);
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // ABSTRACT METHOD IMPLEMENTATIONS
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  protected getKey(stepId: StepId): string {
+    return SwordKeys.stepReview(stepId);
+  }
+
+  protected validate(item: ReviewItem): string | undefined {
+    if (!item.stepId) {
+      return 'Step ID is required';
+    }
+    if (!item.userId) {
+      return 'User ID is required';
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(item.dueDate)) {
+      return 'Due date must be YYYY-MM-DD';
+    }
+    if (item.schedule.intervalDays < 0 || item.schedule.easeFactor <= 0) {
+      return 'Invalid review schedule';
+    }
+    return undefined;
+  }
+
+  protected getId(item: ReviewItem): StepId {
+    return item.stepId;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // PUBLIC API (IReviewStore)
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Save a review item (create or update).
+   */
+  async save(item: ReviewItem): AsyncAppResult<ReviewItem> {
+    const result = await this.saveEntity(item);
+    if (!result.ok) {
+      return err(result.error);
+    }
+
+    try {
+      await this.store.sadd(SwordKeys.userReviews(item.userId), item.stepId);
+      await this.store.sadd(SwordKeys.reviewUsers(), item.userId);
+    } catch (error) {
+      // Rollback: an unindexed item would never surface
+      await this.deleteEntity(item.stepId);
+      return err(
+        storeError(
+          ErrorCodes.BACKEND_ERROR,
+          `Failed to index review item: ${error instanceof Error ? error.message : String(error)}`,
+          { stepId: item.stepId }
+        )
+      );
+    }
+
+    return ok(item);
+  }
+
+  /**
+   * Get the review item for a step.
+   */
+  async get(stepId: StepId): AsyncAppResult<ReviewItem | null> {
+    return this.getEntity(stepId);
+  }
+
+  /**
+   * Delete the review item for a step.
+   */
+  async delete(stepId: StepId): AsyncAppResult<boolean> {
+    const itemResult = await this.getEntity(stepId);
+    if (!itemResult.ok) {
+      return err(itemResult.error);
+    }
+    if (itemResult.value === null) {
+      return ok(false);
+    }
+
+    try {
+      await this.store.srem(SwordKeys.userReviews(itemResult.value.userId), stepId);
+    } catch {
+      // Dangling index entries are skipped on read
+    }
+
+    return this.deleteEntity(stepId);
+  }
+
+  /**
+   * Get all review items for a user.
+   */
+  async getByUser(userId: UserId): AsyncAppResult<readonly ReviewItem[]> {
+    try {
+      const stepIds = await this.store.smembers(SwordKeys.userReviews(userId));
+      if (stepIds.length === 0) {
+        return ok([]);
+      }
+
+      const itemsResult = await this.getMany(stepIds as StepId[]);
+      if (!itemsResult.ok) {
+        return err(itemsResult.error);
+      }
+
+      return ok(Array.from(itemsResult.value.values()));
+    } catch (error) {
+      return err(
+        storeError(
+          ErrorCodes.BACKEND_ERROR,
+          `Failed to get review items for user: ${error instanceof Error ? error.message : String(error)}`,
+          { userId }
+        )
+      );
+    }
+  }
+
+  /**
+   * Get all users with review items.
+   */
+  async getUsers(): AsyncAppResult<readonly UserId[]> {
+    try {
+      const userIds = await this.store.smembers(SwordKeys.reviewUsers());
+      return ok(userIds as UserId[]);
+    } catch (error) {
+      return err(
+        storeError(
+          ErrorCodes.BACKEND_ERROR,
+          `Failed to list review users: ${error instanceof Error ? error.message : String(error)}`
+        )
+      );
+    }
+  }
+
+  /**
+   * Save a user's daily review queue.
+   */
+  async saveQueue(queue: ReviewQueue): AsyncAppResult<ReviewQueue> {
+    try {
+      await this.store.set(
+        SwordKeys.userReviewQueue(queue.userId, queue.date),
+        JSON.stringify(queue),
+        QUEUE_TTL_SECONDS
+      );
+      return ok(queue);
+    } catch (error) {
+      return err(
+        storeError(
+          ErrorCodes.BACKEND_ERROR,
+          `Failed to save review queue: ${error instanceof Error ? error.message : String(error)}`,
+          { userId: queue.userId, date: queue.date }
+        )
+      );
+    }
+  }
+
+  /**
+   * Get a user's review queue for a date.
+   */
+  async getQueue(userId: UserId, date: string): AsyncAppResult<ReviewQueue | null> {
+    try {
+      const raw = await this.store.get(SwordKeys.userReviewQueue(userId, date));
+      return ok(raw ? (JSON.parse(raw) as ReviewQueue) : null);
+    } catch (error) {
+      return err(
+        storeError(
+          ErrorCodes.BACKEND_ERROR,
+          `Failed to get review queue: ${error instanceof Error ? error.message : String(error)}`,
+          { userId, date }
+        )
+      );
+    }
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// FACTORY
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Create a ReviewStore instance.
+ */
+export function createReviewStore(
+  store: KeyValueStore,
+  config?: Partial<SecureStoreConfig>,
+  encryption?: EncryptionService
+): ReviewStore {
+  return new ReviewStore(store, config, encryption);
+}
@@ -292,15 +292,20 @@ export class StepStore extends SecureStore<Step, StepId> implements IStepStore {
         return ok(null);
       }
 
-      // Get the first valid step
+      // Rescheduled plans can double up steps on a date; prefer the earliest
+      // one still to do, then any valid step
+      const steps: Step[] = [];
       for (const id of stepIds) {
         const result = await this.getEntity(id as StepId);
         if (result.ok && result.value !== null) {
-          return ok(result.value);
+          steps.push(result.value);
         }
       }
 
-      return ok(null);
+      steps.sort((a, b) => (a.dayNumber ?? a.order) - (b.dayNumber ?? b.order));
+      const open = steps.find((s) => s.status === 'pending' || s.status === 'active');
+
+      return ok(open ?? steps[0] ?? null);
     } catch (error) {
       return err(
         storeError(
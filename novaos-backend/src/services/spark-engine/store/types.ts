@@ -21,6 +21,10 @@ import type {
   GoalStatus,
   ReminderStatus,
 } from '../types.js';
+import type { StepQuiz } from '../quiz/types.js';
+import type { ReviewItem, ReviewQueue } from '../review/types.js';
+import type { PlanAdaptation } from '../adaptation/types.js';
+import type { CalendarFeed } from '../calendar/types.js';
 import type {
   GoalId,
   QuestId,
@@ -426,6 +430,48 @@ export interface IRefinementStore {
   update(userId: UserId, updates: Partial<RefinementState>): AsyncAppResult<RefinementState>;
 }
 
+/**
+ * Quiz store interface (one question bank per step).
+ */
+export interface IQuizStore {
+  save(quiz: StepQuiz): AsyncAppResult<StepQuiz>;
+  get(stepId: StepId): AsyncAppResult<StepQuiz | null>;
+  delete(stepId: StepId): AsyncAppResult<boolean>;
+}
+
+/**
+ * Review item store interface (one item per completed step).
+ */
+export interface IReviewStore {
+  save(item: ReviewItem): AsyncAppResult<ReviewItem>;
+  get(stepId: StepId): AsyncAppResult<ReviewItem | null>;
+  delete(stepId: StepId): AsyncAppResult<boolean>;
+  getByUser(userId: UserId): AsyncAppResult<readonly ReviewItem[]>;
+  getUsers(): AsyncAppResult<readonly UserId[]>;
+  saveQueue(queue: ReviewQueue): AsyncAppResult<ReviewQueue>;
+  getQueue(userId: UserId, date: string): AsyncAppResult<ReviewQueue | null>;
+}
+
+/**
+ * Plan adaptation store interface (adaptations indexed per goal).
+ */
+export interface IAdaptationStore {
+  save(adaptation: PlanAdaptation): AsyncAppResult<PlanAdaptation>;
+  get(adaptationId: string): AsyncAppResult<PlanAdaptation | null>;
+  getByGoal(goalId: GoalId): AsyncAppResult<readonly PlanAdaptation[]>;
+  deleteByGoal(goalId: GoalId): AsyncAppResult<number>;
+}
+
+/**
+ * Calendar feed store interface (one feed per user, looked up by token).
+ */
+export interface ICalendarFeedStore {
+  save(feed: CalendarFeed): AsyncAppResult<CalendarFeed>;
+  get(userId: UserId): AsyncAppResult<CalendarFeed | null>;
+  getByToken(token: string): AsyncAppResult<CalendarFeed | null>;
+  delete(userId: UserId): AsyncAppResult<boolean>;
+}
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // COMBINED STORE INTERFACE
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -441,6 +487,10 @@ export interface ISparkEngineStores {
   readonly sparks: ISparkStore;
   readonly reminders: IReminderStore;
   readonly refinement: IRefinementStore;
+  readonly quizzes: IQuizStore;
+  readonly reviews: IReviewStore;
+  readonly adaptations: IAdaptationStore;
+  readonly calendarFeeds: ICalendarFeedStore;
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
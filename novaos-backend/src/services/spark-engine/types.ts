@@ -27,6 +27,8 @@ import type {
   Timestamp,
 } from '../../types/branded.js';
 import type { ResourceContentType } from './resource-discovery/types.js';
+import type { ReviewItem } from './review/types.js';
+import type { PlanPause, ReschedulePolicy, RescheduleResult } from './rescheduling/types.js';
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // COMMON TYPES
@@ -120,6 +122,12 @@ export interface LearningConfig {
 
   /** Days of the week to learn */
   readonly activeDays?: readonly DayOfWeek[];
+
+  /** How the plan catches up after missed days (applied at day end) */
+  readonly reschedulePolicy?: ReschedulePolicy;
+
+  /** Adapt upcoming steps to difficulty ratings and time spent (default: true) */
+  readonly adaptivePacing?: boolean;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -197,6 +205,9 @@ export interface Goal {
 
   /** Generated lesson plan metadata */
   readonly lessonPlan?: LessonPlanMetadata;
+
+  /** Paused date ranges ("vacation mode"), oldest first */
+  readonly pauses?: readonly PlanPause[];
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -312,6 +323,13 @@ export type StepStatus = 'pending' | 'active' | 'completed' | 'skipped';
  */
 export type DifficultyRating = 1 | 2 | 3 | 4 | 5;
 
+/**
+ * Where a step's difficulty rating came from.
+ * - user: Rated explicitly by the learner
+ * - quiz: Derived from the learner's quiz score
+ */
+export type DifficultySource = 'user' | 'quiz';
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // STEP
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -397,6 +415,19 @@ export interface Step {
   /** User's difficulty rating (1=easy, 5=very hard) */
   readonly difficultyRating?: DifficultyRating;
 
+  /** Source of the difficulty rating (user ratings are never overwritten by quizzes) */
+  readonly difficultySource?: DifficultySource;
+
+  /** Best quiz score for this step (0-100) */
+  readonly quizScore?: number;
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Pacing
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /** Escalation level new sparks start at (raised to offer smaller sparks) */
+  readonly baseEscalationLevel?: number;
+
   // ─────────────────────────────────────────────────────────────────────────────
   // Validation
   // ─────────────────────────────────────────────────────────────────────────────
@@ -455,6 +486,9 @@ export interface Activity {
 
   /** Estimated time in minutes */
   readonly minutes: number;
+
+  /** Whether the activity can be dropped when the learner falls behind */
+  readonly optional?: boolean;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -847,6 +881,46 @@ export interface UpdateGoalParams {
   readonly reminderConfig?: Partial<ReminderConfig>;
 }
 
+// ─────────────────────────────────────────────────────────────────────────────────
+// RESCHEDULE PARAMS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Options for rescheduling a goal's plan.
+ */
+export interface RescheduleOptions {
+  /** Policy (defaults to the goal's, then the engine's) */
+  readonly policy?: ReschedulePolicy;
+
+  /** First date steps may move to (defaults to today in the user's timezone) */
+  readonly fromDate?: string;
+}
+
+/**
+ * Parameters for pausing a goal's plan.
+ */
+export interface PausePlanParams {
+  /** First paused date (YYYY-MM-DD) */
+  readonly startDate: string;
+
+  /** Last paused date (YYYY-MM-DD, inclusive) */
+  readonly endDate: string;
+
+  /** Optional note from the learner */
+  readonly reason?: string;
+}
+
+/**
+ * Result of pausing or resuming a plan.
+ */
+export interface PlanPauseResult {
+  /** The goal with its updated pauses */
+  readonly goal: Goal;
+
+  /** How the remaining steps were moved */
+  readonly reschedule: RescheduleResult;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // TODAY RESULT
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -875,6 +949,9 @@ export interface TodayResult {
 
   /** Quest this content belongs to (if any) */
   readonly questId: QuestId | null;
+
+  /** Earlier steps due for spaced-repetition review, most overdue first */
+  readonly reviews: readonly ReviewItem[];
 }
 
 // ─────────────────────────────────────────────────────────────────────────────────
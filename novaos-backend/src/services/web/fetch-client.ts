@@ -5,6 +5,7 @@
 import { loadWebFetchConfig, type WebFetchConfig } from '../../config/index.js';
 import dns from 'dns/promises';
 import { URL } from 'url';
+import { withSpan, createTraceHeaders } from '../../observability/tracing/index.js';
 
 // ─────────────────────────────────────────────────────────────────────────────────
 // TYPES
@@ -38,6 +39,8 @@ export interface FetchOptions {
   maxRedirects?: number;
   validateSSL?: boolean;
   headers?: Record<string, string>;
+  /** Send W3C traceparent/tracestate (off by default: targets are third-party sites) */
+  propagateTraceContext?: boolean;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -226,6 +229,19 @@ export function validateUrl(url: string, config: WebFetchConfig): URLValidation
   }
 }
 
+/**
+ * URL as recorded on spans. Query strings, fragments and credentials often
+ * carry secrets, so only the scheme, host and path are kept.
+ */
+function spanUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.protocol}//${parsed.host}${parsed.pathname}`;
+  } catch {
+    return url.split(/[?#]/, 1)[0]!;
+  }
+}
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // HARDENED FETCH CLIENT
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -238,7 +254,39 @@ export class HardenedFetchClient {
     this.config = { ...defaultConfig, ...config };
   }
   
+  /**
+   * Fetch a URL, recorded as a client span of the active trace.
+   */
   async fetch(url: string, options: FetchOptions = {}): Promise<FetchResult> {
+    return withSpan('HTTP GET', async (span) => {
+      span.setAttributes({
+        'http.method': 'GET',
+        'http.url': spanUrl(url),
+      });
+      
+      const result = await this.executeFetch(
+        url,
+        options.propagateTraceContext
+          ? { ...options, headers: { ...createTraceHeaders(span), ...options.headers } }
+          : options
+      );
+      
+      span.setAttributes({
+        'http.redirect_count': result.metadata.redirectCount,
+        'http.response_content_length': result.metadata.contentLength,
+      });
+      if (result.statusCode !== undefined) {
+        span.setAttribute('http.status_code', result.statusCode);
+      }
+      if (!result.success) {
+        span.setStatus('error', result.error ?? `HTTP ${result.statusCode}`);
+      }
+      
+      return result;
+    }, { kind: 'client' });
+  }
+  
+  private async executeFetch(url: string, options: FetchOptions): Promise<FetchResult> {
     const startTime = Date.now();
     let dnsTime: number | undefined;
     let connectTime: number | undefined;
@@ -11,6 +11,8 @@ import { Redis } from 'ioredis';
 export interface KeyValueStore {
   get(key: string): Promise<string | null>;
   set(key: string, value: string, ttlSeconds?: number): Promise<void>;
+  /** Set only if the key does not exist; returns whether it was set */
+  setnx(key: string, value: string, ttlSeconds?: number): Promise<boolean>;
   delete(key: string): Promise<boolean>;
   exists(key: string): Promise<boolean>;
   incr(key: string): Promise<number>;
@@ -134,6 +136,13 @@ export class RedisStore implements KeyValueStore {
     }
   }
 
+  async setnx(key: string, value: string, ttlSeconds?: number): Promise<boolean> {
+    const result = ttlSeconds
+      ? await this.client.set(key, value, 'EX', ttlSeconds, 'NX')
+      : await this.client.set(key, value, 'NX');
+    return result === 'OK';
+  }
+
   async delete(key: string): Promise<boolean> {
     const result = await this.client.del(key);
     return result > 0;
@@ -315,8 +324,18 @@ export class MemoryStore implements KeyValueStore {
     this.store.set(key, entry);
   }
 
+  async setnx(key: string, value: string, ttlSeconds?: number): Promise<boolean> {
+    this.cleanup(key);
+    if (this.store.has(key)) return false;
+    await this.set(key, value, ttlSeconds);
+    return true;
+  }
+
   async delete(key: string): Promise<boolean> {
-    return this.store.delete(key);
+    // Like Redis DEL, removes the key whatever its type
+    const deleted = [this.store, this.hashes, this.lists, this.sets, this.sortedSets]
+      .map(map => map.delete(key));
+    return deleted.some(Boolean);
   }
 
   async exists(key: string): Promise<boolean> {
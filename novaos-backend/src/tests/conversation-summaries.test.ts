@@ -0,0 +1,198 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// CONVERSATION SUMMARY TESTS — Rolling Summaries of Aged-Out History
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { MemoryStore } from '../storage/index.js';
+import {
+  ConversationStore,
+  ConversationSummaryStore,
+  SUMMARY_CHUNK_SIZE,
+  SUMMARY_FANOUT,
+} from '../conversations/index.js';
+import type { LlmClient } from '../providers/llm-client.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SETUP
+// ─────────────────────────────────────────────────────────────────────────────────
+
+function fakeLlm(available = true) {
+  let calls = 0;
+  const complete = vi.fn(async () => ({
+    text: `summary ${++calls}`,
+    provider: 'openai',
+    model: 'gpt-4o-mini',
+    tokensUsed: 10,
+  }));
+  return { isAvailable: () => available, complete, completeJson: vi.fn() } as unknown as LlmClient & { complete: typeof complete };
+}
+
+let memStore: MemoryStore;
+let llm: ReturnType<typeof fakeLlm>;
+let convStore: ConversationStore;
+
+beforeEach(() => {
+  memStore = new MemoryStore();
+  llm = fakeLlm();
+  convStore = new ConversationStore(memStore, { llm });
+});
+
+async function addMessages(conversationId: string, count: number, prefix = 'Message') {
+  const ids: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const message = await convStore.addMessage(conversationId, {
+      role: i % 2 === 0 ? 'user' : 'assistant',
+      content: `${prefix} ${i}`,
+    });
+    ids.push(message.id);
+  }
+  return ids;
+}
+
+/** Window of 5 messages; older ones are summarized */
+async function buildWindow(conversationId: string) {
+  return convStore.buildContextWindow(conversationId, 8000, 5);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONTEXT WINDOW
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('rolling summaries', () => {
+  it('summarizes aged-out messages in the background', async () => {
+    await convStore.create('user1', 'conv1');
+    await addMessages('conv1', SUMMARY_CHUNK_SIZE + 5);
+
+    const first = await buildWindow('conv1');
+    expect(first.truncated).toBe(true);
+    expect(first.summary).toBeNull();
+    expect(llm.complete).not.toHaveBeenCalled();
+
+    await convStore.summarizer.whenIdle();
+
+    const second = await buildWindow('conv1');
+    expect(second.messages).toHaveLength(5);
+    expect(second.summary).toBe('summary 1');
+    expect(llm.complete).toHaveBeenCalledTimes(1);
+    expect(llm.complete.mock.calls[0]![0].messages[1].content).toContain('User: Message 0');
+  });
+
+  it('waits for a full chunk before summarizing', async () => {
+    await convStore.create('user1', 'conv1');
+    await addMessages('conv1', SUMMARY_CHUNK_SIZE + 4);
+
+    await buildWindow('conv1');
+    await convStore.summarizer.whenIdle();
+
+    expect(llm.complete).not.toHaveBeenCalled();
+  });
+
+  it('does not summarize again once covered', async () => {
+    await convStore.create('user1', 'conv1');
+    await addMessages('conv1', SUMMARY_CHUNK_SIZE + 5);
+
+    await buildWindow('conv1');
+    await convStore.summarizer.whenIdle();
+    await buildWindow('conv1');
+    await convStore.summarizer.whenIdle();
+
+    expect(llm.complete).toHaveBeenCalledTimes(1);
+  });
+
+  it('merges summaries into higher levels past the fanout', async () => {
+    await convStore.create('user1', 'conv1');
+    await addMessages('conv1', SUMMARY_CHUNK_SIZE * (SUMMARY_FANOUT + 1) + 5);
+
+    await buildWindow('conv1');
+    await convStore.summarizer.whenIdle();
+
+    const summaries = await new ConversationSummaryStore(memStore).list('conv1');
+    const frontier = summaries.filter(s => !s.parentId);
+    expect(frontier.map(s => s.level)).toEqual([1, 0]);
+    expect(frontier[0]!.messageCount).toBe(SUMMARY_CHUNK_SIZE * SUMMARY_FANOUT);
+
+    const window = await buildWindow('conv1');
+    expect(window.summary).toBe('summary 6\n\nsummary 5');
+  });
+
+  it('falls back to an extractive summary without an LLM', async () => {
+    convStore = new ConversationStore(memStore, { llm: fakeLlm(false) });
+    await convStore.create('user1', 'conv1');
+    await addMessages('conv1', SUMMARY_CHUNK_SIZE + 5, 'I will run');
+
+    await buildWindow('conv1');
+    await convStore.summarizer.whenIdle();
+
+    const window = await buildWindow('conv1');
+    expect(window.summary).toContain('- I will run 0');
+    expect(window.summary).not.toContain('I will run 1\n');
+  });
+
+  it('leaves the range unsummarized when the LLM fails', async () => {
+    llm.complete.mockRejectedValueOnce(new Error('provider down'));
+    await convStore.create('user1', 'conv1');
+    await addMessages('conv1', SUMMARY_CHUNK_SIZE + 5);
+
+    await buildWindow('conv1');
+    await convStore.summarizer.whenIdle();
+    expect((await buildWindow('conv1')).summary).toBeNull();
+
+    await convStore.summarizer.whenIdle();
+    expect((await buildWindow('conv1')).summary).toBe('summary 1');
+    expect(llm.complete).toHaveBeenCalledTimes(2);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// INVALIDATION
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('summary invalidation', () => {
+  it('regenerates the summary after an edit', async () => {
+    await convStore.create('user1', 'conv1');
+    const ids = await addMessages('conv1', SUMMARY_CHUNK_SIZE + 5);
+    await buildWindow('conv1');
+    await convStore.summarizer.whenIdle();
+
+    const edited = await convStore.editMessage('conv1', ids[2]!, 'Actually, Tuesdays');
+    expect(edited?.content).toBe('Actually, Tuesdays');
+    expect((await buildWindow('conv1')).summary).toBeNull();
+
+    await convStore.summarizer.whenIdle();
+    expect((await buildWindow('conv1')).summary).toBe('summary 2');
+    expect(llm.complete.mock.calls[1]![0].messages[1].content).toContain('Actually, Tuesdays');
+  });
+
+  it('keeps sibling summaries when a merged parent is invalidated', async () => {
+    await convStore.create('user1', 'conv1');
+    const ids = await addMessages('conv1', SUMMARY_CHUNK_SIZE * (SUMMARY_FANOUT + 1) + 5);
+    await buildWindow('conv1');
+    await convStore.summarizer.whenIdle();
+
+    expect(await convStore.deleteMessage('conv1', ids[0]!)).toBe(true);
+
+    const frontier = (await new ConversationSummaryStore(memStore).list('conv1')).filter(s => !s.parentId);
+    expect(frontier.map(s => s.level)).toEqual([0, 0, 0, 0]);
+    expect((await convStore.get('conv1'))?.messageCount).toBe(ids.length - 1);
+    expect((await convStore.getAllMessages('conv1')).map(m => m.id)).toEqual(ids.slice(1));
+  });
+
+  it('returns null or false for unknown messages', async () => {
+    await convStore.create('user1', 'conv1');
+
+    expect(await convStore.editMessage('conv1', 'missing', 'x')).toBeNull();
+    expect(await convStore.deleteMessage('conv1', 'missing')).toBe(false);
+  });
+
+  it('deletes summaries with the conversation', async () => {
+    await convStore.create('user1', 'conv1');
+    await addMessages('conv1', SUMMARY_CHUNK_SIZE + 5);
+    await buildWindow('conv1');
+    await convStore.summarizer.whenIdle();
+
+    await convStore.delete('conv1');
+
+    expect(await new ConversationSummaryStore(memStore).list('conv1')).toEqual([]);
+    expect(await convStore.getAllMessages('conv1')).toEqual([]);
+  });
+});
@@ -237,4 +237,81 @@ describe('ConversationStore', () => {
       expect(full).toBeNull();
     });
   });
+
+  describe('Branches', () => {
+    async function seedLinear(convId: string) {
+      await convStore.create('user1', convId);
+      const q1 = await convStore.addMessage(convId, { role: 'user', content: 'Plan my week' });
+      const a1 = await convStore.addMessage(convId, { role: 'assistant', content: 'Sure' });
+      const q2 = await convStore.addMessage(convId, { role: 'user', content: 'Run on Tursday' });
+      const a2 = await convStore.addMessage(convId, { role: 'assistant', content: 'Noted' });
+      return { q1, a1, q2, a2 };
+    }
+
+    it('should chain messages through parent pointers', async () => {
+      const { q1, a1, q2 } = await seedLinear('conv-tree');
+
+      expect(q1.parentId).toBeNull();
+      expect(a1.parentId).toBe(q1.id);
+      expect(q2.parentId).toBe(a1.id);
+    });
+
+    it('should fork an edited user message into a sibling branch', async () => {
+      const { a1, q2 } = await seedLinear('conv-fork');
+
+      const edited = await convStore.forkMessage('conv-fork', q2.id, 'Run on Thursday');
+      await convStore.addMessage('conv-fork', { role: 'assistant', content: 'Thursday it is' });
+
+      expect(edited?.parentId).toBe(a1.id);
+      const active = await convStore.getMessages('conv-fork');
+      expect(active.map(m => m.content)).toEqual(['Plan my week', 'Sure', 'Run on Thursday', 'Thursday it is']);
+      expect((await convStore.getAllMessages('conv-fork')).length).toBe(6);
+    });
+
+    it('should only fork user messages', async () => {
+      const { a1 } = await seedLinear('conv-fork-assistant');
+
+      expect(await convStore.forkMessage('conv-fork-assistant', a1.id, 'Edited')).toBeNull();
+      expect(await convStore.forkMessage('conv-fork-assistant', 'missing', 'Edited')).toBeNull();
+    });
+
+    it('should list and switch branches at a message', async () => {
+      const { q2, a2 } = await seedLinear('conv-switch');
+      const edited = await convStore.forkMessage('conv-switch', q2.id, 'Run on Thursday');
+
+      const branches = await convStore.listBranches('conv-switch', edited!.id);
+      expect(branches?.map(b => [b.messageId, b.leafId, b.length, b.active])).toEqual([
+        [q2.id, a2.id, 2, false],
+        [edited!.id, edited!.id, 1, true],
+      ]);
+
+      const branch = await convStore.switchBranch('conv-switch', q2.id);
+      expect(branch?.at(-1)?.id).toBe(a2.id);
+      expect((await convStore.get('conv-switch'))?.activeLeafId).toBe(a2.id);
+
+      const context = await convStore.buildContextWindow('conv-switch');
+      expect(context.messages.map(m => m.content)).toEqual(['Plan my week', 'Sure', 'Run on Tursday', 'Noted']);
+    });
+
+    it('should treat messages stored before branching as one branch', async () => {
+      await convStore.create('user1', 'conv-legacy');
+      for (const [i, role] of (['user', 'assistant', 'user'] as const).entries()) {
+        await memStore.lpush('conv:conv-legacy:messages', JSON.stringify({ id: `m${i}`, role, content: `Message ${i}`, timestamp: i }));
+      }
+
+      const added = await convStore.addMessage('conv-legacy', { role: 'assistant', content: 'Reply' });
+
+      expect(added.parentId).toBe('m2');
+      expect((await convStore.getMessages('conv-legacy')).map(m => m.id)).toEqual(['m0', 'm1', 'm2', added.id]);
+    });
+
+    it('should keep replies on their branch when deleting a message', async () => {
+      const { q1, a1, q2 } = await seedLinear('conv-delete');
+
+      await convStore.deleteMessage('conv-delete', a1.id);
+
+      expect((await convStore.getMessage('conv-delete', q2.id))?.parentId).toBe(q1.id);
+      expect((await convStore.getMessages('conv-delete')).length).toBe(3);
+    });
+  });
 });
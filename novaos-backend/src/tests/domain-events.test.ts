@@ -0,0 +1,248 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// DOMAIN EVENT TESTS — Event Bus, Outbox Relay and Publishers
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MemoryStore } from '../storage/index.js';
+import {
+  DomainEventBus,
+  EventOutbox,
+  getEventBus,
+  resetEventBus,
+  createWebhookSubscriber,
+  createNotificationSubscriber,
+  type DomainEvent,
+} from '../events/index.js';
+import { createEvent } from '../webhooks/events.js';
+import { WebhookStore } from '../webhooks/store.js';
+import { WebhookDispatcher } from '../webhooks/dispatcher.js';
+import { SwordStore } from '../core/sword/store.js';
+import type { NotificationService } from '../notifications/service.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TEST FIXTURES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const TEST_USER_ID = 'test-user-123';
+
+function goalCreated(): DomainEvent {
+  return createEvent('goal.created', TEST_USER_ID, { goal: { id: 'goal-1', title: 'Learn Rust' } });
+}
+
+function createBus(store: MemoryStore): DomainEventBus {
+  return new DomainEventBus(store, { retryBaseDelayMs: 0, maxAttempts: 3 });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// EVENT BUS TESTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('DomainEventBus', () => {
+  let store: MemoryStore;
+  let bus: DomainEventBus;
+  let outbox: EventOutbox;
+
+  beforeEach(() => {
+    store = new MemoryStore();
+    bus = createBus(store);
+    outbox = bus.getOutbox();
+  });
+
+  afterEach(() => {
+    bus.stop();
+  });
+
+  it('delivers to every matching subscriber and clears the outbox', async () => {
+    const all: string[] = [];
+    const goalsOnly: string[] = [];
+    bus.subscribe('all', async (event) => { all.push(event.type); });
+    bus.subscribe('sparks', async (event) => { goalsOnly.push(event.type); }, { types: ['spark.completed'] });
+
+    await bus.publish(goalCreated());
+    await bus.drain();
+
+    expect(all).toEqual(['goal.created']);
+    expect(goalsOnly).toEqual([]);
+    expect(await outbox.pendingCount()).toBe(0);
+  });
+
+  it('writes nothing when no subscriber wants the event', async () => {
+    await bus.publish(goalCreated());
+
+    expect(await outbox.pendingCount()).toBe(0);
+    expect(bus.getStats().published).toBe(0);
+  });
+
+  it('keeps the event in the outbox until delivery finishes', async () => {
+    let release!: () => void;
+    bus.subscribe('slow', () => new Promise<void>(resolve => { release = resolve; }));
+
+    const event = goalCreated();
+    await bus.publish(event);
+
+    expect((await outbox.get(event.id))?.pending).toEqual(['slow']);
+
+    release();
+    await bus.drain();
+    expect(await outbox.get(event.id)).toBeNull();
+  });
+
+  it('retries only the subscribers that failed', async () => {
+    const healthy = vi.fn(async () => {});
+    const flaky = vi.fn()
+      .mockRejectedValueOnce(new Error('store unavailable'))
+      .mockResolvedValue(undefined);
+    bus.subscribe('healthy', healthy);
+    bus.subscribe('flaky', flaky);
+
+    const event = goalCreated();
+    await bus.publish(event);
+    await bus.drain();
+
+    expect(await outbox.get(event.id)).toMatchObject({
+      pending: ['flaky'],
+      attempts: 1,
+      lastError: 'store unavailable',
+    });
+
+    expect(await bus.relay()).toBe(1);
+
+    expect(healthy).toHaveBeenCalledTimes(1);
+    expect(flaky).toHaveBeenCalledTimes(2);
+    expect(flaky).toHaveBeenLastCalledWith(event);
+    expect(await outbox.pendingCount()).toBe(0);
+  });
+
+  it('redelivers events left behind by a crashed process', async () => {
+    // A previous process wrote the entry and died before delivering it
+    const event = goalCreated();
+    await outbox.append({
+      event,
+      pending: ['webhooks'],
+      attempts: 0,
+      createdAt: new Date().toISOString(),
+    }, Date.now() - 1);
+
+    const received: DomainEvent[] = [];
+    bus.subscribe('webhooks', async (e) => { received.push(e); });
+
+    expect(await bus.relay()).toBe(1);
+    expect(received).toEqual([event]);
+    expect(await outbox.pendingCount()).toBe(0);
+  });
+
+  it('does not relay an entry another relay has claimed', async () => {
+    const event = goalCreated();
+    await outbox.append({ event, pending: ['webhooks'], attempts: 0, createdAt: new Date().toISOString() }, 0);
+    const handler = vi.fn(async () => {});
+    bus.subscribe('webhooks', handler);
+
+    expect(await outbox.claim(event.id, 60_000)).toBe(true);
+    expect(await bus.relay()).toBe(0);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('lets a claim lapse once its lease runs out', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      expect(await outbox.claim('event-1', 1_000)).toBe(true);
+      expect(await outbox.claim('event-1', 1_000)).toBe(false);
+
+      vi.setSystemTime(Date.now() + 1_001);
+      expect(await outbox.claim('event-1', 1_000)).toBe(true);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('dead-letters events that keep failing', async () => {
+    bus.subscribe('broken', async () => { throw new Error('boom'); });
+
+    const event = goalCreated();
+    await bus.publish(event);
+    await bus.drain();
+    await bus.relay();
+    await bus.relay();
+
+    expect(await outbox.pendingCount()).toBe(0);
+    const [dead] = await outbox.getDeadLetters();
+    expect(dead).toMatchObject({ event: { id: event.id }, pending: ['broken'], attempts: 3, lastError: 'boom' });
+    expect(bus.getStats().deadLettered).toBe(1);
+  });
+
+  it('rejects duplicate subscriber names', () => {
+    bus.subscribe('webhooks', async () => {});
+    expect(() => bus.subscribe('webhooks', async () => {})).toThrow('already registered');
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SUBSCRIBER TESTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('webhook subscriber', () => {
+  it('queues one delivery per webhook however often the event is redelivered', async () => {
+    const webhookStore = new WebhookStore(new MemoryStore());
+    const webhook = await webhookStore.createWebhook(TEST_USER_ID, {
+      name: 'Zap',
+      url: 'https://example.com/hook',
+      events: ['goal.created'],
+    });
+    const handler = createWebhookSubscriber(new WebhookDispatcher(webhookStore));
+
+    const event = goalCreated();
+    await handler(event);
+    await handler(event);
+
+    const deliveries = await webhookStore.getWebhookDeliveries(webhook.id);
+    expect(deliveries).toHaveLength(1);
+    expect(JSON.parse(deliveries[0]!.payload)).toMatchObject({ eventId: event.id, event: 'goal.created' });
+  });
+});
+
+describe('notification subscriber', () => {
+  it('notifies once per goal milestone crossed', async () => {
+    const service = { goalMilestone: vi.fn(async () => ({})) } as unknown as NotificationService;
+    const handler = createNotificationSubscriber(service);
+    const progress = (previousProgress: number, value: number) => createEvent('goal.progress', TEST_USER_ID, {
+      goal: { id: 'goal-1', title: 'Learn Rust', progress: value, previousProgress },
+    });
+
+    await handler(progress(10, 20));
+    await handler(progress(20, 60));
+
+    expect(service.goalMilestone).toHaveBeenCalledTimes(1);
+    expect(service.goalMilestone).toHaveBeenCalledWith(TEST_USER_ID, expect.objectContaining({ progress: 50 }));
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// PUBLISHER TESTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('SwordStore events', () => {
+  let published: DomainEvent[];
+
+  beforeEach(() => {
+    published = [];
+    resetEventBus();
+    getEventBus().subscribe('test', async (event) => { published.push(event); });
+  });
+
+  afterEach(() => {
+    resetEventBus();
+  });
+
+  it('publishes goal lifecycle events', async () => {
+    const swordStore = new SwordStore(new MemoryStore());
+
+    const goal = await swordStore.createGoal(TEST_USER_ID, { title: 'Learn Rust', description: 'Systems programming' });
+    await swordStore.updateGoal(goal.id, { title: 'Learn Rust well' });
+    await swordStore.transitionGoalState(goal.id, 'complete');
+    await getEventBus().drain();
+
+    expect(published.map(e => e.type)).toEqual(['goal.created', 'goal.updated', 'goal.completed']);
+    expect(published[1]!.data).toEqual({ goal: { id: goal.id, title: 'Learn Rust well', changes: ['title'] } });
+    expect(published.every(e => e.userId === TEST_USER_ID && e.source === 'sword')).toBe(true);
+  });
+});
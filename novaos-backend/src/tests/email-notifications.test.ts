@@ -0,0 +1,477 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// EMAIL NOTIFICATION TESTS — SMTP Transport, Rendering, Caps, Bounces
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import net from 'net';
+import type { AddressInfo } from 'net';
+import {
+  SmtpTransport,
+  SmtpError,
+  SmtpEmailProvider,
+  EmailDeliveryError,
+  renderNotificationEmail,
+  createUnsubscribeToken,
+  verifyUnsubscribeToken,
+  dotStuff,
+} from '../notifications/email/index.js';
+import { NotificationStore } from '../notifications/store.js';
+import { NotificationService } from '../notifications/service.js';
+import type { Notification } from '../notifications/types.js';
+import { MemoryStore } from '../storage/memory.js';
+import { loadEmailConfig } from '../config/index.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SMTP SINK
+// ─────────────────────────────────────────────────────────────────────────────────
+
+interface ReceivedMail {
+  from: string;
+  to: string[];
+  data: string;
+  auth?: string;
+}
+
+/**
+ * Local SMTP server that accepts everything except recipients containing
+ * "bounce" (550) and records received messages.
+ */
+async function startSmtpSink(): Promise<{
+  port: number;
+  messages: ReceivedMail[];
+  close: () => Promise<void>;
+}> {
+  const messages: ReceivedMail[] = [];
+
+  const server = net.createServer((socket) => {
+    let buffer = '';
+    let inData = false;
+    let current: ReceivedMail = { from: '', to: [], data: '' };
+
+    socket.write('220 sink.test ESMTP ready\r\n');
+
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8');
+
+      while (true) {
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end === -1) return;
+          current.data = buffer.slice(0, end).replace(/^\.\./gm, '.');
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          messages.push(current);
+          current = { from: '', to: [], data: '', auth: current.auth };
+          socket.write('250 2.0.0 queued as TEST1\r\n');
+          continue;
+        }
+
+        const index = buffer.indexOf('\r\n');
+        if (index === -1) return;
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        const upper = line.toUpperCase();
+
+        if (upper.startsWith('EHLO')) {
+          socket.write('250-sink.test\r\n250-8BITMIME\r\n250 AUTH PLAIN LOGIN\r\n');
+        } else if (upper.startsWith('AUTH PLAIN')) {
+          current.auth = Buffer.from(line.slice(11), 'base64').toString('utf8');
+          socket.write('235 2.7.0 Authentication successful\r\n');
+        } else if (upper.startsWith('MAIL FROM:')) {
+          current.from = line.slice(10).replace(/[<>]/g, '');
+          socket.write('250 2.1.0 OK\r\n');
+        } else if (upper.startsWith('RCPT TO:')) {
+          const rcpt = line.slice(8).replace(/[<>]/g, '');
+          if (rcpt.includes('bounce')) {
+            socket.write('550 5.1.1 User unknown\r\n');
+          } else {
+            current.to.push(rcpt);
+            socket.write('250 2.1.5 OK\r\n');
+          }
+        } else if (upper === 'DATA') {
+          inData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (upper === 'QUIT') {
+          socket.end('221 2.0.0 Bye\r\n');
+        } else {
+          socket.write('502 5.5.2 Command not recognized\r\n');
+        }
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    port,
+    messages,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
+
+/**
+ * A local port with nothing listening on it.
+ */
+async function closedPort(): Promise<number> {
+  const server = net.createServer();
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+  return port;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// HELPERS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const SECRET = 'test-unsubscribe-secret';
+
+function makeNotification(overrides: Partial<Notification> = {}): Notification {
+  return {
+    id: 'ntf_test_1',
+    userId: 'user-1',
+    type: 'goal_deadline',
+    title: 'Goal deadline approaching',
+    body: "'Learn <Rust> & Go' is due in 2 days",
+    icon: '🎯',
+    priority: 'high',
+    action: { type: 'link', label: 'View Goal', url: '/goals/goal-1' },
+    read: false,
+    dismissed: false,
+    createdAt: new Date().toISOString(),
+    channels: ['in_app', 'email'],
+    deliveredVia: [],
+    ...overrides,
+  };
+}
+
+/**
+ * Split a raw message into headers and decoded text/html parts.
+ */
+function parseMessage(raw: string): { headers: Record<string, string>; text: string; html: string } {
+  const [head = '', ...rest] = raw.split('\r\n\r\n');
+  const headers: Record<string, string> = {};
+  for (const line of head.split('\r\n')) {
+    const index = line.indexOf(':');
+    headers[line.slice(0, index).toLowerCase()] = line.slice(index + 1).trim();
+  }
+
+  const body = rest.join('\r\n\r\n');
+  const decodePart = (type: string) => {
+    const match = new RegExp(`Content-Type: ${type}[^\\r]*\\r\\nContent-Transfer-Encoding: base64\\r\\n\\r\\n([A-Za-z0-9+/=\\r\\n]+)`).exec(body);
+    return Buffer.from((match?.[1] ?? '').replace(/\r\n/g, ''), 'base64').toString('utf8');
+  };
+
+  return { headers, text: decodePart('text/plain'), html: decodePart('text/html') };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TRANSPORT
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('SmtpTransport', () => {
+  let sink: Awaited<ReturnType<typeof startSmtpSink>>;
+
+  beforeEach(async () => {
+    sink = await startSmtpSink();
+  });
+
+  afterEach(async () => {
+    await sink.close();
+  });
+
+  it('authenticates and delivers a dot-stuffed message', async () => {
+    const transport = new SmtpTransport({
+      host: '127.0.0.1',
+      port: sink.port,
+      auth: { user: 'nova', pass: 's3cret' },
+      timeoutMs: 5000,
+    });
+
+    const result = await transport.send(
+      { from: 'noreply@novaos.test', to: ['ada@example.com'] },
+      'Subject: hi\n\n.leading dot\nbody'
+    );
+
+    expect(result.accepted).toEqual(['ada@example.com']);
+    expect(result.response).toContain('queued as TEST1');
+    expect(sink.messages).toHaveLength(1);
+    expect(sink.messages[0]!.auth).toBe('\0nova\0s3cret');
+    expect(sink.messages[0]!.from).toBe('noreply@novaos.test');
+    expect(sink.messages[0]!.data).toBe('Subject: hi\r\n\r\n.leading dot\r\nbody');
+  });
+
+  it('reports a permanent rejection when every recipient bounces', async () => {
+    const transport = new SmtpTransport({ host: '127.0.0.1', port: sink.port, timeoutMs: 5000 });
+
+    const error = await transport
+      .send({ from: 'noreply@novaos.test', to: ['bounce@example.com'] }, 'Subject: x\r\n\r\nx')
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(SmtpError);
+    expect(error.code).toBe('REJECTED');
+    expect(error.replyCode).toBe(550);
+    expect(error.permanent).toBe(true);
+    expect(sink.messages).toHaveLength(0);
+  });
+
+  it('fails with a transient connection error when nothing is listening', async () => {
+    const port = await closedPort();
+    const transport = new SmtpTransport({ host: '127.0.0.1', port, timeoutMs: 2000 });
+
+    const error = await transport.send({ from: 'a@b.test', to: ['c@d.test'] }, 'x').catch((e) => e);
+
+    expect(error).toBeInstanceOf(SmtpError);
+    expect(error.code).toBe('CONNECTION');
+    expect(error.permanent).toBe(false);
+  });
+
+  it('escapes leading dots', () => {
+    expect(dotStuff('a\n.\n..b')).toBe('a\r\n..\r\n...b');
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// RENDERING
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('renderNotificationEmail', () => {
+  it('escapes HTML and resolves relative action links', () => {
+    const email = renderNotificationEmail(makeNotification(), {
+      appUrl: 'https://app.novaos.test',
+      unsubscribeUrl: 'https://api.novaos.test/unsubscribe?token=abc',
+    });
+
+    expect(email.subject).toBe('🎯 Goal deadline approaching');
+    expect(email.html).toContain('&#39;Learn &lt;Rust&gt; &amp; Go&#39; is due in 2 days');
+    expect(email.html).toContain('href="https://app.novaos.test/goals/goal-1"');
+    expect(email.html).toContain('href="https://api.novaos.test/unsubscribe?token=abc"');
+    expect(email.html).not.toContain('{{');
+    expect(email.text).toContain("'Learn <Rust> & Go' is due in 2 days");
+    expect(email.text).toContain('View Goal: https://app.novaos.test/goals/goal-1');
+    expect(email.text).toContain('Unsubscribe: https://api.novaos.test/unsubscribe?token=abc');
+  });
+
+  it('drops non-http action links', () => {
+    const email = renderNotificationEmail(makeNotification({
+      action: { type: 'link', label: 'Run', url: 'javascript:alert(1)' },
+    }));
+
+    expect(email.html).not.toContain('javascript:');
+    expect(email.text).not.toContain('Run:');
+  });
+});
+
+describe('unsubscribe tokens', () => {
+  it('round-trips and rejects tampering', () => {
+    const token = createUnsubscribeToken('user-1', SECRET);
+
+    expect(verifyUnsubscribeToken(token, SECRET)).toBe('user-1');
+    expect(verifyUnsubscribeToken(token, 'other-secret')).toBeNull();
+    expect(verifyUnsubscribeToken(`${Buffer.from('user-2').toString('base64url')}.${token.split('.')[1]}`, SECRET)).toBeNull();
+    expect(verifyUnsubscribeToken('garbage', SECRET)).toBeNull();
+  });
+
+  it('requires a dedicated secret in production when email is enabled', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('SMTP_HOST', 'smtp.example.com');
+    vi.stubEnv('EMAIL_UNSUBSCRIBE_URL', 'https://api.example.com/api/v1/notifications/email/unsubscribe');
+    vi.stubEnv('EMAIL_UNSUBSCRIBE_SECRET', '');
+    vi.stubEnv('JWT_SECRET', 'jwt-secret');
+    try {
+      expect(() => loadEmailConfig()).toThrow('EMAIL_UNSUBSCRIBE_SECRET must be set in production');
+
+      vi.stubEnv('EMAIL_UNSUBSCRIBE_SECRET', SECRET);
+      expect(loadEmailConfig().unsubscribeSecret).toBe(SECRET);
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+
+  it('does not require the secret in production without SMTP', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('SMTP_HOST', '');
+    vi.stubEnv('EMAIL_UNSUBSCRIBE_SECRET', '');
+    try {
+      expect(() => loadEmailConfig()).not.toThrow();
+      expect(loadEmailConfig().enabled).toBe(false);
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// PROVIDER
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('SmtpEmailProvider', () => {
+  let sink: Awaited<ReturnType<typeof startSmtpSink>>;
+  let kv: MemoryStore;
+  let recipients: Record<string, string>;
+
+  function createProvider(overrides: { dailyCap?: number; maxBounces?: number } = {}): SmtpEmailProvider {
+    return new SmtpEmailProvider({
+      transport: { host: '127.0.0.1', port: sink.port, timeoutMs: 5000 },
+      from: 'NovaOS <notifications@novaos.test>',
+      appUrl: 'https://app.novaos.test',
+      unsubscribeUrl: 'https://api.novaos.test/api/v1/notifications/email/unsubscribe',
+      unsubscribeMailto: 'unsubscribe@novaos.test',
+      unsubscribeSecret: SECRET,
+      dailyCap: overrides.dailyCap ?? 5,
+      maxBounces: overrides.maxBounces ?? 2,
+      resolveRecipient: async (userId) => recipients[userId],
+      store: kv as any,
+    });
+  }
+
+  beforeEach(async () => {
+    sink = await startSmtpSink();
+    kv = new MemoryStore();
+    recipients = { 'user-1': 'ada@example.com', 'user-2': 'bounce@example.com' };
+  });
+
+  afterEach(async () => {
+    await sink.close();
+  });
+
+  it('sends multipart email with List-Unsubscribe headers', async () => {
+    const provider = createProvider();
+
+    await provider.send(makeNotification());
+
+    expect(sink.messages).toHaveLength(1);
+    const mail = sink.messages[0]!;
+    expect(mail.from).toBe('notifications@novaos.test');
+    expect(mail.to).toEqual(['ada@example.com']);
+
+    const { headers, text, html } = parseMessage(mail.data);
+    expect(headers['subject']).toMatch(/^=\?UTF-8\?B\?.+\?=$/);
+    expect(headers['content-type']).toContain('multipart/alternative');
+    expect(headers['list-unsubscribe']).toMatch(
+      /^<mailto:unsubscribe@novaos\.test\?subject=unsubscribe>, <https:\/\/api\.novaos\.test\/api\/v1\/notifications\/email\/unsubscribe\?token=[\w-]+\.[\w-]+>$/
+    );
+    expect(headers['list-unsubscribe-post']).toBe('List-Unsubscribe=One-Click');
+    expect(headers['x-novaos-notification-id']).toBe('ntf_test_1');
+
+    const token = /token=([\w.-]+)/.exec(headers['list-unsubscribe']!)![1];
+    expect(verifyUnsubscribeToken(token, SECRET)).toBe('user-1');
+    expect(text).toContain('View Goal: https://app.novaos.test/goals/goal-1');
+    expect(html).toContain('&lt;Rust&gt;');
+    expect(await provider.getSentToday('user-1')).toBe(1);
+  });
+
+  it('enforces the per-user daily cap', async () => {
+    const provider = createProvider({ dailyCap: 2 });
+
+    await provider.send(makeNotification());
+    await provider.send(makeNotification());
+    const error = await provider.send(makeNotification()).catch((e) => e);
+
+    expect(error).toBeInstanceOf(EmailDeliveryError);
+    expect(error.code).toBe('DAILY_CAP');
+    expect(sink.messages).toHaveLength(2);
+    expect(provider.getStats()).toMatchObject({ sent: 2, capped: 1 });
+  });
+
+  it('suppresses an address after repeated hard bounces', async () => {
+    const provider = createProvider({ maxBounces: 2 });
+    const notification = makeNotification({ userId: 'user-2' });
+
+    for (let i = 0; i < 2; i++) {
+      const error = await provider.send(notification).catch((e) => e);
+      expect(error.code).toBe('BOUNCED');
+    }
+    const suppressed = await provider.send(notification).catch((e) => e);
+
+    expect(suppressed.code).toBe('SUPPRESSED');
+    expect(await provider.isSuppressed('Bounce@Example.com')).toBe(true);
+    expect(provider.getStats()).toMatchObject({ bounced: 2, suppressed: 1 });
+
+    await provider.clearSuppression('bounce@example.com');
+    expect(await provider.isSuppressed('bounce@example.com')).toBe(false);
+  });
+
+  it('counts transient failures without suppressing', async () => {
+    const provider = new SmtpEmailProvider({
+      transport: { host: '127.0.0.1', port: await closedPort(), timeoutMs: 2000 },
+      from: 'notifications@novaos.test',
+      unsubscribeSecret: SECRET,
+      dailyCap: 5,
+      maxBounces: 1,
+      resolveRecipient: async () => 'ada@example.com',
+      store: kv as any,
+    });
+
+    const error = await provider.send(makeNotification()).catch((e) => e);
+
+    expect(error.code).toBe('FAILED');
+    expect(await provider.getFailureCount()).toBe(1);
+    expect(await provider.isSuppressed('ada@example.com')).toBe(false);
+    expect(await provider.getSentToday('user-1')).toBe(0);
+  });
+
+  it('rejects addresses that could inject SMTP commands', async () => {
+    recipients['user-1'] = 'ada@example.com>\r\nRCPT TO:<evil@example.com';
+    const provider = createProvider();
+
+    const error = await provider.send(makeNotification()).catch((e) => e);
+
+    expect(error.code).toBe('INVALID_RECIPIENT');
+    expect(sink.messages).toHaveLength(0);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SERVICE INTEGRATION
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('NotificationService email channel', () => {
+  let sink: Awaited<ReturnType<typeof startSmtpSink>>;
+
+  beforeEach(async () => {
+    sink = await startSmtpSink();
+  });
+
+  afterEach(async () => {
+    await sink.close();
+  });
+
+  it('emails goal deadlines to users who opted in with an address', async () => {
+    const kv = new MemoryStore();
+    const store = new NotificationStore(kv as any);
+    const service = new NotificationService(store, {
+      emailProvider: new SmtpEmailProvider({
+        transport: { host: '127.0.0.1', port: sink.port, timeoutMs: 5000 },
+        from: 'notifications@novaos.test',
+        unsubscribeSecret: SECRET,
+        dailyCap: 5,
+        maxBounces: 3,
+        store: kv as any,
+      }),
+    });
+
+    const defaults = await store.getPreferences('user-1');
+    await store.updatePreferences('user-1', {
+      emailAddress: 'ada@example.com',
+      channelSettings: {
+        ...defaults.channelSettings,
+        email: { enabled: true, minPriority: 'high' },
+      },
+    });
+
+    const notification = await service.goalDeadline('user-1', {
+      id: 'goal-1',
+      title: 'Ship v1',
+      timeLeft: '1 day',
+    });
+
+    expect(sink.messages).toHaveLength(1);
+    expect(sink.messages[0]!.to).toEqual(['ada@example.com']);
+    expect(parseMessage(sink.messages[0]!.data).text).toContain("'Ship v1' is due in 1 day");
+
+    const stored = await store.getNotification(notification.id);
+    expect(stored?.deliveredVia).toContain('email');
+  });
+});
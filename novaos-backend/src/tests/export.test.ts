@@ -5,6 +5,7 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { MemoryStore } from '../storage/memory.js';
 import type { KeyValueStore } from '../storage/index.js';
+import { ConversationStore } from '../conversations/index.js';
 import {
   ExportService,
   JsonFormatter,
@@ -516,6 +517,23 @@ describe('ExportService', () => {
       expect(result.filename).toContain(userId);
       expect(result.filename.endsWith('.json')).toBe(true);
     });
+    
+    it('should export only the active branch of a conversation', async () => {
+      const convStore = new ConversationStore(memoryStore);
+      const question = await convStore.addMessage('test-conv-1', { role: 'user', content: 'Typo' });
+      await convStore.addMessage('test-conv-1', { role: 'assistant', content: 'Answer to typo' });
+      await convStore.forkMessage('test-conv-1', question.id, 'Fixed');
+      
+      const result = await service.export({
+        userId,
+        scopes: ['conversations'],
+        format: 'json',
+      });
+      
+      const conversation = result.data.conversations?.[0];
+      expect(conversation?.messages.map(m => m.content)).toEqual(['Hello', 'Fixed']);
+      expect(conversation?.messageCount).toBe(2);
+    });
   });
   
   describe('exportToString', () => {
@@ -0,0 +1,391 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// GATE REGISTRY TESTS — Pluggable gates and pipeline definitions
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { describe, it, expect, vi } from 'vitest';
+import { ExecutionPipeline, pickReusableGateResults } from '../pipeline/execution-pipeline.js';
+import {
+  GateRegistry,
+  DEFAULT_PIPELINE_DEFINITION,
+  PipelineDefinitionError,
+  insertStage,
+  configureStage,
+  reorderStages,
+  type PipelineGate,
+} from '../pipeline/gate-registry.js';
+import type { PipelineContext } from '../types/index.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TEST HELPERS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+function createContext(overrides: Partial<PipelineContext> = {}): PipelineContext {
+  return {
+    userId: 'test-user',
+    conversationId: 'test-conv',
+    requestId: 'test-req',
+    timestamp: Date.now(),
+    actionSources: [],
+    ...overrides,
+  };
+}
+
+function createGate(id: string, overrides: Partial<PipelineGate> = {}): PipelineGate {
+  return {
+    id,
+    execute: () => ({ gateId: id, status: 'pass', action: 'continue', output: {} }),
+    ...overrides,
+  };
+}
+
+const redactionGate: PipelineGate = {
+  id: 'pii_redaction',
+  execute: (state) => {
+    state.userMessage = state.userMessage.replace(/\b[\w.]+@[\w.]+\b/g, '[email]');
+    return { gateId: 'pii_redaction', status: 'pass', action: 'continue', output: { redacted: true } };
+  },
+};
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// REGISTRY VALIDATION
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('GateRegistry', () => {
+  it('should reject duplicate registrations', () => {
+    const registry = new GateRegistry();
+    registry.register(createGate('a'));
+    expect(() => registry.register(createGate('a'))).toThrow('already registered');
+  });
+
+  it('should reject definitions with unknown gates', () => {
+    const registry = new GateRegistry();
+    registry.register(createGate('a'));
+    expect(() => registry.validate({ id: 'x', stages: [{ gate: 'a' }, { gate: 'b' }] }))
+      .toThrow(PipelineDefinitionError);
+  });
+
+  it('should reject definitions that omit or disable a required gate', () => {
+    const registry = new GateRegistry();
+    registry.register(createGate('a'));
+    registry.register(createGate('guard', { required: true }));
+
+    expect(() => registry.validate({ id: 'x', stages: [{ gate: 'a' }] })).toThrow('missing');
+    expect(() => registry.validate({ id: 'x', stages: [{ gate: 'guard', enabled: false }] }))
+      .toThrow('cannot be disabled');
+    expect(() => registry.validate({ id: 'x', stages: [{ gate: 'guard', timeoutMs: 10, onTimeout: 'skip' }] }))
+      .toThrow('cannot skip on timeout');
+  });
+
+  it('should enforce runsAfter ordering', () => {
+    const registry = new GateRegistry();
+    registry.register(createGate('a'));
+    registry.register(createGate('b', { runsAfter: ['a'] }));
+
+    expect(() => registry.validate({ id: 'x', stages: [{ gate: 'b' }, { gate: 'a' }] }))
+      .toThrow('must run after');
+    expect(() => registry.validate({ id: 'x', stages: [{ gate: 'a' }, { gate: 'b' }] }))
+      .not.toThrow();
+  });
+
+  it('should not allow unregistering required gates', () => {
+    const registry = new GateRegistry();
+    registry.register(createGate('guard', { required: true }));
+    expect(() => registry.unregister('guard')).toThrow();
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// DEFINITION HELPERS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('Definition helpers', () => {
+  it('should insert stages before and after anchors', () => {
+    const before = insertStage(DEFAULT_PIPELINE_DEFINITION, { gate: 'pii' }, { before: 'model' });
+    const gates = before.stages.map(s => s.gate);
+    expect(gates.indexOf('pii')).toBe(gates.indexOf('model') - 1);
+
+    const after = insertStage(DEFAULT_PIPELINE_DEFINITION, { gate: 'policy' }, { after: 'capability' });
+    const afterGates = after.stages.map(s => s.gate);
+    expect(afterGates.indexOf('policy')).toBe(afterGates.indexOf('capability') + 1);
+  });
+
+  it('should not mutate the source definition', () => {
+    const count = DEFAULT_PIPELINE_DEFINITION.stages.length;
+    insertStage(DEFAULT_PIPELINE_DEFINITION, { gate: 'pii' }, { before: 'model' });
+    configureStage(DEFAULT_PIPELINE_DEFINITION, 'lens', { enabled: false });
+    expect(DEFAULT_PIPELINE_DEFINITION.stages).toHaveLength(count);
+    expect(DEFAULT_PIPELINE_DEFINITION.stages.find(s => s.gate === 'lens')?.enabled).toBeUndefined();
+  });
+
+  it('should reorder named stages first', () => {
+    const reordered = reorderStages({ id: 'x', stages: [{ gate: 'a' }, { gate: 'b' }, { gate: 'c' }] }, ['c', 'a']);
+    expect(reordered.stages.map(s => s.gate)).toEqual(['c', 'a', 'b']);
+  });
+
+  it('should throw on missing anchors', () => {
+    expect(() => insertStage(DEFAULT_PIPELINE_DEFINITION, { gate: 'x' }, { before: 'nope' }))
+      .toThrow(PipelineDefinitionError);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// PIPELINE INTEGRATION
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('ExecutionPipeline with custom gates', () => {
+  it('should run a custom gate before model and record its result', async () => {
+    const pipeline = new ExecutionPipeline({
+      useMockProvider: true,
+      gates: [redactionGate],
+      pipelineDefinition: insertStage(DEFAULT_PIPELINE_DEFINITION, { gate: 'pii_redaction' }, { before: 'model' }),
+    });
+    const gates: string[] = [];
+
+    const result = await pipeline.execute('Hello, my email is jane@example.com', createContext(), {
+      onGate: (gateId) => gates.push(gateId),
+    });
+
+    expect(result.status).toBe('success');
+    expect(result.gateResults.custom?.pii_redaction?.output).toEqual({ redacted: true });
+    expect(gates.indexOf('pii_redaction')).toBeLessThan(gates.indexOf('model'));
+  });
+
+  it('should stop the pipeline when a custom gate vetoes', async () => {
+    const policyGate = createGate('org_policy', {
+      execute: () => ({
+        gateId: 'org_policy',
+        status: 'blocked',
+        action: 'stop',
+        output: {},
+        message: 'Blocked by organisation policy.',
+      }),
+    });
+    const pipeline = new ExecutionPipeline({
+      useMockProvider: true,
+      gates: [policyGate],
+      pipelineDefinition: insertStage(DEFAULT_PIPELINE_DEFINITION, { gate: 'org_policy' }, { after: 'capability' }),
+    });
+
+    const result = await pipeline.execute('Hello', createContext());
+
+    expect(result.status).toBe('stopped');
+    expect(result.response).toBe('Blocked by organisation policy.');
+    expect(result.gateResults.model).toBeUndefined();
+  });
+
+  it('should honour skip conditions', async () => {
+    const pipeline = new ExecutionPipeline({
+      useMockProvider: true,
+      pipelineDefinition: configureStage(DEFAULT_PIPELINE_DEFINITION, 'lens', {
+        skipWhen: (state) => state.userMessage.startsWith('Hello'),
+      }),
+    });
+
+    const result = await pipeline.execute('Hello', createContext());
+
+    expect(result.status).toBe('success');
+    expect(result.gateResults.lens).toBeUndefined();
+  });
+
+  it('should skip a slow gate that is configured to fail open', async () => {
+    const slowGate = createGate('slow', {
+      execute: () => new Promise(() => {}),
+    });
+    const pipeline = new ExecutionPipeline({
+      useMockProvider: true,
+      gates: [slowGate],
+      pipelineDefinition: insertStage(
+        DEFAULT_PIPELINE_DEFINITION,
+        { gate: 'slow', timeoutMs: 20, onTimeout: 'skip' },
+        { before: 'model' }
+      ),
+    });
+
+    const result = await pipeline.execute('Hello', createContext());
+
+    expect(result.status).toBe('success');
+    expect(result.gateResults.custom?.slow).toBeUndefined();
+  });
+
+  it('should discard state changes from a gate that resolves after timing out', async () => {
+    const lateGate = createGate('slow', {
+      execute: async (state) => {
+        await new Promise(resolve => setTimeout(resolve, 40));
+        state.userMessage = 'rewritten too late';
+        return { gateId: 'slow', status: 'pass', action: 'continue', output: {} };
+      },
+    });
+    const observerGate = createGate('observer', {
+      execute: async (state) => {
+        await new Promise(resolve => setTimeout(resolve, 60));
+        return { gateId: 'observer', status: 'pass', action: 'continue', output: { message: state.userMessage } };
+      },
+    });
+    let definition = insertStage(DEFAULT_PIPELINE_DEFINITION, { gate: 'pii_redaction', timeoutMs: 1000 }, { before: 'model' });
+    definition = insertStage(definition, { gate: 'slow', timeoutMs: 20, onTimeout: 'skip' }, { after: 'pii_redaction' });
+    definition = insertStage(definition, { gate: 'observer' }, { after: 'slow' });
+    const pipeline = new ExecutionPipeline({
+      useMockProvider: true,
+      gates: [redactionGate, lateGate, observerGate],
+      pipelineDefinition: definition,
+    });
+
+    const result = await pipeline.execute('Mail me at jo@example.com', createContext());
+
+    expect(result.gateResults.custom?.slow).toBeUndefined();
+    expect(result.gateResults.custom?.observer?.output).toEqual({ message: 'Mail me at [email]' });
+  });
+
+  it('should fail the request when a gate times out with the default policy', async () => {
+    const slowGate = createGate('slow', {
+      timeoutMs: 20,
+      execute: () => new Promise(() => {}),
+    });
+    const pipeline = new ExecutionPipeline({
+      useMockProvider: true,
+      gates: [slowGate],
+      pipelineDefinition: insertStage(DEFAULT_PIPELINE_DEFINITION, { gate: 'slow' }, { before: 'model' }),
+    });
+
+    const result = await pipeline.execute('Hello', createContext());
+
+    expect(result.status).toBe('error');
+    expect(result.metadata.error).toContain('timed out');
+  });
+
+  it('should resolve per-tenant definitions', async () => {
+    const pipeline = new ExecutionPipeline({
+      useMockProvider: true,
+      gates: [redactionGate],
+      tenantPipelines: {
+        acme: insertStage(DEFAULT_PIPELINE_DEFINITION, { gate: 'pii_redaction' }, { before: 'model' }, 'acme'),
+      },
+    });
+
+    const tenantResult = await pipeline.execute('Hello', createContext({ tenantId: 'acme' }));
+    const defaultResult = await pipeline.execute('Hello', createContext());
+
+    expect(tenantResult.gateResults.custom?.pii_redaction).toBeDefined();
+    expect(defaultResult.gateResults.custom).toBeUndefined();
+    expect(pipeline.resolvePipelineDefinition('acme').id).toBe('acme');
+    expect(pipeline.resolvePipelineDefinition('other').id).toBe('default');
+  });
+
+  it('should refuse a definition without the shield gate', () => {
+    expect(() => new ExecutionPipeline({
+      useMockProvider: true,
+      pipelineDefinition: {
+        id: 'unsafe',
+        stages: DEFAULT_PIPELINE_DEFINITION.stages.filter(s => s.gate !== 'shield'),
+      },
+    })).toThrow(PipelineDefinitionError);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// STREAMING
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('ExecutionPipeline streaming', () => {
+  it('should replace streamed tokens with the text that passed validation', async () => {
+    const lengthGate = createGate('length_check', {
+      execute: (state, _context, run) => {
+        if (run.regenerationCount === 0) {
+          return { gateId: 'length_check', status: 'soft_fail', action: 'regenerate', output: {} };
+        }
+        state.generation = { ...state.generation!, text: 'A shorter answer.' };
+        return { gateId: 'length_check', status: 'pass', action: 'continue', output: {} };
+      },
+    });
+    const pipeline = new ExecutionPipeline({
+      useMockProvider: true,
+      gates: [lengthGate],
+      pipelineDefinition: insertStage(DEFAULT_PIPELINE_DEFINITION, { gate: 'length_check' }, { after: 'model' }),
+    });
+    const tokens: string[] = [];
+    const replacements: string[] = [];
+
+    const result = await pipeline.execute('Hello', createContext(), {
+      onToken: (text) => tokens.push(text),
+      onReplace: (text) => replacements.push(text),
+    });
+
+    expect(result.metadata.regenerations).toBe(1);
+    expect(tokens.join('')).not.toBe(result.response);
+    expect(replacements).toEqual([result.response]);
+    expect(result.response).toContain('A shorter answer.');
+  });
+
+  it('should not send a replacement when validation kept the streamed text', async () => {
+    const pipeline = new ExecutionPipeline({ useMockProvider: true });
+    const tokens: string[] = [];
+    const onReplace = vi.fn();
+
+    const result = await pipeline.execute('Hello', createContext(), {
+      onToken: (text) => tokens.push(text),
+      onReplace,
+    });
+
+    expect(tokens.join('')).toBe(result.response);
+    expect(onReplace).not.toHaveBeenCalled();
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// REGENERATION
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('ExecutionPipeline.regenerate', () => {
+  it('should re-run only model, personality and spark with the persisted results', async () => {
+    const pipeline = new ExecutionPipeline({ useMockProvider: true });
+    const first = await pipeline.execute('Hello', createContext());
+    const snapshot = pickReusableGateResults(first.gateResults);
+    const gates: string[] = [];
+
+    const result = await pipeline.regenerate('Hello', createContext(), snapshot, {
+      onGate: (gateId) => gates.push(gateId),
+    });
+
+    expect(result.status).toBe('success');
+    expect(gates).toEqual(['model', 'personality', 'spark']);
+    expect(result.gateResults.shield).toBe(snapshot.shield);
+    expect(result.stance).toBe(first.stance);
+  });
+
+  it('should re-run custom gates ordered after model and reuse earlier ones', async () => {
+    const citationGate = createGate('citation_check', {
+      execute: (state) => ({
+        gateId: 'citation_check',
+        status: 'pass',
+        action: 'continue',
+        output: { checked: state.validatedOutput?.text.length ?? 0 },
+      }),
+    });
+    const pipeline = new ExecutionPipeline({
+      useMockProvider: true,
+      gates: [redactionGate, citationGate],
+      pipelineDefinition: insertStage(
+        insertStage(DEFAULT_PIPELINE_DEFINITION, { gate: 'pii_redaction' }, { before: 'model' }),
+        { gate: 'citation_check' },
+        { after: 'personality' }
+      ),
+    });
+    const first = await pipeline.execute('Hello', createContext());
+    const gates: string[] = [];
+
+    const result = await pipeline.regenerate('Hello', createContext(), pickReusableGateResults(first.gateResults), {
+      onGate: (gateId) => gates.push(gateId),
+    });
+
+    expect(gates).toEqual(['model', 'personality', 'citation_check', 'spark']);
+    expect(result.gateResults.custom?.citation_check?.output).toEqual({ checked: result.response.length });
+  });
+
+  it('should persist only the upstream gate results of a turn', async () => {
+    const pipeline = new ExecutionPipeline({ useMockProvider: true });
+    const result = await pipeline.execute('Hello', createContext());
+
+    expect(Object.keys(pickReusableGateResults(result.gateResults)).sort())
+      .toEqual(['capability', 'intent', 'lens', 'shield', 'stance']);
+  });
+});
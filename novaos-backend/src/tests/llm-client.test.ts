@@ -0,0 +1,314 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// LLM CLIENT TESTS — ProviderManager Completions
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Covers the completion path used by gate classifiers and Sword sub-flows:
+// JSON mode and structured outputs, per-call models, retries, provider
+// fallback, timeouts and the shared client lifecycle.
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+const { openaiCreate, geminiGenerate, getGenerativeModel } = vi.hoisted(() => {
+  const geminiGenerate = vi.fn();
+  return {
+    openaiCreate: vi.fn(),
+    geminiGenerate,
+    getGenerativeModel: vi.fn(() => ({ generateContent: geminiGenerate })),
+  };
+});
+
+vi.mock('openai', () => ({
+  default: vi.fn().mockImplementation(() => ({
+    chat: { completions: { create: openaiCreate } },
+  })),
+}));
+
+vi.mock('@google/generative-ai', () => ({
+  GoogleGenerativeAI: vi.fn().mockImplementation(() => ({ getGenerativeModel })),
+}));
+
+import {
+  ProviderManager,
+  getLlmClient,
+  setLlmClient,
+  resetLlmClient,
+  parseJsonResponse,
+  ensureJsonInstruction,
+  LlmUnavailableError,
+  LlmTimeoutError,
+  LlmResponseParseError,
+  type LlmClient,
+} from '../providers/index.js';
+import { getCircuitBreakerRegistry } from '../infrastructure/circuit-breaker/breaker.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// HELPERS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+function openaiResponse(content: string, totalTokens = 42) {
+  return {
+    choices: [{ message: { content }, finish_reason: 'stop', index: 0 }],
+    usage: { total_tokens: totalTokens },
+  };
+}
+
+function geminiResponse(text: string) {
+  return {
+    response: {
+      text: () => text,
+      usageMetadata: { totalTokenCount: 17 },
+    },
+  };
+}
+
+const ENV_KEYS = ['OPENAI_API_KEY', 'GEMINI_API_KEY', 'PREFERRED_PROVIDER', 'USE_MOCK_PROVIDER'] as const;
+const originalEnv = Object.fromEntries(ENV_KEYS.map((k) => [k, process.env[k]]));
+
+beforeEach(() => {
+  openaiCreate.mockReset();
+  geminiGenerate.mockReset();
+  getGenerativeModel.mockClear();
+  getCircuitBreakerRegistry().resetAll();
+  for (const key of ENV_KEYS) {
+    delete process.env[key];
+  }
+  resetLlmClient();
+});
+
+afterEach(() => {
+  for (const key of ENV_KEYS) {
+    if (originalEnv[key] !== undefined) {
+      process.env[key] = originalEnv[key];
+    } else {
+      delete process.env[key];
+    }
+  }
+  resetLlmClient();
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// HELPER FUNCTIONS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('parseJsonResponse', () => {
+  it('parses plain and fenced JSON', () => {
+    expect(parseJsonResponse('{"a":1}')).toEqual({ a: 1 });
+    expect(parseJsonResponse('```json\n{"a":2}\n```')).toEqual({ a: 2 });
+  });
+
+  it('throws LlmResponseParseError with the raw text', () => {
+    try {
+      parseJsonResponse('not json');
+      expect.fail('should throw');
+    } catch (error) {
+      expect(error).toBeInstanceOf(LlmResponseParseError);
+      expect((error as LlmResponseParseError).rawText).toBe('not json');
+    }
+  });
+});
+
+describe('ensureJsonInstruction', () => {
+  it('leaves messages that already mention JSON untouched', () => {
+    const messages = [{ role: 'system' as const, content: 'Return JSON only.' }];
+    expect(ensureJsonInstruction(messages)).toEqual(messages);
+  });
+
+  it('appends the instruction to the system message', () => {
+    const result = ensureJsonInstruction([
+      { role: 'system', content: 'Classify the message.' },
+      { role: 'user', content: 'hello' },
+    ]);
+    expect(result[0]!.content).toMatch(/Classify the message\.\n\nRespond with a single JSON object\.$/);
+    expect(result[1]!.content).toBe('hello');
+  });
+
+  it('adds a system message when there is none', () => {
+    const result = ensureJsonInstruction([{ role: 'user', content: 'hello' }]);
+    expect(result).toHaveLength(2);
+    expect(result[0]!.role).toBe('system');
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// PROVIDER MANAGER COMPLETIONS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('ProviderManager.complete', () => {
+  it('is unavailable with only the mock provider', async () => {
+    const manager = new ProviderManager();
+
+    expect(manager.isAvailable()).toBe(false);
+    await expect(manager.complete({ messages: [{ role: 'user', content: 'hi' }] }))
+      .rejects.toBeInstanceOf(LlmUnavailableError);
+  });
+
+  it('requests JSON mode from OpenAI', async () => {
+    openaiCreate.mockResolvedValue(openaiResponse('{"ok":true}'));
+    const manager = new ProviderManager({ openaiApiKey: 'test-key' });
+
+    const completion = await manager.complete({
+      messages: [
+        { role: 'system', content: 'Classify the message.' },
+        { role: 'user', content: 'hello' },
+      ],
+      model: 'gpt-4o',
+      maxTokens: 100,
+      responseFormat: 'json',
+    });
+
+    expect(completion).toEqual({ text: '{"ok":true}', provider: 'openai', model: 'gpt-4o', tokensUsed: 42 });
+    const args = openaiCreate.mock.calls[0]![0];
+    expect(args.model).toBe('gpt-4o');
+    expect(args.max_tokens).toBe(100);
+    expect(args.temperature).toBe(0);
+    expect(args.response_format).toEqual({ type: 'json_object' });
+    expect(args.messages[0].content).toContain('Respond with a single JSON object.');
+  });
+
+  it('sends a JSON schema as a structured output', async () => {
+    openaiCreate.mockResolvedValue(openaiResponse('{"intent":"learn"}'));
+    const manager = new ProviderManager({ openaiApiKey: 'test-key' });
+    const schema = { type: 'object', properties: { intent: { type: 'string' } } };
+
+    const parsed = await manager.completeJson<{ intent: string }>({
+      messages: [{ role: 'user', content: 'I want to learn Rust' }],
+      jsonSchema: { name: 'intent', schema, strict: true },
+    });
+
+    expect(parsed).toEqual({ intent: 'learn' });
+    expect(openaiCreate.mock.calls[0]![0].response_format).toEqual({
+      type: 'json_schema',
+      json_schema: { name: 'intent', schema, strict: true },
+    });
+  });
+
+  it('omits response_format for text completions', async () => {
+    openaiCreate.mockResolvedValue(openaiResponse('Sure, happy to help.'));
+    const manager = new ProviderManager({ openaiApiKey: 'test-key' });
+
+    const completion = await manager.complete({ messages: [{ role: 'user', content: 'hi' }] });
+
+    expect(completion.text).toBe('Sure, happy to help.');
+    expect(openaiCreate.mock.calls[0]![0].response_format).toBeUndefined();
+  });
+
+  it('applies a per-call model only within its provider family', async () => {
+    openaiCreate.mockResolvedValue(openaiResponse('{}'));
+    const manager = new ProviderManager({ openaiApiKey: 'test-key' });
+
+    await manager.complete({ messages: [{ role: 'user', content: 'hi' }], model: 'gemini-1.5-pro' });
+
+    expect(openaiCreate.mock.calls[0]![0].model).toBe('gpt-4o-mini');
+  });
+
+  it('retries a transient failure on the same provider', async () => {
+    openaiCreate
+      .mockRejectedValueOnce(new Error('503 Service Unavailable'))
+      .mockResolvedValueOnce(openaiResponse('recovered'));
+    const manager = new ProviderManager({
+      openaiApiKey: 'test-key',
+      completionRetry: { initialDelayMs: 1, maxDelayMs: 1 },
+    });
+
+    const completion = await manager.complete({ messages: [{ role: 'user', content: 'hi' }] });
+
+    expect(completion.text).toBe('recovered');
+    expect(openaiCreate).toHaveBeenCalledTimes(2);
+  });
+
+  it('falls back to Gemini when OpenAI fails', async () => {
+    openaiCreate.mockRejectedValue(new Error('401 Unauthorized'));
+    geminiGenerate.mockResolvedValue(geminiResponse('{"ok":true}'));
+    const manager = new ProviderManager({ openaiApiKey: 'test-key', geminiApiKey: 'test-key' });
+
+    const completion = await manager.complete({
+      messages: [
+        { role: 'system', content: 'Return JSON.' },
+        { role: 'user', content: 'hello' },
+      ],
+      model: 'gpt-4o',
+      responseFormat: 'json',
+    });
+
+    expect(completion).toMatchObject({ text: '{"ok":true}', provider: 'gemini', model: 'gemini-1.5-flash', tokensUsed: 17 });
+    // Non-retryable error: one OpenAI attempt, then fallback
+    expect(openaiCreate).toHaveBeenCalledTimes(1);
+    expect(getGenerativeModel).toHaveBeenCalledWith(expect.objectContaining({
+      systemInstruction: 'Return JSON.',
+      generationConfig: expect.objectContaining({ responseMimeType: 'application/json' }),
+    }));
+    expect(geminiGenerate.mock.calls[0]![0].contents).toEqual([
+      { role: 'user', parts: [{ text: 'hello' }] },
+    ]);
+  });
+
+  it('does not fall back when fallback is disabled', async () => {
+    openaiCreate.mockRejectedValue(new Error('401 Unauthorized'));
+    const manager = new ProviderManager({
+      openaiApiKey: 'test-key',
+      geminiApiKey: 'test-key',
+      enableFallback: false,
+    });
+
+    await expect(manager.complete({ messages: [{ role: 'user', content: 'hi' }] }))
+      .rejects.toThrow('401 Unauthorized');
+    expect(geminiGenerate).not.toHaveBeenCalled();
+  });
+
+  it('rejects with LlmTimeoutError when the budget is exceeded', async () => {
+    openaiCreate.mockImplementation(() => new Promise(() => {}));
+    const manager = new ProviderManager({ openaiApiKey: 'test-key' });
+
+    await expect(manager.complete({ messages: [{ role: 'user', content: 'hi' }], timeoutMs: 20 }))
+      .rejects.toBeInstanceOf(LlmTimeoutError);
+  });
+
+  it('throws LlmResponseParseError from completeJson on invalid output', async () => {
+    openaiCreate.mockResolvedValue(openaiResponse('I cannot answer that'));
+    const manager = new ProviderManager({ openaiApiKey: 'test-key' });
+
+    await expect(manager.completeJson({ messages: [{ role: 'user', content: 'hi' }] }))
+      .rejects.toBeInstanceOf(LlmResponseParseError);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SHARED CLIENT
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('getLlmClient', () => {
+  it('is rebuilt when provider keys change', () => {
+    const withoutKey = getLlmClient();
+    expect(withoutKey.isAvailable()).toBe(false);
+    expect(getLlmClient()).toBe(withoutKey);
+
+    process.env.OPENAI_API_KEY = 'test-key';
+    const withKey = getLlmClient();
+    expect(withKey).not.toBe(withoutKey);
+    expect(withKey.isAvailable()).toBe(true);
+  });
+
+  it('stays unavailable in mock-only mode', () => {
+    process.env.OPENAI_API_KEY = 'test-key';
+    process.env.USE_MOCK_PROVIDER = 'true';
+
+    expect(getLlmClient().isAvailable()).toBe(false);
+  });
+
+  it('returns an injected client until reset', () => {
+    const injected: LlmClient = {
+      isAvailable: () => true,
+      complete: vi.fn(),
+      completeJson: vi.fn(),
+    };
+    setLlmClient(injected);
+    process.env.OPENAI_API_KEY = 'test-key';
+
+    expect(getLlmClient()).toBe(injected);
+
+    resetLlmClient();
+    expect(getLlmClient()).not.toBe(injected);
+  });
+});
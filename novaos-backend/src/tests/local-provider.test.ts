@@ -0,0 +1,288 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// LOCAL PROVIDER TESTS — OpenAI-Compatible Self-Hosted Models
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Runs LocalProvider against a tiny in-process HTTP stub that speaks the
+// OpenAI Chat Completions API, the way Ollama / llama.cpp / vLLM do.
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { createServer, type Server, type IncomingMessage, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+
+const { geminiGenerate } = vi.hoisted(() => ({ geminiGenerate: vi.fn() }));
+
+vi.mock('@google/generative-ai', () => ({
+  GoogleGenerativeAI: vi.fn().mockImplementation(() => ({
+    getGenerativeModel: () => ({ generateContent: geminiGenerate }),
+  })),
+}));
+
+import {
+  LocalProvider,
+  ProviderManager,
+  resolveProviderOrder,
+  parseProviderOrder,
+  NOVA_SYSTEM_PROMPT,
+} from '../providers/index.js';
+import { getCircuitBreakerRegistry } from '../infrastructure/circuit-breaker/breaker.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// STUB SERVER
+// ─────────────────────────────────────────────────────────────────────────────────
+
+interface StubState {
+  models: Array<Record<string, unknown>>;
+  supportsTools: boolean;
+  requests: Array<{ path: string; body: any }>;
+}
+
+const stub: StubState = { models: [], supportsTools: true, requests: [] };
+let server: Server;
+let baseUrl: string;
+
+function readBody(req: IncomingMessage): Promise<any> {
+  return new Promise((resolve) => {
+    let data = '';
+    req.on('data', (chunk) => { data += chunk; });
+    req.on('end', () => resolve(data ? JSON.parse(data) : undefined));
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function completion(model: string, message: Record<string, unknown>) {
+  return {
+    id: 'chatcmpl-stub',
+    object: 'chat.completion',
+    created: 0,
+    model,
+    choices: [{ index: 0, message: { role: 'assistant', ...message }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 5, completion_tokens: 5, total_tokens: 10 },
+  };
+}
+
+async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const body = await readBody(req);
+  stub.requests.push({ path: req.url ?? '', body });
+
+  if (req.method === 'GET' && req.url === '/v1/models') {
+    sendJson(res, 200, { object: 'list', data: stub.models });
+    return;
+  }
+
+  if (req.method === 'POST' && req.url === '/v1/chat/completions') {
+    if (body.tools) {
+      if (!stub.supportsTools) {
+        sendJson(res, 400, { error: { message: 'tools are not supported' } });
+        return;
+      }
+      sendJson(res, 200, completion(body.model, {
+        content: null,
+        tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'ping', arguments: '{}' } }],
+      }));
+      return;
+    }
+
+    if (body.stream) {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      for (const delta of ['Hello', ' from', ' local']) {
+        res.write(`data: ${JSON.stringify({
+          id: 'chatcmpl-stub', object: 'chat.completion.chunk', created: 0, model: body.model,
+          choices: [{ index: 0, delta: { content: delta }, finish_reason: null }],
+        })}\n\n`);
+      }
+      res.end('data: [DONE]\n\n');
+      return;
+    }
+
+    const content = body.response_format ? '{"ok":true}' : `echo: ${body.messages.at(-1).content}`;
+    sendJson(res, 200, completion(body.model, { content }));
+    return;
+  }
+
+  sendJson(res, 404, { error: { message: 'not found' } });
+}
+
+function localProvider(overrides: Record<string, unknown> = {}): LocalProvider {
+  return new LocalProvider({
+    baseUrl,
+    model: 'tiny',
+    contextLength: 0,
+    toolCalling: 'auto',
+    requestTimeoutMs: 5000,
+    healthCheckIntervalMs: 0,
+    ...overrides,
+  });
+}
+
+beforeAll(async () => {
+  server = createServer((req, res) => { void handle(req, res); });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  stub.models = [{ id: 'tiny', object: 'model', max_model_len: 2048 }];
+  stub.supportsTools = true;
+  stub.requests = [];
+  geminiGenerate.mockReset();
+  getCircuitBreakerRegistry().resetAll();
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// LOCAL PROVIDER
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('LocalProvider', () => {
+  it('is unavailable without a base URL', () => {
+    expect(localProvider({ baseUrl: undefined }).isAvailable()).toBe(false);
+  });
+
+  it('probes health and detects context length and tool calling', async () => {
+    const provider = localProvider();
+
+    const health = await provider.probeHealth();
+
+    expect(health.healthy).toBe(true);
+    expect(health.details).toMatchObject({ model: 'tiny', modelListed: true, contextLength: 2048, toolCalling: true });
+    expect(await provider.getCapabilities()).toEqual({ model: 'tiny', contextLength: 2048, toolCalling: true });
+  });
+
+  it('reports no tool calling when the server rejects tools', async () => {
+    stub.supportsTools = false;
+
+    expect((await localProvider().getCapabilities()).toolCalling).toBe(false);
+  });
+
+  it('skips the tool probe when tool calling is configured', async () => {
+    const capabilities = await localProvider({ toolCalling: 'disabled', contextLength: 4096 }).getCapabilities();
+
+    expect(capabilities).toEqual({ model: 'tiny', contextLength: 4096, toolCalling: false });
+    expect(stub.requests.some(r => r.body?.tools)).toBe(false);
+  });
+
+  it('matches Ollama tags and reads llama.cpp metadata', async () => {
+    stub.models = [{ id: 'tiny:latest', meta: { n_ctx_train: 4096 } }, { id: 'other' }];
+
+    const health = await localProvider({ toolCalling: 'enabled' }).probeHealth();
+
+    expect(health.details).toMatchObject({ modelListed: true, contextLength: 4096 });
+  });
+
+  it('generates and streams with the configured model', async () => {
+    const provider = localProvider();
+
+    const generation = await provider.generate('Hi there', NOVA_SYSTEM_PROMPT);
+    expect(generation).toMatchObject({ text: 'echo: Hi there', model: 'tiny', tokensUsed: 10 });
+
+    const tokens: string[] = [];
+    const streamed = await provider.generateStream('Hi', NOVA_SYSTEM_PROMPT, undefined, {
+      onToken: (text) => tokens.push(text),
+    });
+    expect(streamed.text).toBe('Hello from local');
+    expect(tokens).toEqual(['Hello', ' from', ' local']);
+  });
+
+  it('ignores hosted per-call models and supports JSON mode', async () => {
+    const completion = await localProvider().complete({
+      messages: [{ role: 'user', content: 'Classify' }],
+      model: 'gpt-4o',
+      responseFormat: 'json',
+    });
+
+    expect(completion).toMatchObject({ text: '{"ok":true}', provider: 'local', model: 'tiny' });
+    const request = stub.requests.find(r => r.path === '/v1/chat/completions')!;
+    expect(request.body.model).toBe('tiny');
+    expect(request.body.response_format).toEqual({ type: 'json_object' });
+  });
+
+  it('trims history and clamps output to the context window', async () => {
+    const provider = localProvider({ contextLength: 400 });
+    const history = Array.from({ length: 10 }, (_, i) => ({
+      role: (i % 2 === 0 ? 'user' : 'assistant') as 'user' | 'assistant',
+      content: `message ${i} `.repeat(20),
+    }));
+
+    await provider.generate('latest question', 'Be brief.', undefined, { conversationHistory: history });
+
+    const { body } = stub.requests.find(r => r.path === '/v1/chat/completions')!;
+    expect(body.messages[0]).toEqual({ role: 'system', content: 'Be brief.' });
+    expect(body.messages.at(-1)).toEqual({ role: 'user', content: 'latest question' });
+    expect(body.messages.length).toBeLessThan(12);
+    expect(body.max_tokens).toBeLessThanOrEqual(400);
+    expect(body.max_tokens).toBeGreaterThanOrEqual(256);
+  });
+
+  it('marks the server down after a connection failure', async () => {
+    const provider = localProvider({ baseUrl: 'http://127.0.0.1:9/v1' });
+    expect(provider.isAvailable()).toBe(true);
+
+    await expect(provider.complete({ messages: [{ role: 'user', content: 'hi' }] })).rejects.toThrow();
+
+    expect(provider.isAvailable()).toBe(false);
+    expect((await provider.probeHealth()).healthy).toBe(false);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// PROVIDER ORDER
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('provider order', () => {
+  it('puts the preferred provider first and mock nowhere', () => {
+    expect(resolveProviderOrder({})).toEqual(['openai', 'gemini', 'local']);
+    expect(resolveProviderOrder({ preferredProvider: 'local' })).toEqual(['local', 'openai', 'gemini']);
+    expect(resolveProviderOrder({ preferredProvider: 'mock' })).toEqual([]);
+  });
+
+  it('uses an explicit order as given', () => {
+    expect(resolveProviderOrder({ preferredProvider: 'openai', providerOrder: ['gemini', 'local', 'gemini', 'mock'] }))
+      .toEqual(['gemini', 'local']);
+  });
+
+  it('rejects unknown provider names', () => {
+    expect(parseProviderOrder(['Local', ' openai '])).toEqual(['local', 'openai']);
+    expect(() => parseProviderOrder(['ollama'])).toThrow(/Unknown provider "ollama"/);
+  });
+
+  it('serves from the local provider when it is first in the order', async () => {
+    const manager = new ProviderManager({
+      geminiApiKey: 'test-key',
+      local: { baseUrl, model: 'tiny', healthCheckIntervalMs: 0, toolCalling: 'enabled' },
+      providerOrder: ['local', 'gemini'],
+    });
+
+    expect(manager.getProviderOrder()).toEqual(['local', 'gemini', 'mock']);
+    const generation = await manager.generate('Hi', NOVA_SYSTEM_PROMPT);
+    expect(generation.model).toBe('tiny');
+    expect(geminiGenerate).not.toHaveBeenCalled();
+
+    const health = await manager.checkHealth();
+    expect(health.map(h => [h.provider, h.healthy])).toEqual([['local', true], ['gemini', true]]);
+  });
+
+  it('falls back past an unreachable local server', async () => {
+    geminiGenerate.mockResolvedValue({
+      response: { text: () => '{"ok":true}', usageMetadata: { totalTokenCount: 3 } },
+    });
+    const manager = new ProviderManager({
+      geminiApiKey: 'test-key',
+      local: { baseUrl: 'http://127.0.0.1:9/v1', model: 'tiny', healthCheckIntervalMs: 0 },
+      providerOrder: ['local', 'gemini'],
+    });
+
+    const completion = await manager.complete({ messages: [{ role: 'user', content: 'hi' }], responseFormat: 'json' });
+
+    expect(completion.provider).toBe('gemini');
+    expect(manager.getAvailableProviders()).toEqual(['gemini', 'mock']);
+  });
+});
@@ -0,0 +1,201 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// METRICS TESTS — Prometheus/OpenMetrics Exposition & /metrics Endpoint
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import request from 'supertest';
+import {
+  MetricsCollector,
+  getMetricsCollector,
+  resetMetricsCollector,
+  renderMetricFamilies,
+  negotiateExpositionFormat,
+  escapeLabelValue,
+  metricsEndpoint,
+  stopEventLoopMonitor,
+} from '../observability/metrics/index.js';
+import {
+  generateServiceToken,
+  revokeToken,
+  verifyServiceToken,
+  getTokenConfig,
+} from '../security/auth/tokens.js';
+
+afterAll(() => {
+  stopEventLoopMonitor();
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// EXPOSITION FORMAT
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('Exposition format', () => {
+  let collector: MetricsCollector;
+
+  beforeEach(() => {
+    collector = new MetricsCollector({ collectDefaultMetrics: false });
+  });
+
+  it('escapes label values and HELP text', async () => {
+    expect(escapeLabelValue('a\\b"c\nd')).toBe('a\\\\b\\"c\\nd');
+
+    collector.incrementCounter('http_requests_total', { path: '/say "hi"\\\n', method: 'GET' });
+    const text = await collector.getMetrics();
+
+    expect(text).toContain('# TYPE http_requests_total counter');
+    expect(text).toContain('http_requests_total{method="GET",path="/say \\"hi\\"\\\\\\n"} 1');
+  });
+
+  it('keeps label sets with delimiter characters distinct', async () => {
+    collector.incrementCounter('custom_total', { a: 'x",b="y' });
+    collector.incrementCounter('custom_total', { a: 'x', b: 'y' });
+
+    expect(collector.getCounter('custom_total', { a: 'x', b: 'y' })).toBe(1);
+    const text = await collector.getMetrics();
+    expect(text).toContain('custom_total{a="x\\",b=\\"y"} 1');
+    expect(text).toContain('custom_total{a="x",b="y"} 1');
+  });
+
+  it('renders cumulative histogram buckets with _sum and _count', async () => {
+    collector.registerMetric({
+      name: 'job_duration_seconds',
+      help: 'Job duration',
+      type: 'histogram',
+      buckets: [0.1, 1],
+    });
+    collector.observeHistogram('job_duration_seconds', 0.05, { job: 'sync' });
+    collector.observeHistogram('job_duration_seconds', 0.5, { job: 'sync' });
+    collector.observeHistogram('job_duration_seconds', 5, { job: 'sync' });
+
+    const lines = (await collector.getMetrics()).split('\n');
+    const series = lines.filter(l => l.startsWith('job_duration_seconds'));
+
+    expect(series).toEqual([
+      'job_duration_seconds_bucket{job="sync",le="0.1"} 1',
+      'job_duration_seconds_bucket{job="sync",le="1"} 2',
+      'job_duration_seconds_bucket{job="sync",le="+Inf"} 3',
+      'job_duration_seconds_sum{job="sync"} 5.55',
+      'job_duration_seconds_count{job="sync"} 3',
+    ]);
+    expect(lines).toContain('# TYPE job_duration_seconds histogram');
+  });
+
+  it('renders OpenMetrics counter families and EOF', () => {
+    const text = renderMetricFamilies([
+      { name: 'jobs_total', help: 'Jobs "run"', type: 'counter', samples: [{ labels: {}, value: 2 }] },
+      { name: 'temp', type: 'gauge', samples: [{ labels: {}, value: -Infinity }] },
+    ], 'openmetrics');
+
+    expect(text).toBe([
+      '# HELP jobs Jobs \\"run\\"',
+      '# TYPE jobs counter',
+      'jobs_total 2',
+      '# TYPE temp gauge',
+      'temp -Inf',
+      '# EOF',
+      '',
+    ].join('\n'));
+  });
+
+  it('negotiates the format from the Accept header', () => {
+    expect(negotiateExpositionFormat(undefined)).toBe('prometheus');
+    expect(negotiateExpositionFormat('text/plain;version=0.0.4')).toBe('prometheus');
+    expect(negotiateExpositionFormat(
+      'application/openmetrics-text;version=1.0.0,text/plain;version=0.0.4;q=0.5'
+    )).toBe('openmetrics');
+  });
+
+  it('includes process and runtime default metrics', async () => {
+    const text = await new MetricsCollector().getMetrics();
+
+    expect(text).toContain('# TYPE process_cpu_seconds_total counter');
+    expect(text).toMatch(/^process_resident_memory_bytes \d+$/m);
+    expect(text).toMatch(/^nodejs_eventloop_lag_p99_seconds [\d.e-]+$/m);
+    expect(text).toMatch(/^nodejs_active_handles \d+$/m);
+    expect(text).toContain(`nodejs_version_info{version="${process.version}"`);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// ENDPOINT
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('metricsEndpoint', () => {
+  let app: express.Express;
+
+  beforeEach(() => {
+    resetMetricsCollector();
+    getMetricsCollector({ collectDefaultMetrics: false }).incrementCounter('http_requests_total', {
+      method: 'GET',
+    });
+
+    app = express();
+    app.get('/metrics', metricsEndpoint());
+  });
+
+  it('rejects scrapes without a service token', async () => {
+    const res = await request(app).get('/metrics');
+
+    expect(res.status).toBe(401);
+    expect(res.headers['www-authenticate']).toContain('Bearer');
+  });
+
+  it('rejects service tokens without metrics:read and user tokens', async () => {
+    const token = generateServiceToken('svc-1', 'reporting', ['analytics:read']).token;
+
+    const res = await request(app).get('/metrics').set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(401);
+  });
+
+  it('rejects service-typed tokens missing service claims', async () => {
+    const { secret, issuer, audience } = getTokenConfig();
+    const token = jwt.sign({ sub: 'svc-5', type: 'service', permissions: ['metrics:read'] }, secret, {
+      issuer,
+      audience,
+      expiresIn: '1h',
+    });
+
+    expect(await verifyServiceToken(token, 'metrics:read')).toMatchObject({
+      ok: false,
+      error: { code: 'NOT_SERVICE_TOKEN' },
+    });
+    const res = await request(app).get('/metrics').set('Authorization', `Bearer ${token}`);
+    expect(res.status).toBe(401);
+  });
+
+  it('rejects revoked service tokens', async () => {
+    const generated = generateServiceToken('svc-2', 'prometheus', ['metrics:read']);
+    await revokeToken(generated.jwtId!, 'rotated');
+
+    const res = await request(app).get('/metrics').set('Authorization', `Bearer ${generated.token}`);
+
+    expect(res.status).toBe(401);
+  });
+
+  it('serves Prometheus text to a service token with metrics:read', async () => {
+    const token = generateServiceToken('svc-3', 'prometheus', ['metrics:read']).token;
+
+    const res = await request(app).get('/metrics').set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toMatch(/^text\/plain;.*version=0\.0\.4/);
+    expect(res.text).toContain('http_requests_total{method="GET"} 1');
+  });
+
+  it('serves OpenMetrics when requested', async () => {
+    const token = generateServiceToken('svc-4', 'prometheus', ['metrics:read']).token;
+
+    const res = await request(app)
+      .get('/metrics')
+      .set('Authorization', `Bearer ${token}`)
+      .set('Accept', 'application/openmetrics-text; version=1.0.0');
+
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toContain('application/openmetrics-text');
+    expect(res.text).toContain('# TYPE http_requests counter');
+    expect(res.text.endsWith('# EOF\n')).toBe(true);
+  });
+});
@@ -0,0 +1,349 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// NOTIFICATION DIGEST TESTS — Scheduling, Quiet-Hours Deferral and Sending
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  getDeliveryTime,
+  isQuietHours,
+  nextDigestAt,
+  quietHoursEnd,
+  renderDigest,
+  validateDigestSettings,
+} from '../notifications/digest.js';
+import { NotificationStore } from '../notifications/store.js';
+import { NotificationService, type EmailProvider, type PushProvider } from '../notifications/service.js';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  type Notification,
+  type NotificationPreferences,
+} from '../notifications/types.js';
+import { MemoryStore } from '../storage/memory.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TEST FIXTURES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const TEST_USER_ID = 'test-user-123';
+
+class RecordingProvider implements EmailProvider, PushProvider {
+  sent: Notification[] = [];
+
+  async send(notification: Notification): Promise<void> {
+    this.sent.push(notification);
+  }
+}
+
+/** Local time on Wednesday 2026-10-14 */
+function wednesday(hours: number, minutes = 0): Date {
+  return new Date(2026, 9, 14, hours, minutes);
+}
+
+function preferences(overrides: Partial<NotificationPreferences> = {}): NotificationPreferences {
+  return { ...DEFAULT_NOTIFICATION_PREFERENCES, userId: TEST_USER_ID, ...overrides };
+}
+
+const QUIET_NIGHTS = {
+  quietHoursEnabled: true,
+  quietHoursStart: '22:00',
+  quietHoursEnd: '07:00',
+};
+
+function notification(overrides: Partial<Notification> = {}): Notification {
+  return {
+    id: `ntf_${Math.random().toString(36).slice(2, 8)}`,
+    userId: TEST_USER_ID,
+    type: 'goal_deadline',
+    title: 'Goal deadline approaching',
+    body: "'Learn Rust' is due in 2 days",
+    priority: 'high',
+    read: false,
+    dismissed: false,
+    createdAt: new Date().toISOString(),
+    channels: ['in_app', 'email'],
+    deliveredVia: [],
+    ...overrides,
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SCHEDULING TESTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('digest scheduling', () => {
+  it('finds the next hourly, daily and weekly send time', () => {
+    const at = wednesday(9, 30);
+
+    expect(nextDigestAt({ enabled: true }, at)).toBeNull();
+    expect(nextDigestAt({ enabled: true, digest: 'hourly' }, at)).toEqual(wednesday(10));
+    expect(nextDigestAt({ enabled: true, digest: 'daily' }, at)).toEqual(new Date(2026, 9, 15, 8));
+    expect(nextDigestAt({ enabled: true, digest: 'daily', digestHour: 18 }, at)).toEqual(wednesday(18));
+    expect(nextDigestAt({ enabled: true, digest: 'weekly' }, at)).toEqual(new Date(2026, 9, 19, 8));
+    expect(nextDigestAt({ enabled: true, digest: 'weekly', digestDay: 3, digestHour: 8 }, at))
+      .toEqual(new Date(2026, 9, 21, 8));
+  });
+
+  it('handles overnight quiet hours', () => {
+    const prefs = preferences(QUIET_NIGHTS);
+
+    expect(isQuietHours(prefs, wednesday(23))).toBe(true);
+    expect(isQuietHours(prefs, wednesday(6, 59))).toBe(true);
+    expect(isQuietHours(prefs, wednesday(7))).toBe(false);
+    expect(quietHoursEnd(prefs, wednesday(23))).toEqual(new Date(2026, 9, 15, 7));
+    expect(quietHoursEnd(prefs, wednesday(2))).toEqual(wednesday(7));
+  });
+
+  it('defers rather than drops notifications during quiet hours', () => {
+    const prefs = preferences({
+      ...QUIET_NIGHTS,
+      channelSettings: { ...DEFAULT_NOTIFICATION_PREFERENCES.channelSettings, push: { enabled: true } },
+    });
+
+    expect(getDeliveryTime(prefs, 'push', 'high', wednesday(12))).toBeNull();
+    expect(getDeliveryTime(prefs, 'push', 'high', wednesday(23))).toEqual(new Date(2026, 9, 15, 7));
+    expect(getDeliveryTime(prefs, 'push', 'urgent', wednesday(23))).toBeNull();
+    expect(getDeliveryTime(prefs, 'in_app', 'low', wednesday(23))).toBeNull();
+  });
+
+  it('moves a digest due during quiet hours to when they end', () => {
+    const prefs = preferences({
+      ...QUIET_NIGHTS,
+      channelSettings: {
+        ...DEFAULT_NOTIFICATION_PREFERENCES.channelSettings,
+        email: { enabled: true, digest: 'daily', digestHour: 6 },
+      },
+    });
+
+    expect(getDeliveryTime(prefs, 'email', 'medium', wednesday(12))).toEqual(new Date(2026, 9, 15, 7));
+  });
+
+  it('evaluates quiet hours in the user\'s timezone', () => {
+    const prefs = preferences(QUIET_NIGHTS);
+    const at = new Date('2026-10-14T14:00:00Z');      // 23:00 in Tokyo
+
+    expect(isQuietHours(prefs, at, 'Asia/Tokyo')).toBe(true);
+    expect(isQuietHours(prefs, at, 'Europe/London')).toBe(false);
+    expect(quietHoursEnd(prefs, at, 'Asia/Tokyo')).toEqual(new Date('2026-10-14T22:00:00Z'));
+  });
+
+  it('keeps local times across daylight saving changes', () => {
+    const prefs = preferences(QUIET_NIGHTS);
+    // New York leaves daylight saving at 02:00 on 2026-11-01
+    const lateSaturday = new Date('2026-11-01T03:00:00Z');  // 23:00 EDT
+
+    expect(quietHoursEnd(prefs, lateSaturday, 'America/New_York')).toEqual(new Date('2026-11-01T12:00:00Z'));
+    expect(nextDigestAt({ enabled: true, digest: 'daily' }, lateSaturday, 'America/New_York'))
+      .toEqual(new Date('2026-11-01T13:00:00Z'));
+    expect(nextDigestAt({ enabled: true, digest: 'weekly', digestDay: 0 }, lateSaturday, 'America/New_York'))
+      .toEqual(new Date('2026-11-01T13:00:00Z'));
+  });
+
+  it('rejects invalid digest settings', () => {
+    expect(() => validateDigestSettings({ email: { digest: 'daily', digestHour: 7 } })).not.toThrow();
+    expect(() => validateDigestSettings({ in_app: { digest: 'daily' } })).toThrow('only available');
+    expect(() => validateDigestSettings({ push: { digest: 'monthly' as never } })).toThrow('digest must be');
+    expect(() => validateDigestSettings({ email: { digestHour: 24 } })).toThrow('digestHour');
+    expect(() => validateDigestSettings({ email: { digestDay: 7 } })).toThrow('digestDay');
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// RENDERING TESTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('renderDigest', () => {
+  it('groups notifications by type under their template headings', () => {
+    const items = [
+      notification(),
+      ...Array.from({ length: 6 }, (_, i) => notification({
+        type: 'goal_milestone',
+        body: `'Goal ${i}' is 50% complete`,
+        priority: 'medium',
+      })),
+    ];
+
+    const digest = renderDigest(TEST_USER_ID, 'email', 'daily', items, wednesday(8));
+
+    expect(digest).toMatchObject({
+      type: 'digest',
+      title: 'Your daily digest',
+      priority: 'high',
+      channels: ['email'],
+      data: { frequency: 'daily', notificationIds: items.map(item => item.id) },
+    });
+    expect(digest.body).toContain('7 new notifications');
+    expect(digest.body).toContain("🎯 Goal deadline approaching (1)\n• 'Learn Rust' is due in 2 days");
+    expect(digest.body).toContain('🏆 Milestone reached! (6)');
+    expect(digest.body).toContain('• and 1 more');
+    expect(digest.body).not.toContain('Goal 5');
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SERVICE TESTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('NotificationService digests', () => {
+  let store: NotificationStore;
+  let email: RecordingProvider;
+  let push: RecordingProvider;
+  let service: NotificationService;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(wednesday(9, 30));
+
+    store = new NotificationStore(new MemoryStore() as any);
+    email = new RecordingProvider();
+    push = new RecordingProvider();
+    service = new NotificationService(store, { emailProvider: email, pushProvider: push });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function enableEmailDigest(): Promise<void> {
+    await store.updatePreferences(TEST_USER_ID, {
+      channelSettings: {
+        ...DEFAULT_NOTIFICATION_PREFERENCES.channelSettings,
+        email: { enabled: true, digest: 'daily' },
+      },
+    });
+  }
+
+  function notifyByEmail(title: string, priority: Notification['priority'] = 'medium') {
+    return service.notify(TEST_USER_ID, {
+      type: 'system_alert',
+      title,
+      body: `${title} body`,
+      priority,
+      channels: ['in_app', 'email'],
+    });
+  }
+
+  it('collects notifications into one digest sent when due', async () => {
+    await enableEmailDigest();
+    const first = await notifyByEmail('First');
+    const second = await notifyByEmail('Second');
+
+    expect(email.sent).toHaveLength(0);
+    expect(await store.getDigestDueAt(TEST_USER_ID, 'email')).toEqual(new Date(2026, 9, 15, 8));
+
+    expect((await service.sendDueDigests(wednesday(12))).checked).toBe(0);
+
+    const result = await service.sendDueDigests(new Date(2026, 9, 15, 8));
+
+    expect(result).toMatchObject({ checked: 1, sent: 1, notificationsSent: 2 });
+    expect(email.sent).toHaveLength(1);
+    expect(email.sent[0]).toMatchObject({
+      type: 'digest',
+      data: { notificationIds: [first.id, second.id] },
+    });
+    expect((await store.getNotification(first.id))?.deliveredVia).toContain('email');
+    expect((await service.sendDueDigests(new Date(2026, 9, 15, 9))).checked).toBe(0);
+  });
+
+  it('sends urgent notifications at once', async () => {
+    await enableEmailDigest();
+    await notifyByEmail('Server on fire', 'urgent');
+
+    expect(email.sent.map(n => n.title)).toEqual(['Server on fire']);
+    expect(await store.getDigestDueAt(TEST_USER_ID, 'email')).toBeNull();
+  });
+
+  it('leaves out notifications already read in-app', async () => {
+    await enableEmailDigest();
+    const read = await notifyByEmail('Seen');
+    await store.markAsRead(read.id, TEST_USER_ID);
+
+    const result = await service.sendDueDigests(new Date(2026, 9, 15, 8));
+
+    expect(result).toMatchObject({ checked: 1, sent: 0, skipped: 1 });
+    expect(email.sent).toHaveLength(0);
+  });
+
+  it('delivers a notification held through quiet hours once they end', async () => {
+    await store.updatePreferences(TEST_USER_ID, {
+      ...QUIET_NIGHTS,
+      channelSettings: { ...DEFAULT_NOTIFICATION_PREFERENCES.channelSettings, push: { enabled: true } },
+    });
+    vi.setSystemTime(wednesday(23));
+
+    const held = await service.notify(TEST_USER_ID, {
+      type: 'goal_deadline',
+      title: 'Goal deadline approaching',
+      body: 'Due tomorrow',
+      channels: ['in_app', 'push'],
+    });
+
+    expect(push.sent).toHaveLength(0);
+
+    const result = await service.sendDueDigests(new Date(2026, 9, 15, 7));
+
+    expect(result).toMatchObject({ sent: 1, notificationsSent: 1 });
+    expect(push.sent.map(n => n.id)).toEqual([held.id]);
+  });
+
+  it('uses the resolved timezone for quiet hours', async () => {
+    service = new NotificationService(store, {
+      pushProvider: push,
+      resolveTimezone: async () => 'Asia/Tokyo',
+    });
+    await store.updatePreferences(TEST_USER_ID, {
+      ...QUIET_NIGHTS,
+      channelSettings: { ...DEFAULT_NOTIFICATION_PREFERENCES.channelSettings, push: { enabled: true } },
+    });
+    vi.setSystemTime(new Date('2026-10-14T14:00:00Z'));
+
+    await service.notify(TEST_USER_ID, {
+      type: 'goal_deadline',
+      title: 'Goal deadline approaching',
+      body: 'Due tomorrow',
+      channels: ['in_app', 'push'],
+    });
+
+    expect(push.sent).toHaveLength(0);
+    expect(await store.getDigestDueAt(TEST_USER_ID, 'push')).toEqual(new Date('2026-10-14T22:00:00Z'));
+  });
+
+  it('keeps the queue and tries again when sending fails', async () => {
+    await enableEmailDigest();
+    const held = await notifyByEmail('First');
+    const send = vi.spyOn(email, 'send').mockRejectedValueOnce(new Error('SMTP unavailable'));
+
+    const failed = await service.sendDueDigests(new Date(2026, 9, 15, 8));
+
+    expect(failed).toMatchObject({ checked: 1, failed: 1, sent: 0 });
+    expect(await store.getDigest(TEST_USER_ID, 'email')).toEqual([held.id]);
+    expect(await store.getDigestDueAt(TEST_USER_ID, 'email')).toEqual(new Date(2026, 9, 15, 8, 15));
+
+    const retried = await service.sendDueDigests(new Date(2026, 9, 15, 8, 15));
+
+    expect(retried).toMatchObject({ checked: 1, sent: 1, notificationsSent: 1 });
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(await store.getDigest(TEST_USER_ID, 'email')).toEqual([]);
+  });
+
+  it('keeps notifications queued while a digest was being sent', async () => {
+    await store.queueForDigest(TEST_USER_ID, 'email', 'ntf_1', new Date(2026, 9, 15, 8));
+    const ids = await store.getDigest(TEST_USER_ID, 'email');
+    await store.queueForDigest(TEST_USER_ID, 'email', 'ntf_2', new Date(2026, 9, 15, 8));
+
+    await store.clearDigest(TEST_USER_ID, 'email', ids.length);
+
+    expect(await store.getDigest(TEST_USER_ID, 'email')).toEqual(['ntf_2']);
+    expect(await store.getDueDigests(new Date(2026, 9, 15, 8))).toEqual([{ userId: TEST_USER_ID, channel: 'email' }]);
+  });
+
+  it('pushes a due digest back when quiet hours have started since', async () => {
+    await enableEmailDigest();
+    await notifyByEmail('First');
+    await store.updatePreferences(TEST_USER_ID, { quietHoursEnabled: true, quietHoursStart: '07:00', quietHoursEnd: '09:00' });
+
+    const result = await service.sendDueDigests(new Date(2026, 9, 15, 8));
+
+    expect(result).toMatchObject({ checked: 1, deferred: 1, sent: 0 });
+    expect(await store.getDigestDueAt(TEST_USER_ID, 'email')).toEqual(new Date(2026, 9, 15, 9));
+  });
+});
@@ -0,0 +1,175 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// NOTIFICATION STREAM TESTS — Live Fan-Out, Resume and Store Events
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MemoryStore } from '../storage/index.js';
+import { MemoryRedisClient } from '../infrastructure/redis/index.js';
+import { NotificationStream } from '../notifications/stream.js';
+import { NotificationStore } from '../notifications/store.js';
+import type { NotificationStreamEvent } from '../notifications/types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TEST FIXTURES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const TEST_USER_ID = 'test-user-123';
+
+interface Received {
+  event: NotificationStreamEvent;
+  id?: number;
+}
+
+function collector(): { received: Received[]; send: (event: NotificationStreamEvent, id?: number) => void } {
+  const received: Received[] = [];
+  return { received, send: (event, id) => { received.push({ event, id }); } };
+}
+
+function badge(unread: number): NotificationStreamEvent {
+  return { type: 'badge', unread };
+}
+
+/** Pub/sub delivery is asynchronous */
+function flushMessages(): Promise<void> {
+  return new Promise(resolve => setImmediate(resolve));
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// STREAM TESTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('NotificationStream', () => {
+  let store: MemoryStore;
+  let transport: MemoryRedisClient;
+  let stream: NotificationStream;
+
+  beforeEach(() => {
+    store = new MemoryStore();
+    transport = new MemoryRedisClient();
+    stream = new NotificationStream(store, transport);
+  });
+
+  it('delivers live events to the user\'s open streams only', async () => {
+    const mine = collector();
+    const theirs = collector();
+    await stream.open(TEST_USER_ID, undefined, mine.send);
+    await stream.open('other-user', undefined, theirs.send);
+
+    await stream.publish(TEST_USER_ID, badge(3));
+    await flushMessages();
+
+    expect(mine.received).toEqual([{ event: badge(3), id: 1 }]);
+    expect(theirs.received).toEqual([]);
+  });
+
+  it('stops delivering once the stream is stopped', async () => {
+    const client = collector();
+    const stop = await stream.open(TEST_USER_ID, undefined, client.send);
+    expect(stream.getConnectionCount(TEST_USER_ID)).toBe(1);
+
+    stop();
+    await stream.publish(TEST_USER_ID, badge(1));
+    await flushMessages();
+
+    expect(client.received).toEqual([]);
+    expect(stream.getConnectionCount(TEST_USER_ID)).toBe(0);
+  });
+
+  it('replays events after the Last-Event-ID before live ones', async () => {
+    await stream.publish(TEST_USER_ID, badge(1));
+    await stream.publish(TEST_USER_ID, badge(2));
+    await stream.publish(TEST_USER_ID, badge(3));
+
+    const client = collector();
+    await stream.open(TEST_USER_ID, 1, client.send);
+    await stream.publish(TEST_USER_ID, badge(4));
+    await flushMessages();
+
+    expect(client.received).toEqual([
+      { event: badge(2), id: 2 },
+      { event: badge(3), id: 3 },
+      { event: badge(4), id: 4 },
+    ]);
+  });
+
+  it('sends a reset when events after the Last-Event-ID are gone', async () => {
+    for (let i = 1; i <= 205; i++) {
+      await stream.publish(TEST_USER_ID, badge(i));
+    }
+
+    const client = collector();
+    await stream.open(TEST_USER_ID, 2, client.send);
+
+    expect(client.received[0]).toEqual({ event: { type: 'reset' }, id: undefined });
+    expect(client.received[1]).toEqual({ event: badge(6), id: 6 });
+    expect(client.received).toHaveLength(201);
+  });
+
+  it('sends a reset for an id it never issued', async () => {
+    await stream.publish(TEST_USER_ID, badge(1));
+
+    const client = collector();
+    await stream.open(TEST_USER_ID, 42, client.send);
+
+    expect(client.received).toEqual([
+      { event: { type: 'reset' }, id: undefined },
+      { event: badge(1), id: 1 },
+    ]);
+  });
+
+  it('fans out across instances sharing a transport', async () => {
+    const other = new NotificationStream(store, transport);
+    const client = collector();
+    await other.open(TEST_USER_ID, undefined, client.send);
+
+    await stream.publish(TEST_USER_ID, badge(5));
+    await flushMessages();
+
+    expect(client.received).toEqual([{ event: badge(5), id: 1 }]);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// STORE EVENT TESTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('NotificationStore stream events', () => {
+  let stream: NotificationStream;
+  let notifications: NotificationStore;
+
+  beforeEach(() => {
+    const store = new MemoryStore();
+    stream = new NotificationStream(store, new MemoryRedisClient());
+    notifications = new NotificationStore(store, stream);
+  });
+
+  it('publishes read changes with the new unread count', async () => {
+    const first = await notifications.createNotification(TEST_USER_ID, { type: 'system_alert', title: 'One', body: 'First' });
+    await notifications.createNotification(TEST_USER_ID, { type: 'system_alert', title: 'Two', body: 'Second' });
+
+    const client = collector();
+    await stream.open(TEST_USER_ID, undefined, client.send);
+
+    await notifications.markAsRead(first.id, TEST_USER_ID);
+    await notifications.markAsRead(first.id, TEST_USER_ID);
+    await flushMessages();
+
+    expect(client.received).toEqual([
+      { event: { type: 'read', ids: [first.id], unread: 1 }, id: 1 },
+    ]);
+  });
+
+  it('publishes deletions', async () => {
+    const notification = await notifications.createNotification(TEST_USER_ID, { type: 'system_alert', title: 'One', body: 'First' });
+
+    const client = collector();
+    await stream.open(TEST_USER_ID, undefined, client.send);
+
+    await notifications.deleteNotification(notification.id, TEST_USER_ID);
+    await flushMessages();
+
+    expect(client.received).toEqual([
+      { event: { type: 'deleted', ids: [notification.id], unread: 0 }, id: 1 },
+    ]);
+  });
+});
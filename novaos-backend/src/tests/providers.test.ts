@@ -192,6 +192,19 @@ describe('MockProvider', () => {
     const response = await provider.generate('Hello', NOVA_SYSTEM_PROMPT);
     expect(response.model).toBe('mock-v1');
   });
+
+  it('should stream tokens that reassemble into the full response', async () => {
+    const tokens: string[] = [];
+    const response = await provider.generateStream('Help me create a plan', NOVA_SYSTEM_PROMPT, {
+      mustPrepend: 'IMPORTANT:',
+    }, {
+      onToken: (text) => tokens.push(text),
+    });
+
+    expect(tokens.length).toBeGreaterThan(1);
+    expect(tokens.join('')).toBe(response.text);
+    expect(tokens[0]).toMatch(/^IMPORTANT:/);
+  });
 });
 
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -309,6 +322,20 @@ describe('ProviderManager', () => {
     expect(response.text).toBeDefined();
     expect(response.model).toBe('mock-v1');
   });
+
+  it('should fall back when a provider fails before streaming any tokens', async () => {
+    // The mocked OpenAI client returns a plain completion, not a stream,
+    // so the OpenAI provider fails before emitting anything
+    const manager = new ProviderManager({ openaiApiKey: 'test-key' });
+    const tokens: string[] = [];
+
+    const response = await manager.generateStream('Hello', NOVA_SYSTEM_PROMPT, undefined, {
+      onToken: (text) => tokens.push(text),
+    });
+
+    expect(response.model).toBe('mock-v1');
+    expect(tokens.join('')).toBe(response.text);
+  });
 });
 
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -352,6 +379,34 @@ describe('Pipeline with Providers', () => {
     expect(result.stance).toBe('shield');
   });
 
+  it('should report gate progress and stream tokens through hooks', async () => {
+    const pipeline = new ExecutionPipeline({ useMockProvider: true });
+    const gates: string[] = [];
+    const tokens: string[] = [];
+
+    const result = await pipeline.execute('Hello', createContext(), {
+      onGate: (gateId) => gates.push(gateId),
+      onToken: (text) => tokens.push(text),
+    });
+
+    expect(gates.slice(0, 5)).toEqual(['intent', 'shield', 'lens', 'stance', 'capability']);
+    expect(gates).toContain('model');
+    expect(gates[gates.length - 1]).toBe('spark');
+    expect(tokens.join('')).toBe(result.gateResults.model?.output.text);
+  });
+
+  it('should not stream tokens when shield stops the request', async () => {
+    const pipeline = new ExecutionPipeline({ useMockProvider: true });
+    const tokens: string[] = [];
+
+    const result = await pipeline.execute('How do I make a bomb?', createContext(), {
+      onToken: (text) => tokens.push(text),
+    });
+
+    expect(result.status).toBe('stopped');
+    expect(tokens).toHaveLength(0);
+  });
+
   it('should still enter control mode with real providers', async () => {
     const pipeline = new ExecutionPipeline({ useMockProvider: true });
 
@@ -8,8 +8,11 @@ import {
   matchesCron,
   shouldRunNow,
   getNextRun,
+  getPreviousRun,
   describeCron,
   CRON_PRESETS,
+  getLocalRun,
+  markLocalRun,
   JOB_DEFINITIONS,
   getJobDefinition,
   getEnabledJobs,
@@ -19,6 +22,12 @@ import {
   type JobContext,
   type JobResult,
 } from '../scheduler/index.js';
+import { MemoryStore, getStore } from '../storage/index.js';
+import { getMemoryStore } from '../core/memory/index.js';
+import { getSparkEngine, resetSparkEngine } from '../services/spark-engine/spark-engine-bootstrap.js';
+import { WebPushProvider } from '../notifications/push/index.js';
+import type { ReminderSchedule } from '../services/spark-engine/types.js';
+import type { ReminderId, SparkId, StepId, UserId } from '../types/branded.js';
 
 // ─────────────────────────────────────────────────────────────────────────────────
 // CRON PARSER TESTS
@@ -164,6 +173,47 @@ describe('Cron Parser', () => {
     });
   });
   
+  describe('timezones', () => {
+    it('should match fields in the given timezone', () => {
+      const midnightUtc = new Date('2026-10-14T00:00:00Z');
+      
+      expect(shouldRunNow('0 9 * * *', midnightUtc, 'Asia/Tokyo')).toBe(true);
+      expect(shouldRunNow('0 9 * * 3', midnightUtc, 'Asia/Tokyo')).toBe(true);
+      expect(shouldRunNow('0 9 * * *', midnightUtc, 'America/New_York')).toBe(false);
+      expect(shouldRunNow('30 5 * * *', midnightUtc, 'UTC+5:30')).toBe(true);
+    });
+    
+    it('should reject an unknown timezone', () => {
+      const result = parseCron('0 9 * * *', 'Mars/Olympus_Mons');
+      
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('Invalid timezone');
+    });
+    
+    it('should keep local time across daylight saving changes', () => {
+      // New York leaves daylight saving on 2026-11-01
+      const next = getNextRun('0 9 * * *', new Date('2026-10-31T14:00:00Z'), undefined, 'America/New_York');
+      const after = getNextRun('0 9 * * *', next!, undefined, 'America/New_York');
+      
+      expect(next).toEqual(new Date('2026-11-01T14:00:00Z'));
+      expect(after).toEqual(new Date('2026-11-02T14:00:00Z'));
+    });
+    
+    it('should skip a local time that does not exist', () => {
+      // 02:30 never happens in New York on 2026-03-08
+      const next = getNextRun('30 2 * * *', new Date('2026-03-07T12:00:00Z'), undefined, 'America/New_York');
+      
+      expect(next).toEqual(new Date('2026-03-09T06:30:00Z'));
+    });
+    
+    it('should find the previous run', () => {
+      const from = new Date('2026-10-14T00:40:00Z');
+      
+      expect(getPreviousRun('0 9 * * *', from, 60, 'Asia/Tokyo')).toEqual(new Date('2026-10-14T00:00:00Z'));
+      expect(getPreviousRun('0 9 * * *', from, 30, 'Asia/Tokyo')).toBeNull();
+    });
+  });
+  
   describe('describeCron()', () => {
     it('should describe every minute', () => {
       expect(describeCron('* * * * *')).toBe('Every minute');
@@ -431,4 +481,97 @@ describe('Job Handlers', () => {
       expect(result?.success).toBe(true);
     });
   });
+  
+  describe('Spark Reminders Handler', () => {
+    beforeEach(() => {
+      resetSparkEngine();
+    });
+    
+    afterEach(() => {
+      resetSparkEngine();
+      vi.restoreAllMocks();
+    });
+    
+    it('should deliver due reminders over web push', async () => {
+      const sendToUser = vi.spyOn(WebPushProvider.prototype, 'sendToUser')
+        .mockResolvedValue({ attempted: 1, delivered: 1, pruned: 0, failed: 0 });
+      const { reminders } = getSparkEngine(getStore(), { encryptionEnabled: false }).storeManager;
+      const reminder: ReminderSchedule = {
+        id: 'reminder-push-1' as ReminderId,
+        userId: 'user-push-1' as UserId,
+        stepId: 'step-1' as StepId,
+        sparkId: 'spark-1' as SparkId,
+        scheduledTime: new Date(Date.now() - 60_000).toISOString(),
+        escalationLevel: 1,
+        sparkVariant: 'full',
+        tone: 'gentle',
+        status: 'pending',
+        channels: { push: true, email: false, sms: false },
+      };
+      await reminders.save(reminder);
+      
+      const scheduler = createScheduler();
+      const result = await scheduler.triggerJob('spark_reminders');
+      
+      expect(result?.metadata?.pushDelivery).toEqual({ sent: 1, failed: 0, expired: 0 });
+      expect(sendToUser).toHaveBeenCalledWith(
+        'user-push-1',
+        expect.objectContaining({ tag: 'spark-reminder:spark-1' }),
+        expect.objectContaining({ priority: 'high' })
+      );
+      const saved = await reminders.get(reminder.id);
+      expect(saved.ok && saved.value?.status).toBe('sent');
+    });
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// LOCAL SCHEDULE TESTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('Local Schedule', () => {
+  let store: MemoryStore;
+  
+  beforeEach(() => {
+    store = new MemoryStore();
+  });
+  
+  it('should be due once the time has passed in the user\'s timezone', async () => {
+    const userId = `tokyo-user-${Date.now()}`;
+    await getMemoryStore().updateProfile(userId, { timezone: 'Asia/Tokyo' });
+    
+    const before = await getLocalRun('morning_sparks', '0 9 * * *', userId, new Date('2026-10-13T23:45:00Z'), store);
+    const run = await getLocalRun('morning_sparks', '0 9 * * *', userId, new Date('2026-10-14T00:15:00Z'), store);
+    
+    expect(before).toBeNull();
+    expect(run).toEqual({
+      userId,
+      timezone: 'Asia/Tokyo',
+      scheduledFor: new Date('2026-10-14T00:00:00Z'),
+    });
+  });
+  
+  it('should normalize abbreviations from the profile', async () => {
+    const userId = `pst-user-${Date.now()}`;
+    await getMemoryStore().updateProfile(userId, { timezone: 'PST' });
+    
+    // 9 AM Pacific daylight time
+    const run = await getLocalRun('morning_sparks', '0 9 * * *', userId, new Date('2026-07-01T16:05:00Z'), store);
+    
+    expect(run?.timezone).toBe('America/Los_Angeles');
+  });
+  
+  it('should not be due again once marked', async () => {
+    const userId = `marked-user-${Date.now()}`;
+    await getMemoryStore().updateProfile(userId, { timezone: 'Asia/Tokyo' });
+    const at = new Date('2026-10-14T00:15:00Z');
+    
+    const run = await getLocalRun('goal_deadline_checkins', '0 9 * * *', userId, at, store);
+    await markLocalRun('goal_deadline_checkins', run!, store);
+    
+    expect(await getLocalRun('goal_deadline_checkins', '0 9 * * *', userId, new Date('2026-10-14T00:30:00Z'), store)).toBeNull();
+    expect(await getLocalRun('morning_sparks', '0 9 * * *', userId, at, store)).not.toBeNull();
+    expect(await getLocalRun('goal_deadline_checkins', '0 9 * * *', userId, new Date('2026-10-15T00:00:00Z'), store))
+      .not.toBeNull();
+  });
 });
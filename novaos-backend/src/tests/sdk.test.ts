@@ -647,6 +647,21 @@ describe('Streaming', () => {
       
       expect(result).toEqual({ type: 'chunk', data: 'plain text' });
     });
+    
+    it('should parse gate progress event', () => {
+      const result = parseSSEEvent('{"type":"gate","gate":"shield","status":"pass","action":"continue","executionTimeMs":12}');
+      
+      expect(result).toEqual({
+        type: 'gate',
+        gate: { gate: 'shield', status: 'pass', action: 'continue', executionTimeMs: 12 },
+      });
+    });
+    
+    it('should parse replace event', () => {
+      const result = parseSSEEvent('{"type":"replace","data":"Validated text"}');
+      
+      expect(result).toEqual({ type: 'replace', data: 'Validated text' });
+    });
   });
 });
 
@@ -0,0 +1,239 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// SEARCH QUERY LANGUAGE TESTS — Parsing, Evaluation, Operator-Aware Suggestions
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MemoryStore } from '../storage/memory.js';
+import {
+  SearchService,
+  SearchHistoryStore,
+  SearchQueryError,
+  parseSearchQuery,
+  formatQuery,
+  splitTrailingFieldClause,
+} from '../search/index.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// HELPERS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+function parseError(query: string): SearchQueryError {
+  try {
+    parseSearchQuery(query);
+  } catch (error) {
+    if (error instanceof SearchQueryError) return error;
+    throw error;
+  }
+  throw new Error(`Expected "${query}" to fail parsing`);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// PARSER TESTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('parseSearchQuery', () => {
+  it('should treat juxtaposition as AND and bind AND tighter than OR', () => {
+    const { ast } = parseSearchQuery('rust async OR go');
+
+    expect(ast).toEqual({
+      kind: 'or',
+      operands: [
+        { kind: 'and', operands: [{ kind: 'term', value: 'rust' }, { kind: 'term', value: 'async' }] },
+        { kind: 'term', value: 'go' },
+      ],
+    });
+  });
+
+  it('should parse phrases, negation, fields and dates', () => {
+    const { ast } = parseSearchQuery('"borrow checker" -unsafe NOT tag:legacy type:memories after:2026-01-01');
+
+    expect(ast).toEqual({
+      kind: 'and',
+      operands: [
+        { kind: 'phrase', value: 'borrow checker' },
+        { kind: 'not', operand: { kind: 'term', value: 'unsafe' } },
+        { kind: 'not', operand: { kind: 'field', field: 'tag', value: 'legacy' } },
+        { kind: 'field', field: 'type', value: 'memory' },
+        { kind: 'date', op: 'after', date: '2026-01-01' },
+      ],
+    });
+  });
+
+  it('should accept quoted field values and grouping', () => {
+    const { ast } = parseSearchQuery('title:"rust ownership" (tag:a OR tag:b)');
+
+    expect(formatQuery(ast)).toBe('title:"rust ownership" (tag:a OR tag:b)');
+  });
+
+  it('should collect ranking terms from positive clauses only', () => {
+    const parsed = parseSearchQuery('Rust "memory safety" -unsafe tag:systems category:skill');
+
+    expect(parsed.rankingTerms).toEqual(['rust', 'memory', 'safety', 'systems']);
+    expect(parsed.requiresText).toBe(true);
+    expect(parseSearchQuery('type:memory -rust').requiresText).toBe(false);
+    expect(parseSearchQuery('rust OR type:memory').requiresText).toBe(false);
+  });
+
+  it('should leave lowercase operators as plain text', () => {
+    const { ast } = parseSearchQuery('salt or pepper');
+
+    expect(ast.kind).toBe('and');
+  });
+});
+
+describe('parseSearchQuery errors', () => {
+  it('should report unterminated phrases with their position', () => {
+    const error = parseError('rust "borrow checker');
+
+    expect(error.code).toBe('INVALID_SEARCH_QUERY');
+    expect(error.issue).toMatchObject({ code: 'UNTERMINATED_PHRASE', position: 5 });
+  });
+
+  it('should report unbalanced parentheses', () => {
+    expect(parseError('(rust OR go').issue.code).toBe('UNBALANCED_PARENTHESIS');
+    expect(parseError('rust)').issue).toMatchObject({ code: 'UNBALANCED_PARENTHESIS', position: 4 });
+  });
+
+  it('should report dangling operators', () => {
+    expect(parseError('rust OR').issue).toMatchObject({ code: 'MISSING_OPERAND', position: 5 });
+    expect(parseError('OR rust').issue.code).toBe('MISSING_OPERAND');
+    expect(parseError('rust AND').issue.code).toBe('MISSING_OPERAND');
+    expect(parseError('()').issue.code).toBe('MISSING_OPERAND');
+  });
+
+  it('should treat unknown field prefixes as text', () => {
+    expect(parseSearchQuery('re:meeting https://example.com').ast).toEqual({
+      kind: 'and',
+      operands: [
+        { kind: 'term', value: 're:meeting' },
+        { kind: 'term', value: 'https://example.com' },
+      ],
+    });
+    expect(parseSearchQuery('note:"to self"').ast).toEqual({
+      kind: 'and',
+      operands: [
+        { kind: 'term', value: 'note:' },
+        { kind: 'phrase', value: 'to self' },
+      ],
+    });
+  });
+
+  it('should reject bad values for known fields', () => {
+    expect(parseError('tag:').issue.code).toBe('EMPTY_FIELD_VALUE');
+    expect(parseError('type:goal').issue.code).toBe('INVALID_FIELD_VALUE');
+    expect(parseError('after:2026-02-30').issue.code).toBe('INVALID_DATE');
+    expect(parseError('before:yesterday').issue.code).toBe('INVALID_DATE');
+    expect(parseError('""').issue.code).toBe('EMPTY_PHRASE');
+  });
+});
+
+describe('splitTrailingFieldClause', () => {
+  it('should split a partially typed field clause', () => {
+    expect(splitTrailingFieldClause('rust -tag:we')).toEqual({
+      head: 'rust ',
+      negated: true,
+      field: 'tag',
+      partial: 'we',
+    });
+    expect(splitTrailingFieldClause('rust web')).toBeNull();
+    expect(splitTrailingFieldClause('colour:re')).toBeNull();
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// EVALUATION TESTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('SearchService query language', () => {
+  let service: SearchService;
+  const userId = 'user123';
+
+  beforeEach(async () => {
+    service = new SearchService(new MemoryStore());
+
+    await service.indexConversation(userId, 'conv1', 'Rust ownership', 'The borrow checker enforces ownership rules',
+      { messageCount: 4, tags: ['rust', 'systems'], createdAt: '2026-01-10T12:00:00.000Z' }
+    );
+    await service.indexConversation(userId, 'conv2', 'Go concurrency', 'Goroutines and channels; checker tooling',
+      { messageCount: 2, tags: ['go'], createdAt: '2025-12-20T12:00:00.000Z' }
+    );
+    await service.indexMessage(userId, 'msg1', 'conv1', 'user', 'Why does the checker borrow my value?',
+      '2026-01-11T08:00:00.000Z'
+    );
+    await service.indexMemory(userId, 'mem1', 'skill', 'language', 'Rust',
+      { confidence: 'explicit', tags: ['rust'], createdAt: '2026-01-05T00:00:00.000Z' }
+    );
+  });
+
+  const ids = async (query: string) =>
+    (await service.search(userId, { query })).results.map(r => r.id).sort();
+
+  it('should match exact phrases in order', async () => {
+    expect(await ids('"borrow checker"')).toEqual(['conv1']);
+  });
+
+  it('should apply field filters', async () => {
+    expect(await ids('rust type:memory')).toEqual(['mem1']);
+    expect(await ids('tag:go')).toEqual(['conv2']);
+    expect(await ids('checker role:user')).toEqual(['msg1']);
+    expect(await ids('conversation:conv1')).toEqual(['conv1', 'msg1']);
+  });
+
+  it('should apply boolean operators', async () => {
+    expect(await ids('checker -tag:rust')).toEqual(['conv2', 'msg1']);
+    expect(await ids('goroutines OR ownership')).toEqual(['conv1', 'conv2']);
+    expect(await ids('checker NOT (borrow OR goroutines)')).toEqual([]);
+  });
+
+  it('should apply date ranges on createdAt', async () => {
+    expect(await ids('checker after:2026-01-01')).toEqual(['conv1', 'msg1']);
+    expect(await ids('checker before:2026-01-01')).toEqual(['conv2']);
+    expect(await ids('type:message on:2026-01-11')).toEqual(['msg1']);
+  });
+
+  it('should support filter-only queries', async () => {
+    expect(await ids('category:skill')).toEqual(['mem1']);
+    expect(await ids('-tag:rust')).toEqual(['conv2', 'msg1']);
+  });
+
+  it('should throw SearchQueryError for malformed queries', async () => {
+    await expect(service.search(userId, { query: 'rust (' })).rejects.toBeInstanceOf(SearchQueryError);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SUGGESTION TESTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('SearchHistoryStore operator suggestions', () => {
+  let history: SearchHistoryStore;
+  const userId = 'user123';
+
+  beforeEach(async () => {
+    history = new SearchHistoryStore(new MemoryStore());
+
+    await history.recordSearch(userId, 'tag:webdev async', 'all', 3);
+    await history.recordSearch(userId, 'tag:webassembly', 'all', 1);
+    await history.recordSearch(userId, 'TAG:webdev  async', 'all', 3);
+  });
+
+  it('should merge equivalent operator queries in history', async () => {
+    const suggestions = await history.getSuggestions(userId);
+
+    expect(suggestions).toHaveLength(2);
+    expect(suggestions[0]).toMatchObject({ score: 2 });
+  });
+
+  it('should complete field values from past queries', async () => {
+    const suggestions = await history.getSuggestions(userId, 'rust tag:web');
+    const queries = suggestions.map(s => s.query);
+
+    expect(queries).toEqual(['rust tag:webdev', 'rust tag:webassembly']);
+  });
+
+  it('should keep negation when completing', async () => {
+    const suggestions = await history.getSuggestions(userId, '-tag:weba');
+
+    expect(suggestions.map(s => s.query)).toEqual(['-tag:webassembly']);
+  });
+});
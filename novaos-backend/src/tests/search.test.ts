@@ -2,18 +2,20 @@
 // SEARCH TESTS — Full-Text Search, Indexing, History
 // ═══════════════════════════════════════════════════════════════════════════════
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { MemoryStore } from '../storage/memory.js';
 import {
   Tokenizer,
   FuzzyMatcher,
   SearchRanker,
+  BM25Ranker,
   SearchEngine,
   SearchIndexStore,
   SearchHistoryStore,
   SearchService,
   STOP_WORDS,
 } from '../search/index.js';
+import { ConversationStore } from '../conversations/index.js';
 
 // ─────────────────────────────────────────────────────────────────────────────────
 // TOKENIZER TESTS
@@ -858,6 +860,240 @@ describe('SearchService', () => {
   });
 });
 
+// ─────────────────────────────────────────────────────────────────────────────────
+// INVERTED INDEX TESTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('Inverted Index', () => {
+  let store: SearchIndexStore;
+  let memoryStore: MemoryStore;
+  const userId = 'user123';
+  const now = new Date().toISOString();
+  
+  beforeEach(() => {
+    memoryStore = new MemoryStore();
+    store = new SearchIndexStore(memoryStore);
+  });
+  
+  it('should record postings with per-field term frequencies', async () => {
+    await store.indexConversation(userId, 'conv1', 'Rust ownership', 'Rust borrow checker and rust lifetimes',
+      { messageCount: 2, tags: ['rust'], createdAt: now }
+    );
+    
+    const postings = await store.getPostings(userId, ['rust', 'missing']);
+    const posting = postings.get('rust')![0]!;
+    
+    expect(postings.has('missing')).toBe(false);
+    expect(posting.docId).toBe('conv1');
+    expect(posting.tf).toEqual({ title: 1, tags: 1, content: 3 });
+    expect(await store.getVocabulary(userId)).toContain('lifetimes');
+  });
+  
+  it('should update postings incrementally on removal', async () => {
+    await store.indexMessage(userId, 'msg1', 'conv1', 'user', 'kubernetes deployment', now);
+    await store.indexMessage(userId, 'msg2', 'conv1', 'user', 'kubernetes services', now);
+    
+    await store.removeDocument(userId, 'msg1');
+    
+    const postings = await store.getPostings(userId, ['kubernetes', 'deployment']);
+    expect(postings.get('kubernetes')!.map(p => p.docId)).toEqual(['msg2']);
+    expect(postings.has('deployment')).toBe(false);
+    expect(await store.getVocabulary(userId)).not.toContain('deployment');
+    expect((await store.getCorpusStats(userId)).documentCount).toBe(1);
+  });
+  
+  it('should replace postings when a document is re-indexed', async () => {
+    await store.indexMessage(userId, 'msg1', 'conv1', 'user', 'original wording', now);
+    await store.indexMessage(userId, 'msg1', 'conv1', 'user', 'edited wording', now);
+    
+    const postings = await store.getPostings(userId, ['original', 'edited']);
+    expect(postings.has('original')).toBe(false);
+    expect(postings.get('edited')).toHaveLength(1);
+    expect((await store.getCorpusStats(userId)).documentCount).toBe(1);
+    expect((await store.getStats(userId)).totalDocuments).toBe(1);
+  });
+  
+  it('should migrate documents indexed before postings existed', async () => {
+    // Simulate a legacy index: documents and id list, but no postings
+    const legacy = new SearchEngine().indexDocument('old1', 'message', userId, 'legacy quantum notes',
+      { createdAt: now, extra: { conversationId: 'conv1', role: 'user' } }
+    );
+    await memoryStore.set(`search:user:${userId}:doc:old1`, JSON.stringify(legacy));
+    await memoryStore.set(`search:user:${userId}:index`, JSON.stringify(['old1']));
+    
+    const service = new SearchService(memoryStore);
+    const results = await service.search(userId, { query: 'quantum' });
+    
+    expect(results.results.map(r => r.id)).toEqual(['old1']);
+    expect(await store.ensureInvertedIndex(userId)).toBe(false);
+  });
+  
+  it('should not treat an index kept alive by writes as legacy', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      const day = 24 * 60 * 60 * 1000;
+      await store.indexMessage(userId, 'msg1', 'conv1', 'user', 'first note', now);
+      vi.setSystemTime(Date.now() + 20 * day);
+      await store.indexMessage(userId, 'msg2', 'conv1', 'user', 'second note', now);
+      vi.setSystemTime(Date.now() + 15 * day);
+      
+      expect(await store.ensureInvertedIndex(userId)).toBe(false);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+  
+  it('should stop counting expired documents in the corpus', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      const day = 24 * 60 * 60 * 1000;
+      await store.indexMessage(userId, 'msg1', 'conv1', 'user', 'first note', now);
+      vi.setSystemTime(Date.now() + 20 * day);
+      await store.indexMessage(userId, 'msg2', 'conv1', 'user', 'second note', now);
+      expect((await store.getCorpusStats(userId)).documentCount).toBe(2);
+      vi.setSystemTime(Date.now() + 15 * day);
+      
+      await store.ensureInvertedIndex(userId);
+      
+      expect(await store.getCorpusStats(userId)).toEqual({
+        documentCount: 1,
+        totalFieldLength: { title: 0, tags: 0, content: 2 },
+      });
+      expect((await store.getStats(userId)).totalDocuments).toBe(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+  
+  it('should rebuild from stored documents when none are given', async () => {
+    await store.indexMessage(userId, 'msg1', 'conv1', 'user', 'graph databases', now);
+    
+    const count = await store.rebuildIndex(userId);
+    
+    expect(count).toBe(1);
+    expect((await store.getPostings(userId, ['graph'])).get('graph')).toHaveLength(1);
+  });
+});
+
+describe('BM25 ranking', () => {
+  let service: SearchService;
+  let memoryStore: MemoryStore;
+  const userId = 'user123';
+  const now = new Date().toISOString();
+  
+  beforeEach(async () => {
+    memoryStore = new MemoryStore();
+    service = new SearchService(memoryStore);
+    
+    await service.indexConversation(userId, 'conv1', 'Gardening', 'Notes about tomatoes and compost',
+      { messageCount: 1, createdAt: now }
+    );
+    await service.indexConversation(userId, 'conv2', 'Tomatoes', 'Planting schedule for the spring',
+      { messageCount: 1, createdAt: now }
+    );
+    await service.indexMessage(userId, 'msg1', 'conv1', 'user', 'compost compost compost tomatoes', now);
+  });
+  
+  it('should rank title matches above content matches', async () => {
+    const results = await service.search(userId, { query: 'tomatoes', scope: 'conversations' });
+    
+    expect(results.results.map(r => r.id)).toEqual(['conv2', 'conv1']);
+    expect(results.results[0]!.score).toBe(1);
+  });
+  
+  it('should weight rare terms above common ones', () => {
+    const ranker = new BM25Ranker();
+    
+    expect(ranker.idf(1, 100)).toBeGreaterThan(ranker.idf(50, 100));
+    expect(ranker.idf(100, 100)).toBeGreaterThan(0);
+  });
+  
+  it('should use memory key and value boosts', () => {
+    const ranker = new BM25Ranker();
+    
+    expect(ranker.fieldBoost('memory', 'title')).toBe(1.8);
+    expect(ranker.fieldBoost('memory', 'content')).toBe(1.2);
+    expect(ranker.fieldBoost('message', 'title')).toBe(2.0);
+  });
+  
+  it('should expand misspelled terms through the vocabulary', async () => {
+    const results = await service.search(userId, { query: 'tomatos', fuzzy: true });
+    const exact = await service.search(userId, { query: 'tomatos', fuzzy: false });
+    
+    expect(results.results.length).toBeGreaterThan(0);
+    expect(results.results[0]!.matchedTerms).toContain('tomatoes');
+    expect(exact.totalResults).toBe(0);
+  });
+  
+  it('should load only matching documents', async () => {
+    const indexStore = (service as unknown as { indexStore: SearchIndexStore }).indexStore;
+    const getAll = vi.spyOn(indexStore, 'getAllDocuments');
+    const getMany = vi.spyOn(indexStore, 'getDocuments');
+    
+    await service.search(userId, { query: 'planting' });
+    
+    expect(getAll).not.toHaveBeenCalled();
+    expect(getMany).toHaveBeenCalledWith(userId, ['conv2']);
+  });
+});
+
+describe('Branch search sync', () => {
+  const userId = 'user123';
+  let service: SearchService;
+  let conversations: ConversationStore;
+  
+  beforeEach(() => {
+    const memoryStore = new MemoryStore();
+    service = new SearchService(memoryStore);
+    conversations = new ConversationStore(memoryStore);
+  });
+  
+  async function sync(convId: string) {
+    const [all, active] = await Promise.all([
+      conversations.getAllMessages(convId),
+      conversations.getMessages(convId, -1),
+    ]);
+    await service.syncMessageBranch(userId, convId, all, new Set(active.map(m => m.id)));
+  }
+  
+  async function searchMessages(query: string) {
+    const results = await service.search(userId, { query, scope: 'messages', fuzzy: false });
+    return results.results.map(r => r.id);
+  }
+  
+  it('should search the original branch again after forking and switching back', async () => {
+    await conversations.create(userId, 'conv-branch');
+    await conversations.addMessage('conv-branch', { role: 'user', content: 'Plan my week' });
+    const original = await conversations.addMessage('conv-branch', { role: 'user', content: 'Schedule a run on Tuesday' });
+    for (const message of await conversations.getMessages('conv-branch')) {
+      await service.indexMessage(userId, message.id, 'conv-branch', message.role, message.content,
+        new Date(message.timestamp).toISOString());
+    }
+    
+    const edited = await conversations.forkMessage('conv-branch', original.id, 'Schedule a swim on Thursday');
+    await sync('conv-branch');
+    
+    expect(await searchMessages('tuesday')).toEqual([]);
+    expect(await searchMessages('thursday')).toEqual([edited!.id]);
+    
+    await conversations.switchBranch('conv-branch', original.id);
+    await sync('conv-branch');
+    
+    expect(await searchMessages('tuesday')).toEqual([original.id]);
+    expect(await searchMessages('thursday')).toEqual([]);
+  });
+  
+  it('should leave conversations without indexed messages out of the index', async () => {
+    await conversations.create(userId, 'conv-unindexed');
+    const message = await conversations.addMessage('conv-unindexed', { role: 'user', content: 'Schedule a run' });
+    await conversations.forkMessage('conv-unindexed', message.id, 'Schedule a swim');
+    
+    await sync('conv-unindexed');
+    
+    expect(await searchMessages('swim')).toEqual([]);
+  });
+});
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // STOP WORDS TESTS
 // ─────────────────────────────────────────────────────────────────────────────────
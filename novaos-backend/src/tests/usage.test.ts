@@ -0,0 +1,297 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// USAGE TESTS — Token & Cost Ledger, Tier Budgets
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+const { openaiCreate } = vi.hoisted(() => ({ openaiCreate: vi.fn() }));
+
+vi.mock('openai', () => ({
+  default: vi.fn().mockImplementation(() => ({
+    chat: { completions: { create: openaiCreate } },
+  })),
+}));
+
+import { MemoryStore } from '../storage/index.js';
+import { ProviderManager, NOVA_SYSTEM_PROMPT } from '../providers/index.js';
+import { getCircuitBreakerRegistry } from '../infrastructure/circuit-breaker/breaker.js';
+import { errorHandler } from '../api/routes.js';
+import { initSecureLLMClientFromManager, resetSecureLLMClient } from '../services/spark-engine/curriculum/llm/index.js';
+import { generateCurriculum } from '../services/spark-engine/curriculum/structurer.js';
+import { QuizGenerator } from '../services/spark-engine/quiz/generator.js';
+import type { VerifiedResource } from '../services/spark-engine/resource-discovery/types.js';
+import type { Step } from '../services/spark-engine/types.js';
+import {
+  UsageLedger,
+  setUsageLedger,
+  checkBudget,
+  enforceBudget,
+  evaluateBudget,
+  estimateCost,
+  getModelPrice,
+  resetPriceOverrides,
+  runWithUsageScope,
+  runWithBudget,
+  withUsagePurpose,
+  QuotaExceededError,
+} from '../usage/index.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SETUP
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const ENV_KEYS = ['USAGE_BUDGETS_ENABLED', 'USAGE_FREE_MONTHLY_USD', 'USAGE_FREE_HARD_LIMIT_USD', 'USAGE_MODEL_PRICES'] as const;
+const originalEnv = Object.fromEntries(ENV_KEYS.map((k) => [k, process.env[k]]));
+
+let ledger: UsageLedger;
+
+function openaiResponse(content: string, promptTokens: number, completionTokens: number) {
+  return {
+    choices: [{ message: { content }, finish_reason: 'stop', index: 0 }],
+    usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens },
+  };
+}
+
+beforeEach(() => {
+  ledger = new UsageLedger(new MemoryStore());
+  setUsageLedger(ledger);
+  openaiCreate.mockReset();
+  getCircuitBreakerRegistry().resetAll();
+  for (const key of ENV_KEYS) {
+    delete process.env[key];
+  }
+  resetPriceOverrides();
+});
+
+afterEach(() => {
+  setUsageLedger(null);
+  for (const key of ENV_KEYS) {
+    if (originalEnv[key] !== undefined) {
+      process.env[key] = originalEnv[key];
+    } else {
+      delete process.env[key];
+    }
+  }
+  resetPriceOverrides();
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// PRICING
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('pricing', () => {
+  it('matches dated snapshots by longest prefix', () => {
+    expect(getModelPrice('openai', 'gpt-4o-mini-2024-07-18')).toEqual({ inputPerMillion: 0.15, outputPerMillion: 0.6 });
+    expect(getModelPrice('openai', 'gpt-4o-2024-08-06').inputPerMillion).toBe(2.5);
+  });
+
+  it('prices unknown hosted models as the flagship and local models as free', () => {
+    expect(getModelPrice('gemini', 'gemini-2.0-experimental').inputPerMillion).toBe(1.25);
+    expect(getModelPrice('local', 'llama3.1')).toEqual({ inputPerMillion: 0, outputPerMillion: 0 });
+  });
+
+  it('estimates cost from prompt and completion tokens', () => {
+    expect(estimateCost('openai', 'gpt-4o', 1_000_000, 100_000)).toBeCloseTo(3.5);
+  });
+
+  it('applies USAGE_MODEL_PRICES overrides', () => {
+    process.env.USAGE_MODEL_PRICES = 'my-finetune=3/12,broken=x';
+
+    expect(getModelPrice('openai', 'my-finetune')).toEqual({ inputPerMillion: 3, outputPerMillion: 12 });
+    expect(getModelPrice('openai', 'broken').inputPerMillion).toBe(2.5);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// LEDGER
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('UsageLedger', () => {
+  const at = Date.UTC(2026, 9, 18, 12);
+
+  it('rolls calls up per user, tenant and deployment', async () => {
+    await ledger.record({ provider: 'openai', model: 'gpt-4o', promptTokens: 1000, completionTokens: 500, userId: 'u1', tenantId: 't1', purpose: 'model', timestamp: at });
+    await ledger.record({ provider: 'gemini', model: 'gemini-1.5-flash', promptTokens: 200, completionTokens: 0, userId: 'u1', purpose: 'intent', timestamp: at });
+    await ledger.record({ provider: 'openai', model: 'gpt-4o', promptTokens: 10, completionTokens: 10, userId: 'u2', timestamp: at });
+
+    const month = await ledger.getUserUsage('u1', 'month', '2026-10');
+    expect(month.totals).toMatchObject({ calls: 2, promptTokens: 1200, completionTokens: 500, totalTokens: 1700 });
+    expect(month.totals.costUsd).toBeCloseTo(0.0075 + 0.000015);
+    expect(Object.keys(month.byModel).sort()).toEqual(['gemini/gemini-1.5-flash', 'openai/gpt-4o']);
+    expect(month.byPurpose.intent!.calls).toBe(1);
+
+    expect((await ledger.getUserUsage('u1', 'day', '2026-10-18')).totals.calls).toBe(2);
+    expect((await ledger.getUserUsage('u1', 'day', '2026-10-17')).totals.calls).toBe(0);
+    expect((await ledger.getTenantUsage('t1', 'month', '2026-10')).totals.calls).toBe(1);
+    expect((await ledger.getGlobalUsage('month', '2026-10')).totals.calls).toBe(3);
+    expect((await ledger.getGlobalUsage('month', '2026-10')).byPurpose.other!.calls).toBe(1);
+  });
+
+  it('ranks top spenders for the month', async () => {
+    await ledger.record({ provider: 'openai', model: 'gpt-4o', promptTokens: 10, completionTokens: 0, userId: 'small', timestamp: at });
+    await ledger.record({ provider: 'openai', model: 'gpt-4o', promptTokens: 1000, completionTokens: 0, userId: 'big', timestamp: at });
+
+    const top = await ledger.getTopSpenders('user', '2026-10', 10);
+    expect(top.map(r => r.id)).toEqual(['big', 'small']);
+    expect(top[0]!.costUsd).toBeCloseTo(0.0025);
+  });
+
+  it('does not lose concurrent updates to the same rollup', async () => {
+    await Promise.all(Array.from({ length: 20 }, () =>
+      ledger.record({ provider: 'openai', model: 'gpt-4o-mini', promptTokens: 1, completionTokens: 1, userId: 'u1', timestamp: at })
+    ));
+
+    expect((await ledger.getUserUsage('u1', 'month', '2026-10')).totals.calls).toBe(20);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// BUDGETS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('budgets', () => {
+  it('moves to economy at the budget and refuses at the hard limit', () => {
+    const budget = { monthlyBudgetUsd: 1, hardLimitUsd: 2 };
+    expect(evaluateBudget(0.5, budget)).toBe('ok');
+    expect(evaluateBudget(1, budget)).toBe('economy');
+    expect(evaluateBudget(2.5, budget)).toBe('exceeded');
+    expect(evaluateBudget(1000, { monthlyBudgetUsd: 0, hardLimitUsd: 0 })).toBe('ok');
+  });
+
+  it('checks the current month of the ledger against the tier budget', async () => {
+    process.env.USAGE_FREE_MONTHLY_USD = '0.001';
+    process.env.USAGE_FREE_HARD_LIMIT_USD = '0.01';
+    await ledger.record({ provider: 'openai', model: 'gpt-4o', promptTokens: 1000, completionTokens: 0, userId: 'u1' });
+
+    const status = await checkBudget('u1', 'free');
+    expect(status).toMatchObject({ tier: 'free', state: 'economy', monthlyBudgetUsd: 0.001, hardLimitUsd: 0.01 });
+    expect(status.spentUsd).toBeCloseTo(0.0025);
+    expect((await checkBudget('u1', 'pro')).state).toBe('ok');
+
+    await ledger.record({ provider: 'openai', model: 'gpt-4o', promptTokens: 4000, completionTokens: 0, userId: 'u1' });
+    await expect(enforceBudget('u1', 'free')).rejects.toBeInstanceOf(QuotaExceededError);
+
+    process.env.USAGE_BUDGETS_ENABLED = 'false';
+    expect((await checkBudget('u1', 'free')).state).toBe('ok');
+  });
+
+  it('reports the month reset', async () => {
+    const status = await checkBudget('u1', 'free', ledger, new Date(Date.UTC(2026, 11, 31, 23)));
+    expect(status.month).toBe('2026-12');
+    expect(status.resetsAt).toBe('2027-01-01T00:00:00.000Z');
+  });
+
+  it('is served as 429 QUOTA_EXCEEDED with Retry-After', async () => {
+    const budget = await checkBudget('u1', 'free');
+    const res = { setHeader: vi.fn(), status: vi.fn(), json: vi.fn() };
+    res.status.mockReturnValue(res);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    errorHandler(new QuotaExceededError({ ...budget, state: 'exceeded' }), {} as any, res as any, vi.fn());
+
+    expect(res.status).toHaveBeenCalledWith(429);
+    expect(res.setHeader).toHaveBeenCalledWith('Retry-After', expect.any(String));
+    expect(res.json.mock.calls[0]![0]).toMatchObject({ code: 'QUOTA_EXCEEDED', budget: { tier: 'free' } });
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// PROVIDER MANAGER
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('ProviderManager usage', () => {
+  it('records every call against the current scope and purpose', async () => {
+    openaiCreate.mockResolvedValue(openaiResponse('{"intent":"learn"}', 120, 30));
+    const manager = new ProviderManager({ openaiApiKey: 'test-key' });
+
+    await runWithUsageScope({ userId: 'u1', tenantId: 't1' }, () =>
+      withUsagePurpose('intent', () => manager.complete({ messages: [{ role: 'user', content: 'hi' }], model: 'gpt-4o' }))
+    );
+    await ledger.flush();
+
+    const usage = await ledger.getUserUsage('u1', 'day');
+    expect(usage.totals).toMatchObject({ calls: 1, promptTokens: 120, completionTokens: 30 });
+    expect(usage.byModel['openai/gpt-4o']!.costUsd).toBeCloseTo((120 * 2.5 + 30 * 10) / 1_000_000);
+    expect(usage.byPurpose.intent!.calls).toBe(1);
+    expect((await ledger.getTenantUsage('t1', 'day')).totals.calls).toBe(1);
+  });
+
+  it('records unscoped calls against the deployment only', async () => {
+    openaiCreate.mockResolvedValue(openaiResponse('ok', 5, 5));
+    const manager = new ProviderManager({ openaiApiKey: 'test-key' });
+
+    await manager.generate('hi', NOVA_SYSTEM_PROMPT);
+    await ledger.flush();
+
+    expect((await ledger.getGlobalUsage('day')).totals.calls).toBe(1);
+    expect(await ledger.getTopSpenders('user')).toEqual([]);
+  });
+
+  it('switches to economy models for an over-budget scope', async () => {
+    openaiCreate.mockResolvedValue(openaiResponse('ok', 5, 5));
+    const manager = new ProviderManager({ openaiApiKey: 'test-key' });
+
+    const completion = await runWithUsageScope({ userId: 'u1', economy: true }, () =>
+      manager.complete({ messages: [{ role: 'user', content: 'hi' }], model: 'gpt-4o' })
+    );
+
+    expect(completion.model).toBe('gpt-4o-mini');
+    expect(openaiCreate.mock.calls[0]![0].model).toBe('gpt-4o-mini');
+  });
+
+  it('does not record mock generations', async () => {
+    const manager = new ProviderManager();
+
+    await runWithUsageScope({ userId: 'u1' }, () => manager.generate('hi', NOVA_SYSTEM_PROMPT));
+    await ledger.flush();
+
+    expect((await ledger.getUserUsage('u1', 'day')).totals.calls).toBe(0);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// BUDGETED GENERATION
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('budgeted generation', () => {
+  afterEach(() => {
+    resetSecureLLMClient();
+  });
+
+  it('enforces the budget of the enclosing request tier', async () => {
+    process.env.USAGE_FREE_HARD_LIMIT_USD = '0.001';
+    await ledger.record({ provider: 'openai', model: 'gpt-4o', promptTokens: 1000, completionTokens: 0, userId: 'u1' });
+    const fn = vi.fn(async () => 'done');
+
+    await expect(runWithUsageScope({ userId: 'u1', tier: 'free' }, () => runWithBudget('u1', 'quiz_generation', fn)))
+      .rejects.toBeInstanceOf(QuotaExceededError);
+    expect(await runWithUsageScope({ userId: 'u1', tier: 'pro' }, () => runWithBudget('u1', 'quiz_generation', fn)))
+      .toBe('done');
+  });
+
+  it('refuses quiz generation past the hard limit without calling the model', async () => {
+    process.env.USAGE_FREE_HARD_LIMIT_USD = '0.001';
+    await ledger.record({ provider: 'openai', model: 'gpt-4o', promptTokens: 1000, completionTokens: 0, userId: 'u1' });
+    initSecureLLMClientFromManager(new ProviderManager({ openaiApiKey: 'test-key' }));
+    const step = { id: 'step-1', title: 'Ownership' } as Step;
+
+    await expect(runWithUsageScope({ userId: 'u1', tier: 'free' }, () => new QuizGenerator().generateQuiz(step, 'u1')))
+      .rejects.toBeInstanceOf(QuotaExceededError);
+    expect(openaiCreate).not.toHaveBeenCalled();
+  });
+
+  it('attributes curriculum calls to the goal owner outside a request', async () => {
+    openaiCreate.mockResolvedValue(openaiResponse('not json', 50, 10));
+    initSecureLLMClientFromManager(new ProviderManager({ openaiApiKey: 'test-key' }));
+    const resource = { title: 'The Rust Book', estimatedMinutes: 60, topicIds: [] } as unknown as VerifiedResource;
+
+    await generateCurriculum(
+      { goal: 'Learn Rust', resources: [resource], days: 7, minutesPerDay: 30, targetDifficulty: 'beginner', topics: [], userId: 'u1' },
+      { maxRetries: 0 }
+    );
+    await ledger.flush();
+
+    const usage = await ledger.getUserUsage('u1', 'day');
+    expect(usage.byPurpose.curriculum_structuring!.calls).toBe(1);
+  });
+});
@@ -0,0 +1,352 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// WEB PUSH TESTS — aes128gcm Encryption, VAPID, Subscriptions, Delivery
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createDecipheriv, createECDH, createPublicKey, hkdfSync, verify } from 'crypto';
+import {
+  encryptPushPayload,
+  PushEncryptionError,
+  MAX_PUSH_PAYLOAD_BYTES,
+  createVapidAuthorization,
+  generateVapidKeys,
+  validateVapidKeys,
+  loadVapidKeys,
+  PushSubscriptionStore,
+  validatePushSubscription,
+  MAX_SUBSCRIPTIONS_PER_USER,
+  WebPushProvider,
+  PushDeliveryError,
+  PushReminderSender,
+  type PushHttpClient,
+  type PushSubscriptionKeys,
+  type VapidKeys,
+} from '../notifications/push/index.js';
+import { NotificationStore } from '../notifications/store.js';
+import { NotificationService } from '../notifications/service.js';
+import type { UserId } from '../types/branded.js';
+import { MemoryStore } from '../storage/index.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// HELPERS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * A browser-side subscription: the private key lets tests decrypt.
+ */
+function createDevice(endpoint: string) {
+  const ecdh = createECDH('prime256v1');
+  ecdh.generateKeys();
+  const keys: PushSubscriptionKeys = {
+    p256dh: ecdh.getPublicKey().toString('base64url'),
+    auth: Buffer.alloc(16, 7).toString('base64url'),
+  };
+  return { endpoint, keys, ecdh };
+}
+
+/**
+ * User agent side of RFC 8291 decryption.
+ */
+function decrypt(body: Buffer, device: ReturnType<typeof createDevice>): string {
+  const salt = body.subarray(0, 16);
+  const keyIdLength = body.readUInt8(20);
+  const senderPublicKey = body.subarray(21, 21 + keyIdLength);
+  const ciphertext = body.subarray(21 + keyIdLength);
+
+  const shared = device.ecdh.computeSecret(senderPublicKey);
+  const keyInfo = Buffer.concat([
+    Buffer.from('WebPush: info\0'),
+    device.ecdh.getPublicKey(),
+    senderPublicKey,
+  ]);
+  const auth = Buffer.from(device.keys.auth, 'base64url');
+  const ikm = Buffer.from(hkdfSync('sha256', shared, auth, keyInfo, 32));
+  const key = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16));
+  const nonce = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+
+  const decipher = createDecipheriv('aes-128-gcm', key, nonce);
+  decipher.setAuthTag(ciphertext.subarray(ciphertext.length - 16));
+  const padded = Buffer.concat([decipher.update(ciphertext.subarray(0, ciphertext.length - 16)), decipher.final()]);
+  expect(padded[padded.length - 1]).toBe(0x02);
+  return padded.subarray(0, padded.length - 1).toString('utf8');
+}
+
+interface SentRequest {
+  url: string;
+  body: Buffer;
+  headers: Record<string, string>;
+}
+
+function fakeHttpClient(statusFor: (url: string) => number): PushHttpClient & { requests: SentRequest[] } {
+  const requests: SentRequest[] = [];
+  return {
+    requests,
+    async post(url, body, headers = {}) {
+      requests.push({ url, body: Buffer.from(body), headers });
+      return { statusCode: statusFor(url), body: Buffer.alloc(0) };
+    },
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// ENCRYPTION
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('encryptPushPayload', () => {
+  it('matches the RFC 8291 Appendix A test vector', () => {
+    const body = encryptPushPayload(
+      'When I grow up, I want to be a watermelon',
+      {
+        p256dh: 'BCVxsr7N_eNgVRqvHtD0zTZsEc6-VV-JvLexhqUzORcxaOzi6-AYWXvTBHm4bjyPjs7Vd8pZGH6SRpkNtoIAiw4',
+        auth: 'BTBZMqHH6r4Tts7J_aSIgg',
+      },
+      {
+        salt: Buffer.from('DGv6ra1nlYgDCS1FRnbzlw', 'base64url'),
+        senderPrivateKey: Buffer.from('yfWPiYE-n46HLnH0KqZOF1fJJU3MYrct3AELtAQ-oRw', 'base64url'),
+      }
+    );
+
+    expect(body.toString('base64url')).toBe(
+      'DGv6ra1nlYgDCS1FRnbzlwAAEABBBP4z9KsN6nGRTbVYI_c7VJSPQTBtkgcy27mlmlMoZIIgDll6e3vCYLocInmYWAmS6TlzAC8wEqKK6PBru3jl7A_yl95bQpu6cVPTpK4Mqgkf1CXztLVBSt2Ks3oZwbuwXPXLWyouBWLVWGNWQexSgSxsj_Qulcy4a-fN'
+    );
+  });
+
+  it('round-trips with a fresh key and salt per message', () => {
+    const device = createDevice('https://push.example.com/a');
+    const first = encryptPushPayload('{"title":"Hi"}', device.keys);
+    const second = encryptPushPayload('{"title":"Hi"}', device.keys);
+
+    expect(first.equals(second)).toBe(false);
+    expect(decrypt(first, device)).toBe('{"title":"Hi"}');
+    expect(decrypt(second, device)).toBe('{"title":"Hi"}');
+  });
+
+  it('rejects oversized payloads and malformed keys', () => {
+    const device = createDevice('https://push.example.com/a');
+
+    expect(() => encryptPushPayload('x'.repeat(MAX_PUSH_PAYLOAD_BYTES + 1), device.keys))
+      .toThrow(PushEncryptionError);
+    expect(encryptPushPayload('x'.repeat(MAX_PUSH_PAYLOAD_BYTES), device.keys).length).toBe(4096);
+    expect(() => encryptPushPayload('x', { ...device.keys, auth: 'AAAA' })).toThrow(PushEncryptionError);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// VAPID
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('VAPID', () => {
+  it('signs an ES256 JWT scoped to the push service origin', () => {
+    const keys = generateVapidKeys();
+    const header = createVapidAuthorization('https://fcm.example.com/send/abc', keys, 'mailto:ops@example.com');
+
+    const match = /^vapid t=([^,]+), k=(.+)$/.exec(header);
+    expect(match).not.toBeNull();
+    const [, token, k] = match!;
+    expect(k).toBe(keys.publicKey);
+
+    const [encodedHeader, encodedClaims, signature] = token!.split('.');
+    const claims = JSON.parse(Buffer.from(encodedClaims!, 'base64url').toString());
+    expect(claims.aud).toBe('https://fcm.example.com');
+    expect(claims.sub).toBe('mailto:ops@example.com');
+    expect(claims.exp).toBeGreaterThan(Date.now() / 1000);
+    expect(claims.exp).toBeLessThanOrEqual(Date.now() / 1000 + 24 * 60 * 60);
+
+    const publicKey = Buffer.from(keys.publicKey, 'base64url');
+    const verifier = createPublicKey({
+      key: {
+        kty: 'EC',
+        crv: 'P-256',
+        x: publicKey.subarray(1, 33).toString('base64url'),
+        y: publicKey.subarray(33).toString('base64url'),
+      },
+      format: 'jwk',
+    });
+    const valid = verify(
+      'sha256',
+      Buffer.from(`${encodedHeader}.${encodedClaims}`),
+      { key: verifier, dsaEncoding: 'ieee-p1363' },
+      Buffer.from(signature!, 'base64url')
+    );
+    expect(valid).toBe(true);
+  });
+
+  it('validates configured keys and persists generated development keys', async () => {
+    const store = new MemoryStore();
+    const keys = generateVapidKeys();
+    const other = generateVapidKeys();
+
+    expect(validateVapidKeys(keys)).toBe(true);
+    expect(validateVapidKeys({ publicKey: keys.publicKey, privateKey: other.privateKey })).toBe(false);
+
+    expect(await loadVapidKeys(keys, store, { allowGenerate: false })).toEqual(keys);
+    expect(await loadVapidKeys({}, store, { allowGenerate: false })).toBeNull();
+
+    const generated = await loadVapidKeys({}, store, { allowGenerate: true });
+    expect(generated).not.toBeNull();
+    expect(await loadVapidKeys({}, store, { allowGenerate: true })).toEqual(generated);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SUBSCRIPTIONS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('PushSubscriptionStore', () => {
+  let subscriptions: PushSubscriptionStore;
+
+  beforeEach(() => {
+    subscriptions = new PushSubscriptionStore(new MemoryStore());
+  });
+
+  it('validates browser subscriptions', () => {
+    const device = createDevice('https://push.example.com/a');
+
+    expect(validatePushSubscription({ endpoint: device.endpoint, keys: device.keys })).toBeNull();
+    expect(validatePushSubscription({ endpoint: 'http://push.example.com/a', keys: device.keys }))
+      .toBe('endpoint must use https');
+    expect(validatePushSubscription({ endpoint: device.endpoint, keys: { p256dh: 'abc', auth: device.keys.auth } }))
+      .toMatch(/p256dh/);
+    expect(validatePushSubscription({ endpoint: device.endpoint })).toMatch(/keys/);
+  });
+
+  it('upserts by endpoint and caps devices per user', async () => {
+    const device = createDevice('https://push.example.com/a');
+    const first = await subscriptions.save('user-1', device, 'Firefox');
+    const again = await subscriptions.save('user-1', device, 'Firefox 2');
+
+    expect(again.id).toBe(first.id);
+    expect(await subscriptions.list('user-1')).toHaveLength(1);
+
+    for (let i = 0; i < MAX_SUBSCRIPTIONS_PER_USER + 2; i++) {
+      await subscriptions.save('user-1', createDevice(`https://push.example.com/d${i}`));
+    }
+    expect(await subscriptions.list('user-1')).toHaveLength(MAX_SUBSCRIPTIONS_PER_USER);
+  });
+
+  it('drops subscriptions past their expiration time', async () => {
+    const device = createDevice('https://push.example.com/a');
+    await subscriptions.save('user-1', { ...device, expirationTime: Date.now() - 1000 });
+
+    expect(await subscriptions.list('user-1')).toEqual([]);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// DELIVERY
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('WebPushProvider', () => {
+  let store: MemoryStore;
+  let subscriptions: PushSubscriptionStore;
+  let keys: VapidKeys;
+
+  beforeEach(() => {
+    store = new MemoryStore();
+    subscriptions = new PushSubscriptionStore(store);
+    keys = generateVapidKeys();
+  });
+
+  function createProvider(httpClient: PushHttpClient) {
+    return new WebPushProvider({
+      subject: 'mailto:ops@example.com',
+      vapidPublicKey: keys.publicKey,
+      vapidPrivateKey: keys.privateKey,
+      generateKeys: false,
+      store,
+      subscriptions,
+      httpClient,
+    });
+  }
+
+  it('encrypts per device and sets TTL, Urgency and VAPID headers', async () => {
+    const device = createDevice('https://push.example.com/a');
+    await subscriptions.save('user-1', device);
+    const http = fakeHttpClient(() => 201);
+
+    const result = await createProvider(http).sendToUser(
+      'user-1',
+      { title: 'Deadline', body: 'Tomorrow' },
+      { priority: 'urgent', topic: 'goal-1' }
+    );
+
+    expect(result).toEqual({ attempted: 1, delivered: 1, pruned: 0, failed: 0 });
+    const [request] = http.requests;
+    expect(request!.url).toBe(device.endpoint);
+    expect(request!.headers['Content-Encoding']).toBe('aes128gcm');
+    expect(request!.headers.TTL).toBe('3600');
+    expect(request!.headers.Urgency).toBe('high');
+    expect(request!.headers.Topic).toBe('goal-1');
+    expect(request!.headers.Authorization).toMatch(/^vapid t=.+, k=/);
+    expect(JSON.parse(decrypt(request!.body, device))).toEqual({ title: 'Deadline', body: 'Tomorrow' });
+
+    const [saved] = await subscriptions.list('user-1');
+    expect(saved!.lastSuccessAt).toBeDefined();
+  });
+
+  it('prunes gone subscriptions and counts other failures', async () => {
+    await subscriptions.save('user-1', createDevice('https://push.example.com/gone'));
+    await subscriptions.save('user-1', createDevice('https://push.example.com/flaky'));
+    await subscriptions.save('user-1', createDevice('https://push.example.com/ok'));
+    const http = fakeHttpClient((url) => url.endsWith('/gone') ? 410 : url.endsWith('/flaky') ? 500 : 201);
+
+    const result = await createProvider(http).sendToUser('user-1', { title: 'T', body: 'B' }, { priority: 'low' });
+
+    expect(result).toEqual({ attempted: 3, delivered: 1, pruned: 1, failed: 1 });
+    expect(http.requests[0]!.headers.Urgency).toBe('low');
+    const remaining = await subscriptions.list('user-1');
+    expect(remaining.map((s) => s.endpoint)).toEqual([
+      'https://push.example.com/flaky',
+      'https://push.example.com/ok',
+    ]);
+    expect(remaining[0]!.failureCount).toBe(1);
+  });
+
+  it('delivers notifications through the push channel of NotificationService', async () => {
+    await subscriptions.save('user-1', createDevice('https://push.example.com/a'));
+    const http = fakeHttpClient(() => 201);
+    const notificationStore = new NotificationStore(store);
+    const current = await notificationStore.getPreferences('user-1');
+    await notificationStore.updatePreferences('user-1', {
+      channelSettings: { ...current.channelSettings, push: { enabled: true } },
+    });
+    const service = new NotificationService(notificationStore, {
+      pushProvider: createProvider(http),
+    });
+
+    await service.goalDeadline('user-1', { id: 'g1', title: 'Learn Rust', timeLeft: '1 day' });
+
+    expect(http.requests).toHaveLength(1);
+  });
+
+  it('fails when the user has no devices', async () => {
+    const provider = createProvider(fakeHttpClient(() => 201));
+    const notification = {
+      id: 'n1',
+      userId: 'user-1',
+      type: 'system',
+      priority: 'medium',
+      title: 'T',
+      body: 'B',
+      channels: ['push'],
+      read: false,
+      dismissed: false,
+      createdAt: new Date().toISOString(),
+    } as Parameters<WebPushProvider['send']>[0];
+
+    await expect(provider.send(notification)).rejects.toBeInstanceOf(PushDeliveryError);
+  });
+
+  it('sends spark reminders with priority rising by escalation level', async () => {
+    await subscriptions.save('user-1', createDevice('https://push.example.com/a'));
+    const http = fakeHttpClient(() => 201);
+    const sender = new PushReminderSender(createProvider(http));
+
+    expect(await sender.sendPush('user-1' as UserId, 'Time for your spark', { sparkId: 's1', escalationLevel: 0 })).toBe(true);
+    expect(await sender.sendPush('user-1' as UserId, 'Last chance', { sparkId: 's1', escalationLevel: 3 })).toBe(true);
+    expect(await sender.sendPush('user-2' as UserId, 'Nobody home', { sparkId: 's2', escalationLevel: 0 })).toBe(false);
+
+    expect(http.requests.map((r) => r.headers.Urgency)).toEqual(['normal', 'high']);
+    expect(http.requests[1]!.headers.TTL).toBe('3600');
+  });
+});
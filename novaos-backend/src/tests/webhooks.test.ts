@@ -2,7 +2,7 @@
 // WEBHOOK TESTS — Comprehensive Test Suite
 // ═══════════════════════════════════════════════════════════════════════════════
 
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import {
   generateWebhookSecret,
   validateSecret,
@@ -19,8 +19,17 @@ import {
   ALL_EVENT_TYPES,
   EVENT_CATEGORIES,
   getEventCategory,
+  type Webhook,
   type WebhookEventType,
+  type WebhookBatchPayload,
+  type WebhookPayload,
 } from '../webhooks/types.js';
+import {
+  matchesFilter,
+  matchesWebhook,
+  projectData,
+  validateFilterOptions,
+} from '../webhooks/filters.js';
 import { createEvent } from '../webhooks/events.js';
 import { WebhookStore } from '../webhooks/store.js';
 import { WebhookDispatcher } from '../webhooks/dispatcher.js';
@@ -628,6 +637,125 @@ describe('WebhookStore', () => {
   });
 });
 
+// ─────────────────────────────────────────────────────────────────────────────────
+// FILTER TESTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('Webhook Filters', () => {
+  const progressData = { goal: { id: 'goal-1', title: 'Learn Rust', progress: 60 } };
+  
+  function webhookWith(options: Partial<Webhook['options']>): Webhook {
+    return {
+      options: { maxRetries: 3, retryDelayMs: 1000, retryBackoffMultiplier: 2, timeoutMs: 10000, ...options },
+    } as Webhook;
+  }
+  
+  describe('matchesFilter', () => {
+    it('should compare numeric fields by dot path', () => {
+      expect(matchesFilter({ field: 'goal.progress', operator: 'gte', value: 50 }, progressData)).toBe(true);
+      expect(matchesFilter({ field: 'goal.progress', operator: 'lt', value: 50 }, progressData)).toBe(false);
+    });
+    
+    it('should not match numeric operators against missing or non-numeric fields', () => {
+      expect(matchesFilter({ field: 'goal.missing', operator: 'gt', value: 0 }, progressData)).toBe(false);
+      expect(matchesFilter({ field: 'goal.title', operator: 'gt', value: 0 }, progressData)).toBe(false);
+    });
+    
+    it('should support eq, neq, in and exists', () => {
+      expect(matchesFilter({ field: 'goal.id', operator: 'eq', value: 'goal-1' }, progressData)).toBe(true);
+      expect(matchesFilter({ field: 'goal.id', operator: 'neq', value: 'goal-1' }, progressData)).toBe(false);
+      expect(matchesFilter({ field: 'goal.id', operator: 'in', value: ['goal-1', 'goal-2'] }, progressData)).toBe(true);
+      expect(matchesFilter({ field: 'goal.title', operator: 'exists' }, progressData)).toBe(true);
+      expect(matchesFilter({ field: 'goal.reason', operator: 'exists', value: false }, progressData)).toBe(true);
+    });
+  });
+  
+  describe('matchesWebhook', () => {
+    it('should apply filters only to their event type', () => {
+      const webhook = webhookWith({
+        filters: [{ event: 'goal.progress', field: 'goal.progress', operator: 'gte', value: 75 }],
+      });
+      
+      expect(matchesWebhook(webhook, createEvent('goal.progress', TEST_USER_ID, progressData))).toBe(false);
+      expect(matchesWebhook(webhook, createEvent('goal.created', TEST_USER_ID, progressData))).toBe(true);
+    });
+    
+    it('should drop events below minSeverity', () => {
+      const webhook = webhookWith({ minSeverity: 'medium' });
+      
+      expect(matchesWebhook(webhook, createEvent('step.completed', TEST_USER_ID, {}))).toBe(false);
+      expect(matchesWebhook(webhook, createEvent('goal.completed', TEST_USER_ID, {}))).toBe(true);
+      expect(matchesWebhook(webhook, createEvent('chat.veto', TEST_USER_ID, {}))).toBe(true);
+    });
+  });
+  
+  describe('projectData', () => {
+    const data = { goal: { id: 'goal-1', title: 'Learn Rust', description: 'Private notes' }, email: 'a@b.c' };
+    
+    it('should return data unchanged without a projection', () => {
+      expect(projectData(data)).toBe(data);
+    });
+    
+    it('should keep only included fields', () => {
+      expect(projectData(data, { include: ['goal.id', 'goal.title'] })).toEqual({
+        goal: { id: 'goal-1', title: 'Learn Rust' },
+      });
+    });
+    
+    it('should remove excluded fields without touching the original', () => {
+      expect(projectData(data, { exclude: ['goal.description', 'email'] })).toEqual({
+        goal: { id: 'goal-1', title: 'Learn Rust' },
+      });
+      expect(data.goal.description).toBe('Private notes');
+    });
+    
+    it('should not reach into prototypes', () => {
+      const valueOf = Object.prototype.valueOf;
+      
+      expect(projectData(data, { exclude: ['__proto__.valueOf', 'constructor.prototype'] })).toEqual(data);
+      expect(Object.prototype.valueOf).toBe(valueOf);
+      expect(projectData(data, { include: ['constructor', 'goal.constructor'] })).toEqual({});
+    });
+  });
+  
+  describe('validateFilterOptions', () => {
+    it('should accept valid options', () => {
+      expect(() => validateFilterOptions({
+        minSeverity: 'high',
+        filters: [{ event: 'goal.progress', field: 'goal.progress', operator: 'gte', value: 50 }],
+        projection: { exclude: ['goal.description'] },
+        batchEvents: true,
+        batchWindowMs: 30000,
+      })).not.toThrow();
+    });
+    
+    it('should reject invalid filters', () => {
+      expect(() => validateFilterOptions({
+        filters: [{ field: 'goal.progress', operator: 'gte', value: '50' }],
+      })).toThrow('requires a numeric value');
+      expect(() => validateFilterOptions({
+        filters: [{ field: 'goal..progress', operator: 'exists' }],
+      })).toThrow('Invalid field path');
+      expect(() => validateFilterOptions({
+        filters: [{ field: 'goal', operator: 'like' as never, value: 'x' }],
+      })).toThrow('Invalid filter operator');
+    });
+    
+    it('should reject prototype field paths', () => {
+      for (const path of ['__proto__.valueOf', 'constructor', 'goal.prototype']) {
+        expect(() => validateFilterOptions({ projection: { exclude: [path] } })).toThrow('Invalid field path');
+        expect(() => validateFilterOptions({
+          filters: [{ field: path, operator: 'exists' }],
+        })).toThrow('Invalid field path');
+      }
+    });
+    
+    it('should reject out-of-range batch windows', () => {
+      expect(() => validateFilterOptions({ batchWindowMs: 10 })).toThrow('batchWindowMs');
+    });
+  });
+});
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // DISPATCHER TESTS
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -694,5 +822,174 @@ describe('WebhookDispatcher', () => {
       
       expect(count).toBe(1);
     });
+    
+    it('should skip webhooks whose filters reject the event', async () => {
+      const webhook = await store.createWebhook(TEST_USER_ID, {
+        name: 'Halfway',
+        url: TEST_WEBHOOK_URL,
+        events: ['goal.progress'],
+        options: {
+          filters: [{ field: 'goal.progress', operator: 'gte', value: 50 }],
+        },
+      });
+      
+      expect(await dispatcher.dispatch(createEvent('goal.progress', TEST_USER_ID, { goal: { progress: 20 } }))).toBe(0);
+      expect(await dispatcher.dispatch(createEvent('goal.progress', TEST_USER_ID, { goal: { progress: 60 } }))).toBe(1);
+      expect(await store.getWebhookDeliveries(webhook.id)).toHaveLength(1);
+    });
+    
+    it('should project payload data', async () => {
+      const webhook = await store.createWebhook(TEST_USER_ID, {
+        name: 'Trimmed',
+        url: TEST_WEBHOOK_URL,
+        events: ['goal.created'],
+        options: { projection: { exclude: ['goal.description'] } },
+      });
+      
+      await dispatcher.dispatch(createEvent('goal.created', TEST_USER_ID, {
+        goal: { id: 'goal-1', description: 'Private notes' },
+      }));
+      
+      const [delivery] = await store.getWebhookDeliveries(webhook.id);
+      const payload: WebhookPayload = JSON.parse(delivery!.payload);
+      expect(payload.data).toEqual({ goal: { id: 'goal-1' } });
+    });
+  });
+  
+  describe('batching', () => {
+    let webhook: Webhook;
+    
+    beforeEach(async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2026-03-01T12:00:00Z'));
+      
+      webhook = await store.createWebhook(TEST_USER_ID, {
+        name: 'Batched',
+        url: TEST_WEBHOOK_URL,
+        events: ['step.completed', 'step.skipped'],
+        options: { batchEvents: true, batchWindowMs: 60000 },
+      });
+    });
+    
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+    
+    async function dispatchSteps(...types: WebhookEventType[]): Promise<string[]> {
+      const ids: string[] = [];
+      for (const type of types) {
+        const event = createEvent(type, TEST_USER_ID, { step: { id: `step-${ids.length}` } });
+        await dispatcher.dispatch(event);
+        ids.push(event.id);
+      }
+      return ids;
+    }
+    
+    it('should hold events until the window closes', async () => {
+      await dispatchSteps('step.completed', 'step.skipped');
+      
+      expect(await dispatcher.flushBatches()).toBe(0);
+      expect(await store.getWebhookDeliveries(webhook.id)).toHaveLength(0);
+    });
+    
+    it('should deliver one signed envelope in dispatch order', async () => {
+      const ids = await dispatchSteps('step.completed', 'step.skipped', 'step.completed');
+      
+      vi.advanceTimersByTime(60000);
+      expect(await dispatcher.flushBatches()).toBe(1);
+      
+      const deliveries = await store.getWebhookDeliveries(webhook.id);
+      expect(deliveries).toHaveLength(1);
+      expect(deliveries[0]!.eventIds).toEqual(ids);
+      expect(deliveries[0]!.signature).toBe(generateSignature(deliveries[0]!.payload, webhook.secret));
+      
+      const payload: WebhookBatchPayload = JSON.parse(deliveries[0]!.payload);
+      expect(payload.sequence).toBe(1);
+      expect(payload.events.map(e => e.eventId)).toEqual(ids);
+      expect(payload.events.map(e => e.event)).toEqual(['step.completed', 'step.skipped', 'step.completed']);
+    });
+    
+    it('should batch a redelivered event only once', async () => {
+      const event = createEvent('step.completed', TEST_USER_ID, {});
+      await dispatcher.dispatch(event);
+      await dispatcher.dispatch(event);
+      
+      vi.advanceTimersByTime(60000);
+      await dispatcher.flushBatches();
+      
+      const [delivery] = await store.getWebhookDeliveries(webhook.id);
+      expect(delivery!.eventIds).toEqual([event.id]);
+    });
+    
+    it('should wait for the previous envelope before sending the next', async () => {
+      await dispatchSteps('step.completed');
+      vi.advanceTimersByTime(60000);
+      await dispatcher.flushBatches();
+      
+      await dispatchSteps('step.skipped');
+      vi.advanceTimersByTime(60000);
+      expect(await dispatcher.flushBatches()).toBe(0);
+      
+      const [first] = await store.getWebhookDeliveries(webhook.id);
+      await store.updateDelivery({ ...first!, status: 'delivered' });
+      expect(await dispatcher.flushBatches()).toBe(1);
+      
+      const [second] = await store.getWebhookDeliveries(webhook.id);
+      expect((JSON.parse(second!.payload) as WebhookBatchPayload).sequence).toBe(2);
+    });
+  });
+  
+  describe('replay', () => {
+    it('should redeliver recorded events within the range', async () => {
+      const webhook = await store.createWebhook(TEST_USER_ID, {
+        name: 'Test',
+        url: TEST_WEBHOOK_URL,
+        events: ['goal.created'],
+      });
+      
+      const event = createEvent('goal.created', TEST_USER_ID, { goal: { id: 'goal-1' } });
+      await dispatcher.dispatch(event);
+      
+      const from = new Date(Date.now() - 60000);
+      const to = new Date(Date.now() + 60000);
+      expect(await dispatcher.replay(webhook.id, from, to)).toEqual({ queued: 1, truncated: false });
+      expect((await dispatcher.replay(webhook.id, to, new Date(Date.now() + 120000))).queued).toBe(0);
+      
+      const deliveries = await store.getWebhookDeliveries(webhook.id);
+      expect(deliveries).toHaveLength(2);
+      
+      const replayed: WebhookPayload = JSON.parse(deliveries[0]!.payload);
+      expect(replayed).toMatchObject({ eventId: event.id, replayed: true });
+    });
+    
+    it('should record events for users with webhooks', async () => {
+      await store.createWebhook(TEST_USER_ID, {
+        name: 'Test',
+        url: TEST_WEBHOOK_URL,
+        events: ['goal.created'],
+      });
+      
+      // Recorded even though no webhook subscribes to it
+      await dispatcher.dispatch(createEvent('quest.created', TEST_USER_ID, {}));
+      
+      const history = await store.getEventHistory(TEST_USER_ID, new Date(0), new Date(Date.now() + 1000));
+      expect(history.events.map(e => e.type)).toEqual(['quest.created']);
+    });
+    
+    it('should report a range reaching past the capped history', async () => {
+      const start = Date.now() - 2000 * 1000;
+      for (let i = 0; i < 1001; i++) {
+        const event = createEvent('goal.created', TEST_USER_ID, { goal: { id: `goal-${i}` } });
+        await store.recordEvent({ ...event, timestamp: new Date(start + i * 1000).toISOString() });
+      }
+      
+      const to = new Date();
+      const full = await store.getEventHistory(TEST_USER_ID, new Date(start), to);
+      expect(full.events).toHaveLength(1000);
+      expect(full).toMatchObject({ truncated: true, availableFrom: new Date(start + 1000).toISOString() });
+      
+      const recent = await store.getEventHistory(TEST_USER_ID, new Date(start + 1000), to);
+      expect(recent.truncated).toBe(false);
+    });
   });
 });
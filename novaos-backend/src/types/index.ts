@@ -232,6 +232,8 @@ export interface Generation {
   readonly text: string;
   readonly model: string;
   readonly tokensUsed: number;
+  readonly promptTokens?: number;
+  readonly completionTokens?: number;
   readonly constraints?: GenerationConstraints;
   readonly fallbackUsed?: boolean;
 }
@@ -271,6 +273,8 @@ export interface GateResults {
   model?: GateResult<Generation>;
   personality?: GateResult<ValidatedOutput>;
   spark?: GateResult<SparkResult>;
+  /** Results from deployment-registered gates, keyed by gate id */
+  custom?: Record<string, GateResult<unknown>>;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -302,7 +306,10 @@ export interface PipelineContext {
   readonly userId?: string;
   readonly sessionId?: string;
   readonly conversationId?: string;
+  readonly tenantId?: string;
   readonly conversationHistory?: readonly ConversationMessage[];
+  /** Rolling summary of history older than conversationHistory */
+  readonly conversationSummary?: string;
   readonly userPreferences?: Readonly<Record<string, unknown>>;
   ackTokenValid?: boolean;
   readonly ackToken?: string;
@@ -0,0 +1,134 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// USAGE BUDGETS — Tier Monthly Spend Limits
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Budgets degrade in two steps: past the monthly budget a user is served by
+// economy models, past the hard limit LLM requests are refused with
+// QUOTA_EXCEEDED until the next UTC month.
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { loadUsageConfig, type TierBudget } from '../config/index.js';
+import type { UserTier } from '../security/auth/types.js';
+import { getUsageLedger, periodKey, type UsageLedger } from './ledger.js';
+import { getUsageScope, runWithUsageScope, type UsageScope } from './scope.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export type BudgetState = 'ok' | 'economy' | 'exceeded';
+
+export interface BudgetStatus {
+  tier: UserTier;
+  state: BudgetState;
+  /** `YYYY-MM` (UTC) */
+  month: string;
+  spentUsd: number;
+  /** 0 = no limit */
+  monthlyBudgetUsd: number;
+  /** 0 = never refused */
+  hardLimitUsd: number;
+  /** Start of the next UTC month */
+  resetsAt: string;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// ERRORS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export class QuotaExceededError extends Error {
+  readonly code = 'QUOTA_EXCEEDED';
+
+  constructor(public readonly budget: BudgetStatus) {
+    super(`Monthly LLM budget for the ${budget.tier} tier is used up; it resets at ${budget.resetsAt}`);
+    this.name = 'QuotaExceededError';
+  }
+
+  /** Seconds until the budget resets, for Retry-After */
+  get retryAfterSeconds(): number {
+    return Math.max(1, Math.ceil((Date.parse(this.budget.resetsAt) - Date.now()) / 1000));
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// EVALUATION
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export function evaluateBudget(spentUsd: number, budget: TierBudget): BudgetState {
+  if (budget.hardLimitUsd > 0 && spentUsd >= budget.hardLimitUsd) {
+    return 'exceeded';
+  }
+  if (budget.monthlyBudgetUsd > 0 && spentUsd >= budget.monthlyBudgetUsd) {
+    return 'economy';
+  }
+  return 'ok';
+}
+
+function nextMonthStart(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+}
+
+/**
+ * Budget status of a user for the current month. Always 'ok' when
+ * USAGE_BUDGETS_ENABLED is off.
+ */
+export async function checkBudget(
+  userId: string,
+  tier: UserTier,
+  ledger: UsageLedger = getUsageLedger(),
+  now: Date = new Date()
+): Promise<BudgetStatus> {
+  const config = loadUsageConfig();
+  const budget = config.budgets[tier] ?? config.budgets.free;
+  const spentUsd = await ledger.getUserMonthlyCost(userId, now);
+
+  return {
+    tier,
+    state: config.budgetsEnabled ? evaluateBudget(spentUsd, budget) : 'ok',
+    month: periodKey('month', now),
+    spentUsd,
+    monthlyBudgetUsd: budget.monthlyBudgetUsd,
+    hardLimitUsd: budget.hardLimitUsd,
+    resetsAt: nextMonthStart(now).toISOString(),
+  };
+}
+
+/**
+ * Check a user's budget before an LLM-backed request; throws
+ * QuotaExceededError past the hard limit.
+ */
+export async function enforceBudget(
+  userId: string,
+  tier: UserTier,
+  ledger?: UsageLedger
+): Promise<BudgetStatus> {
+  const status = await checkBudget(userId, tier, ledger);
+  if (status.state === 'exceeded') {
+    throw new QuotaExceededError(status);
+  }
+  return status;
+}
+
+/**
+ * Run an LLM-backed flow that can start outside the chat turn (quiz, step
+ * and curriculum generation) under a usage scope for the user, tagged with
+ * purpose. The budget of the tier carried by the enclosing request scope is
+ * enforced first; without one (scheduled jobs) usage is attributed but not
+ * budgeted.
+ */
+export async function runWithBudget<T>(
+  userId: string | undefined,
+  purpose: string,
+  fn: () => Promise<T>,
+  ledger?: UsageLedger
+): Promise<T> {
+  const current = getUsageScope();
+  const scope: UsageScope = !userId || current?.userId === userId ? { ...current } : { userId };
+
+  if (scope.userId && scope.tier) {
+    const status = await enforceBudget(scope.userId, scope.tier, ledger);
+    scope.economy = status.state === 'economy';
+  }
+  return runWithUsageScope({ ...scope, purpose }, fn);
+}
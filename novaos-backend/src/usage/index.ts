@@ -0,0 +1,47 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// USAGE MODULE — LLM Token & Cost Accounting, Tier Budgets
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Ledger
+export {
+  UsageLedger,
+  getUsageLedger,
+  setUsageLedger,
+  periodKey,
+  isPeriodKey,
+  emptyTotals,
+  type UsageEntry,
+  type UsagePeriod,
+  type UsageRanking,
+  type UsageSummary,
+  type UsageTotals,
+} from './ledger.js';
+
+// Budgets
+export {
+  QuotaExceededError,
+  checkBudget,
+  enforceBudget,
+  evaluateBudget,
+  runWithBudget,
+  type BudgetState,
+  type BudgetStatus,
+} from './budget.js';
+
+// Pricing
+export {
+  MODEL_PRICES,
+  estimateCost,
+  getModelPrice,
+  parsePriceOverrides,
+  resetPriceOverrides,
+  type ModelPrice,
+} from './pricing.js';
+
+// Scope
+export {
+  runWithUsageScope,
+  withUsagePurpose,
+  getUsageScope,
+  type UsageScope,
+} from './scope.js';
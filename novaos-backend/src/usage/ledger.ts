@@ -0,0 +1,273 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// USAGE LEDGER — Token & Cost Rollups per User, Tenant and Deployment
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Every LLM call is folded into daily and monthly (UTC) rollup hashes for its
+// user, its tenant and the whole deployment. Each hash holds the period total
+// plus a breakdown by provider/model and by purpose (pipeline gate).
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { getStore, type KeyValueStore } from '../storage/index.js';
+import { loadUsageConfig } from '../config/index.js';
+import { estimateCost } from './pricing.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export type UsagePeriod = 'day' | 'month';
+
+/**
+ * One LLM call.
+ */
+export interface UsageEntry {
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  userId?: string;
+  tenantId?: string;
+  purpose?: string;
+  timestamp?: number;
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export interface UsageSummary {
+  period: UsagePeriod;
+  /** `YYYY-MM-DD` or `YYYY-MM` (UTC) */
+  periodKey: string;
+  totals: UsageTotals;
+  /** Keyed by `provider/model` */
+  byModel: Record<string, UsageTotals>;
+  /** Keyed by purpose; calls without one are `other` */
+  byPurpose: Record<string, UsageTotals>;
+}
+
+export interface UsageRanking {
+  id: string;
+  costUsd: number;
+}
+
+type UsageSubject =
+  | { kind: 'user'; id: string }
+  | { kind: 'tenant'; id: string }
+  | { kind: 'global' };
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONSTANTS & KEYS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const MONTHLY_TTL = 400 * 24 * 60 * 60;  // 13 months
+const TOTAL_FIELD = 'total';
+
+export function periodKey(period: UsagePeriod, date: Date = new Date()): string {
+  const iso = date.toISOString();
+  return period === 'day' ? iso.slice(0, 10) : iso.slice(0, 7);
+}
+
+/**
+ * Validate a client-supplied period key (`YYYY-MM-DD` / `YYYY-MM`).
+ */
+export function isPeriodKey(period: UsagePeriod, key: string): boolean {
+  return period === 'day' ? /^\d{4}-\d{2}-\d{2}$/.test(key) : /^\d{4}-\d{2}$/.test(key);
+}
+
+function subjectPrefix(subject: UsageSubject): string {
+  return subject.kind === 'global' ? 'usage:global' : `usage:${subject.kind}:${subject.id}`;
+}
+
+function rollupKey(subject: UsageSubject, period: UsagePeriod, key: string): string {
+  return `${subjectPrefix(subject)}:${period}:${key}`;
+}
+
+/** Sorted set of users or tenants by spend, for admin rankings */
+function rankingKey(kind: 'user' | 'tenant', month: string): string {
+  return `usage:ranking:${kind}:month:${month}`;
+}
+
+export function emptyTotals(): UsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 };
+}
+
+function addTotals(totals: UsageTotals, delta: UsageTotals): UsageTotals {
+  return {
+    calls: totals.calls + delta.calls,
+    promptTokens: totals.promptTokens + delta.promptTokens,
+    completionTokens: totals.completionTokens + delta.completionTokens,
+    totalTokens: totals.totalTokens + delta.totalTokens,
+    // Sub-cent calls add up; round away float noise only
+    costUsd: Math.round((totals.costUsd + delta.costUsd) * 1e8) / 1e8,
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// LEDGER
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export class UsageLedger {
+  private store: KeyValueStore;
+
+  /** Pending writes per rollup key; read-modify-write must not interleave */
+  private pending = new Map<string, Promise<void>>();
+
+  constructor(store?: KeyValueStore) {
+    this.store = store ?? getStore();
+  }
+
+  /**
+   * Record one call and return its estimated cost in USD.
+   */
+  async record(entry: UsageEntry): Promise<number> {
+    const costUsd = estimateCost(entry.provider, entry.model, entry.promptTokens, entry.completionTokens);
+    const delta: UsageTotals = {
+      calls: 1,
+      promptTokens: entry.promptTokens,
+      completionTokens: entry.completionTokens,
+      totalTokens: entry.promptTokens + entry.completionTokens,
+      costUsd,
+    };
+    const fields = [
+      TOTAL_FIELD,
+      `model:${entry.provider}/${entry.model}`,
+      `purpose:${entry.purpose ?? 'other'}`,
+    ];
+
+    const subjects: UsageSubject[] = [{ kind: 'global' }];
+    if (entry.userId) subjects.push({ kind: 'user', id: entry.userId });
+    if (entry.tenantId) subjects.push({ kind: 'tenant', id: entry.tenantId });
+
+    const date = new Date(entry.timestamp ?? Date.now());
+    const month = periodKey('month', date);
+    const dailyTtl = loadUsageConfig().dailyRetentionDays * 24 * 60 * 60;
+
+    await Promise.all(subjects.flatMap((subject) => [
+      this.apply(rollupKey(subject, 'day', periodKey('day', date)), fields, delta, dailyTtl),
+      this.apply(rollupKey(subject, 'month', month), fields, delta, MONTHLY_TTL).then(async (total) => {
+        if (subject.kind !== 'global') {
+          await this.store.zadd(rankingKey(subject.kind, month), total.costUsd, subject.id);
+          await this.store.expire(rankingKey(subject.kind, month), MONTHLY_TTL);
+        }
+      }),
+    ]));
+
+    return costUsd;
+  }
+
+  /**
+   * Wait for in-flight writes (tests, graceful shutdown).
+   */
+  async flush(): Promise<void> {
+    await Promise.all(this.pending.values());
+  }
+
+  getUserUsage(userId: string, period: UsagePeriod, key: string = periodKey(period)): Promise<UsageSummary> {
+    return this.summary({ kind: 'user', id: userId }, period, key);
+  }
+
+  getTenantUsage(tenantId: string, period: UsagePeriod, key: string = periodKey(period)): Promise<UsageSummary> {
+    return this.summary({ kind: 'tenant', id: tenantId }, period, key);
+  }
+
+  getGlobalUsage(period: UsagePeriod, key: string = periodKey(period)): Promise<UsageSummary> {
+    return this.summary({ kind: 'global' }, period, key);
+  }
+
+  /**
+   * Current-month spend of one user, as used for budget checks.
+   */
+  async getUserMonthlyCost(userId: string, date: Date = new Date()): Promise<number> {
+    const data = await this.store.hget(rollupKey({ kind: 'user', id: userId }, 'month', periodKey('month', date)), TOTAL_FIELD);
+    return data ? (JSON.parse(data) as UsageTotals).costUsd : 0;
+  }
+
+  /**
+   * Highest-spending users or tenants for a month.
+   */
+  async getTopSpenders(kind: 'user' | 'tenant', month: string = periodKey('month'), limit: number = 20): Promise<UsageRanking[]> {
+    const key = rankingKey(kind, month);
+    const ids = await this.store.zrevrange(key, 0, limit - 1);
+    return Promise.all(ids.map(async (id) => ({ id, costUsd: (await this.store.zscore(key, id)) ?? 0 })));
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // INTERNALS
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Add delta to each field of a rollup hash, serialized per key within this
+   * process. Resolves with the updated period total.
+   */
+  private apply(key: string, fields: string[], delta: UsageTotals, ttlSeconds: number): Promise<UsageTotals> {
+    const previous = this.pending.get(key) ?? Promise.resolve();
+    let total = emptyTotals();
+
+    const next = previous.then(async () => {
+      for (const field of fields) {
+        const data = await this.store.hget(key, field);
+        const updated = addTotals(data ? JSON.parse(data) : emptyTotals(), delta);
+        await this.store.hset(key, field, JSON.stringify(updated));
+        if (field === TOTAL_FIELD) total = updated;
+      }
+      await this.store.expire(key, ttlSeconds);
+    });
+
+    const settled = next.catch(() => undefined).finally(() => {
+      if (this.pending.get(key) === settled) this.pending.delete(key);
+    });
+    this.pending.set(key, settled);
+
+    return next.then(() => total);
+  }
+
+  private async summary(subject: UsageSubject, period: UsagePeriod, key: string): Promise<UsageSummary> {
+    const all = await this.store.hgetall(rollupKey(subject, period, key)) ?? {};
+    const summary: UsageSummary = {
+      period,
+      periodKey: key,
+      totals: emptyTotals(),
+      byModel: {},
+      byPurpose: {},
+    };
+
+    for (const [field, data] of Object.entries(all)) {
+      const totals = JSON.parse(data) as UsageTotals;
+      if (field === TOTAL_FIELD) {
+        summary.totals = totals;
+      } else if (field.startsWith('model:')) {
+        summary.byModel[field.slice('model:'.length)] = totals;
+      } else if (field.startsWith('purpose:')) {
+        summary.byPurpose[field.slice('purpose:'.length)] = totals;
+      }
+    }
+
+    return summary;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// SINGLETON
+// ─────────────────────────────────────────────────────────────────────────────────
+
+let usageLedger: UsageLedger | null = null;
+
+export function getUsageLedger(): UsageLedger {
+  if (!usageLedger) {
+    usageLedger = new UsageLedger();
+  }
+  return usageLedger;
+}
+
+/**
+ * Replace the shared ledger (tests).
+ */
+export function setUsageLedger(ledger: UsageLedger | null): void {
+  usageLedger = ledger;
+}
@@ -0,0 +1,106 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// MODEL PRICING — Estimated Cost per LLM Call
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// List prices in USD per 1M tokens. Costs are estimates for budgeting, not
+// invoices: reconcile against the provider dashboards for billing.
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { loadUsageConfig } from '../config/index.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// PRICE TABLE
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Matched by longest prefix, so dated snapshots (`gpt-4o-2024-08-06`)
+ * resolve to their base model.
+ */
+export const MODEL_PRICES: Readonly<Record<string, ModelPrice>> = {
+  'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  'gpt-4-turbo': { inputPerMillion: 10, outputPerMillion: 30 },
+  'gpt-4': { inputPerMillion: 30, outputPerMillion: 60 },
+  'gpt-3.5-turbo': { inputPerMillion: 0.5, outputPerMillion: 1.5 },
+  'gemini-1.5-pro': { inputPerMillion: 1.25, outputPerMillion: 5 },
+  'gemini-1.5-flash': { inputPerMillion: 0.075, outputPerMillion: 0.3 },
+  'gemini-1.5-flash-8b': { inputPerMillion: 0.0375, outputPerMillion: 0.15 },
+};
+
+/**
+ * Unknown hosted models are priced as their family's flagship so that a new
+ * model never slips past a budget for being free.
+ */
+const UNKNOWN_MODEL_PRICES: Readonly<Record<string, ModelPrice>> = {
+  openai: MODEL_PRICES['gpt-4o']!,
+  gemini: MODEL_PRICES['gemini-1.5-pro']!,
+};
+
+const FREE: ModelPrice = { inputPerMillion: 0, outputPerMillion: 0 };
+
+/**
+ * Parse USAGE_MODEL_PRICES entries (`model=input/output`). Malformed
+ * entries are ignored.
+ */
+export function parsePriceOverrides(entries: Record<string, string>): Record<string, ModelPrice> {
+  const prices: Record<string, ModelPrice> = {};
+  for (const [model, value] of Object.entries(entries)) {
+    const [input, output] = value.split('/').map(Number);
+    if (input === undefined || output === undefined || isNaN(input) || isNaN(output)) continue;
+    prices[model] = { inputPerMillion: input, outputPerMillion: output };
+  }
+  return prices;
+}
+
+let cachedOverrides: Record<string, ModelPrice> | null = null;
+
+function priceTable(): Record<string, ModelPrice> {
+  if (!cachedOverrides) {
+    cachedOverrides = parsePriceOverrides(loadUsageConfig().modelPrices);
+  }
+  return { ...MODEL_PRICES, ...cachedOverrides };
+}
+
+/** Drop cached USAGE_MODEL_PRICES overrides (tests) */
+export function resetPriceOverrides(): void {
+  cachedOverrides = null;
+}
+
+/**
+ * Price for a provider/model. Self-hosted and mock models cost nothing.
+ */
+export function getModelPrice(provider: string, model: string): ModelPrice {
+  if (provider === 'local' || provider === 'mock') {
+    return FREE;
+  }
+
+  const table = priceTable();
+  const match = Object.keys(table)
+    .filter((name) => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return match ? table[match]! : UNKNOWN_MODEL_PRICES[provider] ?? FREE;
+}
+
+/**
+ * Estimated cost in USD of one call.
+ */
+export function estimateCost(
+  provider: string,
+  model: string,
+  promptTokens: number,
+  completionTokens: number
+): number {
+  const price = getModelPrice(provider, model);
+  return (promptTokens * price.inputPerMillion + completionTokens * price.outputPerMillion) / 1_000_000;
+}
@@ -0,0 +1,54 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// USAGE SCOPE — Who an LLM Call Is Billed To
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Gates and sub-flows call the LLM without knowing the user. The chat routes
+// open a scope for the request; ProviderManager reads it to attribute usage
+// and to switch to economy models once the user is over budget.
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { AsyncLocalStorage } from 'async_hooks';
+import type { UserTier } from '../security/auth/types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export interface UsageScope {
+  userId?: string;
+  tenantId?: string;
+
+  /** Billing tier of the caller, so flows deeper in the request can check its budget */
+  tier?: UserTier;
+
+  /** Serve this scope from economy models (user is over their monthly budget) */
+  economy?: boolean;
+
+  /** What the call is for, e.g. the pipeline gate id */
+  purpose?: string;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// ASYNC LOCAL STORAGE
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const usageStorage = new AsyncLocalStorage<UsageScope>();
+
+/**
+ * Run fn with LLM usage attributed to the given user/tenant.
+ */
+export function runWithUsageScope<T>(scope: UsageScope, fn: () => T): T {
+  return usageStorage.run({ ...scope }, fn);
+}
+
+/**
+ * Run fn with calls tagged with a purpose, keeping the enclosing user scope.
+ */
+export function withUsagePurpose<T>(purpose: string, fn: () => T): T {
+  return usageStorage.run({ ...usageStorage.getStore(), purpose }, fn);
+}
+
+export function getUsageScope(): UsageScope | undefined {
+  return usageStorage.getStore();
+}
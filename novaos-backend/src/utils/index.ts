@@ -60,3 +60,13 @@ export {
   containsSensitiveData,
   getRedactionPatternNames,
 } from './redaction.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// TIMEZONE — User Timezone Normalization
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export {
+  normalizeTimezone,
+  isValidTimezone,
+  getServerTimezone,
+} from './timezone.js';
@@ -0,0 +1,78 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// TIMEZONE — User Timezone Normalization
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Profile timezones come from users and from memory extraction ("I'm in PST"),
+// so they may be IANA names, UTC offsets or common abbreviations. Everything
+// is normalized to a zone luxon accepts; anything else is rejected so callers
+// fall back to the server's zone.
+//
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { DateTime, IANAZone, Info } from 'luxon';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Abbreviations mapped to the zone they usually mean, so daylight saving
+ * follows the region rather than staying on the standard offset.
+ */
+const TIMEZONE_ABBREVIATIONS: Record<string, string> = {
+  UTC: 'UTC',
+  GMT: 'UTC',
+  PST: 'America/Los_Angeles',
+  PDT: 'America/Los_Angeles',
+  MST: 'America/Denver',
+  MDT: 'America/Denver',
+  CST: 'America/Chicago',
+  CDT: 'America/Chicago',
+  EST: 'America/New_York',
+  EDT: 'America/New_York',
+};
+
+const OFFSET_PATTERN = /^(?:UTC|GMT)([+-])(\d{1,2})(?::?(\d{2}))?$/i;
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// NORMALIZATION
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Normalize a timezone to an IANA name or fixed UTC offset, or null if it
+ * is not recognized.
+ */
+export function normalizeTimezone(value: string | null | undefined): string | null {
+  const trimmed = value?.trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  const abbreviation = TIMEZONE_ABBREVIATIONS[trimmed.toUpperCase()];
+  if (abbreviation) {
+    return abbreviation;
+  }
+
+  const offset = trimmed.match(OFFSET_PATTERN);
+  if (offset) {
+    const hours = Number(offset[2]);
+    const minutes = Number(offset[3] ?? 0);
+    if (hours > 14 || minutes > 59) {
+      return null;
+    }
+    return minutes > 0 ? `UTC${offset[1]}${hours}:${String(minutes).padStart(2, '0')}` : `UTC${offset[1]}${hours}`;
+  }
+
+  return IANAZone.isValidZone(trimmed) ? trimmed : null;
+}
+
+export function isValidTimezone(value: string): boolean {
+  return Info.normalizeZone(value)?.isValid ?? false;
+}
+
+/**
+ * The zone the server's local clock runs in.
+ */
+export function getServerTimezone(): string {
+  return DateTime.local().zoneName ?? 'UTC';
+}
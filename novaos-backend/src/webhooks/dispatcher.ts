@@ -3,7 +3,9 @@
 // ═══════════════════════════════════════════════════════════════════════════════
 //
 // Handles:
-// - Queuing events for delivery
+// - Queuing events for delivery, filtered and projected per webhook
+// - Batching events into one signed envelope per window, in order
+// - Replaying recorded events
 // - HTTP delivery with timeout
 // - Retry with exponential backoff
 // - Failure tracking and webhook disabling
@@ -15,9 +17,13 @@ import type {
   Webhook,
   WebhookDelivery,
   WebhookPayload,
+  WebhookBatchEvent,
+  WebhookBatchPayload,
+  WebhookReplayResult,
   DeliveryAttempt,
 } from './types.js';
 import { WebhookStore, getWebhookStore } from './store.js';
+import { matchesWebhook, projectData } from './filters.js';
 import {
   generateSignature,
   generateWebhookHeaders,
@@ -32,6 +38,9 @@ import { getLogger } from '../logging/index.js';
 const DEFAULT_TIMEOUT_MS = 10000;
 const MAX_PAYLOAD_SIZE = 1024 * 1024; // 1MB
 const PROCESS_INTERVAL_MS = 5000;     // Check for pending deliveries every 5s
+const DEFAULT_BATCH_WINDOW_MS = 60000;
+const MAX_BATCH_EVENTS = 100;
+const BATCH_ENVELOPE_RESERVE = 1024;  // Room for envelope fields around events
 
 // ─────────────────────────────────────────────────────────────────────────────────
 // LOGGER
@@ -90,7 +99,18 @@ export class WebhookDispatcher {
    * Dispatch an event to all subscribed webhooks.
    */
   async dispatch(event: WebhookEvent): Promise<number> {
-    const webhooks = await this.store.getWebhooksForEvent(event.userId, event.type);
+    const userWebhooks = await this.store.getUserWebhooks(event.userId);
+    
+    // Keep events of users with webhooks so they can be replayed
+    if (userWebhooks.length > 0) {
+      await this.store.recordEvent(event);
+    }
+    
+    const webhooks = userWebhooks.filter(webhook =>
+      webhook.status === 'active' &&
+      webhook.events.includes(event.type) &&
+      matchesWebhook(webhook, event)
+    );
     
     if (webhooks.length === 0) {
       logger.debug('No webhooks subscribed to event', { 
@@ -107,12 +127,14 @@ export class WebhookDispatcher {
     });
     
     let queued = 0;
+    let failed = 0;
     
     for (const webhook of webhooks) {
       try {
         await this.queueDelivery(webhook, event);
         queued++;
       } catch (error) {
+        failed++;
         logger.error(
           'Failed to queue webhook delivery',
           error instanceof Error ? error : new Error(String(error)),
@@ -121,19 +143,95 @@ export class WebhookDispatcher {
       }
     }
     
+    // Surface partial failures so the event bus retries; webhooks that were
+    // already queued are skipped on the retry
+    if (failed > 0) {
+      throw new Error(`Failed to queue ${failed} of ${webhooks.length} webhook deliveries for event ${event.id}`);
+    }
+    
     return queued;
   }
   
   /**
-   * Queue a delivery for a specific webhook.
+   * Send recorded events from [from, to) to a webhook again, applying its
+   * current subscriptions and filters. Reports whether the capped event
+   * history no longer reaches back to from.
+   */
+  async replay(webhookId: string, from: Date, to: Date): Promise<WebhookReplayResult> {
+    const webhook = await this.store.getWebhook(webhookId);
+    if (!webhook) {
+      throw new Error('Webhook not found');
+    }
+    
+    const history = await this.store.getEventHistory(webhook.userId, from, to);
+    const events = history.events
+      .filter(event => webhook.events.includes(event.type) && matchesWebhook(webhook, event));
+    
+    for (const event of events) {
+      await this.queueDelivery(webhook, event, true);
+    }
+    
+    logger.info('Replayed events to webhook', {
+      webhookId,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      eventCount: events.length,
+      truncated: history.truncated,
+    });
+    
+    return {
+      queued: events.length,
+      truncated: history.truncated,
+      ...(history.availableFrom && { availableFrom: history.availableFrom }),
+    };
+  }
+  
+  /**
+   * Queue a delivery for a specific webhook, or add the event to its batch.
    */
-  private async queueDelivery(webhook: Webhook, event: WebhookEvent): Promise<WebhookDelivery> {
+  private async queueDelivery(webhook: Webhook, event: WebhookEvent, replayed = false): Promise<void> {
+    const data = projectData(event.data, webhook.options.projection);
+    
+    if (webhook.options.batchEvents) {
+      const batchEvent: WebhookBatchEvent = {
+        eventId: event.id,
+        event: event.type,
+        timestamp: event.timestamp,
+        data,
+        ...(replayed && { replayed }),
+      };
+      
+      const buffered = await this.store.bufferEvent(
+        webhook.id,
+        batchEvent,
+        webhook.options.batchWindowMs ?? DEFAULT_BATCH_WINDOW_MS
+      );
+      
+      if (buffered) {
+        logger.debug('Buffered event for webhook batch', {
+          webhookId: webhook.id,
+          eventId: event.id,
+        });
+      }
+      return;
+    }
+    
+    // Events are delivered at least once; queue each at most once per webhook
+    if (!replayed) {
+      const existing = await this.store.getDeliveryForEvent(webhook.id, event.id);
+      if (existing) {
+        return;
+      }
+    }
+    
     // Build payload
     const payload: WebhookPayload = {
       id: `dlv_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`,
+      eventId: event.id,
       event: event.type,
       timestamp: event.timestamp,
-      data: event.data,
+      data,
+      ...(replayed && { replayed }),
       webhookId: webhook.id,
       userId: event.userId,
       attempt: 1,
@@ -167,6 +265,109 @@ export class WebhookDispatcher {
       webhookId: webhook.id,
       eventId: event.id,
     });
+  }
+  
+  // ═══════════════════════════════════════════════════════════════════════════════
+  // BATCHING
+  // ═══════════════════════════════════════════════════════════════════════════════
+  
+  /**
+   * Turn batches whose window has closed into deliveries.
+   */
+  async flushBatches(): Promise<number> {
+    const webhookIds = await this.store.getOpenBatches();
+    let flushed = 0;
+    
+    for (const webhookId of webhookIds) {
+      try {
+        if (await this.flushBatch(webhookId)) {
+          flushed++;
+        }
+      } catch (error) {
+        logger.error(
+          'Failed to flush webhook batch',
+          error instanceof Error ? error : new Error(String(error)),
+          { webhookId }
+        );
+      }
+    }
+    
+    return flushed;
+  }
+  
+  /**
+   * Queue one envelope of the oldest buffered events. Waits while the
+   * previous envelope is outstanding, so envelopes arrive in sequence.
+   */
+  private async flushBatch(webhookId: string): Promise<WebhookDelivery | null> {
+    const webhook = await this.store.getWebhook(webhookId);
+    if (!webhook) {
+      await this.store.discardBatch(webhookId);
+      return null;
+    }
+    
+    const flushAt = await this.store.getBatchFlushAt(webhookId);
+    if (flushAt !== null && flushAt > Date.now()) return null;
+    if (await this.store.hasBatchInFlight(webhookId)) return null;
+    
+    const buffered = await this.store.peekBatch(webhookId, MAX_BATCH_EVENTS);
+    if (buffered.length === 0) {
+      await this.store.removeBatchEvents(webhookId, 0);
+      return null;
+    }
+    
+    // Fill the envelope up to the payload limit; the rest goes in the next one
+    const events: WebhookBatchEvent[] = [];
+    let size = BATCH_ENVELOPE_RESERVE;
+    for (const event of buffered) {
+      const eventSize = JSON.stringify(event).length + 1;
+      if (events.length > 0 && size + eventSize > MAX_PAYLOAD_SIZE) break;
+      events.push(event);
+      size += eventSize;
+    }
+    
+    const payload: WebhookBatchPayload = {
+      id: `dlv_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`,
+      sequence: await this.store.nextBatchSequence(webhookId),
+      events,
+      webhookId,
+      userId: webhook.userId,
+      attempt: 1,
+      signature: '',
+    };
+    
+    const payloadString = JSON.stringify(payload);
+    
+    if (payloadString.length > MAX_PAYLOAD_SIZE) {
+      // Only possible for a single oversized event, which can never be sent
+      await this.store.removeBatchEvents(webhookId, events.length);
+      logger.error('Dropped oversized event from webhook batch', undefined, {
+        webhookId,
+        eventId: events[0]?.eventId,
+        size: payloadString.length,
+      });
+      return null;
+    }
+    
+    const signature = generateSignature(payloadString, webhook.secret);
+    
+    const delivery = await this.store.createDelivery(
+      webhook,
+      payload.id,
+      payloadString,
+      signature,
+      events.map(event => event.eventId)
+    );
+    await this.store.setBatchInFlight(webhookId, delivery.id);
+    await this.store.removeBatchEvents(webhookId, events.length);
+    await this.store.createDeliveryLog(delivery, 'batch');
+    
+    logger.debug('Queued webhook batch delivery', {
+      deliveryId: delivery.id,
+      webhookId,
+      sequence: payload.sequence,
+      eventCount: events.length,
+    });
     
     return delivery;
   }
@@ -181,6 +382,8 @@ export class WebhookDispatcher {
   private async processPendingDeliveries(): Promise<void> {
     if (!this.running) return;
     
+    await this.flushBatches();
+    
     try {
       const pending = await this.store.getPendingDeliveries(20);
       
@@ -340,7 +543,7 @@ export class WebhookDispatcher {
       payloadString,
       webhook.secret,
       delivery.id,
-      payload.event,
+      payload.event ?? 'batch',
       webhook.id,
       webhook.options.customHeaders
     );
@@ -453,6 +656,7 @@ export class WebhookDispatcher {
     // Create test payload
     const testPayload: WebhookPayload = {
       id: `test_${Date.now().toString(36)}`,
+      eventId: `evt_test_${Date.now().toString(36)}`,
       event: 'goal.created', // Use a common event type
       timestamp: new Date().toISOString(),
       data: {
@@ -8,7 +8,7 @@ import type {
   WebhookEventCategory,
 } from './types.js';
 import { getEventCategory } from './types.js';
-import { getWebhookDispatcher } from './dispatcher.js';
+import { getEventBus } from '../events/bus.js';
 import { getLogger } from '../logging/index.js';
 
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -60,8 +60,9 @@ export function createEvent(
 // ─────────────────────────────────────────────────────────────────────────────────
 
 /**
- * Emit a webhook event.
- * This queues the event for delivery to all subscribed webhooks.
+ * Emit a domain event.
+ * The event is written to the event bus outbox and delivered at least once
+ * to webhooks, analytics and notifications. Never throws.
  */
 export async function emitEvent(
   type: WebhookEventType,
@@ -81,11 +82,10 @@ export async function emitEvent(
   });
   
   try {
-    const dispatcher = getWebhookDispatcher();
-    await dispatcher.dispatch(event);
+    await getEventBus().publish(event);
   } catch (error) {
     logger.error(
-      'Failed to dispatch webhook event',
+      'Failed to publish webhook event',
       error instanceof Error ? error : new Error(String(error)),
       { eventId: event.id, type: event.type }
     );
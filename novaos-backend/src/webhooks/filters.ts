@@ -0,0 +1,266 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// WEBHOOK FILTERS — Severity, Payload Filters and Field Projection
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type {
+  Webhook,
+  WebhookEvent,
+  WebhookFilter,
+  WebhookFilterOperator,
+  WebhookOptions,
+  WebhookProjection,
+  WebhookSeverity,
+} from './types.js';
+import { ALL_EVENT_TYPES, EVENT_SEVERITY, SEVERITY_RANK } from './types.js';
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export const MAX_FILTERS = 20;
+export const MAX_PROJECTION_FIELDS = 50;
+export const MIN_BATCH_WINDOW_MS = 1000;
+export const MAX_BATCH_WINDOW_MS = 3600000;   // 1 hour
+
+const FILTER_OPERATORS: readonly WebhookFilterOperator[] = [
+  'gt', 'gte', 'lt', 'lte', 'eq', 'neq', 'in', 'exists',
+];
+
+const SEVERITIES: readonly WebhookSeverity[] = ['low', 'medium', 'high'];
+
+const FIELD_PATH_PATTERN = /^[A-Za-z0-9_]+(\.[A-Za-z0-9_]+)*$/;
+
+/** Segments that would reach into prototypes rather than event data */
+const RESERVED_PATH_SEGMENTS: ReadonlySet<string> = new Set(['__proto__', 'prototype', 'constructor']);
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// MATCHING
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Whether an event passes a webhook's severity threshold and filters.
+ */
+export function matchesWebhook(webhook: Webhook, event: WebhookEvent): boolean {
+  const { minSeverity, filters } = webhook.options;
+
+  if (minSeverity && SEVERITY_RANK[EVENT_SEVERITY[event.type]] < SEVERITY_RANK[minSeverity]) {
+    return false;
+  }
+
+  return (filters ?? [])
+    .filter(filter => !filter.event || filter.event === event.type)
+    .every(filter => matchesFilter(filter, event.data));
+}
+
+export function matchesFilter(filter: WebhookFilter, data: Record<string, unknown>): boolean {
+  const actual = getField(data, filter.field);
+  const expected = filter.value;
+
+  switch (filter.operator) {
+    case 'exists':
+      return (actual !== undefined && actual !== null) === (expected ?? true);
+    case 'eq':
+      return actual === expected;
+    case 'neq':
+      return actual !== expected;
+    case 'in':
+      return Array.isArray(expected) && expected.some(value => value === actual);
+    case 'gt':
+      return typeof actual === 'number' && typeof expected === 'number' && actual > expected;
+    case 'gte':
+      return typeof actual === 'number' && typeof expected === 'number' && actual >= expected;
+    case 'lt':
+      return typeof actual === 'number' && typeof expected === 'number' && actual < expected;
+    case 'lte':
+      return typeof actual === 'number' && typeof expected === 'number' && actual <= expected;
+    default:
+      return false;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// PROJECTION
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Copy of event data trimmed to a webhook's projection.
+ */
+export function projectData(
+  data: Record<string, unknown>,
+  projection?: WebhookProjection
+): Record<string, unknown> {
+  if (!projection || (!projection.include?.length && !projection.exclude?.length)) {
+    return data;
+  }
+
+  let result: Record<string, unknown>;
+
+  if (projection.include?.length) {
+    result = {};
+    for (const path of projection.include) {
+      const value = getField(data, path);
+      if (value !== undefined) {
+        setField(result, path, clone(value));
+      }
+    }
+  } else {
+    result = clone(data);
+  }
+
+  for (const path of projection.exclude ?? []) {
+    deleteField(result, path);
+  }
+
+  return result;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// VALIDATION
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Check the filtering and batching options of a create or update request.
+ * Throws with a message suitable for a 400 response.
+ */
+export function validateFilterOptions(options: Partial<WebhookOptions> | undefined): void {
+  if (!options) return;
+
+  if (options.minSeverity !== undefined && !SEVERITIES.includes(options.minSeverity)) {
+    throw new Error(`minSeverity must be one of: ${SEVERITIES.join(', ')}`);
+  }
+
+  if (options.filters !== undefined) {
+    if (!Array.isArray(options.filters)) {
+      throw new Error('filters must be an array');
+    }
+    if (options.filters.length > MAX_FILTERS) {
+      throw new Error(`At most ${MAX_FILTERS} filters per webhook`);
+    }
+    options.filters.forEach(validateFilter);
+  }
+
+  if (options.projection !== undefined) {
+    for (const key of ['include', 'exclude'] as const) {
+      const paths = options.projection[key];
+      if (paths === undefined) continue;
+
+      if (!Array.isArray(paths) || paths.length > MAX_PROJECTION_FIELDS) {
+        throw new Error(`projection.${key} must be an array of at most ${MAX_PROJECTION_FIELDS} fields`);
+      }
+      for (const path of paths) {
+        validateFieldPath(path);
+      }
+    }
+  }
+
+  if (options.batchEvents !== undefined && typeof options.batchEvents !== 'boolean') {
+    throw new Error('batchEvents must be a boolean');
+  }
+
+  if (options.batchWindowMs !== undefined) {
+    const window = options.batchWindowMs;
+    if (typeof window !== 'number' || window < MIN_BATCH_WINDOW_MS || window > MAX_BATCH_WINDOW_MS) {
+      throw new Error(`batchWindowMs must be between ${MIN_BATCH_WINDOW_MS} and ${MAX_BATCH_WINDOW_MS}`);
+    }
+  }
+}
+
+function validateFilter(filter: WebhookFilter): void {
+  if (!filter || typeof filter !== 'object') {
+    throw new Error('Each filter must be an object');
+  }
+
+  if (filter.event !== undefined && !ALL_EVENT_TYPES.includes(filter.event)) {
+    throw new Error(`Invalid filter event type: ${filter.event}`);
+  }
+
+  validateFieldPath(filter.field);
+
+  if (!FILTER_OPERATORS.includes(filter.operator)) {
+    throw new Error(`Invalid filter operator: ${filter.operator}`);
+  }
+
+  const { operator, value } = filter;
+
+  if ((operator === 'gt' || operator === 'gte' || operator === 'lt' || operator === 'lte') &&
+      typeof value !== 'number') {
+    throw new Error(`Filter operator ${operator} requires a numeric value`);
+  }
+
+  if (operator === 'in' && !Array.isArray(value)) {
+    throw new Error('Filter operator in requires an array value');
+  }
+
+  if (operator === 'exists' && value !== undefined && typeof value !== 'boolean') {
+    throw new Error('Filter operator exists takes an optional boolean value');
+  }
+
+  if ((operator === 'eq' || operator === 'neq') &&
+      !['string', 'number', 'boolean'].includes(typeof value)) {
+    throw new Error(`Filter operator ${operator} requires a string, number or boolean value`);
+  }
+}
+
+function validateFieldPath(path: unknown): void {
+  if (typeof path !== 'string' || !FIELD_PATH_PATTERN.test(path)) {
+    throw new Error(`Invalid field path: ${String(path)}`);
+  }
+  if (path.split('.').some(segment => RESERVED_PATH_SEGMENTS.has(segment))) {
+    throw new Error(`Invalid field path: ${path}`);
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// HELPERS
+// ─────────────────────────────────────────────────────────────────────────────────
+// Paths only ever follow own properties, so one saved before reserved segments
+// were rejected still cannot read or modify a prototype.
+
+function getField(data: Record<string, unknown>, path: string): unknown {
+  let current: unknown = data;
+
+  for (const segment of path.split('.')) {
+    if (current === null || typeof current !== 'object' || Array.isArray(current) ||
+        !Object.hasOwn(current, segment)) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+
+  return current;
+}
+
+function setField(target: Record<string, unknown>, path: string, value: unknown): void {
+  const segments = path.split('.');
+  const last = segments.pop()!;
+  let current = target;
+
+  for (const segment of segments) {
+    const next = Object.hasOwn(current, segment) ? current[segment] : undefined;
+    if (next === null || typeof next !== 'object' || Array.isArray(next)) {
+      defineField(current, segment, {});
+    }
+    current = current[segment] as Record<string, unknown>;
+  }
+
+  defineField(current, last, value);
+}
+
+function deleteField(target: Record<string, unknown>, path: string): void {
+  const segments = path.split('.');
+  const last = segments.pop()!;
+  const parent = segments.length > 0 ? getField(target, segments.join('.')) : target;
+
+  if (parent !== null && typeof parent === 'object' && !Array.isArray(parent) && Object.hasOwn(parent, last)) {
+    delete (parent as Record<string, unknown>)[last];
+  }
+}
+
+/** Assign as an own property, even for a key such as __proto__ */
+function defineField(target: Record<string, unknown>, key: string, value: unknown): void {
+  Object.defineProperty(target, key, { value, writable: true, enumerable: true, configurable: true });
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
@@ -9,7 +9,13 @@ export type {
   WebhookStatus,
   Webhook,
   WebhookOptions,
+  WebhookSeverity,
+  WebhookFilterOperator,
+  WebhookFilter,
+  WebhookProjection,
   WebhookEvent,
+  WebhookEventHistory,
+  WebhookReplayResult,
   DeliveryStatus,
   WebhookDelivery,
   DeliveryAttempt,
@@ -17,15 +23,31 @@ export type {
   CreateWebhookRequest,
   UpdateWebhookRequest,
   WebhookPayload,
+  WebhookBatchEvent,
+  WebhookBatchPayload,
 } from './types.js';
 
 export {
   DEFAULT_WEBHOOK_OPTIONS,
   EVENT_CATEGORIES,
   ALL_EVENT_TYPES,
+  EVENT_SEVERITY,
+  SEVERITY_RANK,
   getEventCategory,
 } from './types.js';
 
+// Filters
+export {
+  matchesWebhook,
+  matchesFilter,
+  projectData,
+  validateFilterOptions,
+  MAX_FILTERS,
+  MAX_PROJECTION_FIELDS,
+  MIN_BATCH_WINDOW_MS,
+  MAX_BATCH_WINDOW_MS,
+} from './filters.js';
+
 // Signature
 export {
   generateWebhookSecret,
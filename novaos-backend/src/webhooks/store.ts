@@ -7,7 +7,10 @@ import { generateWebhookSecret } from './signature.js';
 import type {
   Webhook,
   WebhookStatus,
+  WebhookEvent,
+  WebhookEventHistory,
   WebhookEventType,
+  WebhookBatchEvent,
   WebhookDelivery,
   DeliveryStatus,
   DeliveryLog,
@@ -25,8 +28,11 @@ import type {
 const WEBHOOK_TTL = 365 * 24 * 60 * 60;        // 1 year
 const DELIVERY_TTL = 30 * 24 * 60 * 60;        // 30 days
 const DELIVERY_LOG_TTL = 90 * 24 * 60 * 60;    // 90 days
+const EVENT_HISTORY_TTL = 30 * 24 * 60 * 60;   // 30 days
+const BATCH_TTL = 24 * 60 * 60;                // 1 day
 const MAX_WEBHOOKS_PER_USER = 10;
 const MAX_DELIVERY_HISTORY = 100;
+const MAX_EVENT_HISTORY = 1000;               // Per user; replays past it report truncation
 
 // ─────────────────────────────────────────────────────────────────────────────────
 // KEY GENERATION
@@ -48,6 +54,10 @@ function webhookDeliveriesKey(webhookId: string): string {
   return `webhook:${webhookId}:deliveries`;
 }
 
+function eventDeliveryKey(webhookId: string, eventId: string): string {
+  return `webhook:${webhookId}:event:${eventId}`;
+}
+
 function deliveryLogKey(deliveryId: string): string {
   return `webhook:delivery:${deliveryId}:log`;
 }
@@ -56,6 +66,34 @@ function pendingDeliveriesKey(): string {
   return 'webhook:pending:queue';
 }
 
+function userEventsKey(userId: string): string {
+  return `webhook:user:${userId}:events`;
+}
+
+function batchEventsKey(webhookId: string): string {
+  return `webhook:${webhookId}:batch:events`;
+}
+
+function batchedEventKey(webhookId: string, eventId: string): string {
+  return `webhook:${webhookId}:batch:event:${eventId}`;
+}
+
+function batchFlushAtKey(webhookId: string): string {
+  return `webhook:${webhookId}:batch:flush_at`;
+}
+
+function batchSequenceKey(webhookId: string): string {
+  return `webhook:${webhookId}:batch:seq`;
+}
+
+function batchInFlightKey(webhookId: string): string {
+  return `webhook:${webhookId}:batch:in_flight`;
+}
+
+function openBatchesKey(): string {
+  return 'webhook:batch:open';
+}
+
 function generateId(): string {
   return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
 }
@@ -112,6 +150,11 @@ export class WebhookStore {
         retryBackoffMultiplier: request.options?.retryBackoffMultiplier ?? 2,
         timeoutMs: request.options?.timeoutMs ?? 10000,
         customHeaders: request.customHeaders,
+        minSeverity: request.options?.minSeverity,
+        filters: request.options?.filters,
+        projection: request.options?.projection,
+        batchEvents: request.options?.batchEvents,
+        batchWindowMs: request.options?.batchWindowMs,
       },
     };
     
@@ -169,6 +212,7 @@ export class WebhookStore {
     
     // Delete webhook
     await this.store.delete(webhookKey(id));
+    await this.discardBatch(id);
     
     // Remove from user's list
     const userWebhooks = await this.getUserWebhookIds(userId);
@@ -261,6 +305,142 @@ export class WebhookStore {
     return newSecret;
   }
   
+  // ═══════════════════════════════════════════════════════════════════════════════
+  // EVENT HISTORY
+  // ═══════════════════════════════════════════════════════════════════════════════
+  
+  /**
+   * Keep an event for replay. Only events for users with webhooks are kept.
+   */
+  async recordEvent(event: WebhookEvent): Promise<void> {
+    const key = userEventsKey(event.userId);
+    await this.store.lpush(key, JSON.stringify(event));
+    await this.store.ltrim(key, 0, MAX_EVENT_HISTORY - 1);
+    await this.store.expire(key, EVENT_HISTORY_TTL);
+  }
+  
+  /**
+   * Recorded events with from <= timestamp < to, oldest first. Truncated
+   * when the history is full and its oldest event is after from.
+   */
+  async getEventHistory(userId: string, from: Date, to: Date): Promise<WebhookEventHistory> {
+    const items = (await this.store.lrange(userEventsKey(userId), 0, -1)).reverse();
+    const seen = new Set<string>();
+    const events: WebhookEvent[] = [];
+    
+    const oldest = items.length >= MAX_EVENT_HISTORY
+      ? (JSON.parse(items[0]!) as WebhookEvent).timestamp
+      : undefined;
+    const truncated = oldest !== undefined && new Date(oldest).getTime() > from.getTime();
+    
+    for (const item of items) {
+      const event: WebhookEvent = JSON.parse(item);
+      const time = new Date(event.timestamp).getTime();
+      
+      // Redelivered events are recorded again
+      if (seen.has(event.id)) continue;
+      seen.add(event.id);
+      
+      if (time >= from.getTime() && time < to.getTime()) {
+        events.push(event);
+      }
+    }
+    
+    return {
+      events: events.sort((a, b) => a.timestamp.localeCompare(b.timestamp)),
+      truncated,
+      ...(truncated && { availableFrom: oldest }),
+    };
+  }
+  
+  // ═══════════════════════════════════════════════════════════════════════════════
+  // BATCHING
+  // ═══════════════════════════════════════════════════════════════════════════════
+  
+  /**
+   * Add an event to a webhook's open batch, opening one that closes after
+   * windowMs if needed. Returns false for an event already batched, unless
+   * it is being replayed.
+   */
+  async bufferEvent(webhookId: string, event: WebhookBatchEvent, windowMs: number): Promise<boolean> {
+    const markerKey = batchedEventKey(webhookId, event.eventId);
+    if (!event.replayed && await this.store.exists(markerKey)) {
+      return false;
+    }
+    
+    const length = await this.store.lpush(batchEventsKey(webhookId), JSON.stringify(event));
+    await this.store.expire(batchEventsKey(webhookId), BATCH_TTL);
+    await this.store.set(markerKey, '1', BATCH_TTL);
+    
+    if (length === 1) {
+      await this.store.set(batchFlushAtKey(webhookId), String(Date.now() + windowMs), BATCH_TTL);
+      await this.store.sadd(openBatchesKey(), webhookId);
+    }
+    
+    return true;
+  }
+  
+  async getOpenBatches(): Promise<string[]> {
+    return this.store.smembers(openBatchesKey());
+  }
+  
+  /**
+   * When the webhook's open batch window closes (ms since epoch).
+   */
+  async getBatchFlushAt(webhookId: string): Promise<number | null> {
+    const data = await this.store.get(batchFlushAtKey(webhookId));
+    return data ? Number(data) : null;
+  }
+  
+  /**
+   * Oldest buffered events, in the order they were added.
+   */
+  async peekBatch(webhookId: string, limit: number): Promise<WebhookBatchEvent[]> {
+    const items = await this.store.lrange(batchEventsKey(webhookId), -limit, -1);
+    return items.reverse().map(item => JSON.parse(item) as WebhookBatchEvent);
+  }
+  
+  /**
+   * Drop the oldest count events once they are in a delivery. Events added
+   * since the peek stay buffered and the batch stays open for them.
+   */
+  async removeBatchEvents(webhookId: string, count: number): Promise<void> {
+    const key = batchEventsKey(webhookId);
+    await this.store.ltrim(key, 0, -(count + 1));
+    
+    const remaining = await this.store.lrange(key, 0, 0);
+    if (remaining.length === 0) {
+      await this.store.srem(openBatchesKey(), webhookId);
+      await this.store.delete(batchFlushAtKey(webhookId));
+    }
+  }
+  
+  async discardBatch(webhookId: string): Promise<void> {
+    await this.store.delete(batchEventsKey(webhookId));
+    await this.store.delete(batchFlushAtKey(webhookId));
+    await this.store.delete(batchInFlightKey(webhookId));
+    await this.store.srem(openBatchesKey(), webhookId);
+  }
+  
+  async nextBatchSequence(webhookId: string): Promise<number> {
+    return this.store.incr(batchSequenceKey(webhookId));
+  }
+  
+  async setBatchInFlight(webhookId: string, deliveryId: string): Promise<void> {
+    await this.store.set(batchInFlightKey(webhookId), deliveryId, DELIVERY_TTL);
+  }
+  
+  /**
+   * Whether the webhook's last batch delivery is still pending or retrying.
+   */
+  async hasBatchInFlight(webhookId: string): Promise<boolean> {
+    const id = await this.store.get(batchInFlightKey(webhookId));
+    if (!id) return false;
+    
+    const delivery = await this.getDelivery(id);
+    return delivery !== null && delivery.status !== 'delivered' && delivery.status !== 'failed';
+  }
+  
   // ═══════════════════════════════════════════════════════════════════════════════
   // EVENT SUBSCRIPTIONS
   // ═══════════════════════════════════════════════════════════════════════════════
@@ -306,7 +486,8 @@ export class WebhookStore {
     webhook: Webhook,
     eventId: string,
     payload: string,
-    signature: string
+    signature: string,
+    eventIds?: string[]
   ): Promise<WebhookDelivery> {
     const id = generateId();
     const now = new Date().toISOString();
@@ -319,6 +500,7 @@ export class WebhookStore {
       url: webhook.url,
       payload,
       signature,
+      eventIds,
       status: 'pending',
       attempt: 0,
       maxAttempts: webhook.options.maxRetries + 1,
@@ -328,6 +510,7 @@ export class WebhookStore {
     
     // Save delivery
     await this.store.set(deliveryKey(id), JSON.stringify(delivery), DELIVERY_TTL);
+    await this.store.set(eventDeliveryKey(webhook.id, eventId), id, DELIVERY_TTL);
     
     // Add to pending queue
     await this.store.lpush(pendingDeliveriesKey(), id);
@@ -344,6 +527,14 @@ export class WebhookStore {
     return data ? JSON.parse(data) : null;
   }
   
+  /**
+   * The delivery already queued for an event, if any.
+   */
+  async getDeliveryForEvent(webhookId: string, eventId: string): Promise<WebhookDelivery | null> {
+    const id = await this.store.get(eventDeliveryKey(webhookId, eventId));
+    return id ? this.getDelivery(id) : null;
+  }
+  
   async updateDelivery(delivery: WebhookDelivery): Promise<void> {
     await this.store.set(deliveryKey(delivery.id), JSON.stringify(delivery), DELIVERY_TTL);
   }
@@ -402,7 +593,7 @@ export class WebhookStore {
   // DELIVERY LOGS
   // ═══════════════════════════════════════════════════════════════════════════════
   
-  async createDeliveryLog(delivery: WebhookDelivery, eventType: WebhookEventType): Promise<DeliveryLog> {
+  async createDeliveryLog(delivery: WebhookDelivery, eventType: WebhookEventType | 'batch'): Promise<DeliveryLog> {
     const log: DeliveryLog = {
       deliveryId: delivery.id,
       webhookId: delivery.webhookId,
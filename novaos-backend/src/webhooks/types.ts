@@ -113,11 +113,45 @@ export interface WebhookOptions {
   customHeaders?: Record<string, string>;
   
   // Filtering
-  minSeverity?: 'low' | 'medium' | 'high';
+  minSeverity?: WebhookSeverity;
+  filters?: WebhookFilter[];      // Every filter that applies to an event must match
+  projection?: WebhookProjection; // Trim event data, e.g. to drop PII
   
-  // Batching (future feature)
+  // Batching
   batchEvents?: boolean;
-  batchWindowMs?: number;
+  batchWindowMs?: number;       // Default: 60000ms
+}
+
+export type WebhookSeverity = 'low' | 'medium' | 'high';
+
+export type WebhookFilterOperator =
+  | 'gt'      // greater than
+  | 'gte'     // greater than or equal
+  | 'lt'      // less than
+  | 'lte'     // less than or equal
+  | 'eq'      // equal
+  | 'neq'     // not equal
+  | 'in'      // one of value[]
+  | 'exists'; // present (value: false for absent)
+
+/**
+ * Condition on an event's data, e.g. only goal.progress where progress >= 50:
+ * { event: 'goal.progress', field: 'goal.progress', operator: 'gte', value: 50 }
+ */
+export interface WebhookFilter {
+  event?: WebhookEventType;     // Applies to every event type when omitted
+  field: string;                // Dot path into event data
+  operator: WebhookFilterOperator;
+  value?: string | number | boolean | Array<string | number>;
+}
+
+/**
+ * Dot paths into event data. Include keeps only the listed fields; exclude
+ * then removes fields from what is left.
+ */
+export interface WebhookProjection {
+  include?: string[];
+  exclude?: string[];
 }
 
 export const DEFAULT_WEBHOOK_OPTIONS: WebhookOptions = {
@@ -150,6 +184,22 @@ export interface WebhookEvent {
   environment: string;       // production, staging, etc.
 }
 
+/**
+ * Recorded events in a time range. History is capped per user, so older
+ * events in the range may have been dropped.
+ */
+export interface WebhookEventHistory {
+  events: WebhookEvent[];
+  truncated: boolean;        // Events before availableFrom were dropped
+  availableFrom?: string;    // Oldest event still kept, when truncated
+}
+
+export interface WebhookReplayResult {
+  queued: number;
+  truncated: boolean;
+  availableFrom?: string;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // DELIVERY TRACKING
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -171,6 +221,7 @@ export interface WebhookDelivery {
   url: string;
   payload: string;           // JSON string
   signature: string;         // HMAC signature
+  eventIds?: string[];       // Events in a batch delivery
   
   // Status
   status: DeliveryStatus;
@@ -210,7 +261,7 @@ export interface DeliveryLog {
   deliveryId: string;
   webhookId: string;
   eventId: string;
-  eventType: WebhookEventType;
+  eventType: WebhookEventType | 'batch';
   
   // Final status
   finalStatus: DeliveryStatus;
@@ -254,9 +305,38 @@ export interface UpdateWebhookRequest {
 
 export interface WebhookPayload {
   id: string;                // Delivery ID
+  eventId: string;           // Stable across retries and redeliveries
   event: WebhookEventType;
   timestamp: string;
   data: Record<string, unknown>;
+  replayed?: boolean;        // Sent again by a replay request
+  
+  // Metadata
+  webhookId: string;
+  userId: string;
+  attempt: number;
+  
+  // Verification
+  signature: string;
+}
+
+export interface WebhookBatchEvent {
+  eventId: string;
+  event: WebhookEventType;
+  timestamp: string;
+  data: Record<string, unknown>;
+  replayed?: boolean;
+}
+
+/**
+ * Envelope for webhooks with batchEvents. Events keep the order they were
+ * dispatched in, and a webhook's next batch is not sent until this one is
+ * delivered or has failed for good, so sequence increases by one per batch.
+ */
+export interface WebhookBatchPayload {
+  id: string;                // Delivery ID
+  sequence: number;
+  events: WebhookBatchEvent[];
   
   // Metadata
   webhookId: string;
@@ -284,6 +364,43 @@ export const EVENT_CATEGORIES: Record<WebhookEventCategory, WebhookEventType[]>
 
 export const ALL_EVENT_TYPES: WebhookEventType[] = Object.values(EVENT_CATEGORIES).flat();
 
+export const EVENT_SEVERITY: Record<WebhookEventType, WebhookSeverity> = {
+  'goal.created': 'medium',
+  'goal.updated': 'low',
+  'goal.completed': 'medium',
+  'goal.abandoned': 'medium',
+  'goal.progress': 'low',
+  'quest.created': 'low',
+  'quest.started': 'low',
+  'quest.completed': 'medium',
+  'quest.blocked': 'medium',
+  'step.created': 'low',
+  'step.completed': 'low',
+  'step.skipped': 'low',
+  'spark.suggested': 'low',
+  'spark.accepted': 'low',
+  'spark.completed': 'low',
+  'spark.expired': 'low',
+  'spark.declined': 'low',
+  'memory.created': 'low',
+  'memory.updated': 'low',
+  'memory.deleted': 'medium',
+  'memory.decayed': 'low',
+  'chat.message': 'low',
+  'chat.veto': 'high',
+  'chat.shield_triggered': 'high',
+  'user.profile_updated': 'medium',
+  'user.preferences_updated': 'low',
+  'system.health_degraded': 'high',
+  'system.job_failed': 'high',
+};
+
+export const SEVERITY_RANK: Record<WebhookSeverity, number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+};
+
 export function getEventCategory(eventType: WebhookEventType): WebhookEventCategory {
   const category = eventType.split('.')[0] as WebhookEventCategory;
   return category;